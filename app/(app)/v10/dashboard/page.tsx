@@ -5,6 +5,13 @@ import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
 import { isAdminUser } from "@/lib/roleChecks";
 import { listStudents } from "@/lib/students";
+import {
+  calendarEventTypeLabel,
+  listCalendarEvents,
+  upcomingCalendarEvents,
+  type CalendarEvent,
+} from "@/lib/academicCalendar";
+import { AcademicCalendarView } from "@/components/calendar/AcademicCalendarView";
 
 function normalizeRoleNames(user: ReturnType<typeof useAuth>["user"]): string[] {
   const roles: string[] = [];
@@ -42,6 +49,7 @@ export default function DashboardPage() {
     sessionId: string;
     total: number;
   } | null>(null);
+  const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
 
   const roleNames = useMemo(() => normalizeRoleNames(user), [user]);
   const isParent = roleNames.includes("parent");
@@ -117,6 +125,35 @@ export default function DashboardPage() {
     };
   }, [schoolContext.current_session_id]);
 
+  useEffect(() => {
+    let cancelled = false;
+    const sessionId = schoolContext.current_session_id;
+
+    if (!sessionId || !isAdmin) {
+      return;
+    }
+
+    listCalendarEvents({ session_id: sessionId })
+      .then((events) => {
+        if (!cancelled) {
+          setCalendarEvents(events);
+        }
+      })
+      .catch((error) => {
+        console.error("Unable to load academic calendar", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAdmin, schoolContext.current_session_id]);
+
+  const upcomingEvents = useMemo(
+    () =>
+      upcomingCalendarEvents(calendarEvents, new Date().toISOString().slice(0, 10)),
+    [calendarEvents],
+  );
+
   const currentSessionName = schoolContext.current_session?.name?.trim();
   const currentTermName = schoolContext.current_term?.name?.trim();
   const currentSessionId = schoolContext.current_session_id
@@ -321,6 +358,61 @@ export default function DashboardPage() {
           </div>
         </div>
       </div>
+
+      <div className="row gutters-20">
+        <div className="col-12 col-xl-8">
+          <div className="card height-auto pd-b-20">
+            <div className="card-body">
+              <div className="heading-layout1">
+                <div className="item-title">
+                  <h3>Academic Calendar</h3>
+                </div>
+                <Link href="/v11/academic-calendar" className="dashboard-card-link">
+                  Manage
+                  <span aria-hidden="true">→</span>
+                </Link>
+              </div>
+              <AcademicCalendarView
+                events={calendarEvents}
+                term={schoolContext.current_term}
+                defaultView="week"
+              />
+            </div>
+          </div>
+        </div>
+        <div className="col-12 col-xl-4">
+          <div className="card height-auto pd-b-20">
+            <div className="card-body">
+              <div className="heading-layout1 mg-b-17">
+                <div className="item-title">
+                  <h3>Upcoming Events</h3>
+                </div>
+              </div>
+              {upcomingEvents.length ? (
+                <ul className="list-unstyled mb-0">
+                  {upcomingEvents.map((event) => (
+                    <li key={event.id} className="mb-3">
+                      <strong>{event.title}</strong>
+                      <div className="text-muted small">
+                        {calendarEventTypeLabel(event.type)} ·{" "}
+                        {event.start_date.slice(0, 10)}
+                        {event.end_date && event.end_date.slice(0, 10) !== event.start_date.slice(0, 10)
+                          ? ` to ${event.end_date.slice(0, 10)}`
+                          : ""}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-muted mb-0">
+                  Nothing scheduled. Add holidays, breaks and exam weeks on the
+                  academic calendar.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
     </>
   );
 
@@ -9,6 +9,7 @@ import { resolveBackendUrl } from "@/lib/config";
 import { listSessions, type Session } from "@/lib/sessions";
 import { listTermsBySession, type Term } from "@/lib/terms";
 import { updateSchoolProfile } from "@/lib/school";
+import { fetchTermOpenedDays } from "@/lib/academicCalendar";
 
 interface FormState {
   name: string;
@@ -47,6 +48,9 @@ export default function EditSchoolProfilePage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [calendarOpenedDays, setCalendarOpenedDays] = useState<number | null>(
+    null,
+  );
 
   const school = schoolContext.school;
 
@@ -147,6 +151,40 @@ export default function EditSchoolProfilePage() {
     }
   }, [form.current_session_id, loadTerms]);
 
+  const selectedTerm = useMemo(
+    () =>
+      (termsBySession[form.current_session_id] ?? []).find(
+        (term) => `${term.id}` === form.current_term_id,
+      ) ?? null,
+    [termsBySession, form.current_session_id, form.current_term_id],
+  );
+
+  useEffect(() => {
+    setCalendarOpenedDays(null);
+    if (!form.current_session_id || !selectedTerm) {
+      return;
+    }
+    let cancelled = false;
+    fetchTermOpenedDays(form.current_session_id, selectedTerm)
+      .then((count) => {
+        if (cancelled) {
+          return;
+        }
+        setCalendarOpenedDays(count);
+        // The calendar is the source of the count; a hand-typed figure is
+        // only for schools that have not filled in their calendar.
+        if (count !== null) {
+          setForm((prev) => ({ ...prev, term_school_opened_days: `${count}` }));
+        }
+      })
+      .catch((err) =>
+        console.error("Unable to count school days from the calendar", err),
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [form.current_session_id, selectedTerm]);
+
   const handleFieldChange = (
     key: keyof FormState,
     value: string,
@@ -354,6 +392,31 @@ export default function EditSchoolProfilePage() {
                     <small className="form-text text-muted">
                       If left empty, this will not show on result pages.
                     </small>
+                    {calendarOpenedDays !== null &&
+                    `${calendarOpenedDays}` === form.term_school_opened_days ? (
+                      <small className="form-text">
+                        Counted from the academic calendar for the selected term.
+                      </small>
+                    ) : null}
+                    {calendarOpenedDays !== null &&
+                    `${calendarOpenedDays}` !== form.term_school_opened_days ? (
+                      <small className="form-text">
+                        The academic calendar counts {calendarOpenedDays} school
+                        days this term.{" "}
+                        <button
+                          type="button"
+                          className="btn btn-link btn-sm p-0 align-baseline"
+                          onClick={() =>
+                            handleFieldChange(
+                              "term_school_opened_days",
+                              `${calendarOpenedDays}`,
+                            )
+                          }
+                        >
+                          Use this count
+                        </button>
+                      </small>
+                    ) : null}
                   </div>
                   <div className="col-lg-6 col-12 form-group">
                     <label htmlFor="school-logo">School Logo</label>
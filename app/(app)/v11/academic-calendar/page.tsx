@@ -0,0 +1,665 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isAdminUser } from "@/lib/roleChecks";
+import { PERMISSIONS } from "@/lib/permissionKeys";
+import { listSessions, type Session } from "@/lib/sessions";
+import { listTermsBySession, type Term } from "@/lib/terms";
+import { updateSchoolProfile } from "@/lib/school";
+import {
+  CALENDAR_EVENT_TYPES,
+  calendarEventTypeLabel,
+  countSchoolOpenedDays,
+  createCalendarEvent,
+  deleteCalendarEvent,
+  eventClosesSchool,
+  listCalendarEvents,
+  updateCalendarEvent,
+  type CalendarEvent,
+  type CalendarEventPayload,
+  type CalendarEventType,
+} from "@/lib/academicCalendar";
+import { AcademicCalendarView } from "@/components/calendar/AcademicCalendarView";
+
+type FeedbackKind = "success" | "danger" | "warning" | "info";
+
+interface FeedbackState {
+  type: FeedbackKind;
+  message: string;
+}
+
+interface EventFormState {
+  title: string;
+  type: CalendarEventType;
+  termId: string;
+  startDate: string;
+  endDate: string;
+  description: string;
+  closesSchool: boolean;
+}
+
+const emptyForm = (termId: string): EventFormState => ({
+  title: "",
+  type: "holiday",
+  termId,
+  startDate: "",
+  endDate: "",
+  description: "",
+  closesSchool: false,
+});
+
+const formatDate = (value?: string | null) => {
+  if (!value) {
+    return "—";
+  }
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+const formatRange = (event: CalendarEvent) =>
+  event.end_date && event.end_date.slice(0, 10) !== event.start_date.slice(0, 10)
+    ? `${formatDate(event.start_date)} – ${formatDate(event.end_date)}`
+    : formatDate(event.start_date);
+
+export default function AcademicCalendarPage() {
+  const { user, hasPermission, schoolContext, refreshSchoolContext } = useAuth();
+  const canManage = isAdminUser(user) || hasPermission(PERMISSIONS.CALENDAR_MANAGE);
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionId, setSessionId] = useState(
+    schoolContext.current_session_id ? String(schoolContext.current_session_id) : "",
+  );
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [termId, setTermId] = useState(
+    schoolContext.current_term_id ? String(schoolContext.current_term_id) : "",
+  );
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<FeedbackState | null>(null);
+
+  const [form, setForm] = useState<EventFormState>(() => emptyForm(termId));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [syncingDays, setSyncingDays] = useState(false);
+  // The session whose events are in `events`, so a count is never taken
+  // from another session's (or a not yet loaded) calendar.
+  const [eventsSessionId, setEventsSessionId] = useState("");
+  const autoSyncedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then((data) => {
+        setSessions(data);
+        setSessionId((current) => current || (data[0] ? String(data[0].id) : ""));
+      })
+      .catch((error) => console.error("Unable to load sessions", error));
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setTerms([]);
+      return;
+    }
+    listTermsBySession(sessionId)
+      .then(setTerms)
+      .catch((error) => console.error("Unable to load terms", error));
+  }, [sessionId]);
+
+  const loadEvents = useCallback(async () => {
+    if (!sessionId) {
+      setEvents([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      setEvents(await listCalendarEvents({ session_id: sessionId }));
+      setEventsSessionId(sessionId);
+    } catch (error) {
+      console.error("Unable to load calendar events", error);
+      setFeedback({
+        type: "danger",
+        message:
+          error instanceof Error ? error.message : "Unable to load calendar events.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadEvents().catch((error) => console.error(error));
+  }, [loadEvents]);
+
+  const selectedTerm = useMemo(
+    () => terms.find((term) => String(term.id) === termId) ?? null,
+    [terms, termId],
+  );
+
+  const openedDays = useMemo(
+    () => countSchoolOpenedDays(selectedTerm, events),
+    [selectedTerm, events],
+  );
+
+  const isCurrentTerm =
+    Boolean(termId) && String(schoolContext.current_term_id ?? "") === termId;
+  const profileOpenedDays = schoolContext.school?.term_school_opened_days ?? null;
+  const openedDaysOutOfSync =
+    isCurrentTerm &&
+    openedDays !== null &&
+    Number(profileOpenedDays) !== openedDays;
+
+  const termEvents = useMemo(() => {
+    const visible = termId
+      ? events.filter(
+          (event) =>
+            !event.term_id ||
+            String(event.term_id) === termId ||
+            (selectedTerm?.start_date &&
+              selectedTerm?.end_date &&
+              event.end_date.slice(0, 10) >= selectedTerm.start_date.slice(0, 10) &&
+              event.start_date.slice(0, 10) <= selectedTerm.end_date.slice(0, 10)),
+        )
+      : events;
+    return [...visible].sort((a, b) => a.start_date.localeCompare(b.start_date));
+  }, [events, termId, selectedTerm]);
+
+  // The school profile holds the opened-days figure the result pages print.
+  // For the current term it follows the calendar, so keep it in step after
+  // every change here.
+  const syncOpenedDays = useCallback(
+    async (nextEvents: CalendarEvent[]) => {
+      if (!isCurrentTerm || !canManage) {
+        return;
+      }
+      const count = countSchoolOpenedDays(selectedTerm, nextEvents);
+      if (count === null || Number(profileOpenedDays) === count) {
+        return;
+      }
+      setSyncingDays(true);
+      try {
+        await updateSchoolProfile({ term_school_opened_days: count });
+        await refreshSchoolContext();
+      } catch (error) {
+        console.error("Unable to update school opened days", error);
+        setFeedback({
+          type: "warning",
+          message:
+            "The calendar was saved, but the school's opened-days count could not be updated.",
+        });
+      } finally {
+        setSyncingDays(false);
+      }
+    },
+    [canManage, isCurrentTerm, profileOpenedDays, refreshSchoolContext, selectedTerm],
+  );
+
+  // Bring the profile in line once on opening the current term, e.g. after
+  // its dates changed; a failed attempt is not retried in a loop.
+  useEffect(() => {
+    if (!openedDaysOutOfSync || !canManage || eventsSessionId !== sessionId) {
+      return;
+    }
+    const attempt = `${termId}:${openedDays}`;
+    if (autoSyncedRef.current === attempt) {
+      return;
+    }
+    autoSyncedRef.current = attempt;
+    void syncOpenedDays(events);
+  }, [
+    canManage,
+    events,
+    eventsSessionId,
+    openedDays,
+    openedDaysOutOfSync,
+    sessionId,
+    syncOpenedDays,
+    termId,
+  ]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm(termId));
+  };
+
+  const handleEdit = (event: CalendarEvent) => {
+    if (!canManage) {
+      return;
+    }
+    setEditingId(String(event.id));
+    setForm({
+      title: event.title,
+      type: event.type,
+      termId: event.term_id ? String(event.term_id) : "",
+      startDate: event.start_date.slice(0, 10),
+      endDate: (event.end_date || event.start_date).slice(0, 10),
+      description: event.description ?? "",
+      closesSchool: Boolean(event.closes_school),
+    });
+  };
+
+  const handleSubmit = async (submitEvent: FormEvent<HTMLFormElement>) => {
+    submitEvent.preventDefault();
+    setFeedback(null);
+
+    if (!sessionId) {
+      setFeedback({ type: "warning", message: "Select a session first." });
+      return;
+    }
+    if (!form.title.trim() || !form.startDate) {
+      setFeedback({
+        type: "warning",
+        message: "Enter a title and a start date for the event.",
+      });
+      return;
+    }
+    const endDate = form.endDate || form.startDate;
+    if (endDate < form.startDate) {
+      setFeedback({
+        type: "warning",
+        message: "The end date cannot be before the start date.",
+      });
+      return;
+    }
+
+    const payload: CalendarEventPayload = {
+      session_id: sessionId,
+      term_id: form.termId || null,
+      title: form.title.trim(),
+      type: form.type,
+      start_date: form.startDate,
+      end_date: endDate,
+      description: form.description.trim() || null,
+      closes_school:
+        form.type === "holiday" || form.type === "mid_term_break"
+          ? true
+          : form.closesSchool,
+    };
+
+    setSaving(true);
+    try {
+      const saved = editingId
+        ? await updateCalendarEvent(editingId, payload)
+        : await createCalendarEvent(payload);
+      const nextEvents = editingId
+        ? events.map((event) => (String(event.id) === editingId ? { ...event, ...saved } : event))
+        : [...events, saved];
+      setEvents(nextEvents);
+      setFeedback({
+        type: "success",
+        message: editingId ? "Event updated." : "Event added to the calendar.",
+      });
+      resetForm();
+      await syncOpenedDays(nextEvents);
+    } catch (error) {
+      console.error("Unable to save calendar event", error);
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to save the event.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (event: CalendarEvent) => {
+    if (!window.confirm(`Remove "${event.title}" from the calendar?`)) {
+      return;
+    }
+    setFeedback(null);
+    try {
+      await deleteCalendarEvent(event.id);
+      const nextEvents = events.filter((item) => item.id !== event.id);
+      setEvents(nextEvents);
+      if (editingId === String(event.id)) {
+        resetForm();
+      }
+      setFeedback({ type: "success", message: "Event removed." });
+      await syncOpenedDays(nextEvents);
+    } catch (error) {
+      console.error("Unable to delete calendar event", error);
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to remove the event.",
+      });
+    }
+  };
+
+  const typeClosesSchool = form.type === "holiday" || form.type === "mid_term_break";
+
+  return (
+    <>
+      <div className="breadcrumbs-area">
+        <h3>Academic Calendar</h3>
+        <ul>
+          <li>
+            <Link href="/v10/dashboard">Home</Link>
+          </li>
+          <li>Academic Calendar</li>
+        </ul>
+      </div>
+
+      <div className="card height-auto mb-4">
+        <div className="card-body">
+          <div className="row gutters-8">
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="calendar-session">Session</label>
+              <select
+                id="calendar-session"
+                className="form-control"
+                value={sessionId}
+                onChange={(event) => {
+                  setSessionId(event.target.value);
+                  setTermId("");
+                  resetForm();
+                }}
+              >
+                <option value="">Select session</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={String(session.id)}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="calendar-term">Term</label>
+              <select
+                id="calendar-term"
+                className="form-control"
+                value={termId}
+                onChange={(event) => {
+                  setTermId(event.target.value);
+                  setForm((prev) => ({ ...prev, termId: event.target.value }));
+                }}
+                disabled={!sessionId}
+              >
+                <option value="">Whole session</option>
+                {terms.map((term) => (
+                  <option key={term.id} value={String(term.id)}>
+                    {term.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-6 col-12 form-group d-flex align-items-end">
+              {selectedTerm ? (
+                <div>
+                  <div>
+                    <strong>School days this term:</strong>{" "}
+                    {openedDays !== null
+                      ? openedDays
+                      : "Set the term's start and end dates to count them."}
+                  </div>
+                  <small className="text-muted">
+                    {formatDate(selectedTerm.start_date)} – {formatDate(selectedTerm.end_date)},
+                    weekdays less holidays and breaks.
+                    {isCurrentTerm
+                      ? syncingDays
+                        ? " Updating the school profile..."
+                        : " Used as the school's opened days on result pages."
+                      : ""}
+                  </small>
+                  {openedDaysOutOfSync && canManage ? (
+                    <div className="mt-1">
+                      <button
+                        type="button"
+                        className="btn btn-sm btn-outline-primary"
+                        onClick={() => {
+                          void syncOpenedDays(events);
+                        }}
+                        disabled={syncingDays}
+                      >
+                        Update school profile ({profileOpenedDays ?? "not set"} → {openedDays})
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          </div>
+
+          {feedback ? (
+            <div className={`alert alert-${feedback.type} mb-0`} role="alert">
+              {feedback.message}
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="row">
+        <div className={canManage ? "col-xl-8 col-12" : "col-12"}>
+          <div className="card height-auto mb-4">
+            <div className="card-body">
+              <div className="heading-layout1">
+                <div className="item-title">
+                  <h3>Calendar</h3>
+                </div>
+                {loading ? <span className="text-muted small">Loading...</span> : null}
+              </div>
+              <AcademicCalendarView
+                events={events}
+                term={selectedTerm}
+                onSelectEvent={canManage ? handleEdit : undefined}
+              />
+            </div>
+          </div>
+        </div>
+
+        {canManage ? (
+          <div className="col-xl-4 col-12">
+            <div className="card height-auto mb-4">
+              <div className="card-body">
+                <div className="heading-layout1">
+                  <div className="item-title">
+                    <h3>{editingId ? "Edit Event" : "Add Event"}</h3>
+                  </div>
+                </div>
+                <form onSubmit={handleSubmit}>
+                  <div className="form-group">
+                    <label htmlFor="calendar-event-title">Title</label>
+                    <input
+                      id="calendar-event-title"
+                      className="form-control"
+                      value={form.title}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, title: event.target.value }))
+                      }
+                      placeholder="e.g. Independence Day"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="calendar-event-type">Type</label>
+                    <select
+                      id="calendar-event-type"
+                      className="form-control"
+                      value={form.type}
+                      onChange={(event) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          type: event.target.value as CalendarEventType,
+                        }))
+                      }
+                    >
+                      {CALENDAR_EVENT_TYPES.map((entry) => (
+                        <option key={entry.value} value={entry.value}>
+                          {entry.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="calendar-event-term">Term</label>
+                    <select
+                      id="calendar-event-term"
+                      className="form-control"
+                      value={form.termId}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, termId: event.target.value }))
+                      }
+                    >
+                      <option value="">Whole session</option>
+                      {terms.map((term) => (
+                        <option key={term.id} value={String(term.id)}>
+                          {term.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="row gutters-8">
+                    <div className="col-6 form-group">
+                      <label htmlFor="calendar-event-start">Start Date</label>
+                      <input
+                        id="calendar-event-start"
+                        type="date"
+                        className="form-control"
+                        value={form.startDate}
+                        onChange={(event) =>
+                          setForm((prev) => ({ ...prev, startDate: event.target.value }))
+                        }
+                      />
+                    </div>
+                    <div className="col-6 form-group">
+                      <label htmlFor="calendar-event-end">End Date</label>
+                      <input
+                        id="calendar-event-end"
+                        type="date"
+                        className="form-control"
+                        value={form.endDate}
+                        min={form.startDate || undefined}
+                        onChange={(event) =>
+                          setForm((prev) => ({ ...prev, endDate: event.target.value }))
+                        }
+                      />
+                    </div>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="calendar-event-description">Description</label>
+                    <textarea
+                      id="calendar-event-description"
+                      className="form-control"
+                      rows={2}
+                      value={form.description}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, description: event.target.value }))
+                      }
+                    />
+                  </div>
+                  <div className="form-check mb-3">
+                    <input
+                      id="calendar-event-closes"
+                      type="checkbox"
+                      className="form-check-input"
+                      checked={typeClosesSchool || form.closesSchool}
+                      disabled={typeClosesSchool}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, closesSchool: event.target.checked }))
+                      }
+                    />
+                    <label htmlFor="calendar-event-closes" className="form-check-label">
+                      No classes on these days
+                    </label>
+                  </div>
+                  <button
+                    type="submit"
+                    className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark mr-2"
+                    disabled={saving || !sessionId}
+                  >
+                    {saving ? "Saving..." : editingId ? "Update Event" : "Add Event"}
+                  </button>
+                  {editingId ? (
+                    <button
+                      type="button"
+                      className="btn btn-outline-secondary"
+                      onClick={resetForm}
+                      disabled={saving}
+                    >
+                      Cancel
+                    </button>
+                  ) : null}
+                </form>
+              </div>
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="card height-auto">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Events</h3>
+            </div>
+          </div>
+          <div className="table-responsive">
+            <table className="table display text-nowrap">
+              <thead>
+                <tr>
+                  <th>Title</th>
+                  <th>Type</th>
+                  <th>Dates</th>
+                  <th>School</th>
+                  {canManage ? <th /> : null}
+                </tr>
+              </thead>
+              <tbody>
+                {termEvents.length ? (
+                  termEvents.map((event) => (
+                    <tr key={event.id}>
+                      <td>
+                        {event.title}
+                        {event.description ? (
+                          <div className="text-muted small">{event.description}</div>
+                        ) : null}
+                      </td>
+                      <td>{calendarEventTypeLabel(event.type)}</td>
+                      <td>{formatRange(event)}</td>
+                      <td>
+                        {eventClosesSchool(event) ? (
+                          <span className="badge badge-danger">Closed</span>
+                        ) : (
+                          <span className="badge badge-success">Open</span>
+                        )}
+                      </td>
+                      {canManage ? (
+                        <td className="text-right">
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-primary mr-2"
+                            onClick={() => handleEdit(event)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-danger"
+                            onClick={() => {
+                              void handleDelete(event);
+                            }}
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      ) : null}
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={canManage ? 5 : 4} className="text-center text-muted">
+                      {loading ? "Loading events..." : "No events on the calendar yet."}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
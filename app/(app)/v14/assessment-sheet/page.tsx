@@ -16,7 +16,7 @@ import {
 } from "@/lib/assessmentComponents";
 import { listStudents, type StudentSummary } from "@/lib/students";
 import { listResults, type ResultRecord } from "@/lib/results";
-import { downloadCSVFile } from "@/lib/assessmentSheetExport";
+import { downloadCSVFile, escapeCsvCell } from "@/lib/assessmentSheetExport";
 
 interface Filters {
   sessionId: string;
@@ -34,13 +34,6 @@ const emptyFilters: Filters = {
   subjectId: "",
 };
 
-const escapeCsvCell = (value: unknown) => {
-  const text = String(value ?? "");
-  return text.includes(",") || text.includes('"') || text.includes("\n")
-    ? `"${text.replace(/"/g, '""')}"`
-    : text;
-};
-
 const studentName = (student: StudentSummary) =>
   [student.first_name, student.middle_name, student.last_name]
     .filter(Boolean)
@@ -300,7 +293,7 @@ export default function AssessmentSheetPage() {
       ),
       totalLookup.get(String(student.id)) ?? 0,
     ]);
-    const csv = [headers, ...rows].map((row) => row.map(escapeCsvCell).join(",")).join("\n");
+    const csv = [headers, ...rows].map((row) => row.map((cell) => escapeCsvCell(String(cell ?? ""))).join(",")).join("\n");
     const parts = ["assessment-sheet", selectedClass?.name, selectedArm?.name, selectedSubject?.name]
       .filter(Boolean)
       .map((part) => String(part).replace(/[^a-z0-9]+/gi, "-"));
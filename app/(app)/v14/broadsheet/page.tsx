@@ -2,12 +2,19 @@
 
 import Link from "next/link";
 import { useSearchParams } from "next/navigation";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { listSessions, type Session } from "@/lib/sessions";
 import { listTermsBySession, type Term } from "@/lib/terms";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listClassArms, type ClassArm } from "@/lib/classArms";
+import { listSubjectAssignments } from "@/lib/subjectAssignments";
+import type { Subject } from "@/lib/subjects";
+import { listStudents, type StudentSummary } from "@/lib/students";
+import { listResults, type ResultRecord } from "@/lib/results";
+import { listGradeScales, pickActiveGradeScale } from "@/lib/gradeScales";
+import { listAssessmentComponents } from "@/lib/assessmentComponents";
+import { exportBroadsheet } from "@/lib/broadsheetExport";
 
 interface Filters {
   sessionId: string;
@@ -54,6 +61,8 @@ export default function BroadsheetPage() {
   const [arms, setArms] = useState<ClassArm[]>([]);
   const [previewUrl, setPreviewUrl] = useState(() => buildPreviewUrl(initialFilters));
   const [error, setError] = useState<string | null>(null);
+  const [includeComponents, setIncludeComponents] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     Promise.all([listSessions(), listClasses()])
@@ -109,6 +118,113 @@ export default function BroadsheetPage() {
     setPreviewUrl(url);
   };
 
+  const exportCsv = useCallback(async () => {
+    if (!filters.sessionId || !filters.termId || !filters.classId) {
+      setError("Select a session, term, and class to export the broadsheet.");
+      return;
+    }
+
+    setExporting(true);
+    setError(null);
+    try {
+      const assignmentResponse = await listSubjectAssignments({
+        session_id: filters.sessionId,
+        school_class_id: filters.classId,
+        per_page: 500,
+      });
+      const subjectMap = new Map<string, Subject>();
+      (assignmentResponse.data ?? [])
+        .filter((assignment) =>
+          !filters.armId ||
+          !assignment.class_arm_id ||
+          String(assignment.class_arm_id) === filters.armId,
+        )
+        .forEach((assignment) => {
+          if (assignment.subject?.id) {
+            subjectMap.set(String(assignment.subject.id), assignment.subject);
+          }
+        });
+      const subjects = Array.from(subjectMap.values()).sort((a, b) =>
+        String(a.name ?? "").localeCompare(String(b.name ?? "")),
+      );
+
+      const students: StudentSummary[] = [];
+      let studentPage = 1;
+      let moreStudents = true;
+      while (moreStudents) {
+        const response = await listStudents({
+          page: studentPage,
+          per_page: 1000,
+          sortBy: "last_name",
+          sortDirection: "asc",
+          session_id: filters.sessionId,
+          term_id: filters.termId,
+          school_class_id: filters.classId,
+          class_arm_id: filters.armId || undefined,
+        });
+        students.push(...(Array.isArray(response.data) ? response.data : []));
+        moreStudents = studentPage < (response.last_page || 1);
+        studentPage += 1;
+      }
+      if (!filters.armId) {
+        // Keep each arm together when the whole class goes into one file.
+        students.sort((a, b) =>
+          String(a.class_arm?.name ?? "").localeCompare(String(b.class_arm?.name ?? "")),
+        );
+      }
+
+      const results: ResultRecord[] = [];
+      let resultPage = 1;
+      let moreResults = true;
+      while (moreResults) {
+        const response = await listResults({
+          page: resultPage,
+          per_page: 1000,
+          session_id: filters.sessionId,
+          term_id: filters.termId,
+          school_class_id: filters.classId,
+          class_arm_id: filters.armId || undefined,
+        });
+        results.push(...(Array.isArray(response.data) ? response.data : []));
+        moreResults = resultPage < (response.last_page || 1);
+        resultPage += 1;
+      }
+
+      const [scales, componentResponse] = await Promise.all([
+        listGradeScales(),
+        includeComponents
+          ? listAssessmentComponents({
+              session_id: filters.sessionId,
+              term_id: filters.termId,
+              per_page: 100,
+            })
+          : Promise.resolve(null),
+      ]);
+
+      const className = classes.find((item) => String(item.id) === filters.classId)?.name;
+      const armName = arms.find((item) => String(item.id) === filters.armId)?.name;
+      const termName = terms.find((item) => String(item.id) === filters.termId)?.name;
+      const parts = ["broadsheet", className, armName ?? "all-arms", termName]
+        .filter(Boolean)
+        .map((part) => String(part).replace(/[^a-z0-9]+/gi, "-"));
+
+      exportBroadsheet(
+        students,
+        subjects.map((subject) => ({ id: subject.id, name: subject.name })),
+        {
+          results,
+          gradeScale: pickActiveGradeScale(scales),
+          components: componentResponse?.data ?? undefined,
+        },
+        `${parts.join("_")}.csv`,
+      );
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unable to export the broadsheet.");
+    } finally {
+      setExporting(false);
+    }
+  }, [arms, classes, filters, includeComponents, terms]);
+
   const reset = () => {
     setFilters(emptyFilters);
     setTerms([]);
@@ -167,12 +283,28 @@ export default function BroadsheetPage() {
             <div className="col-lg-3 col-md-8 form-group d-flex align-items-end">
               <button type="button" className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark mr-2" onClick={viewBroadsheet}>View</button>
               <button type="button" className="btn btn-outline-secondary mr-2" onClick={reset}>Reset</button>
+              <button type="button" className="btn btn-outline-primary mr-2" onClick={exportCsv} disabled={exporting}>
+                {exporting ? "Exporting…" : "Export CSV"}
+              </button>
               {previewUrl ? (
                 <button type="button" className="btn btn-primary broadsheet-print-button" onClick={() => iframeRef.current?.contentWindow?.print()}>Print</button>
               ) : null}
             </div>
           </div>
 
+          <div className="form-check mb-3">
+            <input
+              id="broadsheet-include-components"
+              type="checkbox"
+              className="form-check-input"
+              checked={includeComponents}
+              onChange={(event) => setIncludeComponents(event.target.checked)}
+            />
+            <label className="form-check-label" htmlFor="broadsheet-include-components">
+              Include assessment component breakdown in CSV export
+            </label>
+          </div>
+
           {previewUrl ? (
             <iframe
               ref={iframeRef}
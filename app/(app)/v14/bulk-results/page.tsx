@@ -6,8 +6,8 @@ import { listSessions, type Session } from "@/lib/sessions";
 import { listTermsBySession, type Term } from "@/lib/terms";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listClassArms, type ClassArm } from "@/lib/classArms";
-import { resolveBackendUrl } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { resolveApiProxyUrl } from "@/lib/config";
+import { ReportCardExportPanel } from "@/components/results/ReportCardExportPanel";
 
 interface Filters {
   sessionId: string;
@@ -107,6 +107,17 @@ export default function BulkResultsPage() {
     return termsCache[filters.sessionId] ?? [];
   }, [filters.sessionId, termsCache]);
 
+  const exportLabel = useMemo(() => {
+    const sessionName = sessions.find((session) => `${session.id}` === filters.sessionId)?.name;
+    const termName = terms.find((term) => `${term.id}` === filters.termId)?.name;
+    return [sessionName, termName].filter(Boolean).join(" · ");
+  }, [sessions, terms, filters.sessionId, filters.termId]);
+
+  const exportClasses = useMemo(
+    () => classes.map((klass) => ({ id: `${klass.id}`, name: klass.name })),
+    [classes],
+  );
+
   const canGenerate = Boolean(filters.sessionId && filters.termId && filters.classId);
 
   const parseErrorResponse = async (response: Response): Promise<string> => {
@@ -151,26 +162,16 @@ export default function BulkResultsPage() {
     }
     setStatus("");
     const query = buildQueryString(filters, autoPrint);
-    const endpoint = `${resolveBackendUrl(
+    const endpoint = `${resolveApiProxyUrl(
       "/api/v1/results/bulk/print",
     )}?${query}`;
-    const token = getCookie("token");
-    if (!token) {
-      const message =
-        "Your session token is missing. Please log in again before printing.";
-      setStatus(message);
-      window.alert(message);
-      return;
-    }
     setProcessing(true);
     try {
       const response = await fetch(endpoint, {
         headers: {
           Accept: "text/html",
           "X-Requested-With": "XMLHttpRequest",
-          Authorization: `Bearer ${token}`,
         },
-        credentials: "include",
       });
       if (!response.ok) {
         const errorMessage = await parseErrorResponse(response);
@@ -357,10 +358,17 @@ export default function BulkResultsPage() {
           </div>
 
           <div className="alert alert-info mt-3" role="alert">
-            Each student result occupies exactly one page in the generated view. When exporting, choose “Save as PDF” in the browser print dialog to keep that layout.
+            Each student result occupies exactly one page in the generated view. When exporting, choose “Save as PDF” in the browser print dialog to keep that layout. For large classes, use the ZIP download below instead.
           </div>
         </div>
       </div>
+
+      <ReportCardExportPanel
+        sessionId={filters.sessionId}
+        termId={filters.termId}
+        contextLabel={exportLabel}
+        classes={exportClasses}
+      />
     </>
   );
 }
@@ -7,8 +7,7 @@ import { listTermsBySession, type Term } from "@/lib/terms";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listClassArms, type ClassArm } from "@/lib/classArms";
 import { listStudents, type StudentSummary } from "@/lib/students";
-import { resolveBackendUrl } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { resolveApiProxyUrl } from "@/lib/config";
 
 export default function CheckResultPage() {
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -171,20 +170,11 @@ export default function CheckResultPage() {
       return;
     }
 
-    const token = getCookie("token");
-    if (!token) {
-      setFeedback(
-        "Your session token is missing. Please log in again before printing the result.",
-      );
-      setFeedbackType("warning");
-      return;
-    }
-
     const params = new URLSearchParams();
     params.set("session_id", selectedSession);
     params.set("term_id", selectedTerm);
 
-    const endpoint = `${resolveBackendUrl(
+    const endpoint = `${resolveApiProxyUrl(
       `/api/v1/students/${selectedStudent}/results/print`,
     )}?${params.toString()}`;
 
@@ -193,9 +183,7 @@ export default function CheckResultPage() {
         headers: {
           Accept: "text/html",
           "X-Requested-With": "XMLHttpRequest",
-          Authorization: `Bearer ${token}`,
         },
-        credentials: "include",
       });
 
       if (!response.ok) {
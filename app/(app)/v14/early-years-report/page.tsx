@@ -7,8 +7,7 @@ import { listTermsBySession, type Term } from "@/lib/terms";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listClassArms, type ClassArm } from "@/lib/classArms";
 import { listStudents, type StudentSummary } from "@/lib/students";
-import { resolveBackendUrl } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { resolveApiProxyUrl } from "@/lib/config";
 
 export default function EarlyYearsReportPage() {
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -169,20 +168,12 @@ export default function EarlyYearsReportPage() {
       return;
     }
 
-    const token = getCookie("token");
-    if (!token) {
-      setFeedback(
-        "Your session token is missing. Please log in again before printing the report.",
-      );
-      setFeedbackType("warning");
-      return;
-    }
 
     const params = new URLSearchParams();
     params.set("session_id", selectedSession);
     params.set("term_id", selectedTerm);
 
-    const endpoint = `${resolveBackendUrl(
+    const endpoint = `${resolveApiProxyUrl(
       `/api/v1/students/${selectedStudent}/early-years-report/print`,
     )}?${params.toString()}`;
 
@@ -191,9 +182,7 @@ export default function EarlyYearsReportPage() {
         headers: {
           Accept: "text/html",
           "X-Requested-With": "XMLHttpRequest",
-          Authorization: `Bearer ${token}`,
         },
-        credentials: "include",
       });
 
       if (!response.ok) {
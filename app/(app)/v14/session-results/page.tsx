@@ -5,8 +5,7 @@ import { useEffect, useMemo, useState } from "react";
 import { listSessions, type Session } from "@/lib/sessions";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listClassArms, type ClassArm } from "@/lib/classArms";
-import { API_ROUTES, resolveBackendUrl } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { API_ROUTES, resolveApiProxyUrl } from "@/lib/config";
 
 interface Filters {
   sessionId: string;
@@ -110,16 +109,7 @@ export default function SessionResultsPage() {
     }
 
     setStatus("");
-    const endpoint = `${resolveBackendUrl(API_ROUTES.resultsSessionPrint)}?${buildQueryString(filters, autoPrint)}`;
-    const token = getCookie("token");
-
-    if (!token) {
-      const message =
-        "Your session token is missing. Please log in again before printing.";
-      setStatus(message);
-      window.alert(message);
-      return;
-    }
+    const endpoint = `${resolveApiProxyUrl(API_ROUTES.resultsSessionPrint)}?${buildQueryString(filters, autoPrint)}`;
 
     setProcessing(true);
     try {
@@ -127,9 +117,7 @@ export default function SessionResultsPage() {
         headers: {
           Accept: "text/html",
           "X-Requested-With": "XMLHttpRequest",
-          Authorization: `Bearer ${token}`,
         },
-        credentials: "include",
       });
 
       if (!response.ok) {
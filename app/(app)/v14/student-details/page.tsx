@@ -23,8 +23,7 @@ import {
   type StudentDelectionWithDependenciesError,
 } from "@/lib/students";
 import DeleteStudentModal from "@/components/DeleteStudentModal";
-import { resolveBackendUrl } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { resolveApiProxyUrl, resolveBackendUrl } from "@/lib/config";
 import { listSessions, type Session } from "@/lib/sessions";
 import { listTermsBySession, type Term } from "@/lib/terms";
 import {
@@ -1296,23 +1295,15 @@ export default function StudentDetailsPage() {
       throw new Error("Student not found.");
     }
     const params = buildPrintParams();
-    const endpoint = `${resolveBackendUrl(
+    const endpoint = `${resolveApiProxyUrl(
       `/api/v1/students/${studentId}/results/print`,
     )}?${params.toString()}`;
-    const token = getCookie("token");
-    if (!token) {
-      throw new Error(
-        "Your session token is missing. Please log in again before printing the result.",
-      );
-    }
 
     const response = await fetch(endpoint, {
       headers: {
         Accept: "text/html",
         "X-Requested-With": "XMLHttpRequest",
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
-      credentials: "include",
     });
 
     if (!response.ok) {
@@ -19,18 +19,26 @@ import {
   listAssessmentComponents,
   type AssessmentComponent,
 } from "@/lib/assessmentComponents";
-import { AssessmentComponentStructureService } from "@/lib/assessmentComponentStructure";
 import {
   listResults,
   saveResultsBatch,
   type ResultRecord,
 } from "@/lib/results";
+import {
+  loadComponentMaxScores,
+  validateScoreInput,
+} from "@/lib/resultValidation";
 import { listSubjectAssignments } from "@/lib/subjectAssignments";
 import {
   fetchTeacherDashboard,
   type TeacherDashboardResponse,
 } from "@/lib/staff";
 import { isTeacherUser } from "@/lib/roleChecks";
+import {
+  fetchResultPublication,
+  isSubjectLocked,
+  type ClassResultPublication,
+} from "@/lib/resultPublication";
 
 type ResultRowStatus = "saved" | "pending" | "none";
 
@@ -206,6 +214,7 @@ export default function StudentResultEntryPage() {
     message: string;
   } | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>("");
+  const [publication, setPublication] = useState<ClassResultPublication | null>(null);
 
   const autoSaveTimersRef = useRef<Record<string, number>>({});
   const lastAutoSaveKeyRef = useRef<Record<string, string>>({});
@@ -371,15 +380,46 @@ export default function StudentResultEntryPage() {
     teacherDashboard,
   ]);
 
+  useEffect(() => {
+    if (!selectedSession || !selectedTerm || !student?.school_class_id) {
+      setPublication(null);
+      return;
+    }
+    let cancelled = false;
+    fetchResultPublication({
+      session_id: selectedSession,
+      term_id: selectedTerm,
+      school_class_id: student.school_class_id,
+      class_arm_id: student.class_arm_id ?? null,
+    })
+      .then((data) => {
+        if (!cancelled) {
+          setPublication(data);
+        }
+      })
+      .catch((error) => {
+        console.error("Unable to load result publication status", error);
+        if (!cancelled) {
+          setPublication(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSession, selectedTerm, student?.class_arm_id, student?.school_class_id]);
+
   const canEditSubject = useCallback(
     (subjectId: string | number) => {
+      if (isSubjectLocked(publication, subjectId)) {
+        return false;
+      }
       if (!isTeacher) {
         return true;
       }
 
       return editableTeacherSubjectIds.has(String(subjectId));
     },
-    [editableTeacherSubjectIds, isTeacher],
+    [editableTeacherSubjectIds, isTeacher, publication],
   );
 
   const getComponentMaxScore = useCallback(
@@ -771,29 +811,15 @@ export default function StudentResultEntryPage() {
 
     let active = true;
 
-    Promise.all(
-      allComponents.map((component) =>
-        AssessmentComponentStructureService.getMaxScore({
-          assessment_component_id: String(component.id),
-          class_id: String(student.school_class_id),
-          term_id: selectedTerm,
-        }) as Promise<{ max_score: number }>,
-      ),
-    )
-      .then((responses) => {
-        if (!active) {
-          return;
+    loadComponentMaxScores({
+      componentIds: allComponents.map((component) => component.id),
+      classId: String(student.school_class_id),
+      termId: selectedTerm,
+    })
+      .then((nextScores) => {
+        if (active) {
+          setComponentMaxScores(nextScores);
         }
-
-        const nextScores: Record<string, number> = {};
-        responses.forEach((response, index) => {
-          const maxScore = Number((response as { max_score?: number }).max_score);
-          if (Number.isFinite(maxScore) && maxScore > 0) {
-            nextScores[String(allComponents[index].id)] = maxScore;
-          }
-        });
-
-        setComponentMaxScores(nextScores);
       })
       .catch((error) => {
         if (!active) {
@@ -926,7 +952,7 @@ export default function StudentResultEntryPage() {
       if (!studentId || !selectedSession || !selectedTerm) {
         return;
       }
-      if (isTeacher && !canEditSubject(subjectId)) {
+      if (!canEditSubject(subjectId)) {
         return;
       }
 
@@ -937,13 +963,9 @@ export default function StudentResultEntryPage() {
 
       const scoreValue = Number(trimmedScore);
       const maxScore = getComponentMaxScore(componentId);
-      const maxScoreLabel = getComponentMaxScoreLabel(componentId);
+      const scoreError = validateScoreInput(trimmedScore, maxScore);
 
-      if (
-        Number.isNaN(scoreValue) ||
-        scoreValue < 0 ||
-        scoreValue > maxScore
-      ) {
+      if (scoreError) {
         setRows((prev) =>
           prev.map((row) => {
             if (String(row.subject.id) !== String(subjectId)) {
@@ -959,7 +981,7 @@ export default function StudentResultEntryPage() {
                 ...row.cells,
                 [componentId]: {
                   ...cell,
-                  rowError: `Score must be a number between 0 and ${maxScoreLabel}.`,
+                  rowError: scoreError,
                   status: "pending",
                 },
               },
@@ -1009,7 +1031,7 @@ export default function StudentResultEntryPage() {
               remarks: null,
             },
           ],
-        });
+        }, { maxScore });
 
         const saved = response.results.find(
           (result) =>
@@ -1089,9 +1111,7 @@ export default function StudentResultEntryPage() {
     },
     [
       getComponentMaxScore,
-      getComponentMaxScoreLabel,
       canEditSubject,
-      isTeacher,
       selectedSession,
       selectedTerm,
       studentId,
@@ -1114,7 +1134,7 @@ export default function StudentResultEntryPage() {
       }
 
       const subjectId = String(row.subject.id);
-      if (isTeacher && !canEditSubject(subjectId)) {
+      if (!canEditSubject(subjectId)) {
         return;
       }
       const trimmedScore = nextScore.trim();
@@ -1141,7 +1161,6 @@ export default function StudentResultEntryPage() {
     [
       autoSaveCell,
       canEditSubject,
-      isTeacher,
       selectedSession,
       selectedTerm,
       studentId,
@@ -1505,8 +1524,16 @@ export default function StudentResultEntryPage() {
                 ) : (
                   visibleRows.map((row, rowIndex) => {
                     const hasError = visibleComponents.some((component) => {
-                      const cell = row.cells[String(component.id)];
-                      return Boolean(cell?.rowError);
+                      const componentId = String(component.id);
+                      const cell = row.cells[componentId];
+                      return Boolean(
+                        cell &&
+                          (cell.rowError ||
+                            validateScoreInput(
+                              cell.score,
+                              getComponentMaxScore(componentId),
+                            )),
+                      );
                     });
                     const hasPending = visibleComponents.some((component) => {
                       const cell = row.cells[String(component.id)];
@@ -1537,7 +1564,9 @@ export default function StudentResultEntryPage() {
                           {subjectLabel}
                           {!canEditRow ? (
                             <div className="text-muted small">
-                              View only
+                              {isSubjectLocked(publication, row.subject.id)
+                                ? "Locked for review"
+                                : "View only"}
                             </div>
                           ) : null}
                         </td>
@@ -1553,11 +1582,18 @@ export default function StudentResultEntryPage() {
                             );
                           }
 
+                          const cellError =
+                            cell.rowError ??
+                            validateScoreInput(
+                              cell.score,
+                              getComponentMaxScore(componentId),
+                            );
+
                           return (
                             <td key={`${row.subject.id}-${componentId}`}>
                               <input
                                 type="number"
-                                className="form-control"
+                                className={`form-control${cellError ? " is-invalid" : ""}`}
                                 min={0}
                                 max={getComponentMaxScore(componentId)}
                                 step={0.01}
@@ -1572,9 +1608,9 @@ export default function StudentResultEntryPage() {
                                   scheduleAutoSave(row, componentId, nextScore);
                                 }}
                               />
-                              {cell.rowError ? (
+                              {cellError ? (
                                 <p className="text-danger small mb-0 mt-1">
-                                  {cell.rowError}
+                                  {cellError}
                                 </p>
                               ) : null}
                             </td>
@@ -0,0 +1,830 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isAdminUser } from "@/lib/roleChecks";
+import { PERMISSIONS } from "@/lib/permissionKeys";
+import { listSessions, type Session } from "@/lib/sessions";
+import { listTermsBySession, type Term } from "@/lib/terms";
+import {
+  RESULT_PIN_STOCK_STAGES,
+  createResultPinBatch,
+  listResultPinBatchCards,
+  listResultPinBatches,
+  listResultPinStockMovements,
+  reconcileResultPinBatches,
+  recordResultPinStockMovement,
+  type ResultPinBatch,
+  type ResultPinBatchCard,
+  type ResultPinStockMovement,
+  type ResultPinStockMovementStage,
+  type ResultPinStockStage,
+} from "@/lib/resultPins";
+
+type FeedbackKind = "success" | "danger" | "warning" | "info";
+
+interface FeedbackState {
+  type: FeedbackKind;
+  message: string;
+}
+
+interface BatchForm {
+  quantity: string;
+  unit_price: string;
+  expires_at: string;
+  max_usage: string;
+  notes: string;
+}
+
+const emptyBatchForm: BatchForm = {
+  quantity: "100",
+  unit_price: "",
+  expires_at: "",
+  max_usage: "",
+  notes: "",
+};
+
+interface MovementForm {
+  stage: ResultPinStockMovementStage;
+  quantity: string;
+  serial_from: string;
+  serial_to: string;
+  vendor: string;
+  reference: string;
+}
+
+const emptyMovementForm: MovementForm = {
+  stage: "printed",
+  quantity: "",
+  serial_from: "",
+  serial_to: "",
+  vendor: "",
+  reference: "",
+};
+
+const stageLabel = (stage: ResultPinStockStage) =>
+  RESULT_PIN_STOCK_STAGES.find((entry) => entry.value === stage)?.label ?? stage;
+
+const stageBadgeClass = (stage: ResultPinStockStage) => {
+  switch (stage) {
+    case "redeemed":
+      return "badge badge-success";
+    case "sold":
+      return "badge badge-primary";
+    case "issued":
+      return "badge badge-info";
+    default:
+      return "badge badge-secondary";
+  }
+};
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) {
+    return "—";
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? "—"
+    : date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+};
+
+const formatMoney = (value: number | null) =>
+  value === null
+    ? "—"
+    : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const parseOptionalNumber = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const buildStudentName = (card: ResultPinBatchCard) => {
+  const student = card.student;
+  if (!student) {
+    return card.student_id ? `Student #${card.student_id}` : "—";
+  }
+  const name =
+    (typeof student.name === "string" && student.name) ||
+    `${student.first_name ?? ""} ${student.last_name ?? ""}`.trim() ||
+    "Student";
+  return student.admission_no ? `${student.admission_no} - ${name}` : name;
+};
+
+export default function ResultPinBatchesPage() {
+  const { user, hasPermission, schoolContext } = useAuth();
+  const isAdmin = isAdminUser(user);
+  const canView = isAdmin || hasPermission(PERMISSIONS.RESULT_PIN_BATCH_VIEW);
+  const canManage = isAdmin || hasPermission(PERMISSIONS.RESULT_PIN_BATCH_MANAGE);
+
+  const [sessionId, setSessionId] = useState(
+    schoolContext.current_session_id ? String(schoolContext.current_session_id) : "",
+  );
+  const [termId, setTermId] = useState(
+    schoolContext.current_term_id ? String(schoolContext.current_term_id) : "",
+  );
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+
+  const [batches, setBatches] = useState<ResultPinBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<FeedbackState | null>(null);
+
+  const [batchForm, setBatchForm] = useState<BatchForm>(emptyBatchForm);
+  const [creating, setCreating] = useState(false);
+
+  const [activeBatchId, setActiveBatchId] = useState<string>("");
+  const [movements, setMovements] = useState<ResultPinStockMovement[]>([]);
+  const [cards, setCards] = useState<ResultPinBatchCard[]>([]);
+  const [registerLoading, setRegisterLoading] = useState(false);
+  const [movementForm, setMovementForm] = useState<MovementForm>(emptyMovementForm);
+  const [recording, setRecording] = useState(false);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((error) => console.error("Unable to load sessions", error));
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setTerms([]);
+      return;
+    }
+    listTermsBySession(sessionId)
+      .then(setTerms)
+      .catch((error) => console.error("Unable to load terms", error));
+  }, [sessionId]);
+
+  const loadBatches = useCallback(async () => {
+    if (!sessionId || !termId || !canView) {
+      setBatches([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      setBatches(await listResultPinBatches({ session_id: sessionId, term_id: termId }));
+    } catch (error) {
+      console.error("Unable to load scratch card batches", error);
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to load scratch card batches.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [canView, sessionId, termId]);
+
+  useEffect(() => {
+    setActiveBatchId("");
+    void loadBatches();
+  }, [loadBatches]);
+
+  const loadRegister = useCallback(async (batchId: string) => {
+    if (!batchId) {
+      setMovements([]);
+      setCards([]);
+      return;
+    }
+    setRegisterLoading(true);
+    try {
+      const [movementList, cardList] = await Promise.all([
+        listResultPinStockMovements(batchId),
+        listResultPinBatchCards(batchId),
+      ]);
+      setMovements(movementList);
+      setCards(cardList);
+    } catch (error) {
+      console.error("Unable to load the stock register", error);
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to load the stock register.",
+      });
+    } finally {
+      setRegisterLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setMovementForm(emptyMovementForm);
+    void loadRegister(activeBatchId);
+  }, [activeBatchId, loadRegister]);
+
+  const activeBatch = useMemo(
+    () => batches.find((batch) => String(batch.id) === activeBatchId) ?? null,
+    [activeBatchId, batches],
+  );
+
+  const reconciliation = useMemo(() => reconcileResultPinBatches(batches), [batches]);
+
+  const handleCreateBatch = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFeedback(null);
+
+    const quantity = Number(batchForm.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      setFeedback({ type: "warning", message: "Enter how many cards the batch should hold." });
+      return;
+    }
+    if (!sessionId || !termId) {
+      setFeedback({ type: "warning", message: "Select a session and term first." });
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const batch = await createResultPinBatch({
+        session_id: sessionId,
+        term_id: termId,
+        quantity,
+        unit_price: parseOptionalNumber(batchForm.unit_price),
+        expires_at: batchForm.expires_at || null,
+        max_usage: parseOptionalNumber(batchForm.max_usage),
+        notes: batchForm.notes.trim() || null,
+      });
+      setFeedback({
+        type: "success",
+        message: `Batch ${batch.batch_code} created with serials ${batch.serial_start}–${batch.serial_end}.`,
+      });
+      setBatchForm(emptyBatchForm);
+      await loadBatches();
+      setActiveBatchId(String(batch.id));
+    } catch (error) {
+      console.error("Unable to create scratch card batch", error);
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to create the batch.",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRecordMovement = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!activeBatch) {
+      return;
+    }
+    setFeedback(null);
+
+    const quantity = parseOptionalNumber(movementForm.quantity);
+    const serialFrom = movementForm.serial_from.trim();
+    const serialTo = movementForm.serial_to.trim();
+    if (!quantity && !(serialFrom && serialTo)) {
+      setFeedback({
+        type: "warning",
+        message: "Enter a quantity or a serial range for this stock movement.",
+      });
+      return;
+    }
+    if (movementForm.stage === "issued" && !movementForm.vendor.trim()) {
+      setFeedback({ type: "warning", message: "Name the vendor the cards are issued to." });
+      return;
+    }
+
+    setRecording(true);
+    try {
+      const updated = await recordResultPinStockMovement(activeBatch.id, {
+        stage: movementForm.stage,
+        quantity: serialFrom && serialTo ? null : quantity,
+        serial_from: serialFrom || null,
+        serial_to: serialTo || null,
+        vendor: movementForm.vendor.trim() || null,
+        reference: movementForm.reference.trim() || null,
+      });
+      setBatches((previous) =>
+        previous.map((batch) => (String(batch.id) === String(updated.id) ? updated : batch)),
+      );
+      setMovementForm((previous) => ({ ...emptyMovementForm, stage: previous.stage }));
+      setFeedback({
+        type: "success",
+        message: `Recorded as ${stageLabel(movementForm.stage).toLowerCase()}.`,
+      });
+      await loadRegister(String(activeBatch.id));
+    } catch (error) {
+      console.error("Unable to record stock movement", error);
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to record the stock movement.",
+      });
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const handlePrint = (batch: ResultPinBatch) => {
+    const params = new URLSearchParams({
+      session_id: String(batch.session_id),
+      term_id: String(batch.term_id),
+      batch_id: String(batch.id),
+    });
+    window.open(`/v19/print-pin-cards?${params.toString()}`, "_blank");
+  };
+
+  if (!canView) {
+    return (
+      <div className="alert alert-warning" role="alert">
+        You do not have permission to view scratch card batches.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="breadcrumbs-area">
+        <h3>Scratch Card Batches</h3>
+        <ul>
+          <li>
+            <Link href="/v10/dashboard">Home</Link>
+          </li>
+          <li>
+            <Link href="/v19/pins">Result Pin</Link>
+          </li>
+          <li>Scratch Card Batches</li>
+        </ul>
+      </div>
+
+      {feedback ? (
+        <div className={`alert alert-${feedback.type}`} role="alert">
+          {feedback.message}
+        </div>
+      ) : null}
+
+      <div className="card height-auto mb-4">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Batches</h3>
+              <p className="text-muted small mb-0">
+                Unassigned scratch cards sold at the bursary. A card binds to a
+                student the first time it is redeemed.
+              </p>
+            </div>
+          </div>
+
+          <div className="row gutters-8">
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="batch-session">Session</label>
+              <select
+                id="batch-session"
+                className="form-control"
+                value={sessionId}
+                onChange={(event) => {
+                  setSessionId(event.target.value);
+                  setTermId("");
+                }}
+              >
+                <option value="">Select session</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={session.id}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="batch-term">Term</label>
+              <select
+                id="batch-term"
+                className="form-control"
+                value={termId}
+                onChange={(event) => setTermId(event.target.value)}
+                disabled={!sessionId}
+              >
+                <option value="">Select term</option>
+                {terms.map((term) => (
+                  <option key={term.id} value={term.id}>
+                    {term.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {canManage && sessionId && termId ? (
+            <form onSubmit={handleCreateBatch} className="border rounded p-3 mb-4">
+              <h5 className="mb-3">New Batch</h5>
+              <div className="row gutters-8">
+                <div className="col-lg-2 col-md-4 col-12 form-group">
+                  <label htmlFor="batch-quantity">Cards *</label>
+                  <input
+                    id="batch-quantity"
+                    type="number"
+                    min={1}
+                    className="form-control"
+                    value={batchForm.quantity}
+                    onChange={(event) =>
+                      setBatchForm((prev) => ({ ...prev, quantity: event.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="col-lg-2 col-md-4 col-12 form-group">
+                  <label htmlFor="batch-price">Unit Price</label>
+                  <input
+                    id="batch-price"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="form-control"
+                    value={batchForm.unit_price}
+                    onChange={(event) =>
+                      setBatchForm((prev) => ({ ...prev, unit_price: event.target.value }))
+                    }
+                  />
+                </div>
+                <div className="col-lg-2 col-md-4 col-12 form-group">
+                  <label htmlFor="batch-expiry">Expires</label>
+                  <input
+                    id="batch-expiry"
+                    type="date"
+                    className="form-control"
+                    value={batchForm.expires_at}
+                    onChange={(event) =>
+                      setBatchForm((prev) => ({ ...prev, expires_at: event.target.value }))
+                    }
+                  />
+                </div>
+                <div className="col-lg-2 col-md-4 col-12 form-group">
+                  <label htmlFor="batch-max-usage">Uses per Card</label>
+                  <input
+                    id="batch-max-usage"
+                    type="number"
+                    min={1}
+                    className="form-control"
+                    value={batchForm.max_usage}
+                    placeholder="Unlimited"
+                    onChange={(event) =>
+                      setBatchForm((prev) => ({ ...prev, max_usage: event.target.value }))
+                    }
+                  />
+                </div>
+                <div className="col-lg-4 col-md-8 col-12 form-group">
+                  <label htmlFor="batch-notes">Notes</label>
+                  <input
+                    id="batch-notes"
+                    type="text"
+                    className="form-control"
+                    value={batchForm.notes}
+                    onChange={(event) =>
+                      setBatchForm((prev) => ({ ...prev, notes: event.target.value }))
+                    }
+                  />
+                </div>
+              </div>
+              <button
+                type="submit"
+                className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+                disabled={creating}
+              >
+                {creating ? "Creating…" : "Create Batch"}
+              </button>
+            </form>
+          ) : null}
+
+          <div className="table-responsive">
+            <table className="table display text-nowrap">
+              <thead>
+                <tr>
+                  <th>Batch</th>
+                  <th>Serials</th>
+                  <th className="text-right">Cards</th>
+                  {RESULT_PIN_STOCK_STAGES.map((stage) => (
+                    <th key={stage.value} className="text-right">
+                      {stage.label}
+                    </th>
+                  ))}
+                  <th>Created</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={9}>Loading batches…</td>
+                  </tr>
+                ) : batches.length === 0 ? (
+                  <tr>
+                    <td colSpan={9} className="text-muted">
+                      {sessionId && termId
+                        ? "No scratch card batches for this term yet."
+                        : "Select a session and term."}
+                    </td>
+                  </tr>
+                ) : (
+                  batches.map((batch) => (
+                    <tr
+                      key={batch.id}
+                      className={String(batch.id) === activeBatchId ? "table-active" : undefined}
+                    >
+                      <td>
+                        <code>{batch.batch_code}</code>
+                      </td>
+                      <td>
+                        {batch.serial_start} – {batch.serial_end}
+                      </td>
+                      <td className="text-right">{batch.quantity}</td>
+                      {RESULT_PIN_STOCK_STAGES.map((stage) => (
+                        <td key={stage.value} className="text-right">
+                          {batch.stock?.[stage.value] ?? 0}
+                        </td>
+                      ))}
+                      <td>{formatDateTime(batch.created_at)}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn btn-link p-0 mr-3"
+                          onClick={() => setActiveBatchId(String(batch.id))}
+                        >
+                          Stock Register
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn-link p-0"
+                          onClick={() => handlePrint(batch)}
+                        >
+                          Print Cards
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {activeBatch ? (
+        <div className="card height-auto mb-4">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Stock Register · {activeBatch.batch_code}</h3>
+              </div>
+              <button
+                type="button"
+                className="btn btn-outline-secondary btn-sm"
+                onClick={() => setActiveBatchId("")}
+              >
+                Close
+              </button>
+            </div>
+
+            {canManage ? (
+              <form onSubmit={handleRecordMovement} className="border rounded p-3 mb-4">
+                <div className="row gutters-8">
+                  <div className="col-lg-2 col-md-4 col-12 form-group">
+                    <label htmlFor="movement-stage">Movement</label>
+                    <select
+                      id="movement-stage"
+                      className="form-control"
+                      value={movementForm.stage}
+                      onChange={(event) =>
+                        setMovementForm((prev) => ({
+                          ...prev,
+                          stage: event.target.value as ResultPinStockMovementStage,
+                        }))
+                      }
+                    >
+                      {RESULT_PIN_STOCK_STAGES.filter((stage) => stage.value !== "redeemed").map(
+                        (stage) => (
+                          <option key={stage.value} value={stage.value}>
+                            {stage.label}
+                          </option>
+                        ),
+                      )}
+                    </select>
+                  </div>
+                  <div className="col-lg-2 col-md-4 col-12 form-group">
+                    <label htmlFor="movement-quantity">Quantity</label>
+                    <input
+                      id="movement-quantity"
+                      type="number"
+                      min={1}
+                      className="form-control"
+                      value={movementForm.quantity}
+                      onChange={(event) =>
+                        setMovementForm((prev) => ({ ...prev, quantity: event.target.value }))
+                      }
+                    />
+                  </div>
+                  <div className="col-lg-2 col-md-4 col-12 form-group">
+                    <label htmlFor="movement-serial-from">or Serial From</label>
+                    <input
+                      id="movement-serial-from"
+                      type="text"
+                      className="form-control"
+                      value={movementForm.serial_from}
+                      placeholder={activeBatch.serial_start}
+                      onChange={(event) =>
+                        setMovementForm((prev) => ({ ...prev, serial_from: event.target.value }))
+                      }
+                    />
+                  </div>
+                  <div className="col-lg-2 col-md-4 col-12 form-group">
+                    <label htmlFor="movement-serial-to">Serial To</label>
+                    <input
+                      id="movement-serial-to"
+                      type="text"
+                      className="form-control"
+                      value={movementForm.serial_to}
+                      placeholder={activeBatch.serial_end}
+                      onChange={(event) =>
+                        setMovementForm((prev) => ({ ...prev, serial_to: event.target.value }))
+                      }
+                    />
+                  </div>
+                  <div className="col-lg-2 col-md-4 col-12 form-group">
+                    <label htmlFor="movement-vendor">
+                      Vendor{movementForm.stage === "issued" ? " *" : ""}
+                    </label>
+                    <input
+                      id="movement-vendor"
+                      type="text"
+                      className="form-control"
+                      value={movementForm.vendor}
+                      onChange={(event) =>
+                        setMovementForm((prev) => ({ ...prev, vendor: event.target.value }))
+                      }
+                    />
+                  </div>
+                  <div className="col-lg-2 col-md-4 col-12 form-group">
+                    <label htmlFor="movement-reference">Reference</label>
+                    <input
+                      id="movement-reference"
+                      type="text"
+                      className="form-control"
+                      value={movementForm.reference}
+                      placeholder="Receipt / invoice no."
+                      onChange={(event) =>
+                        setMovementForm((prev) => ({ ...prev, reference: event.target.value }))
+                      }
+                    />
+                  </div>
+                </div>
+                <button type="submit" className="btn btn-outline-primary" disabled={recording}>
+                  {recording ? "Recording…" : "Record Movement"}
+                </button>
+              </form>
+            ) : null}
+
+            {registerLoading ? (
+              <p className="text-muted">Loading stock register…</p>
+            ) : (
+              <div className="row">
+                <div className="col-lg-6 col-12">
+                  <h5>Movements</h5>
+                  <div className="table-responsive">
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Date</th>
+                          <th>Movement</th>
+                          <th className="text-right">Cards</th>
+                          <th>Serials</th>
+                          <th>Vendor / Ref</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {movements.length === 0 ? (
+                          <tr>
+                            <td colSpan={5} className="text-muted">
+                              Nothing recorded yet.
+                            </td>
+                          </tr>
+                        ) : (
+                          movements.map((movement) => (
+                            <tr key={movement.id}>
+                              <td>{formatDateTime(movement.recorded_at)}</td>
+                              <td>
+                                <span className={stageBadgeClass(movement.stage)}>
+                                  {stageLabel(movement.stage)}
+                                </span>
+                              </td>
+                              <td className="text-right">{movement.quantity}</td>
+                              <td>
+                                {movement.serial_from && movement.serial_to
+                                  ? `${movement.serial_from} – ${movement.serial_to}`
+                                  : "—"}
+                              </td>
+                              <td>
+                                {[movement.vendor, movement.reference].filter(Boolean).join(" · ") ||
+                                  "—"}
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+                <div className="col-lg-6 col-12">
+                  <h5>Cards</h5>
+                  <div className="table-responsive" style={{ maxHeight: 420, overflowY: "auto" }}>
+                    <table className="table table-sm">
+                      <thead>
+                        <tr>
+                          <th>Serial</th>
+                          <th>Stage</th>
+                          <th>Redeemed By</th>
+                          <th>Redeemed</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {cards.map((card) => (
+                          <tr key={card.id}>
+                            <td>
+                              <code>{card.serial_number}</code>
+                            </td>
+                            <td>
+                              <span className={stageBadgeClass(card.stage)}>
+                                {stageLabel(card.stage)}
+                              </span>
+                            </td>
+                            <td>{buildStudentName(card)}</td>
+                            <td>{formatDateTime(card.redeemed_at)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      ) : null}
+
+      {batches.length > 0 ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Sold vs Redeemed</h3>
+              </div>
+            </div>
+
+            {reconciliation.totals.unrecordedSales > 0 ? (
+              <div className="alert alert-warning" role="alert">
+                {reconciliation.totals.unrecordedSales} card
+                {reconciliation.totals.unrecordedSales === 1 ? " was" : "s were"} redeemed
+                without being recorded as sold. Check the sales entries for the flagged
+                batches.
+              </div>
+            ) : null}
+
+            <div className="table-responsive">
+              <table className="table display text-nowrap">
+                <thead>
+                  <tr>
+                    <th>Batch</th>
+                    <th className="text-right">Sold</th>
+                    <th className="text-right">Redeemed</th>
+                    <th className="text-right">Not Yet Redeemed</th>
+                    <th className="text-right">Redeemed, Not Recorded Sold</th>
+                    <th className="text-right">Sales Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.rows.map((row) => (
+                    <tr key={row.batch.id}>
+                      <td>
+                        <code>{row.batch.batch_code}</code>
+                      </td>
+                      <td className="text-right">{row.sold}</td>
+                      <td className="text-right">{row.redeemed}</td>
+                      <td className="text-right">{row.outstanding}</td>
+                      <td className="text-right">
+                        {row.unrecordedSales > 0 ? (
+                          <span className="badge badge-warning">{row.unrecordedSales}</span>
+                        ) : (
+                          0
+                        )}
+                      </td>
+                      <td className="text-right">{formatMoney(row.revenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr>
+                    <th>Term total</th>
+                    <th className="text-right">{reconciliation.totals.sold}</th>
+                    <th className="text-right">{reconciliation.totals.redeemed}</th>
+                    <th className="text-right">{reconciliation.totals.outstanding}</th>
+                    <th className="text-right">{reconciliation.totals.unrecordedSales}</th>
+                    <th className="text-right">{formatMoney(reconciliation.totals.revenue)}</th>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
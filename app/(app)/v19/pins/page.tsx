@@ -7,8 +7,6 @@ import { listSessions, type Session } from "@/lib/sessions";
 import { listTermsBySession, type Term } from "@/lib/terms";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listClassArms, type ClassArm } from "@/lib/classArms";
-import { resolveBackendUrl } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
 import { PERMISSIONS } from "@/lib/permissionKeys";
 import {
   bulkGenerateResultPins,
@@ -707,18 +705,7 @@ export default function PinsPage() {
         params.set("school_class_id", selectedClass);
       }
 
-      const token = getCookie("token");
-      if (!token) {
-        showFeedback(
-          "Your session token is missing. Please log in again before printing.",
-          "warning",
-        );
-        return;
-      }
-
-      const endpoint = `${resolveBackendUrl(
-        "/api/v1/result-pins/cards/print",
-      )}?${params.toString()}`;
+      const endpoint = `/v19/print-pin-cards?${params.toString()}`;
       const printWindow = window.open("", "_blank");
       if (!printWindow) {
         showFeedback(
@@ -731,11 +718,8 @@ export default function PinsPage() {
       try {
         const response = await fetch(endpoint, {
           headers: {
-            Accept: "text/html",
-            "X-Requested-With": "XMLHttpRequest",
-            Authorization: `Bearer ${token}`,
+            Accept: "text/html, application/json",
           },
-          credentials: "include",
         });
 
         if (!response.ok) {
@@ -0,0 +1,636 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isAdminUser } from "@/lib/roleChecks";
+import { PERMISSIONS } from "@/lib/permissionKeys";
+import { listSessions, type Session } from "@/lib/sessions";
+import { listTermsBySession, type Term } from "@/lib/terms";
+import {
+  PUBLICATION_STAGES,
+  PUBLICATION_STAGE_LABELS,
+  canPerformAction,
+  canSendBack,
+  fetchResultPublication,
+  fetchResultPublicationMatrix,
+  nextPublicationAction,
+  sendBackTargets,
+  transitionResultPublication,
+  type ClassResultPublication,
+  type PublicationCapabilities,
+  type ResultPublicationAction,
+  type ResultPublicationMatrix,
+  type ResultPublicationStage,
+  type SubjectPublicationStatus,
+} from "@/lib/resultPublication";
+
+type FeedbackKind = "success" | "danger" | "warning" | "info";
+
+interface FeedbackState {
+  type: FeedbackKind;
+  message: string;
+}
+
+const stageBadge: Record<ResultPublicationStage, string> = {
+  draft: "badge badge-secondary",
+  submitted: "badge badge-info",
+  reviewed: "badge badge-primary",
+  approved: "badge badge-warning",
+  published: "badge badge-success",
+};
+
+const ACTION_LABELS: Record<ResultPublicationAction, string> = {
+  submit: "Submitted",
+  review: "Mark as Reviewed",
+  approve: "Approve",
+  publish: "Publish",
+  send_back: "Sent back",
+};
+
+const HISTORY_LABELS: Record<ResultPublicationAction, string> = {
+  submit: "Submitted",
+  review: "Reviewed",
+  approve: "Approved",
+  publish: "Published",
+  send_back: "Sent back",
+};
+
+const rowKey = (row: ClassResultPublication) =>
+  `${row.school_class_id}:${row.class_arm_id ?? ""}`;
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+const outstandingSubjects = (row: ClassResultPublication) =>
+  row.subjects.filter((subject) => subject.stage === "draft");
+
+export default function ResultPublicationPage() {
+  const { user, hasPermission, schoolContext } = useAuth();
+  const isAdmin = isAdminUser(user);
+  const canView = isAdmin || hasPermission(PERMISSIONS.RESULTS_PUBLICATION_VIEW);
+  const capabilities: PublicationCapabilities = useMemo(
+    () => ({
+      submit: isAdmin || hasPermission(PERMISSIONS.RESULTS_PUBLICATION_SUBMIT),
+      review: isAdmin || hasPermission(PERMISSIONS.RESULTS_PUBLICATION_REVIEW),
+      approve: isAdmin || hasPermission(PERMISSIONS.RESULTS_PUBLICATION_APPROVE),
+      publish: isAdmin || hasPermission(PERMISSIONS.RESULTS_PUBLICATION_PUBLISH),
+    }),
+    [hasPermission, isAdmin],
+  );
+
+  const [sessionId, setSessionId] = useState(
+    schoolContext.current_session_id ? String(schoolContext.current_session_id) : "",
+  );
+  const [termId, setTermId] = useState(
+    schoolContext.current_term_id ? String(schoolContext.current_term_id) : "",
+  );
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+
+  const [matrix, setMatrix] = useState<ResultPublicationMatrix>({ subjects: [], classes: [] });
+  const [loading, setLoading] = useState(false);
+  const [outstandingOnly, setOutstandingOnly] = useState(false);
+  const [feedback, setFeedback] = useState<FeedbackState | null>(null);
+
+  const [activeKey, setActiveKey] = useState("");
+  const [active, setActive] = useState<ClassResultPublication | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [comment, setComment] = useState("");
+  const [sendBackStage, setSendBackStage] = useState<ResultPublicationStage | "">("");
+  const [sendBackSubjectIds, setSendBackSubjectIds] = useState<string[]>([]);
+  const [acting, setActing] = useState(false);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((error) => console.error("Unable to load sessions", error));
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setTerms([]);
+      return;
+    }
+    listTermsBySession(sessionId)
+      .then(setTerms)
+      .catch((error) => console.error("Unable to load terms", error));
+  }, [sessionId]);
+
+  const loadMatrix = useCallback(async () => {
+    if (!sessionId || !termId || !canView) {
+      setMatrix({ subjects: [], classes: [] });
+      return;
+    }
+    setLoading(true);
+    try {
+      setMatrix(await fetchResultPublicationMatrix({ session_id: sessionId, term_id: termId }));
+    } catch (error) {
+      console.error("Unable to load result publication matrix", error);
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to load result publication.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [canView, sessionId, termId]);
+
+  useEffect(() => {
+    setActiveKey("");
+    void loadMatrix();
+  }, [loadMatrix]);
+
+  const activeRow = useMemo(
+    () => matrix.classes.find((row) => rowKey(row) === activeKey) ?? null,
+    [activeKey, matrix.classes],
+  );
+
+  useEffect(() => {
+    setComment("");
+    setSendBackStage("");
+    setSendBackSubjectIds([]);
+    if (!activeRow) {
+      setActive(null);
+      return;
+    }
+    let cancelled = false;
+    setDetailLoading(true);
+    fetchResultPublication({
+      session_id: activeRow.session_id,
+      term_id: activeRow.term_id,
+      school_class_id: activeRow.school_class_id,
+      class_arm_id: activeRow.class_arm_id ?? null,
+    })
+      .then((data) => {
+        if (!cancelled) setActive(data);
+      })
+      .catch((error) => {
+        console.error("Unable to load class publication", error);
+        if (!cancelled) {
+          setActive(null);
+          setFeedback({
+            type: "danger",
+            message: error instanceof Error ? error.message : "Unable to load class results.",
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setDetailLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeRow]);
+
+  const visibleRows = useMemo(
+    () =>
+      outstandingOnly
+        ? matrix.classes.filter((row) => row.stage !== "published")
+        : matrix.classes,
+    [matrix.classes, outstandingOnly],
+  );
+
+  const totals = useMemo(() => {
+    const counts = Object.fromEntries(
+      PUBLICATION_STAGES.map((stage) => [stage.value, 0]),
+    ) as Record<ResultPublicationStage, number>;
+    matrix.classes.forEach((row) => {
+      counts[row.stage] += 1;
+    });
+    return counts;
+  }, [matrix.classes]);
+
+  const applyTransition = async (
+    action: ResultPublicationAction,
+    extra: { to_stage?: ResultPublicationStage; subject_ids?: string[] } = {},
+  ) => {
+    if (!active) return;
+    setActing(true);
+    setFeedback(null);
+    try {
+      const updated = await transitionResultPublication(active.id, {
+        action,
+        comment: comment.trim() || undefined,
+        ...extra,
+      });
+      setActive(updated);
+      setMatrix((prev) => ({
+        ...prev,
+        classes: prev.classes.map((row) =>
+          rowKey(row) === rowKey(updated) ? { ...row, ...updated, history: undefined } : row,
+        ),
+      }));
+      setComment("");
+      setSendBackStage("");
+      setSendBackSubjectIds([]);
+      setFeedback({
+        type: "success",
+        message: `${updated.class_name} is now ${PUBLICATION_STAGE_LABELS[updated.stage].toLowerCase()}.`,
+      });
+    } catch (error) {
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to update the results.",
+      });
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const handleAdvance = async () => {
+    if (!active) return;
+    const action = nextPublicationAction(active);
+    if (!action || action === "submit" || action === "send_back") return;
+    if (
+      action === "publish" &&
+      !window.confirm(
+        `Publish ${active.class_name}? Students and parents will be able to see and print these results.`,
+      )
+    ) {
+      return;
+    }
+    await applyTransition(action);
+  };
+
+  const handleSendBack = async () => {
+    if (!active || !sendBackStage) return;
+    if (!comment.trim()) {
+      setFeedback({ type: "warning", message: "Explain what needs correcting before sending back." });
+      return;
+    }
+    if (sendBackStage === "draft" && sendBackSubjectIds.length === 0) {
+      setFeedback({ type: "warning", message: "Choose the subjects that need correcting." });
+      return;
+    }
+    await applyTransition("send_back", {
+      to_stage: sendBackStage,
+      subject_ids: sendBackStage === "draft" ? sendBackSubjectIds : undefined,
+    });
+  };
+
+  const renderCell = (status: SubjectPublicationStatus | undefined) => {
+    if (!status) {
+      return <span className="text-muted">—</span>;
+    }
+    const complete = status.expected_count > 0 && status.entered_count >= status.expected_count;
+    return (
+      <>
+        <span className={stageBadge[status.stage]}>{PUBLICATION_STAGE_LABELS[status.stage]}</span>
+        <div className={`small ${complete ? "text-muted" : "text-danger"}`}>
+          {status.entered_count}/{status.expected_count}
+        </div>
+      </>
+    );
+  };
+
+  if (!canView) {
+    return (
+      <div className="alert alert-warning" role="alert">
+        You do not have permission to view result publication.
+      </div>
+    );
+  }
+
+  const nextAction = active ? nextPublicationAction(active) : null;
+  const canAdvance =
+    active && (nextAction === "review" || nextAction === "approve" || nextAction === "publish")
+      ? canPerformAction(active, nextAction, capabilities)
+      : false;
+  const submittedSubjects = active
+    ? active.subjects.filter((subject) => subject.stage === "submitted")
+    : [];
+
+  return (
+    <>
+      <div className="breadcrumbs-area">
+        <h3>Result Publication</h3>
+        <ul>
+          <li>
+            <Link href="/v10/dashboard">Home</Link>
+          </li>
+          <li>
+            <Link href="/v19/results-entry">Result Entry</Link>
+          </li>
+          <li>Result Publication</li>
+        </ul>
+      </div>
+
+      {feedback ? (
+        <div className={`alert alert-${feedback.type}`} role="alert">
+          {feedback.message}
+        </div>
+      ) : null}
+
+      <div className="card height-auto mb-4">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Completion Matrix</h3>
+              <p className="text-muted small mb-0">
+                Subject teachers submit each subject, the class teacher reviews, the principal
+                approves, and publishing releases the results to students, parents and the
+                print routes. Counts show students with a complete score.
+              </p>
+            </div>
+          </div>
+
+          <div className="row gutters-8">
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="publication-session">Session</label>
+              <select
+                id="publication-session"
+                className="form-control"
+                value={sessionId}
+                onChange={(event) => {
+                  setSessionId(event.target.value);
+                  setTermId("");
+                }}
+              >
+                <option value="">Select session</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={session.id}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="publication-term">Term</label>
+              <select
+                id="publication-term"
+                className="form-control"
+                value={termId}
+                onChange={(event) => setTermId(event.target.value)}
+                disabled={!sessionId}
+              >
+                <option value="">Select term</option>
+                {terms.map((term) => (
+                  <option key={term.id} value={term.id}>
+                    {term.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-6 col-12 form-group d-flex align-items-end">
+              <div className="form-check mb-2">
+                <input
+                  id="publication-outstanding"
+                  type="checkbox"
+                  className="form-check-input"
+                  checked={outstandingOnly}
+                  onChange={(event) => setOutstandingOnly(event.target.checked)}
+                />
+                <label htmlFor="publication-outstanding" className="form-check-label">
+                  Only classes not yet published
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {matrix.classes.length > 0 ? (
+            <p className="small mb-3">
+              {PUBLICATION_STAGES.map((stage) => (
+                <span key={stage.value} className="mr-3">
+                  <span className={stageBadge[stage.value]}>{stage.label}</span>{" "}
+                  {totals[stage.value]}
+                </span>
+              ))}
+            </p>
+          ) : null}
+
+          {loading ? (
+            <p className="text-muted mb-0">Loading…</p>
+          ) : !sessionId || !termId ? (
+            <p className="text-muted mb-0">Select a session and term.</p>
+          ) : visibleRows.length === 0 ? (
+            <p className="text-muted mb-0">No classes to show.</p>
+          ) : (
+            <div className="table-responsive">
+              <table className="table display text-nowrap">
+                <thead>
+                  <tr>
+                    <th>Class</th>
+                    <th>Stage</th>
+                    <th>Outstanding</th>
+                    {matrix.subjects.map((subject) => (
+                      <th key={subject.id}>{subject.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => {
+                    const bySubject = new Map(
+                      row.subjects.map((subject) => [String(subject.subject_id), subject]),
+                    );
+                    const outstanding = outstandingSubjects(row).length;
+                    return (
+                      <tr
+                        key={rowKey(row)}
+                        className={rowKey(row) === activeKey ? "table-active" : undefined}
+                        style={{ cursor: "pointer" }}
+                        onClick={() => setActiveKey(rowKey(row))}
+                      >
+                        <td>{row.class_name}</td>
+                        <td>
+                          <span className={stageBadge[row.stage]}>
+                            {PUBLICATION_STAGE_LABELS[row.stage]}
+                          </span>
+                        </td>
+                        <td className={outstanding > 0 ? "text-danger" : "text-muted"}>
+                          {outstanding > 0 ? `${outstanding} subject(s)` : "None"}
+                        </td>
+                        {matrix.subjects.map((subject) => (
+                          <td key={subject.id}>{renderCell(bySubject.get(String(subject.id)))}</td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {activeRow ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>{activeRow.class_name}</h3>
+              </div>
+            </div>
+
+            {detailLoading || !active ? (
+              <p className="text-muted mb-0">Loading…</p>
+            ) : (
+              <>
+                <ol className="list-inline mb-3">
+                  {PUBLICATION_STAGES.map((stage) => (
+                    <li key={stage.value} className="list-inline-item">
+                      <span
+                        className={
+                          stage.value === active.stage
+                            ? stageBadge[stage.value]
+                            : "badge badge-light"
+                        }
+                      >
+                        {stage.label}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+
+                {active.stage === "draft" ? (
+                  <p className="text-muted">
+                    Waiting for {outstandingSubjects(active).length} subject(s) to be submitted:{" "}
+                    {outstandingSubjects(active)
+                      .map((subject) => subject.subject_name)
+                      .join(", ")}
+                    .
+                  </p>
+                ) : null}
+
+                <div className="form-group">
+                  <label htmlFor="publication-comment">Comment</label>
+                  <textarea
+                    id="publication-comment"
+                    className="form-control"
+                    rows={2}
+                    value={comment}
+                    onChange={(event) => setComment(event.target.value)}
+                    placeholder="Required when sending back; optional otherwise."
+                    disabled={acting}
+                  />
+                </div>
+
+                <div className="d-flex flex-wrap align-items-start">
+                  {canAdvance && nextAction ? (
+                    <button
+                      type="button"
+                      className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark mr-3 mb-2"
+                      onClick={() => void handleAdvance()}
+                      disabled={acting}
+                    >
+                      {acting ? "Saving…" : ACTION_LABELS[nextAction]}
+                    </button>
+                  ) : null}
+
+                  {canSendBack(active, capabilities) ? (
+                    <div className="border rounded p-2 mb-2">
+                      <div className="d-flex align-items-center">
+                        <select
+                          className="form-control form-control-sm mr-2"
+                          value={sendBackStage}
+                          onChange={(event) =>
+                            setSendBackStage(event.target.value as ResultPublicationStage | "")
+                          }
+                          disabled={acting}
+                        >
+                          <option value="">Send back to…</option>
+                          {sendBackTargets(active).map((stage) => (
+                            <option key={stage} value={stage}>
+                              {stage === "draft"
+                                ? "Subject teachers (reopen entry)"
+                                : PUBLICATION_STAGE_LABELS[stage]}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-outline-danger text-nowrap"
+                          onClick={() => void handleSendBack()}
+                          disabled={acting || !sendBackStage}
+                        >
+                          Send Back
+                        </button>
+                      </div>
+                      {sendBackStage === "draft" ? (
+                        <div className="mt-2">
+                          {submittedSubjects.map((subject) => {
+                            const id = String(subject.subject_id);
+                            return (
+                              <div key={id} className="form-check">
+                                <input
+                                  id={`send-back-${id}`}
+                                  type="checkbox"
+                                  className="form-check-input"
+                                  checked={sendBackSubjectIds.includes(id)}
+                                  onChange={() =>
+                                    setSendBackSubjectIds((prev) =>
+                                      prev.includes(id)
+                                        ? prev.filter((value) => value !== id)
+                                        : [...prev, id],
+                                    )
+                                  }
+                                />
+                                <label htmlFor={`send-back-${id}`} className="form-check-label">
+                                  {subject.subject_name}
+                                </label>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ) : null}
+                    </div>
+                  ) : null}
+                </div>
+
+                <h5 className="mt-4">History</h5>
+                {(active.history ?? []).length === 0 ? (
+                  <p className="text-muted mb-0">Nothing has happened yet.</p>
+                ) : (
+                  <div className="table-responsive">
+                    <table className="table display">
+                      <thead>
+                        <tr>
+                          <th>When</th>
+                          <th>Who</th>
+                          <th>What</th>
+                          <th>Comment</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(active.history ?? []).map((event) => {
+                          const subjectNames = (event.subject_ids ?? [])
+                            .map(
+                              (id) =>
+                                active.subjects.find(
+                                  (subject) => String(subject.subject_id) === String(id),
+                                )?.subject_name,
+                            )
+                            .filter(Boolean)
+                            .join(", ");
+                          return (
+                            <tr key={event.id}>
+                              <td className="text-nowrap">{formatDateTime(event.created_at)}</td>
+                              <td>{event.actor_name || "—"}</td>
+                              <td>
+                                {HISTORY_LABELS[event.action]}
+                                {event.action === "send_back"
+                                  ? ` to ${PUBLICATION_STAGE_LABELS[event.to_stage].toLowerCase()}`
+                                  : ""}
+                                {subjectNames ? (
+                                  <div className="small text-muted">{subjectNames}</div>
+                                ) : null}
+                              </td>
+                              <td>{event.comment || "—"}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
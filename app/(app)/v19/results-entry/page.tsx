@@ -27,14 +27,31 @@ import {
   listAssessmentComponents,
   type AssessmentComponent,
 } from "@/lib/assessmentComponents";
-import { AssessmentComponentStructureService } from "@/lib/assessmentComponentStructure";
 import { apiFetch } from "@/lib/apiClient";
 import { API_ROUTES } from "@/lib/config";
 import {
+  fetchSubjectTermTotals,
+  formatPosition,
   listResults,
   saveResultsBatch,
+  summarizeSubjectScores,
   type ResultRecord,
 } from "@/lib/results";
+import {
+  detectResultAnomalies,
+  loadComponentMaxScores,
+  validateScoreInput,
+  type ResultAnomaly,
+} from "@/lib/resultValidation";
+import {
+  listGradeScales,
+  pickActiveGradeScale,
+  type GradeScale,
+} from "@/lib/gradeScales";
+import {
+  fetchResultPageSettings,
+  type ResultPageSettings,
+} from "@/lib/resultPageSettings";
 import {
   listStudents,
   type StudentSummary,
@@ -43,7 +60,14 @@ import {
   listSubjectTeacherAssignments,
 } from "@/lib/subjectTeacherAssignments";
 import { fetchSchoolContext } from "@/lib/schoolContext";
-import { isTeacherUser } from "@/lib/roleChecks";
+import { isAdminUser, isTeacherUser } from "@/lib/roleChecks";
+import { PERMISSIONS } from "@/lib/permissionKeys";
+import {
+  fetchResultPublication,
+  isSubjectLocked,
+  type ClassResultPublication,
+} from "@/lib/resultPublication";
+import { SubjectSubmissionPanel } from "@/components/results/SubjectSubmissionPanel";
 
 type ResultRowStatus = "saved" | "pending" | "none";
 
@@ -93,6 +117,32 @@ const formatScore = (value: unknown): string => {
   return numeric.toFixed(2).replace(/\.?0+$/, "");
 };
 
+const parseScore = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const numeric = Number(trimmed);
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
+// Term order within a session, for finding "last term".
+const orderTerms = (terms: Term[]): Term[] =>
+  [...terms].sort((a, b) => {
+    const byNumber = Number(a.term_number ?? 0) - Number(b.term_number ?? 0);
+    if (byNumber !== 0) {
+      return byNumber;
+    }
+    return String(a.start_date ?? "").localeCompare(String(b.start_date ?? ""));
+  });
+
+const anomalyLabels: Record<ResultAnomaly["kind"], string> = {
+  missing_score: "Missing score",
+  all_zero: "All zeros",
+  duplicate_columns: "Duplicate columns",
+  term_drop: "Dropped since last term",
+};
+
 const buildClassLabel = (student: StudentSummary): string => {
   const className = student.school_class?.name ?? "—";
   const armName = student.class_arm?.name ?? "";
@@ -133,7 +183,7 @@ const statusLabel = (status: ResultRowStatus): string => {
 };
 
 export default function ResultsEntryPage() {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const [teacherDashboard, setTeacherDashboard] = useState<TeacherDashboardResponse | null>(null);
 
   const isTeacher = isTeacherUser(user);
@@ -157,6 +207,14 @@ export default function ResultsEntryPage() {
   const lastAutoSaveKeyRef = useRef<Record<string, string>>({});
 
   const [rows, setRows] = useState<ResultEntryRow[]>([]);
+  const [gradeScale, setGradeScale] = useState<GradeScale | null>(null);
+  const [pageSettings, setPageSettings] = useState<ResultPageSettings | null>(
+    null,
+  );
+  const [anomalies, setAnomalies] = useState<ResultAnomaly[] | null>(null);
+  const [anomalyNote, setAnomalyNote] = useState("");
+  const [anomalyLoading, setAnomalyLoading] = useState(false);
+  const [dropThreshold, setDropThreshold] = useState("15");
 
   const [componentMaxScores, setComponentMaxScores] = useState<Record<string, number>>({});
 
@@ -165,6 +223,7 @@ export default function ResultsEntryPage() {
     message: string;
   } | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>("");
+  const [publication, setPublication] = useState<ClassResultPublication | null>(null);
 
   const selectedSession = filters.sessionId;
   const selectedTerm = filters.termId;
@@ -234,33 +293,21 @@ export default function ResultsEntryPage() {
   );
 
   useEffect(() => {
-    if (!selectedClass || !selectedTerm || displayComponents.length === 0) {
+    if (!selectedClass || !selectedTerm || components.length === 0) {
       setComponentMaxScores({});
       return;
     }
 
     let active = true;
-    Promise.all(
-      displayComponents.map((component) =>
-        AssessmentComponentStructureService.getMaxScore({
-          assessment_component_id: String(component.id),
-          class_id: selectedClass,
-          term_id: selectedTerm || null,
-        }) as Promise<{ max_score: number }>,
-      ),
-    )
-      .then((responses) => {
-        if (!active) {
-          return;
+    loadComponentMaxScores({
+      componentIds: components.map((component) => component.id),
+      classId: selectedClass,
+      termId: selectedTerm,
+    })
+      .then((nextScores) => {
+        if (active) {
+          setComponentMaxScores(nextScores);
         }
-        const nextScores: Record<string, number> = {};
-        responses.forEach((response, index) => {
-          const maxScore = Number((response as { max_score?: number }).max_score);
-          if (Number.isFinite(maxScore) && maxScore > 0) {
-            nextScores[String(displayComponents[index].id)] = maxScore;
-          }
-        });
-        setComponentMaxScores(nextScores);
       })
       .catch((error) => {
         if (!active) {
@@ -273,7 +320,7 @@ export default function ResultsEntryPage() {
     return () => {
       active = false;
     };
-  }, [displayComponents, selectedClass, selectedTerm]);
+  }, [components, selectedClass, selectedTerm]);
 
   const updateFilters = useCallback(
     (updater: (current: FiltersState) => FiltersState) => {
@@ -396,6 +443,41 @@ export default function ResultsEntryPage() {
     return editableTeacherSubjectIds.has(String(selectedSubject));
   }, [editableTeacherSubjectIds, isTeacher, selectedSubject]);
 
+  useEffect(() => {
+    if (!selectedSession || !selectedTerm || !selectedClass) {
+      setPublication(null);
+      return;
+    }
+    let cancelled = false;
+    fetchResultPublication({
+      session_id: selectedSession,
+      term_id: selectedTerm,
+      school_class_id: selectedClass,
+      class_arm_id: selectedArm || null,
+    })
+      .then((data) => {
+        if (!cancelled) {
+          setPublication(data);
+        }
+      })
+      .catch((error) => {
+        console.error("Unable to load result publication status", error);
+        if (!cancelled) {
+          setPublication(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedArm, selectedClass, selectedSession, selectedTerm]);
+
+  const entryLocked = Boolean(
+    selectedSubject && isSubjectLocked(publication, selectedSubject),
+  );
+  const canSubmitSubject =
+    canEditSelectedSubject &&
+    (isAdminUser(user) || hasPermission(PERMISSIONS.RESULTS_PUBLICATION_SUBMIT));
+
   const ensureTerms = useCallback(
     async (sessionId: string): Promise<Term[]> => {
       if (!sessionId) {
@@ -557,6 +639,36 @@ export default function ResultsEntryPage() {
     };
   }, [isTeacher, ensureTerms, updateFilters]);
 
+  // The preview panel degrades to plain totals when either of these fails,
+  // so they load separately from the filters context.
+  useEffect(() => {
+    let active = true;
+
+    listGradeScales()
+      .then((scales) => {
+        if (active) {
+          setGradeScale(pickActiveGradeScale(scales));
+        }
+      })
+      .catch((error) => {
+        console.error("Unable to load grade scales", error);
+      });
+
+    fetchResultPageSettings()
+      .then((settings) => {
+        if (active) {
+          setPageSettings(settings);
+        }
+      })
+      .catch((error) => {
+        console.error("Unable to load result page settings", error);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
   useEffect(() => {
     if (!selectedSession) {
       updateFilters((prev) => {
@@ -953,7 +1065,7 @@ export default function ResultsEntryPage() {
       if (!selectedSession || !selectedTerm || !selectedSubject) {
         return;
       }
-      if (isTeacher && !canEditSelectedSubject) {
+      if ((isTeacher && !canEditSelectedSubject) || entryLocked) {
         return;
       }
       const trimmedScore = scoreInput.trim();
@@ -964,13 +1076,9 @@ export default function ResultsEntryPage() {
       }
 
       const maxScore = getComponentMaxScore(componentId);
-      const maxScoreLabel = getComponentMaxScoreLabel(componentId);
+      const scoreError = validateScoreInput(trimmedScore, maxScore);
       const scoreValue = Number(trimmedScore);
-      if (
-        Number.isNaN(scoreValue) ||
-        scoreValue < 0 ||
-        scoreValue > maxScore
-      ) {
+      if (scoreError) {
         setRows((prev) =>
           prev.map((row) => {
             if (String(row.student.id) !== String(studentId)) {
@@ -986,7 +1094,7 @@ export default function ResultsEntryPage() {
                 ...row.cells,
                 [componentId]: {
                   ...cell,
-                  rowError: `Score must be a number between 0 and ${maxScoreLabel}.`,
+                  rowError: scoreError,
                   status: "pending",
                 },
               },
@@ -1036,7 +1144,7 @@ export default function ResultsEntryPage() {
               remarks: trimmedRemark ? trimmedRemark : null,
             },
           ],
-        });
+        }, { maxScore });
 
         const saved = response.results.find(
           (result) => String(result.student_id) === String(studentId),
@@ -1116,11 +1224,11 @@ export default function ResultsEntryPage() {
     },
     [
       getComponentMaxScore,
-      getComponentMaxScoreLabel,
       selectedSession,
       selectedSubject,
       selectedTerm,
       canEditSelectedSubject,
+      entryLocked,
       isTeacher,
     ],
   );
@@ -1135,7 +1243,7 @@ export default function ResultsEntryPage() {
       if (!selectedSession || !selectedTerm || !selectedSubject) {
         return;
       }
-      if (isTeacher && !canEditSelectedSubject) {
+      if ((isTeacher && !canEditSelectedSubject) || entryLocked) {
         return;
       }
       const cell = row.cells[componentId];
@@ -1169,6 +1277,7 @@ export default function ResultsEntryPage() {
     [
       autoSaveRow,
       canEditSelectedSubject,
+      entryLocked,
       isTeacher,
       selectedSession,
       selectedSubject,
@@ -1249,6 +1358,8 @@ export default function ResultsEntryPage() {
   const handleLoadStudents = useCallback(async () => {
     resetMessages();
     setStatusMessage("");
+    setAnomalies(null);
+    setAnomalyNote("");
 
     const missing: string[] = [];
     if (!selectedSession) missing.push("session");
@@ -1289,7 +1400,9 @@ export default function ResultsEntryPage() {
         sortDirection: "asc",
       });
 
-      const resultPromises = displayComponents.map((component) =>
+      // Every component is loaded, even when one is selected for entry, so
+      // the computed preview can total the subject.
+      const resultPromises = components.map((component) =>
         listResults({
           per_page: 500,
           session_id: selectedSession,
@@ -1324,7 +1437,7 @@ export default function ResultsEntryPage() {
       }
       const resultMap = new Map<string, ResultRecord>();
       resultsResponses.forEach((response, index) => {
-        const componentId = String(displayComponents[index].id);
+        const componentId = String(components[index].id);
         const results = response.data ?? [];
         results.forEach((result) => {
           const key = `${result.student_id}-${componentId}`;
@@ -1334,7 +1447,7 @@ export default function ResultsEntryPage() {
 
       const nextRows: ResultEntryRow[] = students.map((student) => {
         const cells: Record<string, ResultEntryCell> = {};
-        displayComponents.forEach((component) => {
+        components.forEach((component) => {
           const componentId = String(component.id);
           const result = resultMap.get(`${student.id}-${componentId}`);
           const scoreValue = result ? formatScore(result.total_score) : "";
@@ -1380,6 +1493,7 @@ export default function ResultsEntryPage() {
       setTableLoading(false);
     }
   }, [
+    components,
     displayComponents,
     getAssignedStudentIds,
     resetMessages,
@@ -1391,6 +1505,152 @@ export default function ResultsEntryPage() {
     selectedSubject,
   ]);
 
+  const findPreviousTerm = useCallback(async () => {
+    const sessionTerms = orderTerms(await ensureTerms(selectedSession));
+    const index = sessionTerms.findIndex(
+      (term) => String(term.id) === selectedTerm,
+    );
+    if (index > 0) {
+      return {
+        sessionId: selectedSession,
+        termId: String(sessionTerms[index - 1].id),
+      };
+    }
+    const orderedSessions = [...sessions].sort((a, b) =>
+      String(a.start_date ?? a.name).localeCompare(
+        String(b.start_date ?? b.name),
+      ),
+    );
+    const sessionIndex = orderedSessions.findIndex(
+      (session) => String(session.id) === selectedSession,
+    );
+    if (sessionIndex <= 0) {
+      return null;
+    }
+    const previousSessionId = String(orderedSessions[sessionIndex - 1].id);
+    const previousTerms = orderTerms(await ensureTerms(previousSessionId));
+    const lastTerm = previousTerms[previousTerms.length - 1];
+    return lastTerm
+      ? { sessionId: previousSessionId, termId: String(lastTerm.id) }
+      : null;
+  }, [ensureTerms, selectedSession, selectedTerm, sessions]);
+
+  const handleCheckAnomalies = useCallback(async () => {
+    if (!rows.length || !components.length) {
+      return;
+    }
+    const threshold = Number(dropThreshold);
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      setAnomalyNote("Enter a drop threshold of 0 or more marks.");
+      return;
+    }
+
+    setAnomalyLoading(true);
+    setAnomalyNote("");
+    try {
+      let previousTotals: Map<string, number> | null = null;
+      const previousTerm = await findPreviousTerm();
+      if (previousTerm) {
+        previousTotals = await fetchSubjectTermTotals({
+          session_id: previousTerm.sessionId,
+          term_id: previousTerm.termId,
+          subject_id: selectedSubject,
+          // After a session rollover the class has changed, so match on
+          // the students instead.
+          school_class_id:
+            previousTerm.sessionId === selectedSession ? selectedClass : undefined,
+        });
+      } else {
+        setAnomalyNote(
+          "No earlier term was found, so term-on-term drops were not checked.",
+        );
+      }
+
+      const scores = new Map<string, number>();
+      rows.forEach((row) => {
+        components.forEach((component) => {
+          const cell = row.cells[String(component.id)];
+          const score = cell ? parseScore(cell.score) : null;
+          if (score !== null) {
+            scores.set(`${row.student.id}-${component.id}`, score);
+          }
+        });
+      });
+
+      setAnomalies(
+        detectResultAnomalies({
+          students: rows.map((row) => ({
+            id: String(row.student.id),
+            name: buildStudentName(row.student),
+          })),
+          components: components.map((component) => ({
+            id: String(component.id),
+            name: component.name,
+          })),
+          scores,
+          previousTotals,
+          dropThreshold: threshold,
+        }),
+      );
+    } catch (error) {
+      console.error("Unable to check result anomalies", error);
+      setAnomalies(null);
+      setAnomalyNote(
+        error instanceof Error
+          ? error.message
+          : "Unable to check the results for anomalies.",
+      );
+    } finally {
+      setAnomalyLoading(false);
+    }
+  }, [
+    components,
+    dropThreshold,
+    findPreviousTerm,
+    rows,
+    selectedClass,
+    selectedSession,
+    selectedSubject,
+  ]);
+
+  const scorePreview = useMemo(() => {
+    if (!rows.length || !components.length) {
+      return null;
+    }
+    return summarizeSubjectScores(
+      rows.map((row) => ({
+        key: String(row.student.id),
+        scores: components.map((component) => {
+          const cell = row.cells[String(component.id)];
+          return cell ? parseScore(cell.score) : null;
+        }),
+      })),
+      gradeScale?.grade_ranges ?? [],
+    );
+  }, [components, gradeScale, rows]);
+
+  // Mirror the report card: until the settings load, assume the defaults,
+  // which show everything.
+  const showGrade = pageSettings?.show_grade ?? true;
+  const showPosition = pageSettings?.show_position ?? true;
+  const previewStats = [
+    {
+      label: "Class Average",
+      value: scorePreview?.average ?? null,
+      visible: pageSettings?.show_class_average ?? true,
+    },
+    {
+      label: "Highest",
+      value: scorePreview?.highest ?? null,
+      visible: pageSettings?.show_highest ?? true,
+    },
+    {
+      label: "Lowest",
+      value: scorePreview?.lowest ?? null,
+      visible: pageSettings?.show_lowest ?? true,
+    },
+  ].filter((stat) => stat.visible);
+
   return (
     <>
       <div className="breadcrumbs-area">
@@ -1579,6 +1839,15 @@ export default function ResultsEntryPage() {
             </div>
           ) : null}
 
+          {publication && selectedSubject ? (
+            <SubjectSubmissionPanel
+              publication={publication}
+              subjectId={selectedSubject}
+              canSubmit={canSubmitSubject}
+              onChange={setPublication}
+            />
+          ) : null}
+
           {isTeacher && selectedSubject && !canEditSelectedSubject ? (
             <div className="alert alert-info" role="alert">
               You can view this subject as a class teacher, but scores can only
@@ -1636,7 +1905,18 @@ export default function ResultsEntryPage() {
                     const visibleCells = displayComponents
                       .map((component) => row.cells[String(component.id)])
                       .filter(Boolean) as ResultEntryCell[];
-                    const hasError = visibleCells.some((cell) => cell.rowError);
+                    const hasError = displayComponents.some((component) => {
+                      const componentId = String(component.id);
+                      const cell = row.cells[componentId];
+                      return Boolean(
+                        cell &&
+                          (cell.rowError ||
+                            validateScoreInput(
+                              cell.score,
+                              getComponentMaxScore(componentId),
+                            )),
+                      );
+                    });
                     const hasPending = visibleCells.some(
                       (cell) => cell.status === "pending",
                     );
@@ -1663,18 +1943,23 @@ export default function ResultsEntryPage() {
                           if (!cell) {
                             return <td key={componentId}>—</td>;
                           }
+                          const scoreError = validateScoreInput(
+                            cell.score,
+                            getComponentMaxScore(componentId),
+                          );
+                          const cellError = cell.rowError ?? scoreError;
                           return (
                             <td key={componentId}>
                               <input
                                 type="number"
-                                className="form-control"
+                                className={`form-control${cellError ? " is-invalid" : ""}`}
                                 min={0}
                                 max={getComponentMaxScore(componentId)}
                                 step={0.01}
                                 value={cell.score}
-                                disabled={!canEditSelectedSubject}
+                                disabled={!canEditSelectedSubject || entryLocked}
                                 onChange={(event) => {
-                                  if (!canEditSelectedSubject) {
+                                  if (!canEditSelectedSubject || entryLocked) {
                                     return;
                                   }
                                   const nextScore = event.target.value;
@@ -1689,9 +1974,9 @@ export default function ResultsEntryPage() {
                                   );
                                 }}
                               />
-                              {cell.rowError ? (
+                              {cellError ? (
                                 <p className="text-danger small mb-0 mt-1">
-                                  {cell.rowError}
+                                  {cellError}
                                 </p>
                               ) : null}
                             </td>
@@ -1715,6 +2000,188 @@ export default function ResultsEntryPage() {
         </div>
       </div>
 
+      {scorePreview && !tableLoading ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Computed Preview</h3>
+                <p className="mb-0 text-muted small">
+                  Subject totals across all assessment components, updated as
+                  you type. Only what the result page settings show on the
+                  report card is listed here.
+                </p>
+              </div>
+            </div>
+
+            {showGrade && !gradeScale ? (
+              <div className="alert alert-warning" role="alert">
+                No grade scale is configured, so grades cannot be computed.
+              </div>
+            ) : null}
+
+            {previewStats.length ? (
+              <div className="row text-center mb-3">
+                {previewStats.map((stat) => (
+                  <div key={stat.label} className="col-md-3 col-6 mb-2">
+                    <div className="border rounded p-2">
+                      <div className="text-muted small">{stat.label}</div>
+                      <strong>
+                        {stat.value === null ? "—" : formatScore(stat.value)}
+                      </strong>
+                    </div>
+                  </div>
+                ))}
+                <div className="col-md-3 col-6 mb-2">
+                  <div className="border rounded p-2">
+                    <div className="text-muted small">Students Scored</div>
+                    <strong>
+                      {scorePreview.scoredCount} / {scorePreview.rows.length}
+                    </strong>
+                  </div>
+                </div>
+              </div>
+            ) : null}
+
+            <div className="table-responsive">
+              <table className="table display text-nowrap">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Student</th>
+                    <th>Total</th>
+                    {showGrade ? (
+                      <>
+                        <th>Grade</th>
+                        <th>Grade Point</th>
+                      </>
+                    ) : null}
+                    {showPosition ? <th>Position</th> : null}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => {
+                    const preview = scorePreview.rows[index];
+                    return (
+                      <tr key={String(row.student.id)}>
+                        <td>{index + 1}</td>
+                        <td>{buildStudentName(row.student)}</td>
+                        <td>
+                          {preview?.total == null
+                            ? "—"
+                            : formatScore(preview.total)}
+                        </td>
+                        {showGrade ? (
+                          <>
+                            <td>{preview?.grade?.grade_label ?? "—"}</td>
+                            <td>
+                              {preview?.grade?.grade_point == null
+                                ? "—"
+                                : formatScore(preview.grade.grade_point)}
+                            </td>
+                          </>
+                        ) : null}
+                        {showPosition ? (
+                          <td>
+                            {preview?.position
+                              ? formatPosition(preview.position)
+                              : "—"}
+                          </td>
+                        ) : null}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {rows.length > 0 && !tableLoading ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Anomaly Report</h3>
+                <p className="mb-0 text-muted small">
+                  Missing scores, all-zero rows, identical component columns,
+                  and students whose total fell sharply since last term.
+                </p>
+              </div>
+            </div>
+
+            <div className="d-flex flex-wrap align-items-end mb-3">
+              <div className="form-group mr-3 mb-2">
+                <label htmlFor="anomaly-drop-threshold">
+                  Flag drops of more than (marks)
+                </label>
+                <input
+                  id="anomaly-drop-threshold"
+                  type="number"
+                  className="form-control"
+                  min={0}
+                  step={1}
+                  value={dropThreshold}
+                  onChange={(event) => setDropThreshold(event.target.value)}
+                />
+              </div>
+              <button
+                type="button"
+                className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark mb-2"
+                onClick={() => {
+                  void handleCheckAnomalies();
+                }}
+                disabled={anomalyLoading}
+              >
+                {anomalyLoading ? "Checking…" : "Check for Anomalies"}
+              </button>
+            </div>
+
+            {anomalyNote ? (
+              <div className="alert alert-info" role="alert">
+                {anomalyNote}
+              </div>
+            ) : null}
+
+            {anomalies === null ? null : anomalies.length === 0 ? (
+              <div className="alert alert-success" role="alert">
+                No anomalies found for this class and subject.
+              </div>
+            ) : (
+              <div className="table-responsive">
+                <table className="table display">
+                  <thead>
+                    <tr>
+                      <th>Type</th>
+                      <th>Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {anomalies.map((anomaly, index) => (
+                      <tr key={`${anomaly.kind}-${anomaly.studentId ?? "column"}-${index}`}>
+                        <td className="text-nowrap">
+                          <span
+                            className={
+                              anomaly.kind === "missing_score"
+                                ? "badge badge-secondary"
+                                : "badge badge-warning"
+                            }
+                          >
+                            {anomalyLabels[anomaly.kind]}
+                          </span>
+                        </td>
+                        <td>{anomaly.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      ) : null}
+
       <style jsx global>{`
         @media (max-width: 768px) {
           .results-entry-table th:nth-child(3),
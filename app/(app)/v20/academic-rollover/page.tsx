@@ -1,10 +1,24 @@
 "use client";
 
 import Link from "next/link";
-import { FormEvent, useEffect, useMemo, useState } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isAdminUser } from "@/lib/roleChecks";
+import { PERMISSIONS } from "@/lib/permissionKeys";
 import { listSessions, type Session } from "@/lib/sessions";
 import { listTermsBySession } from "@/lib/terms";
-import { processAcademicRollover } from "@/lib/promotions";
+import { listStudents } from "@/lib/students";
+import { listCalendarEvents } from "@/lib/academicCalendar";
+import {
+  ROLLOVER_CARRY_OVER_LABELS,
+  fetchLatestRollover,
+  previewAcademicRollover,
+  processAcademicRollover,
+  undoAcademicRollover,
+  type RolloverCarryOverKey,
+  type RolloverPreview,
+  type RolloverRecord,
+} from "@/lib/promotions";
 
 interface FormState {
   source_session_id: string;
@@ -28,69 +42,220 @@ interface PreviewTerm {
   proposed_end: string;
 }
 
+interface ChecklistItem {
+  key: string;
+  label: string;
+  href: string;
+  /** Null when the page cannot tell; the item is then just a reminder. */
+  done: boolean | null;
+}
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) {
+    return "—";
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+// Splits the new session evenly across the source session's terms, for
+// terms the backend did not propose dates for.
+function proposeTermDates(
+  names: string[],
+  start: string,
+  end: string,
+): PreviewTerm[] {
+  const startDate = start ? new Date(start) : null;
+  const endDate = end ? new Date(end) : null;
+  return names.map((name, index) => {
+    if (!startDate || !endDate) {
+      return { name, proposed_start: "—", proposed_end: "—" };
+    }
+    const duration = Math.max(
+      1,
+      Math.floor((endDate.getTime() - startDate.getTime()) / names.length),
+    );
+    const termStart = new Date(startDate.getTime() + duration * index);
+    const termEnd = new Date(startDate.getTime() + duration * (index + 1));
+    return {
+      name,
+      proposed_start: termStart.toISOString().slice(0, 10),
+      proposed_end: termEnd.toISOString().slice(0, 10),
+    };
+  });
+}
+
 export default function AcademicRolloverPage() {
+  const { user, hasPermission, schoolContext, refreshSchoolContext } = useAuth();
+  const canUndo = isAdminUser(user) || hasPermission(PERMISSIONS.ACADEMIC_ROLLOVER_UNDO);
+
   const [sessions, setSessions] = useState<Session[]>([]);
   const [form, setForm] = useState<FormState>(initialState);
   const [preview, setPreview] = useState<PreviewTerm[] | null>(null);
+  const [dryRun, setDryRun] = useState<RolloverPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
   const [feedback, setFeedback] = useState<{ type: "success" | "info" | "warning" | "danger"; message: string } | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
-  useEffect(() => {
+  const [rollover, setRollover] = useState<RolloverRecord | null>(null);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [undoing, setUndoing] = useState(false);
+
+  const loadSessions = useCallback(() => {
     listSessions()
       .then(setSessions)
       .catch((err) => console.error("Unable to load sessions", err));
   }, []);
 
-  const handlePreview = async () => {
-    setFeedback(null);
-    setPreview(null);
+  const loadRollover = useCallback(() => {
+    fetchLatestRollover()
+      .then(setRollover)
+      .catch((err) => console.error("Unable to load the latest rollover", err));
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+    loadRollover();
+  }, [loadSessions, loadRollover]);
+
+  const newSessionId = rollover?.new_session?.id
+    ? String(rollover.new_session.id)
+    : "";
+
+  useEffect(() => {
+    if (!newSessionId) {
+      setChecklist([]);
+      return;
+    }
+    let cancelled = false;
+
+    const run = async () => {
+      const [terms, students, events] = await Promise.all([
+        listTermsBySession(newSessionId).catch(() => null),
+        listStudents({ page: 1, per_page: 1, current_session_id: newSessionId }).catch(
+          () => null,
+        ),
+        listCalendarEvents({ session_id: newSessionId }).catch(() => null),
+      ]);
+      if (cancelled) {
+        return;
+      }
+      const termIds = new Set((terms ?? []).map((term) => String(term.id)));
+      setChecklist([
+        {
+          key: "current-session",
+          label: "Make the new session the current session",
+          href: "/v10/edit-school-profile",
+          done: String(schoolContext.current_session_id ?? "") === newSessionId,
+        },
+        {
+          key: "current-term",
+          label: "Set the current term to the new session's first term",
+          href: "/v10/edit-school-profile",
+          done: termIds.has(String(schoolContext.current_term_id ?? "")),
+        },
+        {
+          key: "term-dates",
+          label: "Confirm the start and end dates of each term",
+          href: "/v11/all-terms",
+          done: terms
+            ? terms.length > 0 && terms.every((term) => term.start_date && term.end_date)
+            : null,
+        },
+        {
+          key: "promotion",
+          label: "Promote students into the new session",
+          href: "/v20/student-promotion",
+          done: students ? students.total > 0 : null,
+        },
+        {
+          key: "calendar",
+          label: "Add holidays and breaks to the academic calendar",
+          href: "/v11/academic-calendar",
+          done: events ? events.length > 0 : null,
+        },
+        {
+          key: "class-teachers",
+          label: "Review class teacher assignments",
+          href: "/v18/assign-class-teachers",
+          done: null,
+        },
+        {
+          key: "fees",
+          label: "Review fee structures for the new terms",
+          href: "/v23/fee-structure",
+          done: null,
+        },
+      ]);
+    };
+
+    run().catch((err) => console.error("Unable to build the rollover checklist", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [newSessionId, schoolContext.current_session_id, schoolContext.current_term_id]);
 
+  const validateForm = () => {
     if (!form.source_session_id) {
       setFeedback({ type: "warning", message: "Select the source session." });
-      return;
+      return false;
     }
     if (!form.new_session_name.trim()) {
       setFeedback({ type: "warning", message: "Enter the new session name." });
+      return false;
+    }
+    return true;
+  };
+
+  const handlePreview = async () => {
+    setFeedback(null);
+    setPreview(null);
+    setDryRun(null);
+
+    if (!validateForm()) {
       return;
     }
 
+    setPreviewing(true);
     try {
-      const terms = await listTermsBySession(form.source_session_id);
-      if (!terms.length) {
-        setPreview([]);
-        setFeedback({ type: "info", message: "Source session has no terms to preview." });
-        return;
-      }
-
-      const startDate = form.new_session_start ? new Date(form.new_session_start) : null;
-      const endDate = form.new_session_end ? new Date(form.new_session_end) : null;
-
-      const generated = terms.map((term, index) => {
-        if (!startDate || !endDate) {
-          return {
-            name: term.name,
-            proposed_start: "—",
-            proposed_end: "—",
-          };
-        }
-        const duration = Math.max(1, Math.floor((endDate.getTime() - startDate.getTime()) / terms.length));
-        const termStart = new Date(startDate.getTime() + duration * index);
-        const termEnd = new Date(startDate.getTime() + duration * (index + 1));
-        return {
+      const [result, sourceTerms] = await Promise.all([
+        previewAcademicRollover({
+          source_session_id: form.source_session_id,
+          new_session_name: form.new_session_name.trim(),
+          new_session_start: form.new_session_start || null,
+          new_session_end: form.new_session_end || null,
+          notes: form.notes.trim() || null,
+        }),
+        listTermsBySession(form.source_session_id),
+      ]);
+      const names = result.terms.length
+        ? result.terms.map((term) => term.name)
+        : sourceTerms.map((term) => term.name);
+      const proposed = proposeTermDates(
+        names,
+        form.new_session_start,
+        form.new_session_end,
+      );
+      setPreview(
+        proposed.map((term, index) => ({
           name: term.name,
-          proposed_start: termStart.toISOString().slice(0, 10),
-          proposed_end: termEnd.toISOString().slice(0, 10),
-        };
+          proposed_start: result.terms[index]?.start_date ?? term.proposed_start,
+          proposed_end: result.terms[index]?.end_date ?? term.proposed_end,
+        })),
+      );
+      setDryRun(result);
+      setFeedback({
+        type: "info",
+        message: "Dry run complete. Nothing has been changed yet; review before running the rollover.",
       });
-
-      setPreview(generated);
-      setFeedback({ type: "info", message: "Preview generated. Review before confirming rollover." });
     } catch (err) {
       console.error("Preview error", err);
       setFeedback({
         type: "danger",
         message: err instanceof Error ? err.message : "Unable to generate preview.",
       });
+    } finally {
+      setPreviewing(false);
     }
   };
 
@@ -98,12 +263,7 @@ export default function AcademicRolloverPage() {
     event.preventDefault();
     setFeedback(null);
 
-    if (!form.source_session_id) {
-      setFeedback({ type: "warning", message: "Select the source session." });
-      return;
-    }
-    if (!form.new_session_name.trim()) {
-      setFeedback({ type: "warning", message: "Enter the new session name." });
+    if (!validateForm()) {
       return;
     }
     if (!form.new_session_start || !form.new_session_end) {
@@ -115,7 +275,13 @@ export default function AcademicRolloverPage() {
       return;
     }
 
-    if (!window.confirm("This will create a new academic session. Continue?")) {
+    if (
+      !window.confirm(
+        dryRun
+          ? "This will create a new academic session as previewed. Continue?"
+          : "You have not previewed this rollover. Create the new academic session anyway?",
+      )
+    ) {
       return;
     }
 
@@ -133,7 +299,14 @@ export default function AcademicRolloverPage() {
         message: response.message ?? "Academic year rollover completed successfully.",
       });
       setPreview(null);
+      setDryRun(null);
       setForm(initialState);
+      if (response.rollover) {
+        setRollover(response.rollover);
+      } else {
+        loadRollover();
+      }
+      loadSessions();
     } catch (err) {
       console.error("Rollover error", err);
       setFeedback({
@@ -145,6 +318,41 @@ export default function AcademicRolloverPage() {
     }
   };
 
+  const handleUndo = async () => {
+    if (!rollover) {
+      return;
+    }
+    const name = rollover.new_session?.name ?? "the new session";
+    if (
+      !window.confirm(
+        `Undo the rollover? ${name} and everything copied into it will be deleted. This cannot be reversed.`,
+      )
+    ) {
+      return;
+    }
+    setFeedback(null);
+    setUndoing(true);
+    try {
+      const response = await undoAcademicRollover(rollover.id);
+      setFeedback({
+        type: "success",
+        message: response.message ?? `The rollover was undone and ${name} removed.`,
+      });
+      setRollover(null);
+      loadSessions();
+      await refreshSchoolContext();
+    } catch (err) {
+      console.error("Undo rollover error", err);
+      setFeedback({
+        type: "danger",
+        message: err instanceof Error ? err.message : "Unable to undo the rollover.",
+      });
+      loadRollover();
+    } finally {
+      setUndoing(false);
+    }
+  };
+
   const previewRows = useMemo(() => {
     if (!preview) {
       return null;
@@ -167,6 +375,21 @@ export default function AcademicRolloverPage() {
     ));
   }, [preview]);
 
+  const carriedOver = useMemo(
+    () =>
+      dryRun
+        ? (Object.keys(ROLLOVER_CARRY_OVER_LABELS) as RolloverCarryOverKey[]).map((key) => ({
+            key,
+            label: ROLLOVER_CARRY_OVER_LABELS[key],
+            entry: dryRun.carried_over[key] ?? null,
+          }))
+        : [],
+    [dryRun],
+  );
+
+  const checklistDone = checklist.filter((item) => item.done).length;
+  const checklistTracked = checklist.filter((item) => item.done !== null).length;
+
   return (
     <>
       <div className="breadcrumbs-area">
@@ -179,6 +402,84 @@ export default function AcademicRolloverPage() {
         </ul>
       </div>
 
+      {rollover ? (
+        <div className="card height-auto mb-4">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Latest Rollover</h3>
+                <p className="mb-0 text-muted small">
+                  {rollover.source_session?.name ?? "Previous session"} →{" "}
+                  <strong>{rollover.new_session?.name ?? "New session"}</strong>
+                  {" · "}
+                  {formatDateTime(rollover.created_at)}
+                  {rollover.performed_by ? ` by ${rollover.performed_by}` : ""}
+                </p>
+              </div>
+              {canUndo ? (
+                <button
+                  type="button"
+                  className="btn btn-outline-danger"
+                  onClick={() => {
+                    void handleUndo();
+                  }}
+                  disabled={undoing || !rollover.undo_available}
+                >
+                  {undoing ? "Undoing..." : "Undo Rollover"}
+                </button>
+              ) : null}
+            </div>
+
+            {rollover.undo_available ? (
+              <div className="alert alert-info" role="alert">
+                This rollover can still be undone
+                {rollover.undo_expires_at
+                  ? ` until ${formatDateTime(rollover.undo_expires_at)}`
+                  : ""}
+                . Undo closes as soon as results or attendance are recorded in the
+                new session.
+              </div>
+            ) : (
+              <div className="alert alert-secondary" role="alert">
+                Undo is no longer available
+                {rollover.undo_blocked_reason ? `: ${rollover.undo_blocked_reason}` : "."}
+                {rollover.results_recorded || rollover.attendance_recorded
+                  ? ` (${rollover.results_recorded ?? 0} results, ${rollover.attendance_recorded ?? 0} attendance records in the new session)`
+                  : ""}
+              </div>
+            )}
+
+            <h5 className="mb-2">
+              After the rollover
+              {checklistTracked ? (
+                <small className="text-muted ml-2">
+                  {checklistDone} of {checklistTracked} checked
+                </small>
+              ) : null}
+            </h5>
+            <ul className="list-unstyled mb-0">
+              {checklist.map((item) => (
+                <li key={item.key} className="d-flex align-items-center mb-2">
+                  <span
+                    className={`badge mr-2 ${
+                      item.done === null
+                        ? "badge-secondary"
+                        : item.done
+                          ? "badge-success"
+                          : "badge-warning"
+                    }`}
+                    style={{ minWidth: "64px" }}
+                  >
+                    {item.done === null ? "Review" : item.done ? "Done" : "To do"}
+                  </span>
+                  <Link href={item.href}>{item.label}</Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ) : null}
+
       <div className="card height-auto">
         <div className="card-body">
           <div className="heading-layout1">
@@ -201,12 +502,13 @@ export default function AcademicRolloverPage() {
                   id="rollover-source-session"
                   className="form-control"
                   value={form.source_session_id}
-                  onChange={(event) =>
+                  onChange={(event) => {
+                    setDryRun(null);
                     setForm((prev) => ({
                       ...prev,
                       source_session_id: event.target.value,
-                    }))
-                  }
+                    }));
+                  }}
                   required
                 >
                   <option value="">Select session</option>
@@ -287,9 +589,12 @@ export default function AcademicRolloverPage() {
               <button
                 type="button"
                 className="btn btn-outline-secondary"
-                onClick={handlePreview}
+                onClick={() => {
+                  void handlePreview();
+                }}
+                disabled={previewing}
               >
-                Preview Term Dates
+                {previewing ? "Preparing preview…" : "Preview Rollover"}
               </button>
               <button
                 type="submit"
@@ -301,6 +606,67 @@ export default function AcademicRolloverPage() {
             </div>
           </form>
 
+          {dryRun?.warnings?.length ? (
+            <div className="alert alert-warning mt-4 mb-0" role="alert">
+              <ul className="mb-0 pl-3">
+                {dryRun.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {dryRun ? (
+            <div className="row mt-4">
+              <div className="col-lg-6 col-12">
+                <div className="card h-100">
+                  <div className="card-body">
+                    <h5 className="card-title">Carried Over</h5>
+                    <table className="table table-sm mb-0">
+                      <tbody>
+                        {carriedOver.map(({ key, label, entry }) => (
+                          <tr key={key}>
+                            <th>{label}</th>
+                            <td className="text-right">{entry ? entry.count : "—"}</td>
+                            <td className="text-muted small">
+                              {entry?.items?.length
+                                ? `${entry.items.slice(0, 4).join(", ")}${entry.count > 4 ? "…" : ""}`
+                                : entry
+                                  ? ""
+                                  : "Not copied"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+              <div className="col-lg-6 col-12">
+                <div className="card h-100">
+                  <div className="card-body">
+                    <h5 className="card-title">Starts Fresh</h5>
+                    {dryRun.reset.length ? (
+                      <ul className="mb-0 pl-3">
+                        {dryRun.reset.map((item) => (
+                          <li key={item.label} className="mb-1">
+                            <strong>{item.label}</strong>
+                            {typeof item.count === "number" ? ` (${item.count})` : ""}
+                            {item.description ? (
+                              <div className="text-muted small">{item.description}</div>
+                            ) : null}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-muted mb-0">Nothing is reset.</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ) : null}
+
           {preview ? (
             <div className="card mt-4">
               <div className="card-body">
@@ -6,6 +6,7 @@ import { listSessions, type Session } from "@/lib/sessions";
 import { listTermsBySession, type Term } from "@/lib/terms";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listPromotionHistory, promotionHistoryExportUrl, type PromotionHistoryRow } from "@/lib/promotions";
+import { PROMOTION_DECISION_LABELS } from "@/lib/promotionRules";
 
 interface Filters {
   session_id: string;
@@ -242,18 +243,19 @@ export default function PromotionReportsPage() {
                   <th>From</th>
                   <th>To</th>
                   <th>Performed By</th>
+                  <th>Rule Outcome</th>
                 </tr>
               </thead>
               <tbody>
                 {loading ? (
                   <tr>
-                    <td colSpan={5} className="text-center">
+                    <td colSpan={6} className="text-center">
                       Loading promotion history…
                     </td>
                   </tr>
                 ) : rows.length === 0 ? (
                   <tr>
-                    <td colSpan={5} className="text-center">
+                    <td colSpan={6} className="text-center">
                       No promotion records found.
                     </td>
                   </tr>
@@ -271,6 +273,16 @@ export default function PromotionReportsPage() {
                         <td>{row.from_class ?? ""}</td>
                         <td>{row.to_class ?? ""}</td>
                         <td>{row.performed_by ?? ""}</td>
+                        <td className="text-wrap">
+                          {row.rule_outcome
+                            ? PROMOTION_DECISION_LABELS[row.rule_outcome] ?? row.rule_outcome
+                            : "—"}
+                          {row.override_justification ? (
+                            <div className="text-muted small">
+                              Overridden: {row.override_justification}
+                            </div>
+                          ) : null}
+                        </td>
                       </tr>
                     );
                   })
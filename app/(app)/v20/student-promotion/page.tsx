@@ -1,7 +1,10 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isAdminUser } from "@/lib/roleChecks";
+import { PERMISSIONS } from "@/lib/permissionKeys";
 import { listSessions, type Session } from "@/lib/sessions";
 import { listClasses, type SchoolClass } from "@/lib/classes";
 import { listClassArms, type ClassArm } from "@/lib/classArms";
@@ -15,8 +18,30 @@ import {
 } from "@/lib/students";
 import {
   bulkPromoteStudents,
+  type PromotionOutcome,
   type PromotionResponse,
 } from "@/lib/promotions";
+import {
+  PROMOTION_DECISION_LABELS,
+  emptyPromotionRuleSet,
+  fetchPromotionRules,
+  recommendPromotion,
+  savePromotionRules,
+  type PromotionDecision,
+  type PromotionRecommendation,
+  type PromotionRuleSet,
+} from "@/lib/promotionRules";
+import { listAllSubjects, type Subject } from "@/lib/subjects";
+import {
+  listGradeScales,
+  pickActiveGradeScale,
+  type GradeRange,
+} from "@/lib/gradeScales";
+import { fetchSessionSubjectAverages } from "@/lib/results";
+import {
+  analyzeStudentAttendance,
+  listAllStudentAttendance,
+} from "@/lib/attendanceAnalytics";
 
 interface Filters {
   session_id: string;
@@ -46,7 +71,50 @@ const initialTarget: TargetPlacement = {
   class_section_id: "",
 };
 
+interface RulesFormState {
+  minSessionAverage: string;
+  requiredSubjectIds: string[];
+  minSubjectPasses: string;
+  minAttendanceRate: string;
+  reviewMargin: string;
+}
+
+interface DecisionOverride {
+  decision: PromotionDecision;
+  justification: string;
+}
+
+const decisionBadge: Record<PromotionDecision, string> = {
+  promote: "badge badge-success",
+  repeat: "badge badge-danger",
+  review: "badge badge-warning",
+};
+
+const rulesToForm = (rules: PromotionRuleSet): RulesFormState => ({
+  minSessionAverage:
+    rules.min_session_average === null ? "" : String(rules.min_session_average),
+  requiredSubjectIds: rules.required_subject_ids.map(String),
+  minSubjectPasses:
+    rules.min_subject_passes === null ? "" : String(rules.min_subject_passes),
+  minAttendanceRate:
+    rules.min_attendance_rate === null ? "" : String(rules.min_attendance_rate),
+  reviewMargin: String(rules.review_margin),
+});
+
+const optionalNumber = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const numeric = Number(trimmed);
+  return Number.isFinite(numeric) ? numeric : null;
+};
+
 export default function StudentPromotionPage() {
+  const { user, hasPermission } = useAuth();
+  const canManageRules =
+    isAdminUser(user) || hasPermission(PERMISSIONS.STUDENTS_PROMOTION_RULES_MANAGE);
+
   const [sessions, setSessions] = useState<Session[]>([]);
   const [classes, setClasses] = useState<SchoolClass[]>([]);
   const [armsCache, setArmsCache] = useState<Record<string, ClassArm[]>>({});
@@ -64,6 +132,51 @@ export default function StudentPromotionPage() {
   const [promotionResult, setPromotionResult] = useState<PromotionResponse | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [gradeRanges, setGradeRanges] = useState<GradeRange[]>([]);
+  const [rules, setRules] = useState<PromotionRuleSet | null>(null);
+  const [rulesForm, setRulesForm] = useState<RulesFormState | null>(null);
+  const [rulesSaving, setRulesSaving] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+  const [recommendations, setRecommendations] = useState<
+    Map<number, PromotionRecommendation>
+  >(new Map());
+  const [overrides, setOverrides] = useState<Record<number, DecisionOverride>>({});
+
+  useEffect(() => {
+    listAllSubjects()
+      .then(setSubjects)
+      .catch((err) => console.error("Unable to load subjects", err));
+    listGradeScales()
+      .then((scales) => setGradeRanges(pickActiveGradeScale(scales)?.grade_ranges ?? []))
+      .catch((err) => console.error("Unable to load grade scales", err));
+  }, []);
+
+  useEffect(() => {
+    setRecommendations(new Map());
+    setOverrides({});
+    if (!filters.school_class_id) {
+      setRules(null);
+      setRulesForm(null);
+      return;
+    }
+    let cancelled = false;
+    fetchPromotionRules(filters.school_class_id)
+      .catch((err) => {
+        console.error("Unable to load promotion rules", err);
+        return emptyPromotionRuleSet(filters.school_class_id);
+      })
+      .then((loaded) => {
+        if (!cancelled) {
+          setRules(loaded);
+          setRulesForm(rulesToForm(loaded));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters.school_class_id]);
+
   useEffect(() => {
     listSessions()
       .then(setSessions)
@@ -163,6 +276,8 @@ export default function StudentPromotionPage() {
         const list = response.data ?? [];
         setStudents(list);
         setSelectedIds(new Set());
+        setRecommendations(new Map());
+        setOverrides({});
       } catch (err) {
         console.error("Unable to load students", err);
         setFeedback({
@@ -213,10 +328,169 @@ export default function StudentPromotionPage() {
     }
   };
 
+  const subjectNames = useMemo(
+    () => new Map(subjects.map((subject) => [String(subject.id), subject.name])),
+    [subjects],
+  );
+
+  const finalDecision = useCallback(
+    (studentId: number): PromotionDecision | null =>
+      overrides[studentId]?.decision ?? recommendations.get(studentId)?.decision ?? null,
+    [overrides, recommendations],
+  );
+
+  const rulesApplied = recommendations.size > 0;
+
+  // Once the rules have run, the promote set is whatever ends up approved
+  // for promotion after overrides, rather than manual ticks.
+  useEffect(() => {
+    if (!rulesApplied) {
+      return;
+    }
+    setSelectedIds(
+      new Set(
+        students
+          .filter((student) => finalDecision(student.id) === "promote")
+          .map((student) => student.id),
+      ),
+    );
+  }, [finalDecision, rulesApplied, students]);
+
+  const decisionCounts = useMemo(() => {
+    const counts: Record<PromotionDecision, number> = { promote: 0, repeat: 0, review: 0 };
+    students.forEach((student) => {
+      const decision = finalDecision(student.id);
+      if (decision) {
+        counts[decision] += 1;
+      }
+    });
+    return counts;
+  }, [finalDecision, students]);
+
+  const handleSaveRules = async () => {
+    if (!rulesForm || !filters.school_class_id) {
+      return;
+    }
+    setFeedback(null);
+    setRulesSaving(true);
+    try {
+      const saved = await savePromotionRules({
+        school_class_id: filters.school_class_id,
+        min_session_average: optionalNumber(rulesForm.minSessionAverage),
+        required_subject_ids: rulesForm.requiredSubjectIds,
+        min_subject_passes: optionalNumber(rulesForm.minSubjectPasses),
+        min_attendance_rate: optionalNumber(rulesForm.minAttendanceRate),
+        review_margin: optionalNumber(rulesForm.reviewMargin) ?? 0,
+      });
+      const normalized = { ...emptyPromotionRuleSet(filters.school_class_id), ...saved };
+      setRules(normalized);
+      setRulesForm(rulesToForm(normalized));
+      setRecommendations(new Map());
+      setOverrides({});
+      setFeedback({ type: "success", message: "Promotion rules saved for this class." });
+    } catch (err) {
+      console.error("Unable to save promotion rules", err);
+      setFeedback({
+        type: "danger",
+        message: err instanceof Error ? err.message : "Unable to save promotion rules.",
+      });
+    } finally {
+      setRulesSaving(false);
+    }
+  };
+
+  const handleApplyRules = async () => {
+    setFeedback(null);
+    if (!filters.session_id || !filters.school_class_id || !rules) {
+      setFeedback({
+        type: "warning",
+        message: "Select the source session and class to apply its promotion rules.",
+      });
+      return;
+    }
+    if (!students.length) {
+      setFeedback({ type: "info", message: "There are no students to classify." });
+      return;
+    }
+
+    setEvaluating(true);
+    try {
+      const [averages, attendance] = await Promise.all([
+        fetchSessionSubjectAverages({
+          session_id: filters.session_id,
+          school_class_id: filters.school_class_id,
+          class_arm_id: filters.class_arm_id || null,
+        }),
+        rules.min_attendance_rate !== null
+          ? listAllStudentAttendance({
+              session_id: filters.session_id,
+              school_class_id: filters.school_class_id,
+              class_arm_id: filters.class_arm_id || null,
+            })
+          : Promise.resolve([]),
+      ]);
+      const attendanceRates = new Map(
+        analyzeStudentAttendance(students, attendance).map((row) => [
+          row.studentId,
+          row.attendanceRate,
+        ]),
+      );
+
+      const next = new Map<number, PromotionRecommendation>();
+      students.forEach((student) => {
+        next.set(
+          student.id,
+          recommendPromotion(
+            rules,
+            {
+              subjectAverages: averages.get(String(student.id)) ?? new Map(),
+              attendanceRate: attendanceRates.get(String(student.id)) ?? null,
+            },
+            gradeRanges,
+            subjectNames,
+          ),
+        );
+      });
+      setRecommendations(next);
+      setOverrides({});
+    } catch (err) {
+      console.error("Unable to apply promotion rules", err);
+      setFeedback({
+        type: "danger",
+        message: err instanceof Error ? err.message : "Unable to apply promotion rules.",
+      });
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const handleDecisionChange = (studentId: number, decision: PromotionDecision) => {
+    setOverrides((prev) => {
+      const next = { ...prev };
+      if (recommendations.get(studentId)?.decision === decision) {
+        delete next[studentId];
+      } else {
+        next[studentId] = { decision, justification: prev[studentId]?.justification ?? "" };
+      }
+      return next;
+    });
+  };
+
   const handlePromotion = async () => {
     setPromotionResult(null);
     setFeedback(null);
 
+    if (
+      rulesApplied &&
+      Object.values(overrides).some((override) => !override.justification.trim())
+    ) {
+      setFeedback({
+        type: "warning",
+        message: "Give a justification for every decision that overrides the rules.",
+      });
+      return;
+    }
+
     if (selectedIds.size === 0) {
       setFeedback({
         type: "warning",
@@ -242,6 +516,20 @@ export default function StudentPromotionPage() {
         target_class_section_id: target.class_section_id || null,
         retain_subjects: retainSubjects,
         student_ids: Array.from(selectedIds),
+        // Every classified student is recorded, including those held back
+        // or left for review, so the history shows each final decision.
+        outcomes: rulesApplied
+          ? Array.from(recommendations.entries()).map(
+              ([studentId, recommendation]): PromotionOutcome => ({
+                student_id: studentId,
+                recommendation: recommendation.decision,
+                decision: finalDecision(studentId) ?? recommendation.decision,
+                reasons: recommendation.reasons,
+                override_justification:
+                  overrides[studentId]?.justification.trim() || null,
+              }),
+            )
+          : undefined,
       });
       setPromotionResult(response);
       setFeedback({
@@ -258,6 +546,8 @@ export default function StudentPromotionPage() {
       }).then((res) => {
         setStudents(res.data ?? []);
         setSelectedIds(new Set());
+        setRecommendations(new Map());
+        setOverrides({});
       });
     } catch (err) {
       console.error("Promotion error", err);
@@ -511,6 +801,157 @@ export default function StudentPromotionPage() {
               </div>
             </div>
           </div>
+
+          <div className="card height-auto mt-4">
+            <div className="card-body">
+              <div className="heading-layout1">
+                <div className="item-title">
+                  <h3>Promotion Rules</h3>
+                  <p className="mb-0 text-muted small">
+                    Criteria for the selected class, applied to session results
+                    graded on the school&apos;s grade scale. Leave a field empty
+                    to skip that rule.
+                  </p>
+                </div>
+              </div>
+
+              {!filters.school_class_id || !rulesForm ? (
+                <p className="text-muted mb-0">
+                  Select a class to view or set its promotion rules.
+                </p>
+              ) : (
+                <>
+                  <div className="row gutters-8">
+                    <div className="col-md-6 col-12 form-group">
+                      <label htmlFor="rule-min-average">Minimum session average</label>
+                      <input
+                        id="rule-min-average"
+                        type="number"
+                        min={0}
+                        className="form-control"
+                        value={rulesForm.minSessionAverage}
+                        onChange={(event) =>
+                          setRulesForm((prev) =>
+                            prev ? { ...prev, minSessionAverage: event.target.value } : prev,
+                          )
+                        }
+                        disabled={!canManageRules}
+                        placeholder="e.g. 50"
+                      />
+                    </div>
+                    <div className="col-md-6 col-12 form-group">
+                      <label htmlFor="rule-min-passes">Minimum subject passes</label>
+                      <input
+                        id="rule-min-passes"
+                        type="number"
+                        min={0}
+                        className="form-control"
+                        value={rulesForm.minSubjectPasses}
+                        onChange={(event) =>
+                          setRulesForm((prev) =>
+                            prev ? { ...prev, minSubjectPasses: event.target.value } : prev,
+                          )
+                        }
+                        disabled={!canManageRules}
+                        placeholder="e.g. 5"
+                      />
+                    </div>
+                    <div className="col-md-6 col-12 form-group">
+                      <label htmlFor="rule-min-attendance">Minimum attendance (%)</label>
+                      <input
+                        id="rule-min-attendance"
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="form-control"
+                        value={rulesForm.minAttendanceRate}
+                        onChange={(event) =>
+                          setRulesForm((prev) =>
+                            prev ? { ...prev, minAttendanceRate: event.target.value } : prev,
+                          )
+                        }
+                        disabled={!canManageRules}
+                        placeholder="e.g. 75"
+                      />
+                    </div>
+                    <div className="col-md-6 col-12 form-group">
+                      <label htmlFor="rule-review-margin">Review margin (points)</label>
+                      <input
+                        id="rule-review-margin"
+                        type="number"
+                        min={0}
+                        className="form-control"
+                        value={rulesForm.reviewMargin}
+                        onChange={(event) =>
+                          setRulesForm((prev) =>
+                            prev ? { ...prev, reviewMargin: event.target.value } : prev,
+                          )
+                        }
+                        disabled={!canManageRules}
+                      />
+                    </div>
+                    <div className="col-12 form-group">
+                      <label htmlFor="rule-required-subjects">Subjects that must be passed</label>
+                      <select
+                        id="rule-required-subjects"
+                        className="form-control"
+                        multiple
+                        size={Math.min(6, Math.max(subjects.length, 2))}
+                        value={rulesForm.requiredSubjectIds}
+                        onChange={(event) =>
+                          setRulesForm((prev) =>
+                            prev
+                              ? {
+                                  ...prev,
+                                  requiredSubjectIds: Array.from(
+                                    event.target.selectedOptions,
+                                    (option) => option.value,
+                                  ),
+                                }
+                              : prev,
+                          )
+                        }
+                        disabled={!canManageRules}
+                      >
+                        {subjects.map((subject) => (
+                          <option key={subject.id} value={String(subject.id)}>
+                            {subject.name}
+                          </option>
+                        ))}
+                      </select>
+                      <small className="form-text text-muted">
+                        Hold Ctrl (or Cmd) to pick more than one.
+                      </small>
+                    </div>
+                  </div>
+                  <div className="d-flex flex-wrap">
+                    {canManageRules ? (
+                      <button
+                        type="button"
+                        className="btn btn-outline-primary mr-2 mb-2"
+                        onClick={() => {
+                          void handleSaveRules();
+                        }}
+                        disabled={rulesSaving}
+                      >
+                        {rulesSaving ? "Saving..." : "Save Rules"}
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      className="btn btn-primary mb-2"
+                      onClick={() => {
+                        void handleApplyRules();
+                      }}
+                      disabled={evaluating || loadingStudents || !filters.session_id}
+                    >
+                      {evaluating ? "Classifying..." : "Apply Rules to Students"}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
         </div>
 
         <div className="col-lg-7">
@@ -528,6 +969,25 @@ export default function StudentPromotionPage() {
                 </div>
               ) : null}
 
+              {rulesApplied ? (
+                <div className="mb-3">
+                  <span className="badge badge-success mr-2">
+                    Promote: {decisionCounts.promote}
+                  </span>
+                  <span className="badge badge-danger mr-2">
+                    Repeat: {decisionCounts.repeat}
+                  </span>
+                  <span className="badge badge-warning mr-2">
+                    Review: {decisionCounts.review}
+                  </span>
+                  <small className="text-muted d-block mt-1">
+                    Only students marked Promote will be promoted. Changing a
+                    decision needs a justification, which is kept in the
+                    promotion report.
+                  </small>
+                </div>
+              ) : null}
+
               <div className="table-responsive">
                 <table className="table display text-nowrap">
                   <thead>
@@ -537,6 +997,7 @@ export default function StudentPromotionPage() {
                           type="checkbox"
                           onChange={(event) => handleSelectAll(event.target.checked)}
                           checked={selectedIds.size > 0 && selectedIds.size === students.length}
+                          disabled={rulesApplied}
                           aria-label="Select all students"
                         />
                       </th>
@@ -544,18 +1005,19 @@ export default function StudentPromotionPage() {
                       <th>Admission No</th>
                       <th>Class</th>
                       <th>Session</th>
+                      {rulesApplied ? <th>Decision</th> : null}
                     </tr>
                   </thead>
                   <tbody>
                     {loadingStudents ? (
                       <tr>
-                        <td colSpan={5} className="text-center">
+                        <td colSpan={rulesApplied ? 6 : 5} className="text-center">
                           Loading students…
                         </td>
                       </tr>
                     ) : students.length === 0 ? (
                       <tr>
-                        <td colSpan={5} className="text-center">
+                        <td colSpan={rulesApplied ? 6 : 5} className="text-center">
                           No students found for the selected filters.
                         </td>
                       </tr>
@@ -568,6 +1030,8 @@ export default function StudentPromotionPage() {
                         ]
                           .filter(Boolean)
                           .join(" ");
+                        const recommendation = recommendations.get(student.id);
+                        const override = overrides[student.id];
                         return (
                           <tr key={student.id}>
                             <td>
@@ -577,6 +1041,7 @@ export default function StudentPromotionPage() {
                                 onChange={(event) =>
                                   toggleStudentSelection(student.id, event.target.checked)
                                 }
+                                disabled={rulesApplied}
                               />
                             </td>
                             <td>{fullName || "Student"}</td>
@@ -588,6 +1053,57 @@ export default function StudentPromotionPage() {
                                 : ""}
                             </td>
                             <td>{student.session?.name ?? ""}</td>
+                            {rulesApplied ? (
+                              <td className="text-wrap" style={{ minWidth: "260px" }}>
+                                {recommendation ? (
+                                  <>
+                                    <div className="d-flex align-items-center mb-1">
+                                      <span className={`${decisionBadge[recommendation.decision]} mr-2`}>
+                                        {PROMOTION_DECISION_LABELS[recommendation.decision]}
+                                      </span>
+                                      <select
+                                        className="form-control form-control-sm"
+                                        value={finalDecision(student.id) ?? recommendation.decision}
+                                        onChange={(event) =>
+                                          handleDecisionChange(
+                                            student.id,
+                                            event.target.value as PromotionDecision,
+                                          )
+                                        }
+                                        aria-label={`Decision for ${fullName || "student"}`}
+                                      >
+                                        {(["promote", "repeat", "review"] as const).map((decision) => (
+                                          <option key={decision} value={decision}>
+                                            {PROMOTION_DECISION_LABELS[decision]}
+                                          </option>
+                                        ))}
+                                      </select>
+                                    </div>
+                                    <ul className="small text-muted pl-3 mb-1">
+                                      {recommendation.reasons.map((reason) => (
+                                        <li key={reason}>{reason}</li>
+                                      ))}
+                                    </ul>
+                                    {override ? (
+                                      <input
+                                        className={`form-control form-control-sm${override.justification.trim() ? "" : " is-invalid"}`}
+                                        value={override.justification}
+                                        onChange={(event) =>
+                                          setOverrides((prev) => ({
+                                            ...prev,
+                                            [student.id]: {
+                                              ...override,
+                                              justification: event.target.value,
+                                            },
+                                          }))
+                                        }
+                                        placeholder="Why override the rules?"
+                                      />
+                                    ) : null}
+                                  </>
+                                ) : null}
+                              </td>
+                            ) : null}
                           </tr>
                         );
                       })
@@ -638,7 +1154,11 @@ export default function StudentPromotionPage() {
                   onClick={handlePromotion}
                   disabled={submitting}
                 >
-                  {submitting ? "Processing…" : "Promote Selected"}
+                  {submitting
+                    ? "Processing…"
+                    : rulesApplied
+                      ? "Promote Approved"
+                      : "Promote Selected"}
                 </button>
                 <button
                   type="button"
@@ -647,6 +1167,8 @@ export default function StudentPromotionPage() {
                     setFilters(initialFilters);
                     setTarget(initialTarget);
                     setSelectedIds(new Set());
+                    setRecommendations(new Map());
+                    setOverrides({});
                   }}
                 >
                   Reset
@@ -0,0 +1,579 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { listSessions, type Session } from "@/lib/sessions";
+import { listTermsBySession, type Term } from "@/lib/terms";
+import { listClasses, type SchoolClass } from "@/lib/classes";
+import { listClassArms, type ClassArm } from "@/lib/classArms";
+import { listStudents, type StudentSummary } from "@/lib/students";
+import { listParents } from "@/lib/parents";
+import {
+  analyzeStudentAttendance,
+  buildChronicAbsenceList,
+  classAbsenceByWeekday,
+  dominantAbsenceWeekday,
+  listAllStudentAttendance,
+  type AttendanceAnalyticsRow,
+} from "@/lib/attendanceAnalytics";
+import type { StudentAttendanceRecord } from "@/lib/attendance";
+import { exportChronicAbsenceList } from "@/lib/attendanceWatchListExport";
+
+type FeedbackKind = "success" | "danger" | "warning" | "info";
+
+interface FeedbackState {
+  type: FeedbackKind;
+  message: string;
+}
+
+interface AnalyticsFilters {
+  sessionId: string;
+  termId: string;
+  classId: string;
+  armId: string;
+}
+
+const formatRate = (value: number | null) =>
+  value === null ? "—" : `${value.toFixed(1)}%`;
+
+async function listAllStudents(
+  filters: Parameters<typeof listStudents>[0],
+): Promise<StudentSummary[]> {
+  const students: StudentSummary[] = [];
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await listStudents({ ...filters, per_page: 500, page });
+    students.push(...response.data);
+    lastPage = response.last_page || page;
+    page += 1;
+  } while (page <= lastPage);
+  return students;
+}
+
+export default function AttendanceAnalyticsPage() {
+  const { schoolContext } = useAuth();
+
+  const [filters, setFilters] = useState<AnalyticsFilters>(() => ({
+    sessionId: schoolContext.current_session_id
+      ? String(schoolContext.current_session_id)
+      : "",
+    termId: schoolContext.current_term_id
+      ? String(schoolContext.current_term_id)
+      : "",
+    classId: "",
+    armId: "",
+  }));
+  const [minRate, setMinRate] = useState("85");
+  const [streakLimit, setStreakLimit] = useState("3");
+  const [search, setSearch] = useState("");
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [arms, setArms] = useState<ClassArm[]>([]);
+
+  const [rows, setRows] = useState<AttendanceAnalyticsRow[]>([]);
+  const [records, setRecords] = useState<StudentAttendanceRecord[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [feedback, setFeedback] = useState<FeedbackState | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((error) => console.error("Unable to load sessions", error));
+    listClasses()
+      .then(setClasses)
+      .catch((error) => console.error("Unable to load classes", error));
+  }, []);
+
+  useEffect(() => {
+    if (!filters.sessionId && schoolContext.current_session_id) {
+      setFilters((prev) => ({
+        ...prev,
+        sessionId: String(schoolContext.current_session_id),
+        termId: prev.termId || String(schoolContext.current_term_id ?? ""),
+      }));
+    }
+  }, [filters.sessionId, schoolContext.current_session_id, schoolContext.current_term_id]);
+
+  useEffect(() => {
+    if (!filters.sessionId) {
+      setTerms([]);
+      return;
+    }
+    listTermsBySession(filters.sessionId)
+      .then(setTerms)
+      .catch((error) => console.error("Unable to load terms", error));
+  }, [filters.sessionId]);
+
+  useEffect(() => {
+    if (!filters.classId) {
+      setArms([]);
+      return;
+    }
+    listClassArms(filters.classId)
+      .then(setArms)
+      .catch((error) => console.error("Unable to load class arms", error));
+  }, [filters.classId]);
+
+  const runAnalytics = useCallback(async () => {
+    setFeedback(null);
+    if (!filters.sessionId || !filters.termId) {
+      setFeedback({
+        type: "warning",
+        message: "Select a session and term to analyse.",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [students, attendance, parents] = await Promise.all([
+        listAllStudents({
+          current_session_id: filters.sessionId,
+          current_term_id: filters.termId,
+          school_class_id: filters.classId || undefined,
+          class_arm_id: filters.armId || undefined,
+          sortBy: "first_name",
+          sortDirection: "asc",
+        }),
+        listAllStudentAttendance({
+          session_id: filters.sessionId,
+          term_id: filters.termId,
+          school_class_id: filters.classId || null,
+          class_arm_id: filters.armId || null,
+        }),
+        listParents().catch((error) => {
+          console.warn("Unable to load parent contacts", error);
+          return [];
+        }),
+      ]);
+      setRows(analyzeStudentAttendance(students, attendance, parents));
+      setRecords(attendance);
+      setLoaded(true);
+      if (!attendance.length) {
+        setFeedback({
+          type: "info",
+          message: "No attendance has been recorded for the selected term yet.",
+        });
+      }
+    } catch (error) {
+      console.error("Unable to load attendance analytics", error);
+      setRows([]);
+      setRecords([]);
+      setFeedback({
+        type: "danger",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Unable to load attendance analytics.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  const watchList = useMemo(
+    () =>
+      buildChronicAbsenceList(rows, {
+        minAttendanceRate: Number(minRate) || 0,
+        consecutiveAbsences: Number(streakLimit) || 0,
+      }),
+    [rows, minRate, streakLimit],
+  );
+
+  const weekdayPattern = useMemo(
+    () =>
+      classAbsenceByWeekday(records).filter(
+        (entry, index) => entry.total > 0 || (index >= 1 && index <= 5),
+      ),
+    [records],
+  );
+
+  const overallRate = useMemo(() => {
+    const attended = rows.reduce((sum, row) => sum + row.present + row.late, 0);
+    const counted = rows.reduce(
+      (sum, row) => sum + row.present + row.late + row.absent,
+      0,
+    );
+    return counted ? (attended / counted) * 100 : null;
+  }, [rows]);
+
+  const visibleRows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = term
+      ? rows.filter(
+          (row) =>
+            row.name.toLowerCase().includes(term) ||
+            row.admissionNo.toLowerCase().includes(term),
+        )
+      : rows;
+    return [...filtered].sort(
+      (a, b) => (a.attendanceRate ?? 101) - (b.attendanceRate ?? 101),
+    );
+  }, [rows, search]);
+
+  const handleExport = () => {
+    try {
+      const className =
+        classes.find((item) => String(item.id) === filters.classId)?.name ?? "all-classes";
+      exportChronicAbsenceList(
+        watchList,
+        `chronic-absence-${className.replace(/\s+/g, "-").toLowerCase()}.csv`,
+      );
+    } catch (error) {
+      setFeedback({
+        type: "warning",
+        message:
+          error instanceof Error ? error.message : "Unable to export the watch list.",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="breadcrumbs-area">
+        <h3>Attendance Analytics</h3>
+        <ul>
+          <li>
+            <Link href="/v10/dashboard">Home</Link>
+          </li>
+          <li>
+            <Link href="/v21/attendance-dashboard">Attendance Reports</Link>
+          </li>
+          <li>Attendance Analytics</li>
+        </ul>
+      </div>
+
+      <div className="card height-auto mb-4">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Term Filters</h3>
+              <p className="mb-0 text-muted small">
+                Attendance rates, absence streaks and lateness for every
+                student over the term&apos;s register.
+              </p>
+            </div>
+          </div>
+
+          <div className="row gutters-8">
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="analytics-session">Session</label>
+              <select
+                id="analytics-session"
+                className="form-control"
+                value={filters.sessionId}
+                onChange={(event) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    sessionId: event.target.value,
+                    termId: "",
+                  }))
+                }
+              >
+                <option value="">Select session</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={String(session.id)}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="analytics-term">Term</label>
+              <select
+                id="analytics-term"
+                className="form-control"
+                value={filters.termId}
+                onChange={(event) =>
+                  setFilters((prev) => ({ ...prev, termId: event.target.value }))
+                }
+                disabled={!filters.sessionId}
+              >
+                <option value="">Select term</option>
+                {terms.map((term) => (
+                  <option key={term.id} value={String(term.id)}>
+                    {term.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="analytics-class">Class</label>
+              <select
+                id="analytics-class"
+                className="form-control"
+                value={filters.classId}
+                onChange={(event) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    classId: event.target.value,
+                    armId: "",
+                  }))
+                }
+              >
+                <option value="">All classes</option>
+                {classes.map((schoolClass) => (
+                  <option key={schoolClass.id} value={String(schoolClass.id)}>
+                    {schoolClass.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="analytics-arm">Class Arm</label>
+              <select
+                id="analytics-arm"
+                className="form-control"
+                value={filters.armId}
+                onChange={(event) =>
+                  setFilters((prev) => ({ ...prev, armId: event.target.value }))
+                }
+                disabled={!filters.classId}
+              >
+                <option value="">All arms</option>
+                {arms.map((arm) => (
+                  <option key={arm.id} value={String(arm.id)}>
+                    {arm.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="analytics-min-rate">Watch below attendance (%)</label>
+              <input
+                id="analytics-min-rate"
+                type="number"
+                className="form-control"
+                min={0}
+                max={100}
+                value={minRate}
+                onChange={(event) => setMinRate(event.target.value)}
+              />
+            </div>
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="analytics-streak">Watch after consecutive absences</label>
+              <input
+                id="analytics-streak"
+                type="number"
+                className="form-control"
+                min={0}
+                value={streakLimit}
+                onChange={(event) => setStreakLimit(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <button
+            type="button"
+            className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+            onClick={() => runAnalytics().catch((error) => console.error(error))}
+            disabled={loading}
+          >
+            {loading ? "Analysing..." : "Run Analytics"}
+          </button>
+
+          {feedback ? (
+            <div className={`alert alert-${feedback.type} mt-3 mb-0`} role="alert">
+              {feedback.message}
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      {loaded ? (
+        <>
+          <div className="row">
+            <div className="col-lg-8 col-12">
+              <div className="card height-auto mb-4">
+                <div className="card-body">
+                  <div className="heading-layout1">
+                    <div className="item-title">
+                      <h3>Chronic Absence Watch List</h3>
+                      <p className="mb-0 text-muted small">
+                        Under {Number(minRate) || 0}% attendance
+                        {Number(streakLimit) > 0
+                          ? `, or ${Number(streakLimit)} or more absences in a row`
+                          : ""}
+                        .
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-outline-success"
+                      onClick={handleExport}
+                      disabled={!watchList.length}
+                    >
+                      Export CSV
+                    </button>
+                  </div>
+                  <div className="table-responsive">
+                    <table className="table table-sm table-bordered">
+                      <thead>
+                        <tr>
+                          <th>Student</th>
+                          <th>Class</th>
+                          <th>Attendance</th>
+                          <th>Reasons</th>
+                          <th>Parent Phone</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {watchList.length ? (
+                          watchList.map((entry) => (
+                            <tr key={entry.studentId}>
+                              <td>
+                                <strong>{entry.name}</strong>
+                                <div className="text-muted small">
+                                  {entry.admissionNo || "—"}
+                                </div>
+                              </td>
+                              <td>{entry.classLabel || "—"}</td>
+                              <td>{formatRate(entry.attendanceRate)}</td>
+                              <td>
+                                {entry.reasons.map((reason) => (
+                                  <span key={reason} className="badge badge-danger mr-1">
+                                    {reason}
+                                  </span>
+                                ))}
+                              </td>
+                              <td>
+                                {entry.parentPhone ? (
+                                  <a href={`tel:${entry.parentPhone}`}>{entry.parentPhone}</a>
+                                ) : (
+                                  <span className="text-muted">Not on file</span>
+                                )}
+                              </td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={5} className="text-center text-muted">
+                              No student meets the watch list rules.
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="col-lg-4 col-12">
+              <div className="card height-auto mb-4">
+                <div className="card-body">
+                  <div className="heading-layout1">
+                    <div className="item-title">
+                      <h3>Absence by Weekday</h3>
+                    </div>
+                  </div>
+                  <p className="text-muted small">
+                    Overall attendance: <strong>{formatRate(overallRate)}</strong>
+                  </p>
+                  <table className="table table-sm">
+                    <tbody>
+                      {weekdayPattern.map((entry) => (
+                        <tr key={entry.day}>
+                          <th>{entry.day}</th>
+                          <td style={{ width: "60%" }}>
+                            <div className="progress" style={{ height: "8px" }}>
+                              <div
+                                className="progress-bar bg-danger"
+                                role="progressbar"
+                                style={{ width: `${Math.min(entry.rate ?? 0, 100)}%` }}
+                              />
+                            </div>
+                          </td>
+                          <td className="text-right">{formatRate(entry.rate)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="card height-auto">
+            <div className="card-body">
+              <div className="heading-layout1">
+                <div className="item-title">
+                  <h3>Student Attendance</h3>
+                </div>
+                <input
+                  type="search"
+                  className="form-control form-control-sm"
+                  style={{ maxWidth: "240px" }}
+                  placeholder="Search name or admission no"
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                />
+              </div>
+              <div className="table-responsive">
+                <table className="table display text-nowrap">
+                  <thead>
+                    <tr>
+                      <th>Student</th>
+                      <th>Class</th>
+                      <th>Days</th>
+                      <th>Present</th>
+                      <th>Absent</th>
+                      <th>Late</th>
+                      <th>Excused</th>
+                      <th>Attendance</th>
+                      <th>Late Rate</th>
+                      <th>Longest Streak</th>
+                      <th>Most Missed Day</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.length ? (
+                      visibleRows.map((row) => (
+                        <tr key={row.studentId}>
+                          <td>
+                            {row.name}
+                            <div className="text-muted small">
+                              {row.admissionNo || "—"}
+                            </div>
+                          </td>
+                          <td>{row.classLabel || "—"}</td>
+                          <td>{row.recordedDays}</td>
+                          <td>{row.present}</td>
+                          <td>{row.absent}</td>
+                          <td>{row.late}</td>
+                          <td>{row.excused}</td>
+                          <td>{formatRate(row.attendanceRate)}</td>
+                          <td>{formatRate(row.lateRate)}</td>
+                          <td>
+                            {row.longestAbsenceStreak}
+                            {row.currentAbsenceStreak > 0 ? (
+                              <span className="badge badge-warning ml-1">
+                                {row.currentAbsenceStreak} ongoing
+                              </span>
+                            ) : null}
+                          </td>
+                          <td>{dominantAbsenceWeekday(row) ?? "—"}</td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={11} className="text-center text-muted">
+                          No students found for the selected filters.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </>
+      ) : null}
+    </>
+  );
+}
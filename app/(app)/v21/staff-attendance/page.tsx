@@ -10,6 +10,17 @@ import {
   type StaffAttendanceRecord,
 } from "@/lib/attendance";
 import { listStaff, type Staff } from "@/lib/staff";
+import { isNetworkError } from "@/lib/apiClient";
+import {
+  buildRegisterKey,
+  buildRegisterScope,
+  cacheAttendanceRegister,
+  enqueueAttendance,
+  loadCachedAttendanceRegister,
+  queuedStatusesFor,
+  type CachedAttendanceRecord,
+} from "@/lib/attendanceOffline";
+import { AttendanceQueuePanel } from "@/components/attendance/AttendanceQueuePanel";
 
 type FeedbackKind = "success" | "danger" | "warning" | "info";
 
@@ -41,6 +52,13 @@ interface StaffFilters {
 
 const todayIso = () => new Date().toISOString().slice(0, 10);
 
+const STATUS_LABELS: Record<string, string> = Object.fromEntries(
+  STATUS_OPTIONS.filter((option) => option.value).map((option) => [
+    option.value,
+    option.label,
+  ]),
+);
+
 export default function StaffAttendancePage() {
   const [date, setDate] = useState<string>(todayIso);
   const [filters, setFilters] = useState<StaffFilters>({
@@ -62,6 +80,19 @@ export default function StaffAttendancePage() {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [feedback, setFeedback] = useState<FeedbackState | null>(null);
+  const [registerBaseline, setRegisterBaseline] = useState<
+    Record<string, CachedAttendanceRecord>
+  >({});
+
+  const registerScope = useMemo(
+    () =>
+      buildRegisterScope("staff", [
+        filters.branchName.trim(),
+        filters.department,
+        filters.search.trim(),
+      ]),
+    [filters.branchName, filters.department, filters.search],
+  );
 
   useEffect(() => {
     const loadDepartments = async () => {
@@ -106,6 +137,28 @@ export default function StaffAttendancePage() {
       return;
     }
 
+    const applyRegister = async (
+      staffList: Staff[],
+      records: Record<string, CachedAttendanceRecord>,
+    ) => {
+      const queued = await queuedStatusesFor(
+        buildRegisterKey(registerScope, date),
+      ).catch(() => ({}) as Awaited<ReturnType<typeof queuedStatusesFor>>);
+      const nextMap: Record<string, AttendanceState> = {};
+      staffList.forEach((member) => {
+        const key = String(member.id);
+        const existing = records[key];
+        nextMap[key] = {
+          status:
+            ((queued[key]?.status ?? existing?.status) as StaffAttendanceStatus) ?? "",
+          recordId: existing?.id,
+        };
+      });
+      setStaffMembers(staffList);
+      setRegisterBaseline(records);
+      setAttendanceMap(nextMap);
+    };
+
     setLoading(true);
     try {
       const staffResponse = await listStaff({
@@ -114,7 +167,6 @@ export default function StaffAttendancePage() {
         search: filters.search || undefined,
       });
       const staffList = staffResponse.data ?? [];
-      setStaffMembers(staffList);
 
       const attendanceResponse = await listStaffAttendance({
         per_page: 500,
@@ -138,17 +190,40 @@ export default function StaffAttendancePage() {
       });
       setCurrentRecords(recordObject);
 
-      const nextMap: Record<string, AttendanceState> = {};
-      staffList.forEach((member) => {
-        const key = String(member.id);
-        const existing = recordMap.get(key);
-        nextMap[key] = {
-          status: (existing?.status as StaffAttendanceStatus) ?? "",
-          recordId: existing?.id ? String(existing.id) : undefined,
+      const records: Record<string, CachedAttendanceRecord> = {};
+      recordMap.forEach((record, key) => {
+        records[key] = {
+          id: String(record.id),
+          status: String(record.status ?? ""),
+          updatedAt: record.updated_at ? String(record.updated_at) : null,
         };
       });
-      setAttendanceMap(nextMap);
+      await applyRegister(staffList, records);
+      void cacheAttendanceRegister({
+        scope: registerScope,
+        kind: "staff",
+        date,
+        people: staffList,
+        records,
+      }).catch((cacheError) =>
+        console.warn("Unable to cache the staff register", cacheError),
+      );
     } catch (error) {
+      if (isNetworkError(error)) {
+        const cached = await loadCachedAttendanceRegister<Staff>(
+          registerScope,
+          date,
+        ).catch(() => null);
+        if (cached) {
+          setCurrentRecords({});
+          await applyRegister(cached.people, cached.records);
+          setFeedback({
+            type: "warning",
+            message: `You are offline. Showing the staff list saved on this device on ${formatDate(cached.cachedAt)}; attendance you save will sync when the connection returns.`,
+          });
+          return;
+        }
+      }
       console.error("Unable to load staff list", error);
       setStaffMembers([]);
       setAttendanceMap({});
@@ -163,7 +238,7 @@ export default function StaffAttendancePage() {
     } finally {
       setLoading(false);
     }
-  }, [date, filters.branchName, filters.department, filters.search]);
+  }, [date, filters.branchName, filters.department, filters.search, registerScope]);
 
   const handleStatusChange = (
     staffId: number | string,
@@ -261,14 +336,41 @@ export default function StaffAttendancePage() {
       return;
     }
 
+    const payload = {
+      date,
+      branch_name: filters.branchName || null,
+      department: filters.department || null,
+      entries,
+    };
+    const queueOffline = async () => {
+      await enqueueAttendance({
+        kind: "staff",
+        payload,
+        registerKey: buildRegisterKey(registerScope, date),
+        label: `${[filters.department || "All staff", filters.branchName]
+          .filter(Boolean)
+          .join(" · ")} · ${formatDate(date)}`,
+        baseline: Object.fromEntries(
+          entries.map((entry) => [entry.staff_id, registerBaseline[entry.staff_id] ?? null]),
+        ),
+        names: Object.fromEntries(
+          staffMembers.map((member) => [String(member.id), formatStaffName(member)]),
+        ),
+      });
+      setFeedback({
+        type: "warning",
+        message:
+          "You are offline. Staff attendance was saved on this device and will sync when the connection returns.",
+      });
+    };
+
     setSaving(true);
     try {
-      const { message } = await saveStaffAttendance({
-        date,
-        branch_name: filters.branchName || null,
-        department: filters.department || null,
-        entries,
-      });
+      if (typeof navigator !== "undefined" && navigator.onLine === false) {
+        await queueOffline();
+        return;
+      }
+      const { message } = await saveStaffAttendance(payload);
       setFeedback({
         type: "success",
         message: message ?? "Staff attendance saved successfully.",
@@ -276,6 +378,14 @@ export default function StaffAttendancePage() {
       await loadStaffList();
       await loadHistory();
     } catch (error) {
+      if (isNetworkError(error)) {
+        try {
+          await queueOffline();
+          return;
+        } catch (queueError) {
+          console.error("Unable to queue staff attendance offline", queueError);
+        }
+      }
       setFeedback({
         type: "danger",
         message:
@@ -509,6 +619,16 @@ export default function StaffAttendancePage() {
         </div>
       </div>
 
+      <AttendanceQueuePanel
+        kind="staff"
+        statusLabels={STATUS_LABELS}
+        onSettled={() => {
+          if (staffMembers.length) {
+            loadStaffList().catch((error) => console.error(error));
+          }
+        }}
+      />
+
       <div className="card">
         <div className="card-body">
           <div className="d-flex justify-content-between align-items-center flex-wrap mb-3">
@@ -27,6 +27,23 @@ import {
   type StudentTermSummaryBatchRow,
 } from "@/lib/studentTermSummaries";
 import { isAdminUser, isTeacherUser } from "@/lib/roleChecks";
+import { isNetworkError } from "@/lib/apiClient";
+import {
+  buildRegisterKey,
+  buildRegisterScope,
+  cacheAttendanceRegister,
+  enqueueAttendance,
+  loadCachedAttendanceRegister,
+  queuedStatusesFor,
+  type CachedAttendanceRecord,
+} from "@/lib/attendanceOffline";
+import { AttendanceQueuePanel } from "@/components/attendance/AttendanceQueuePanel";
+import {
+  countSchoolOpenedDays,
+  getSchoolDayStatus,
+  listCalendarEvents,
+  type CalendarEvent,
+} from "@/lib/academicCalendar";
 
 type FeedbackKind = "success" | "danger" | "warning" | "info";
 
@@ -77,6 +94,20 @@ interface StudentFilters {
 
 const todayIso = () => new Date().toISOString().slice(0, 10);
 
+const STATUS_LABELS: Record<string, string> = Object.fromEntries(
+  STATUS_OPTIONS.filter((option) => option.value).map((option) => [
+    option.value,
+    option.label,
+  ]),
+);
+
+const recordComment = (record: StudentAttendanceRecord | undefined) => {
+  const metadata = record?.metadata ?? null;
+  return metadata && typeof (metadata as Record<string, unknown>).comment === "string"
+    ? String((metadata as Record<string, unknown>).comment)
+    : "";
+};
+
 export default function StudentAttendancePage() {
   const { user, schoolContext } = useAuth();
 
@@ -113,6 +144,11 @@ export default function StudentAttendancePage() {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [feedback, setFeedback] = useState<FeedbackState | null>(null);
+  // What the server had when the register was loaded, so a queued save can
+  // tell later changes by other users apart from its own.
+  const [registerBaseline, setRegisterBaseline] = useState<
+    Record<string, CachedAttendanceRecord>
+  >({});
   const [modeSaving, setModeSaving] = useState(false);
   const [modeFeedback, setModeFeedback] = useState<FeedbackState | null>(null);
   const [manualRows, setManualRows] = useState<ManualResultAttendanceRow[]>([]);
@@ -231,6 +267,40 @@ export default function StudentAttendancePage() {
   );
   const attendanceEntryMode: AttendanceEntryMode =
     selectedTerm?.attendance_entry_mode === "manual" ? "manual" : "daily";
+
+  const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
+
+  useEffect(() => {
+    if (!filters.sessionId) {
+      setCalendarEvents([]);
+      return;
+    }
+    let cancelled = false;
+    listCalendarEvents({ session_id: filters.sessionId })
+      .then((events) => {
+        if (!cancelled) {
+          setCalendarEvents(events);
+        }
+      })
+      .catch((error) => {
+        console.error("Unable to load academic calendar", error);
+        if (!cancelled) {
+          setCalendarEvents([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters.sessionId]);
+
+  const schoolDay = useMemo(
+    () => getSchoolDayStatus(date, selectedTerm, calendarEvents),
+    [calendarEvents, date, selectedTerm],
+  );
+  const calendarOpenedDays = useMemo(
+    () => countSchoolOpenedDays(selectedTerm, calendarEvents),
+    [calendarEvents, selectedTerm],
+  );
   const arms = useMemo(
     () => (filters.classId ? armsCache[filters.classId] ?? [] : []),
     [armsCache, filters.classId],
@@ -335,6 +405,35 @@ export default function StudentAttendancePage() {
       return;
     }
 
+    const scope = buildRegisterScope("student", [
+      filters.sessionId,
+      filters.termId,
+      filters.classId,
+      filters.armId,
+    ]);
+    const applyRegister = async (
+      studentList: StudentSummary[],
+      records: Record<string, CachedAttendanceRecord>,
+    ) => {
+      const queued = await queuedStatusesFor(buildRegisterKey(scope, date)).catch(
+        () => ({}) as Awaited<ReturnType<typeof queuedStatusesFor>>,
+      );
+      const nextMap: Record<string, AttendanceState> = {};
+      studentList.forEach((student) => {
+        const key = String(student.id);
+        const existing = records[key];
+        const pending = queued[key];
+        nextMap[key] = {
+          status: ((pending?.status ?? existing?.status) as StudentAttendanceStatus) ?? "",
+          recordId: existing?.id,
+          comment: pending?.comment ?? existing?.comment ?? "",
+        };
+      });
+      setStudents(studentList);
+      setRegisterBaseline(records);
+      setAttendanceMap(nextMap);
+    };
+
     setLoading(true);
     try {
       const studentResponse = await listStudents({
@@ -346,7 +445,6 @@ export default function StudentAttendancePage() {
         sortBy: "first_name",
       });
       const studentList = studentResponse.data ?? [];
-      setStudents(studentList);
 
       const attendanceResponse = await listStudentAttendance({
         per_page: 500,
@@ -371,25 +469,41 @@ export default function StudentAttendancePage() {
       });
       setCurrentRecords(recordObject);
 
-      const nextMap: Record<string, AttendanceState> = {};
-      studentList.forEach((student) => {
-        const key = String(student.id);
-        const existing = recordMap.get(key);
-        const existingMetadata =
-          (existing as StudentAttendanceRecord | undefined)?.metadata ?? null;
-        const existingComment =
-          existingMetadata &&
-          typeof (existingMetadata as Record<string, unknown>).comment === "string"
-            ? String((existingMetadata as Record<string, unknown>).comment)
-            : "";
-        nextMap[key] = {
-          status: (existing?.status as StudentAttendanceStatus) ?? "",
-          recordId: existing?.id ? String(existing.id) : undefined,
-          comment: existingComment,
+      const records: Record<string, CachedAttendanceRecord> = {};
+      recordMap.forEach((record, key) => {
+        records[key] = {
+          id: String(record.id),
+          status: String(record.status ?? ""),
+          updatedAt: record.updated_at ? String(record.updated_at) : null,
+          comment: recordComment(record),
         };
       });
-      setAttendanceMap(nextMap);
+      await applyRegister(studentList, records);
+      void cacheAttendanceRegister({
+        scope,
+        kind: "student",
+        date,
+        people: studentList,
+        records,
+      }).catch((cacheError) =>
+        console.warn("Unable to cache the attendance register", cacheError),
+      );
     } catch (error) {
+      if (isNetworkError(error)) {
+        const cached = await loadCachedAttendanceRegister<StudentSummary>(
+          scope,
+          date,
+        ).catch(() => null);
+        if (cached) {
+          setCurrentRecords({});
+          await applyRegister(cached.people, cached.records);
+          setFeedback({
+            type: "warning",
+            message: `You are offline. Showing the class list saved on this device on ${formatDate(cached.cachedAt)}; attendance you save will sync when the connection returns.`,
+          });
+          return;
+        }
+      }
       console.error("Unable to load students", error);
       setStudents([]);
       setCurrentRecords({});
@@ -772,6 +886,14 @@ export default function StudentAttendancePage() {
       });
       return;
     }
+    if (
+      !schoolDay.schoolDay &&
+      !window.confirm(
+        `${formatDate(date)} is not a school day on the academic calendar (${schoolDay.reason}). Save attendance anyway?`,
+      )
+    ) {
+      return;
+    }
     const entries = Object.entries(attendanceMap)
       .filter(([, value]) => Boolean(value.status))
       .map(([studentId, value]) => {
@@ -793,16 +915,52 @@ export default function StudentAttendancePage() {
       return;
     }
 
+    const payload = {
+      date,
+      session_id: filters.sessionId || null,
+      term_id: filters.termId || null,
+      school_class_id: filters.classId || null,
+      class_arm_id: filters.armId || null,
+      entries,
+    };
+    const queueOffline = async () => {
+      const className =
+        classes.find((item) => String(item.id) === filters.classId)?.name ?? "Class";
+      const armName = arms.find((item) => String(item.id) === filters.armId)?.name;
+      await enqueueAttendance({
+        kind: "student",
+        payload,
+        registerKey: buildRegisterKey(
+          buildRegisterScope("student", [
+            filters.sessionId,
+            filters.termId,
+            filters.classId,
+            filters.armId,
+          ]),
+          date,
+        ),
+        label: `${[className, armName].filter(Boolean).join(" ")} · ${formatDate(date)}`,
+        baseline: Object.fromEntries(
+          entries.map((entry) => [entry.student_id, registerBaseline[entry.student_id] ?? null]),
+        ),
+        names: Object.fromEntries(
+          students.map((student) => [String(student.id), formatStudentName(student)]),
+        ),
+      });
+      setFeedback({
+        type: "warning",
+        message:
+          "You are offline. Attendance was saved on this device and will sync when the connection returns.",
+      });
+    };
+
     setSaving(true);
     try {
-      const { message } = await saveStudentAttendance({
-        date,
-        session_id: filters.sessionId || null,
-        term_id: filters.termId || null,
-        school_class_id: filters.classId || null,
-        class_arm_id: filters.armId || null,
-        entries,
-      });
+      if (typeof navigator !== "undefined" && navigator.onLine === false) {
+        await queueOffline();
+        return;
+      }
+      const { message } = await saveStudentAttendance(payload);
       setFeedback({
         type: "success",
         message: message ?? "Attendance saved successfully.",
@@ -810,6 +968,14 @@ export default function StudentAttendancePage() {
       await loadStudents();
       await loadRecentAttendance();
     } catch (error) {
+      if (isNetworkError(error)) {
+        try {
+          await queueOffline();
+          return;
+        } catch (queueError) {
+          console.error("Unable to queue attendance offline", queueError);
+        }
+      }
       setFeedback({
         type: "danger",
         message:
@@ -1148,6 +1314,9 @@ export default function StudentAttendancePage() {
               <p className="mb-0 text-muted small">
                 Enter term-level days present and days absent used on student
                 results. Changes autosave after both values are entered.
+                {calendarOpenedDays !== null
+                  ? ` The academic calendar has ${calendarOpenedDays} school days this term.`
+                  : ""}
               </p>
             </div>
             <div className="d-flex flex-wrap">
@@ -1309,12 +1478,27 @@ export default function StudentAttendancePage() {
       </div>
       ) : null}
 
+      <AttendanceQueuePanel
+        kind="student"
+        statusLabels={STATUS_LABELS}
+        onSettled={() => {
+          if (students.length) {
+            loadStudents().catch((error) => console.error(error));
+          }
+        }}
+      />
+
       <div className="card">
         <div className="card-body">
           {attendanceEntryMode === "manual" ? (
             <div className="alert alert-warning" role="alert">
               Daily attendance is locked because Manual Summary is selected for this term.
             </div>
+          ) : !schoolDay.schoolDay ? (
+            <div className="alert alert-warning" role="alert">
+              The selected date is not a school day on the academic calendar: {schoolDay.reason}.
+              Attendance saved for it will count towards the term.
+            </div>
           ) : null}
           <div className="d-flex justify-content-between align-items-center flex-wrap mb-3">
             <div>
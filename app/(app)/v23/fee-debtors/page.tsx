@@ -0,0 +1,355 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { listSessions, type Session } from "@/lib/sessions";
+import { listTermsBySession, type Term } from "@/lib/terms";
+import {
+  listFeeInvoices,
+  summarizeClassBalances,
+  summarizeDebtors,
+  toAmount,
+  type FeeInvoice,
+} from "@/lib/studentFees";
+import { exportDebtors } from "@/lib/feeDebtorsExport";
+
+const formatCurrency = (value: number | string | null | undefined) =>
+  new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 2,
+  }).format(toAmount(value));
+
+export default function FeeDebtorsPage() {
+  const { schoolContext } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [termId, setTermId] = useState("");
+  const [classFilter, setClassFilter] = useState("");
+  const [minimumBalance, setMinimumBalance] = useState("");
+  const [invoices, setInvoices] = useState<FeeInvoice[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then((items) => {
+        setSessions(items);
+        if (schoolContext.current_session_id) {
+          setSessionId((previous) => previous || String(schoolContext.current_session_id));
+        }
+      })
+      .catch((cause) =>
+        setError(cause instanceof Error ? cause.message : "Unable to load sessions."),
+      );
+  }, [schoolContext.current_session_id]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    listTermsBySession(sessionId)
+      .then((items) => {
+        setTerms(items);
+        const currentTermId = schoolContext.current_term_id
+          ? String(schoolContext.current_term_id)
+          : "";
+        if (currentTermId && items.some((item) => String(item.id) === currentTermId)) {
+          setTermId((previous) => previous || currentTermId);
+        }
+      })
+      .catch((cause) =>
+        setError(cause instanceof Error ? cause.message : "Unable to load terms."),
+      );
+  }, [sessionId, schoolContext.current_term_id]);
+
+  const loadBalances = useCallback(async () => {
+    if (!sessionId || !termId) {
+      setError("Select a session and term to view outstanding balances.");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setInvoices(await listFeeInvoices({ session_id: sessionId, term_id: termId }));
+      setClassFilter("");
+      setLoaded(true);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unable to load balances.");
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, termId]);
+
+  const classBalances = useMemo(() => summarizeClassBalances(invoices), [invoices]);
+
+  const debtors = useMemo(() => {
+    const minimum = Number(minimumBalance) || 0;
+    const scoped = classFilter
+      ? invoices.filter((invoice) => String(invoice.school_class?.id ?? "") === classFilter)
+      : invoices;
+    return summarizeDebtors(scoped).filter((debtor) => debtor.outstanding >= minimum);
+  }, [classFilter, invoices, minimumBalance]);
+
+  const schoolTotals = useMemo(
+    () =>
+      classBalances.reduce(
+        (totals, row) => ({
+          invoiced: totals.invoiced + row.invoiced,
+          discounts: totals.discounts + row.discounts,
+          paid: totals.paid + row.paid,
+          outstanding: totals.outstanding + row.outstanding,
+          debtors: totals.debtors + row.debtorCount,
+        }),
+        { invoiced: 0, discounts: 0, paid: 0, outstanding: 0, debtors: 0 },
+      ),
+    [classBalances],
+  );
+
+  const handleExport = () => {
+    try {
+      const termName = terms.find((item) => String(item.id) === termId)?.name;
+      const className = classBalances.find((row) => row.classId === classFilter)?.className;
+      const parts = ["debtors", className ?? "all-classes", termName]
+        .filter(Boolean)
+        .map((part) => String(part).replace(/[^a-z0-9]+/gi, "-"));
+      exportDebtors(debtors, `${parts.join("_")}.csv`);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unable to export debtors.");
+    }
+  };
+
+  return (
+    <>
+      <div className="breadcrumbs-area">
+        <h3>Debtors</h3>
+        <ul>
+          <li>
+            <Link href="/v10/dashboard">Home</Link>
+          </li>
+          <li>Fee Management</li>
+          <li>Debtors</li>
+        </ul>
+      </div>
+
+      {error ? (
+        <div className="alert alert-danger" role="alert">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="card height-auto mb-4">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Outstanding Balances by Class</h3>
+            </div>
+          </div>
+          <div className="row">
+            <div className="col-lg-3 col-md-4 form-group">
+              <label htmlFor="debtors-session">Session</label>
+              <select
+                id="debtors-session"
+                className="form-control"
+                value={sessionId}
+                onChange={(event) => {
+                  setSessionId(event.target.value);
+                  setTermId("");
+                }}
+              >
+                <option value="">Select Session</option>
+                {sessions.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-4 form-group">
+              <label htmlFor="debtors-term">Term</label>
+              <select
+                id="debtors-term"
+                className="form-control"
+                value={termId}
+                disabled={!sessionId}
+                onChange={(event) => setTermId(event.target.value)}
+              >
+                <option value="">Select Term</option>
+                {terms.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-4 form-group d-flex align-items-end">
+              <button
+                type="button"
+                className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+                onClick={() => void loadBalances()}
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "View Balances"}
+              </button>
+            </div>
+          </div>
+
+          <div className="table-responsive">
+            <table className="table table-bordered">
+              <thead>
+                <tr>
+                  <th>Class</th>
+                  <th className="text-center">Invoices</th>
+                  <th className="text-center">Debtors</th>
+                  <th className="text-right">Invoiced</th>
+                  <th className="text-right">Discounts</th>
+                  <th className="text-right">Paid</th>
+                  <th className="text-right">Outstanding</th>
+                </tr>
+              </thead>
+              <tbody>
+                {classBalances.length ? (
+                  <>
+                    {classBalances.map((row) => (
+                      <tr key={row.classId}>
+                        <td>
+                          <button
+                            type="button"
+                            className="btn btn-link p-0"
+                            onClick={() => setClassFilter(row.classId)}
+                          >
+                            {row.className}
+                          </button>
+                        </td>
+                        <td className="text-center">{row.invoiceCount}</td>
+                        <td className="text-center">{row.debtorCount}</td>
+                        <td className="text-right">{formatCurrency(row.invoiced)}</td>
+                        <td className="text-right">{formatCurrency(row.discounts)}</td>
+                        <td className="text-right">{formatCurrency(row.paid)}</td>
+                        <td className="text-right">
+                          <strong>{formatCurrency(row.outstanding)}</strong>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <th>School Total</th>
+                      <th className="text-center">{invoices.length}</th>
+                      <th className="text-center">{schoolTotals.debtors}</th>
+                      <th className="text-right">{formatCurrency(schoolTotals.invoiced)}</th>
+                      <th className="text-right">{formatCurrency(schoolTotals.discounts)}</th>
+                      <th className="text-right">{formatCurrency(schoolTotals.paid)}</th>
+                      <th className="text-right">{formatCurrency(schoolTotals.outstanding)}</th>
+                    </tr>
+                  </>
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="text-center">
+                      {loading
+                        ? "Loading balances..."
+                        : loaded
+                          ? "No invoices have been generated for this term."
+                          : "Select a session and term to view balances."}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {loaded ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Debtors List</h3>
+              </div>
+            </div>
+            <div className="row mb-3">
+              <div className="col-md-4 form-group">
+                <label htmlFor="debtors-class">Class</label>
+                <select
+                  id="debtors-class"
+                  className="form-control"
+                  value={classFilter}
+                  onChange={(event) => setClassFilter(event.target.value)}
+                >
+                  <option value="">All Classes</option>
+                  {classBalances.map((row) => (
+                    <option key={row.classId} value={row.classId}>
+                      {row.className}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-md-4 form-group">
+                <label htmlFor="debtors-minimum">Minimum Balance</label>
+                <input
+                  id="debtors-minimum"
+                  type="number"
+                  min="0"
+                  className="form-control"
+                  value={minimumBalance}
+                  onChange={(event) => setMinimumBalance(event.target.value)}
+                />
+              </div>
+              <div className="col-md-4 form-group d-flex align-items-end justify-content-end">
+                <button
+                  type="button"
+                  className="btn btn-outline-primary"
+                  onClick={handleExport}
+                  disabled={!debtors.length}
+                >
+                  Export CSV
+                </button>
+              </div>
+            </div>
+            <div className="table-responsive">
+              <table className="table table-bordered">
+                <thead>
+                  <tr>
+                    <th>Admission No</th>
+                    <th>Student</th>
+                    <th>Class</th>
+                    <th>Parent Phone</th>
+                    <th className="text-right">Invoiced</th>
+                    <th className="text-right">Paid</th>
+                    <th className="text-right">Outstanding</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {debtors.length ? (
+                    debtors.map((debtor) => (
+                      <tr key={debtor.studentId}>
+                        <td>{debtor.admissionNo || "—"}</td>
+                        <td>{debtor.name || "—"}</td>
+                        <td>
+                          {debtor.className}
+                          {debtor.armName ? ` ${debtor.armName}` : ""}
+                        </td>
+                        <td>{debtor.parentPhone || "—"}</td>
+                        <td className="text-right">{formatCurrency(debtor.invoiced)}</td>
+                        <td className="text-right">{formatCurrency(debtor.paid)}</td>
+                        <td className="text-right">
+                          <strong>{formatCurrency(debtor.outstanding)}</strong>
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={7} className="text-center">
+                        No outstanding balances for this selection.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,1245 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { listSessions, type Session } from "@/lib/sessions";
+import { listTermsBySession, type Term } from "@/lib/terms";
+import { listClasses, type SchoolClass } from "@/lib/classes";
+import { listClassArms, type ClassArm } from "@/lib/classArms";
+import { listStudents, type StudentSummary } from "@/lib/students";
+import { listFeeStructuresBySessionTerm, type FeeStructure } from "@/lib/fees";
+import { listBankDetails, type BankDetail } from "@/lib/bankDetails";
+import {
+  applyFeeDiscount,
+  computeDiscountAmount,
+  findClassFeeStructure,
+  generateFeeInvoices,
+  invoiceBalance,
+  invoiceStatus,
+  listFeeInvoices,
+  previewInvoiceTotal,
+  recordFeePayment,
+  removeFeeDiscount,
+  splitFeeStructureItems,
+  studentDisplayName,
+  toAmount,
+  type FeeDiscountKind,
+  type FeeDiscountMode,
+  type FeeInvoice,
+  type FeeInvoiceStatus,
+} from "@/lib/studentFees";
+
+type FeedbackKind = "success" | "info" | "warning" | "danger";
+
+interface FeedbackState {
+  type: FeedbackKind;
+  message: string;
+}
+
+interface Filters {
+  sessionId: string;
+  termId: string;
+  classId: string;
+  armId: string;
+}
+
+interface PaymentFormState {
+  bankDetailId: string;
+  amount: string;
+  reference: string;
+  paymentDate: string;
+  note: string;
+}
+
+interface DiscountFormState {
+  kind: FeeDiscountKind;
+  mode: FeeDiscountMode;
+  value: string;
+  reason: string;
+}
+
+const emptyFilters: Filters = {
+  sessionId: "",
+  termId: "",
+  classId: "",
+  armId: "",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const initialPaymentForm = (): PaymentFormState => ({
+  bankDetailId: "",
+  amount: "",
+  reference: "",
+  paymentDate: today(),
+  note: "",
+});
+
+const initialDiscountForm: DiscountFormState = {
+  kind: "discount",
+  mode: "fixed",
+  value: "",
+  reason: "",
+};
+
+const statusBadges: Record<FeeInvoiceStatus, { label: string; className: string }> = {
+  paid: { label: "Paid", className: "badge badge-success" },
+  part_paid: { label: "Part Paid", className: "badge badge-warning" },
+  unpaid: { label: "Unpaid", className: "badge badge-danger" },
+};
+
+const formatCurrency = (value: number | string | null | undefined) =>
+  new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 2,
+  }).format(toAmount(value));
+
+const formatDate = (value?: string | null) => {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+const buildPrintUrl = (
+  filters: Filters,
+  extra: Record<string, string | number>,
+) => {
+  const params = new URLSearchParams({
+    session_id: filters.sessionId,
+    term_id: filters.termId,
+    autoprint: "1",
+  });
+  Object.entries(extra).forEach(([key, value]) => params.set(key, String(value)));
+  return `/v23/print-fee-invoices?${params.toString()}`;
+};
+
+const fullName = (student: StudentSummary) =>
+  [student.first_name, student.middle_name, student.last_name]
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+
+export default function StudentInvoicesPage() {
+  const { schoolContext } = useAuth();
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [arms, setArms] = useState<ClassArm[]>([]);
+  const [bankDetails, setBankDetails] = useState<BankDetail[]>([]);
+  const [structure, setStructure] = useState<FeeStructure | null>(null);
+  const [students, setStudents] = useState<StudentSummary[]>([]);
+  const [invoices, setInvoices] = useState<FeeInvoice[]>([]);
+  const [optionalSelections, setOptionalSelections] = useState<Record<string, string[]>>({});
+  const [billStudentIds, setBillStudentIds] = useState<string[]>([]);
+  const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
+  const [paymentForm, setPaymentForm] = useState<PaymentFormState>(initialPaymentForm);
+  const [discountForm, setDiscountForm] = useState<DiscountFormState>(initialDiscountForm);
+  const [feedback, setFeedback] = useState<FeedbackState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [savingPayment, setSavingPayment] = useState(false);
+  const [savingDiscount, setSavingDiscount] = useState(false);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    Promise.all([listSessions(), listClasses(), listBankDetails()])
+      .then(([sessionItems, classItems, bankItems]) => {
+        setSessions(sessionItems);
+        setClasses(classItems);
+        setBankDetails(bankItems.filter((detail) => detail.is_active !== false));
+        if (schoolContext.current_session_id) {
+          setFilters((previous) =>
+            previous.sessionId
+              ? previous
+              : { ...previous, sessionId: String(schoolContext.current_session_id) },
+          );
+        }
+      })
+      .catch((error) =>
+        setFeedback({
+          type: "danger",
+          message: error instanceof Error ? error.message : "Unable to load fee filters.",
+        }),
+      );
+  }, [schoolContext.current_session_id]);
+
+  useEffect(() => {
+    if (!filters.sessionId) return;
+    listTermsBySession(filters.sessionId)
+      .then((items) => {
+        setTerms(items);
+        const currentTermId = schoolContext.current_term_id
+          ? String(schoolContext.current_term_id)
+          : "";
+        if (currentTermId && items.some((item) => String(item.id) === currentTermId)) {
+          setFilters((previous) =>
+            previous.termId ? previous : { ...previous, termId: currentTermId },
+          );
+        }
+      })
+      .catch((error) =>
+        setFeedback({
+          type: "danger",
+          message: error instanceof Error ? error.message : "Unable to load terms.",
+        }),
+      );
+  }, [filters.sessionId, schoolContext.current_term_id]);
+
+  useEffect(() => {
+    if (!filters.classId) return;
+    listClassArms(filters.classId)
+      .then(setArms)
+      .catch((error) =>
+        setFeedback({
+          type: "danger",
+          message: error instanceof Error ? error.message : "Unable to load class arms.",
+        }),
+      );
+  }, [filters.classId]);
+
+  const refreshInvoices = useCallback(async () => {
+    if (!filters.sessionId || !filters.termId || !filters.classId) return;
+    const records = await listFeeInvoices({
+      session_id: filters.sessionId,
+      term_id: filters.termId,
+      school_class_id: filters.classId,
+      class_arm_id: filters.armId || undefined,
+    });
+    setInvoices(records);
+  }, [filters]);
+
+  const loadLedger = useCallback(async () => {
+    if (!filters.sessionId || !filters.termId || !filters.classId) {
+      setFeedback({
+        type: "warning",
+        message: "Select a session, term, and class to load the fee ledger.",
+      });
+      return;
+    }
+    setLoading(true);
+    setFeedback(null);
+    setSelectedInvoiceId(null);
+    try {
+      const structures = await listFeeStructuresBySessionTerm({
+        session_id: filters.sessionId,
+        term_id: filters.termId,
+      });
+      setStructure(findClassFeeStructure(structures, filters.classId));
+
+      const loaded: StudentSummary[] = [];
+      let page = 1;
+      let more = true;
+      while (more) {
+        const response = await listStudents({
+          page,
+          per_page: 1000,
+          sortBy: "last_name",
+          sortDirection: "asc",
+          session_id: filters.sessionId,
+          term_id: filters.termId,
+          school_class_id: filters.classId,
+          class_arm_id: filters.armId || undefined,
+        });
+        loaded.push(...(Array.isArray(response.data) ? response.data : []));
+        more = page < (response.last_page || 1);
+        page += 1;
+      }
+      setStudents(loaded);
+      setOptionalSelections({});
+
+      const records = await listFeeInvoices({
+        session_id: filters.sessionId,
+        term_id: filters.termId,
+        school_class_id: filters.classId,
+        class_arm_id: filters.armId || undefined,
+      });
+      setInvoices(records);
+      const invoiced = new Set(records.map((invoice) => String(invoice.student_id)));
+      setBillStudentIds(
+        loaded
+          .map((student) => String(student.id))
+          .filter((studentId) => !invoiced.has(studentId)),
+      );
+    } catch (error) {
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to load the fee ledger.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  const { mandatory: mandatoryItems, optional: optionalItems } = useMemo(
+    () => splitFeeStructureItems(structure),
+    [structure],
+  );
+
+  const invoicedStudentIds = useMemo(
+    () => new Set(invoices.map((invoice) => String(invoice.student_id))),
+    [invoices],
+  );
+
+  const uninvoicedStudents = useMemo(
+    () => students.filter((student) => !invoicedStudentIds.has(String(student.id))),
+    [invoicedStudentIds, students],
+  );
+
+  const toggleOptionalItem = (studentId: string, itemId: string) => {
+    setOptionalSelections((previous) => {
+      const current = previous[studentId] ?? [];
+      return {
+        ...previous,
+        [studentId]: current.includes(itemId)
+          ? current.filter((id) => id !== itemId)
+          : [...current, itemId],
+      };
+    });
+  };
+
+  const setOptionalItemForAll = (itemId: string, checked: boolean) => {
+    setOptionalSelections((previous) => {
+      const next = { ...previous };
+      uninvoicedStudents.forEach((student) => {
+        const studentId = String(student.id);
+        const current = next[studentId] ?? [];
+        next[studentId] = checked
+          ? Array.from(new Set([...current, itemId]))
+          : current.filter((id) => id !== itemId);
+      });
+      return next;
+    });
+  };
+
+  const toggleBillStudent = (studentId: string) => {
+    setBillStudentIds((previous) =>
+      previous.includes(studentId)
+        ? previous.filter((id) => id !== studentId)
+        : [...previous, studentId],
+    );
+  };
+
+  const handleGenerate = async () => {
+    if (!structure) {
+      setFeedback({
+        type: "warning",
+        message: "No fee structure is set up for this class, session, and term.",
+      });
+      return;
+    }
+    const targets = uninvoicedStudents.filter((student) =>
+      billStudentIds.includes(String(student.id)),
+    );
+    if (!targets.length) {
+      setFeedback({ type: "warning", message: "Select at least one student to bill." });
+      return;
+    }
+    if (!window.confirm(`Generate ${targets.length} invoice(s) for this term?`)) {
+      return;
+    }
+    setGenerating(true);
+    try {
+      const result = await generateFeeInvoices({
+        session_id: filters.sessionId,
+        term_id: filters.termId,
+        school_class_id: filters.classId,
+        invoices: targets.map((student) => ({
+          student_id: student.id,
+          optional_fee_structure_item_ids: optionalSelections[String(student.id)] ?? [],
+        })),
+      });
+      const created = result.data?.created_count ?? targets.length;
+      const skipped = result.data?.skipped_count ?? 0;
+      setFeedback({
+        type: "success",
+        message:
+          result.message ??
+          `${created} invoice(s) generated${skipped ? `, ${skipped} skipped` : ""}.`,
+      });
+      await refreshInvoices();
+      setBillStudentIds([]);
+    } catch (error) {
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to generate invoices.",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const filteredInvoices = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return invoices;
+    return invoices.filter((invoice) =>
+      [
+        invoice.invoice_number,
+        invoice.student?.admission_no,
+        studentDisplayName(invoice.student),
+      ].some((value) => String(value ?? "").toLowerCase().includes(term)),
+    );
+  }, [invoices, search]);
+
+  const ledgerTotals = useMemo(
+    () =>
+      invoices.reduce(
+        (totals, invoice) => ({
+          invoiced: totals.invoiced + toAmount(invoice.total_amount),
+          discounts: totals.discounts + toAmount(invoice.discount_amount),
+          paid: totals.paid + toAmount(invoice.amount_paid),
+          outstanding: totals.outstanding + invoiceBalance(invoice),
+        }),
+        { invoiced: 0, discounts: 0, paid: 0, outstanding: 0 },
+      ),
+    [invoices],
+  );
+
+  const selectedInvoice = useMemo(
+    () => invoices.find((invoice) => String(invoice.id) === selectedInvoiceId) ?? null,
+    [invoices, selectedInvoiceId],
+  );
+
+  const openInvoice = (invoice: FeeInvoice) => {
+    const defaultBank = bankDetails.find((detail) => detail.is_default) ?? bankDetails[0];
+    setSelectedInvoiceId(String(invoice.id));
+    setPaymentForm({
+      ...initialPaymentForm(),
+      bankDetailId: defaultBank ? String(defaultBank.id) : "",
+      amount: String(invoiceBalance(invoice)),
+    });
+    setDiscountForm(initialDiscountForm);
+  };
+
+  const handleRecordPayment = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selectedInvoice) return;
+    const amount = Number(paymentForm.amount);
+    if (!paymentForm.bankDetailId || !paymentForm.reference.trim()) {
+      setFeedback({
+        type: "warning",
+        message: "Select the receiving account and enter the teller or reference number.",
+      });
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setFeedback({ type: "warning", message: "Enter a payment amount greater than zero." });
+      return;
+    }
+    const balance = invoiceBalance(selectedInvoice);
+    if (
+      amount > balance &&
+      !window.confirm(
+        `This payment is ${formatCurrency(amount - balance)} more than the balance. Record it anyway?`,
+      )
+    ) {
+      return;
+    }
+    setSavingPayment(true);
+    try {
+      await recordFeePayment({
+        invoice_id: selectedInvoice.id,
+        bank_detail_id: paymentForm.bankDetailId,
+        amount,
+        reference: paymentForm.reference.trim(),
+        payment_date: paymentForm.paymentDate,
+        note: paymentForm.note.trim() || null,
+      });
+      setFeedback({ type: "success", message: "Payment recorded successfully." });
+      await refreshInvoices();
+      setPaymentForm((previous) => ({
+        ...previous,
+        amount: "",
+        reference: "",
+        note: "",
+      }));
+    } catch (error) {
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to record payment.",
+      });
+    } finally {
+      setSavingPayment(false);
+    }
+  };
+
+  const discountPreview = useMemo(() => {
+    if (!selectedInvoice) return 0;
+    const value = Number(discountForm.value);
+    return Number.isFinite(value) && value > 0
+      ? computeDiscountAmount(selectedInvoice, discountForm.mode, value)
+      : 0;
+  }, [discountForm.mode, discountForm.value, selectedInvoice]);
+
+  const handleApplyDiscount = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selectedInvoice) return;
+    const value = Number(discountForm.value);
+    if (!Number.isFinite(value) || value <= 0) {
+      setFeedback({ type: "warning", message: "Enter a discount value greater than zero." });
+      return;
+    }
+    if (discountForm.mode === "percentage" && value > 100) {
+      setFeedback({ type: "warning", message: "A percentage discount cannot exceed 100%." });
+      return;
+    }
+    if (discountPreview <= 0) {
+      setFeedback({
+        type: "warning",
+        message: "This invoice has already been fully discounted.",
+      });
+      return;
+    }
+    setSavingDiscount(true);
+    try {
+      await applyFeeDiscount({
+        invoice_id: selectedInvoice.id,
+        kind: discountForm.kind,
+        mode: discountForm.mode,
+        value,
+        amount: discountPreview,
+        reason: discountForm.reason.trim() || null,
+      });
+      setFeedback({
+        type: "success",
+        message:
+          discountForm.kind === "scholarship"
+            ? "Scholarship applied successfully."
+            : "Discount applied successfully.",
+      });
+      await refreshInvoices();
+      setDiscountForm(initialDiscountForm);
+    } catch (error) {
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to apply discount.",
+      });
+    } finally {
+      setSavingDiscount(false);
+    }
+  };
+
+  const printInvoices = (extra: Record<string, string | number>) => {
+    window.open(buildPrintUrl(filters, extra), "_blank");
+  };
+
+  const handleRemoveDiscount = async (discountId: string | number) => {
+    if (!window.confirm("Remove this discount from the invoice?")) {
+      return;
+    }
+    try {
+      await removeFeeDiscount(discountId);
+      setFeedback({ type: "success", message: "Discount removed." });
+      await refreshInvoices();
+    } catch (error) {
+      setFeedback({
+        type: "danger",
+        message: error instanceof Error ? error.message : "Unable to remove discount.",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="breadcrumbs-area">
+        <h3>Student Invoices</h3>
+        <ul>
+          <li>
+            <Link href="/v10/dashboard">Home</Link>
+          </li>
+          <li>Fee Management</li>
+          <li>Student Invoices</li>
+        </ul>
+      </div>
+
+      {feedback ? (
+        <div className={`alert alert-${feedback.type}`} role="alert">
+          {feedback.message}
+        </div>
+      ) : null}
+
+      <div className="card height-auto mb-4">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Fee Ledger</h3>
+            </div>
+          </div>
+          <div className="row">
+            <div className="col-lg-2 col-md-4 form-group">
+              <label htmlFor="ledger-session">Session</label>
+              <select
+                id="ledger-session"
+                className="form-control"
+                value={filters.sessionId}
+                onChange={(event) =>
+                  setFilters((previous) => ({
+                    ...previous,
+                    sessionId: event.target.value,
+                    termId: "",
+                  }))
+                }
+              >
+                <option value="">Select Session</option>
+                {sessions.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-2 col-md-4 form-group">
+              <label htmlFor="ledger-term">Term</label>
+              <select
+                id="ledger-term"
+                className="form-control"
+                value={filters.termId}
+                disabled={!filters.sessionId}
+                onChange={(event) =>
+                  setFilters((previous) => ({ ...previous, termId: event.target.value }))
+                }
+              >
+                <option value="">Select Term</option>
+                {terms.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-4 form-group">
+              <label htmlFor="ledger-class">Class</label>
+              <select
+                id="ledger-class"
+                className="form-control"
+                value={filters.classId}
+                onChange={(event) =>
+                  setFilters((previous) => ({
+                    ...previous,
+                    classId: event.target.value,
+                    armId: "",
+                  }))
+                }
+              >
+                <option value="">Select Class</option>
+                {classes.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-2 col-md-4 form-group">
+              <label htmlFor="ledger-arm">Class Arm</label>
+              <select
+                id="ledger-arm"
+                className="form-control"
+                value={filters.armId}
+                disabled={!filters.classId}
+                onChange={(event) =>
+                  setFilters((previous) => ({ ...previous, armId: event.target.value }))
+                }
+              >
+                <option value="">All Arms</option>
+                {arms.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-8 form-group d-flex align-items-end">
+              <button
+                type="button"
+                className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+                onClick={() => void loadLedger()}
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "Load Ledger"}
+              </button>
+            </div>
+          </div>
+
+          {invoices.length ? (
+            <div className="row text-center mt-2">
+              {[
+                { label: "Invoiced", value: ledgerTotals.invoiced },
+                { label: "Discounts", value: ledgerTotals.discounts },
+                { label: "Paid", value: ledgerTotals.paid },
+                { label: "Outstanding", value: ledgerTotals.outstanding },
+              ].map((item) => (
+                <div key={item.label} className="col-md-3 col-6 mb-2">
+                  <div className="border rounded p-2">
+                    <div className="text-muted small">{item.label}</div>
+                    <strong>{formatCurrency(item.value)}</strong>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      {students.length ? (
+        <div className="card height-auto mb-4">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Generate Invoices</h3>
+                <p className="text-muted mb-0">
+                  Mandatory items are billed to every student. Tick the optional
+                  items each student has chosen.
+                </p>
+              </div>
+            </div>
+
+            {!structure ? (
+              <div className="alert alert-warning mb-0">
+                No fee structure is set up for this class in the selected term.{" "}
+                <Link href="/v23/fee-structure">Set up the fee structure</Link> first.
+              </div>
+            ) : uninvoicedStudents.length === 0 ? (
+              <p className="text-muted mb-0">
+                Every student in this selection already has an invoice for the term.
+              </p>
+            ) : (
+              <>
+                <p className="mb-2">
+                  <strong>Mandatory:</strong>{" "}
+                  {mandatoryItems.length
+                    ? mandatoryItems
+                        .map(
+                          (item) =>
+                            `${item.fee_item?.name ?? "Fee"} (${formatCurrency(item.amount)})`,
+                        )
+                        .join(", ")
+                    : "None"}
+                </p>
+                <div className="table-responsive">
+                  <table className="table table-bordered table-sm">
+                    <thead>
+                      <tr>
+                        <th style={{ width: 40 }}>
+                          <input
+                            type="checkbox"
+                            aria-label="Bill all students"
+                            checked={billStudentIds.length === uninvoicedStudents.length}
+                            onChange={(event) =>
+                              setBillStudentIds(
+                                event.target.checked
+                                  ? uninvoicedStudents.map((student) => String(student.id))
+                                  : [],
+                              )
+                            }
+                          />
+                        </th>
+                        <th>Student</th>
+                        {optionalItems.map((item) => {
+                          const itemId = String(item.id);
+                          const allChecked = uninvoicedStudents.every((student) =>
+                            (optionalSelections[String(student.id)] ?? []).includes(itemId),
+                          );
+                          return (
+                            <th key={itemId} className="text-center">
+                              <div>{item.fee_item?.name ?? "Optional fee"}</div>
+                              <small className="text-muted d-block">
+                                {formatCurrency(item.amount)}
+                              </small>
+                              <input
+                                type="checkbox"
+                                aria-label={`Add ${item.fee_item?.name ?? "item"} for all`}
+                                checked={allChecked}
+                                onChange={(event) =>
+                                  setOptionalItemForAll(itemId, event.target.checked)
+                                }
+                              />
+                            </th>
+                          );
+                        })}
+                        <th className="text-right">Invoice Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {uninvoicedStudents.map((student) => {
+                        const studentId = String(student.id);
+                        const chosen = optionalSelections[studentId] ?? [];
+                        return (
+                          <tr key={studentId}>
+                            <td>
+                              <input
+                                type="checkbox"
+                                aria-label={`Bill ${fullName(student)}`}
+                                checked={billStudentIds.includes(studentId)}
+                                onChange={() => toggleBillStudent(studentId)}
+                              />
+                            </td>
+                            <td>
+                              {fullName(student)}
+                              <small className="text-muted d-block">
+                                {student.admission_no ?? ""}
+                                {student.class_arm?.name ? ` · ${student.class_arm.name}` : ""}
+                              </small>
+                            </td>
+                            {optionalItems.map((item) => (
+                              <td key={String(item.id)} className="text-center">
+                                <input
+                                  type="checkbox"
+                                  aria-label={`${item.fee_item?.name ?? "Optional fee"} for ${fullName(student)}`}
+                                  checked={chosen.includes(String(item.id))}
+                                  onChange={() => toggleOptionalItem(studentId, String(item.id))}
+                                />
+                              </td>
+                            ))}
+                            <td className="text-right">
+                              {formatCurrency(previewInvoiceTotal(structure, chosen))}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="text-right">
+                  <button
+                    type="button"
+                    className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+                    onClick={() => void handleGenerate()}
+                    disabled={generating || billStudentIds.length === 0}
+                  >
+                    {generating
+                      ? "Generating..."
+                      : `Generate ${billStudentIds.length} Invoice(s)`}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      ) : null}
+
+      {invoices.length ? (
+        <div className="card height-auto mb-4">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>Invoices</h3>
+              </div>
+            </div>
+            <div className="row mb-3">
+              <div className="col-md-6">
+                <input
+                  type="text"
+                  className="form-control"
+                  placeholder="Search by name, admission or invoice number..."
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                />
+              </div>
+              <div className="col-md-6 text-right">
+                <button
+                  type="button"
+                  className="btn btn-outline-secondary"
+                  onClick={() =>
+                    printInvoices({
+                      school_class_id: filters.classId,
+                      ...(filters.armId ? { class_arm_id: filters.armId } : {}),
+                    })
+                  }
+                >
+                  {filters.armId ? "Print Arm Invoices" : "Print Class Invoices"}
+                </button>
+              </div>
+            </div>
+            <div className="table-responsive">
+              <table className="table table-bordered">
+                <thead>
+                  <tr>
+                    <th>Invoice No</th>
+                    <th>Student</th>
+                    <th className="text-right">Total</th>
+                    <th className="text-right">Discounts</th>
+                    <th className="text-right">Paid</th>
+                    <th className="text-right">Balance</th>
+                    <th>Status</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredInvoices.map((invoice) => {
+                    const status = statusBadges[invoiceStatus(invoice)];
+                    return (
+                      <tr
+                        key={invoice.id}
+                        className={String(invoice.id) === selectedInvoiceId ? "table-active" : ""}
+                      >
+                        <td>{invoice.invoice_number ?? invoice.id}</td>
+                        <td>
+                          {studentDisplayName(invoice.student)}
+                          <small className="text-muted d-block">
+                            {invoice.student?.admission_no ?? ""}
+                          </small>
+                        </td>
+                        <td className="text-right">{formatCurrency(invoice.total_amount)}</td>
+                        <td className="text-right">{formatCurrency(invoice.discount_amount)}</td>
+                        <td className="text-right">{formatCurrency(invoice.amount_paid)}</td>
+                        <td className="text-right">
+                          <strong>{formatCurrency(invoiceBalance(invoice))}</strong>
+                        </td>
+                        <td>
+                          <span className={status.className}>{status.label}</span>
+                        </td>
+                        <td>
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-primary mr-2"
+                            onClick={() => openInvoice(invoice)}
+                          >
+                            Manage
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-secondary"
+                            onClick={() => printInvoices({ invoice_id: invoice.id })}
+                          >
+                            Print
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {selectedInvoice ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>
+                  {studentDisplayName(selectedInvoice.student)} ·{" "}
+                  {selectedInvoice.invoice_number ?? `Invoice ${selectedInvoice.id}`}
+                </h3>
+                <p className="text-muted mb-0">
+                  Balance: <strong>{formatCurrency(invoiceBalance(selectedInvoice))}</strong>
+                </p>
+              </div>
+              <button
+                type="button"
+                className="btn btn-link"
+                onClick={() => setSelectedInvoiceId(null)}
+              >
+                Close
+              </button>
+            </div>
+
+            <div className="row">
+              <div className="col-lg-6 mb-4">
+                <h5>Items</h5>
+                <table className="table table-sm table-bordered">
+                  <tbody>
+                    {(selectedInvoice.items ?? []).map((item) => (
+                      <tr key={item.id}>
+                        <td>
+                          {item.name}
+                          {item.is_mandatory === false ? (
+                            <small className="text-muted"> (optional)</small>
+                          ) : null}
+                        </td>
+                        <td className="text-right">{formatCurrency(item.amount)}</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <th>Total</th>
+                      <th className="text-right">
+                        {formatCurrency(selectedInvoice.total_amount)}
+                      </th>
+                    </tr>
+                  </tbody>
+                </table>
+
+                <h5>Discounts &amp; Scholarships</h5>
+                {(selectedInvoice.discounts ?? []).length ? (
+                  <table className="table table-sm table-bordered">
+                    <tbody>
+                      {(selectedInvoice.discounts ?? []).map((discount) => (
+                        <tr key={discount.id}>
+                          <td>
+                            <span className="text-capitalize">{discount.kind}</span>
+                            {discount.mode === "percentage" ? ` (${discount.value}%)` : ""}
+                            {discount.reason ? (
+                              <small className="text-muted d-block">{discount.reason}</small>
+                            ) : null}
+                          </td>
+                          <td className="text-right">-{formatCurrency(discount.amount)}</td>
+                          <td className="text-right" style={{ width: 80 }}>
+                            <button
+                              type="button"
+                              className="btn btn-sm btn-outline-danger"
+                              onClick={() => void handleRemoveDiscount(discount.id)}
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-muted">No discounts applied.</p>
+                )}
+
+                <h5>Payments</h5>
+                {(selectedInvoice.payments ?? []).length ? (
+                  <table className="table table-sm table-bordered">
+                    <thead>
+                      <tr>
+                        <th>Date</th>
+                        <th>Reference</th>
+                        <th>Account</th>
+                        <th className="text-right">Amount</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(selectedInvoice.payments ?? []).map((payment) => (
+                        <tr key={payment.id}>
+                          <td>{formatDate(payment.payment_date)}</td>
+                          <td>{payment.reference}</td>
+                          <td>
+                            {payment.bank_detail
+                              ? `${payment.bank_detail.bank_name} (${payment.bank_detail.account_number})`
+                              : "—"}
+                          </td>
+                          <td className="text-right">{formatCurrency(payment.amount)}</td>
+                          <td className="text-right">
+                            <button
+                              type="button"
+                              className="btn btn-sm btn-outline-secondary"
+                              onClick={() =>
+                                printInvoices({
+                                  invoice_id: selectedInvoice.id,
+                                  document: "receipt",
+                                  payment_id: payment.id,
+                                })
+                              }
+                            >
+                              Receipt
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-muted">No payments recorded yet.</p>
+                )}
+              </div>
+
+              <div className="col-lg-6">
+                <form className="border rounded p-3 mb-4" onSubmit={handleRecordPayment}>
+                  <h5>Record Payment</h5>
+                  <div className="form-row">
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="payment-bank">Paid Into *</label>
+                      <select
+                        id="payment-bank"
+                        className="form-control"
+                        value={paymentForm.bankDetailId}
+                        onChange={(event) =>
+                          setPaymentForm((previous) => ({
+                            ...previous,
+                            bankDetailId: event.target.value,
+                          }))
+                        }
+                        required
+                      >
+                        <option value="">Select account</option>
+                        {bankDetails.map((detail) => (
+                          <option key={detail.id} value={detail.id}>
+                            {detail.bank_name} – {detail.account_number}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="payment-amount">Amount *</label>
+                      <input
+                        id="payment-amount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="form-control"
+                        value={paymentForm.amount}
+                        onChange={(event) =>
+                          setPaymentForm((previous) => ({
+                            ...previous,
+                            amount: event.target.value,
+                          }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="payment-reference">Teller / Reference No *</label>
+                      <input
+                        id="payment-reference"
+                        type="text"
+                        className="form-control"
+                        value={paymentForm.reference}
+                        onChange={(event) =>
+                          setPaymentForm((previous) => ({
+                            ...previous,
+                            reference: event.target.value,
+                          }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="payment-date">Payment Date *</label>
+                      <input
+                        id="payment-date"
+                        type="date"
+                        className="form-control"
+                        value={paymentForm.paymentDate}
+                        max={today()}
+                        onChange={(event) =>
+                          setPaymentForm((previous) => ({
+                            ...previous,
+                            paymentDate: event.target.value,
+                          }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="col-12 form-group">
+                      <label htmlFor="payment-note">Note</label>
+                      <input
+                        id="payment-note"
+                        type="text"
+                        className="form-control"
+                        value={paymentForm.note}
+                        onChange={(event) =>
+                          setPaymentForm((previous) => ({
+                            ...previous,
+                            note: event.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <button
+                      type="submit"
+                      className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+                      disabled={savingPayment}
+                    >
+                      {savingPayment ? "Saving..." : "Record Payment"}
+                    </button>
+                  </div>
+                </form>
+
+                <form className="border rounded p-3" onSubmit={handleApplyDiscount}>
+                  <h5>Apply Discount or Scholarship</h5>
+                  <div className="form-row">
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="discount-kind">Type</label>
+                      <select
+                        id="discount-kind"
+                        className="form-control"
+                        value={discountForm.kind}
+                        onChange={(event) =>
+                          setDiscountForm((previous) => ({
+                            ...previous,
+                            kind: event.target.value as FeeDiscountKind,
+                          }))
+                        }
+                      >
+                        <option value="discount">Discount</option>
+                        <option value="scholarship">Scholarship</option>
+                      </select>
+                    </div>
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="discount-mode">Calculated As</label>
+                      <select
+                        id="discount-mode"
+                        className="form-control"
+                        value={discountForm.mode}
+                        onChange={(event) =>
+                          setDiscountForm((previous) => ({
+                            ...previous,
+                            mode: event.target.value as FeeDiscountMode,
+                          }))
+                        }
+                      >
+                        <option value="fixed">Fixed amount</option>
+                        <option value="percentage">Percentage of invoice</option>
+                      </select>
+                    </div>
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="discount-value">
+                        {discountForm.mode === "percentage" ? "Percentage *" : "Amount *"}
+                      </label>
+                      <input
+                        id="discount-value"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={discountForm.mode === "percentage" ? 100 : undefined}
+                        className="form-control"
+                        value={discountForm.value}
+                        onChange={(event) =>
+                          setDiscountForm((previous) => ({
+                            ...previous,
+                            value: event.target.value,
+                          }))
+                        }
+                        required
+                      />
+                      {discountPreview > 0 ? (
+                        <small className="text-muted">
+                          Reduces the invoice by {formatCurrency(discountPreview)}
+                        </small>
+                      ) : null}
+                    </div>
+                    <div className="col-md-6 form-group">
+                      <label htmlFor="discount-reason">Reason</label>
+                      <input
+                        id="discount-reason"
+                        type="text"
+                        className="form-control"
+                        placeholder="e.g. Sibling discount"
+                        value={discountForm.reason}
+                        onChange={(event) =>
+                          setDiscountForm((previous) => ({
+                            ...previous,
+                            reason: event.target.value,
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <button
+                      type="submit"
+                      className="btn btn-outline-primary"
+                      disabled={savingDiscount}
+                    >
+                      {savingDiscount ? "Applying..." : "Apply"}
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
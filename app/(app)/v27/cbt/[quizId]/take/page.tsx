@@ -1,47 +1,68 @@
 'use client';
 
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { StudentAuthProvider, useStudentAuth } from '@/contexts/StudentAuthContext';
-import { apiFetch } from '@/lib/apiClient';
 import { getErrorMessage } from "@/lib/errors";
-
-interface QuizQuestion {
-  id: string;
-  quiz_id: string;
-  question_text: string;
-  question_type: 'mcq' | 'multiple_select' | 'true_false' | 'short_answer';
-  marks: number;
-  order: number;
-  image_url?: string;
-  explanation?: string;
-  options: QuizOption[];
-}
-
-interface QuizOption {
-  id: string;
-  question_id: string;
-  option_text: string;
-  order: number;
-  image_url?: string;
-}
-
-interface Quiz {
-  id: string;
-  title: string;
-  subject_name?: string | null;
-  duration_minutes: number;
-  total_questions: number;
-  show_answers: boolean;
-  allow_review: boolean;
-}
-
-interface QuizAnswer {
-  questionId: string;
-  selectedOption?: string;
-  answerText?: string;
-  selectedOptions?: string[];
-}
+import { isNetworkError } from '@/lib/apiClient';
+import {
+  buildQuizAnswerPayload,
+  findInProgressAttempt,
+  getQuizAttempt,
+  getQuizDetails,
+  listQuizQuestions,
+  remainingAttemptSeconds,
+  saveQuizAnswer,
+  startQuizAttempt,
+  submitQuizAttempt,
+  type QuizAnswer,
+  type QuizAttempt,
+  type QuizDetails,
+  type QuizQuestion,
+} from '@/lib/cbtAttempts';
+import {
+  deleteAttemptJournal,
+  findAttemptJournal,
+  journalAnswers,
+  markViolationsSynced,
+  recordJournalAnswer,
+  recordJournalViolation,
+  saveAttemptJournal,
+  unsyncedAnswers,
+  unsyncedViolations,
+  type AttemptJournal,
+} from '@/lib/cbtAttemptJournal';
+import {
+  INTEGRITY_VIOLATION_LABELS,
+  arrangeQuestionsForAttempt,
+  recordIntegrityViolation,
+  violationLimitReached,
+  type IntegrityViolation,
+  type IntegrityViolationType,
+} from '@/lib/cbtIntegrity';
+import { HEARTBEAT_INTERVAL_MS, sendAttemptHeartbeat } from '@/lib/cbtInvigilation';
+import {
+  createLocalAttemptId,
+  enqueueSubmission,
+  isLocalAttemptId,
+  listOfflineQuizzesForQuiz,
+  loadOfflineQuiz,
+  prepareQuizForOffline,
+  syncQueuedSubmissions,
+  unlockOfflineQuiz,
+  type OfflineQuizPackage,
+} from '@/lib/cbtOffline';
+import type { StudentProfile } from '@/lib/studentAuth';
+
+type SyncState = 'synced' | 'saving' | 'pending';
+
+// How long to wait after the last answer change before flushing, and how
+// often to retry answers that are still unsynced.
+const ANSWER_FLUSH_DELAY_MS = 2000;
+const ANSWER_FLUSH_INTERVAL_MS = 15000;
+
+// A blur followed this quickly by the page hiding is one tab switch, not two.
+const BLUR_GRACE_MS = 300;
 
 function TakeQuizPageInner() {
   const params = useParams();
@@ -49,51 +70,187 @@ function TakeQuizPageInner() {
   const { student, loading: authLoading } = useStudentAuth();
   const quizId = params.quizId as string;
 
-  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [quiz, setQuiz] = useState<QuizDetails | null>(null);
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [examStudent, setExamStudent] = useState<StudentProfile | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Map<string, QuizAnswer>>(new Map());
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [attemptStartTime, setAttemptStartTime] = useState<string | null>(null);
+  const [resumed, setResumed] = useState(false);
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [offlineImages, setOfflineImages] = useState<Record<string, string>>({});
+  const [syncState, setSyncState] = useState<SyncState>('synced');
   const [showConfirmation, setShowConfirmation] = useState(false);
-
-  // Load quiz data and start attempt
+  const [violationCount, setViolationCount] = useState(0);
+  const [lastViolation, setLastViolation] = useState<IntegrityViolationType | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [extraMinutes, setExtraMinutes] = useState(0);
+  // Signed out with no connection: who is sitting the prepared paper.
+  const [needsOfflineSignIn, setNeedsOfflineSignIn] = useState(false);
+  const [admissionNoInput, setAdmissionNoInput] = useState('');
+  const [offlinePinInput, setOfflinePinInput] = useState('');
+  const [offlineCredentials, setOfflineCredentials] = useState<{
+    admissionNo: string;
+    pin: string;
+  } | null>(null);
+  const [offlineSignInError, setOfflineSignInError] = useState<string | null>(null);
+  const journalRef = useRef<AttemptJournal | null>(null);
+  const currentQuestionIdRef = useRef<string | null>(null);
+  const autoSubmitReasonRef = useRef<string | null>(null);
+  const flushingRef = useRef<Promise<boolean> | null>(null);
+  const flushTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const submittingRef = useRef(false);
+
+  // Load quiz data and resume or start the attempt. When the network is
+  // down and the quiz was prepared for offline use, the paper is served
+  // from the local copy and the attempt runs entirely on this device.
   useEffect(() => {
     if (authLoading) return;
 
-    if (!student) {
-      router.push(`/cbt/login?next=/cbt/${quizId}/take`);
-      return;
-    }
+    const resolveAttempt = async (
+      journal: AttemptJournal | null,
+    ): Promise<{ attempt: QuizAttempt | null; journal: AttemptJournal | null; resumed: boolean }> => {
+      if (journal) {
+        if (isLocalAttemptId(journal.attemptId)) {
+          // Started offline: it reaches the server through the submission queue.
+          return { attempt: null, journal, resumed: true };
+        }
+        try {
+          const attempt = await getQuizAttempt(journal.attemptId);
+          if (attempt.status === 'in_progress') {
+            return { attempt, journal, resumed: true };
+          }
+        } catch (err) {
+          if (isNetworkError(err)) throw err;
+          console.error('Unable to verify journaled attempt:', err);
+        }
+        await deleteAttemptJournal(journal.attemptId).catch(() => undefined);
+      }
+
+      const existing = await findInProgressAttempt(quizId).catch((err) => {
+        if (isNetworkError(err)) throw err;
+        return null;
+      });
+      if (existing) {
+        return { attempt: existing, journal: null, resumed: true };
+      }
+      return { attempt: await startQuizAttempt(quizId), journal: null, resumed: false };
+    };
 
     const loadQuiz = async () => {
       try {
         setLoading(true);
-        // Load quiz details
-        const quizResponse = await apiFetch<{ data: Quiz }>(`/api/v1/cbt/quizzes/${quizId}`, {
-          authScope: 'student',
-        });
-        setQuiz(quizResponse.data);
+        const browserOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+        let activeStudent: StudentProfile | null = student;
+        let offlinePackage: OfflineQuizPackage | null = null;
+        if (student) {
+          offlinePackage = await loadOfflineQuiz(quizId, String(student.id)).catch(() => null);
+        } else if (browserOffline) {
+          // Only a package whose owner proves who they are with its PIN may open.
+          if (offlineCredentials) {
+            offlinePackage = await unlockOfflineQuiz(
+              quizId,
+              offlineCredentials.admissionNo,
+              offlineCredentials.pin,
+            ).catch(() => null);
+            activeStudent = offlinePackage?.student ?? null;
+          }
+          if (!activeStudent) {
+            const prepared = await listOfflineQuizzesForQuiz(quizId).catch(() => []);
+            if (prepared.some((item) => item.pinHash)) {
+              setOfflineSignInError(
+                offlineCredentials
+                  ? 'That admission number and PIN do not match a copy saved on this computer.'
+                  : null,
+              );
+              setNeedsOfflineSignIn(true);
+              return;
+            }
+          }
+        }
+        setNeedsOfflineSignIn(false);
+        if (!activeStudent) {
+          router.push(`/cbt/login?next=/cbt/${quizId}/take`);
+          return;
+        }
+        setExamStudent(activeStudent);
+        const studentId = String(activeStudent.id);
 
-        // Load questions
-        const questionsResponse = await apiFetch<{ data: QuizQuestion[] }>(
-          `/api/v1/cbt/quizzes/${quizId}/questions`,
-          { authScope: 'student' },
-        );
-        setQuestions(questionsResponse.data || []);
-
-        // Start attempt
-        const attemptResponse = await apiFetch<{ data: { id: string } }>('/api/v1/cbt/quiz-attempts', {
-          method: 'POST',
-          body: JSON.stringify({
-            quiz_id: quizId,
-          }),
-          authScope: 'student',
+        const storedJournal = await findAttemptJournal(quizId, studentId).catch(() => null);
+
+        let quizData: QuizDetails;
+        let questionData: QuizQuestion[];
+        let attempt: QuizAttempt | null = null;
+        let journal: AttemptJournal | null = storedJournal;
+        let isResumed = Boolean(storedJournal);
+        let runOffline = false;
+
+        try {
+          if (!student) {
+            throw new TypeError('Student session is unavailable offline.');
+          }
+          [quizData, questionData] = await Promise.all([
+            getQuizDetails(quizId),
+            listQuizQuestions(quizId),
+          ]);
+          ({ attempt, journal, resumed: isResumed } = await resolveAttempt(storedJournal));
+          if (!offlinePackage) {
+            // Keep a copy of the paper so a dropped connection does not end the exam.
+            void prepareQuizForOffline(quizId, student).catch((err) => {
+              console.warn('Unable to prepare quiz for offline use:', err);
+            });
+          }
+        } catch (err) {
+          if (!offlinePackage || !isNetworkError(err)) throw err;
+          runOffline = true;
+          quizData = offlinePackage.quiz;
+          questionData = offlinePackage.questions;
+        }
+
+        const durationMinutes = quizData.duration_minutes;
+        const activeJournal: AttemptJournal = journal ?? {
+          attemptId: attempt?.id ?? createLocalAttemptId(),
+          quizId,
+          studentId,
+          startTime: attempt?.start_time || new Date().toISOString(),
+          durationMinutes,
+          answers: {},
+          updatedAt: new Date().toISOString(),
+        };
+        const startTime = attempt?.start_time || activeJournal.startTime;
+        journalRef.current = activeJournal;
+        await saveAttemptJournal(activeJournal).catch((err) => {
+          console.error('Unable to journal quiz attempt:', err);
         });
-        setAttemptId(attemptResponse.data.id);
-        setTimeRemaining(quizResponse.data.duration_minutes * 60);
+
+        if (runOffline && offlinePackage) {
+          setOfflineImages(
+            Object.fromEntries(
+              Object.entries(offlinePackage.images).map(([url, blob]) => [
+                url,
+                URL.createObjectURL(blob),
+              ]),
+            ),
+          );
+        }
+        setOfflineMode(runOffline || isLocalAttemptId(activeJournal.attemptId));
+        setQuiz(quizData);
+        setQuestions(arrangeQuestionsForAttempt(questionData, activeJournal.attemptId, quizData));
+        setViolationCount(activeJournal.violations?.length ?? 0);
+        setAnswers(journalAnswers(activeJournal));
+        setSyncState(unsyncedAnswers(activeJournal).length ? 'pending' : 'synced');
+        setResumed(isResumed);
+        setAttemptId(activeJournal.attemptId);
+        setAttemptStartTime(startTime);
+        // Time granted before a reload must count from the first tick, not
+        // only once the first heartbeat reply arrives.
+        const grantedMinutes = Number(attempt?.extra_minutes ?? 0) || 0;
+        setExtraMinutes(grantedMinutes);
+        setTimeRemaining(remainingAttemptSeconds(startTime, durationMinutes + grantedMinutes));
 
         setError(null);
       } catch (err) {
@@ -107,46 +264,157 @@ function TakeQuizPageInner() {
     if (quizId) {
       loadQuiz();
     }
-  }, [authLoading, student, quizId, router]);
+  }, [authLoading, student, quizId, router, offlineCredentials]);
 
-  const submitQuiz = useCallback(async () => {
-    if (!attemptId) return;
+  useEffect(() => {
+    return () => {
+      Object.values(offlineImages).forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [offlineImages]);
 
-    try {
-      // Submit all answers
-      const answersArray = Array.from(answers.values());
-      const questionLookup = new Map(questions.map((question) => [question.id, question]));
-      for (const answer of answersArray) {
-        const question = questionLookup.get(answer.questionId);
-        const payload: Record<string, unknown> = {
-          attempt_id: attemptId,
-          question_id: answer.questionId,
-        };
+  // Sends every journaled answer the server has not yet accepted. Resolves
+  // false when some answers are still unsynced (e.g. the connection dropped).
+  const flushAnswers = useCallback((): Promise<boolean> => {
+    if (flushingRef.current) {
+      return flushingRef.current;
+    }
+
+    const run = async (): Promise<boolean> => {
+      const journal = journalRef.current;
+      if (!journal) return true;
+
+      const pending = unsyncedAnswers(journal);
+      if (!pending.length) {
+        setSyncState('synced');
+        return true;
+      }
+      if (isLocalAttemptId(journal.attemptId)) {
+        // Nothing to send to until the queued submission creates the attempt.
+        setSyncState('pending');
+        return false;
+      }
 
-        if (question?.question_type === 'multiple_select') {
-          payload.answer_text = JSON.stringify(answer.selectedOptions || []);
-        } else {
-          payload.selected_option_id = answer.selectedOption;
-          payload.answer_text = answer.answerText;
+      setSyncState('saving');
+      const questionLookup = new Map(questions.map((question) => [question.id, question]));
+      let allSynced = true;
+      for (const answer of pending) {
+        try {
+          await saveQuizAnswer(
+            buildQuizAnswerPayload(
+              journal.attemptId,
+              answer,
+              questionLookup.get(answer.questionId)?.question_type,
+            ),
+          );
+          const latest = journalRef.current;
+          if (!latest) break;
+          const current = latest.answers[answer.questionId];
+          journalRef.current = {
+            ...latest,
+            answers: {
+              ...latest.answers,
+              [answer.questionId]: { ...current, syncedRevision: answer.revision },
+            },
+          };
+        } catch (err) {
+          console.error('Unable to sync answer, will retry:', err);
+          allSynced = false;
+          break;
         }
+      }
 
-        await apiFetch('/api/v1/cbt/quiz-answers', {
-          method: 'POST',
-          body: JSON.stringify(payload),
-          authScope: 'student',
-        });
+      if (journalRef.current) {
+        await saveAttemptJournal(journalRef.current).catch(() => undefined);
+        allSynced = allSynced && unsyncedAnswers(journalRef.current).length === 0;
+      }
+      setSyncState(allSynced ? 'synced' : 'pending');
+      return allSynced;
+    };
+
+    flushingRef.current = run().finally(() => {
+      flushingRef.current = null;
+    });
+    return flushingRef.current;
+  }, [questions]);
+
+  // Hands the finished attempt to the offline submission queue and shows
+  // the student its "pending sync" status.
+  const queueSubmission = useCallback(async () => {
+    const journal = journalRef.current;
+    if (!journal || !quiz || !examStudent) {
+      throw new Error('Unable to save this attempt for later submission.');
+    }
+
+    const questionLookup = new Map(questions.map((question) => [question.id, question]));
+    const queued = await enqueueSubmission({
+      id: journal.attemptId,
+      quizId,
+      quizTitle: quiz.title,
+      studentId: String(examStudent.id),
+      studentName: [examStudent.first_name, examStudent.last_name].filter(Boolean).join(' '),
+      admissionNo: examStudent.admission_no,
+      attemptId: isLocalAttemptId(journal.attemptId) ? null : journal.attemptId,
+      answers: Object.values(journal.answers).map((answer) => ({
+        questionId: answer.questionId,
+        selectedOption: answer.selectedOption,
+        answerText: answer.answerText,
+        selectedOptions: answer.selectedOptions,
+        questionType: questionLookup.get(answer.questionId)?.question_type,
+      })),
+      syncedQuestionIds: Object.values(journal.answers)
+        .filter((answer) => answer.syncedRevision >= answer.revision)
+        .map((answer) => answer.questionId),
+      violations: unsyncedViolations(journal),
+      autoSubmitReason: autoSubmitReasonRef.current,
+      startedAt: journal.startTime,
+      finishedAt: new Date().toISOString(),
+    });
+
+    await deleteAttemptJournal(journal.attemptId).catch(() => undefined);
+    journalRef.current = null;
+    void syncQueuedSubmissions().catch(() => undefined);
+    router.push(`/cbt/submissions/${encodeURIComponent(queued.id)}`);
+  }, [examStudent, questions, quiz, quizId, router]);
+
+  const submitQuiz = useCallback(async () => {
+    if (!attemptId || submittingRef.current) return;
+    submittingRef.current = true;
+
+    try {
+      if (offlineMode || isLocalAttemptId(attemptId)) {
+        await queueSubmission();
+        return;
+      }
+
+      // Make sure every answer has reached the server before submitting
+      const synced = await flushAnswers();
+      if (!synced) {
+        await queueSubmission();
+        return;
       }
 
       // Submit the attempt
-      const submitResponse = await apiFetch<{ data?: { result_id?: string } }>(
-        `/api/v1/cbt/quiz-attempts/${attemptId}/submit`,
-        {
-          method: 'POST',
-          authScope: 'student',
-        },
-      );
+      let submitResponse: { result_id?: string };
+      const pendingViolations = journalRef.current ? unsyncedViolations(journalRef.current) : [];
+      try {
+        submitResponse = await submitQuizAttempt(
+          attemptId,
+          pendingViolations.length || autoSubmitReasonRef.current
+            ? { violations: pendingViolations, auto_submit_reason: autoSubmitReasonRef.current }
+            : undefined,
+        );
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        await queueSubmission();
+        return;
+      }
+      await deleteAttemptJournal(attemptId).catch(() => undefined);
+      journalRef.current = null;
+      if (document.fullscreenElement) {
+        void document.exitFullscreen().catch(() => undefined);
+      }
 
-      const resultId = submitResponse?.data?.result_id;
+      const resultId = submitResponse.result_id;
       if (!resultId) {
         throw new Error('Quiz submitted, but result could not be loaded.');
       }
@@ -154,28 +422,185 @@ function TakeQuizPageInner() {
       // Redirect to results
       router.push(`/cbt/results/${resultId}`);
     } catch (err) {
+      submittingRef.current = false;
       setError(getErrorMessage(err, 'Failed to submit quiz'));
       console.error('Error submitting quiz:', err);
     }
-  }, [attemptId, answers, questions, router]);
+  }, [attemptId, flushAnswers, offlineMode, queueSubmission, router]);
 
-  // Timer effect
   useEffect(() => {
-    if (timeRemaining <= 0 || !attemptId) return;
+    currentQuestionIdRef.current = questions[currentQuestionIndex]?.id ?? null;
+  }, [questions, currentQuestionIndex]);
+
+  // Journals an integrity event, reports it when online, and ends the
+  // attempt once the quiz's violation limit is reached.
+  const recordViolation = useCallback(
+    (type: IntegrityViolationType) => {
+      const journal = journalRef.current;
+      if (!journal || !quiz || submittingRef.current) return;
+
+      const violation: IntegrityViolation = {
+        type,
+        occurred_at: new Date().toISOString(),
+        question_id: currentQuestionIdRef.current,
+      };
+      journalRef.current = recordJournalViolation(journal, violation);
+      void saveAttemptJournal(journalRef.current).catch(() => undefined);
+      const count = journalRef.current.violations?.length ?? 0;
+      setViolationCount(count);
+      setLastViolation(type);
+
+      if (!offlineMode && !isLocalAttemptId(journal.attemptId)) {
+        void recordIntegrityViolation(journal.attemptId, violation)
+          .then(() => {
+            if (!journalRef.current) return;
+            journalRef.current = markViolationsSynced(journalRef.current, [violation]);
+            return saveAttemptJournal(journalRef.current);
+          })
+          .catch(() => undefined);
+      }
 
-    const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          // Auto-submit quiz when time expires
-          submitQuiz();
-          return 0;
+      if (violationLimitReached(count, quiz)) {
+        autoSubmitReasonRef.current = 'violation_limit';
+        setShowConfirmation(false);
+        void submitQuiz();
+      }
+    },
+    [offlineMode, quiz, submitQuiz],
+  );
+
+  // Focus, fullscreen and clipboard monitoring for the running attempt
+  useEffect(() => {
+    if (!attemptId || !quiz) return;
+
+    let blurTimer: ReturnType<typeof setTimeout> | null = null;
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'hidden') return;
+      if (blurTimer) clearTimeout(blurTimer);
+      recordViolation('tab_hidden');
+    };
+    const handleBlur = () => {
+      if (blurTimer) clearTimeout(blurTimer);
+      blurTimer = setTimeout(() => {
+        if (document.visibilityState !== 'hidden') {
+          recordViolation('window_blur');
         }
-        return prev - 1;
-      });
+      }, BLUR_GRACE_MS);
+    };
+    const handleClipboard = (event: ClipboardEvent) => {
+      event.preventDefault();
+      recordViolation(event.type as 'copy' | 'cut' | 'paste');
+    };
+    const handleContextMenu = (event: MouseEvent) => {
+      event.preventDefault();
+    };
+    const handleFullscreenChange = () => {
+      const active = Boolean(document.fullscreenElement);
+      setIsFullscreen(active);
+      if (!active && quiz.require_fullscreen) {
+        recordViolation('fullscreen_exit');
+      }
+    };
+
+    setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('copy', handleClipboard);
+    document.addEventListener('cut', handleClipboard);
+    document.addEventListener('paste', handleClipboard);
+    document.addEventListener('contextmenu', handleContextMenu);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+
+    return () => {
+      if (blurTimer) clearTimeout(blurTimer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('copy', handleClipboard);
+      document.removeEventListener('cut', handleClipboard);
+      document.removeEventListener('paste', handleClipboard);
+      document.removeEventListener('contextmenu', handleContextMenu);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, [attemptId, quiz, recordViolation]);
+
+  const enterFullscreen = () => {
+    void document.documentElement.requestFullscreen().catch((err) => {
+      console.error('Unable to enter fullscreen:', err);
+    });
+  };
+
+  // Heartbeat for the invigilator's live monitor. The reply carries any
+  // extra time granted or a forced submission.
+  useEffect(() => {
+    if (!attemptId || offlineMode || isLocalAttemptId(attemptId)) return;
+
+    const beat = async () => {
+      const journal = journalRef.current;
+      if (!journal || submittingRef.current) return;
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+      try {
+        const instructions = await sendAttemptHeartbeat(attemptId, {
+          answered: Object.keys(journal.answers).length,
+          current_question_id: currentQuestionIdRef.current,
+        });
+        setExtraMinutes(instructions.extra_minutes);
+        if (instructions.force_submit) {
+          autoSubmitReasonRef.current = 'invigilator';
+          setShowConfirmation(false);
+          void submitQuiz();
+        }
+      } catch (err) {
+        console.warn('Heartbeat failed, will retry:', err);
+      }
+    };
+
+    void beat();
+    const interval = setInterval(() => {
+      void beat();
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [attemptId, offlineMode, submitQuiz]);
+
+  // Timer effect: derived from the attempt start so a reload cannot reset it
+  useEffect(() => {
+    if (!attemptId || !attemptStartTime || !quiz) return;
+
+    const timer = setInterval(() => {
+      const remaining = remainingAttemptSeconds(
+        attemptStartTime,
+        quiz.duration_minutes + extraMinutes,
+      );
+      setTimeRemaining(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        // Auto-submit quiz when time expires
+        submitQuiz();
+      }
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [timeRemaining, attemptId, submitQuiz]);
+  }, [attemptId, attemptStartTime, extraMinutes, quiz, submitQuiz]);
+
+  // Background sync: retry periodically and as soon as the browser is back online
+  useEffect(() => {
+    if (!attemptId || offlineMode) return;
+
+    const interval = setInterval(() => {
+      void flushAnswers();
+    }, ANSWER_FLUSH_INTERVAL_MS);
+    const handleOnline = () => {
+      void flushAnswers();
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+      if (flushTimeoutRef.current) {
+        clearTimeout(flushTimeoutRef.current);
+      }
+    };
+  }, [attemptId, flushAnswers, offlineMode]);
 
   const formatTime = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -189,7 +614,23 @@ function TakeQuizPageInner() {
   };
 
   const handleAnswerChange = (answer: QuizAnswer) => {
-    setAnswers(new Map(answers.set(answer.questionId, answer)));
+    setAnswers((previous) => new Map(previous).set(answer.questionId, answer));
+
+    if (journalRef.current) {
+      journalRef.current = recordJournalAnswer(journalRef.current, answer);
+      setSyncState('pending');
+      void saveAttemptJournal(journalRef.current).catch((err) => {
+        console.error('Unable to journal answer:', err);
+      });
+    }
+
+    if (flushTimeoutRef.current) {
+      clearTimeout(flushTimeoutRef.current);
+    }
+    if (offlineMode) return;
+    flushTimeoutRef.current = setTimeout(() => {
+      void flushAnswers();
+    }, ANSWER_FLUSH_DELAY_MS);
   };
 
   const handleNext = () => {
@@ -217,7 +658,58 @@ function TakeQuizPageInner() {
     );
   }
 
-  if (!student) {
+  if (needsOfflineSignIn) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <form
+          className="bg-white rounded-lg shadow p-6 w-full max-w-sm"
+          onSubmit={(event) => {
+            event.preventDefault();
+            setOfflineCredentials(
+              admissionNoInput.trim() && offlinePinInput
+                ? { admissionNo: admissionNoInput.trim(), pin: offlinePinInput }
+                : null,
+            );
+            setOfflinePinInput('');
+          }}
+        >
+          <h2 className="text-lg font-semibold mb-2">You are offline</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Enter your admission number and the offline PIN you chose when this quiz was saved
+            for you.
+          </p>
+          <input
+            type="text"
+            value={admissionNoInput}
+            onChange={(event) => setAdmissionNoInput(event.target.value)}
+            className="w-full border rounded-lg px-3 py-2 mb-2"
+            placeholder="Admission number"
+            autoFocus
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={offlinePinInput}
+            onChange={(event) => setOfflinePinInput(event.target.value)}
+            className="w-full border rounded-lg px-3 py-2 mb-2"
+            placeholder="Offline PIN"
+          />
+          {offlineSignInError ? (
+            <p className="text-sm text-red-600 mb-2">{offlineSignInError}</p>
+          ) : null}
+          <button
+            type="submit"
+            className="w-full bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700"
+          >
+            Continue
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (!examStudent) {
     return null;
   }
 
@@ -247,6 +739,14 @@ function TakeQuizPageInner() {
   const unansweredCount = questions.length - answeredCount;
   const progressPercent = Math.round((answeredCount / questions.length) * 100);
   const questionTypeLabel = currentQuestion.question_type.replace('_', ' ');
+  // Browsers without the Fullscreen API (e.g. iPhone Safari) cannot honour
+  // the requirement, so the gate is skipped there rather than locking out.
+  const fullscreenBlocked =
+    Boolean(quiz.require_fullscreen) &&
+    typeof document !== 'undefined' &&
+    document.fullscreenEnabled &&
+    !isFullscreen;
+  const violationLimit = quiz.violation_limit ?? 0;
 
   return (
     <div className="cbt-take">
@@ -331,6 +831,12 @@ function TakeQuizPageInner() {
           text-transform: uppercase;
         }
 
+        .cbt-pill--offline {
+          background: rgba(228, 87, 46, 0.16);
+          border-color: rgba(228, 87, 46, 0.3);
+          color: #8f3a20;
+        }
+
         .cbt-header__right {
           background: rgba(255, 255, 255, 0.82);
           border-radius: 20px;
@@ -354,6 +860,32 @@ function TakeQuizPageInner() {
           color: var(--cbt-accent);
         }
 
+        .cbt-sync {
+          font-size: 12px;
+          font-weight: 600;
+          color: #1f756d;
+        }
+
+        .cbt-sync--saving {
+          color: var(--cbt-muted);
+        }
+
+        .cbt-sync--pending {
+          color: #8f3a20;
+        }
+
+        .cbt-integrity-note {
+          border-color: rgba(228, 87, 46, 0.4);
+          color: #8f3a20;
+          font-weight: 500;
+        }
+
+        .cbt-resume-note {
+          border-color: rgba(42, 157, 143, 0.4);
+          color: #1a6d64;
+          font-weight: 500;
+        }
+
         .cbt-progress__bar {
           height: 8px;
           border-radius: 999px;
@@ -685,6 +1217,7 @@ function TakeQuizPageInner() {
             <h1>{quiz.title}</h1>
             <div className="cbt-subline">
               <span className="cbt-pill">{quiz.subject_name || 'General'}</span>
+              {offlineMode && <span className="cbt-pill cbt-pill--offline">Offline lab mode</span>}
               <span>
                 Question {currentQuestionIndex + 1} of {questions.length}
               </span>
@@ -695,6 +1228,15 @@ function TakeQuizPageInner() {
               <span>Time left</span>
               <span className="cbt-timer__value">{formatTime(timeRemaining)}</span>
             </div>
+            <div className={`cbt-sync cbt-sync--${syncState}`}>
+              {offlineMode
+                ? 'Offline: answers are saved on this device'
+                : syncState === 'synced'
+                  ? 'All answers saved'
+                  : syncState === 'saving'
+                    ? 'Saving answers…'
+                    : 'Answers saved on this device, waiting to sync'}
+            </div>
             <div>
               <div className="cbt-progress__bar">
                 <span style={{ width: `${progressPercent}%` }} />
@@ -707,23 +1249,39 @@ function TakeQuizPageInner() {
           </div>
         </header>
 
+        {violationCount > 0 && (
+          <div className="cbt-card cbt-integrity-note" style={{ marginTop: '18px' }} role="alert">
+            {lastViolation ? `${INTEGRITY_VIOLATION_LABELS[lastViolation]} was recorded. ` : ''}
+            {violationLimit > 0
+              ? `${violationCount} of ${violationLimit} allowed; at ${violationLimit} your exam is submitted automatically.`
+              : `${violationCount} event${violationCount === 1 ? '' : 's'} recorded for your invigilator.`}
+          </div>
+        )}
+
+        {resumed && (
+          <div className="cbt-card cbt-resume-note" style={{ marginTop: '18px' }}>
+            Your previous attempt was resumed. Saved answers have been restored and the
+            timer continues from when you first started.
+          </div>
+        )}
+
         <section className="cbt-card cbt-fade cbt-delay-1" style={{ marginTop: '18px' }}>
           <div className="cbt-student-grid">
             <div className="cbt-info-item">
               <span>Admission No</span>
-              <strong>{student.admission_no}</strong>
+              <strong>{examStudent.admission_no}</strong>
             </div>
             <div className="cbt-info-item">
               <span>Student</span>
-              <strong>{student.first_name}</strong>
+              <strong>{examStudent.first_name}</strong>
             </div>
             <div className="cbt-info-item">
               <span>Class</span>
-              <strong>{student.school_class?.name || '-'}</strong>
+              <strong>{examStudent.school_class?.name || '-'}</strong>
             </div>
             <div className="cbt-info-item">
               <span>Arm</span>
-              <strong>{student.class_arm?.name || '-'}</strong>
+              <strong>{examStudent.class_arm?.name || '-'}</strong>
             </div>
           </div>
         </section>
@@ -749,7 +1307,7 @@ function TakeQuizPageInner() {
               // question image.
               // eslint-disable-next-line @next/next/no-img-element
               <img
-                src={currentQuestion.image_url}
+                src={offlineImages[currentQuestion.image_url] ?? currentQuestion.image_url}
                 alt="Question"
                 className="cbt-card"
                 style={{ marginTop: '16px' }}
@@ -925,6 +1483,22 @@ function TakeQuizPageInner() {
         </div>
       </div>
 
+      {fullscreenBlocked && (
+        <div className="cbt-modal">
+          <div className="cbt-modal__card">
+            <h2 className="cbt-question-title">Fullscreen required</h2>
+            <p style={{ color: '#525760', marginBottom: '18px' }}>
+              This exam must be taken in fullscreen. Leaving fullscreen, switching tabs or
+              copying and pasting is recorded for your invigilator
+              {violationLimit > 0 ? ` and after ${violationLimit} events your exam is submitted` : ''}.
+            </p>
+            <button onClick={enterFullscreen} className="cbt-btn cbt-btn--primary" style={{ width: '100%' }}>
+              Enter fullscreen
+            </button>
+          </div>
+        </div>
+      )}
+
       {showConfirmation && (
         <div className="cbt-modal">
           <div className="cbt-modal__card">
@@ -936,6 +1510,12 @@ function TakeQuizPageInner() {
             <p style={{ color: '#525760', marginBottom: '18px' }}>
               Once submitted, you cannot change your answers.
             </p>
+            {offlineMode && (
+              <p style={{ color: '#8f3a20', marginBottom: '18px' }}>
+                You are offline. Your submission will be kept on this computer and sent
+                automatically when the connection returns.
+              </p>
+            )}
 
             <div style={{ display: 'flex', gap: '12px' }}>
               <button
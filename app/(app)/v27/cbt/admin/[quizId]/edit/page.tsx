@@ -27,6 +27,8 @@ interface Quiz {
   allow_review: boolean;
   allow_multiple_attempts: boolean;
   max_attempts: number;
+  require_fullscreen?: boolean;
+  violation_limit?: number | null;
 }
 
 interface Subject {
@@ -306,6 +308,8 @@ export default function EditQuizPage() {
         allow_review: quizForm.allow_review,
         allow_multiple_attempts: quizForm.allow_multiple_attempts,
         max_attempts: quizForm.allow_multiple_attempts ? quizForm.max_attempts : 1,
+        require_fullscreen: Boolean(quizForm.require_fullscreen),
+        violation_limit: quizForm.violation_limit ?? 0,
       };
 
       const response = await apiFetch<{ data: Quiz }>(`/api/v1/cbt/quizzes/${quizId}`, {
@@ -724,6 +728,47 @@ export default function EditQuizPage() {
                   )}
                 </div>
 
+                <div className="heading-layout1 mg-t-20">
+                  <div className="item-title">
+                    <h3>Exam Integrity</h3>
+                  </div>
+                </div>
+
+                <div className="row gutters-20">
+                  <div className="col-md-6 col-12 form-group">
+                    <div className="form-check">
+                      <input
+                        id="require_fullscreen"
+                        type="checkbox"
+                        checked={Boolean(quizForm.require_fullscreen)}
+                        onChange={(e) =>
+                          setQuizForm({ ...quizForm, require_fullscreen: e.target.checked })
+                        }
+                        className="form-check-input"
+                      />
+                      <label className="form-check-label" htmlFor="require_fullscreen">
+                        Require fullscreen while taking the quiz
+                      </label>
+                    </div>
+                  </div>
+                  <div className="col-md-6 col-12 form-group">
+                    <label>Auto-submit After Violations</label>
+                    <input
+                      type="number"
+                      value={quizForm.violation_limit ?? 0}
+                      onChange={(e) =>
+                        setQuizForm({ ...quizForm, violation_limit: Number(e.target.value) || 0 })
+                      }
+                      min="0"
+                      className="form-control"
+                    />
+                    <small className="form-text text-muted">
+                      Tab switches, leaving fullscreen and copy/paste are always logged. Set 0 to log
+                      without auto-submitting.
+                    </small>
+                  </div>
+                </div>
+
                 {questionMismatch && (
                   <div className="alert alert-warning mg-b-20" role="alert">
                     Total questions is {quizForm.total_questions}, but you have {questionCount}{' '}
@@ -0,0 +1,363 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiFetch } from '@/lib/apiClient';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  ITEM_FLAG_LABELS,
+  analyzeItems,
+  describeDifficulty,
+  fetchItemResponses,
+  type ItemAnalysisReport,
+  type ItemAnalysisRow,
+} from '@/lib/cbtItemAnalysis';
+import { exportItemAnalysis } from '@/lib/cbtItemAnalysisExport';
+
+interface Quiz {
+  id: string;
+  title: string;
+  status: 'draft' | 'published' | 'closed';
+}
+
+// Below this many attempts the upper and lower groups are too small for the
+// indices to mean much, so the page says so rather than hiding them.
+const MIN_RELIABLE_ATTEMPTS = 20;
+
+const formatRatio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const discriminationClass = (value: number | null) => {
+  if (value === null) return 'text-muted';
+  if (value < 0) return 'text-danger font-weight-bold';
+  if (value < 0.2) return 'text-warning';
+  return 'text-success';
+};
+
+const describeReliability = (kr20: number | null) => {
+  if (kr20 === null) return 'Not enough data';
+  if (kr20 >= 0.8) return 'Good';
+  if (kr20 >= 0.7) return 'Acceptable';
+  if (kr20 >= 0.5) return 'Weak';
+  return 'Poor';
+};
+
+const formatSeconds = (value: number | null) => {
+  if (value === null) return '—';
+  const seconds = Math.round(value);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export default function QuizItemAnalysisPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const quizId = params.quizId as string;
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [report, setReport] = useState<ItemAnalysisReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) return;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [quizRes, responses] = await Promise.all([
+          apiFetch<{ data: Quiz }>(`/api/v1/cbt/quizzes/${quizId}`),
+          fetchItemResponses(quizId),
+        ]);
+
+        setQuiz(quizRes.data);
+        setReport(analyzeItems(responses));
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load item analysis'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [authLoading, user, quizId]);
+
+  const visibleItems = useMemo<ItemAnalysisRow[]>(() => {
+    if (!report) return [];
+    return flaggedOnly ? report.items.filter((item) => item.flags.length > 0) : report.items;
+  }, [report, flaggedOnly]);
+
+  const flaggedCount = report ? report.items.filter((item) => item.flags.length > 0).length : 0;
+  const hasTimes = report ? report.items.some((item) => item.averageSeconds !== null) : false;
+
+  const handleExport = () => {
+    if (!report) return;
+    try {
+      const slug = (quiz?.title || 'quiz').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      exportItemAnalysis(report, `${slug}-item-analysis.csv`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to export item analysis'));
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
+        <div className="spinner-border text-dodger-blue" role="status">
+          <span className="sr-only">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
+        <div className="alert alert-info">Please log in to view item analysis.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-ash min-vh-100">
+      <div className="breadcrumbs-area quiz-fade-up">
+        <h3>Item Analysis</h3>
+        <ul>
+          <li>
+            <Link href="/v27/cbt/admin">Quiz Management</Link>
+          </li>
+          <li>
+            <Link href={`/v27/cbt/admin/${quizId}/results`}>Results</Link>
+          </li>
+          <li>Item Analysis</li>
+        </ul>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger mg-b-20" role="alert">
+          {error}
+        </div>
+      )}
+
+      {report && report.attempts > 0 && (
+        <div className="row gutters-20 quiz-fade-up quiz-fade-up-delay-1">
+          <div className="col-xl-3 col-sm-6 col-12">
+            <div className="dashboard-summery-one mg-b-20">
+              <div className="item-content">
+                <div className="item-title">Graded Attempts</div>
+                <div className="item-number">{report.attempts}</div>
+              </div>
+            </div>
+          </div>
+          <div className="col-xl-3 col-sm-6 col-12">
+            <div className="dashboard-summery-one mg-b-20">
+              <div className="item-content">
+                <div className="item-title">KR-20 Reliability</div>
+                <div className="item-number">{formatRatio(report.kr20)}</div>
+                <div className="text-muted small">{describeReliability(report.kr20)}</div>
+              </div>
+            </div>
+          </div>
+          <div className="col-xl-3 col-sm-6 col-12">
+            <div className="dashboard-summery-one mg-b-20">
+              <div className="item-content">
+                <div className="item-title">Mean Items Correct</div>
+                <div className="item-number">
+                  {report.meanScore.toFixed(1)}/{report.items.length}
+                </div>
+              </div>
+            </div>
+          </div>
+          <div className="col-xl-3 col-sm-6 col-12">
+            <div className="dashboard-summery-one mg-b-20">
+              <div className="item-content">
+                <div className="item-title">Flagged for Review</div>
+                <div className="item-number">{flaggedCount}</div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="card height-auto quiz-fade-up quiz-fade-up-delay-2">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>{quiz?.title || 'Quiz'} Item Analysis</h3>
+            </div>
+            <div className="d-flex flex-wrap">
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={!report || report.attempts === 0}
+                className="btn-fill-lmd radius-4 text-light btn-gradient-yellow mr-2"
+              >
+                Export CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push(`/v27/cbt/admin/${quizId}/results`)}
+                className="btn-fill-lmd radius-4 text-light bg-dodger-blue"
+              >
+                Back to Results
+              </button>
+            </div>
+          </div>
+
+          {!report || report.attempts === 0 ? (
+            <div className="alert alert-info" role="alert">
+              No graded attempts yet. Item analysis appears once students have completed this quiz.
+            </div>
+          ) : (
+            <>
+              {report.attempts < MIN_RELIABLE_ATTEMPTS && (
+                <div className="alert alert-warning" role="alert">
+                  Only {report.attempts} graded attempt{report.attempts === 1 ? '' : 's'}. Treat the
+                  discrimination and reliability figures as rough until at least{' '}
+                  {MIN_RELIABLE_ATTEMPTS} students have sat the quiz.
+                </div>
+              )}
+              <p className="text-muted small">
+                Difficulty (p) is the share answering correctly. Discrimination (D) compares the top
+                and bottom 27% of students ({report.groupSize} each); below 0.20 is weak and negative
+                means weaker students did better. A dead distractor is a wrong option nobody chose.
+              </p>
+
+              <div className="form-check mb-3">
+                <input
+                  id="flagged-only"
+                  type="checkbox"
+                  className="form-check-input"
+                  checked={flaggedOnly}
+                  onChange={(event) => setFlaggedOnly(event.target.checked)}
+                />
+                <label htmlFor="flagged-only" className="form-check-label">
+                  Show flagged questions only
+                </label>
+              </div>
+
+              <div className="table-responsive">
+                <table className="table display data-table">
+                  <thead>
+                    <tr>
+                      <th>#</th>
+                      <th>Question</th>
+                      <th>Difficulty (p)</th>
+                      <th>Discrimination (D)</th>
+                      <th>Omitted</th>
+                      {hasTimes && <th>Avg. Time</th>}
+                      <th>Review</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleItems.map((item) => (
+                      <React.Fragment key={item.questionId}>
+                        <tr className={item.flags.length ? 'table-warning' : undefined}>
+                          <td>{item.number}</td>
+                          <td style={{ maxWidth: 360 }}>
+                            <div className="text-dark">{item.questionText}</div>
+                            <div className="text-muted small">{item.questionType}</div>
+                          </td>
+                          <td>
+                            {formatRatio(item.pValue)}
+                            <div className="text-muted small">{describeDifficulty(item.pValue)}</div>
+                          </td>
+                          <td className={discriminationClass(item.discrimination)}>
+                            {formatRatio(item.discrimination)}
+                          </td>
+                          <td>{item.omitted}</td>
+                          {hasTimes && <td>{formatSeconds(item.averageSeconds)}</td>}
+                          <td>
+                            {item.flags.length === 0 ? (
+                              <span className="text-muted">—</span>
+                            ) : (
+                              item.flags.map((flag) => (
+                                <span key={flag} className="badge badge-pill badge-danger mr-1">
+                                  {ITEM_FLAG_LABELS[flag]}
+                                </span>
+                              ))
+                            )}
+                          </td>
+                          <td>
+                            {item.distractors.length > 0 && (
+                              <button
+                                type="button"
+                                className="btn btn-sm btn-outline-primary"
+                                onClick={() =>
+                                  setExpandedId(expandedId === item.questionId ? null : item.questionId)
+                                }
+                              >
+                                {expandedId === item.questionId ? 'Hide Options' : 'Options'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {expandedId === item.questionId && (
+                          <tr>
+                            <td></td>
+                            <td colSpan={hasTimes ? 7 : 6}>
+                              <table className="table table-sm mb-0">
+                                <thead>
+                                  <tr>
+                                    <th>Option</th>
+                                    <th>Chosen</th>
+                                    <th>Upper {report.groupSize}</th>
+                                    <th>Lower {report.groupSize}</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {item.distractors.map((row) => (
+                                    <tr
+                                      key={row.optionId}
+                                      className={
+                                        row.isCorrect
+                                          ? 'table-success'
+                                          : row.chosenCount === 0
+                                            ? 'table-danger'
+                                            : undefined
+                                      }
+                                    >
+                                      <td>
+                                        <strong>{row.label}.</strong> {row.text}
+                                        {row.isCorrect && (
+                                          <span className="badge badge-success ml-2">Key</span>
+                                        )}
+                                      </td>
+                                      <td>
+                                        {(row.chosen * 100).toFixed(1)}% ({row.chosenCount})
+                                      </td>
+                                      <td>{row.upperCount}</td>
+                                      <td>{row.lowerCount}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                    {visibleItems.length === 0 && (
+                      <tr>
+                        <td colSpan={hasTimes ? 8 : 7} className="text-center text-muted">
+                          No questions are flagged for review.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,479 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiFetch } from '@/lib/apiClient';
+import { getErrorMessage } from '@/lib/errors';
+import { isAdminUser } from '@/lib/roleChecks';
+import { PERMISSIONS } from '@/lib/permissionKeys';
+import {
+  acceptAlternativeAnswer,
+  fetchMarkingQueue,
+  groupShortAnswers,
+  markShortAnswers,
+  reimportLinkedScores,
+  type MarkingOutcome,
+  type MarkingQueue,
+  type ShortAnswerGroup,
+} from '@/lib/cbtMarking';
+
+interface Quiz {
+  id: string;
+  title: string;
+  status: 'draft' | 'published' | 'closed';
+}
+
+interface GroupDraft {
+  marks: string;
+  note: string;
+}
+
+export default function QuizMarkingPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user, hasPermission, loading: authLoading } = useAuth();
+  const quizId = params.quizId as string;
+  const canGrade = isAdminUser(user) || hasPermission(PERMISSIONS.CBT_ADMIN_RESULTS_GRADE);
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [queue, setQueue] = useState<MarkingQueue | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [questionId, setQuestionId] = useState<string>('');
+  const [unreviewedOnly, setUnreviewedOnly] = useState(false);
+  const [syncLinks, setSyncLinks] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, GroupDraft>>({});
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    const data = await fetchMarkingQueue(quizId);
+    setQueue(data);
+    setQuestionId((current) =>
+      current && data.questions.some((question) => question.id === current)
+        ? current
+        : data.questions[0]?.id ?? '',
+    );
+    return data;
+  }, [quizId]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) return;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [quizRes] = await Promise.all([
+          apiFetch<{ data: Quiz }>(`/api/v1/cbt/quizzes/${quizId}`),
+          loadQueue(),
+        ]);
+        setQuiz(quizRes.data);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load the marking queue'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [authLoading, user, quizId, loadQueue]);
+
+  const question = useMemo(
+    () => queue?.questions.find((entry) => entry.id === questionId) ?? null,
+    [queue, questionId],
+  );
+
+  const unreviewedByQuestion = useMemo(() => {
+    const counts: Record<string, number> = {};
+    queue?.responses.forEach((response) => {
+      if (response.auto_marked) {
+        counts[response.question_id] = (counts[response.question_id] ?? 0) + 1;
+      }
+    });
+    return counts;
+  }, [queue]);
+
+  const groups = useMemo<ShortAnswerGroup[]>(() => {
+    if (!queue || !question) return [];
+    const all = groupShortAnswers(
+      queue.responses.filter((response) => response.question_id === question.id),
+      question.short_answer_answers,
+    );
+    return unreviewedOnly ? all.filter((group) => group.unreviewed > 0) : all;
+  }, [queue, question, unreviewedOnly]);
+
+  const draftFor = (group: ShortAnswerGroup): GroupDraft =>
+    drafts[group.key] ?? {
+      marks: group.commonMarks !== null ? String(group.commonMarks) : '',
+      note: '',
+    };
+
+  const updateDraft = (key: string, patch: Partial<GroupDraft>, group: ShortAnswerGroup) => {
+    setDrafts((prev) => ({ ...prev, [key]: { ...draftFor(group), ...prev[key], ...patch } }));
+  };
+
+  // After marks change, refresh the queue and push the new totals through
+  // the assessment links so the gradebook does not keep the old score.
+  const finishMarking = async (outcome: MarkingOutcome, action: string) => {
+    const data = await loadQueue();
+    let linkMessage = '';
+    if (syncLinks && outcome.recomputed_attempts > 0 && data.links.length > 0) {
+      const synced = await reimportLinkedScores(data.links);
+      linkMessage = synced.imported
+        ? ` Re-imported scores into ${synced.imported} linked assessment component${synced.imported === 1 ? '' : 's'}.`
+        : '';
+      if (synced.failed.length) {
+        setError(`Scores could not be re-imported into: ${synced.failed.join(', ')}.`);
+      }
+      if (data.links.some((link) => link.is_active && !link.auto_sync)) {
+        linkMessage += ' Approve the pending scores on the CBT link page.';
+      }
+    }
+    setSuccess(
+      `${action} ${outcome.recomputed_attempts} attempt total${outcome.recomputed_attempts === 1 ? '' : 's'} recomputed.${linkMessage}`,
+    );
+  };
+
+  const handleAward = async (group: ShortAnswerGroup, answerIds?: string[]) => {
+    if (!question) return;
+    const draft = draftFor(group);
+    const marks = Number(draft.marks);
+    if (draft.marks.trim() === '' || Number.isNaN(marks) || marks < 0 || marks > question.marks) {
+      setError(`Enter a mark between 0 and ${question.marks}.`);
+      return;
+    }
+    const ids = answerIds ?? group.responses.map((response) => response.answer_id);
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      const outcome = await markShortAnswers(quizId, {
+        answer_ids: ids,
+        marks_obtained: marks,
+        note: draft.note.trim() || null,
+      });
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[group.key];
+        return next;
+      });
+      await finishMarking(
+        outcome,
+        `Awarded ${marks}/${question.marks} to ${ids.length} answer${ids.length === 1 ? '' : 's'}.`,
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save marks'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAccept = async (group: ShortAnswerGroup) => {
+    if (!question) return;
+    const answerText = group.variants[0]?.trim();
+    if (!answerText) return;
+    if (
+      !window.confirm(
+        `Accept "${answerText}" as a correct answer? Every attempt that gave it, including submitted ones, will get full marks.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      const outcome = await acceptAlternativeAnswer(quizId, question.id, answerText);
+      await finishMarking(outcome, `Accepted "${answerText}" and regraded ${outcome.updated} answer(s).`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to accept the answer'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
+        <div className="spinner-border text-dodger-blue" role="status">
+          <span className="sr-only">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
+        <div className="alert alert-info">Please log in to mark answers.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-ash min-vh-100">
+      <div className="breadcrumbs-area quiz-fade-up">
+        <h3>Marking Queue</h3>
+        <ul>
+          <li>
+            <Link href="/v27/cbt/admin">Quiz Management</Link>
+          </li>
+          <li>
+            <Link href={`/v27/cbt/admin/${quizId}/results`}>Results</Link>
+          </li>
+          <li>Marking</li>
+        </ul>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger mg-b-20" role="alert">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="alert alert-success mg-b-20" role="alert">
+          {success}
+        </div>
+      )}
+      {!canGrade && (
+        <div className="alert alert-warning mg-b-20" role="alert">
+          You can view the queue but do not have permission to change marks.
+        </div>
+      )}
+
+      <div className="card height-auto quiz-fade-up quiz-fade-up-delay-1">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>{quiz?.title || 'Quiz'} Short Answers</h3>
+            </div>
+            <button
+              type="button"
+              onClick={() => router.push(`/v27/cbt/admin/${quizId}/results`)}
+              className="btn-fill-lmd radius-4 text-light bg-dodger-blue"
+            >
+              Back to Results
+            </button>
+          </div>
+
+          {!queue || queue.questions.length === 0 ? (
+            <div className="alert alert-info" role="alert">
+              This quiz has no short-answer questions with submitted answers.
+            </div>
+          ) : (
+            <>
+              <div className="row gutters-20 align-items-end">
+                <div className="col-lg-6 col-12 form-group">
+                  <label>Question</label>
+                  <select
+                    className="form-control"
+                    value={questionId}
+                    onChange={(event) => {
+                      setQuestionId(event.target.value);
+                      setExpandedKey(null);
+                    }}
+                  >
+                    {queue.questions.map((entry) => (
+                      <option key={entry.id} value={entry.id}>
+                        {entry.order}. {entry.question_text.slice(0, 80)}
+                        {unreviewedByQuestion[entry.id] ? ` (${unreviewedByQuestion[entry.id]} to review)` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-lg-6 col-12 form-group">
+                  <div className="form-check">
+                    <input
+                      id="unreviewed-only"
+                      type="checkbox"
+                      className="form-check-input"
+                      checked={unreviewedOnly}
+                      onChange={(event) => setUnreviewedOnly(event.target.checked)}
+                    />
+                    <label htmlFor="unreviewed-only" className="form-check-label">
+                      Only groups with unreviewed answers
+                    </label>
+                  </div>
+                  {queue.links.length > 0 && (
+                    <div className="form-check">
+                      <input
+                        id="sync-links"
+                        type="checkbox"
+                        className="form-check-input"
+                        checked={syncLinks}
+                        onChange={(event) => setSyncLinks(event.target.checked)}
+                      />
+                      <label htmlFor="sync-links" className="form-check-label">
+                        Re-import changed scores into {queue.links.length} linked assessment component
+                        {queue.links.length === 1 ? '' : 's'}
+                      </label>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {question && (
+                <div className="border rounded p-3 bg-light mb-3">
+                  <div className="font-weight-bold text-dark">{question.question_text}</div>
+                  <div className="text-muted small">
+                    {question.marks} mark(s) • matching: {question.short_answer_match || 'exact'} • accepted:{' '}
+                    {question.short_answer_answers.length
+                      ? question.short_answer_answers.join(', ')
+                      : 'none'}
+                  </div>
+                </div>
+              )}
+
+              {groups.length === 0 ? (
+                <div className="alert alert-info">Nothing left to review for this question.</div>
+              ) : (
+                groups.map((group) => {
+                  const draft = draftFor(group);
+                  const expanded = expandedKey === group.key;
+                  return (
+                    <div key={group.key} className="border rounded p-3 mb-3">
+                      <div className="d-flex flex-wrap justify-content-between align-items-start">
+                        <div className="mb-2">
+                          {group.variants.map((variant, index) => (
+                            <span
+                              key={`${variant}-${index}`}
+                              className={`badge ${index === 0 ? 'badge-primary' : 'badge-light'} mr-1 mb-1`}
+                              style={{ fontSize: '0.9rem' }}
+                            >
+                              {variant || '(blank)'}
+                            </span>
+                          ))}
+                          <div className="text-muted small">
+                            {group.responses.length} answer{group.responses.length === 1 ? '' : 's'} •{' '}
+                            {group.commonMarks !== null
+                              ? `currently ${group.commonMarks}/${question?.marks ?? 0}`
+                              : 'mixed marks'}
+                            {group.unreviewed > 0 ? ` • ${group.unreviewed} unreviewed` : ' • reviewed'}
+                            {group.accepted ? ' • matches an accepted answer' : ''}
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-outline-secondary mb-2"
+                          onClick={() => setExpandedKey(expanded ? null : group.key)}
+                        >
+                          {expanded ? 'Hide Students' : 'Show Students'}
+                        </button>
+                      </div>
+
+                      {canGrade && (
+                        <div className="row gutters-8 align-items-end">
+                          <div className="col-md-2 col-6 form-group mb-2">
+                            <label className="small mb-1">Marks</label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={question?.marks ?? 0}
+                              step={0.5}
+                              className="form-control form-control-sm"
+                              value={draft.marks}
+                              onChange={(event) => updateDraft(group.key, { marks: event.target.value }, group)}
+                            />
+                          </div>
+                          <div className="col-md-5 col-12 form-group mb-2">
+                            <label className="small mb-1">Rubric note</label>
+                            <input
+                              type="text"
+                              className="form-control form-control-sm"
+                              value={draft.note}
+                              placeholder="e.g. Correct idea, units missing"
+                              onChange={(event) => updateDraft(group.key, { note: event.target.value }, group)}
+                            />
+                          </div>
+                          <div className="col-md-5 col-12 form-group mb-2">
+                            <button
+                              type="button"
+                              className="btn btn-sm btn-primary mr-2"
+                              disabled={saving}
+                              onClick={() => handleAward(group)}
+                            >
+                              Award to All {group.responses.length}
+                            </button>
+                            {!group.accepted && group.key && (
+                              <button
+                                type="button"
+                                className="btn btn-sm btn-outline-success"
+                                disabled={saving}
+                                onClick={() => handleAccept(group)}
+                              >
+                                Accept as Correct for Everyone
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {expanded && (
+                        <div className="table-responsive mt-2">
+                          <table className="table table-sm mb-0">
+                            <thead>
+                              <tr>
+                                <th>Student</th>
+                                <th>Answer</th>
+                                <th>Marks</th>
+                                <th>Note</th>
+                                <th></th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {group.responses.map((response) => (
+                                <tr key={response.answer_id}>
+                                  <td>{response.student_name || response.student_id}</td>
+                                  <td>{response.answer_text || '—'}</td>
+                                  <td>
+                                    {response.marks_obtained ?? 0}/{question?.marks ?? 0}
+                                    {response.auto_marked && (
+                                      <span className="badge badge-secondary ml-1">auto</span>
+                                    )}
+                                  </td>
+                                  <td className="small">
+                                    {response.marking_note || '—'}
+                                    {response.marked_by_name && (
+                                      <div className="text-muted">by {response.marked_by_name}</div>
+                                    )}
+                                  </td>
+                                  <td className="text-nowrap">
+                                    {canGrade && (
+                                      <button
+                                        type="button"
+                                        className="btn btn-sm btn-outline-primary mr-1"
+                                        disabled={saving}
+                                        onClick={() => handleAward(group, [response.answer_id])}
+                                      >
+                                        Award Only This
+                                      </button>
+                                    )}
+                                    <Link
+                                      href={`/v27/cbt/admin/${quizId}/results/${response.attempt_id}`}
+                                      className="btn btn-sm btn-link"
+                                    >
+                                      Attempt
+                                    </Link>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,487 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiFetch } from '@/lib/apiClient';
+import { getErrorMessage } from '@/lib/errors';
+import { isAdminUser } from '@/lib/roleChecks';
+import { PERMISSIONS } from '@/lib/permissionKeys';
+import { CBT_MONITOR_MOCK_ENABLED } from '@/lib/config';
+import {
+  MONITOR_STATE_LABELS,
+  apiInvigilationSource,
+  monitorState,
+  secondsLeft,
+  type MonitorRow,
+  type MonitorState,
+} from '@/lib/cbtInvigilation';
+import { createMockInvigilationSource } from '@/lib/cbtInvigilationMock';
+
+interface Quiz {
+  id: string;
+  title: string;
+  status: 'draft' | 'published' | 'closed';
+  duration_minutes: number;
+}
+
+const MONITOR_POLL_MS = 5000;
+const EXTEND_CHOICES = [5, 10, 15, 30];
+
+const stateBadgeClass: Record<MonitorState, string> = {
+  not_started: 'badge badge-pill badge-secondary',
+  in_progress: 'badge badge-pill badge-primary',
+  submitted: 'badge badge-pill badge-success',
+  disconnected: 'badge badge-pill badge-danger',
+};
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${minutes}m ${String(secs).padStart(2, '0')}s`;
+};
+
+const formatAgo = (iso: string | null, now: number) => {
+  if (!iso) return '—';
+  const seconds = Math.max(0, Math.round((now - new Date(iso).getTime()) / 1000));
+  return seconds < 60 ? `${seconds}s ago` : `${Math.floor(seconds / 60)}m ago`;
+};
+
+export default function QuizMonitorPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user, hasPermission, loading: authLoading } = useAuth();
+  const quizId = params.quizId as string;
+  const canAct = isAdminUser(user) || hasPermission(PERMISSIONS.CBT_ADMIN_INVIGILATE);
+
+  const source = useMemo(
+    () => (CBT_MONITOR_MOCK_ENABLED ? createMockInvigilationSource() : apiInvigilationSource),
+    [],
+  );
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [rows, setRows] = useState<MonitorRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [stateFilter, setStateFilter] = useState<MonitorState | ''>('');
+  const [search, setSearch] = useState('');
+  const [extendMinutes, setExtendMinutes] = useState<Record<string, number>>({});
+  const [busyAttemptId, setBusyAttemptId] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Server clock minus local clock, so "time left" and "last seen" do not
+  // drift on an invigilator laptop with the wrong time.
+  const clockOffsetRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const snapshot = await source.fetchMonitor(quizId);
+    clockOffsetRef.current = new Date(snapshot.server_time).getTime() - Date.now();
+    setRows(snapshot.rows);
+    setLastUpdated(Date.now());
+  }, [quizId, source]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) return;
+
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        if (!CBT_MONITOR_MOCK_ENABLED) {
+          const quizRes = await apiFetch<{ data: Quiz }>(`/api/v1/cbt/quizzes/${quizId}`);
+          setQuiz(quizRes.data);
+        }
+        await refresh();
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load the live monitor'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [authLoading, user, quizId, refresh]);
+
+  // Poll while the tab is visible; catch up straight away when it returns.
+  useEffect(() => {
+    if (!user) return;
+    const poll = setInterval(() => {
+      if (document.visibilityState !== 'visible') return;
+      refresh()
+        .then(() => setError(null))
+        .catch((err) => setError(getErrorMessage(err, 'Lost contact with the monitor; retrying')));
+    }, MONITOR_POLL_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        void refresh().catch(() => undefined);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(poll);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [user, refresh]);
+
+  // Ticks the countdowns between polls.
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  const serverNow = now + clockOffsetRef.current;
+
+  const classified = useMemo(
+    () => rows.map((row) => ({ row, state: monitorState(row, serverNow) })),
+    [rows, serverNow],
+  );
+
+  const counts = useMemo(() => {
+    const totals: Record<MonitorState, number> = {
+      not_started: 0,
+      in_progress: 0,
+      submitted: 0,
+      disconnected: 0,
+    };
+    classified.forEach(({ state }) => {
+      totals[state] += 1;
+    });
+    return totals;
+  }, [classified]);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return classified
+      .filter(({ state }) => !stateFilter || state === stateFilter)
+      .filter(
+        ({ row }) =>
+          !term ||
+          row.student_name.toLowerCase().includes(term) ||
+          (row.admission_no ?? '').toLowerCase().includes(term),
+      )
+      .sort((a, b) => {
+        // Problems first: disconnected, then those running out of time.
+        const order: Record<MonitorState, number> = {
+          disconnected: 0,
+          in_progress: 1,
+          not_started: 2,
+          submitted: 3,
+        };
+        if (order[a.state] !== order[b.state]) return order[a.state] - order[b.state];
+        return (secondsLeft(a.row, serverNow) ?? Infinity) - (secondsLeft(b.row, serverNow) ?? Infinity);
+      });
+  }, [classified, search, stateFilter, serverNow]);
+
+  const runAction = async (
+    row: MonitorRow,
+    action: () => Promise<void>,
+    message: string,
+  ) => {
+    if (!row.attempt_id) return;
+    try {
+      setBusyAttemptId(row.attempt_id);
+      setError(null);
+      setSuccess(null);
+      await action();
+      await refresh();
+      setSuccess(message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'The action could not be completed'));
+    } finally {
+      setBusyAttemptId(null);
+    }
+  };
+
+  const handleExtend = (row: MonitorRow) => {
+    const attemptId = row.attempt_id;
+    if (!attemptId) return;
+    const minutes = extendMinutes[attemptId] ?? EXTEND_CHOICES[0];
+    void runAction(
+      row,
+      () => source.extendTime(attemptId, minutes),
+      `Gave ${row.student_name} ${minutes} more minute${minutes === 1 ? '' : 's'}.`,
+    );
+  };
+
+  const handleForceSubmit = (row: MonitorRow) => {
+    const attemptId = row.attempt_id;
+    if (!attemptId) return;
+    if (!window.confirm(`Submit ${row.student_name}'s attempt now? Their saved answers will be graded.`)) {
+      return;
+    }
+    void runAction(row, () => source.forceSubmit(attemptId), `Submitted ${row.student_name}'s attempt.`);
+  };
+
+  const handleAllowReentry = (row: MonitorRow) => {
+    const attemptId = row.attempt_id;
+    if (!attemptId) return;
+    if (
+      !window.confirm(
+        `Let ${row.student_name} back into this attempt? They continue with their saved answers.`,
+      )
+    ) {
+      return;
+    }
+    void runAction(
+      row,
+      () => source.allowReentry(attemptId),
+      `${row.student_name} can re-enter the quiz.`,
+    );
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
+        <div className="spinner-border text-dodger-blue" role="status">
+          <span className="sr-only">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
+        <div className="alert alert-info">Please log in to monitor this quiz.</div>
+      </div>
+    );
+  }
+
+  const summaryCards: Array<{ state: MonitorState; icon: string; tone: string }> = [
+    { state: 'not_started', icon: 'flaticon-open-book', tone: 'blue' },
+    { state: 'in_progress', icon: 'flaticon-checklist', tone: 'yellow' },
+    { state: 'submitted', icon: 'flaticon-percentage-discount', tone: 'green' },
+    { state: 'disconnected', icon: 'flaticon-turn-off', tone: 'red' },
+  ];
+
+  return (
+    <div className="bg-ash min-vh-100">
+      <div className="breadcrumbs-area quiz-fade-up">
+        <h3>Live Monitor</h3>
+        <ul>
+          <li>
+            <Link href="/v27/cbt/admin">Quiz Management</Link>
+          </li>
+          <li>Live Monitor</li>
+        </ul>
+      </div>
+
+      {CBT_MONITOR_MOCK_ENABLED && (
+        <div className="alert alert-warning mg-b-20" role="alert">
+          Simulated class: NEXT_PUBLIC_CBT_MONITOR_MOCK is on, so these students and actions are not real.
+        </div>
+      )}
+      {error && (
+        <div className="alert alert-danger mg-b-20" role="alert">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="alert alert-success mg-b-20" role="alert">
+          {success}
+        </div>
+      )}
+
+      <div className="row gutters-20 quiz-fade-up quiz-fade-up-delay-1">
+        {summaryCards.map(({ state, icon, tone }) => (
+          <div key={state} className="col-xl-3 col-sm-6 col-12">
+            <button
+              type="button"
+              className="dashboard-summery-one mg-b-20 w-100 border-0 text-left"
+              onClick={() => setStateFilter(stateFilter === state ? '' : state)}
+              style={stateFilter === state ? { boxShadow: '0 0 0 2px #042C54 inset' } : undefined}
+            >
+              <div className="row align-items-center">
+                <div className="col-6">
+                  <div className={`item-icon bg-light-${tone}`}>
+                    <i className={`${icon} text-${tone === 'yellow' ? 'orange' : tone}`}></i>
+                  </div>
+                </div>
+                <div className="col-6">
+                  <div className="item-content">
+                    <div className="item-title">{MONITOR_STATE_LABELS[state]}</div>
+                    <div className="item-number">{counts[state]}</div>
+                  </div>
+                </div>
+              </div>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="card height-auto quiz-fade-up quiz-fade-up-delay-2">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>{quiz?.title || 'Quiz'} — Candidates</h3>
+              <div className="text-muted small">
+                Refreshes every {MONITOR_POLL_MS / 1000}s
+                {lastUpdated ? ` • updated ${formatAgo(new Date(lastUpdated).toISOString(), now)}` : ''}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => router.push(`/v27/cbt/admin/${quizId}/results`)}
+              className="btn-fill-lmd radius-4 text-light bg-dodger-blue"
+            >
+              Results
+            </button>
+          </div>
+
+          <div className="row gutters-8 mb-3">
+            <div className="col-md-6 col-12">
+              <input
+                type="text"
+                className="form-control"
+                placeholder="Search name or admission number"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+              />
+            </div>
+            <div className="col-md-3 col-12">
+              <select
+                className="form-control"
+                value={stateFilter}
+                onChange={(event) => setStateFilter(event.target.value as MonitorState | '')}
+              >
+                <option value="">All states</option>
+                {(Object.keys(MONITOR_STATE_LABELS) as MonitorState[]).map((state) => (
+                  <option key={state} value={state}>
+                    {MONITOR_STATE_LABELS[state]} ({counts[state]})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <div className="alert alert-info" role="alert">
+              No students are enrolled for this quiz.
+            </div>
+          ) : (
+            <div className="table-responsive">
+              <table className="table display data-table text-nowrap">
+                <thead>
+                  <tr>
+                    <th>Student</th>
+                    <th>State</th>
+                    <th>Answered</th>
+                    <th>Time Left</th>
+                    <th>Last Heartbeat</th>
+                    <th>Violations</th>
+                    {canAct && <th>Actions</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map(({ row, state }) => {
+                    const left = secondsLeft(row, serverNow);
+                    const progress = row.total_questions
+                      ? Math.round((row.answered / row.total_questions) * 100)
+                      : 0;
+                    const busy = busyAttemptId !== null && busyAttemptId === row.attempt_id;
+                    return (
+                      <tr key={row.student_id}>
+                        <td>
+                          <div className="font-weight-bold text-dark">{row.student_name}</div>
+                          <div className="text-muted text-sm">{row.admission_no || row.student_id}</div>
+                        </td>
+                        <td>
+                          <span className={stateBadgeClass[state]}>{MONITOR_STATE_LABELS[state]}</span>
+                          {row.reentry_allowed && (
+                            <div className="text-muted small">re-entry allowed</div>
+                          )}
+                        </td>
+                        <td style={{ minWidth: 140 }}>
+                          {row.answered}/{row.total_questions}
+                          <div className="progress" style={{ height: 6 }}>
+                            <div className="progress-bar" style={{ width: `${progress}%` }} />
+                          </div>
+                        </td>
+                        <td className={left !== null && left < 300 ? 'text-danger font-weight-bold' : undefined}>
+                          {left === null ? '—' : formatDuration(left)}
+                          {row.extra_minutes > 0 && (
+                            <div className="text-muted small">+{row.extra_minutes} min granted</div>
+                          )}
+                        </td>
+                        <td>{state === 'not_started' ? '—' : formatAgo(row.last_heartbeat_at, serverNow)}</td>
+                        <td>
+                          {row.violations > 0 ? (
+                            <Link
+                              href={`/v27/cbt/admin/${quizId}/results/${row.attempt_id}`}
+                              className="badge badge-pill badge-warning"
+                            >
+                              {row.violations}
+                            </Link>
+                          ) : (
+                            <span className="text-muted">0</span>
+                          )}
+                        </td>
+                        {canAct && (
+                          <td>
+                            {(state === 'in_progress' || state === 'disconnected') && (
+                              <div className="d-flex align-items-center">
+                                <select
+                                  className="form-control form-control-sm mr-1"
+                                  style={{ width: 80 }}
+                                  aria-label="Extra minutes"
+                                  value={extendMinutes[row.attempt_id ?? ''] ?? EXTEND_CHOICES[0]}
+                                  onChange={(event) =>
+                                    setExtendMinutes((prev) => ({
+                                      ...prev,
+                                      [row.attempt_id ?? '']: Number(event.target.value),
+                                    }))
+                                  }
+                                >
+                                  {EXTEND_CHOICES.map((minutes) => (
+                                    <option key={minutes} value={minutes}>
+                                      +{minutes}m
+                                    </option>
+                                  ))}
+                                </select>
+                                <button
+                                  type="button"
+                                  className="btn btn-sm btn-outline-primary mr-1"
+                                  disabled={busy}
+                                  onClick={() => handleExtend(row)}
+                                >
+                                  Extend
+                                </button>
+                                <button
+                                  type="button"
+                                  className="btn btn-sm btn-outline-danger mr-1"
+                                  disabled={busy}
+                                  onClick={() => handleForceSubmit(row)}
+                                >
+                                  Force Submit
+                                </button>
+                              </div>
+                            )}
+                            {(state === 'submitted' || state === 'disconnected') && row.attempt_id && (
+                              <button
+                                type="button"
+                                className="btn btn-sm btn-outline-secondary mt-1"
+                                disabled={busy}
+                                onClick={() => handleAllowReentry(row)}
+                              >
+                                Allow Re-entry
+                              </button>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
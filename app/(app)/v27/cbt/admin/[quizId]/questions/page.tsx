@@ -5,6 +5,18 @@ import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { apiFetch } from '@/lib/apiClient';
+import { isAdminUser } from '@/lib/roleChecks';
+import { PERMISSIONS } from '@/lib/permissionKeys';
+import { saveQuizQuestionToBank } from '@/lib/cbtQuestionBank';
+import { QuizBankPanel } from '@/components/cbt/QuizBankPanel';
+import { QuestionFormatImport } from '@/components/cbt/QuestionFormatImport';
+import {
+  buildPrintablePaper,
+  toAiken,
+  toGift,
+  type PortableQuestion,
+  type QuestionTextFormat,
+} from '@/lib/cbtQuestionFormats';
 
 type QuestionType = 'mcq' | 'multiple_select' | 'true_false' | 'short_answer';
 type ShortAnswerMatch = 'exact' | 'contains' | 'keywords';
@@ -17,6 +29,8 @@ interface Quiz {
   total_questions: number;
   passing_score: number;
   duration_minutes: number;
+  subject_id?: string | null;
+  class_id?: string | null;
 }
 
 interface QuizOption {
@@ -40,6 +54,8 @@ interface QuizQuestion {
   short_answer_answers?: string[];
   short_answer_keywords?: string[];
   short_answer_match?: ShortAnswerMatch;
+  /** Set when the question was copied from the question bank. */
+  bank_question_id?: string | null;
 }
 
 interface QuestionForm {
@@ -474,7 +490,12 @@ const getErrorMessage = (error: unknown, fallback: string): string => {
 export default function QuizQuestionsPage() {
   const router = useRouter();
   const params = useParams();
-  const { user, loading: authLoading } = useAuth();
+  const { user, hasPermission, loading: authLoading } = useAuth();
+  const canUseBank =
+    isAdminUser(user) ||
+    hasPermission(PERMISSIONS.CBT_QUESTION_BANK_VIEW) ||
+    hasPermission(PERMISSIONS.CBT_QUESTION_BANK_MANAGE);
+  const canManageBank = isAdminUser(user) || hasPermission(PERMISSIONS.CBT_QUESTION_BANK_MANAGE);
   const quizId = params.quizId as string;
 
   const [quiz, setQuiz] = useState<Quiz | null>(null);
@@ -778,6 +799,25 @@ export default function QuizQuestionsPage() {
     }
   };
 
+  const handleSaveToBank = async (question: QuizQuestion) => {
+    try {
+      setSavingQuestion(true);
+      setError(null);
+      await saveQuizQuestionToBank(quizId, question.id, {
+        class_ids: quiz?.class_id ? [String(quiz.class_id)] : [],
+        topic: null,
+        difficulty: 'medium',
+        bloom_level: null,
+      });
+      await refreshQuestions();
+      setSuccess('Question copied to the question bank. Tag its topic and difficulty there.');
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to save the question to the bank'));
+    } finally {
+      setSavingQuestion(false);
+    }
+  };
+
   const handleBulkFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -806,6 +846,50 @@ export default function QuizQuestionsPage() {
     URL.revokeObjectURL(url);
   };
 
+  // Creates the entries one by one through the questions endpoint, so one
+  // bad entry does not stop the rest.
+  const importQuestionEntries = async (items: unknown[]) => {
+    const importErrors: string[] = [];
+    let imported = 0;
+    let orderCursor = nextQuestionOrder;
+
+    for (let index = 0; index < items.length; index += 1) {
+      const item = items[index];
+      try {
+        const payload = buildBulkQuestionPayload(item, orderCursor);
+        await apiFetch(`/api/v1/cbt/quizzes/${quizId}/questions`, {
+          method: 'POST',
+          body: JSON.stringify(payload),
+        });
+        imported += 1;
+        orderCursor += 1;
+      } catch (itemError: unknown) {
+        const questionLabel =
+          isRecord(item) && typeof item.question_text === 'string' && item.question_text.trim()
+            ? ` (${item.question_text.trim().slice(0, 40)})`
+            : '';
+        importErrors.push(`Item ${index + 1}${questionLabel}: ${getErrorMessage(itemError, 'Import failed.')}`);
+      }
+    }
+
+    const refreshedQuestions = await refreshQuestions();
+    resetQuestionForm(refreshedQuestions.length + 1);
+
+    setBulkImportResult({
+      imported,
+      failed: importErrors.length,
+      errors: importErrors,
+    });
+
+    if (imported > 0 && importErrors.length === 0) {
+      setSuccess(`Imported ${imported} question${imported === 1 ? '' : 's'} successfully.`);
+    } else if (imported > 0) {
+      setSuccess(`Imported ${imported} question${imported === 1 ? '' : 's'} with ${importErrors.length} failure(s).`);
+    } else {
+      setError('Bulk import failed. Fix the errors and try again.');
+    }
+  };
+
   const handleBulkImport = async () => {
     if (!bulkInput.trim()) {
       setError('Paste CSV questions or upload a CSV file first.');
@@ -824,45 +908,23 @@ export default function QuizQuestionsPage() {
         throw new Error('No questions found in CSV payload.');
       }
 
-      const importErrors: string[] = [];
-      let imported = 0;
-      let orderCursor = nextQuestionOrder;
-
-      for (let index = 0; index < items.length; index += 1) {
-        const item = items[index];
-        try {
-          const payload = buildBulkQuestionPayload(item, orderCursor);
-          await apiFetch(`/api/v1/cbt/quizzes/${quizId}/questions`, {
-            method: 'POST',
-            body: JSON.stringify(payload),
-          });
-          imported += 1;
-          orderCursor += 1;
-        } catch (itemError: unknown) {
-          const questionLabel =
-            isRecord(item) && typeof item.question_text === 'string' && item.question_text.trim()
-              ? ` (${item.question_text.trim().slice(0, 40)})`
-              : '';
-          importErrors.push(`Item ${index + 1}${questionLabel}: ${getErrorMessage(itemError, 'Import failed.')}`);
-        }
-      }
-
-      const refreshedQuestions = await refreshQuestions();
-      resetQuestionForm(refreshedQuestions.length + 1);
-
-      setBulkImportResult({
-        imported,
-        failed: importErrors.length,
-        errors: importErrors,
-      });
+      await importQuestionEntries(items);
+    } catch (importError: unknown) {
+      setError(getErrorMessage(importError, 'Failed to import questions.'));
+    } finally {
+      setSavingQuestion(false);
+      setBulkImporting(false);
+    }
+  };
 
-      if (imported > 0 && importErrors.length === 0) {
-        setSuccess(`Imported ${imported} question${imported === 1 ? '' : 's'} successfully.`);
-      } else if (imported > 0) {
-        setSuccess(`Imported ${imported} question${imported === 1 ? '' : 's'} with ${importErrors.length} failure(s).`);
-      } else {
-        setError('Bulk import failed. Fix the errors and try again.');
-      }
+  const handleFormatImport = async (items: PortableQuestion[]) => {
+    try {
+      setSavingQuestion(true);
+      setBulkImporting(true);
+      setError(null);
+      setSuccess(null);
+      setBulkImportResult(null);
+      await importQuestionEntries(items);
     } catch (importError: unknown) {
       setError(getErrorMessage(importError, 'Failed to import questions.'));
     } finally {
@@ -871,6 +933,81 @@ export default function QuizQuestionsPage() {
     }
   };
 
+  const portableQuestions = (): PortableQuestion[] =>
+    questions.map((question) => ({
+      question_text: question.question_text,
+      question_type: question.question_type,
+      marks: question.marks,
+      options: [...question.options]
+        .sort((a, b) => a.order - b.order)
+        .map((option) => ({ option_text: option.option_text, is_correct: Boolean(option.is_correct) })),
+      short_answer_answers: question.short_answer_answers ?? [],
+      short_answer_keywords: question.short_answer_keywords ?? [],
+      short_answer_match: question.short_answer_match,
+      explanation: question.explanation ?? null,
+    }));
+
+  const exportFileBase = () =>
+    (quiz?.title || 'quiz')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'quiz';
+
+  const downloadText = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = (format: QuestionTextFormat) => {
+    if (questions.length === 0) {
+      setError('Add questions before exporting.');
+      return;
+    }
+    const result =
+      format === 'aiken' ? toAiken(portableQuestions()) : toGift(portableQuestions(), quiz?.title);
+    setError(null);
+    if (result.skipped.length === questions.length) {
+      setError(
+        `None of the questions can be written as ${format === 'aiken' ? 'Aiken' : 'GIFT'}. Try the other format.`,
+      );
+      return;
+    }
+    downloadText(result.text, `${exportFileBase()}.${format === 'aiken' ? 'txt' : 'gift'}`);
+    setSuccess(
+      result.skipped.length
+        ? `Exported ${questions.length - result.skipped.length} question(s). Skipped question(s) ${result.skipped.join(', ')}, which the format cannot hold.`
+        : `Exported ${questions.length} question(s).`,
+    );
+  };
+
+  const handlePrintPaper = () => {
+    if (!quiz || questions.length === 0) {
+      setError('Add questions before printing a paper.');
+      return;
+    }
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Allow pop-ups for this site to print the paper.');
+      return;
+    }
+    printWindow.document.open();
+    printWindow.document.write(
+      buildPrintablePaper(
+        { title: quiz.title, durationMinutes: quiz.duration_minutes },
+        portableQuestions(),
+      ),
+    );
+    printWindow.document.close();
+    printWindow.focus();
+  };
+
   if (authLoading || loading) {
     return (
       <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
@@ -970,6 +1107,16 @@ export default function QuizQuestionsPage() {
                               >
                                 Delete
                               </button>
+                              {canManageBank && !question.bank_question_id ? (
+                                <button
+                                  type="button"
+                                  className="btn btn-sm btn-link p-0 mt-2"
+                                  onClick={() => handleSaveToBank(question)}
+                                  disabled={savingQuestion}
+                                >
+                                  Save to bank
+                                </button>
+                              ) : null}
                             </div>
                           </li>
                         ))}
@@ -1064,6 +1211,14 @@ export default function QuizQuestionsPage() {
                       </div>
                     )}
                   </div>
+
+                  <div className="border rounded p-3 mt-3">
+                    <h5 className="mb-2">Import Aiken, GIFT or Word</h5>
+                    <QuestionFormatImport
+                      importing={bulkImporting}
+                      onImport={(items) => void handleFormatImport(items)}
+                    />
+                  </div>
                 </div>
 
                 <div className="col-lg-7 col-12">
@@ -1317,9 +1472,59 @@ export default function QuizQuestionsPage() {
                   Total questions is {quiz.total_questions}, but you have {totalQuestionCount} configured.
                 </div>
               )}
+              <div className="d-flex flex-wrap mt-3">
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-secondary mr-2 mb-2"
+                  onClick={() => handleExport('aiken')}
+                  disabled={totalQuestionCount === 0}
+                >
+                  Export Aiken
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-secondary mr-2 mb-2"
+                  onClick={() => handleExport('gift')}
+                  disabled={totalQuestionCount === 0}
+                >
+                  Export GIFT
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-secondary mb-2"
+                  onClick={handlePrintPaper}
+                  disabled={totalQuestionCount === 0}
+                >
+                  Print Paper &amp; Key
+                </button>
+              </div>
             </div>
           </div>
 
+          {canUseBank ? (
+            <div className="card height-auto quiz-fade-up quiz-fade-up-delay-2">
+              <div className="card-body">
+                <div className="heading-layout1">
+                  <div className="item-title">
+                    <h3>Question Bank</h3>
+                  </div>
+                </div>
+                <QuizBankPanel
+                  quizId={quizId}
+                  subjectId={quiz.subject_id ? String(quiz.subject_id) : null}
+                  classId={quiz.class_id ? String(quiz.class_id) : null}
+                  usedBankQuestionIds={questions
+                    .map((question) => question.bank_question_id)
+                    .filter((id): id is string => Boolean(id))
+                    .map(String)}
+                  onQuestionsAdded={() => {
+                    void refreshQuestions().then((refreshed) => resetQuestionForm(refreshed.length + 1));
+                  }}
+                />
+              </div>
+            </div>
+          ) : null}
+
           <div className="card height-auto quiz-fade-up quiz-fade-up-delay-3">
             <div className="card-body bg-light-blue">
               <div className="heading-layout1">
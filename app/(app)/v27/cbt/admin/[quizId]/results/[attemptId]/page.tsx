@@ -1,10 +1,18 @@
 'use client';
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { apiFetch } from '@/lib/apiClient';
 import { getErrorMessage } from "@/lib/errors";
+import { isAdminUser } from '@/lib/roleChecks';
+import { PERMISSIONS } from '@/lib/permissionKeys';
+import { fetchMarkingQueue, markShortAnswers, reimportLinkedScores } from '@/lib/cbtMarking';
+import {
+  INTEGRITY_VIOLATION_LABELS,
+  listAttemptViolations,
+  type IntegrityViolation,
+} from '@/lib/cbtIntegrity';
 
 type QuestionType = 'mcq' | 'multiple_select' | 'true_false' | 'short_answer';
 
@@ -26,6 +34,8 @@ interface AttemptSummary {
   status: string;
   start_time: string | null;
   end_time: string | null;
+  /** Why the attempt was submitted without the student, e.g. 'violation_limit'. */
+  auto_submit_reason?: string | null;
   result: AttemptResult | null;
 }
 
@@ -35,11 +45,13 @@ interface QuizSummary {
 }
 
 interface AnswerDetails {
+  id?: string;
   selected_option_id: string | null;
   selected_option_ids: string[];
   answer_text: string | null;
   is_correct: boolean | null;
   marks_obtained: number | null;
+  marking_note?: string | null;
 }
 
 interface QuestionOption {
@@ -72,13 +84,25 @@ const statusBadgeClass = (status: AttemptResult['status']) => {
 export default function AttemptReviewPage() {
   const params = useParams();
   const router = useRouter();
-  const { user, loading: authLoading } = useAuth();
+  const { user, hasPermission, loading: authLoading } = useAuth();
   const quizId = params.quizId as string;
   const attemptId = params.attemptId as string;
+  const canGrade = isAdminUser(user) || hasPermission(PERMISSIONS.CBT_ADMIN_RESULTS_GRADE);
 
   const [data, setData] = useState<AttemptReviewResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [markDrafts, setMarkDrafts] = useState<Record<string, { marks: string; note: string }>>({});
+  const [savingMarkId, setSavingMarkId] = useState<string | null>(null);
+  const [violations, setViolations] = useState<IntegrityViolation[]>([]);
+
+  const fetchAttempt = useCallback(async () => {
+    const response = await apiFetch<{ data: AttemptReviewResponse }>(
+      `/api/v1/cbt/quiz-attempts/${attemptId}/answers`,
+    );
+    setData(response.data);
+  }, [attemptId]);
 
   useEffect(() => {
     if (authLoading) return;
@@ -88,12 +112,13 @@ export default function AttemptReviewPage() {
       try {
         setLoading(true);
         setError(null);
-
-        const response = await apiFetch<{ data: AttemptReviewResponse }>(
-          `/api/v1/cbt/quiz-attempts/${attemptId}/answers`,
+        await fetchAttempt();
+        setViolations(
+          await listAttemptViolations(attemptId).catch((err) => {
+            console.error('Unable to load integrity events:', err);
+            return [];
+          }),
         );
-
-        setData(response.data);
       } catch (err) {
         setError(getErrorMessage(err, 'Failed to load attempt answers'));
       } finally {
@@ -102,13 +127,56 @@ export default function AttemptReviewPage() {
     };
 
     loadData();
-  }, [authLoading, user, attemptId]);
+  }, [authLoading, user, fetchAttempt, attemptId]);
+
+  const handleSaveMark = async (question: QuestionDetails) => {
+    const answerId = question.answer?.id;
+    if (!answerId) return;
+    const draft = markDrafts[question.id];
+    const marks = Number(draft?.marks);
+    if (!draft || draft.marks.trim() === '' || Number.isNaN(marks) || marks < 0 || marks > question.marks) {
+      setError(`Enter a mark between 0 and ${question.marks}.`);
+      return;
+    }
+    try {
+      setSavingMarkId(question.id);
+      setError(null);
+      setSuccess(null);
+      await markShortAnswers(quizId, {
+        answer_ids: [String(answerId)],
+        marks_obtained: marks,
+        note: draft.note.trim() || null,
+      });
+      await fetchAttempt();
+      const { links } = await fetchMarkingQueue(quizId);
+      const synced = await reimportLinkedScores(links);
+      setSuccess(
+        synced.imported
+          ? 'Mark saved. The attempt total was recomputed and re-imported into the linked assessment components.'
+          : 'Mark saved and the attempt total recomputed.',
+      );
+      setMarkDrafts((prev) => {
+        const next = { ...prev };
+        delete next[question.id];
+        return next;
+      });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save the mark'));
+    } finally {
+      setSavingMarkId(null);
+    }
+  };
 
   const orderedQuestions = useMemo(() => {
     if (!data) return [];
     return [...data.questions].sort((a, b) => a.order - b.order);
   }, [data]);
 
+  const questionOrderById = useMemo(
+    () => new Map(orderedQuestions.map((question) => [String(question.id), question.order])),
+    [orderedQuestions],
+  );
+
   if (authLoading || loading) {
     return (
       <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
@@ -154,6 +222,11 @@ export default function AttemptReviewPage() {
           {error}
         </div>
       )}
+      {success && (
+        <div className="alert alert-success mg-b-20" role="alert">
+          {success}
+        </div>
+      )}
 
       <div className="card height-auto quiz-fade-up quiz-fade-up-delay-1">
         <div className="card-body">
@@ -161,13 +234,22 @@ export default function AttemptReviewPage() {
             <div className="item-title">
               <h3>{data.quiz.title}</h3>
             </div>
-            <button
-              type="button"
-              onClick={() => router.push(`/v27/cbt/admin/${quizId}/results`)}
-              className="btn-fill-lmd radius-4 text-light bg-dodger-blue"
-            >
-              Back to Results
-            </button>
+            <div className="d-flex flex-wrap">
+              <button
+                type="button"
+                onClick={() => router.push(`/v27/cbt/admin/${quizId}/marking`)}
+                className="btn-fill-lmd radius-4 text-light btn-gradient-yellow mr-2"
+              >
+                Marking Queue
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push(`/v27/cbt/admin/${quizId}/results`)}
+                className="btn-fill-lmd radius-4 text-light bg-dodger-blue"
+              >
+                Back to Results
+              </button>
+            </div>
           </div>
 
           <div className="row gutters-20">
@@ -206,6 +288,66 @@ export default function AttemptReviewPage() {
         </div>
       </div>
 
+      <div className="card height-auto quiz-fade-up quiz-fade-up-delay-2">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Integrity Timeline</h3>
+            </div>
+            <span className="text-muted">
+              {violations.length} event{violations.length === 1 ? '' : 's'}
+            </span>
+          </div>
+
+          {data.attempt.auto_submit_reason === 'violation_limit' && (
+            <div className="alert alert-danger" role="alert">
+              This attempt was submitted automatically after reaching the quiz&apos;s violation limit.
+            </div>
+          )}
+
+          {violations.length === 0 ? (
+            <div className="text-muted">No tab switches, fullscreen exits or copy/paste attempts were recorded.</div>
+          ) : (
+            <div className="table-responsive">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Event</th>
+                    <th>Question</th>
+                    <th>Since Start</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {violations.map((violation, index) => {
+                    const started = data.attempt.start_time ? new Date(data.attempt.start_time).getTime() : NaN;
+                    const elapsed = Math.round((new Date(violation.occurred_at).getTime() - started) / 1000);
+                    const questionOrder = violation.question_id
+                      ? questionOrderById.get(String(violation.question_id))
+                      : undefined;
+                    return (
+                      <tr key={`${violation.type}-${violation.occurred_at}-${index}`}>
+                        <td>{new Date(violation.occurred_at).toLocaleTimeString()}</td>
+                        <td>
+                          {INTEGRITY_VIOLATION_LABELS[violation.type] ?? violation.type}
+                          {violation.detail && <div className="text-muted small">{violation.detail}</div>}
+                        </td>
+                        <td>{questionOrder !== undefined ? `Q${questionOrder}` : '—'}</td>
+                        <td>
+                          {Number.isFinite(elapsed) && elapsed >= 0
+                            ? `${Math.floor(elapsed / 60)}m ${elapsed % 60}s`
+                            : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
       <div className="card height-auto quiz-fade-up quiz-fade-up-delay-2">
         <div className="card-body">
           <div className="heading-layout1">
@@ -236,6 +378,7 @@ export default function AttemptReviewPage() {
                       {answer ? (
                         <span className={answer.is_correct ? 'badge badge-success' : 'badge badge-danger'}>
                           {answer.is_correct ? 'Correct' : 'Wrong'}
+                          {answer.marks_obtained !== null ? ` • ${answer.marks_obtained}/${question.marks}` : ''}
                         </span>
                       ) : (
                         <span className="badge badge-secondary">No Answer</span>
@@ -248,6 +391,56 @@ export default function AttemptReviewPage() {
                         <div className="border rounded p-2 bg-light">
                           {answer?.answer_text || 'No answer submitted.'}
                         </div>
+                        {answer?.marking_note && (
+                          <div className="text-muted small mt-1">Note: {answer.marking_note}</div>
+                        )}
+                        {canGrade && answer?.id && (
+                          <div className="d-flex flex-wrap align-items-center mt-2">
+                            <input
+                              type="number"
+                              min={0}
+                              max={question.marks}
+                              step={0.5}
+                              className="form-control form-control-sm mr-2 mb-1"
+                              style={{ width: 90 }}
+                              aria-label="Marks"
+                              value={markDrafts[question.id]?.marks ?? String(answer.marks_obtained ?? '')}
+                              onChange={(e) =>
+                                setMarkDrafts((prev) => ({
+                                  ...prev,
+                                  [question.id]: {
+                                    marks: e.target.value,
+                                    note: prev[question.id]?.note ?? answer.marking_note ?? '',
+                                  },
+                                }))
+                              }
+                            />
+                            <input
+                              type="text"
+                              className="form-control form-control-sm mr-2 mb-1"
+                              style={{ maxWidth: 320 }}
+                              placeholder="Rubric note"
+                              value={markDrafts[question.id]?.note ?? answer.marking_note ?? ''}
+                              onChange={(e) =>
+                                setMarkDrafts((prev) => ({
+                                  ...prev,
+                                  [question.id]: {
+                                    marks: prev[question.id]?.marks ?? String(answer.marks_obtained ?? ''),
+                                    note: e.target.value,
+                                  },
+                                }))
+                              }
+                            />
+                            <button
+                              type="button"
+                              className="btn btn-sm btn-primary mb-1"
+                              disabled={savingMarkId === question.id || !markDrafts[question.id]}
+                              onClick={() => handleSaveMark(question)}
+                            >
+                              {savingMarkId === question.id ? 'Saving...' : 'Save Mark'}
+                            </button>
+                          </div>
+                        )}
                       </div>
                     ) : (
                       <div className="mt-3">
@@ -196,13 +196,36 @@ export default function QuizResultsPage() {
             <div className="item-title">
               <h3>{quiz?.title || 'Quiz'} Results</h3>
             </div>
-            <button
-              type="button"
-              onClick={() => router.push(`/v27/cbt/admin/${quizId}/edit`)}
-              className="btn-fill-lmd radius-4 text-light bg-dodger-blue"
-            >
-              Back to Quiz
-            </button>
+            <div className="d-flex flex-wrap">
+              <button
+                type="button"
+                onClick={() => router.push(`/v27/cbt/admin/${quizId}/monitor`)}
+                className="btn-fill-lmd radius-4 text-light btn-gradient-yellow mr-2"
+              >
+                Live Monitor
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push(`/v27/cbt/admin/${quizId}/marking`)}
+                className="btn-fill-lmd radius-4 text-light btn-gradient-yellow mr-2"
+              >
+                Marking Queue
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push(`/v27/cbt/admin/${quizId}/item-analysis`)}
+                className="btn-fill-lmd radius-4 text-light btn-gradient-yellow mr-2"
+              >
+                Item Analysis
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push(`/v27/cbt/admin/${quizId}/edit`)}
+                className="btn-fill-lmd radius-4 text-light bg-dodger-blue"
+              >
+                Back to Quiz
+              </button>
+            </div>
           </div>
 
           {results.length === 0 ? (
@@ -23,6 +23,8 @@ interface QuizFormData {
   allow_review: boolean;
   allow_multiple_attempts: boolean;
   max_attempts: number;
+  require_fullscreen: boolean;
+  violation_limit: number;
 }
 
 interface Subject {
@@ -69,6 +71,8 @@ export default function CreateQuizPage() {
     allow_review: true,
     allow_multiple_attempts: true,
     max_attempts: 1,
+    require_fullscreen: false,
+    violation_limit: 0,
   });
 
   useEffect(() => {
@@ -626,6 +630,45 @@ export default function CreateQuizPage() {
                   )}
                 </div>
 
+                <div className="heading-layout1 mg-t-20">
+                  <div className="item-title">
+                    <h3>Exam Integrity</h3>
+                  </div>
+                </div>
+
+                <div className="row gutters-20">
+                  <div className="col-md-6 col-12 form-group">
+                    <div className="form-check">
+                      <input
+                        id="require_fullscreen"
+                        type="checkbox"
+                        name="require_fullscreen"
+                        checked={formData.require_fullscreen}
+                        onChange={handleInputChange}
+                        className="form-check-input"
+                      />
+                      <label className="form-check-label" htmlFor="require_fullscreen">
+                        Require fullscreen while taking the quiz
+                      </label>
+                    </div>
+                  </div>
+                  <div className="col-md-6 col-12 form-group">
+                    <label>Auto-submit After Violations</label>
+                    <input
+                      type="number"
+                      name="violation_limit"
+                      value={formData.violation_limit}
+                      onChange={handleInputChange}
+                      min="0"
+                      className="form-control"
+                    />
+                    <small className="form-text text-muted">
+                      Tab switches, leaving fullscreen and copy/paste are always logged. Set 0 to log
+                      without auto-submitting.
+                    </small>
+                  </div>
+                </div>
+
                 <div className="row gutters-20 mg-t-10">
                   <div className="col-md-6 col-12 form-group">
                     <button
@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getErrorMessage } from "@/lib/errors";
+import {
+  listOfflineQuizzes,
+  listQueuedSubmissions,
+  removeOfflineQuiz,
+  removeQueuedSubmission,
+  syncQueuedSubmissions,
+  type OfflineQuizPackage,
+  type QueuedSubmission,
+} from '@/lib/cbtOffline';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+const statusBadgeClass = (status: QueuedSubmission['status']) => {
+  switch (status) {
+    case 'submitted':
+      return 'badge badge-pill badge-success';
+    case 'syncing':
+      return 'badge badge-pill badge-info';
+    case 'failed':
+      return 'badge badge-pill badge-danger';
+    default:
+      return 'badge badge-pill badge-warning';
+  }
+};
+
+const statusLabel: Record<QueuedSubmission['status'], string> = {
+  pending: 'Pending sync',
+  syncing: 'Syncing',
+  submitted: 'Submitted',
+  failed: 'Needs attention',
+  waiting_for_student: 'Waiting for student',
+};
+
+export default function OfflineQueuePage() {
+  const [submissions, setSubmissions] = useState<QueuedSubmission[]>([]);
+  const [packages, setPackages] = useState<OfflineQuizPackage[]>([]);
+  const [online, setOnline] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [queue, cached] = await Promise.all([listQueuedSubmissions(), listOfflineQuizzes()]);
+      setSubmissions(queue);
+      setPackages(cached);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to read the offline queue on this machine'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const updateOnline = () => setOnline(navigator.onLine);
+    updateOnline();
+    void refresh();
+    const interval = setInterval(() => {
+      void refresh();
+    }, REFRESH_INTERVAL_MS);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, [refresh]);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await syncQueuedSubmissions({ force: true, asInvigilator: true });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Sync failed'));
+    } finally {
+      setSyncing(false);
+      await refresh();
+    }
+  };
+
+  const handleRemoveSubmission = async (submission: QueuedSubmission) => {
+    if (
+      submission.status !== 'submitted' &&
+      !confirm(
+        `${submission.studentName}'s attempt has not reached the server. Removing it deletes the answers from this machine. Continue?`,
+      )
+    ) {
+      return;
+    }
+    await removeQueuedSubmission(submission.id);
+    await refresh();
+  };
+
+  const handleRemovePackage = async (key: string) => {
+    await removeOfflineQuiz(key);
+    await refresh();
+  };
+
+  const outstanding = submissions.filter((item) => item.status !== 'submitted').length;
+
+  if (loading) {
+    return (
+      <div className="d-flex align-items-center justify-content-center min-vh-100 bg-ash">
+        <div className="spinner-border text-dodger-blue" role="status">
+          <span className="sr-only">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-ash min-vh-100">
+      <div className="breadcrumbs-area">
+        <h3>Quiz Management</h3>
+        <ul>
+          <li>
+            <Link href="/v27/cbt/admin">CBT</Link>
+          </li>
+          <li>Offline Queue</li>
+        </ul>
+      </div>
+
+      <div className="card height-auto">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Queued Attempts on This Machine</h3>
+            </div>
+            <button
+              type="button"
+              onClick={handleSyncNow}
+              disabled={syncing || !online || outstanding === 0}
+              className="btn-fill-lmd radius-4 text-light btn-gradient-yellow"
+            >
+              {syncing ? 'Syncing…' : 'Sync now'}
+            </button>
+          </div>
+
+          <p className="mg-b-20">
+            Connection:{' '}
+            <span className={online ? 'badge badge-pill badge-success' : 'badge badge-pill badge-danger'}>
+              {online ? 'Online' : 'Offline'}
+            </span>{' '}
+            · {outstanding} attempt(s) waiting to reach the server. Attempts are stored in this
+            browser only; do not clear its data until everything shows as submitted.
+          </p>
+
+          {error && (
+            <div className="alert alert-danger mg-b-20" role="alert">
+              {error}
+            </div>
+          )}
+
+          {submissions.length === 0 ? (
+            <div className="alert alert-info" role="alert">
+              No attempts have been queued on this machine.
+            </div>
+          ) : (
+            <div className="table-responsive">
+              <table className="table display data-table text-nowrap">
+                <thead>
+                  <tr>
+                    <th>Student</th>
+                    <th>Quiz</th>
+                    <th>Answers</th>
+                    <th>Finished</th>
+                    <th>Status</th>
+                    <th>Last error</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {submissions.map((submission) => (
+                    <tr key={submission.id}>
+                      <td>
+                        <div className="font-weight-bold text-dark">{submission.studentName}</div>
+                        <div className="text-dark-low">{submission.admissionNo}</div>
+                      </td>
+                      <td>{submission.quizTitle}</td>
+                      <td>
+                        {submission.syncedQuestionIds.length}/{submission.answers.length} sent
+                      </td>
+                      <td>{new Date(submission.finishedAt).toLocaleString()}</td>
+                      <td>
+                        <span className={statusBadgeClass(submission.status)}>
+                          {statusLabel[submission.status]}
+                        </span>
+                        {submission.status === 'pending' && submission.retryCount > 0 && (
+                          <div className="text-dark-low">
+                            Retry {submission.retryCount}, next at{' '}
+                            {new Date(submission.nextRetryAt).toLocaleTimeString()}
+                          </div>
+                        )}
+                      </td>
+                      <td className="text-wrap">{submission.lastError ?? '—'}</td>
+                      <td>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveSubmission(submission)}
+                          className="btn-fill-sm radius-4 text-light bg-red mg-b-8"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="card height-auto">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Quizzes Prepared for Offline Use</h3>
+            </div>
+          </div>
+
+          {packages.length === 0 ? (
+            <div className="alert alert-info" role="alert">
+              No quizzes are stored on this machine.
+            </div>
+          ) : (
+            <div className="table-responsive">
+              <table className="table display data-table text-nowrap">
+                <thead>
+                  <tr>
+                    <th>Quiz</th>
+                    <th>Prepared for</th>
+                    <th>Questions</th>
+                    <th>Images</th>
+                    <th>Cached</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {packages.map((item) => (
+                    <tr key={item.key}>
+                      <td>{item.quiz.title}</td>
+                      <td>
+                        {item.student.first_name} {item.student.last_name} ({item.student.admission_no})
+                      </td>
+                      <td>{item.questions.length}</td>
+                      <td>
+                        {Object.keys(item.images).length} cached
+                        {item.failedImages.length > 0 && (
+                          <span className="text-red"> · {item.failedImages.length} failed</span>
+                        )}
+                      </td>
+                      <td>{new Date(item.cachedAt).toLocaleString()}</td>
+                      <td>
+                        <button
+                          type="button"
+                          onClick={() => handleRemovePackage(item.key)}
+                          className="btn-fill-sm radius-4 text-light bg-red mg-b-8"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -315,6 +315,15 @@ export default function AdminDashboard() {
                           >
                             Results
                           </button>
+                          {quiz.status === 'published' && (
+                            <button
+                              type="button"
+                              onClick={() => router.push(`/v27/cbt/admin/${quiz.id}/monitor`)}
+                              className="btn-fill-sm radius-4 text-light bg-orange-peel mg-r-8 mg-b-8"
+                            >
+                              Monitor
+                            </button>
+                          )}
                           <button
                             type="button"
                             onClick={() => router.push(`/v27/cbt/admin/${quiz.id}/edit`)}
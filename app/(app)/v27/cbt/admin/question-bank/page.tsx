@@ -0,0 +1,810 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { getErrorMessage } from '@/lib/errors';
+import { isAdminUser } from '@/lib/roleChecks';
+import { PERMISSIONS } from '@/lib/permissionKeys';
+import { listAllSubjects, type Subject } from '@/lib/subjects';
+import { listClasses, type SchoolClass } from '@/lib/classes';
+import type { QuizQuestionType } from '@/lib/cbtAttempts';
+import {
+  BLOOM_LEVELS,
+  QUESTION_DIFFICULTIES,
+  createBankQuestion,
+  deleteBankQuestion,
+  listBankQuestions,
+  listBankTopics,
+  updateBankQuestion,
+  type BankQuestion,
+  type BankQuestionOption,
+  type BankQuestionPayload,
+  type BloomLevel,
+  type QuestionDifficulty,
+  type ShortAnswerMatch,
+} from '@/lib/cbtQuestionBank';
+
+const PER_PAGE = 25;
+
+const questionTypeLabels: Record<QuizQuestionType, string> = {
+  mcq: 'Multiple Choice',
+  multiple_select: 'Multiple Select',
+  true_false: 'True / False',
+  short_answer: 'Short Answer',
+};
+
+interface BankFilters {
+  subject_id: string;
+  class_id: string;
+  topic: string;
+  difficulty: '' | QuestionDifficulty;
+  bloom_level: '' | BloomLevel;
+  search: string;
+}
+
+interface EditorState {
+  id?: string;
+  subject_id: string;
+  question_text: string;
+  question_type: QuizQuestionType;
+  marks: number;
+  explanation: string;
+  options: BankQuestionOption[];
+  short_answer_answers: string;
+  short_answer_keywords: string;
+  short_answer_match: ShortAnswerMatch;
+  class_ids: string[];
+  topic: string;
+  difficulty: QuestionDifficulty;
+  bloom_level: '' | BloomLevel;
+}
+
+const blankOptions = (type: QuizQuestionType): BankQuestionOption[] => {
+  if (type === 'short_answer') return [];
+  if (type === 'true_false') {
+    return [
+      { option_text: 'True', order: 1, is_correct: false },
+      { option_text: 'False', order: 2, is_correct: false },
+    ];
+  }
+  return [1, 2, 3, 4].map((order) => ({ option_text: '', order, is_correct: false }));
+};
+
+const emptyEditor = (subjectId: string, classId: string): EditorState => ({
+  subject_id: subjectId,
+  question_text: '',
+  question_type: 'mcq',
+  marks: 1,
+  explanation: '',
+  options: blankOptions('mcq'),
+  short_answer_answers: '',
+  short_answer_keywords: '',
+  short_answer_match: 'exact',
+  class_ids: classId ? [classId] : [],
+  topic: '',
+  difficulty: 'medium',
+  bloom_level: '',
+});
+
+const editorFromQuestion = (question: BankQuestion): EditorState => ({
+  id: question.id,
+  subject_id: question.subject_id,
+  question_text: question.question_text,
+  question_type: question.question_type,
+  marks: question.marks,
+  explanation: question.explanation ?? '',
+  options: question.options.length ? question.options : blankOptions(question.question_type),
+  short_answer_answers: (question.short_answer_answers ?? []).join('\n'),
+  short_answer_keywords: (question.short_answer_keywords ?? []).join('\n'),
+  short_answer_match: question.short_answer_match ?? 'exact',
+  class_ids: question.class_ids,
+  topic: question.topic ?? '',
+  difficulty: question.difficulty,
+  bloom_level: question.bloom_level ?? '',
+});
+
+const splitList = (value: string) =>
+  value
+    .split(/[\n,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const correctnessClass = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return 'text-muted';
+  if (value < 30) return 'text-danger';
+  if (value > 85) return 'text-warning';
+  return 'text-success';
+};
+
+const difficultyLabel = (value: QuestionDifficulty) =>
+  QUESTION_DIFFICULTIES.find((entry) => entry.value === value)?.label ?? value;
+
+const bloomLabel = (value: BloomLevel | null) =>
+  value ? BLOOM_LEVELS.find((entry) => entry.value === value)?.label ?? value : '—';
+
+export default function QuestionBankPage() {
+  const { user, hasPermission, loading: authLoading } = useAuth();
+  const canManage = isAdminUser(user) || hasPermission(PERMISSIONS.CBT_QUESTION_BANK_MANAGE);
+
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [topics, setTopics] = useState<string[]>([]);
+  const [filters, setFilters] = useState<BankFilters>({
+    subject_id: '',
+    class_id: '',
+    topic: '',
+    difficulty: '',
+    bloom_level: '',
+    search: '',
+  });
+  const [page, setPage] = useState(1);
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [lastPage, setLastPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (authLoading || !user) return;
+    Promise.all([listAllSubjects(), listClasses()])
+      .then(([subjectList, classList]) => {
+        setSubjects(subjectList);
+        setClasses(classList);
+      })
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load subjects and classes.')));
+  }, [authLoading, user]);
+
+  useEffect(() => {
+    if (!filters.subject_id) {
+      setTopics([]);
+      return;
+    }
+    listBankTopics(filters.subject_id)
+      .then(setTopics)
+      .catch((err) => console.error('Unable to load bank topics', err));
+  }, [filters.subject_id]);
+
+  const loadQuestions = useCallback(async () => {
+    if (!filters.subject_id) {
+      setQuestions([]);
+      setTotal(0);
+      return;
+    }
+    try {
+      setLoading(true);
+      const response = await listBankQuestions({
+        subject_id: filters.subject_id,
+        class_id: filters.class_id || null,
+        topic: filters.topic || null,
+        difficulty: filters.difficulty || null,
+        bloom_level: filters.bloom_level || null,
+        search: filters.search.trim() || null,
+        page,
+        per_page: PER_PAGE,
+      });
+      setQuestions(response.data);
+      setLastPage(response.last_page);
+      setTotal(response.total);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load the question bank.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    void loadQuestions();
+  }, [loadQuestions]);
+
+  const updateFilter = <K extends keyof BankFilters>(key: K, value: BankFilters[K]) => {
+    setPage(1);
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value,
+      ...(key === 'subject_id' ? { topic: '' } : {}),
+    }));
+  };
+
+  const className = useMemo(() => {
+    const names = new Map(classes.map((schoolClass) => [String(schoolClass.id), schoolClass.name]));
+    return (id: string) => names.get(id) ?? `Class #${id}`;
+  }, [classes]);
+
+  const validateEditor = (state: EditorState): string | null => {
+    if (!state.subject_id) return 'Choose the subject this question belongs to.';
+    if (!state.question_text.trim()) return 'Question text is required.';
+    if (state.marks < 1) return 'Marks must be at least 1.';
+    if (state.question_type === 'short_answer') {
+      if (!splitList(state.short_answer_answers).length && !splitList(state.short_answer_keywords).length) {
+        return 'Provide accepted answers or keywords for short answer questions.';
+      }
+      return null;
+    }
+    const filled = state.options.filter((option) => option.option_text.trim());
+    if (filled.length < 2) return 'Provide at least two options.';
+    const correct = filled.filter((option) => option.is_correct).length;
+    if (correct === 0) return 'Select at least one correct option.';
+    if (state.question_type !== 'multiple_select' && correct > 1) {
+      return 'Only one correct option is allowed.';
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!editor) return;
+    const validationError = validateEditor(editor);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const payload: BankQuestionPayload = {
+      subject_id: editor.subject_id,
+      question_text: editor.question_text.trim(),
+      question_type: editor.question_type,
+      marks: editor.marks,
+      explanation: editor.explanation.trim() || null,
+      options:
+        editor.question_type === 'short_answer'
+          ? []
+          : editor.options
+              .filter((option) => option.option_text.trim())
+              .map((option, index) => ({
+                ...option,
+                option_text: option.option_text.trim(),
+                order: index + 1,
+              })),
+      class_ids: editor.class_ids,
+      topic: editor.topic.trim() || null,
+      difficulty: editor.difficulty,
+      bloom_level: editor.bloom_level || null,
+    };
+    if (editor.question_type === 'short_answer') {
+      payload.short_answer_answers = splitList(editor.short_answer_answers);
+      payload.short_answer_keywords = splitList(editor.short_answer_keywords);
+      payload.short_answer_match = editor.short_answer_match;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (editor.id) {
+        await updateBankQuestion(editor.id, payload);
+      } else {
+        await createBankQuestion(payload);
+      }
+      setSuccess(editor.id ? 'Bank question updated.' : 'Question added to the bank.');
+      setEditor(editor.id ? null : emptyEditor(editor.subject_id, filters.class_id));
+      await loadQuestions();
+      if (payload.topic && !topics.includes(payload.topic)) {
+        const savedTopic = payload.topic;
+        setTopics((prev) => [...prev, savedTopic].sort());
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save the question.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (question: BankQuestion) => {
+    if (!confirm('Delete this question from the bank? Quizzes that already use it keep their copy.')) return;
+    try {
+      await deleteBankQuestion(question.id);
+      setSuccess('Question deleted from the bank.');
+      await loadQuestions();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete the question.'));
+    }
+  };
+
+  const updateOption = (index: number, patch: Partial<BankQuestionOption>) => {
+    setEditor((prev) => {
+      if (!prev) return prev;
+      const options = prev.options.map((option, idx) => {
+        if (idx === index) return { ...option, ...patch };
+        if (patch.is_correct && prev.question_type !== 'multiple_select') {
+          return { ...option, is_correct: false };
+        }
+        return option;
+      });
+      return { ...prev, options };
+    });
+  };
+
+  if (authLoading) {
+    return null;
+  }
+
+  return (
+    <div className="bg-ash min-vh-100">
+      <div className="breadcrumbs-area">
+        <h3>Question Bank</h3>
+        <ul>
+          <li>
+            <Link href="/v27/cbt/admin">Quiz Management</Link>
+          </li>
+          <li>Question Bank</li>
+        </ul>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger mg-b-20" role="alert">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="alert alert-success mg-b-20" role="alert">
+          {success}
+        </div>
+      )}
+
+      <div className="card height-auto mg-b-20">
+        <div className="card-body">
+          <div className="heading-layout1">
+            <div className="item-title">
+              <h3>Questions</h3>
+              <p className="text-muted small mb-0">
+                Shared by every quiz in the subject. Usage shows how often a question has been set
+                and how many students got it right.
+              </p>
+            </div>
+            {canManage && filters.subject_id ? (
+              <button
+                type="button"
+                className="btn-fill-lmd radius-4 text-light btn-gradient-yellow"
+                onClick={() => setEditor(emptyEditor(filters.subject_id, filters.class_id))}
+              >
+                + New Question
+              </button>
+            ) : null}
+          </div>
+
+          <div className="row gutters-8">
+            <div className="col-lg-3 col-md-6 col-12 form-group">
+              <label htmlFor="bank-subject">Subject</label>
+              <select
+                id="bank-subject"
+                className="form-control"
+                value={filters.subject_id}
+                onChange={(event) => updateFilter('subject_id', event.target.value)}
+              >
+                <option value="">Select subject</option>
+                {subjects.map((subject) => (
+                  <option key={subject.id} value={subject.id}>
+                    {subject.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-2 col-md-6 col-12 form-group">
+              <label htmlFor="bank-class">Class</label>
+              <select
+                id="bank-class"
+                className="form-control"
+                value={filters.class_id}
+                onChange={(event) => updateFilter('class_id', event.target.value)}
+              >
+                <option value="">All classes</option>
+                {classes.map((schoolClass) => (
+                  <option key={schoolClass.id} value={String(schoolClass.id)}>
+                    {schoolClass.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-2 col-md-4 col-12 form-group">
+              <label htmlFor="bank-topic">Topic</label>
+              <select
+                id="bank-topic"
+                className="form-control"
+                value={filters.topic}
+                onChange={(event) => updateFilter('topic', event.target.value)}
+              >
+                <option value="">All topics</option>
+                {topics.map((topic) => (
+                  <option key={topic} value={topic}>
+                    {topic}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-2 col-md-4 col-12 form-group">
+              <label htmlFor="bank-difficulty">Difficulty</label>
+              <select
+                id="bank-difficulty"
+                className="form-control"
+                value={filters.difficulty}
+                onChange={(event) =>
+                  updateFilter('difficulty', event.target.value as BankFilters['difficulty'])
+                }
+              >
+                <option value="">Any</option>
+                {QUESTION_DIFFICULTIES.map((entry) => (
+                  <option key={entry.value} value={entry.value}>
+                    {entry.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-3 col-md-4 col-12 form-group">
+              <label htmlFor="bank-bloom">Bloom Level</label>
+              <select
+                id="bank-bloom"
+                className="form-control"
+                value={filters.bloom_level}
+                onChange={(event) =>
+                  updateFilter('bloom_level', event.target.value as BankFilters['bloom_level'])
+                }
+              >
+                <option value="">Any</option>
+                {BLOOM_LEVELS.map((entry) => (
+                  <option key={entry.value} value={entry.value}>
+                    {entry.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <input
+                type="search"
+                className="form-control"
+                placeholder="Search question text"
+                value={filters.search}
+                onChange={(event) => updateFilter('search', event.target.value)}
+              />
+            </div>
+          </div>
+
+          {!filters.subject_id ? (
+            <p className="text-muted mb-0">Select a subject to browse its question bank.</p>
+          ) : (
+            <>
+              <div className="table-responsive">
+                <table className="table display text-nowrap">
+                  <thead>
+                    <tr>
+                      <th>Question</th>
+                      <th>Type</th>
+                      <th>Topic</th>
+                      <th>Difficulty</th>
+                      <th>Bloom</th>
+                      <th>Classes</th>
+                      <th className="text-right">Used</th>
+                      <th className="text-right">Correct</th>
+                      {canManage ? <th /> : null}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loading ? (
+                      <tr>
+                        <td colSpan={9}>Loading questions…</td>
+                      </tr>
+                    ) : questions.length === 0 ? (
+                      <tr>
+                        <td colSpan={9} className="text-muted">
+                          No questions match these filters.
+                        </td>
+                      </tr>
+                    ) : (
+                      questions.map((question) => (
+                        <tr key={question.id}>
+                          <td style={{ whiteSpace: 'normal', minWidth: 260 }}>
+                            {question.question_text.slice(0, 120)}
+                            {question.question_text.length > 120 ? '…' : ''}
+                            <div className="text-muted small">{question.marks} mark(s)</div>
+                          </td>
+                          <td>{questionTypeLabels[question.question_type]}</td>
+                          <td>{question.topic ?? '—'}</td>
+                          <td>{difficultyLabel(question.difficulty)}</td>
+                          <td>{bloomLabel(question.bloom_level)}</td>
+                          <td>
+                            {question.class_ids.length
+                              ? question.class_ids.map(className).join(', ')
+                              : 'Any'}
+                          </td>
+                          <td className="text-right">{question.usage?.times_used ?? 0}</td>
+                          <td
+                            className={`text-right ${correctnessClass(question.usage?.average_correctness)}`}
+                            title={
+                              question.usage?.answers
+                                ? `${question.usage.answers} answers`
+                                : 'Not answered yet'
+                            }
+                          >
+                            {typeof question.usage?.average_correctness === 'number'
+                              ? `${question.usage.average_correctness.toFixed(0)}%`
+                              : '—'}
+                          </td>
+                          {canManage ? (
+                            <td>
+                              <button
+                                type="button"
+                                className="btn btn-sm btn-outline-primary mr-2"
+                                onClick={() => setEditor(editorFromQuestion(question))}
+                              >
+                                Edit
+                              </button>
+                              <button
+                                type="button"
+                                className="btn btn-sm btn-outline-danger"
+                                onClick={() => void handleDelete(question)}
+                              >
+                                Delete
+                              </button>
+                            </td>
+                          ) : null}
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              <div className="d-flex justify-content-between align-items-center">
+                <small className="text-muted">{total} question(s)</small>
+                <div>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-outline-secondary mr-2"
+                    onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                    disabled={page <= 1}
+                  >
+                    Previous
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-outline-secondary"
+                    onClick={() => setPage((prev) => Math.min(lastPage, prev + 1))}
+                    disabled={page >= lastPage}
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {editor ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            <div className="heading-layout1">
+              <div className="item-title">
+                <h3>{editor.id ? 'Edit Bank Question' : 'New Bank Question'}</h3>
+              </div>
+              <button type="button" className="btn btn-sm btn-outline-secondary" onClick={() => setEditor(null)}>
+                Close
+              </button>
+            </div>
+
+            <div className="row gutters-8">
+              <div className="col-12 form-group">
+                <label htmlFor="editor-text">Question *</label>
+                <textarea
+                  id="editor-text"
+                  className="form-control"
+                  rows={3}
+                  value={editor.question_text}
+                  onChange={(event) => setEditor({ ...editor, question_text: event.target.value })}
+                />
+              </div>
+              <div className="col-lg-3 col-md-6 col-12 form-group">
+                <label htmlFor="editor-type">Type</label>
+                <select
+                  id="editor-type"
+                  className="form-control"
+                  value={editor.question_type}
+                  onChange={(event) => {
+                    const nextType = event.target.value as QuizQuestionType;
+                    setEditor({ ...editor, question_type: nextType, options: blankOptions(nextType) });
+                  }}
+                >
+                  {Object.entries(questionTypeLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-lg-1 col-md-2 col-12 form-group">
+                <label htmlFor="editor-marks">Marks</label>
+                <input
+                  id="editor-marks"
+                  type="number"
+                  min={1}
+                  className="form-control"
+                  value={editor.marks}
+                  onChange={(event) => setEditor({ ...editor, marks: Number(event.target.value) || 0 })}
+                />
+              </div>
+              <div className="col-lg-3 col-md-4 col-12 form-group">
+                <label htmlFor="editor-topic">Topic</label>
+                <input
+                  id="editor-topic"
+                  type="text"
+                  className="form-control"
+                  list="bank-topic-options"
+                  value={editor.topic}
+                  onChange={(event) => setEditor({ ...editor, topic: event.target.value })}
+                />
+                <datalist id="bank-topic-options">
+                  {topics.map((topic) => (
+                    <option key={topic} value={topic} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="col-lg-2 col-md-6 col-12 form-group">
+                <label htmlFor="editor-difficulty">Difficulty</label>
+                <select
+                  id="editor-difficulty"
+                  className="form-control"
+                  value={editor.difficulty}
+                  onChange={(event) =>
+                    setEditor({ ...editor, difficulty: event.target.value as QuestionDifficulty })
+                  }
+                >
+                  {QUESTION_DIFFICULTIES.map((entry) => (
+                    <option key={entry.value} value={entry.value}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-lg-3 col-md-6 col-12 form-group">
+                <label htmlFor="editor-bloom">Bloom Level</label>
+                <select
+                  id="editor-bloom"
+                  className="form-control"
+                  value={editor.bloom_level}
+                  onChange={(event) =>
+                    setEditor({ ...editor, bloom_level: event.target.value as EditorState['bloom_level'] })
+                  }
+                >
+                  <option value="">Not set</option>
+                  {BLOOM_LEVELS.map((entry) => (
+                    <option key={entry.value} value={entry.value}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-12 form-group">
+                <label className="d-block">Classes</label>
+                {classes.map((schoolClass) => {
+                  const id = String(schoolClass.id);
+                  return (
+                    <label key={id} className="mr-3 font-weight-normal">
+                      <input
+                        type="checkbox"
+                        className="mr-1"
+                        checked={editor.class_ids.includes(id)}
+                        onChange={(event) =>
+                          setEditor({
+                            ...editor,
+                            class_ids: event.target.checked
+                              ? [...editor.class_ids, id]
+                              : editor.class_ids.filter((entry) => entry !== id),
+                          })
+                        }
+                      />
+                      {schoolClass.name}
+                    </label>
+                  );
+                })}
+                <small className="form-text text-muted">Leave all unticked to use the question in any class.</small>
+              </div>
+            </div>
+
+            {editor.question_type === 'short_answer' ? (
+              <div className="row gutters-8">
+                <div className="col-md-5 col-12 form-group">
+                  <label htmlFor="editor-answers">Accepted Answers</label>
+                  <textarea
+                    id="editor-answers"
+                    className="form-control"
+                    rows={3}
+                    placeholder="One per line"
+                    value={editor.short_answer_answers}
+                    onChange={(event) => setEditor({ ...editor, short_answer_answers: event.target.value })}
+                  />
+                </div>
+                <div className="col-md-4 col-12 form-group">
+                  <label htmlFor="editor-keywords">Keywords</label>
+                  <textarea
+                    id="editor-keywords"
+                    className="form-control"
+                    rows={3}
+                    placeholder="One per line"
+                    value={editor.short_answer_keywords}
+                    onChange={(event) => setEditor({ ...editor, short_answer_keywords: event.target.value })}
+                  />
+                </div>
+                <div className="col-md-3 col-12 form-group">
+                  <label htmlFor="editor-match">Matching</label>
+                  <select
+                    id="editor-match"
+                    className="form-control"
+                    value={editor.short_answer_match}
+                    onChange={(event) =>
+                      setEditor({ ...editor, short_answer_match: event.target.value as ShortAnswerMatch })
+                    }
+                  >
+                    <option value="exact">Exact match</option>
+                    <option value="contains">Answer contains phrase</option>
+                    <option value="keywords">Keyword match</option>
+                  </select>
+                </div>
+              </div>
+            ) : (
+              <div className="form-group">
+                <label className="d-block">Options (tick the correct answer)</label>
+                {editor.options.map((option, index) => (
+                  <div key={index} className="d-flex align-items-center mb-2">
+                    <input
+                      type={editor.question_type === 'multiple_select' ? 'checkbox' : 'radio'}
+                      name="bank-correct-option"
+                      className="mr-2"
+                      checked={option.is_correct}
+                      onChange={(event) => updateOption(index, { is_correct: event.target.checked })}
+                    />
+                    <input
+                      type="text"
+                      className="form-control"
+                      value={option.option_text}
+                      disabled={editor.question_type === 'true_false'}
+                      onChange={(event) => updateOption(index, { option_text: event.target.value })}
+                    />
+                  </div>
+                ))}
+                {editor.question_type !== 'true_false' ? (
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-outline-secondary"
+                    onClick={() =>
+                      setEditor({
+                        ...editor,
+                        options: [
+                          ...editor.options,
+                          { option_text: '', order: editor.options.length + 1, is_correct: false },
+                        ],
+                      })
+                    }
+                  >
+                    + Add Option
+                  </button>
+                ) : null}
+              </div>
+            )}
+
+            <div className="form-group">
+              <label htmlFor="editor-explanation">Explanation</label>
+              <textarea
+                id="editor-explanation"
+                className="form-control"
+                rows={2}
+                value={editor.explanation}
+                onChange={(event) => setEditor({ ...editor, explanation: event.target.value })}
+              />
+            </div>
+
+            <button
+              type="button"
+              className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+              onClick={() => void handleSave()}
+              disabled={saving}
+            >
+              {saving ? 'Saving…' : 'Save to Bank'}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
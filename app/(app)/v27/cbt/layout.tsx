@@ -1,4 +1,5 @@
 import React from 'react';
+import { CbtSubmissionSync } from '@/components/cbt/CbtSubmissionSync';
 
 export const metadata = {
   title: 'Computer-Based Test (CBT)',
@@ -13,6 +14,7 @@ export default function CBTLayout({
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       {children}
+      <CbtSubmissionSync />
     </div>
   );
 }
@@ -5,6 +5,11 @@ import { useRouter } from 'next/navigation';
 import { StudentAuthProvider, useStudentAuth } from '@/contexts/StudentAuthContext';
 import { apiFetch } from '@/lib/apiClient';
 import { getErrorMessage } from "@/lib/errors";
+import {
+  OFFLINE_PIN_PATTERN,
+  listOfflineQuizzes,
+  prepareQuizForOffline,
+} from '@/lib/cbtOffline';
 
 interface Quiz {
   id: string;
@@ -96,6 +101,11 @@ function StudentQuizPortal() {
   const [error, setError] = useState<string | null>(null);
   const [subjectFilter, setSubjectFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [offlineQuizIds, setOfflineQuizIds] = useState<Set<string>>(new Set());
+  const [preparingQuizId, setPreparingQuizId] = useState<string | null>(null);
+  // The quiz whose offline PIN is being chosen before it is saved.
+  const [pinQuizId, setPinQuizId] = useState<string | null>(null);
+  const [offlinePin, setOfflinePin] = useState('');
 
   useEffect(() => {
     if (authLoading) {
@@ -125,6 +135,47 @@ function StudentQuizPortal() {
     loadQuizzes();
   }, [authLoading, student, router]);
 
+  useEffect(() => {
+    if (!student) return;
+    listOfflineQuizzes()
+      .then((items) =>
+        setOfflineQuizIds(
+          new Set(
+            items
+              .filter((item) => String(item.student.id) === String(student.id))
+              .map((item) => String(item.quizId)),
+          ),
+        ),
+      )
+      .catch(() => setOfflineQuizIds(new Set()));
+  }, [student]);
+
+  const handlePrepareOffline = async (quizId: string) => {
+    if (!student) return;
+    if (!OFFLINE_PIN_PATTERN.test(offlinePin)) {
+      setError('Choose an offline PIN of 4 to 8 digits. You will need it to open this quiz offline.');
+      return;
+    }
+    setPreparingQuizId(quizId);
+    try {
+      const offlinePackage = await prepareQuizForOffline(quizId, student, { pin: offlinePin });
+      setPinQuizId(null);
+      setOfflinePin('');
+      setOfflineQuizIds((previous) => new Set(previous).add(String(quizId)));
+      if (offlinePackage.failedImages.length) {
+        setError(
+          `${offlinePackage.failedImages.length} image(s) could not be saved for offline use. Questions will still load, but those images need a connection.`,
+        );
+      } else {
+        setError(null);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to prepare quiz for offline use'));
+    } finally {
+      setPreparingQuizId(null);
+    }
+  };
+
   const subjectOptions = useMemo(() => {
     const map = new Map<string, string>();
     quizzes.forEach((quiz) => {
@@ -484,6 +535,25 @@ function StudentQuizPortal() {
           transform: none;
         }
 
+        .cbt-quiz-actions {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+          align-items: center;
+        }
+
+        .cbt-offline-ready {
+          font-size: 12px;
+          font-weight: 600;
+          color: #1f756d;
+          text-transform: uppercase;
+        }
+
+        .cbt-offline-pin {
+          width: 120px;
+          padding: 8px 10px;
+        }
+
         .cbt-secondary-btn {
           background: #fff;
           border: 1px solid var(--cbt-border);
@@ -702,6 +772,45 @@ function StudentQuizPortal() {
                       )}
                     </span>
                   ) : (
+                    <div className="cbt-quiz-actions">
+                    {student && canStart ? (
+                      offlineQuizIds.has(String(quiz.id)) ? (
+                        <span className="cbt-offline-ready">Ready offline</span>
+                      ) : pinQuizId === quiz.id ? (
+                        <>
+                          <input
+                            type="password"
+                            inputMode="numeric"
+                            autoComplete="new-password"
+                            value={offlinePin}
+                            onChange={(event) => setOfflinePin(event.target.value)}
+                            className="cbt-input cbt-offline-pin"
+                            placeholder="Offline PIN"
+                            aria-label="Offline PIN"
+                            autoFocus
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handlePrepareOffline(quiz.id)}
+                            className="cbt-btn cbt-secondary-btn"
+                            disabled={preparingQuizId === quiz.id}
+                          >
+                            {preparingQuizId === quiz.id ? 'Saving…' : 'Save'}
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setPinQuizId(quiz.id);
+                            setOfflinePin('');
+                          }}
+                          className="cbt-btn cbt-secondary-btn"
+                        >
+                          Save for offline
+                        </button>
+                      )
+                    ) : null}
                     <button
                       type="button"
                       onClick={() => {
@@ -721,6 +830,7 @@ function StudentQuizPortal() {
                     >
                       {isAttemptLocked ? 'Attempted' : 'Start quiz'}
                     </button>
+                    </div>
                   )}
                 </div>
               </div>
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { getErrorMessage } from "@/lib/errors";
+import {
+  getQueuedSubmission,
+  syncQueuedSubmissions,
+  type QueuedSubmission,
+} from '@/lib/cbtOffline';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+const statusCopy: Record<QueuedSubmission['status'], { label: string; detail: string; className: string }> = {
+  pending: {
+    label: 'Pending sync',
+    detail:
+      'Your answers are saved on this computer and will be sent automatically when the connection returns. Do not clear this browser.',
+    className: 'bg-yellow-100 text-yellow-800',
+  },
+  syncing: {
+    label: 'Sending…',
+    detail: 'Your answers are being sent to the school server now.',
+    className: 'bg-blue-100 text-blue-800',
+  },
+  submitted: {
+    label: 'Submitted',
+    detail: 'Your quiz has reached the school server.',
+    className: 'bg-green-100 text-green-800',
+  },
+  failed: {
+    label: 'Needs attention',
+    detail:
+      'The server did not accept this submission. Your answers are still saved on this computer; please call an invigilator.',
+    className: 'bg-red-100 text-red-800',
+  },
+  waiting_for_student: {
+    label: 'Waiting for you to sign in',
+    detail:
+      'Another student is signed in on this computer. Your answers are still saved here and will be sent once you sign in again.',
+    className: 'bg-yellow-100 text-yellow-800',
+  },
+};
+
+export default function QueuedSubmissionPage() {
+  const params = useParams();
+  const router = useRouter();
+  const submissionId = decodeURIComponent(params.submissionId as string);
+
+  const [submission, setSubmission] = useState<QueuedSubmission | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSubmission(await getQueuedSubmission(submissionId));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to read the saved submission'));
+    } finally {
+      setLoading(false);
+    }
+  }, [submissionId]);
+
+  useEffect(() => {
+    void refresh();
+    const interval = setInterval(() => {
+      void refresh();
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const handleRetry = async () => {
+    await syncQueuedSubmissions({ force: true }).catch(() => undefined);
+    await refresh();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const copy = submission ? statusCopy[submission.status] : null;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-12">
+      <div className="bg-white rounded-lg shadow-md p-8">
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+          </div>
+        )}
+
+        {!submission || !copy ? (
+          <p className="text-gray-600">
+            This submission is not stored on this computer. If you submitted from another
+            machine, ask your invigilator to check that machine.
+          </p>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{submission.quizTitle}</h1>
+            <p className="text-gray-600 mb-6">
+              {submission.studentName} · {submission.admissionNo}
+            </p>
+
+            <span className={`inline-block px-3 py-1 rounded-full text-sm font-bold ${copy.className}`}>
+              {copy.label}
+            </span>
+            <p className="text-gray-700 mt-4">{copy.detail}</p>
+
+            <dl className="mt-6 text-sm text-gray-600">
+              <div className="flex justify-between py-1">
+                <dt>Answers recorded</dt>
+                <dd>{submission.answers.length}</dd>
+              </div>
+              <div className="flex justify-between py-1">
+                <dt>Finished at</dt>
+                <dd>{new Date(submission.finishedAt).toLocaleString()}</dd>
+              </div>
+              {submission.submittedAt && (
+                <div className="flex justify-between py-1">
+                  <dt>Received by server</dt>
+                  <dd>{new Date(submission.submittedAt).toLocaleString()}</dd>
+                </div>
+              )}
+            </dl>
+
+            <div className="mt-8 flex gap-4">
+              {submission.status === 'submitted' && submission.resultId ? (
+                <button
+                  onClick={() => router.push(`/cbt/results/${submission.resultId}`)}
+                  className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700"
+                >
+                  View result
+                </button>
+              ) : null}
+              {submission.status === 'pending' || submission.status === 'failed' ? (
+                <button
+                  onClick={handleRetry}
+                  className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700"
+                >
+                  Try sending now
+                </button>
+              ) : null}
+            </div>
+          </>
+        )}
+
+        <div className="mt-8">
+          <button
+            onClick={() => router.push('/cbt')}
+            className="text-indigo-600 hover:text-indigo-800 font-medium"
+          >
+            ← Back to Quizzes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,18 +2,26 @@
 
 import Link from "next/link";
 import { FormEvent, useEffect, useMemo, useState } from "react";
+import {
+  CustomPagesEditor,
+  EventsEditor,
+  GalleryEditor,
+  NewsPostsEditor,
+} from "@/components/website/ContentListEditors";
 import { useAuth } from "@/contexts/AuthContext";
 import { ApiError } from "@/lib/apiClient";
 import { publicWebsitePreviewUrl } from "@/lib/config";
 import { userHasRole } from "@/lib/roleChecks";
 import {
   createDefaultSchoolWebsite,
+  findSlugProblem,
   getGoLiveStatus,
   getPreviewLink,
   getSchoolWebsite,
   GoLiveCooldownError,
   GoLiveDomainNotReadyError,
   requestGoLive,
+  sanitizeRichText,
   saveSchoolWebsite,
   THEME_OPTIONS,
   type GoLiveRequest,
@@ -40,6 +48,23 @@ const STATUS_LABELS: Record<SchoolWebsiteStatus | "unconfigured", string> = {
   unpublished: "Unpublished",
 };
 
+type ContentListKey = "news" | "events" | "gallery" | "pages";
+
+type RemoveTargetType =
+  | "highlight"
+  | "programme"
+  | "news post"
+  | "event"
+  | "album"
+  | "page";
+
+const CONTENT_LIST_BY_REMOVE_TYPE: Partial<Record<RemoveTargetType, ContentListKey>> = {
+  "news post": "news",
+  event: "events",
+  album: "gallery",
+  page: "pages",
+};
+
 const STATUS_DOT_COLOR: Record<SchoolWebsiteStatus | "unconfigured", string> = {
   unconfigured: "#adb5bd",
   draft: "#ffc107",
@@ -74,17 +99,26 @@ export default function WebsiteManagementPage() {
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   const [activeTab, setActiveTab] = useState<
-    "branding" | "homepage" | "about" | "admissions" | "contact" | "programmes"
+    | "branding"
+    | "homepage"
+    | "about"
+    | "admissions"
+    | "contact"
+    | "programmes"
+    | ContentListKey
   >("branding");
   const [showPublishConfirm, setShowPublishConfirm] = useState(false);
   const [removeTarget, setRemoveTarget] = useState<
-    { type: "highlight" | "programme"; index: number } | null
+    { type: RemoveTargetType; index: number } | null
   >(null);
   const [justMoved, setJustMoved] = useState<
     { type: "highlight" | "programme"; id: string } | null
   >(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // The signed backend link; the iframe URL is derived from it plus the
+  // page picked in the preview toolbar.
+  const [previewLink, setPreviewLink] = useState<string | null>(null);
+  const [previewPage, setPreviewPage] = useState("");
   const [previewLoading, setPreviewLoading] = useState(false);
   const [previewError, setPreviewError] = useState<string | null>(null);
 
@@ -505,6 +539,24 @@ export default function WebsiteManagementPage() {
     );
   };
 
+  const updateContentList = <K extends ContentListKey>(
+    key: K,
+    items: SchoolWebsitePayload[K],
+  ) => {
+    setForm((prev) => (prev ? { ...prev, [key]: items } : prev));
+  };
+
+  const removeContentItem = (key: ContentListKey, index: number) => {
+    setForm((prev) =>
+      prev
+        ? {
+            ...prev,
+            [key]: (prev[key] as { id: string }[]).filter((_, i) => i !== index),
+          }
+        : prev,
+    );
+  };
+
   const showToast = (message: string) => {
     setToastMessage(message);
     setTimeout(() => setToastMessage(null), 2500);
@@ -537,6 +589,13 @@ export default function WebsiteManagementPage() {
       return;
     }
 
+    const slugProblem = findSlugProblem(form);
+    if (slugProblem) {
+      setSubmitError(slugProblem);
+      setSubmittingStatus(null);
+      return;
+    }
+
     const heroTitle = form.hero.title.trim() || school?.name || "Our School";
     const heroDescription = form.hero.description.trim();
 
@@ -547,6 +606,14 @@ export default function WebsiteManagementPage() {
       // so force it true here too in case an older record was saved with
       // it false before that control was removed.
       enabledSections: { ...form.enabledSections, hero: true },
+      news: form.news.map((post) => ({
+        ...post,
+        bodyHtml: sanitizeRichText(post.bodyHtml),
+      })),
+      pages: form.pages.map((page) => ({
+        ...page,
+        bodyHtml: sanitizeRichText(page.bodyHtml),
+      })),
       seo: {
         ...form.seo,
         title: heroTitle,
@@ -610,7 +677,8 @@ export default function WebsiteManagementPage() {
           "This school has no slug yet, so a preview link can't be built.",
         );
       }
-      setPreviewUrl(embedUrl);
+      setPreviewPage("");
+      setPreviewLink(link.url);
     } catch (error) {
       console.error("Failed to load preview link", error);
       setPreviewError(
@@ -623,6 +691,38 @@ export default function WebsiteManagementPage() {
     }
   };
 
+  const previewUrl = previewLink
+    ? publicWebsitePreviewUrl(school?.slug ?? null, previewLink, previewPage)
+    : null;
+
+  // Every page the saved draft renders, for the preview's page picker.
+  const previewPages: { path: string; label: string }[] = [
+    { path: "", label: "Home" },
+    ...(form.enabledSections.news
+      ? [
+          { path: "news", label: "News" },
+          ...form.news.map((post) => ({
+            path: `news/${post.slug}`,
+            label: `News: ${post.title || post.slug}`,
+          })),
+        ]
+      : []),
+    ...(form.enabledSections.events ? [{ path: "events", label: "Events" }] : []),
+    ...(form.enabledSections.gallery
+      ? [
+          { path: "gallery", label: "Gallery" },
+          ...form.gallery.map((album) => ({
+            path: `gallery/${album.slug}`,
+            label: `Album: ${album.title || album.slug}`,
+          })),
+        ]
+      : []),
+    ...form.pages.map((page) => ({
+      path: page.slug,
+      label: `Page: ${page.title || page.slug}`,
+    })),
+  ];
+
   const handleGoLiveClick = () => {
     setGoLiveError(null);
     setShowGoLiveConfirm(true);
@@ -902,6 +1002,10 @@ export default function WebsiteManagementPage() {
                       ["admissions", "Admissions"],
                       ["programmes", "Programmes"],
                       ["contact", "Contact"],
+                      ["news", "News"],
+                      ["events", "Events"],
+                      ["gallery", "Gallery"],
+                      ["pages", "Pages"],
                     ] as const
                   ).map(([key, label]) => (
                     <button
@@ -1885,6 +1989,136 @@ export default function WebsiteManagementPage() {
                 </div>
                 </div>
 
+                <div style={{ display: activeTab === "news" ? "block" : "none" }}>
+                <div className="d-flex align-items-center justify-content-end mt-4">
+                  <label
+                    htmlFor="enabled-section-news"
+                    style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}
+                  >
+                    <span style={{ fontWeight: 600, color: "#212529" }}>
+                      Show News page
+                    </span>
+                    <input
+                      type="checkbox"
+                      className="permission-checkbox"
+                      id="enabled-section-news"
+                      checked={form.enabledSections.news}
+                      onChange={(event) =>
+                        updateEnabledSection("news", event.target.checked)
+                      }
+                    />
+                  </label>
+                </div>
+                <div
+                  style={
+                    form.enabledSections.news
+                      ? undefined
+                      : { opacity: 0.5, pointerEvents: "none" }
+                  }
+                >
+                  <NewsPostsEditor
+                    items={form.news}
+                    onChange={(items) => updateContentList("news", items)}
+                    onRequestRemove={(index) =>
+                      setRemoveTarget({ type: "news post", index })
+                    }
+                    fieldError={fieldError}
+                  />
+                </div>
+                </div>
+
+                <div style={{ display: activeTab === "events" ? "block" : "none" }}>
+                <div className="d-flex align-items-center justify-content-end mt-4">
+                  <label
+                    htmlFor="enabled-section-events"
+                    style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}
+                  >
+                    <span style={{ fontWeight: 600, color: "#212529" }}>
+                      Show Events page
+                    </span>
+                    <input
+                      type="checkbox"
+                      className="permission-checkbox"
+                      id="enabled-section-events"
+                      checked={form.enabledSections.events}
+                      onChange={(event) =>
+                        updateEnabledSection("events", event.target.checked)
+                      }
+                    />
+                  </label>
+                </div>
+                <div
+                  style={
+                    form.enabledSections.events
+                      ? undefined
+                      : { opacity: 0.5, pointerEvents: "none" }
+                  }
+                >
+                  <EventsEditor
+                    items={form.events}
+                    onChange={(items) => updateContentList("events", items)}
+                    onRequestRemove={(index) =>
+                      setRemoveTarget({ type: "event", index })
+                    }
+                    fieldError={fieldError}
+                  />
+                </div>
+                </div>
+
+                <div style={{ display: activeTab === "gallery" ? "block" : "none" }}>
+                <div className="d-flex align-items-center justify-content-end mt-4">
+                  <label
+                    htmlFor="enabled-section-gallery"
+                    style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}
+                  >
+                    <span style={{ fontWeight: 600, color: "#212529" }}>
+                      Show Gallery page
+                    </span>
+                    <input
+                      type="checkbox"
+                      className="permission-checkbox"
+                      id="enabled-section-gallery"
+                      checked={form.enabledSections.gallery}
+                      onChange={(event) =>
+                        updateEnabledSection("gallery", event.target.checked)
+                      }
+                    />
+                  </label>
+                </div>
+                <div
+                  style={
+                    form.enabledSections.gallery
+                      ? undefined
+                      : { opacity: 0.5, pointerEvents: "none" }
+                  }
+                >
+                  <GalleryEditor
+                    items={form.gallery}
+                    onChange={(items) => updateContentList("gallery", items)}
+                    onRequestRemove={(index) =>
+                      setRemoveTarget({ type: "album", index })
+                    }
+                    fieldError={fieldError}
+                  />
+                </div>
+                </div>
+
+                <div style={{ display: activeTab === "pages" ? "block" : "none" }}>
+                <p className="text-muted mt-4" style={{ fontSize: "13px" }}>
+                  Each page gets its own web address and, if you choose, a
+                  link in the navigation bar. Pages are live as soon as the
+                  website is published.
+                </p>
+                <CustomPagesEditor
+                  items={form.pages}
+                  onChange={(items) => updateContentList("pages", items)}
+                  onRequestRemove={(index) =>
+                    setRemoveTarget({ type: "page", index })
+                  }
+                  fieldError={fieldError}
+                />
+                </div>
+
                 {!canManage ? (
                   <p className="text-muted mt-3">
                     You have read-only access to Website Management and cannot
@@ -2141,7 +2375,10 @@ export default function WebsiteManagementPage() {
                 className="btn-fill-lg"
                 style={{ color: "#fff", background: "#b91c1c" }}
                 onClick={() => {
-                  if (removeTarget.type === "highlight") {
+                  const contentList = CONTENT_LIST_BY_REMOVE_TYPE[removeTarget.type];
+                  if (contentList) {
+                    removeContentItem(contentList, removeTarget.index);
+                  } else if (removeTarget.type === "highlight") {
                     removeHighlight(removeTarget.index);
                   } else {
                     removeProgramme(removeTarget.index);
@@ -2171,7 +2408,7 @@ export default function WebsiteManagementPage() {
             justifyContent: "center",
             padding: "2rem",
           }}
-          onClick={() => setPreviewUrl(null)}
+          onClick={() => setPreviewLink(null)}
         >
           <div
             style={{
@@ -2190,11 +2427,28 @@ export default function WebsiteManagementPage() {
               className="d-flex align-items-center justify-content-between"
               style={{ padding: "0.75rem 1rem", borderBottom: "1px solid #e2e8f0" }}
             >
-              <strong>Preview</strong>
+              <div className="d-flex align-items-center" style={{ gap: 12 }}>
+                <strong>Preview</strong>
+                {previewPages.length > 1 ? (
+                  <select
+                    className="form-control form-control-sm"
+                    style={{ width: "auto", maxWidth: 320 }}
+                    aria-label="Preview page"
+                    value={previewPage}
+                    onChange={(event) => setPreviewPage(event.target.value)}
+                  >
+                    {previewPages.map((page) => (
+                      <option key={page.path || "home"} value={page.path}>
+                        {page.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
+              </div>
               <button
                 type="button"
                 className="btn btn-sm btn-outline-secondary"
-                onClick={() => setPreviewUrl(null)}
+                onClick={() => setPreviewLink(null)}
               >
                 Close
               </button>
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParentAuth } from "@/contexts/ParentAuthContext";
+import { childDisplayName } from "@/lib/parentAuth";
+import {
+  getStudentAttendance,
+  type StudentAttendanceHistory,
+  type StudentAttendanceStatus,
+} from "@/lib/studentAttendance";
+import {
+  listStudentSessions,
+  type StudentSessionOption,
+} from "@/lib/studentResults";
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const statusMeta: Record<StudentAttendanceStatus, { label: string; className: string }> = {
+  present: { label: "Present", className: "badge badge-pill badge-success" },
+  absent: { label: "Absent", className: "badge badge-pill badge-danger" },
+  late: { label: "Late", className: "badge badge-pill badge-warning" },
+  excused: { label: "Excused", className: "badge badge-pill badge-info" },
+};
+
+function dateMonth(value?: string | null): string | null {
+  const match = value?.match(/^(\d{4}-\d{2})/);
+  return match?.[1] ?? null;
+}
+
+function clampMonthToTerm(
+  value: string,
+  term?: { start_date?: string | null; end_date?: string | null },
+): string {
+  const firstMonth = dateMonth(term?.start_date);
+  const lastMonth = dateMonth(term?.end_date);
+
+  if (firstMonth && value < firstMonth) return firstMonth;
+  if (lastMonth && value > lastMonth) return lastMonth;
+  return value;
+}
+
+export default function ParentAttendancePage() {
+  const { selectedChild } = useParentAuth();
+  const childId = selectedChild?.id ?? "";
+  const [sessions, setSessions] = useState<StudentSessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [termId, setTermId] = useState("");
+  const [month, setMonth] = useState(currentMonth);
+  const [attendance, setAttendance] =
+    useState<StudentAttendanceHistory | null>(null);
+  const [loadingAttendance, setLoadingAttendance] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!childId) return;
+    let cancelled = false;
+
+    void listStudentSessions({ childId })
+      .then(({ sessions: options }) => {
+        if (cancelled) return;
+        setSessions(options);
+
+        const preferredSession =
+          options.find(
+            (option) =>
+              String(option.id) === String(selectedChild?.current_session?.id),
+          ) ?? options[0];
+        const preferredTerm =
+          preferredSession?.terms?.find(
+            (term) => String(term.id) === String(selectedChild?.current_term?.id),
+          ) ?? preferredSession?.terms?.[0];
+
+        setSessionId(preferredSession ? String(preferredSession.id) : "");
+        setTermId(preferredTerm ? String(preferredTerm.id) : "");
+        if (preferredTerm) {
+          setMonth((value) => clampMonthToTerm(value, preferredTerm));
+        } else {
+          setLoadingAttendance(false);
+        }
+      })
+      .catch((optionsError) => {
+        if (cancelled) return;
+        setError(
+          optionsError instanceof Error
+            ? optionsError.message
+            : "Unable to load academic sessions.",
+        );
+        setLoadingAttendance(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childId, selectedChild?.current_session?.id, selectedChild?.current_term?.id]);
+
+  useEffect(() => {
+    if (!childId || !sessionId || !termId || !month) {
+      return;
+    }
+
+    let cancelled = false;
+
+    void getStudentAttendance({ sessionId, termId, month }, { childId })
+      .then((data) => {
+        if (!cancelled) {
+          setAttendance(data);
+          setError(null);
+        }
+      })
+      .catch((attendanceError) => {
+        if (cancelled) return;
+        setAttendance(null);
+        setError(
+          attendanceError instanceof Error
+            ? attendanceError.message
+            : "Unable to load attendance.",
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingAttendance(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childId, sessionId, termId, month]);
+
+  const terms = useMemo(
+    () => sessions.find((session) => String(session.id) === sessionId)?.terms ?? [],
+    [sessions, sessionId],
+  );
+  const selectedTerm = terms.find((term) => String(term.id) === termId);
+  const attendanceEntryMode =
+    attendance?.attendance_entry_mode ??
+    selectedTerm?.attendance_entry_mode ??
+    "daily";
+
+  const days = useMemo(
+    () => [...(attendance?.days ?? [])].sort((a, b) => b.date.localeCompare(a.date)),
+    [attendance],
+  );
+
+  if (!selectedChild) {
+    return null;
+  }
+
+  const summary = attendance?.summary;
+
+  return (
+    <>
+      <div className="card height-auto mb-4">
+        <div className="card-body">
+          <div className="heading-layout1 mb-3">
+            <div className="item-title">
+              <h3>Attendance · {childDisplayName(selectedChild)}</h3>
+              <p className="text-muted mb-0">
+                {attendanceEntryMode === "manual"
+                  ? "Choose a session and term to view the attendance summary."
+                  : "Choose a session, term, and month to view the daily record."}
+              </p>
+            </div>
+          </div>
+
+          {error ? <div className="alert alert-danger">{error}</div> : null}
+
+          <div className="row">
+            <div className="col-md-4 mb-3">
+              <label htmlFor="parent-attendance-session">Session</label>
+              <select
+                id="parent-attendance-session"
+                className="form-control"
+                value={sessionId}
+                onChange={(event) => {
+                  const nextSession = sessions.find(
+                    (session) => String(session.id) === event.target.value,
+                  );
+                  setSessionId(event.target.value);
+                  setLoadingAttendance(true);
+                  const nextTerm = nextSession?.terms?.[0];
+                  setTermId(nextTerm ? String(nextTerm.id) : "");
+                  if (nextTerm) {
+                    setMonth((value) => clampMonthToTerm(value, nextTerm));
+                  }
+                }}
+              >
+                <option value="">Select session</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={String(session.id)}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-md-4 mb-3">
+              <label htmlFor="parent-attendance-term">Term</label>
+              <select
+                id="parent-attendance-term"
+                className="form-control"
+                value={termId}
+                disabled={!sessionId}
+                onChange={(event) => {
+                  const nextTerm = terms.find(
+                    (term) => String(term.id) === event.target.value,
+                  );
+                  setLoadingAttendance(true);
+                  setTermId(event.target.value);
+                  if (nextTerm) {
+                    setMonth((value) => clampMonthToTerm(value, nextTerm));
+                  }
+                }}
+              >
+                <option value="">Select term</option>
+                {terms.map((term) => (
+                  <option key={term.id} value={String(term.id)}>
+                    {term.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-md-4 mb-3" hidden={attendanceEntryMode === "manual"}>
+              <label htmlFor="parent-attendance-month">Month</label>
+              <input
+                id="parent-attendance-month"
+                type="month"
+                className="form-control"
+                value={month}
+                min={dateMonth(selectedTerm?.start_date) ?? undefined}
+                max={dateMonth(selectedTerm?.end_date) ?? undefined}
+                onChange={(event) => {
+                  setLoadingAttendance(true);
+                  setMonth(clampMonthToTerm(event.target.value, selectedTerm));
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {summary ? (
+        <div className="row gutters-20">
+          {[
+            ["Present", summary.present, "bg-light-green"],
+            ["Absent", summary.absent, "bg-light-red"],
+            ["Late", summary.late, "bg-skyblue"],
+            ["Attendance", `${summary.percentage}%`, "bg-yellow"],
+          ].map(([label, value, accent]) => (
+            <div className="col-xl-3 col-sm-6 col-12" key={String(label)}>
+              <div className={`dashboard-summery-one ${accent} mg-b-20`}>
+                <div className="item-content text-center">
+                  <div className="item-title">{label}</div>
+                  <div className="item-number">{value}</div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {attendanceEntryMode === "daily" ? (
+        <div className="card height-auto">
+          <div className="card-body">
+            {loadingAttendance ? (
+              <p className="text-muted mb-0">Loading attendance…</p>
+            ) : days.length === 0 ? (
+              <p className="text-muted mb-0">No attendance was recorded this month.</p>
+            ) : (
+              <div className="table-responsive">
+                <table className="table display text-nowrap">
+                  <thead>
+                    <tr>
+                      <th>Date</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {days.map((day) => (
+                      <tr key={day.id}>
+                        <td>
+                          {new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, {
+                            weekday: "short",
+                            day: "numeric",
+                            month: "short",
+                          })}
+                        </td>
+                        <td>
+                          <span className={statusMeta[day.status].className}>
+                            {statusMeta[day.status].label}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import {
+  ParentAuthProvider,
+  useParentAuth,
+} from "@/contexts/ParentAuthContext";
+import { childDisplayName } from "@/lib/parentAuth";
+
+function ParentGuard({ children }: { children: React.ReactNode }) {
+  const {
+    parent,
+    children: linkedChildren,
+    selectedChild,
+    selectChild,
+    loading,
+    logout,
+  } = useParentAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const [signingOut, setSigningOut] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !parent) {
+      router.push("/parent-login");
+    }
+  }, [loading, parent, router]);
+
+  if (loading || !parent) {
+    return (
+      <div className="d-flex justify-content-center align-items-center" style={{ minHeight: "60vh" }}>
+        Loading parent dashboard…
+      </div>
+    );
+  }
+
+  const links = [
+    { href: "/v29/parent-dashboard", label: "Overview" },
+    { href: "/v29/parent-dashboard/results", label: "Results" },
+    { href: "/v29/parent-dashboard/attendance", label: "Attendance" },
+    { href: "/v29/parent-dashboard/fees", label: "Fees" },
+  ];
+
+  return (
+    <div className="row">
+      <aside className="col-lg-3 col-12 mb-4">
+        <div className="card height-auto">
+          <div className="card-body">
+            <h4 className="item-title mb-3">Welcome, {parent.first_name}</h4>
+            {linkedChildren.length > 0 ? (
+              <div className="mb-3">
+                <div className="text-muted small mb-2">Viewing</div>
+                <div className="list-group">
+                  {linkedChildren.map((child) => {
+                    const active = child.id === selectedChild?.id;
+                    return (
+                      <button
+                        key={child.id}
+                        type="button"
+                        className={`list-group-item list-group-item-action${active ? " active" : ""}`}
+                        onClick={() => selectChild(child.id)}
+                        aria-pressed={active}
+                      >
+                        <div className="font-weight-bold">{childDisplayName(child)}</div>
+                        <small className={active ? "" : "text-muted"}>
+                          {[child.school_class?.name, child.class_arm?.name]
+                            .filter(Boolean)
+                            .join(" ") || child.admission_no}
+                        </small>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : null}
+            <ul className="nav flex-column student-nav">
+              {links.map((link) => (
+                <li key={link.href} className="nav-item">
+                  <Link
+                    href={link.href}
+                    className={`nav-link ${
+                      pathname === link.href ? "active font-weight-bold" : ""
+                    }`}
+                  >
+                    {link.label}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              className="btn btn-outline-danger btn-sm mt-3"
+              onClick={async () => {
+                if (signingOut) return;
+                setSigningOut(true);
+                await logout();
+                setSigningOut(false);
+                router.push("/parent-login");
+              }}
+              disabled={signingOut}
+            >
+              {signingOut ? "Signing out…" : "Logout"}
+            </button>
+          </div>
+        </div>
+      </aside>
+      <section className="col-lg-9 col-12">
+        {selectedChild ? (
+          // Keyed so every page starts afresh when the parent switches child.
+          <div key={selectedChild.id}>{children}</div>
+        ) : (
+          <div className="card height-auto">
+            <div className="card-body">
+              <p className="mb-0">
+                No children are linked to your account yet. Ask the school
+                office to link your children to this login.
+              </p>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export default function ParentDashboardLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <ParentAuthProvider>
+      <ParentGuard>{children}</ParentGuard>
+    </ParentAuthProvider>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useParentAuth } from "@/contexts/ParentAuthContext";
+import { childDisplayName } from "@/lib/parentAuth";
+import {
+  listChildUpcomingQuizzes,
+  listParentAnnouncements,
+  type ChildQuiz,
+  type SchoolAnnouncement,
+} from "@/lib/parentPortal";
+import {
+  getStudentAttendance,
+  type StudentAttendanceSummary,
+} from "@/lib/studentAttendance";
+import { getStudentFeeStatement, invoiceBalance } from "@/lib/studentFees";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 2,
+  }).format(value);
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return "Open now";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString(undefined, {
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+};
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+};
+
+export default function ParentOverviewPage() {
+  const { selectedChild } = useParentAuth();
+  const childId = selectedChild?.id ?? "";
+  const sessionId = selectedChild?.current_session?.id ?? "";
+  const termId = selectedChild?.current_term?.id ?? "";
+
+  const [outstanding, setOutstanding] = useState<number | null>(null);
+  const [attendance, setAttendance] = useState<StudentAttendanceSummary | null>(null);
+  const [quizzes, setQuizzes] = useState<ChildQuiz[]>([]);
+  const [announcements, setAnnouncements] = useState<SchoolAnnouncement[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!childId) return;
+    let cancelled = false;
+
+    // Each panel loads on its own so one failing endpoint doesn't blank the page.
+    void getStudentFeeStatement(sessionId ? { session_id: String(sessionId) } : {}, { childId })
+      .then((invoices) => {
+        if (!cancelled) {
+          setOutstanding(
+            invoices.reduce((sum, invoice) => sum + invoiceBalance(invoice), 0),
+          );
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setOutstanding(null);
+      });
+
+    if (sessionId && termId) {
+      void getStudentAttendance(
+        { sessionId: String(sessionId), termId: String(termId), month: currentMonth() },
+        { childId },
+      )
+        .then((history) => {
+          if (!cancelled) setAttendance(history.summary);
+        })
+        .catch(() => {
+          if (!cancelled) setAttendance(null);
+        });
+    }
+
+    void listChildUpcomingQuizzes(childId)
+      .then((items) => {
+        if (!cancelled) setQuizzes(items);
+      })
+      .catch(() => {
+        if (!cancelled) setQuizzes([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childId, sessionId, termId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void listParentAnnouncements()
+      .then((items) => {
+        if (!cancelled) {
+          setAnnouncements(items);
+          setError(null);
+        }
+      })
+      .catch((announcementError) => {
+        if (cancelled) return;
+        setError(
+          announcementError instanceof Error
+            ? announcementError.message
+            : "Unable to load school announcements.",
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!selectedChild) {
+    return null;
+  }
+
+  return (
+    <>
+      <div className="breadcrumbs-area">
+        <h3>{childDisplayName(selectedChild)}</h3>
+        <ul>
+          <li>Parent Dashboard</li>
+          <li>
+            {[selectedChild.school_class?.name, selectedChild.class_arm?.name]
+              .filter(Boolean)
+              .join(" ") || selectedChild.admission_no}
+          </li>
+        </ul>
+      </div>
+
+      <div className="row gutters-20">
+        <div className="col-md-4 col-12">
+          <Link href="/v29/parent-dashboard/fees" className="d-block">
+            <div className="dashboard-summery-one bg-light-red mg-b-20">
+              <div className="item-content text-center">
+                <div className="item-title">Fees Outstanding</div>
+                <div className={`item-number${outstanding ? " text-danger" : ""}`}>
+                  {outstanding === null ? "—" : formatCurrency(outstanding)}
+                </div>
+              </div>
+            </div>
+          </Link>
+        </div>
+        <div className="col-md-4 col-12">
+          <Link href="/v29/parent-dashboard/attendance" className="d-block">
+            <div className="dashboard-summery-one bg-light-green mg-b-20">
+              <div className="item-content text-center">
+                <div className="item-title">Attendance This Month</div>
+                <div className="item-number">
+                  {attendance ? `${attendance.percentage}%` : "—"}
+                </div>
+              </div>
+            </div>
+          </Link>
+        </div>
+        <div className="col-md-4 col-12">
+          <div className="dashboard-summery-one bg-skyblue mg-b-20">
+            <div className="item-content text-center">
+              <div className="item-title">Upcoming Quizzes</div>
+              <div className="item-number">{quizzes.length}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="row gutters-20">
+        <div className="col-lg-6 col-12">
+          <div className="card height-auto mb-4">
+            <div className="card-body">
+              <div className="heading-layout1 mb-3">
+                <div className="item-title">
+                  <h3>Upcoming CBT Quizzes</h3>
+                </div>
+              </div>
+              {quizzes.length === 0 ? (
+                <p className="text-muted mb-0">Nothing scheduled right now.</p>
+              ) : (
+                <ul className="list-unstyled mb-0">
+                  {quizzes.map((quiz) => (
+                    <li key={quiz.id} className="border-bottom py-2">
+                      <div className="font-weight-bold">{quiz.title}</div>
+                      <small className="text-muted">
+                        {[
+                          quiz.subject_name,
+                          formatDateTime(quiz.start_time),
+                          `${quiz.duration_minutes} min`,
+                          `${quiz.total_questions} questions`,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </small>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="col-lg-6 col-12">
+          <div className="card height-auto mb-4">
+            <div className="card-body">
+              <div className="heading-layout1 mb-3">
+                <div className="item-title">
+                  <h3>School Announcements</h3>
+                </div>
+              </div>
+              {error ? <div className="alert alert-danger">{error}</div> : null}
+              {announcements.length === 0 && !error ? (
+                <p className="text-muted mb-0">No announcements yet.</p>
+              ) : (
+                <ul className="list-unstyled mb-0">
+                  {announcements.slice(0, 8).map((announcement) => (
+                    <li key={announcement.id} className="border-bottom py-2">
+                      <div className="d-flex justify-content-between" style={{ gap: 8 }}>
+                        <span className="font-weight-bold">{announcement.title}</span>
+                        <small className="text-muted text-nowrap">
+                          {new Date(announcement.published_at).toLocaleDateString()}
+                        </small>
+                      </div>
+                      {announcement.class_names?.length ? (
+                        <small className="text-muted d-block">
+                          For {announcement.class_names.join(", ")}
+                        </small>
+                      ) : null}
+                      <p className="mb-0 mt-1" style={{ whiteSpace: "pre-line" }}>
+                        {announcement.body}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
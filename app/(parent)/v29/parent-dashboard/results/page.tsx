@@ -0,0 +1,343 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useParentAuth } from "@/contexts/ParentAuthContext";
+import { childDisplayName } from "@/lib/parentAuth";
+import { downloadPrintPdf, openPrintWindow } from "@/lib/printDocuments";
+import {
+  StudentResultEntry,
+  StudentSessionOption,
+  defaultResultTerm,
+  isTermResultPublished,
+  listStudentSessions,
+  previewStudentResult,
+} from "@/lib/studentResults";
+
+export default function ParentResultsPage() {
+  const { selectedChild } = useParentAuth();
+  const childId = selectedChild?.id ?? "";
+  const [sessions, setSessions] = useState<StudentSessionOption[]>([]);
+  const [selectedSession, setSelectedSession] = useState("");
+  const [selectedTerm, setSelectedTerm] = useState("");
+  const [pin, setPin] = useState("");
+  const [requirePinForResultAccess, setRequirePinForResultAccess] =
+    useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [printProcessing, setPrintProcessing] = useState(false);
+  const [pdfProcessing, setPdfProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<StudentResultEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!childId) {
+      return;
+    }
+    void listStudentSessions({ childId })
+      .then(({ sessions: data, requirePinForResultAccess: requiresPin }) => {
+        setSessions(data);
+        setRequirePinForResultAccess(requiresPin);
+        if (data.length > 0) {
+          setSelectedSession(String(data[0].id));
+          const firstTerm = defaultResultTerm(data[0]);
+          if (firstTerm) {
+            setSelectedTerm(String(firstTerm.id));
+          }
+        }
+      })
+      .catch((sessionError) => {
+        console.error("Unable to load sessions", sessionError);
+        setError(
+          sessionError instanceof Error
+            ? sessionError.message
+            : "Unable to load sessions. Please try again.",
+        );
+      });
+  }, [childId]);
+
+  const availableTerms = useMemo(() => {
+    const session = sessions.find((entry) => String(entry.id) === selectedSession);
+    return session?.terms ?? [];
+  }, [sessions, selectedSession]);
+
+  const componentLabels = useMemo(() => {
+    const labels: string[] = [];
+    (results ?? []).forEach((entry) => {
+      (entry.components ?? []).forEach((component) => {
+        const label = component.label ?? "";
+        if (label && !labels.includes(label)) labels.push(label);
+      });
+    });
+    return labels;
+  }, [results]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setResults(null);
+
+    if (!selectedSession || !selectedTerm || (requirePinForResultAccess && !pin)) {
+      setError(
+        requirePinForResultAccess
+          ? "Select a session, term, and enter a valid PIN."
+          : "Select a session and term.",
+      );
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await previewStudentResult(
+        {
+          session_id: selectedSession,
+          term_id: selectedTerm,
+          ...(requirePinForResultAccess ? { pin_code: pin } : {}),
+        },
+        { childId },
+      );
+      setResults(response.results);
+    } catch (previewError) {
+      console.error("Unable to load results", previewError);
+      setError(
+        previewError instanceof Error
+          ? previewError.message
+          : "Unable to fetch results. Please verify the PIN.",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePrintResult = useCallback(async () => {
+    if (!selectedSession || !selectedTerm) {
+      setError("Select session and term before printing.");
+      return;
+    }
+
+    // Opened before any await so pop-up blockers treat it as a click.
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      setError("Unable to open print window. Please allow pop-ups for this site.");
+      return;
+    }
+
+    setPrintProcessing(true);
+    setError(null);
+
+    try {
+      await openPrintWindow(printWindow, "parent-child-result", {
+        child_id: childId,
+        session_id: selectedSession,
+        term_id: selectedTerm,
+      });
+    } catch (err) {
+      printWindow.close();
+      console.error("Unable to print result", err);
+      setError(
+        err instanceof Error ? err.message : "Unable to load printable result.",
+      );
+    } finally {
+      setPrintProcessing(false);
+    }
+  }, [childId, selectedSession, selectedTerm]);
+
+  const handleDownloadPdf = useCallback(async () => {
+    if (!selectedChild || !selectedSession || !selectedTerm) {
+      setError("Select session and term before downloading.");
+      return;
+    }
+
+    setPdfProcessing(true);
+    setError(null);
+
+    try {
+      const sessionName =
+        sessions.find((entry) => String(entry.id) === selectedSession)?.name ?? "";
+      const termName =
+        availableTerms.find((term) => String(term.id) === selectedTerm)?.name ?? "";
+      await downloadPrintPdf(
+        "parent-child-result",
+        { child_id: childId, session_id: selectedSession, term_id: selectedTerm },
+        `${[childDisplayName(selectedChild), sessionName, termName].filter(Boolean).join(" ")}.pdf`,
+      );
+    } catch (err) {
+      console.error("Unable to download result", err);
+      setError(
+        err instanceof Error ? err.message : "Unable to download the result.",
+      );
+    } finally {
+      setPdfProcessing(false);
+    }
+  }, [availableTerms, childId, selectedChild, selectedSession, selectedTerm, sessions]);
+
+  if (!selectedChild) {
+    return null;
+  }
+
+  return (
+    <div className="card height-auto">
+      <div className="card-body">
+        <div className="heading-layout1 mb-4">
+          <div className="item-title">
+            <h3>Results · {childDisplayName(selectedChild)}</h3>
+            <p className="mb-0 text-muted">
+              {requirePinForResultAccess
+                ? "Select a session and term, then enter the result PIN for this child."
+                : "Select a session and term to view results."}
+            </p>
+          </div>
+        </div>
+        {error ? (
+          <div className="alert alert-danger" role="alert">
+            {error}
+          </div>
+        ) : null}
+        <form onSubmit={handleSubmit}>
+          <div className="form-row">
+            <div
+              className={`form-group ${requirePinForResultAccess ? "col-md-4" : "col-md-6"} col-12`}
+            >
+              <label htmlFor="parent-result-session" className="text-dark-medium">
+                Session
+              </label>
+              <select
+                id="parent-result-session"
+                className="form-control"
+                value={selectedSession}
+                onChange={(event) => {
+                  setSelectedSession(event.target.value);
+                  const nextSession = sessions.find(
+                    (item) => String(item.id) === event.target.value,
+                  );
+                  const defaultTerm = defaultResultTerm(nextSession);
+                  setSelectedTerm(defaultTerm ? String(defaultTerm.id) : "");
+                }}
+                required
+              >
+                <option value="">Select session</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={String(session.id)}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div
+              className={`form-group ${requirePinForResultAccess ? "col-md-4" : "col-md-6"} col-12`}
+            >
+              <label htmlFor="parent-result-term" className="text-dark-medium">
+                Term
+              </label>
+              <select
+                id="parent-result-term"
+                className="form-control"
+                value={selectedTerm}
+                onChange={(event) => setSelectedTerm(event.target.value)}
+                required
+                disabled={!availableTerms.length}
+              >
+                <option value="">Select term</option>
+                {availableTerms.map((term) => (
+                  <option
+                    key={term.id}
+                    value={String(term.id)}
+                    disabled={!isTermResultPublished(term)}
+                  >
+                    {isTermResultPublished(term)
+                      ? term.name
+                      : `${term.name} (not yet published)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {requirePinForResultAccess ? (
+              <div className="form-group col-md-4 col-12">
+                <label htmlFor="parent-result-pin" className="text-dark-medium">
+                  Result PIN
+                </label>
+                <input
+                  id="parent-result-pin"
+                  type="text"
+                  className="form-control"
+                  value={pin}
+                  onChange={(event) => setPin(event.target.value)}
+                  placeholder="Enter PIN"
+                  required
+                />
+                <small className="form-text text-muted">
+                  Each child needs their own PIN from the school.
+                </small>
+              </div>
+            ) : null}
+          </div>
+          <button
+            className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+            type="submit"
+            disabled={submitting}
+          >
+            {submitting ? "Loading…" : "View Result"}
+          </button>
+        </form>
+
+        {results ? (
+          <div className="mt-4">
+            <div className="d-flex justify-content-end mb-3" style={{ gap: 8 }}>
+              <button
+                type="button"
+                className="btn btn-outline-secondary"
+                disabled={pdfProcessing}
+                onClick={handleDownloadPdf}
+              >
+                {pdfProcessing ? "Preparing PDF…" : "Download PDF"}
+              </button>
+              <button
+                type="button"
+                className="btn btn-outline-primary"
+                disabled={printProcessing}
+                onClick={handlePrintResult}
+              >
+                {printProcessing ? "Loading…" : "Print Result"}
+              </button>
+            </div>
+            {results.length === 0 ? (
+              <p className="text-muted mb-0">No results have been released for this term.</p>
+            ) : (
+              <div className="table-responsive">
+                <table className="table display text-nowrap">
+                  <thead>
+                    <tr>
+                      <th>Subject</th>
+                      {componentLabels.map((label) => (
+                        <th key={label} className="text-right">
+                          {label}
+                        </th>
+                      ))}
+                      <th className="text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map((entry, index) => (
+                      <tr key={`${entry.subject ?? "subject"}-${index}`}>
+                        <td>{entry.subject ?? "—"}</td>
+                        {componentLabels.map((label) => {
+                          const component = entry.components?.find(
+                            (item) => item.label === label,
+                          );
+                          return (
+                            <td key={label} className="text-right">
+                              {component?.score ?? "—"}
+                            </td>
+                          );
+                        })}
+                        <td className="text-right font-weight-bold">{entry.total ?? "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useStudentAuth } from "@/contexts/StudentAuthContext";
+import {
+  listStudentSessions,
+  type StudentSessionOption,
+} from "@/lib/studentResults";
+import {
+  buildFeeStatement,
+  getStudentFeeStatement,
+  invoiceBalance,
+  toAmount,
+  type FeeInvoice,
+} from "@/lib/studentFees";
+
+const formatCurrency = (value: number | string | null | undefined) =>
+  new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 2,
+  }).format(toAmount(value));
+
+const formatDate = (value?: string | null) => {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString(undefined, {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      });
+};
+
+export default function StudentFeesPage() {
+  const { student } = useStudentAuth();
+  const [sessions, setSessions] = useState<StudentSessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [termId, setTermId] = useState("");
+  const [invoices, setInvoices] = useState<FeeInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void listStudentSessions()
+      .then(({ sessions: options }) => {
+        if (cancelled) return;
+        setSessions(options);
+        const preferred =
+          options.find(
+            (option) => String(option.id) === String(student?.current_session?.id),
+          ) ?? options[0];
+        setSessionId(preferred ? String(preferred.id) : "");
+        if (!preferred) setLoading(false);
+      })
+      .catch((optionsError) => {
+        if (cancelled) return;
+        setError(
+          optionsError instanceof Error
+            ? optionsError.message
+            : "Unable to load academic sessions.",
+        );
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [student?.current_session?.id]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+
+    void getStudentFeeStatement({
+      session_id: sessionId,
+      term_id: termId || undefined,
+    })
+      .then((records) => {
+        if (!cancelled) {
+          setInvoices(records);
+          setError(null);
+        }
+      })
+      .catch((statementError) => {
+        if (cancelled) return;
+        setInvoices([]);
+        setError(
+          statementError instanceof Error
+            ? statementError.message
+            : "Unable to load your fee statement.",
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, termId]);
+
+  const terms = useMemo(
+    () => sessions.find((session) => String(session.id) === sessionId)?.terms ?? [],
+    [sessions, sessionId],
+  );
+
+  const statement = useMemo(() => buildFeeStatement(invoices), [invoices]);
+
+  const totals = useMemo(
+    () =>
+      invoices.reduce(
+        (sum, invoice) => ({
+          billed: sum.billed + toAmount(invoice.total_amount),
+          discounts: sum.discounts + toAmount(invoice.discount_amount),
+          paid: sum.paid + toAmount(invoice.amount_paid),
+          outstanding: sum.outstanding + invoiceBalance(invoice),
+        }),
+        { billed: 0, discounts: 0, paid: 0, outstanding: 0 },
+      ),
+    [invoices],
+  );
+
+  return (
+    <div className="card height-auto">
+      <div className="card-body">
+        <div className="heading-layout1 mb-3">
+          <div className="item-title">
+            <h3>My Fees</h3>
+            <p className="text-muted mb-0">
+              Your school fee bills, payments and outstanding balance.
+            </p>
+          </div>
+        </div>
+
+        <div className="row">
+          <div className="col-md-4 form-group">
+            <label htmlFor="fees-session">Session</label>
+            <select
+              id="fees-session"
+              className="form-control"
+              value={sessionId}
+              onChange={(event) => {
+                setLoading(true);
+                setSessionId(event.target.value);
+                setTermId("");
+              }}
+            >
+              {sessions.map((session) => (
+                <option key={session.id} value={session.id}>
+                  {session.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="col-md-4 form-group">
+            <label htmlFor="fees-term">Term</label>
+            <select
+              id="fees-term"
+              className="form-control"
+              value={termId}
+              onChange={(event) => {
+                setLoading(true);
+                setTermId(event.target.value);
+              }}
+            >
+              <option value="">All terms</option>
+              {terms.map((term) => (
+                <option key={term.id} value={term.id}>
+                  {term.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="alert alert-danger" role="alert">
+            {error}
+          </div>
+        ) : null}
+
+        <div className="row text-center mb-3">
+          {[
+            { label: "Billed", value: totals.billed },
+            { label: "Discounts", value: totals.discounts },
+            { label: "Paid", value: totals.paid },
+            { label: "Outstanding", value: totals.outstanding },
+          ].map((item) => (
+            <div key={item.label} className="col-md-3 col-6 mb-2">
+              <div className="border rounded p-2">
+                <div className="text-muted small">{item.label}</div>
+                <strong
+                  className={
+                    item.label === "Outstanding" && item.value > 0 ? "text-danger" : ""
+                  }
+                >
+                  {formatCurrency(item.value)}
+                </strong>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="table-responsive">
+          <table className="table display text-nowrap">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Description</th>
+                <th>Reference</th>
+                <th className="text-right">Debit</th>
+                <th className="text-right">Credit</th>
+                <th className="text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={6}>Loading your fee statement…</td>
+                </tr>
+              ) : statement.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-muted">
+                    No fee bill has been issued to you for this period.
+                  </td>
+                </tr>
+              ) : (
+                statement.map((entry) => (
+                  <tr key={entry.key}>
+                    <td>{formatDate(entry.date)}</td>
+                    <td>{entry.description}</td>
+                    <td>{entry.reference}</td>
+                    <td className="text-right">
+                      {entry.debit ? formatCurrency(entry.debit) : ""}
+                    </td>
+                    <td className="text-right">
+                      {entry.credit ? formatCurrency(entry.credit) : ""}
+                    </td>
+                    <td className="text-right">{formatCurrency(entry.balance)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {invoices.map((invoice) => (
+          <div key={invoice.id} className="border rounded p-3 mt-3">
+            <h5 className="mb-2">
+              {invoice.invoice_number ?? `Invoice ${invoice.id}`}
+              {invoice.term?.name ? ` · ${invoice.term.name}` : ""}
+            </h5>
+            <table className="table table-sm mb-0">
+              <tbody>
+                {(invoice.items ?? []).map((item) => (
+                  <tr key={item.id}>
+                    <td>{item.name}</td>
+                    <td className="text-right">{formatCurrency(item.amount)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <th>Balance</th>
+                  <th className="text-right">{formatCurrency(invoiceBalance(invoice))}</th>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -35,6 +35,7 @@ function StudentGuard({ children }: { children: React.ReactNode }) {
     { href: "/v26/student-dashboard/my-result", label: "My Result" },
     { href: "/v26/student-dashboard/result-pins", label: "Result PINs" },
     { href: "/v26/student-dashboard/attendance", label: "Attendance" },
+    { href: "/v26/student-dashboard/fees", label: "My Fees" },
   ];
 
   return (
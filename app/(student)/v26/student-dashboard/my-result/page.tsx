@@ -6,11 +6,12 @@ import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 import {
   StudentResultEntry,
   StudentSessionOption,
+  defaultResultTerm,
+  isTermResultPublished,
   listStudentSessions,
   previewStudentResult,
 } from "@/lib/studentResults";
-import { resolveBackendUrl } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { downloadPrintPdf, openPrintWindow } from "@/lib/printDocuments";
 
 export default function StudentMyResultPage() {
   const { student, loading } = useStudentAuth();
@@ -23,6 +24,7 @@ export default function StudentMyResultPage() {
     useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [printProcessing, setPrintProcessing] = useState(false);
+  const [pdfProcessing, setPdfProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<StudentResultEntry[] | null>(null);
 
@@ -48,7 +50,7 @@ export default function StudentMyResultPage() {
         }
         if (data.length > 0) {
           setSelectedSession(String(data[0].id));
-          const firstTerm = data[0].terms?.[0];
+          const firstTerm = defaultResultTerm(data[0]);
           if (firstTerm) {
             setSelectedTerm(String(firstTerm.id));
           }
@@ -109,68 +111,23 @@ export default function StudentMyResultPage() {
       return;
     }
 
+    // Opened before any await so pop-up blockers treat it as a click.
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      setError("Unable to open print window. Please allow pop-ups for this site.");
+      return;
+    }
+
     setPrintProcessing(true);
     setError(null);
 
     try {
-      const token = getCookie("student_token");
-      if (!token) {
-        setError("Your session has expired. Please log in again.");
-        return;
-      }
-
-      const params = new URLSearchParams();
-      params.set("session_id", selectedSession);
-      params.set("term_id", selectedTerm);
-
-      const endpoint = resolveBackendUrl(
-        `/api/v1/student/results/download?${params.toString()}`,
-      );
-
-      const response = await fetch(endpoint, {
-        headers: {
-          Accept: "text/html",
-          "X-Requested-With": "XMLHttpRequest",
-          Authorization: `Bearer ${token}`,
-        },
-        credentials: "include",
+      await openPrintWindow(printWindow, "student-result", {
+        session_id: selectedSession,
+        term_id: selectedTerm,
       });
-
-      if (!response.ok) {
-        let errorMessage = "Unable to load printable result.";
-        const contentType = response.headers.get("content-type") || "";
-
-        if (contentType.includes("application/json")) {
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.message || errorMessage;
-          } catch {
-            // fall back
-          }
-        } else if (response.status === 401) {
-          errorMessage = "Your session has expired. Please log in again.";
-        } else if (response.status === 404) {
-          errorMessage = "No results found for the selected session and term.";
-        } else {
-          const text = await response.text().catch(() => "");
-          if (text.trim().length > 0 && !/^<\s*(!DOCTYPE|html)/i.test(text.trim())) {
-            errorMessage = text.trim();
-          }
-        }
-
-        throw new Error(errorMessage);
-      }
-
-      const html = await response.text();
-      const printWindow = window.open("", "_blank");
-      if (!printWindow) {
-        setError("Unable to open print window. Please allow pop-ups for this site.");
-        return;
-      }
-      printWindow.document.open();
-      printWindow.document.write(html);
-      printWindow.document.close();
     } catch (err) {
+      printWindow.close();
       console.error("Unable to print result", err);
       setError(
         err instanceof Error ? err.message : "Unable to load printable result.",
@@ -180,6 +137,35 @@ export default function StudentMyResultPage() {
     }
   }, [selectedSession, selectedTerm]);
 
+  const handleDownloadPdf = useCallback(async () => {
+    if (!selectedSession || !selectedTerm) {
+      setError("Select session and term before downloading.");
+      return;
+    }
+
+    setPdfProcessing(true);
+    setError(null);
+
+    try {
+      const sessionName =
+        sessions.find((entry) => String(entry.id) === selectedSession)?.name ?? "";
+      const termName =
+        availableTerms.find((term) => String(term.id) === selectedTerm)?.name ?? "";
+      await downloadPrintPdf(
+        "student-result",
+        { session_id: selectedSession, term_id: selectedTerm },
+        `${["Result", sessionName, termName].filter(Boolean).join(" ")}.pdf`,
+      );
+    } catch (err) {
+      console.error("Unable to download result", err);
+      setError(
+        err instanceof Error ? err.message : "Unable to download the result.",
+      );
+    } finally {
+      setPdfProcessing(false);
+    }
+  }, [availableTerms, selectedSession, selectedTerm, sessions]);
+
   if (loading || !student) {
     return (
       <div className="card">
@@ -227,7 +213,7 @@ export default function StudentMyResultPage() {
                   const nextSession = sessions.find(
                     (item) => String(item.id) === event.target.value,
                   );
-                  const defaultTerm = nextSession?.terms?.[0];
+                  const defaultTerm = defaultResultTerm(nextSession);
                   setSelectedTerm(defaultTerm ? String(defaultTerm.id) : "");
                 }}
                 required
@@ -256,8 +242,14 @@ export default function StudentMyResultPage() {
               >
                 <option value="">Select term</option>
                 {availableTerms.map((term) => (
-                  <option key={term.id} value={String(term.id)}>
-                    {term.name}
+                  <option
+                    key={term.id}
+                    value={String(term.id)}
+                    disabled={!isTermResultPublished(term)}
+                  >
+                    {isTermResultPublished(term)
+                      ? term.name
+                      : `${term.name} (not yet published)`}
                   </option>
                 ))}
               </select>
@@ -294,7 +286,22 @@ export default function StudentMyResultPage() {
         {results ? (
           <div className="mt-4">
             {/* <h4 className="mb-3">Result Summary</h4> */}
-            <div className="d-flex justify-content-end mb-3">
+            <div className="d-flex justify-content-end flex-wrap mb-3" style={{ gap: 12 }}>
+              <button
+                type="button"
+                className="btn btn-outline-secondary d-inline-flex align-items-center justify-content-center"
+                disabled={pdfProcessing}
+                onClick={handleDownloadPdf}
+                style={{
+                  minWidth: 240,
+                  padding: "0.95rem 2rem",
+                  fontSize: "1.1rem",
+                  fontWeight: 700,
+                  borderRadius: "0.5rem",
+                }}
+              >
+                {pdfProcessing ? "Preparing PDF…" : "Download PDF"}
+              </button>
               <button
                 type="button"
                 className="btn btn-outline-primary d-inline-flex align-items-center justify-content-center"
@@ -9,6 +9,12 @@ import {
   getStudentAttendance,
   type StudentAttendanceSummary,
 } from "@/lib/studentAttendance";
+import {
+  calendarEventTypeLabel,
+  listStudentCalendarEvents,
+  upcomingCalendarEvents,
+  type CalendarEvent,
+} from "@/lib/academicCalendar";
 
 const styles = `
 .student-dashboard-container {
@@ -381,6 +387,18 @@ const styles = `
 }
 `;
 
+const formatEventDates = (event: CalendarEvent) => {
+  const format = (value: string) =>
+    new Date(`${value.slice(0, 10)}T00:00:00Z`).toLocaleDateString(undefined, {
+      day: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    });
+  return event.end_date && event.end_date.slice(0, 10) !== event.start_date.slice(0, 10)
+    ? `${format(event.start_date)} – ${format(event.end_date)}`
+    : format(event.start_date);
+};
+
 export default function StudentDashboardHome() {
   const { student, loading } = useStudentAuth();
   const router = useRouter();
@@ -392,6 +410,7 @@ export default function StudentDashboardHome() {
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [attendanceSummary, setAttendanceSummary] =
     useState<StudentAttendanceSummary | null>(null);
+  const [upcomingEvents, setUpcomingEvents] = useState<CalendarEvent[]>([]);
 
   useEffect(() => {
     if (!loading && !student) {
@@ -429,6 +448,25 @@ export default function StudentDashboardHome() {
     };
   }, [student?.current_session?.id, student?.current_term?.id]);
 
+  useEffect(() => {
+    if (!student?.current_term?.id) return;
+
+    const today = new Date().toISOString().slice(0, 10);
+    let cancelled = false;
+
+    void listStudentCalendarEvents({ from: today })
+      .then((events) => {
+        if (!cancelled) setUpcomingEvents(upcomingCalendarEvents(events, today));
+      })
+      .catch((calendarError) => {
+        console.error("Unable to load upcoming calendar events", calendarError);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [student?.current_term?.id]);
+
   // Get unique subjects to avoid duplicates. Guards on `student` being null
   // internally rather than skipping the hook via an early return above --
   // hooks must run in the same order on every render.
@@ -672,6 +710,32 @@ export default function StudentDashboardHome() {
             </div>
           </div>
 
+          <div className="quick-actions-section">
+            <div className="quick-actions-header">
+              <h4 style={{ margin: 0 }}>Upcoming Events</h4>
+            </div>
+            <div className="quick-actions-body">
+              {upcomingEvents.length ? (
+                <ul className="list-unstyled mb-0 w-100">
+                  {upcomingEvents.map((event) => (
+                    <li key={event.id} className="mb-2">
+                      <strong>{event.title}</strong>
+                      <span className="text-muted">
+                        {" "}
+                        · {calendarEventTypeLabel(event.type)} ·{" "}
+                        {formatEventDates(event)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="quick-actions-text">
+                  <p>No holidays, breaks or exams coming up this term.</p>
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Quick Actions */}
           <div className="quick-actions-section">
             <div className="quick-actions-header">
@@ -707,6 +771,12 @@ export default function StudentDashboardHome() {
                 >
                   View Attendance
                 </Link>
+                <Link
+                  href="/v26/student-dashboard/fees"
+                  className="btn-action btn-action-secondary"
+                >
+                  My Fees
+                </Link>
               </div>
             </div>
           </div>
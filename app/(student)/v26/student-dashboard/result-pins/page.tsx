@@ -1,8 +1,9 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { FormEvent, useCallback, useEffect, useState } from "react";
 import {
   listMyDistributedResultPins,
+  redeemResultPin,
   type ResultPin,
 } from "@/lib/resultPins";
 
@@ -44,6 +45,9 @@ export default function StudentResultPinsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [feedback, setFeedback] = useState<string | null>(null);
+  const [scratchPin, setScratchPin] = useState("");
+  const [scratchSerial, setScratchSerial] = useState("");
+  const [redeeming, setRedeeming] = useState(false);
 
   const loadPins = useCallback(async () => {
     setLoading(true);
@@ -78,6 +82,40 @@ export default function StudentResultPinsPage() {
     }
   };
 
+  const handleRedeem = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFeedback(null);
+    setError(null);
+    if (!scratchPin.trim() || !scratchSerial.trim()) {
+      setError("Enter both the PIN and the serial number printed on the card.");
+      return;
+    }
+    setRedeeming(true);
+    try {
+      const pin = await redeemResultPin({
+        pin_code: scratchPin.trim(),
+        serial_number: scratchSerial.trim(),
+      });
+      setScratchPin("");
+      setScratchSerial("");
+      setFeedback(
+        `Scratch card added for ${pin.term?.name ?? "the term"}${
+          pin.session?.name ? `, ${pin.session.name}` : ""
+        }. It can now only be used on your account.`,
+      );
+      await loadPins();
+    } catch (redeemError) {
+      console.error("Unable to redeem scratch card", redeemError);
+      setError(
+        redeemError instanceof Error
+          ? redeemError.message
+          : "Unable to redeem this scratch card.",
+      );
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
   return (
     <div className="card height-auto">
       <div className="card-body">
@@ -85,7 +123,7 @@ export default function StudentResultPinsPage() {
           <div className="item-title">
             <h3>Result PINs</h3>
             <p className="text-muted mb-0">
-              PINs officially sent to your dashboard are shown here.
+              PINs sent to your dashboard and scratch cards you have added are shown here.
             </p>
           </div>
           <button
@@ -109,6 +147,47 @@ export default function StudentResultPinsPage() {
           </div>
         ) : null}
 
+        <form className="border rounded p-3 mb-4" onSubmit={handleRedeem}>
+          <h5 className="mb-1">Add a Scratch Card</h5>
+          <p className="text-muted small">
+            Bought a card from the bursary or a vendor? Enter its PIN and serial
+            number. The card is linked to your account the first time it is used.
+          </p>
+          <div className="row gutters-8 align-items-end">
+            <div className="col-md-4 col-12 form-group">
+              <label htmlFor="scratch-pin">PIN</label>
+              <input
+                id="scratch-pin"
+                type="text"
+                className="form-control"
+                autoComplete="off"
+                value={scratchPin}
+                onChange={(event) => setScratchPin(event.target.value)}
+              />
+            </div>
+            <div className="col-md-4 col-12 form-group">
+              <label htmlFor="scratch-serial">Serial Number</label>
+              <input
+                id="scratch-serial"
+                type="text"
+                className="form-control"
+                autoComplete="off"
+                value={scratchSerial}
+                onChange={(event) => setScratchSerial(event.target.value)}
+              />
+            </div>
+            <div className="col-md-4 col-12 form-group">
+              <button
+                type="submit"
+                className="btn btn-outline-primary"
+                disabled={redeeming}
+              >
+                {redeeming ? "Adding…" : "Add Card"}
+              </button>
+            </div>
+          </div>
+        </form>
+
         <div className="table-responsive">
           <table className="table display text-nowrap">
             <thead>
@@ -138,7 +217,12 @@ export default function StudentResultPinsPage() {
                   <tr key={String(pin.id)}>
                     <td>{pin.session?.name ?? "—"}</td>
                     <td>{pin.term?.name ?? "—"}</td>
-                    <td><code>{pin.pin_code ?? "—"}</code></td>
+                    <td>
+                      <code>{pin.pin_code ?? "—"}</code>
+                      {pin.serial_number ? (
+                        <div className="text-muted small">Serial {pin.serial_number}</div>
+                      ) : null}
+                    </td>
                     <td>{formatUsage(pin)}</td>
                     <td>
                       <span className={badgeClass(pin.effective_status ?? pin.status)}>
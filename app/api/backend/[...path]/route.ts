@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BACKEND_URL } from "@/lib/config";
+import {
+  SESSION_ENDPOINTS,
+  clearSessionCookie,
+  isAuthScope,
+  readSession,
+  refreshSessionCookie,
+} from "@/lib/server/session";
+
+/**
+ * Same-origin pass-through to the backend API. The browser can't read the
+ * httpOnly session cookies, so this is where the bearer token is attached.
+ * The `X-Auth-Scope` header picks which portal's session to use.
+ */
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Hop-by-hop and browser-only headers that must not reach the backend.
+const DROPPED_REQUEST_HEADERS = [
+  "authorization",
+  "connection",
+  "content-length",
+  "cookie",
+  "host",
+  "x-auth-scope",
+  "x-skip-auth",
+];
+
+const FORWARDED_RESPONSE_HEADERS = [
+  "cache-control",
+  "content-disposition",
+  "content-type",
+  "retry-after",
+];
+
+// Logins must go through /api/session so their tokens land in the cookie.
+const LOGIN_PATHS: string[] = Object.values(SESSION_ENDPOINTS).map(
+  (endpoint) => endpoint.login,
+);
+
+async function proxy(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  const backendPath = `/${path.map(encodeURIComponent).join("/")}`;
+
+  if (LOGIN_PATHS.includes(backendPath)) {
+    return NextResponse.json({ message: "Not found." }, { status: 404 });
+  }
+
+  const requestedScope = request.headers.get("x-auth-scope") ?? "staff";
+  if (!isAuthScope(requestedScope)) {
+    return NextResponse.json({ message: "Unknown login type." }, { status: 400 });
+  }
+
+  const session =
+    request.headers.get("x-skip-auth") === "1"
+      ? null
+      : readSession(request.cookies, requestedScope);
+
+  const headers = new Headers(request.headers);
+  DROPPED_REQUEST_HEADERS.forEach((name) => headers.delete(name));
+  if (session) {
+    headers.set("Authorization", `Bearer ${session.token}`);
+  }
+
+  const method = request.method.toUpperCase();
+  const hasBody = method !== "GET" && method !== "HEAD";
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(
+      `${BACKEND_URL}${backendPath}${request.nextUrl.search}`,
+      {
+        method,
+        headers,
+        body: hasBody ? await request.arrayBuffer() : undefined,
+        redirect: "manual",
+        cache: "no-store",
+      },
+    );
+  } catch (error) {
+    console.error(`Backend request failed: ${method} ${backendPath}`, error);
+    return NextResponse.json(
+      { message: "Unable to reach the server. Please try again." },
+      { status: 502 },
+    );
+  }
+
+  const responseHeaders = new Headers();
+  FORWARDED_RESPONSE_HEADERS.forEach((name) => {
+    const value = backendResponse.headers.get(name);
+    if (value) {
+      responseHeaders.set(name, value);
+    }
+  });
+
+  const response = new NextResponse(
+    backendResponse.status === 204 ? null : backendResponse.body,
+    { status: backendResponse.status, headers: responseHeaders },
+  );
+
+  if (session && backendResponse.status === 401) {
+    // The backend no longer accepts this token, so the cookie is useless.
+    clearSessionCookie(response, requestedScope);
+  } else {
+    refreshSessionCookie(response, session);
+  }
+
+  return response;
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
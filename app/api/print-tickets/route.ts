@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  PRINT_TICKET_AUDIENCES,
+  isPrintTicketAudience,
+  issuePrintTicket,
+  readSession,
+  refreshSessionCookie,
+} from "@/lib/server/session";
+
+/**
+ * Issue a short-lived ticket for opening a printable page in a new tab.
+ * Body: `{ audience, params }`, where params are the page's query filters.
+ */
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => null)) as {
+    audience?: unknown;
+    params?: Record<string, unknown>;
+  } | null;
+
+  if (!isPrintTicketAudience(body?.audience)) {
+    return NextResponse.json({ message: "Unknown print page." }, { status: 400 });
+  }
+
+  const audience = PRINT_TICKET_AUDIENCES[body.audience];
+  const session = readSession(request.cookies, audience.scope);
+  if (!session) {
+    return NextResponse.json(
+      { message: "Your session has expired. Please log in again." },
+      { status: 401 },
+    );
+  }
+
+  const params: Record<string, string> = {};
+  for (const name of audience.params) {
+    const value = body.params?.[name];
+    if (value === undefined || value === null || `${value}`.trim() === "") {
+      return NextResponse.json(
+        { message: `Missing required filters: ${audience.params.join(", ")}` },
+        { status: 422 },
+      );
+    }
+    params[name] = `${value}`;
+  }
+
+  const response = NextResponse.json(issuePrintTicket(body.audience, session, params));
+  response.headers.set("Cache-Control", "no-store");
+  refreshSessionCookie(response, session);
+  return response;
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BACKEND_URL } from "@/lib/config";
+import {
+  SESSION_COOKIES,
+  SESSION_ENDPOINTS,
+  clearSessionCookie,
+  isAuthScope,
+  readSession,
+  refreshSessionCookie,
+  writeSessionCookie,
+} from "@/lib/server/session";
+
+type RouteContext = { params: Promise<{ scope: string }> };
+
+const unknownScope = () =>
+  NextResponse.json({ message: "Unknown login type." }, { status: 404 });
+
+/** Whether this browser holds a session for the scope. Also migrates old cookies. */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { scope } = await params;
+  if (!isAuthScope(scope)) {
+    return unknownScope();
+  }
+
+  const session = readSession(request.cookies, scope);
+  const response = NextResponse.json({ authenticated: Boolean(session) });
+  if (!session && request.cookies.has(SESSION_COOKIES[scope])) {
+    // Unreadable (tampered, or sealed with a retired key): drop it.
+    clearSessionCookie(response, scope);
+  }
+  refreshSessionCookie(response, session);
+  response.headers.set("Cache-Control", "no-store");
+  return response;
+}
+
+/**
+ * Log in. The credentials go to the backend from here, and the token in
+ * its reply is kept in the httpOnly cookie instead of reaching the page.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { scope } = await params;
+  if (!isAuthScope(scope)) {
+    return unknownScope();
+  }
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(`${BACKEND_URL}${SESSION_ENDPOINTS[scope].login}`, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        "X-Requested-With": "XMLHttpRequest",
+      },
+      body: await request.text(),
+    });
+  } catch (error) {
+    console.error("Login request could not reach the backend", error);
+    return NextResponse.json(
+      { message: "Unable to reach the server. Please try again." },
+      { status: 502 },
+    );
+  }
+
+  const data = await backendResponse.json().catch(() => null);
+  if (!backendResponse.ok) {
+    return NextResponse.json(data ?? { message: backendResponse.statusText }, {
+      status: backendResponse.status,
+    });
+  }
+
+  const { token, ...rest } = (data ?? {}) as { token?: unknown; [key: string]: unknown };
+  if (typeof token !== "string" || !token) {
+    return NextResponse.json(
+      { message: "The server did not return a session. Please try again." },
+      { status: 502 },
+    );
+  }
+
+  const response = NextResponse.json(rest, { status: backendResponse.status });
+  writeSessionCookie(response, scope, token);
+  return response;
+}
+
+/** Log out: revoke the token on the backend, then clear the cookie. */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { scope } = await params;
+  if (!isAuthScope(scope)) {
+    return unknownScope();
+  }
+
+  const session = readSession(request.cookies, scope);
+  if (session) {
+    try {
+      await fetch(`${BACKEND_URL}${SESSION_ENDPOINTS[scope].logout}`, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "X-Requested-With": "XMLHttpRequest",
+          Authorization: `Bearer ${session.token}`,
+        },
+      });
+    } catch (error) {
+      console.warn("Logout request failed:", error);
+    }
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookie(response, scope);
+  return response;
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,15 @@
+import React from 'react';
+import { CbtSubmissionSync } from '@/components/cbt/CbtSubmissionSync';
+
+export default function StudentCBTLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      {children}
+      <CbtSubmissionSync />
+    </>
+  );
+}
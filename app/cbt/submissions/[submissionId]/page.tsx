@@ -0,0 +1,7 @@
+'use client';
+
+import QueuedSubmissionPage from '@/app/(app)/v27/cbt/submissions/[submissionId]/page';
+
+export default function CBTQueuedSubmissionPage() {
+  return <QueuedSubmissionPage />;
+}
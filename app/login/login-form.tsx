@@ -243,6 +243,13 @@ export function LoginForm() {
         </Link>{" "}
         with your admission number.
       </p>
+      <p className="text-center text-muted small">
+        Parent or guardian?{" "}
+        <Link href="/parent-login" className="font-weight-bold">
+          Use the parent login
+        </Link>{" "}
+        to follow all your children.
+      </p>
     </form>
   );
 }
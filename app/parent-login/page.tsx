@@ -0,0 +1,179 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
+import { parentLogin } from "@/lib/parentAuth";
+
+const styles = `
+.parent-login .parent-cta {
+  background: linear-gradient(135deg, #0f766e 0%, #2563eb 100%);
+  border-radius: 18px;
+  color: #ffffff;
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  padding: 1.5rem;
+  gap: 1rem;
+  box-shadow: 0 18px 40px rgba(15, 118, 110, 0.25);
+}
+
+.parent-login .parent-cta .cta-icon {
+  width: 54px;
+  height: 54px;
+  border-radius: 50%;
+  background: rgba(255, 255, 255, 0.2);
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  font-size: 1.5rem;
+  margin-right: 1rem;
+}
+
+.parent-login .login-box {
+  border-radius: 24px;
+  box-shadow: 0 18px 40px rgba(15, 23, 42, 0.08);
+  padding: 2.5rem;
+}
+
+.parent-login .login-box h2 {
+  font-weight: 700;
+  margin-bottom: 0.25rem;
+}
+
+.parent-login .login-box .text-muted {
+  color: #64748b !important;
+}
+
+.parent-login .parent-footer {
+  color: #ffffff;
+  font-weight: 500;
+}
+
+@media (max-width: 576px) {
+  .parent-login .login-box {
+    padding: 1.5rem;
+  }
+}
+`;
+
+export default function ParentLoginPage() {
+  const router = useRouter();
+  const [login, setLogin] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      await parentLogin({
+        login: login.trim(),
+        password,
+      });
+      router.push("/v29/parent-dashboard");
+    } catch (submissionError) {
+      const message =
+        submissionError instanceof Error
+          ? submissionError.message
+          : "Unable to login. Please check the credentials.";
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="login-page-wrap parent-login">
+      <div className="login-page-content">
+        <div className="parent-cta mb-4">
+          <div className="d-flex align-items-center">
+            <span className="cta-icon">
+              <i className="fas fa-users" aria-hidden="true" />
+            </span>
+            <div>
+              <div className="font-weight-bold mb-1">Parent Portal</div>
+              <small className="text-white-50">
+                One login for all your children: results, attendance, fees
+                and school news.
+              </small>
+            </div>
+          </div>
+        </div>
+
+        <div className="login-box">
+          <div className="item-logo mb-4">
+            <Link href="/" className="d-inline-flex align-items-center">
+              <Image
+                src="/assets/img/logo2.png"
+                alt="Result Portal Logo"
+                width={210}
+                height={50}
+                style={{ maxWidth: "160px", height: "auto" }}
+              />
+            </Link>
+          </div>
+          <h2>Parent Login</h2>
+          <p className="text-muted mb-4">
+            Sign in with the email or phone number the school has on file for
+            you.
+          </p>
+          {error ? (
+            <div className="alert alert-danger" role="alert">
+              {error}
+            </div>
+          ) : null}
+          <form onSubmit={handleSubmit}>
+            <div className="form-group mb-4">
+              <label htmlFor="parent-login">Email or Phone Number</label>
+              <input
+                id="parent-login"
+                type="text"
+                className="form-control"
+                value={login}
+                onChange={(event) => setLogin(event.target.value)}
+                autoComplete="username"
+                required
+              />
+            </div>
+            <div className="form-group mb-4">
+              <label htmlFor="parent-password">Password</label>
+              <input
+                id="parent-password"
+                type="password"
+                className="form-control"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                autoComplete="current-password"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark btn-block"
+              disabled={loading}
+            >
+              {loading ? "Signing in…" : "Login"}
+            </button>
+          </form>
+          <p className="text-center text-muted small mt-4 mb-0">
+            School staff?{" "}
+            <Link href="/login" className="font-weight-bold">
+              Use the staff login
+            </Link>
+            .
+          </p>
+        </div>
+        <p className="parent-footer text-center mt-4 small">
+          No login yet, or a child missing? Ask the school office to link your
+          account.
+        </p>
+      </div>
+      <style jsx>{styles}</style>
+    </div>
+  );
+}
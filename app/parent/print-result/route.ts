@@ -0,0 +1,16 @@
+import { createPrintRoute } from "@/lib/server/printGateway";
+
+export const GET = createPrintRoute({
+  documentLabel: "Result",
+  auth: { ticket: "parent-child-result" },
+  backendPath: ({ child_id }) =>
+    `/api/v1/parent/children/${encodeURIComponent(child_id)}/results/download`,
+  requiredParams: ["child_id", "session_id", "term_id"],
+  fallbackMessage: "Unable to prepare result. Please verify the selection.",
+  statusMessages: {
+    403: "You do not have permission to download this result.",
+    404: "No results were found for the selected session and term.",
+  },
+});
+
+export const runtime = "nodejs";
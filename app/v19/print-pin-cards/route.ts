@@ -1,248 +1,29 @@
-import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { BACKEND_URL } from "@/lib/config";
-import { decryptCookieValue } from "@/lib/cookieCipher";
+import { createPrintRoute } from "@/lib/server/printGateway";
+
+export const GET = createPrintRoute({
+  documentLabel: "Scratch Cards",
+  auth: "staff",
+  backendPath: "/api/v1/result-pins/cards/print",
+  requiredParams: ["session_id", "term_id"],
+  optionalParams: [
+    "school_class_id",
+    "class_arm_id",
+    "student_id",
+    "batch_id",
+    "serial_from",
+    "serial_to",
+    "autoprint",
+  ],
+  // Cards sold over the counter are traced by serial and batch, so every
+  // printed card carries both.
+  fixedParams: { show_serial: "1", show_batch_code: "1" },
+  fallbackMessage:
+    "Unable to prepare scratch cards. Please ensure PINs exist for the selected students.",
+  statusMessages: {
+    403: "You do not have permission to print scratch cards.",
+    404: "The requested records could not be found.",
+    422: "No scratch cards were generated for the selected filters.",
+  },
+});
 
-const REQUIRED_PARAMS = ["session_id", "term_id"] as const;
-const DEFAULT_COOKIE_SECRET = "lynx-cookie-secret";
-const SANCTUM_TOKEN_PATTERN = /^\d+\|/;
-
-type RequiredParam = (typeof REQUIRED_PARAMS)[number];
-
-const normalizeErrorMessage = (message: string, status?: number) => {
-  const trimmed = (message ?? "").trim();
-  if (!trimmed || /^<\s*(!DOCTYPE|html)/i.test(trimmed)) {
-    if (status === 422) {
-      return "No scratch cards were generated for the selected filters.";
-    }
-    if (status === 404) {
-      return "The requested records could not be found.";
-    }
-    return "Unable to prepare scratch cards. Please ensure PINs exist for the selected students.";
-  }
-  return trimmed;
-};
-
-const buildErrorHtml = (message: string) => {
-  const safeMessage = message
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-  const jsMessage = JSON.stringify(message);
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="utf-8" />
-  <title>Scratch Card Printing</title>
-  <style>
-    body { font-family: Arial, sans-serif; padding: 2rem; background: #f8fafc; color: #0f172a; }
-    .card { max-width: 560px; margin: 0 auto; background: #fff; border-radius: 12px; padding: 1.5rem; box-shadow: 0 10px 30px rgba(15,23,42,0.12); text-align: center; }
-    h1 { font-size: 1.4rem; margin-bottom: 0.5rem; }
-    p { margin-bottom: 1rem; }
-    button { padding: 0.6rem 1.2rem; border:none; border-radius:6px; background:#0f172a; color:#fff; cursor:pointer; }
-  </style>
-</head>
-<body>
-  <div class="card">
-    <h1>Unable to Prepare Scratch Cards</h1>
-    <p>${safeMessage}</p>
-    <button onclick="window.close()">Close</button>
-  </div>
-  <script>
-    try {
-      alert(${jsMessage});
-    } catch (error) {
-      console.error(error);
-    }
-  </script>
-</body>
-</html>`;
-};
-
-const buildErrorResponse = (message: string, status: number) =>
-  new NextResponse(buildErrorHtml(message), {
-    status,
-    headers: {
-      "Content-Type": "text/html; charset=utf-8",
-    },
-  });
-
-const looksLikeSanctumToken = (value: string | null | undefined): value is string =>
-  Boolean(value && SANCTUM_TOKEN_PATTERN.test(value));
-
-const xorCipher = (value: string, secret: string): string => {
-  if (!secret) {
-    return value;
-  }
-  let output = "";
-  for (let index = 0; index < value.length; index += 1) {
-    const valueCode = value.charCodeAt(index);
-    const secretCode = secret.charCodeAt(index % secret.length);
-    output += String.fromCharCode(valueCode ^ secretCode);
-  }
-  return output;
-};
-
-const decryptCookieValueWithSecret = (
-  value: string | null | undefined,
-  secret: string,
-): string | null => {
-  if (!value) {
-    return null;
-  }
-  try {
-    const decoded = Buffer.from(value, "base64").toString("utf-8");
-    return xorCipher(decoded, secret);
-  } catch (error) {
-    console.error("Unable to decrypt cookie value with fallback secret", error);
-    return null;
-  }
-};
-
-const normalizeCookieValue = (value: string | null | undefined): string | null => {
-  if (!value) {
-    return null;
-  }
-  try {
-    return decodeURIComponent(value);
-  } catch {
-    return value;
-  }
-};
-
-const resolveAuthToken = (rawValue: string | null | undefined): string | null => {
-  if (!rawValue) {
-    return null;
-  }
-
-  const decrypted = decryptCookieValue(rawValue);
-  if (looksLikeSanctumToken(decrypted)) {
-    return decrypted;
-  }
-
-  const fallback = decryptCookieValueWithSecret(rawValue, DEFAULT_COOKIE_SECRET);
-  if (looksLikeSanctumToken(fallback)) {
-    return fallback;
-  }
-
-  if (looksLikeSanctumToken(rawValue)) {
-    return rawValue;
-  }
-
-  return null;
-};
-
-function validateParams(searchParams: URLSearchParams): { valid: boolean; missing: RequiredParam[] } {
-  const missing: RequiredParam[] = [];
-  REQUIRED_PARAMS.forEach((param) => {
-    const value = searchParams.get(param);
-    if (!value || value.trim().length === 0) {
-      missing.push(param);
-    }
-  });
-  return { valid: missing.length === 0, missing };
-}
-
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const validation = validateParams(searchParams);
-
-    if (!validation.valid) {
-      return buildErrorResponse(
-        `Missing required filters: ${validation.missing.join(", ")}`,
-        400,
-      );
-    }
-
-    const backendUrl = new URL(`${BACKEND_URL}/api/v1/result-pins/cards/print`);
-    REQUIRED_PARAMS.forEach((param) => {
-      const value = searchParams.get(param);
-      if (value) {
-        backendUrl.searchParams.set(param, value);
-      }
-    });
-
-    ["school_class_id", "class_arm_id", "student_id", "autoprint"].forEach(
-      (param) => {
-        const value = searchParams.get(param);
-        if (value) {
-          backendUrl.searchParams.set(param, value);
-        }
-      },
-    );
-
-    const cookieStore = await cookies();
-    const rawToken = normalizeCookieValue(cookieStore.get("token")?.value ?? null);
-    const token = resolveAuthToken(rawToken);
-
-    const proxyHeaders = new Headers({
-      Accept: "text/html",
-      "X-Requested-With": "XMLHttpRequest",
-    });
-
-    if (token) {
-      proxyHeaders.set("Authorization", `Bearer ${token}`);
-    }
-
-    const cookieHeader = cookieStore
-      .getAll()
-      .map((cookie) => `${cookie.name}=${cookie.value}`)
-      .join("; ");
-
-    if (cookieHeader) {
-      proxyHeaders.set("Cookie", cookieHeader);
-    }
-
-    const response = await fetch(backendUrl.toString(), {
-      headers: proxyHeaders,
-      credentials: "include",
-    });
-
-    if (!response.ok) {
-      let errorMessage = "Unable to load scratch cards.";
-      const contentType = response.headers.get("content-type") || "";
-
-      if (contentType.includes("application/json")) {
-        try {
-          const errorData = await response.json();
-          errorMessage = errorData.message || errorData.error || errorMessage;
-        } catch (error) {
-          console.error("Failed to parse scratch card error response", error);
-        }
-      } else if (response.status === 403) {
-        errorMessage = "You do not have permission to print scratch cards.";
-      } else if (response.status === 401) {
-        errorMessage = "Your session has expired. Please log in again.";
-      } else {
-        const text = await response.text().catch(() => "");
-        if (text.trim().length > 0) {
-          errorMessage = text.trim();
-        }
-      }
-
-      return buildErrorResponse(
-        normalizeErrorMessage(errorMessage, response.status),
-        response.status,
-      );
-    }
-
-    const html = await response.text();
-    const contentType = response.headers.get("content-type") ?? "text/html; charset=utf-8";
-
-    return new NextResponse(html, {
-      status: 200,
-      headers: {
-        "Content-Type": contentType,
-      },
-    });
-  } catch (error) {
-    console.error("Scratch card print route failed", error);
-    const message =
-      error instanceof Error
-        ? error.message || "Unexpected error while generating scratch cards."
-        : "Unexpected error while generating scratch cards.";
-    return buildErrorResponse(message, 500);
-  }
-}
 export const runtime = "nodejs";
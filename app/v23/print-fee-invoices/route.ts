@@ -0,0 +1,118 @@
+import { API_ROUTES } from "@/lib/config";
+import { PrintBackendError, createPrintRoute } from "@/lib/server/printGateway";
+import type { School } from "@/lib/auth";
+import type { BankDetail } from "@/lib/bankDetails";
+import type { FeeInvoice } from "@/lib/studentFees";
+import {
+  pickDefaultBankDetail,
+  renderFeeDocumentsHtml,
+  type FeeDocumentKind,
+} from "@/lib/feeDocuments";
+
+const unwrapList = <T,>(payload: unknown): T[] => {
+  if (Array.isArray(payload)) return payload as T[];
+  const data = (payload as { data?: unknown } | null)?.data;
+  return Array.isArray(data) ? (data as T[]) : [];
+};
+
+export const GET = createPrintRoute({
+  documentLabel: "Fee Documents",
+  auth: "staff",
+  requiredParams: ["session_id", "term_id"],
+  optionalParams: [
+    "invoice_id",
+    "school_class_id",
+    "class_arm_id",
+    "document",
+    "payment_id",
+    "autoprint",
+  ],
+  fallbackMessage: "Unable to load fee records.",
+  statusMessages: {
+    403: "You do not have permission to print fee documents.",
+  },
+  // Invoices and receipts are laid out here from the fee records, since
+  // the backend has no printable view of them.
+  renderHtml: async ({ params, fetchJson }) => {
+    const invoiceId = params.invoice_id;
+    const classId = params.school_class_id;
+    if (!invoiceId && !classId) {
+      throw new PrintBackendError(
+        "Choose an invoice, or a class to print every invoice in it.",
+        400,
+      );
+    }
+
+    const kind: FeeDocumentKind = params.document === "receipt" ? "receipt" : "invoice";
+
+    const loadInvoices = async (): Promise<FeeInvoice[]> => {
+      if (invoiceId) {
+        const payload = await fetchJson<FeeInvoice | { data?: FeeInvoice }>(
+          `${API_ROUTES.feeInvoices}/${encodeURIComponent(invoiceId)}`,
+        );
+        return [(payload as { data?: FeeInvoice }).data ?? (payload as FeeInvoice)];
+      }
+
+      const invoices: FeeInvoice[] = [];
+      let page = 1;
+      let lastPage = 1;
+      do {
+        const query = new URLSearchParams({
+          session_id: params.session_id,
+          term_id: params.term_id,
+          school_class_id: classId,
+          per_page: "500",
+          page: String(page),
+        });
+        if (params.class_arm_id) query.set("class_arm_id", params.class_arm_id);
+        const payload = await fetchJson<unknown>(
+          `${API_ROUTES.feeInvoices}?${query.toString()}`,
+        );
+        invoices.push(...unwrapList<FeeInvoice>(payload));
+        const reportedLastPage = (payload as { last_page?: unknown } | null)?.last_page;
+        lastPage = typeof reportedLastPage === "number" ? reportedLastPage : page;
+        page += 1;
+      } while (page <= lastPage);
+      return invoices;
+    };
+
+    const [schoolPayload, bankPayload, invoices] = await Promise.all([
+      fetchJson<{ school?: School } | School>(API_ROUTES.schoolContext),
+      fetchJson<unknown>(`${API_ROUTES.bankDetails}?per_page=200`),
+      loadInvoices(),
+    ]);
+
+    if (invoices.length === 0) {
+      throw new PrintBackendError("No invoices were found for the selected filters.", 404);
+    }
+
+    const school =
+      (schoolPayload as { school?: School }).school ?? (schoolPayload as School);
+    const sorted = [...invoices].sort((a, b) =>
+      String(a.student?.last_name ?? "").localeCompare(String(b.student?.last_name ?? "")),
+    );
+    const paymentId = params.payment_id ?? null;
+
+    if (
+      kind === "receipt" &&
+      !sorted.some((invoice) =>
+        (invoice.payments ?? []).some(
+          (payment) => !paymentId || String(payment.id) === paymentId,
+        ),
+      )
+    ) {
+      throw new PrintBackendError("No payments have been recorded for this selection.", 404);
+    }
+
+    return renderFeeDocumentsHtml({
+      kind,
+      school,
+      bankAccount: pickDefaultBankDetail(unwrapList<BankDetail>(bankPayload)),
+      invoices: sorted,
+      paymentId,
+      autoprint: params.autoprint === "1",
+    });
+  },
+});
+
+export const runtime = "nodejs";
@@ -0,0 +1,245 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  ATTENDANCE_QUEUE_EVENT,
+  listQueuedAttendance,
+  removeQueuedAttendance,
+  resolveAttendanceConflicts,
+  syncAttendanceQueue,
+  type AttendanceRegisterKind,
+  type QueuedAttendance,
+  type QueuedAttendanceStatus,
+} from "@/lib/attendanceOffline";
+
+interface AttendanceQueuePanelProps {
+  kind: AttendanceRegisterKind;
+  statusLabels: Record<string, string>;
+  /** Called after a sync or resolution so the page can reload its register. */
+  onSettled?: () => void;
+}
+
+const queueBadge: Record<QueuedAttendanceStatus, { className: string; label: string }> = {
+  pending: { className: "badge badge-warning", label: "Waiting to sync" },
+  syncing: { className: "badge badge-info", label: "Syncing" },
+  conflict: { className: "badge badge-danger", label: "Needs review" },
+  failed: { className: "badge badge-secondary", label: "Failed" },
+};
+
+const formatDateTime = (value: string | null) => {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+/**
+ * Attendance registers saved on this device that have not reached the
+ * server yet, with a choice per student (or staff member) where someone
+ * else marked them differently in the meantime.
+ */
+export function AttendanceQueuePanel({
+  kind,
+  statusLabels,
+  onSettled,
+}: AttendanceQueuePanelProps) {
+  const [items, setItems] = useState<QueuedAttendance[]>([]);
+  const [choices, setChoices] = useState<Record<string, "mine" | "theirs">>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listQueuedAttendance(kind)
+      .then(setItems)
+      .catch((queueError) => {
+        console.error("Unable to read the attendance queue", queueError);
+      });
+  }, [kind]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(ATTENDANCE_QUEUE_EVENT, refresh);
+    return () => {
+      window.removeEventListener(ATTENDANCE_QUEUE_EVENT, refresh);
+    };
+  }, [refresh]);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    setError(null);
+    try {
+      await syncAttendanceQueue({ force: true });
+      refresh();
+      onSettled?.();
+    } catch (syncError) {
+      setError(
+        syncError instanceof Error ? syncError.message : "Unable to sync attendance.",
+      );
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleResolve = async (item: QueuedAttendance) => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      const keepMine = item.conflicts
+        .filter((conflict) => choices[`${item.id}:${conflict.personId}`] !== "theirs")
+        .map((conflict) => conflict.personId);
+      await resolveAttendanceConflicts(item.id, keepMine);
+      onSettled?.();
+    } catch (resolveError) {
+      setError(
+        resolveError instanceof Error
+          ? resolveError.message
+          : "Unable to save the resolved attendance.",
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (item: QueuedAttendance) => {
+    if (!window.confirm("Discard this unsynced attendance? It cannot be recovered.")) {
+      return;
+    }
+    await removeQueuedAttendance(item.id);
+    onSettled?.();
+  };
+
+  if (!items.length) {
+    return null;
+  }
+
+  const labelFor = (status: string) => statusLabels[status] ?? status;
+
+  return (
+    <div className="card height-auto mb-4 border-warning">
+      <div className="card-body">
+        <div className="heading-layout1">
+          <div className="item-title">
+            <h3>Unsynced Attendance</h3>
+            <p className="mb-0 text-muted small">
+              Saved on this device while offline. It syncs automatically when the
+              connection returns.
+            </p>
+          </div>
+          <button
+            type="button"
+            className="btn btn-outline-primary btn-sm"
+            onClick={() => {
+              void handleSyncNow();
+            }}
+            disabled={syncing}
+          >
+            {syncing ? "Syncing..." : "Sync Now"}
+          </button>
+        </div>
+
+        {error ? (
+          <div className="alert alert-danger" role="alert">
+            {error}
+          </div>
+        ) : null}
+
+        {items.map((item) => (
+          <div key={item.id} className="border rounded p-3 mb-3">
+            <div className="d-flex flex-wrap align-items-center justify-content-between">
+              <div>
+                <strong>{item.label}</strong>
+                <div className="text-muted small">
+                  {item.payload.entries.length} entries · saved{" "}
+                  {formatDateTime(item.queuedAt)}
+                </div>
+              </div>
+              <div>
+                <span className={`${queueBadge[item.status].className} mr-2`}>
+                  {queueBadge[item.status].label}
+                </span>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() => {
+                    void handleDiscard(item);
+                  }}
+                  disabled={busyId === item.id}
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+
+            {item.lastError ? (
+              <p className="text-danger small mb-0 mt-2">{item.lastError}</p>
+            ) : null}
+
+            {item.status === "conflict" ? (
+              <>
+                <p className="small mt-3 mb-2">
+                  These were marked by someone else after this device loaded the
+                  register. Choose which status to keep.
+                </p>
+                <div className="table-responsive">
+                  <table className="table table-sm table-bordered mb-2">
+                    <thead>
+                      <tr>
+                        <th>Name</th>
+                        <th>This device</th>
+                        <th>On the server</th>
+                        <th>Keep</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {item.conflicts.map((conflict) => {
+                        const choiceKey = `${item.id}:${conflict.personId}`;
+                        return (
+                          <tr key={conflict.personId}>
+                            <td>{conflict.personName}</td>
+                            <td>{labelFor(conflict.localStatus)}</td>
+                            <td>
+                              {labelFor(conflict.serverStatus)}
+                              <div className="text-muted small">
+                                {conflict.recordedBy ? `${conflict.recordedBy}, ` : ""}
+                                {formatDateTime(conflict.serverUpdatedAt)}
+                              </div>
+                            </td>
+                            <td>
+                              <select
+                                className="form-control form-control-sm"
+                                value={choices[choiceKey] ?? "mine"}
+                                onChange={(event) =>
+                                  setChoices((prev) => ({
+                                    ...prev,
+                                    [choiceKey]: event.target.value as "mine" | "theirs",
+                                  }))
+                                }
+                              >
+                                <option value="mine">This device</option>
+                                <option value="theirs">Server</option>
+                              </select>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-primary"
+                  onClick={() => {
+                    void handleResolve(item);
+                  }}
+                  disabled={busyId === item.id}
+                >
+                  {busyId === item.id ? "Saving..." : "Apply Choices"}
+                </button>
+              </>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect } from "react";
+import { syncAttendanceQueue } from "@/lib/attendanceOffline";
+
+const SYNC_INTERVAL_MS = 30000;
+
+/**
+ * Replays attendance registers saved while offline: once on mount, when
+ * the browser reports it is back online, and on a slow interval for
+ * connections that come back without an `online` event.
+ */
+export function AttendanceQueueSync() {
+  useEffect(() => {
+    const sync = () => {
+      void syncAttendanceQueue().catch((error) => {
+        console.error("Unable to sync queued attendance", error);
+      });
+    };
+
+    sync();
+    const interval = window.setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener("online", sync);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener("online", sync);
+    };
+  }, []);
+
+  return null;
+}
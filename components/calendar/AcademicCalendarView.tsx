@@ -0,0 +1,188 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  addDays,
+  calendarEventTypeLabel,
+  eventsOnDate,
+  getSchoolDayStatus,
+  weekdayOf,
+  type CalendarEvent,
+  type CalendarEventType,
+} from "@/lib/academicCalendar";
+
+type CalendarViewMode = "month" | "week";
+
+interface AcademicCalendarViewProps {
+  events: CalendarEvent[];
+  term?: { start_date?: string | null; end_date?: string | null } | null;
+  defaultView?: CalendarViewMode;
+  onSelectEvent?: (event: CalendarEvent) => void;
+}
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const eventBadge: Record<CalendarEventType, string> = {
+  holiday: "badge badge-danger",
+  mid_term_break: "badge badge-warning",
+  exam_week: "badge badge-primary",
+  event: "badge badge-info",
+};
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+};
+
+const startOfWeek = (date: string) => addDays(date, -weekdayOf(date));
+
+const formatHeading = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    ...options,
+    timeZone: "UTC",
+  });
+
+/**
+ * Month or week grid of the academic calendar. Days the school is closed
+ * (weekends, holidays, breaks, outside the term) are shaded.
+ */
+export function AcademicCalendarView({
+  events,
+  term = null,
+  defaultView = "month",
+  onSelectEvent,
+}: AcademicCalendarViewProps) {
+  const today = todayIso();
+  const [view, setView] = useState<CalendarViewMode>(defaultView);
+  const [anchor, setAnchor] = useState(today);
+
+  const weeks = useMemo(() => {
+    if (view === "week") {
+      const start = startOfWeek(anchor);
+      return [Array.from({ length: 7 }, (_, index) => addDays(start, index))];
+    }
+    const monthStart = `${anchor.slice(0, 7)}-01`;
+    const rows: string[][] = [];
+    let cursor = startOfWeek(monthStart);
+    do {
+      rows.push(Array.from({ length: 7 }, (_, index) => addDays(cursor, index)));
+      cursor = addDays(cursor, 7);
+    } while (cursor.slice(0, 7) === monthStart.slice(0, 7));
+    return rows;
+  }, [anchor, view]);
+
+  const heading =
+    view === "month"
+      ? formatHeading(`${anchor.slice(0, 7)}-01`, { month: "long", year: "numeric" })
+      : `Week of ${formatHeading(startOfWeek(anchor), { day: "numeric", month: "short", year: "numeric" })}`;
+
+  const move = (direction: 1 | -1) => {
+    if (view === "week") {
+      setAnchor((current) => addDays(current, direction * 7));
+      return;
+    }
+    setAnchor((current) => {
+      const date = new Date(`${current.slice(0, 7)}-01T00:00:00Z`);
+      date.setUTCMonth(date.getUTCMonth() + direction);
+      return date.toISOString().slice(0, 10);
+    });
+  };
+
+  return (
+    <div className="academic-calendar">
+      <div className="d-flex flex-wrap align-items-center justify-content-between mb-3">
+        <div className="btn-group mb-2" role="group" aria-label="Calendar navigation">
+          <button type="button" className="btn btn-sm btn-outline-secondary" onClick={() => move(-1)}>
+            ‹ Prev
+          </button>
+          <button type="button" className="btn btn-sm btn-outline-secondary" onClick={() => setAnchor(today)}>
+            Today
+          </button>
+          <button type="button" className="btn btn-sm btn-outline-secondary" onClick={() => move(1)}>
+            Next ›
+          </button>
+        </div>
+        <strong className="mb-2">{heading}</strong>
+        <div className="btn-group mb-2" role="group" aria-label="Calendar view">
+          {(["month", "week"] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              className={`btn btn-sm ${view === mode ? "btn-primary" : "btn-outline-primary"}`}
+              onClick={() => setView(mode)}
+              aria-pressed={view === mode}
+            >
+              {mode === "month" ? "Month" : "Week"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="table-responsive">
+        <table className="table table-bordered mb-0 academic-calendar-grid">
+          <thead>
+            <tr>
+              {DAY_LABELS.map((label) => (
+                <th key={label} className="text-center">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {weeks.map((week) => (
+              <tr key={week[0]}>
+                {week.map((day) => {
+                  const status = getSchoolDayStatus(day, term, events);
+                  const outsideMonth = view === "month" && day.slice(0, 7) !== anchor.slice(0, 7);
+                  return (
+                    <td
+                      key={day}
+                      className={[
+                        status.schoolDay ? "" : "academic-calendar-closed",
+                        outsideMonth ? "text-muted" : "",
+                        day === today ? "academic-calendar-today" : "",
+                      ]
+                        .filter(Boolean)
+                        .join(" ")}
+                      title={status.reason ?? "School day"}
+                    >
+                      <div className="small font-weight-bold">{Number(day.slice(8, 10))}</div>
+                      {eventsOnDate(events, day).map((event) => (
+                        <button
+                          key={event.id}
+                          type="button"
+                          className={`${eventBadge[event.type] ?? "badge badge-secondary"} d-block w-100 text-left text-truncate border-0 mt-1`}
+                          title={`${event.title} · ${calendarEventTypeLabel(event.type)}`}
+                          onClick={() => onSelectEvent?.(event)}
+                          disabled={!onSelectEvent}
+                        >
+                          {event.title}
+                        </button>
+                      ))}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <style jsx>{`
+        .academic-calendar-grid td {
+          width: 14.28%;
+          height: ${view === "week" ? "120px" : "84px"};
+          vertical-align: top;
+          padding: 6px;
+        }
+        .academic-calendar-closed {
+          background: #f5f6f8;
+        }
+        .academic-calendar-today {
+          box-shadow: inset 0 0 0 2px #ffae01;
+        }
+      `}</style>
+    </div>
+  );
+}
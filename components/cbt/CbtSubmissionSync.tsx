@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect } from "react";
+import { syncQueuedSubmissions } from "@/lib/cbtOffline";
+
+const SYNC_INTERVAL_MS = 30000;
+
+/**
+ * Replays queued offline CBT submissions in the background: once on mount,
+ * whenever the browser reports it is back online, and on a slow interval
+ * for connections that come back without an `online` event.
+ */
+export function CbtSubmissionSync() {
+  useEffect(() => {
+    const sync = () => {
+      void syncQueuedSubmissions().catch((error) => {
+        console.error("Unable to sync queued CBT submissions", error);
+      });
+    };
+
+    sync();
+    const interval = window.setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener("online", sync);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener("online", sync);
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useMemo, useState, type ChangeEvent } from "react";
+import {
+  QUESTION_TEXT_FORMATS,
+  extractDocxText,
+  parseQuestionText,
+  type PortableQuestion,
+  type QuestionTextFormat,
+} from "@/lib/cbtQuestionFormats";
+
+interface QuestionFormatImportProps {
+  importing: boolean;
+  onImport: (questions: PortableQuestion[]) => void;
+}
+
+const roleClass: Record<string, string> = {
+  stem: "text-dark",
+  option: "text-primary",
+  answer: "text-success font-weight-bold",
+  comment: "text-muted font-italic",
+  blank: "",
+};
+
+/**
+ * Paste or upload Aiken / GIFT text (or a Word document written in either
+ * format), check the line-by-line preview, then hand the parsed questions
+ * to the page to create.
+ */
+export function QuestionFormatImport({ importing, onImport }: QuestionFormatImportProps) {
+  const [format, setFormat] = useState<QuestionTextFormat | "auto">("auto");
+  const [text, setText] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+
+  const result = useMemo(
+    () => (text.trim() ? parseQuestionText(text, format) : null),
+    [format, text],
+  );
+
+  const visibleLines = useMemo(() => {
+    if (!result) return [];
+    return showErrorsOnly ? result.lines.filter((line) => line.error) : result.lines;
+  }, [result, showErrorsOnly]);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setFileError(null);
+    try {
+      const content = file.name.toLowerCase().endsWith(".docx")
+        ? await extractDocxText(file)
+        : await file.text();
+      setText(content);
+      if (file.name.toLowerCase().endsWith(".gift")) {
+        setFormat("gift");
+      }
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "Unable to read this file.");
+    }
+  };
+
+  const handleImport = () => {
+    if (!result?.questions.length) return;
+    if (
+      result.errorCount > 0 &&
+      !window.confirm(
+        `${result.errorCount} question(s) have errors and will be skipped. Import the other ${result.questions.length}?`,
+      )
+    ) {
+      return;
+    }
+    onImport(result.questions);
+  };
+
+  return (
+    <div>
+      <p className="text-muted small mb-2">
+        Aiken: stem, lettered options (<code>A.</code>) and <code>ANSWER: B</code>, with a blank
+        line between questions. GIFT: <code>{"Stem {=right ~wrong}"}</code>. Word documents
+        written in either format are read as plain text; type option letters rather than using
+        automatic numbering.
+      </p>
+
+      <div className="d-flex flex-wrap align-items-center mb-2">
+        <select
+          className="form-control form-control-sm mr-2 mb-2"
+          style={{ width: 180 }}
+          value={format}
+          aria-label="Import format"
+          onChange={(event) => setFormat(event.target.value as QuestionTextFormat | "auto")}
+        >
+          <option value="auto">Detect format</option>
+          {QUESTION_TEXT_FORMATS.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <label className="btn btn-sm btn-outline-secondary mb-2 mr-2">
+          Upload .txt / .gift / .docx
+          <input
+            type="file"
+            accept=".txt,.gift,.docx,text/plain"
+            className="d-none"
+            onChange={(event) => void handleFile(event)}
+          />
+        </label>
+        {text ? (
+          <button
+            type="button"
+            className="btn btn-sm btn-link mb-2"
+            onClick={() => setText("")}
+          >
+            Clear
+          </button>
+        ) : null}
+      </div>
+      {fileError ? <div className="alert alert-danger py-2 small">{fileError}</div> : null}
+
+      <textarea
+        className="form-control mb-3"
+        rows={8}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        placeholder={"What is 2 + 2?\nA. 3\nB. 4\nANSWER: B"}
+        style={{ fontFamily: "monospace" }}
+      />
+
+      {result ? (
+        <>
+          <div className="d-flex justify-content-between align-items-center mb-2">
+            <span className="small">
+              Read as <strong>{result.format === "gift" ? "GIFT" : "Aiken"}</strong>:{" "}
+              <span className="text-success">{result.questions.length} question(s) ready</span>
+              {result.errorCount ? (
+                <span className="text-danger">, {result.errorCount} with errors</span>
+              ) : null}
+            </span>
+            {result.errorCount ? (
+              <label className="small mb-0 font-weight-normal">
+                <input
+                  type="checkbox"
+                  className="mr-1"
+                  checked={showErrorsOnly}
+                  onChange={(event) => setShowErrorsOnly(event.target.checked)}
+                />
+                Errors only
+              </label>
+            ) : null}
+          </div>
+          <div
+            className="border rounded mb-3"
+            style={{ maxHeight: 320, overflowY: "auto", fontFamily: "monospace", fontSize: 13 }}
+          >
+            <table className="table table-sm mb-0">
+              <tbody>
+                {visibleLines.map((line) => (
+                  <tr key={line.number} className={line.error ? "table-danger" : undefined}>
+                    <td className="text-muted text-right" style={{ width: 48 }}>
+                      {line.number}
+                    </td>
+                    <td style={{ width: 40 }}>
+                      {line.question ? (
+                        <span className="badge badge-light">Q{line.question}</span>
+                      ) : null}
+                    </td>
+                    <td className={roleClass[line.role]} style={{ whiteSpace: "pre-wrap" }}>
+                      {line.text || " "}
+                      {line.error ? (
+                        <div className="text-danger small font-weight-bold">{line.error}</div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+
+      <button
+        type="button"
+        className="btn btn-sm btn-primary"
+        onClick={handleImport}
+        disabled={importing || !result?.questions.length}
+      >
+        {importing
+          ? "Importing..."
+          : `Import ${result?.questions.length ?? 0} Question${result?.questions.length === 1 ? "" : "s"}`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { getErrorMessage } from "@/lib/errors";
+import {
+  BLOOM_LEVELS,
+  QUESTION_DIFFICULTIES,
+  addBankQuestionsToQuiz,
+  assembleFromBlueprint,
+  checkBlueprint,
+  emptyBlueprintRule,
+  fetchQuizBlueprint,
+  listAllBankQuestions,
+  saveQuizBlueprint,
+  type BankQuestion,
+  type BlueprintRule,
+  type BloomLevel,
+  type QuestionDifficulty,
+  type QuizBlueprint,
+} from "@/lib/cbtQuestionBank";
+
+interface QuizBankPanelProps {
+  quizId: string;
+  subjectId: string | null;
+  classId: string | null;
+  /** Bank questions already copied into the quiz, so they are not offered twice. */
+  usedBankQuestionIds: string[];
+  onQuestionsAdded: (count: number) => void;
+}
+
+const PICKER_LIMIT = 20;
+
+const newSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Reuses bank questions in a quiz: pick them by hand, or describe the paper
+ * as a blueprint and let each student draw their own equivalent paper.
+ */
+export function QuizBankPanel({
+  quizId,
+  subjectId,
+  classId,
+  usedBankQuestionIds,
+  onQuestionsAdded,
+}: QuizBankPanelProps) {
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [search, setSearch] = useState("");
+  const [picked, setPicked] = useState<string[]>([]);
+  const [adding, setAdding] = useState(false);
+
+  const [blueprint, setBlueprint] = useState<QuizBlueprint | null>(null);
+  const [savingBlueprint, setSavingBlueprint] = useState(false);
+  const [seed, setSeed] = useState(newSeed);
+  const [showSample, setShowSample] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!subjectId) {
+      return;
+    }
+    try {
+      setLoading(true);
+      const [questions, savedBlueprint] = await Promise.all([
+        listAllBankQuestions({ subject_id: subjectId }),
+        fetchQuizBlueprint(quizId),
+      ]);
+      setBank(questions);
+      setBlueprint(
+        savedBlueprint ?? {
+          subject_id: subjectId,
+          class_id: classId,
+          rules: [emptyBlueprintRule()],
+          per_student: true,
+        },
+      );
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load the question bank."));
+    } finally {
+      setLoading(false);
+    }
+  }, [classId, quizId, subjectId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const topics = useMemo(
+    () =>
+      [...new Set(bank.map((question) => question.topic).filter((topic): topic is string => Boolean(topic)))].sort(),
+    [bank],
+  );
+
+  const pickerResults = useMemo(() => {
+    const used = new Set(usedBankQuestionIds);
+    const term = search.trim().toLowerCase();
+    return bank
+      .filter((question) => !used.has(question.id))
+      .filter((question) => !classId || !question.class_ids.length || question.class_ids.includes(classId))
+      .filter(
+        (question) =>
+          !term ||
+          question.question_text.toLowerCase().includes(term) ||
+          (question.topic ?? "").toLowerCase().includes(term),
+      )
+      .slice(0, PICKER_LIMIT);
+  }, [bank, classId, search, usedBankQuestionIds]);
+
+  const check = useMemo(
+    () => (blueprint ? checkBlueprint(blueprint, bank) : null),
+    [bank, blueprint],
+  );
+
+  const sample = useMemo(
+    () => (blueprint && showSample ? assembleFromBlueprint(blueprint, bank, seed) : []),
+    [bank, blueprint, seed, showSample],
+  );
+
+  const updateRule = (index: number, patch: Partial<BlueprintRule>) => {
+    setBlueprint((prev) =>
+      prev
+        ? {
+            ...prev,
+            rules: prev.rules.map((rule, idx) => (idx === index ? { ...rule, ...patch } : rule)),
+          }
+        : prev,
+    );
+  };
+
+  const addQuestions = async (questionIds: string[], message: string) => {
+    try {
+      setAdding(true);
+      setError(null);
+      const { added } = await addBankQuestionsToQuiz(quizId, questionIds);
+      setPicked([]);
+      setNotice(message.replace("{count}", String(added)));
+      onQuestionsAdded(added);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to add questions from the bank."));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleSaveBlueprint = async () => {
+    if (!blueprint || !check) {
+      return;
+    }
+    if (!check.ready) {
+      setError("The bank does not hold enough questions for every rule yet.");
+      return;
+    }
+    try {
+      setSavingBlueprint(true);
+      setError(null);
+      setBlueprint(await saveQuizBlueprint(quizId, blueprint));
+      setNotice(
+        blueprint.per_student
+          ? `Blueprint saved. Each student will draw ${check.totalQuestions} questions when they start.`
+          : "Blueprint saved.",
+      );
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to save the blueprint."));
+    } finally {
+      setSavingBlueprint(false);
+    }
+  };
+
+  if (!subjectId) {
+    return (
+      <p className="text-muted small mb-0">
+        Set the quiz subject to reuse questions from the question bank.
+      </p>
+    );
+  }
+
+  if (loading && !blueprint) {
+    return <p className="text-muted small mb-0">Loading question bank…</p>;
+  }
+
+  return (
+    <div>
+      {error ? (
+        <div className="alert alert-danger py-2 small" role="alert">
+          {error}
+        </div>
+      ) : null}
+      {notice ? (
+        <div className="alert alert-success py-2 small" role="alert">
+          {notice}
+        </div>
+      ) : null}
+
+      <p className="small text-muted">
+        {bank.length} question(s) in this subject&apos;s{" "}
+        <Link href="/v27/cbt/admin/question-bank">question bank</Link>.
+      </p>
+
+      <h5 className="mb-2">Add from Bank</h5>
+      <input
+        type="search"
+        className="form-control form-control-sm mb-2"
+        placeholder="Search by text or topic"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+      />
+      <div className="border rounded p-2 mb-2" style={{ maxHeight: 240, overflowY: "auto" }}>
+        {pickerResults.length === 0 ? (
+          <small className="text-muted">No unused bank questions match.</small>
+        ) : (
+          pickerResults.map((question) => (
+            <label key={question.id} className="d-flex align-items-start small mb-2 font-weight-normal">
+              <input
+                type="checkbox"
+                className="mr-2 mt-1"
+                checked={picked.includes(question.id)}
+                onChange={(event) =>
+                  setPicked((prev) =>
+                    event.target.checked
+                      ? [...prev, question.id]
+                      : prev.filter((id) => id !== question.id),
+                  )
+                }
+              />
+              <span>
+                {question.question_text.slice(0, 80)}
+                <span className="d-block text-muted">
+                  {[question.topic, question.difficulty, `${question.marks} mark(s)`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </span>
+            </label>
+          ))
+        )}
+      </div>
+      <button
+        type="button"
+        className="btn btn-sm btn-outline-primary mb-4"
+        disabled={!picked.length || adding}
+        onClick={() => void addQuestions(picked, "Added {count} question(s) from the bank.")}
+      >
+        Add {picked.length || ""} Selected
+      </button>
+
+      {blueprint ? (
+        <>
+          <h5 className="mb-2">Blueprint</h5>
+          {blueprint.rules.map((rule, index) => {
+            const ruleCheck = check?.rules[index];
+            return (
+              <div key={index} className="border rounded p-2 mb-2">
+                <div className="d-flex align-items-center mb-2">
+                  <input
+                    type="number"
+                    min={1}
+                    className="form-control form-control-sm mr-2"
+                    style={{ width: 70 }}
+                    value={rule.count}
+                    aria-label="Number of questions"
+                    onChange={(event) => updateRule(index, { count: Math.max(0, Number(event.target.value) || 0) })}
+                  />
+                  <select
+                    className="form-control form-control-sm mr-2"
+                    value={rule.difficulty ?? ""}
+                    aria-label="Difficulty"
+                    onChange={(event) =>
+                      updateRule(index, {
+                        difficulty: (event.target.value || null) as QuestionDifficulty | null,
+                      })
+                    }
+                  >
+                    <option value="">Any difficulty</option>
+                    {QUESTION_DIFFICULTIES.map((entry) => (
+                      <option key={entry.value} value={entry.value}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-link text-danger p-0"
+                    aria-label="Remove rule"
+                    onClick={() =>
+                      setBlueprint({
+                        ...blueprint,
+                        rules: blueprint.rules.filter((_, idx) => idx !== index),
+                      })
+                    }
+                  >
+                    ×
+                  </button>
+                </div>
+                <select
+                  className="form-control form-control-sm mb-2"
+                  value={rule.bloom_level ?? ""}
+                  aria-label="Bloom level"
+                  onChange={(event) =>
+                    updateRule(index, { bloom_level: (event.target.value || null) as BloomLevel | null })
+                  }
+                >
+                  <option value="">Any Bloom level</option>
+                  {BLOOM_LEVELS.map((entry) => (
+                    <option key={entry.value} value={entry.value}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  multiple
+                  className="form-control form-control-sm"
+                  style={{ height: 80 }}
+                  value={rule.topics}
+                  aria-label="Topics"
+                  onChange={(event) =>
+                    updateRule(index, {
+                      topics: Array.from(event.target.selectedOptions, (option) => option.value),
+                    })
+                  }
+                >
+                  {topics.map((topic) => (
+                    <option key={topic} value={topic}>
+                      {topic}
+                    </option>
+                  ))}
+                </select>
+                <small className="text-muted d-block">
+                  {rule.topics.length ? "From the selected topics" : "From any topic"}
+                </small>
+                {ruleCheck ? (
+                  <small
+                    className={`d-block ${ruleCheck.shortfall ? "text-danger" : "text-success"}`}
+                  >
+                    {ruleCheck.available} in the bank
+                    {ruleCheck.shortfall ? `, ${ruleCheck.shortfall} short` : ""}
+                    {ruleCheck.marks.length > 1
+                      ? ` · mixed marks (${ruleCheck.marks.join(", ")}), so paper totals can differ`
+                      : ""}
+                  </small>
+                ) : null}
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-secondary mb-3"
+            onClick={() =>
+              setBlueprint({ ...blueprint, rules: [...blueprint.rules, emptyBlueprintRule()] })
+            }
+          >
+            + Add Rule
+          </button>
+
+          <div className="custom-control custom-checkbox mb-2">
+            <input
+              id="blueprint-per-student"
+              type="checkbox"
+              className="custom-control-input"
+              checked={blueprint.per_student}
+              onChange={(event) => setBlueprint({ ...blueprint, per_student: event.target.checked })}
+            />
+            <label className="custom-control-label small" htmlFor="blueprint-per-student">
+              Draw a different paper for each student
+            </label>
+          </div>
+
+          {check ? (
+            <p className={`small ${check.ready ? "text-success" : "text-danger"}`}>
+              {check.totalQuestions} question(s) per paper from a pool of {check.poolSize}.
+              {!check.ready && check.poolSize < check.totalQuestions
+                ? " Rules overlap too much for the bank to fill every paper."
+                : ""}
+            </p>
+          ) : null}
+
+          <div className="d-flex flex-wrap">
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-primary mr-2 mb-2"
+              disabled={savingBlueprint || !check?.ready}
+              onClick={() => void handleSaveBlueprint()}
+            >
+              {savingBlueprint ? "Saving…" : "Save Blueprint"}
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary mr-2 mb-2"
+              disabled={!check?.ready}
+              onClick={() => {
+                setSeed(newSeed());
+                setShowSample(true);
+              }}
+            >
+              {showSample ? "Draw Another" : "Preview a Paper"}
+            </button>
+          </div>
+
+          {showSample && sample.length ? (
+            <div className="border rounded p-2">
+              <ol className="small pl-3 mb-2">
+                {sample.map((question) => (
+                  <li key={question.id}>
+                    {question.question_text.slice(0, 70)}
+                    <span className="text-muted"> ({question.marks})</span>
+                  </li>
+                ))}
+              </ol>
+              <small className="text-muted d-block mb-2">
+                {sample.reduce((sum, question) => sum + question.marks, 0)} marks in this draw.
+              </small>
+              {!blueprint.per_student ? (
+                <button
+                  type="button"
+                  className="btn btn-sm btn-outline-primary"
+                  disabled={adding}
+                  onClick={() =>
+                    void addQuestions(
+                      sample.map((question) => question.id),
+                      "Added {count} drawn question(s) as the fixed paper.",
+                    )
+                  }
+                >
+                  Use This Paper
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
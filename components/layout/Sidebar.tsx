@@ -103,6 +103,11 @@ export function getMenuSections(
         "results.enter",
       ],
     },
+    {
+      label: "Result Publication",
+      href: "/v19/result-publication",
+      requiredPermissions: "results.publication.view",
+    },
     {
       label: "Class Skill Ratings",
       href: "/v14/class-skill-ratings",
@@ -163,6 +168,7 @@ export function getMenuSections(
       links: [
         { label: "Session", href: "/v11/all-sessions", requiredPermissions: "sessions.view" },
         { label: "Term", href: "/v11/all-terms", requiredPermissions: "terms.view" },
+        { label: "Academic Calendar", href: "/v11/academic-calendar", requiredPermissions: "calendar.view" },
         { label: "Subject", href: "/v16/all-subjects", requiredPermissions: "subjects.view" },
         {
           label: "Classes",
@@ -173,6 +179,7 @@ export function getMenuSections(
           ],
         },
         { label: "Result Pin", href: "/v19/pins", requiredPermissions: "result.pin.view" },
+        { label: "Scratch Card Batches", href: "/v19/pin-batches", requiredPermissions: "result.pin.batch.view" },
       ],
     },
     {
@@ -224,6 +231,17 @@ export function getMenuSections(
         { label: "Student Attendance", href: "/v21/student-attendance", requiredPermissions: "attendance.student.view" },
         { label: "Staff Attendance", href: "/v21/staff-attendance", requiredPermissions: "attendance.staff.view" },
         { label: "Attendance Reports", href: "/v21/attendance-dashboard", requiredPermissions: "attendance.dashboard.view" },
+        { label: "Attendance Analytics", href: "/v21/attendance-analytics", requiredPermissions: "attendance.stats.view" },
+      ],
+    },
+    {
+      label: "Finance",
+      icon: "flaticon-money",
+      links: [
+        { label: "Bank Details", href: "/v23/bank-details", requiredPermissions: "finance.bank.view" },
+        { label: "Fee Structure", href: "/v23/fee-structure", requiredPermissions: "finance.fee-structures.view" },
+        { label: "Student Invoices", href: "/v23/student-invoices", requiredPermissions: "finance.invoices.view" },
+        { label: "Debtors", href: "/v23/fee-debtors", requiredPermissions: "finance.debtors.view" },
       ],
     },
     {
@@ -231,7 +249,9 @@ export function getMenuSections(
       icon: "flaticon-checklist",
       links: [
         { label: "Quiz Panel", href: "/v27/cbt/admin", requiredPermissions: "cbt.admin.view" },
+        { label: "Question Bank", href: "/v27/cbt/admin/question-bank", requiredPermissions: "cbt.question-bank.view" },
         { label: "CBT Link", href: "/v27/cbt/admin/cbt-link", requiredPermissions: "cbt.links.view" },
+        { label: "Offline Queue", href: "/v27/cbt/admin/offline-queue", requiredPermissions: "cbt.admin.view" },
       ],
     },
     {
@@ -0,0 +1,426 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  buildExportZip,
+  createExportJob,
+  deleteExportJob,
+  listExportJobs,
+  requeueFailed,
+  runExportJob,
+  type ExportClassOption,
+  type ExportStudentStatus,
+  type ReportCardExportJob,
+} from "@/lib/reportCardExport";
+
+interface ReportCardExportPanelProps {
+  sessionId: string;
+  termId: string;
+  /** Shown in the job list, e.g. "2024/2025 · First Term". */
+  contextLabel: string;
+  classes: ExportClassOption[];
+}
+
+const studentBadge: Record<ExportStudentStatus, { className: string; label: string }> = {
+  pending: { className: "badge badge-secondary", label: "Waiting" },
+  done: { className: "badge badge-success", label: "Ready" },
+  failed: { className: "badge badge-danger", label: "Failed" },
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+const countByStatus = (job: ReportCardExportJob) =>
+  job.students.reduce(
+    (counts, student) => {
+      counts[student.status] += 1;
+      return counts;
+    },
+    { pending: 0, done: 0, failed: 0 } as Record<ExportStudentStatus, number>,
+  );
+
+/**
+ * Renders one PDF report card per student for the chosen classes and
+ * bundles them into a ZIP. Jobs live on this device, so a closed tab can
+ * be resumed from where it stopped.
+ */
+export function ReportCardExportPanel({
+  sessionId,
+  termId,
+  contextLabel,
+  classes,
+}: ReportCardExportPanelProps) {
+  const [jobs, setJobs] = useState<ReportCardExportJob[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [selectedClassIds, setSelectedClassIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [runningJobId, setRunningJobId] = useState<string | null>(null);
+  const [zipping, setZipping] = useState(false);
+  const [showAllStudents, setShowAllStudents] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const replaceJob = useCallback((job: ReportCardExportJob) => {
+    setJobs((prev) => {
+      const exists = prev.some((item) => item.id === job.id);
+      return exists
+        ? prev.map((item) => (item.id === job.id ? job : item))
+        : [job, ...prev];
+    });
+  }, []);
+
+  useEffect(() => {
+    listExportJobs()
+      .then((stored) => {
+        // A job still marked running was cut off when the tab closed.
+        const restored = stored.map((job) =>
+          job.status === "running" ? { ...job, status: "paused" as const } : job,
+        );
+        setJobs(restored);
+        setActiveJobId((current) => current ?? restored[0]?.id ?? null);
+      })
+      .catch((loadError) => {
+        console.error("Unable to read saved report card exports", loadError);
+      });
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  const activeJob = jobs.find((job) => job.id === activeJobId) ?? null;
+  const running = runningJobId !== null;
+
+  const startRun = async (jobId: string) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunningJobId(jobId);
+    setError(null);
+    try {
+      const finished = await runExportJob(jobId, {
+        signal: controller.signal,
+        onProgress: replaceJob,
+      });
+      if (finished.pausedReason) {
+        setError(finished.pausedReason);
+      }
+    } catch (runError) {
+      setError(
+        runError instanceof Error ? runError.message : "Unable to render report cards.",
+      );
+    } finally {
+      controllerRef.current = null;
+      setRunningJobId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const chosen = classes.filter((schoolClass) =>
+      selectedClassIds.includes(schoolClass.id),
+    );
+    if (!sessionId || !termId || chosen.length === 0) {
+      setError("Select a session, term, and at least one class to continue.");
+      return;
+    }
+    setCreating(true);
+    setError(null);
+    try {
+      const job = await createExportJob({
+        sessionId,
+        termId,
+        label: contextLabel,
+        classes: chosen,
+      });
+      replaceJob(job);
+      setActiveJobId(job.id);
+      setShowAllStudents(false);
+      setCreating(false);
+      await startRun(job.id);
+    } catch (createError) {
+      setError(
+        createError instanceof Error ? createError.message : "Unable to start the export.",
+      );
+      setCreating(false);
+    }
+  };
+
+  const handleRetryFailed = async (jobId: string) => {
+    const updated = await requeueFailed(jobId);
+    if (!updated) return;
+    replaceJob(updated);
+    await startRun(jobId);
+  };
+
+  const handleDownload = async (job: ReportCardExportJob) => {
+    setZipping(true);
+    setError(null);
+    try {
+      const zip = await buildExportZip(job);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `report-cards-${job.label.replace(/[^A-Za-z0-9]+/g, "-")}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (zipError) {
+      setError(zipError instanceof Error ? zipError.message : "Unable to build the ZIP file.");
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const handleDiscard = async (jobId: string) => {
+    if (!window.confirm("Discard this export and the report cards rendered so far?")) {
+      return;
+    }
+    await deleteExportJob(jobId);
+    setJobs((prev) => prev.filter((job) => job.id !== jobId));
+    setActiveJobId((current) => (current === jobId ? null : current));
+  };
+
+  const toggleClass = (classId: string) => {
+    setSelectedClassIds((prev) =>
+      prev.includes(classId) ? prev.filter((id) => id !== classId) : [...prev, classId],
+    );
+  };
+
+  const counts = activeJob ? countByStatus(activeJob) : null;
+  const processed = counts ? counts.done + counts.failed : 0;
+  const percent =
+    activeJob && activeJob.students.length > 0
+      ? Math.round((processed / activeJob.students.length) * 100)
+      : 0;
+  const visibleStudents = activeJob
+    ? showAllStudents
+      ? activeJob.students
+      : activeJob.students.filter((student) => student.status === "failed")
+    : [];
+
+  return (
+    <div className="card height-auto">
+      <div className="card-body">
+        <div className="heading-layout1">
+          <div className="item-title">
+            <h3>Download Report Cards as ZIP</h3>
+            <p className="text-muted mb-0">
+              Renders one PDF per student (named by admission number and surname) for every
+              class you pick. Progress is saved on this device, so you can close the tab and
+              resume later.
+            </p>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="alert alert-warning" role="alert">
+            {error}
+          </div>
+        ) : null}
+
+        <div className="form-group">
+          <label>Classes</label>
+          {classes.length === 0 ? (
+            <p className="text-muted mb-0">No classes available.</p>
+          ) : (
+            <div className="d-flex flex-wrap">
+              {classes.map((schoolClass) => (
+                <div key={schoolClass.id} className="form-check mr-4 mb-2">
+                  <input
+                    id={`export-class-${schoolClass.id}`}
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={selectedClassIds.includes(schoolClass.id)}
+                    onChange={() => toggleClass(schoolClass.id)}
+                    disabled={running || creating}
+                  />
+                  <label
+                    htmlFor={`export-class-${schoolClass.id}`}
+                    className="form-check-label"
+                  >
+                    {schoolClass.name}
+                  </label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button
+          type="button"
+          className="btn-fill-lg btn-gradient-yellow btn-hover-bluedark"
+          onClick={() => void handleCreate()}
+          disabled={
+            !sessionId || !termId || selectedClassIds.length === 0 || running || creating
+          }
+        >
+          {creating ? "Finding students…" : "Start Export"}
+        </button>
+
+        {jobs.length > 0 ? (
+          <div className="table-responsive mt-4">
+            <table className="table display text-nowrap">
+              <thead>
+                <tr>
+                  <th>Started</th>
+                  <th>Session / Term</th>
+                  <th>Classes</th>
+                  <th>Progress</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => {
+                  const jobCounts = countByStatus(job);
+                  const isRunning = runningJobId === job.id;
+                  return (
+                    <tr key={job.id} className={job.id === activeJobId ? "table-active" : ""}>
+                      <td>{formatDateTime(job.createdAt)}</td>
+                      <td>{job.label}</td>
+                      <td>{job.classNames.join(", ")}</td>
+                      <td>
+                        {jobCounts.done} of {job.students.length} ready
+                        {jobCounts.failed > 0 ? `, ${jobCounts.failed} failed` : ""}
+                        {job.status === "completed" ? null : isRunning ? (
+                          <span className="badge badge-info ml-2">Running</span>
+                        ) : (
+                          <span className="badge badge-warning ml-2">Paused</span>
+                        )}
+                      </td>
+                      <td className="text-right">
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-outline-secondary mr-2"
+                          onClick={() => setActiveJobId(job.id)}
+                        >
+                          Details
+                        </button>
+                        {isRunning ? (
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-warning mr-2"
+                            onClick={() => controllerRef.current?.abort()}
+                          >
+                            Pause
+                          </button>
+                        ) : jobCounts.pending > 0 ? (
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-primary mr-2"
+                            onClick={() => {
+                              setActiveJobId(job.id);
+                              void startRun(job.id);
+                            }}
+                            disabled={running}
+                          >
+                            Resume
+                          </button>
+                        ) : null}
+                        {!isRunning && jobCounts.failed > 0 ? (
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-primary mr-2"
+                            onClick={() => {
+                              setActiveJobId(job.id);
+                              void handleRetryFailed(job.id);
+                            }}
+                            disabled={running}
+                          >
+                            Retry Failed
+                          </button>
+                        ) : null}
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-success mr-2"
+                          onClick={() => void handleDownload(job)}
+                          disabled={isRunning || zipping || jobCounts.done === 0}
+                        >
+                          {zipping ? "Zipping…" : "Download ZIP"}
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-outline-danger"
+                          onClick={() => void handleDiscard(job.id)}
+                          disabled={isRunning}
+                        >
+                          Discard
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
+        {activeJob && counts ? (
+          <div className="mt-3">
+            <div className="d-flex justify-content-between align-items-center mb-2">
+              <strong>
+                {processed} of {activeJob.students.length} processed ({counts.done} ready,{" "}
+                {counts.failed} failed)
+              </strong>
+              <button
+                type="button"
+                className="btn btn-sm btn-link"
+                onClick={() => setShowAllStudents((prev) => !prev)}
+              >
+                {showAllStudents ? "Show failures only" : "Show every student"}
+              </button>
+            </div>
+            <div className="progress mb-3">
+              <div
+                className="progress-bar"
+                role="progressbar"
+                style={{ width: `${percent}%` }}
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                {percent}%
+              </div>
+            </div>
+
+            {visibleStudents.length > 0 ? (
+              <div className="table-responsive">
+                <table className="table display text-nowrap">
+                  <thead>
+                    <tr>
+                      <th>Admission No.</th>
+                      <th>Student</th>
+                      <th>Class</th>
+                      <th>File</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleStudents.map((student) => (
+                      <tr key={student.studentId}>
+                        <td>{student.admissionNo || "—"}</td>
+                        <td>{student.name || "—"}</td>
+                        <td>{student.className || "—"}</td>
+                        <td>{student.fileName}</td>
+                        <td>
+                          <span className={studentBadge[student.status].className}>
+                            {studentBadge[student.status].label}
+                          </span>
+                          {student.error ? (
+                            <div className="small text-danger">{student.error}</div>
+                          ) : null}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : !showAllStudents ? (
+              <p className="text-muted mb-0">No failures so far.</p>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
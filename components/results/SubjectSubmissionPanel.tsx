@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import {
+  PUBLICATION_STAGE_LABELS,
+  findSubjectStatus,
+  isSubjectLocked,
+  transitionResultPublication,
+  type ClassResultPublication,
+} from "@/lib/resultPublication";
+
+interface SubjectSubmissionPanelProps {
+  publication: ClassResultPublication;
+  subjectId: string;
+  /** Whether this user may submit the subject (permission and assignment). */
+  canSubmit: boolean;
+  onChange: (publication: ClassResultPublication) => void;
+}
+
+/**
+ * Where the selected subject stands in the class's publication workflow,
+ * with the subject teacher's Submit for Review step. Submitting locks the
+ * scores until a reviewer sends the subject back.
+ */
+export function SubjectSubmissionPanel({
+  publication,
+  subjectId,
+  canSubmit,
+  onChange,
+}: SubjectSubmissionPanelProps) {
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const subject = findSubjectStatus(publication, subjectId);
+  const locked = isSubjectLocked(publication, subjectId);
+
+  if (!subject) {
+    return null;
+  }
+
+  const missing = Math.max(subject.expected_count - subject.entered_count, 0);
+
+  const handleSubmit = async () => {
+    const warning =
+      missing > 0
+        ? `${missing} student(s) still have no complete score. Submit anyway? `
+        : "";
+    if (
+      !window.confirm(
+        `${warning}Scores for ${subject.subject_name} will be locked until the class teacher sends them back.`,
+      )
+    ) {
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      onChange(
+        await transitionResultPublication(publication.id, {
+          action: "submit",
+          subject_ids: [subject.subject_id],
+          comment: comment.trim() || undefined,
+        }),
+      );
+      setComment("");
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error ? submitError.message : "Unable to submit this subject.",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={`alert ${locked ? "alert-secondary" : "alert-light border"}`} role="status">
+      <div className="d-flex flex-wrap align-items-center justify-content-between">
+        <div>
+          <strong>{subject.subject_name}</strong>:{" "}
+          {subject.entered_count} of {subject.expected_count} students scored ·{" "}
+          {subject.stage === "submitted"
+            ? `submitted${subject.submitted_by ? ` by ${subject.submitted_by}` : ""}`
+            : "draft"}{" "}
+          · class is <strong>{PUBLICATION_STAGE_LABELS[publication.stage]}</strong>
+        </div>
+        {!locked && canSubmit ? (
+          <div className="d-flex align-items-center mt-2 mt-md-0">
+            <input
+              type="text"
+              className="form-control form-control-sm mr-2"
+              placeholder="Note for the class teacher (optional)"
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              disabled={submitting}
+              style={{ minWidth: "240px" }}
+            />
+            <button
+              type="button"
+              className="btn btn-sm btn-success text-nowrap"
+              onClick={() => void handleSubmit()}
+              disabled={submitting}
+            >
+              {submitting ? "Submitting…" : "Submit for Review"}
+            </button>
+          </div>
+        ) : null}
+      </div>
+      {locked ? (
+        <p className="mb-0 mt-2 small">
+          Scores are locked while these results are under review. Ask the class teacher to
+          send the subject back if something needs correcting.
+        </p>
+      ) : subject.returned_comment ? (
+        <p className="mb-0 mt-2 small text-danger">
+          Sent back for correction: {subject.returned_comment}
+        </p>
+      ) : null}
+      {error ? <p className="mb-0 mt-2 small text-danger">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,710 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { RichTextEditor } from "@/components/website/RichTextEditor";
+import {
+  slugify,
+  type WebsiteCustomPage,
+  type WebsiteEvent,
+  type WebsiteGalleryAlbum,
+  type WebsiteNewsPost,
+} from "@/lib/schoolWebsite";
+
+interface ListEditorProps<T> {
+  items: T[];
+  onChange: (items: T[]) => void;
+  /** Asks the page to confirm before the item at `index` is removed. */
+  onRequestRemove: (index: number) => void;
+  fieldError: (key: string) => string | null;
+}
+
+const optional = (
+  <span style={{ fontWeight: 400, color: "#6c757d" }}>(optional)</span>
+);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function updateAt<T>(items: T[], index: number, patch: Partial<T>): T[] {
+  const next = [...items];
+  next[index] = { ...next[index], ...patch };
+  return next;
+}
+
+function move<T>(items: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * Keeps the slug following the title until the school edits it by hand,
+ * so renaming a draft doesn't leave a stale web address behind.
+ */
+function titlePatch(item: { title: string; slug: string }, title: string) {
+  const followsTitle = !item.slug || item.slug === slugify(item.title);
+  return followsTitle ? { title, slug: slugify(title) } : { title };
+}
+
+function ErrorText({ message }: { message: string | null }) {
+  return message ? <small className="text-danger">{message}</small> : null;
+}
+
+function ItemCard({
+  index,
+  count,
+  onMove,
+  onRemove,
+  children,
+}: {
+  index: number;
+  count: number;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div
+      style={{
+        border: "1px solid #e2e8f0",
+        borderRadius: 8,
+        padding: "1rem",
+        marginBottom: "0.75rem",
+      }}
+    >
+      {children}
+      <div className="d-flex justify-content-end" style={{ gap: 8 }}>
+        {count > 1 ? (
+          <>
+            <button
+              type="button"
+              className="btn-fill-sm"
+              style={{ color: "#172033", background: "#f1f5f9" }}
+              disabled={index === 0}
+              onClick={() => onMove(-1)}
+            >
+              Move Up
+            </button>
+            <button
+              type="button"
+              className="btn-fill-sm"
+              style={{ color: "#172033", background: "#f1f5f9" }}
+              disabled={index === count - 1}
+              onClick={() => onMove(1)}
+            >
+              Move Down
+            </button>
+          </>
+        ) : null}
+        <button
+          type="button"
+          className="btn-fill-sm"
+          style={{ color: "#b91c1c", background: "#fee2e2" }}
+          onClick={onRemove}
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SlugField({
+  id,
+  prefix,
+  value,
+  onChange,
+  error,
+}: {
+  id: string;
+  prefix: string;
+  value: string;
+  onChange: (slug: string) => void;
+  error: string | null;
+}) {
+  return (
+    <>
+      <label htmlFor={id}>Web Address</label>
+      <div className="input-group">
+        <div className="input-group-prepend">
+          <span className="input-group-text">{prefix}</span>
+        </div>
+        <input
+          id={id}
+          type="text"
+          className="form-control"
+          value={value}
+          onChange={(event) => onChange(event.target.value.toLowerCase())}
+          onBlur={(event) => onChange(slugify(event.target.value))}
+          required
+        />
+      </div>
+      <ErrorText message={error} />
+    </>
+  );
+}
+
+function AddButton({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      className="btn-fill-sm"
+      style={{ color: "#172033", background: "#f1f5f9" }}
+      onClick={onClick}
+    >
+      + {label}
+    </button>
+  );
+}
+
+export function NewsPostsEditor({
+  items,
+  onChange,
+  onRequestRemove,
+  fieldError,
+}: ListEditorProps<WebsiteNewsPost>) {
+  const add = () =>
+    onChange([
+      {
+        id: crypto.randomUUID(),
+        slug: "",
+        title: "",
+        excerpt: "",
+        bodyHtml: "",
+        coverImageUrl: null,
+        publishedOn: today(),
+      },
+      ...items,
+    ]);
+
+  return (
+    <>
+      {items.length === 0 ? (
+        <p className="text-muted">No news posts yet.</p>
+      ) : null}
+      {items.map((post, index) => (
+        <ItemCard
+          key={post.id}
+          index={index}
+          count={items.length}
+          onMove={(direction) => onChange(move(items, index, direction))}
+          onRemove={() => onRequestRemove(index)}
+        >
+          <div className="row">
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`news-title-${index}`}>Title</label>
+              <input
+                id={`news-title-${index}`}
+                type="text"
+                className="form-control"
+                value={post.title}
+                onChange={(event) =>
+                  onChange(updateAt(items, index, titlePatch(post, event.target.value)))
+                }
+                required
+              />
+              <ErrorText message={fieldError(`news.${index}.title`)} />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <SlugField
+                id={`news-slug-${index}`}
+                prefix="/news/"
+                value={post.slug}
+                onChange={(slug) => onChange(updateAt(items, index, { slug }))}
+                error={fieldError(`news.${index}.slug`)}
+              />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`news-date-${index}`}>Date</label>
+              <input
+                id={`news-date-${index}`}
+                type="date"
+                className="form-control"
+                value={post.publishedOn}
+                onChange={(event) =>
+                  onChange(updateAt(items, index, { publishedOn: event.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`news-cover-${index}`}>Cover Image URL {optional}</label>
+              <input
+                id={`news-cover-${index}`}
+                type="url"
+                className="form-control"
+                value={post.coverImageUrl ?? ""}
+                onChange={(event) =>
+                  onChange(
+                    updateAt(items, index, { coverImageUrl: event.target.value || null }),
+                  )
+                }
+              />
+            </div>
+            <div className="col-12 form-group">
+              <label htmlFor={`news-excerpt-${index}`}>Summary</label>
+              <textarea
+                id={`news-excerpt-${index}`}
+                className="textarea form-control"
+                rows={2}
+                value={post.excerpt}
+                onChange={(event) =>
+                  onChange(updateAt(items, index, { excerpt: event.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="col-12 form-group">
+              <label htmlFor={`news-body-${index}`}>Story</label>
+              <RichTextEditor
+                id={`news-body-${index}`}
+                value={post.bodyHtml}
+                onChange={(bodyHtml) => onChange(updateAt(items, index, { bodyHtml }))}
+                placeholder="Write the full story…"
+              />
+              <ErrorText message={fieldError(`news.${index}.bodyHtml`)} />
+            </div>
+          </div>
+        </ItemCard>
+      ))}
+      <AddButton label="Add News Post" onClick={add} />
+    </>
+  );
+}
+
+export function EventsEditor({
+  items,
+  onChange,
+  onRequestRemove,
+  fieldError,
+}: ListEditorProps<WebsiteEvent>) {
+  const add = () =>
+    onChange([
+      ...items,
+      {
+        id: crypto.randomUUID(),
+        title: "",
+        description: "",
+        startDate: today(),
+        endDate: null,
+        startTime: null,
+        location: "",
+      },
+    ]);
+
+  const sortByDate = () =>
+    onChange(
+      [...items].sort((a, b) =>
+        `${a.startDate} ${a.startTime ?? ""}`.localeCompare(`${b.startDate} ${b.startTime ?? ""}`),
+      ),
+    );
+
+  return (
+    <>
+      {items.length === 0 ? (
+        <p className="text-muted">No events yet.</p>
+      ) : null}
+      {items.map((event, index) => (
+        <ItemCard
+          key={event.id}
+          index={index}
+          count={items.length}
+          onMove={(direction) => onChange(move(items, index, direction))}
+          onRemove={() => onRequestRemove(index)}
+        >
+          <div className="row">
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`event-title-${index}`}>Title</label>
+              <input
+                id={`event-title-${index}`}
+                type="text"
+                className="form-control"
+                value={event.title}
+                onChange={(change) =>
+                  onChange(updateAt(items, index, { title: change.target.value }))
+                }
+                required
+              />
+              <ErrorText message={fieldError(`events.${index}.title`)} />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`event-location-${index}`}>Location</label>
+              <input
+                id={`event-location-${index}`}
+                type="text"
+                className="form-control"
+                value={event.location}
+                onChange={(change) =>
+                  onChange(updateAt(items, index, { location: change.target.value }))
+                }
+                placeholder="School hall"
+                required
+              />
+            </div>
+            <div className="col-lg-4 col-12 form-group">
+              <label htmlFor={`event-start-${index}`}>Date</label>
+              <input
+                id={`event-start-${index}`}
+                type="date"
+                className="form-control"
+                value={event.startDate}
+                onChange={(change) =>
+                  onChange(updateAt(items, index, { startDate: change.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="col-lg-4 col-12 form-group">
+              <label htmlFor={`event-end-${index}`}>Ends {optional}</label>
+              <input
+                id={`event-end-${index}`}
+                type="date"
+                className="form-control"
+                min={event.startDate}
+                value={event.endDate ?? ""}
+                onChange={(change) =>
+                  onChange(updateAt(items, index, { endDate: change.target.value || null }))
+                }
+              />
+              <ErrorText message={fieldError(`events.${index}.endDate`)} />
+            </div>
+            <div className="col-lg-4 col-12 form-group">
+              <label htmlFor={`event-time-${index}`}>Time {optional}</label>
+              <input
+                id={`event-time-${index}`}
+                type="time"
+                className="form-control"
+                value={event.startTime ?? ""}
+                onChange={(change) =>
+                  onChange(updateAt(items, index, { startTime: change.target.value || null }))
+                }
+              />
+            </div>
+            <div className="col-12 form-group">
+              <label htmlFor={`event-description-${index}`}>Description</label>
+              <textarea
+                id={`event-description-${index}`}
+                className="textarea form-control"
+                rows={3}
+                value={event.description}
+                onChange={(change) =>
+                  onChange(updateAt(items, index, { description: change.target.value }))
+                }
+                required
+              />
+            </div>
+          </div>
+        </ItemCard>
+      ))}
+      <div className="d-flex" style={{ gap: 8 }}>
+        <AddButton label="Add Event" onClick={add} />
+        {items.length > 1 ? (
+          <button
+            type="button"
+            className="btn-fill-sm"
+            style={{ color: "#172033", background: "#f1f5f9" }}
+            onClick={sortByDate}
+          >
+            Sort by Date
+          </button>
+        ) : null}
+      </div>
+    </>
+  );
+}
+
+function AlbumPhotos({
+  album,
+  albumIndex,
+  onChange,
+}: {
+  album: WebsiteGalleryAlbum;
+  albumIndex: number;
+  onChange: (photos: WebsiteGalleryAlbum["photos"]) => void;
+}) {
+  const [bulkUrls, setBulkUrls] = useState("");
+
+  const addBulk = () => {
+    const urls = bulkUrls
+      .split(/\s+/)
+      .map((url) => url.trim())
+      .filter((url) => /^https?:\/\//i.test(url));
+    if (!urls.length) return;
+    onChange([
+      ...album.photos,
+      ...urls.map((imageUrl) => ({ id: crypto.randomUUID(), imageUrl, caption: "" })),
+    ]);
+    setBulkUrls("");
+  };
+
+  return (
+    <div className="col-12 form-group">
+      <label>Photos ({album.photos.length})</label>
+      {album.photos.map((photo, photoIndex) => (
+        <div key={photo.id} className="d-flex align-items-center mb-2" style={{ gap: 8 }}>
+          {photo.imageUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={photo.imageUrl}
+              alt=""
+              style={{ width: 56, height: 40, objectFit: "cover", borderRadius: 4 }}
+            />
+          ) : null}
+          <input
+            type="url"
+            className="form-control"
+            aria-label={`Photo ${photoIndex + 1} URL`}
+            value={photo.imageUrl}
+            onChange={(event) =>
+              onChange(updateAt(album.photos, photoIndex, { imageUrl: event.target.value }))
+            }
+            required
+          />
+          <input
+            type="text"
+            className="form-control"
+            aria-label={`Photo ${photoIndex + 1} caption`}
+            placeholder="Caption (optional)"
+            value={photo.caption}
+            onChange={(event) =>
+              onChange(updateAt(album.photos, photoIndex, { caption: event.target.value }))
+            }
+          />
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-danger"
+            aria-label={`Remove photo ${photoIndex + 1}`}
+            onClick={() => onChange(album.photos.filter((_, i) => i !== photoIndex))}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <textarea
+        id={`album-bulk-${albumIndex}`}
+        className="textarea form-control"
+        rows={2}
+        placeholder="Paste image URLs, one per line"
+        value={bulkUrls}
+        onChange={(event) => setBulkUrls(event.target.value)}
+      />
+      <button
+        type="button"
+        className="btn-fill-sm mt-2"
+        style={{ color: "#172033", background: "#f1f5f9" }}
+        onClick={addBulk}
+        disabled={!bulkUrls.trim()}
+      >
+        + Add Photos
+      </button>
+    </div>
+  );
+}
+
+export function GalleryEditor({
+  items,
+  onChange,
+  onRequestRemove,
+  fieldError,
+}: ListEditorProps<WebsiteGalleryAlbum>) {
+  const add = () =>
+    onChange([
+      ...items,
+      {
+        id: crypto.randomUUID(),
+        slug: "",
+        title: "",
+        description: "",
+        coverImageUrl: null,
+        photos: [],
+      },
+    ]);
+
+  return (
+    <>
+      {items.length === 0 ? (
+        <p className="text-muted">No albums yet.</p>
+      ) : null}
+      {items.map((album, index) => (
+        <ItemCard
+          key={album.id}
+          index={index}
+          count={items.length}
+          onMove={(direction) => onChange(move(items, index, direction))}
+          onRemove={() => onRequestRemove(index)}
+        >
+          <div className="row">
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`album-title-${index}`}>Album Title</label>
+              <input
+                id={`album-title-${index}`}
+                type="text"
+                className="form-control"
+                value={album.title}
+                onChange={(event) =>
+                  onChange(updateAt(items, index, titlePatch(album, event.target.value)))
+                }
+                required
+              />
+              <ErrorText message={fieldError(`gallery.${index}.title`)} />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <SlugField
+                id={`album-slug-${index}`}
+                prefix="/gallery/"
+                value={album.slug}
+                onChange={(slug) => onChange(updateAt(items, index, { slug }))}
+                error={fieldError(`gallery.${index}.slug`)}
+              />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`album-description-${index}`}>Description {optional}</label>
+              <input
+                id={`album-description-${index}`}
+                type="text"
+                className="form-control"
+                value={album.description}
+                onChange={(event) =>
+                  onChange(updateAt(items, index, { description: event.target.value }))
+                }
+              />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`album-cover-${index}`}>Cover Image URL {optional}</label>
+              <input
+                id={`album-cover-${index}`}
+                type="url"
+                className="form-control"
+                value={album.coverImageUrl ?? ""}
+                placeholder="Defaults to the first photo"
+                onChange={(event) =>
+                  onChange(
+                    updateAt(items, index, { coverImageUrl: event.target.value || null }),
+                  )
+                }
+              />
+            </div>
+            <AlbumPhotos
+              album={album}
+              albumIndex={index}
+              onChange={(photos) => onChange(updateAt(items, index, { photos }))}
+            />
+            <div className="col-12">
+              <ErrorText message={fieldError(`gallery.${index}.photos`)} />
+            </div>
+          </div>
+        </ItemCard>
+      ))}
+      <AddButton label="Add Album" onClick={add} />
+    </>
+  );
+}
+
+export function CustomPagesEditor({
+  items,
+  onChange,
+  onRequestRemove,
+  fieldError,
+}: ListEditorProps<WebsiteCustomPage>) {
+  const add = () =>
+    onChange([
+      ...items,
+      {
+        id: crypto.randomUUID(),
+        slug: "",
+        title: "",
+        bodyHtml: "",
+        showInNav: true,
+        navLabel: "",
+      },
+    ]);
+
+  return (
+    <>
+      {items.length === 0 ? (
+        <p className="text-muted">
+          No extra pages yet. Add one for things like uniforms, fees or school
+          policies.
+        </p>
+      ) : null}
+      {items.map((page, index) => (
+        <ItemCard
+          key={page.id}
+          index={index}
+          count={items.length}
+          onMove={(direction) => onChange(move(items, index, direction))}
+          onRemove={() => onRequestRemove(index)}
+        >
+          <div className="row">
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`page-title-${index}`}>Page Title</label>
+              <input
+                id={`page-title-${index}`}
+                type="text"
+                className="form-control"
+                value={page.title}
+                onChange={(event) =>
+                  onChange(updateAt(items, index, titlePatch(page, event.target.value)))
+                }
+                required
+              />
+              <ErrorText message={fieldError(`pages.${index}.title`)} />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <SlugField
+                id={`page-slug-${index}`}
+                prefix="/"
+                value={page.slug}
+                onChange={(slug) => onChange(updateAt(items, index, { slug }))}
+                error={fieldError(`pages.${index}.slug`)}
+              />
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <label
+                htmlFor={`page-nav-${index}`}
+                style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}
+              >
+                <input
+                  type="checkbox"
+                  className="permission-checkbox"
+                  id={`page-nav-${index}`}
+                  checked={page.showInNav}
+                  onChange={(event) =>
+                    onChange(updateAt(items, index, { showInNav: event.target.checked }))
+                  }
+                />
+                Show in the navigation bar
+              </label>
+            </div>
+            <div className="col-lg-6 col-12 form-group">
+              <label htmlFor={`page-nav-label-${index}`}>Navigation Label {optional}</label>
+              <input
+                id={`page-nav-label-${index}`}
+                type="text"
+                className="form-control"
+                value={page.navLabel}
+                placeholder={page.title || "Defaults to the page title"}
+                disabled={!page.showInNav}
+                onChange={(event) =>
+                  onChange(updateAt(items, index, { navLabel: event.target.value }))
+                }
+              />
+            </div>
+            <div className="col-12 form-group">
+              <label htmlFor={`page-body-${index}`}>Content</label>
+              <RichTextEditor
+                id={`page-body-${index}`}
+                value={page.bodyHtml}
+                onChange={(bodyHtml) => onChange(updateAt(items, index, { bodyHtml }))}
+                minHeight={240}
+              />
+              <ErrorText message={fieldError(`pages.${index}.bodyHtml`)} />
+            </div>
+          </div>
+        </ItemCard>
+      ))}
+      <AddButton label="Add Page" onClick={add} />
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { sanitizeRichText } from "@/lib/schoolWebsite";
+
+interface RichTextEditorProps {
+  id: string;
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+  minHeight?: number;
+}
+
+const TOOLBAR: { label: string; title: string; command: string; arg?: string }[] = [
+  { label: "B", title: "Bold", command: "bold" },
+  { label: "I", title: "Italic", command: "italic" },
+  { label: "U", title: "Underline", command: "underline" },
+  { label: "H2", title: "Heading", command: "formatBlock", arg: "h2" },
+  { label: "H3", title: "Subheading", command: "formatBlock", arg: "h3" },
+  { label: "¶", title: "Paragraph", command: "formatBlock", arg: "p" },
+  { label: "• List", title: "Bulleted list", command: "insertUnorderedList" },
+  { label: "1. List", title: "Numbered list", command: "insertOrderedList" },
+  { label: "❝", title: "Quote", command: "formatBlock", arg: "blockquote" },
+];
+
+/**
+ * A deliberately small contentEditable editor for website pages and news
+ * posts. It only offers the formatting the public themes style, and the
+ * HTML is run through sanitizeRichText() whenever the editor loses focus,
+ * so pasted markup never reaches the saved contract.
+ */
+export function RichTextEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  minHeight = 180,
+}: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement | null>(null);
+
+  // Only write into the DOM when the value changed from outside (load,
+  // reorder, reset); rewriting on every keystroke would move the caret.
+  // Outside values come from the saved contract, so they are cleaned too.
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) {
+      editor.innerHTML = sanitizeRichText(value);
+    }
+  }, [value]);
+
+  const run = (command: string, arg?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, arg);
+    onChange(editorRef.current?.innerHTML ?? "");
+  };
+
+  const addLink = () => {
+    const href = window.prompt("Link address (https://…)");
+    if (!href) return;
+    run("createLink", href.trim());
+  };
+
+  return (
+    <div style={{ border: "1px solid #ced4da", borderRadius: 4 }}>
+      <div
+        className="d-flex flex-wrap"
+        style={{ gap: 4, padding: 6, borderBottom: "1px solid #e2e8f0", background: "#f8fafc" }}
+      >
+        {TOOLBAR.map((item) => (
+          <button
+            key={item.title}
+            type="button"
+            className="btn btn-sm btn-light"
+            title={item.title}
+            // Keep the selection in the editor when the button is pressed.
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={() => run(item.command, item.arg)}
+          >
+            {item.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          className="btn btn-sm btn-light"
+          title="Link"
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={addLink}
+        >
+          Link
+        </button>
+        <button
+          type="button"
+          className="btn btn-sm btn-light"
+          title="Clear formatting"
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => run("removeFormat")}
+        >
+          Clear
+        </button>
+      </div>
+      <div
+        id={id}
+        ref={editorRef}
+        className="website-rich-text"
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline="true"
+        data-placeholder={placeholder}
+        style={{ minHeight, padding: "0.75rem", outline: "none" }}
+        onInput={(event) => onChange(event.currentTarget.innerHTML)}
+        onBlur={(event) => {
+          const cleaned = sanitizeRichText(event.currentTarget.innerHTML);
+          if (cleaned !== value) {
+            onChange(cleaned);
+          }
+        }}
+      />
+      <style>{`
+        .website-rich-text:empty::before {
+          content: attr(data-placeholder);
+          color: #94a3b8;
+        }
+        .website-rich-text h2 { font-size: 1.35rem; }
+        .website-rich-text h3 { font-size: 1.15rem; }
+        .website-rich-text blockquote {
+          border-left: 3px solid #cbd5e1;
+          padding-left: 0.75rem;
+          color: #475569;
+        }
+      `}</style>
+    </div>
+  );
+}
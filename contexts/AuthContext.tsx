@@ -21,7 +21,7 @@ import {
   fetchSchoolContext,
   type SchoolContext,
 } from "@/lib/schoolContext";
-import { deleteCookie, getCookie, setCookie } from "@/lib/cookies";
+import { hasSession } from "@/lib/session";
 
 type PermissionHierarchyNode = {
   name?: string | null;
@@ -55,8 +55,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   >(null);
 
   const hydrate = useCallback(async () => {
-    const token = getCookie("token");
-    if (!token) {
+    if (!(await hasSession("staff"))) {
       setUser(null);
       setPermissions(new Set());
       setSchoolContext(createEmptySchoolContext());
@@ -90,7 +89,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUser(null);
       setPermissions(new Set());
       setSchoolContext(createEmptySchoolContext());
-      deleteCookie("token");
     } finally {
       setLoading(false);
     }
@@ -126,16 +124,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, [hydrate]);
 
   const login = useCallback(async (payload: LoginPayload) => {
-    const response = await loginRequest(payload);
-    if (response.token) {
-      setCookie("token", response.token);
-    }
+    await loginRequest(payload);
     await hydrate();
   }, [hydrate]);
 
   const logout = useCallback(async () => {
     await logoutRequest();
-    deleteCookie("token");
     setUser(null);
     setPermissions(new Set());
     setSchoolContext(createEmptySchoolContext());
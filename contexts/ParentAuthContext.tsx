@@ -0,0 +1,98 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  ParentChild,
+  ParentProfile,
+  getParentProfile,
+  parentLogout,
+} from "@/lib/parentAuth";
+import { loadSelectedChildId, saveSelectedChildId } from "@/lib/parentPortal";
+
+interface ParentAuthContextValue {
+  parent: ParentProfile | null;
+  children: ParentChild[];
+  /** The child every parent-portal page is currently showing. */
+  selectedChild: ParentChild | null;
+  selectChild: (childId: string) => void;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const ParentAuthContext = createContext<ParentAuthContextValue | null>(null);
+
+export function ParentAuthProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [parent, setParent] = useState<ParentProfile | null>(null);
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadProfile = useCallback(async () => {
+    setLoading(true);
+    try {
+      const profile = await getParentProfile();
+      setParent(profile);
+      const linked = profile?.children ?? [];
+      const remembered = loadSelectedChildId();
+      setSelectedChildId(
+        linked.find((child) => child.id === remembered)?.id ?? linked[0]?.id ?? null,
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadProfile();
+  }, [loadProfile]);
+
+  const selectChild = useCallback((childId: string) => {
+    setSelectedChildId(childId);
+    saveSelectedChildId(childId);
+  }, []);
+
+  const handleLogout = useCallback(async () => {
+    await parentLogout();
+    saveSelectedChildId(null);
+    setParent(null);
+    setSelectedChildId(null);
+  }, []);
+
+  const value = useMemo(() => {
+    const linked = parent?.children ?? [];
+    return {
+      parent,
+      children: linked,
+      selectedChild: linked.find((child) => child.id === selectedChildId) ?? null,
+      selectChild,
+      loading,
+      refresh: loadProfile,
+      logout: handleLogout,
+    };
+  }, [parent, selectedChildId, selectChild, loading, loadProfile, handleLogout]);
+
+  return (
+    <ParentAuthContext.Provider value={value}>
+      {children}
+    </ParentAuthContext.Provider>
+  );
+}
+
+export function useParentAuth(): ParentAuthContextValue {
+  const context = useContext(ParentAuthContext);
+  if (!context) {
+    throw new Error("useParentAuth must be used within ParentAuthProvider");
+  }
+  return context;
+}
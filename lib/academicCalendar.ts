@@ -0,0 +1,252 @@
+import { apiFetch } from "@/lib/apiClient";
+import { API_ROUTES } from "@/lib/config";
+
+export type CalendarEventType = "holiday" | "mid_term_break" | "exam_week" | "event";
+
+export const CALENDAR_EVENT_TYPES: Array<{ value: CalendarEventType; label: string }> = [
+  { value: "holiday", label: "Public Holiday" },
+  { value: "mid_term_break", label: "Mid-term Break" },
+  { value: "exam_week", label: "Exam Week" },
+  { value: "event", label: "School Event" },
+];
+
+/**
+ * A dated entry on the academic calendar. Holidays and breaks always close
+ * the school; exam weeks and events only do when `closes_school` is set
+ * (e.g. an inter-house sports day with no lessons).
+ */
+export interface CalendarEvent {
+  id: number | string;
+  session_id: number | string;
+  term_id?: number | string | null;
+  title: string;
+  type: CalendarEventType;
+  start_date: string;
+  end_date: string;
+  description?: string | null;
+  closes_school?: boolean;
+  [key: string]: unknown;
+}
+
+type CalendarEventCollection =
+  | CalendarEvent[]
+  | {
+      data?: CalendarEvent[];
+      [key: string]: unknown;
+    };
+
+function normalizeCalendarEvents(payload: CalendarEventCollection): CalendarEvent[] {
+  if (Array.isArray(payload)) {
+    return payload;
+  }
+  if (payload && Array.isArray(payload.data)) {
+    return payload.data;
+  }
+  return [];
+}
+
+export interface CalendarEventFilters {
+  session_id?: string | number | null;
+  term_id?: string | number | null;
+  from?: string | null;
+  to?: string | null;
+}
+
+const buildEventQuery = (filters: CalendarEventFilters) => {
+  const query = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      query.set(key, String(value));
+    }
+  });
+  const search = query.toString();
+  return search ? `?${search}` : "";
+};
+
+export async function listCalendarEvents(
+  filters: CalendarEventFilters = {},
+): Promise<CalendarEvent[]> {
+  const payload = await apiFetch<CalendarEventCollection>(
+    `${API_ROUTES.academicCalendarEvents}${buildEventQuery(filters)}`,
+  );
+  return normalizeCalendarEvents(payload);
+}
+
+/** Calendar events visible to the signed-in student (their current term). */
+export async function listStudentCalendarEvents(
+  filters: Pick<CalendarEventFilters, "from" | "to"> = {},
+): Promise<CalendarEvent[]> {
+  const payload = await apiFetch<CalendarEventCollection>(
+    `${API_ROUTES.studentCalendarEvents}${buildEventQuery(filters)}`,
+    { authScope: "student" },
+  );
+  return normalizeCalendarEvents(payload);
+}
+
+export interface CalendarEventPayload {
+  session_id: string | number;
+  term_id?: string | number | null;
+  title: string;
+  type: CalendarEventType;
+  start_date: string;
+  end_date: string;
+  description?: string | null;
+  closes_school?: boolean;
+}
+
+export async function createCalendarEvent(
+  payload: CalendarEventPayload,
+): Promise<CalendarEvent> {
+  return apiFetch<CalendarEvent>(API_ROUTES.academicCalendarEvents, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateCalendarEvent(
+  eventId: string | number,
+  payload: CalendarEventPayload,
+): Promise<CalendarEvent> {
+  return apiFetch<CalendarEvent>(`${API_ROUTES.academicCalendarEvents}/${eventId}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteCalendarEvent(eventId: string | number): Promise<void> {
+  await apiFetch(`${API_ROUTES.academicCalendarEvents}/${eventId}`, {
+    method: "DELETE",
+  });
+}
+
+export function calendarEventTypeLabel(type: CalendarEventType): string {
+  return CALENDAR_EVENT_TYPES.find((entry) => entry.value === type)?.label ?? type;
+}
+
+export function eventClosesSchool(event: CalendarEvent): boolean {
+  return (
+    event.type === "holiday" ||
+    event.type === "mid_term_break" ||
+    Boolean(event.closes_school)
+  );
+}
+
+// Calendar dates are plain YYYY-MM-DD days. Doing the arithmetic in UTC keeps
+// the weekday and day count stable whatever the browser's timezone.
+const parseDay = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00Z`);
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export function addDays(value: string, days: number): string {
+  const date = parseDay(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDay(date);
+}
+
+export function weekdayOf(value: string): number {
+  return parseDay(value).getUTCDay();
+}
+
+export function isWeekend(value: string): boolean {
+  const day = weekdayOf(value);
+  return day === 0 || day === 6;
+}
+
+export function eventsOnDate(events: CalendarEvent[], date: string): CalendarEvent[] {
+  const day = date.slice(0, 10);
+  return events.filter(
+    (event) =>
+      event.start_date.slice(0, 10) <= day && day <= (event.end_date || event.start_date).slice(0, 10),
+  );
+}
+
+export interface SchoolDayStatus {
+  schoolDay: boolean;
+  /** Why the school is closed; null on a school day. */
+  reason: string | null;
+  events: CalendarEvent[];
+}
+
+/**
+ * Whether the school is open on a date: a weekday inside the term's dates
+ * with no closing event on it. Terms without dates only rule out weekends
+ * and closing events.
+ */
+export function getSchoolDayStatus(
+  date: string,
+  term: { start_date?: string | null; end_date?: string | null } | null,
+  events: CalendarEvent[],
+): SchoolDayStatus {
+  const day = date.slice(0, 10);
+  const dayEvents = eventsOnDate(events, day);
+  const closing = dayEvents.find(eventClosesSchool);
+
+  let reason: string | null = null;
+  if (closing) {
+    reason = `${closing.title} (${calendarEventTypeLabel(closing.type)})`;
+  } else if (isWeekend(day)) {
+    reason = "Weekend";
+  } else if (term?.start_date && day < term.start_date.slice(0, 10)) {
+    reason = "Before the term starts";
+  } else if (term?.end_date && day > term.end_date.slice(0, 10)) {
+    reason = "After the term ends";
+  }
+
+  return { schoolDay: reason === null, reason, events: dayEvents };
+}
+
+/**
+ * Days the school opens in a term: weekdays between the term's start and
+ * end dates, less every day covered by a closing event. Null when the term
+ * has no dates to count from.
+ */
+export function countSchoolOpenedDays(
+  term: { start_date?: string | null; end_date?: string | null } | null,
+  events: CalendarEvent[],
+): number | null {
+  if (!term?.start_date || !term?.end_date) {
+    return null;
+  }
+  const start = term.start_date.slice(0, 10);
+  const end = term.end_date.slice(0, 10);
+  if (start > end) {
+    return null;
+  }
+
+  const closingEvents = events.filter(eventClosesSchool);
+  let count = 0;
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    if (!isWeekend(day) && !eventsOnDate(closingEvents, day).length) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/** Events that have not finished yet, soonest first. */
+export function upcomingCalendarEvents(
+  events: CalendarEvent[],
+  fromDate: string,
+  limit = 5,
+): CalendarEvent[] {
+  const from = fromDate.slice(0, 10);
+  return events
+    .filter((event) => (event.end_date || event.start_date).slice(0, 10) >= from)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .slice(0, limit);
+}
+
+/**
+ * The opened-days count for a term, from every calendar event in its
+ * session (events outside the term's dates do not affect it).
+ */
+export async function fetchTermOpenedDays(
+  sessionId: string | number,
+  term: { start_date?: string | null; end_date?: string | null } | null,
+): Promise<number | null> {
+  if (!term?.start_date || !term?.end_date) {
+    return null;
+  }
+  const events = await listCalendarEvents({ session_id: sessionId });
+  return countSchoolOpenedDays(term, events);
+}
@@ -1,9 +1,14 @@
-import { BACKEND_URL } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { resolveApiProxyUrl } from "@/lib/config";
+
+/**
+ * Which login a request acts as. Each portal keeps its own session cookie,
+ * so a parent and a staff member can be signed in on the same browser.
+ */
+export type AuthScope = "staff" | "student" | "parent";
 
 type FetchOptions = RequestInit & {
   skipAuth?: boolean;
-  authScope?: "staff" | "student";
+  authScope?: AuthScope;
   /**
    * By default, a 403 on a read-only staff request returns `[]` instead of
    * throwing, since most callers are list endpoints. Set to `false` for
@@ -36,6 +41,63 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * `fetch` rejects with a TypeError when the request never reached the
+ * server; anything the server answered comes back as an ApiError.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return true;
+  }
+  return error instanceof TypeError;
+}
+
+/** Build an ApiError from a failed response's JSON body, if it has one. */
+export async function readApiError(response: Response): Promise<ApiError> {
+  let message = response.statusText;
+  let validationErrors: Record<string, string[]> | undefined;
+  let body: unknown;
+  try {
+    const data = await response.json();
+    body = data;
+    message = data.message ?? JSON.stringify(data);
+    if (data.errors && typeof data.errors === "object") {
+      validationErrors = data.errors;
+    }
+  } catch {
+    // ignore parse errors, fall back to status text
+  }
+  return new ApiError(
+    message || `Request failed (${response.status})`,
+    response.status,
+    validationErrors,
+    body,
+  );
+}
+
+/**
+ * Raw backend request through the same-origin API proxy, which adds the
+ * bearer token for `authScope` from its httpOnly cookie. Use for downloads
+ * and printable HTML; JSON endpoints should go through apiFetch.
+ */
+export function backendFetch(
+  path: string,
+  options: RequestInit & { skipAuth?: boolean; authScope?: AuthScope } = {},
+): Promise<Response> {
+  const { skipAuth = false, authScope = "staff", headers, ...rest } = options;
+  const resolvedHeaders = new Headers(headers);
+  resolvedHeaders.set("X-Auth-Scope", authScope);
+  if (skipAuth) {
+    resolvedHeaders.set("X-Skip-Auth", "1");
+  }
+
+  return fetch(resolveApiProxyUrl(path), {
+    ...rest,
+    credentials: "same-origin",
+    headers: resolvedHeaders,
+  });
+}
+
 export async function apiFetch<T = unknown>(
   path: string,
   options: FetchOptions = {},
@@ -47,8 +109,6 @@ export async function apiFetch<T = unknown>(
     headers,
     ...rest
   } = options;
-  const tokenName = authScope === "student" ? "student_token" : "token";
-  const token = getCookie(tokenName);
   const resolvedHeaders = new Headers(headers);
 
   const isFormData =
@@ -59,13 +119,10 @@ export async function apiFetch<T = unknown>(
     resolvedHeaders.set("Content-Type", "application/json");
   }
 
-  if (!skipAuth && token) {
-    resolvedHeaders.set("Authorization", `Bearer ${token}`);
-  }
-
-  const response = await fetch(`${BACKEND_URL}${path}`, {
+  const response = await backendFetch(path, {
     ...rest,
-    credentials: "include",
+    skipAuth,
+    authScope,
     headers: resolvedHeaders,
   });
 
@@ -99,25 +156,7 @@ export async function apiFetch<T = unknown>(
       return [] as T;
     }
 
-    let message = response.statusText;
-    let validationErrors: Record<string, string[]> | undefined;
-    let body: unknown;
-    try {
-      const data = await response.json();
-      body = data;
-      message = data.message ?? JSON.stringify(data);
-      if (data.errors && typeof data.errors === "object") {
-        validationErrors = data.errors;
-      }
-    } catch {
-      // ignore parse errors, fall back to status text
-    }
-    throw new ApiError(
-      message || `Request failed (${response.status})`,
-      response.status,
-      validationErrors,
-      body,
-    );
+    throw await readApiError(response);
   }
 
   if (response.status === 204) {
@@ -71,6 +71,22 @@ export function generateAssessmentSheetCSV(
   return csv;
 }
 
+/**
+ * Quote a CSV cell when it contains a comma, quote or line break, and
+ * prefix text a spreadsheet would read as a formula (phone numbers like
+ * "+234…" included) so it opens as plain text. Negative numbers are left alone.
+ */
+export function escapeCsvCell(value: string): string {
+  let str = String(value ?? "");
+  if (/^[=+\-@\t\r]/.test(str) && !/^-\d+(\.\d+)?$/.test(str)) {
+    str = `'${str}`;
+  }
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
 /**
  * Download CSV file (compatible with Excel)
  */
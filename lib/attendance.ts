@@ -1,4 +1,4 @@
-import { API_ROUTES, BACKEND_URL } from "@/lib/config";
+import { API_PROXY_PREFIX, API_ROUTES } from "@/lib/config";
 import { apiFetch } from "@/lib/apiClient";
 
 type Nullable<T> = T | null;
@@ -439,7 +439,7 @@ export function buildStudentAttendanceExportUrl(
     session_id: filters.session_id,
     term_id: filters.term_id,
   });
-  return `${BACKEND_URL}${API_ROUTES.studentAttendance}/${endpoint}${query}`;
+  return `${API_PROXY_PREFIX}${API_ROUTES.studentAttendance}/${endpoint}${query}`;
 }
 
 export interface StaffAttendanceExportFilters
@@ -458,5 +458,5 @@ export function buildStaffAttendanceExportUrl(
     branch_name: filters.branch_name,
     department: filters.department,
   });
-  return `${BACKEND_URL}${API_ROUTES.staffAttendance}/${endpoint}${query}`;
+  return `${API_PROXY_PREFIX}${API_ROUTES.staffAttendance}/${endpoint}${query}`;
 }
@@ -0,0 +1,224 @@
+import {
+  listStudentAttendance,
+  type StudentAttendanceFilters,
+  type StudentAttendanceRecord,
+} from "@/lib/attendance";
+import type { Parent } from "@/lib/parents";
+import type { StudentSummary } from "@/lib/students";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface AttendanceAnalyticsRow {
+  studentId: string;
+  name: string;
+  admissionNo: string;
+  classLabel: string;
+  parentName: string;
+  parentPhone: string;
+  recordedDays: number;
+  present: number;
+  absent: number;
+  late: number;
+  excused: number;
+  /** Share of unexcused school days attended (late counts as attended); null with no records. */
+  attendanceRate: number | null;
+  /** Share of attended days the student arrived late. */
+  lateRate: number | null;
+  longestAbsenceStreak: number;
+  /** Absences ending on the latest recorded day, i.e. still ongoing. */
+  currentAbsenceStreak: number;
+  /** Absence count per weekday, indexed like `Date.getDay()`. */
+  absencesByWeekday: number[];
+}
+
+export interface ChronicAbsenceRules {
+  /** Percentage, e.g. 85 for "under 85% attendance". */
+  minAttendanceRate: number;
+  consecutiveAbsences: number;
+}
+
+export interface ChronicAbsenceEntry extends AttendanceAnalyticsRow {
+  reasons: string[];
+}
+
+/** Every student attendance record for the filters, across all pages. */
+export async function listAllStudentAttendance(
+  filters: Omit<StudentAttendanceFilters, "page" | "per_page">,
+): Promise<StudentAttendanceRecord[]> {
+  const records: StudentAttendanceRecord[] = [];
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await listStudentAttendance({
+      ...filters,
+      per_page: 500,
+      page,
+    });
+    records.push(...response.data);
+    lastPage = response.last_page || page;
+    page += 1;
+  } while (page <= lastPage);
+  return records;
+}
+
+const recordStudentId = (record: StudentAttendanceRecord) => {
+  const id = record.student?.id ?? record.student_id;
+  return id === undefined || id === null ? null : String(id);
+};
+
+const studentName = (student: StudentSummary) =>
+  [student.first_name, student.middle_name, student.last_name]
+    .filter(Boolean)
+    .join(" ")
+    .trim() || "Unnamed Student";
+
+// Dates are calendar days; parse them at noon UTC so the weekday does not
+// shift with the browser's timezone.
+const weekdayOf = (date: string) =>
+  new Date(`${date.slice(0, 10)}T12:00:00Z`).getUTCDay();
+
+/**
+ * Per-student attendance for a term. Students on the roll with no records
+ * still get a row so they are visible, with a null rate. Excused days
+ * neither count against the rate nor break an absence streak. Parent
+ * contacts come from the student's own `parent`, else from whichever
+ * parent record lists the student.
+ */
+export function analyzeStudentAttendance(
+  students: StudentSummary[],
+  records: StudentAttendanceRecord[],
+  parents: Parent[] = [],
+): AttendanceAnalyticsRow[] {
+  const parentByStudent = new Map<string, Parent>();
+  parents.forEach((parent) => {
+    (parent.students ?? []).forEach((child) => {
+      if (child?.id !== undefined && child?.id !== null) {
+        parentByStudent.set(String(child.id), parent);
+      }
+    });
+  });
+
+  const byStudent = new Map<string, StudentAttendanceRecord[]>();
+  records.forEach((record) => {
+    const studentId = recordStudentId(record);
+    if (!studentId || !record.date) {
+      return;
+    }
+    const list = byStudent.get(studentId) ?? [];
+    list.push(record);
+    byStudent.set(studentId, list);
+  });
+
+  return students.map((student) => {
+    const studentRecords = (byStudent.get(String(student.id)) ?? []).sort(
+      (a, b) => String(a.date).localeCompare(String(b.date)),
+    );
+    const counts = { present: 0, absent: 0, late: 0, excused: 0 };
+    const absencesByWeekday = [0, 0, 0, 0, 0, 0, 0];
+    let streak = 0;
+    let longest = 0;
+
+    studentRecords.forEach((record) => {
+      const status = String(record.status ?? "").toLowerCase();
+      if (status === "absent") {
+        counts.absent += 1;
+        absencesByWeekday[weekdayOf(String(record.date))] += 1;
+        streak += 1;
+        longest = Math.max(longest, streak);
+      } else if (status === "present" || status === "late") {
+        counts[status] += 1;
+        streak = 0;
+      } else if (status === "excused") {
+        counts.excused += 1;
+      }
+    });
+
+    const attended = counts.present + counts.late;
+    const countedDays = attended + counts.absent;
+    const parent = student.parent?.phone
+      ? student.parent
+      : (parentByStudent.get(String(student.id)) ?? student.parent);
+
+    return {
+      studentId: String(student.id),
+      name: studentName(student),
+      admissionNo: student.admission_no ?? "",
+      classLabel: [student.school_class?.name, student.class_arm?.name]
+        .filter(Boolean)
+        .join(" "),
+      parentName: parent
+        ? [parent.first_name, parent.last_name].filter(Boolean).join(" ")
+        : "",
+      parentPhone: parent?.phone ?? "",
+      recordedDays: studentRecords.length,
+      ...counts,
+      attendanceRate: countedDays ? (attended / countedDays) * 100 : null,
+      lateRate: attended ? (counts.late / attended) * 100 : null,
+      longestAbsenceStreak: longest,
+      currentAbsenceStreak: streak,
+      absencesByWeekday,
+    };
+  });
+}
+
+/** The weekday a student misses most, when it stands out (two or more). */
+export function dominantAbsenceWeekday(row: AttendanceAnalyticsRow): string | null {
+  let best = -1;
+  let bestCount = 1;
+  row.absencesByWeekday.forEach((count, day) => {
+    if (count > bestCount) {
+      best = day;
+      bestCount = count;
+    }
+  });
+  return best >= 0 ? WEEKDAY_LABELS[best] : null;
+}
+
+/**
+ * Absence rate per weekday across the class, as a percentage of the
+ * unexcused records taken on that weekday.
+ */
+export function classAbsenceByWeekday(
+  records: StudentAttendanceRecord[],
+): Array<{ day: string; absent: number; total: number; rate: number | null }> {
+  const totals = WEEKDAY_LABELS.map(() => ({ absent: 0, total: 0 }));
+  records.forEach((record) => {
+    const status = String(record.status ?? "").toLowerCase();
+    if (!record.date || !["present", "late", "absent"].includes(status)) {
+      return;
+    }
+    const bucket = totals[weekdayOf(String(record.date))];
+    bucket.total += 1;
+    if (status === "absent") {
+      bucket.absent += 1;
+    }
+  });
+  return totals.map((bucket, day) => ({
+    day: WEEKDAY_LABELS[day],
+    ...bucket,
+    rate: bucket.total ? (bucket.absent / bucket.total) * 100 : null,
+  }));
+}
+
+/** Students under the rate threshold or with a long run of absences. */
+export function buildChronicAbsenceList(
+  rows: AttendanceAnalyticsRow[],
+  rules: ChronicAbsenceRules,
+): ChronicAbsenceEntry[] {
+  return rows
+    .map((row) => {
+      const reasons: string[] = [];
+      if (row.attendanceRate !== null && row.attendanceRate < rules.minAttendanceRate) {
+        reasons.push(`Attendance ${row.attendanceRate.toFixed(1)}%`);
+      }
+      if (
+        rules.consecutiveAbsences > 0 &&
+        row.longestAbsenceStreak >= rules.consecutiveAbsences
+      ) {
+        reasons.push(`${row.longestAbsenceStreak} absences in a row`);
+      }
+      return { ...row, reasons };
+    })
+    .filter((entry) => entry.reasons.length > 0)
+    .sort((a, b) => (a.attendanceRate ?? 100) - (b.attendanceRate ?? 100));
+}
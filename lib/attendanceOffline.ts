@@ -0,0 +1,594 @@
+import { ApiError } from "@/lib/apiClient";
+import {
+  listStaffAttendance,
+  listStudentAttendance,
+  saveStaffAttendance,
+  saveStudentAttendance,
+  type SaveStaffAttendancePayload,
+  type SaveStudentAttendancePayload,
+} from "@/lib/attendance";
+import {
+  STORES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbGetAllByIndex,
+  idbPut,
+  isIndexedDbAvailable,
+} from "@/lib/indexedDb";
+
+/** Fired on `window` whenever the attendance queue changes. */
+export const ATTENDANCE_QUEUE_EVENT = "app:attendance-queue-changed";
+
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+export type AttendanceRegisterKind = "student" | "staff";
+
+/** The parts of a server attendance record the offline register needs. */
+export interface CachedAttendanceRecord {
+  id: string;
+  status: string;
+  updatedAt: string | null;
+  comment?: string;
+}
+
+/**
+ * A register as it was last loaded online: who is on it and what the
+ * server already had for the day. `scope` identifies the class or staff
+ * filter without the date, so yesterday's class list can stand in when
+ * today's was never loaded.
+ */
+export interface CachedAttendanceRegister<P> {
+  key: string;
+  scope: string;
+  kind: AttendanceRegisterKind;
+  date: string;
+  people: P[];
+  records: Record<string, CachedAttendanceRecord>;
+  cachedAt: string;
+}
+
+export type QueuedAttendanceStatus =
+  | "pending"
+  | "syncing"
+  | "conflict"
+  | "failed";
+
+/** A student or staff member someone else marked differently meanwhile. */
+export interface AttendanceConflict {
+  personId: string;
+  personName: string;
+  localStatus: string;
+  serverStatus: string;
+  serverUpdatedAt: string | null;
+  recordedBy: string | null;
+}
+
+interface QueuedAttendanceBase {
+  id: string;
+  registerKey: string;
+  label: string;
+  date: string;
+  /** What the server had for each person when the register was loaded. */
+  baseline: Record<string, CachedAttendanceRecord | null>;
+  names: Record<string, string>;
+  queuedAt: string;
+  status: QueuedAttendanceStatus;
+  retryCount: number;
+  nextRetryAt: number;
+  lastError: string | null;
+  conflicts: AttendanceConflict[];
+}
+
+export type QueuedAttendance =
+  | (QueuedAttendanceBase & {
+      kind: "student";
+      payload: SaveStudentAttendancePayload;
+    })
+  | (QueuedAttendanceBase & {
+      kind: "staff";
+      payload: SaveStaffAttendancePayload;
+    });
+
+export type NewQueuedAttendance =
+  | Pick<
+      Extract<QueuedAttendance, { kind: "student" }>,
+      "kind" | "payload" | "registerKey" | "label" | "baseline" | "names"
+    >
+  | Pick<
+      Extract<QueuedAttendance, { kind: "staff" }>,
+      "kind" | "payload" | "registerKey" | "label" | "baseline" | "names"
+    >;
+
+interface ServerRecord {
+  status: string;
+  updatedAt: string | null;
+  recordedBy: string | null;
+}
+
+const notifyQueueChanged = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(ATTENDANCE_QUEUE_EVENT));
+  }
+};
+
+const createQueueId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export function buildRegisterScope(
+  kind: AttendanceRegisterKind,
+  parts: Array<string | number | null | undefined>,
+): string {
+  return [kind, ...parts.map((part) => (part ?? "").toString())].join("|");
+}
+
+export function buildRegisterKey(scope: string, date: string): string {
+  return `${scope}|${date}`;
+}
+
+export async function cacheAttendanceRegister<P>(
+  register: Omit<CachedAttendanceRegister<P>, "key" | "cachedAt">,
+): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+  await idbPut<CachedAttendanceRegister<P>>(STORES.attendanceRegisters, {
+    ...register,
+    key: buildRegisterKey(register.scope, register.date),
+    cachedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * The cached register for the day, or failing that the most recent one for
+ * the same class/filter with its statuses dropped, since they belong to
+ * another day.
+ */
+export async function loadCachedAttendanceRegister<P>(
+  scope: string,
+  date: string,
+): Promise<CachedAttendanceRegister<P> | null> {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+  const exact = await idbGet<CachedAttendanceRegister<P>>(
+    STORES.attendanceRegisters,
+    buildRegisterKey(scope, date),
+  );
+  if (exact) {
+    return exact;
+  }
+  const others = await idbGetAllByIndex<CachedAttendanceRegister<P>>(
+    STORES.attendanceRegisters,
+    "scope",
+    scope,
+  );
+  const latest = others.sort((a, b) => b.cachedAt.localeCompare(a.cachedAt))[0];
+  return latest ? { ...latest, date, records: {} } : null;
+}
+
+export async function listQueuedAttendance(
+  kind?: AttendanceRegisterKind,
+): Promise<QueuedAttendance[]> {
+  if (!isIndexedDbAvailable()) {
+    return [];
+  }
+  const items = await idbGetAll<QueuedAttendance>(STORES.attendanceQueue);
+  return items
+    .filter((item) => !kind || item.kind === kind)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+/**
+ * Statuses still waiting in the queue for one register, oldest first so
+ * later edits win. Loading a register overlays these so a teacher sees
+ * what they marked, not what the server last had.
+ */
+export async function queuedStatusesFor(
+  registerKey: string,
+): Promise<Record<string, { status: string; comment?: string }>> {
+  const items = await listQueuedAttendance();
+  const statuses: Record<string, { status: string; comment?: string }> = {};
+  items
+    .filter((item) => item.registerKey === registerKey)
+    .forEach((item) => {
+      if (item.kind === "student") {
+        item.payload.entries.forEach((entry) => {
+          const comment = entry.metadata?.comment;
+          statuses[String(entry.student_id)] = {
+            status: entry.status,
+            ...(typeof comment === "string" ? { comment } : {}),
+          };
+        });
+      } else {
+        item.payload.entries.forEach((entry) => {
+          statuses[String(entry.staff_id)] = { status: entry.status };
+        });
+      }
+    });
+  return statuses;
+}
+
+const entryPersonId = (
+  entry:
+    | SaveStudentAttendancePayload["entries"][number]
+    | SaveStaffAttendancePayload["entries"][number],
+) => String("student_id" in entry ? entry.student_id : entry.staff_id);
+
+/**
+ * Folds a newer save of a register into the one still waiting for it. The
+ * earlier baseline is kept for people both cover: it is what the server
+ * had before this device's own first edit, so that edit is never mistaken
+ * for someone else's change.
+ */
+function mergeQueuedAttendance(
+  existing: QueuedAttendance,
+  item: NewQueuedAttendance,
+): NewQueuedAttendance {
+  const baseline = { ...item.baseline, ...existing.baseline };
+  const names = { ...existing.names, ...item.names };
+  if (item.kind === "student" && existing.kind === "student") {
+    const replaced = new Set(item.payload.entries.map(entryPersonId));
+    return {
+      ...item,
+      baseline,
+      names,
+      payload: {
+        ...item.payload,
+        entries: [
+          ...existing.payload.entries.filter(
+            (entry) => !replaced.has(entryPersonId(entry)),
+          ),
+          ...item.payload.entries,
+        ],
+      },
+    };
+  }
+  if (item.kind === "staff" && existing.kind === "staff") {
+    const replaced = new Set(item.payload.entries.map(entryPersonId));
+    return {
+      ...item,
+      baseline,
+      names,
+      payload: {
+        ...item.payload,
+        entries: [
+          ...existing.payload.entries.filter(
+            (entry) => !replaced.has(entryPersonId(entry)),
+          ),
+          ...item.payload.entries,
+        ],
+      },
+    };
+  }
+  return item;
+}
+
+/**
+ * Queues a register save. A save of a register that is still waiting
+ * (pending or failed) replaces it rather than queueing behind it.
+ */
+export async function enqueueAttendance(
+  item: NewQueuedAttendance,
+): Promise<QueuedAttendance> {
+  if (!isIndexedDbAvailable()) {
+    throw new Error("This browser cannot store attendance for offline use.");
+  }
+  const waiting = (await listQueuedAttendance()).find(
+    (queued) =>
+      queued.registerKey === item.registerKey &&
+      queued.kind === item.kind &&
+      (queued.status === "pending" || queued.status === "failed"),
+  );
+  const queued = {
+    ...(waiting ? mergeQueuedAttendance(waiting, item) : item),
+    id: waiting?.id ?? createQueueId(),
+    date: item.payload.date,
+    queuedAt: new Date().toISOString(),
+    status: "pending",
+    retryCount: 0,
+    nextRetryAt: 0,
+    lastError: null,
+    conflicts: [],
+  } as QueuedAttendance;
+  await idbPut(STORES.attendanceQueue, queued);
+  notifyQueueChanged();
+  return queued;
+}
+
+export async function removeQueuedAttendance(id: string): Promise<void> {
+  await idbDelete(STORES.attendanceQueue, id);
+  notifyQueueChanged();
+}
+
+function retryDelay(retryCount: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** retryCount, RETRY_MAX_DELAY_MS);
+}
+
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof ApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 401 &&
+    error.status !== 408 &&
+    error.status !== 429
+  );
+}
+
+async function fetchServerRecords(
+  item: QueuedAttendance,
+): Promise<Map<string, ServerRecord>> {
+  const records = new Map<string, ServerRecord>();
+  if (item.kind === "student") {
+    const response = await listStudentAttendance({
+      per_page: 500,
+      date: item.payload.date,
+      school_class_id: item.payload.school_class_id,
+      class_arm_id: item.payload.class_arm_id,
+    });
+    response.data.forEach((record) => {
+      const studentId = record.student?.id ?? record.student_id;
+      if (studentId !== undefined && studentId !== null) {
+        records.set(String(studentId), {
+          status: String(record.status ?? ""),
+          updatedAt: record.updated_at ? String(record.updated_at) : null,
+          recordedBy: record.recorded_by?.name ?? null,
+        });
+      }
+    });
+  } else {
+    const response = await listStaffAttendance({
+      per_page: 500,
+      date: item.payload.date,
+      branch_name: item.payload.branch_name,
+      department: item.payload.department,
+    });
+    response.data.forEach((record) => {
+      const staffId = record.staff?.id ?? record.staff_id;
+      if (staffId !== undefined && staffId !== null) {
+        records.set(String(staffId), {
+          status: String(record.status ?? ""),
+          updatedAt: record.updated_at ? String(record.updated_at) : null,
+          recordedBy: record.recorded_by?.name ?? null,
+        });
+      }
+    });
+  }
+  return records;
+}
+
+/**
+ * Splits a queued register into entries that can be posted and entries
+ * another user has changed on the server since this device loaded it.
+ * Someone recording the same status as ours is not a conflict.
+ */
+function partitionConflicts(
+  item: QueuedAttendance,
+  server: Map<string, ServerRecord>,
+): AttendanceConflict[] {
+  const conflicts: AttendanceConflict[] = [];
+  const entries: Array<
+    | SaveStudentAttendancePayload["entries"][number]
+    | SaveStaffAttendancePayload["entries"][number]
+  > = item.payload.entries;
+  entries.forEach((entry) => {
+    const personId = entryPersonId(entry);
+    const current = server.get(personId);
+    if (!current || !current.status || current.status === entry.status) {
+      return;
+    }
+    const baseline = item.baseline[personId];
+    const changedSinceLoad =
+      !baseline ||
+      baseline.status !== current.status ||
+      baseline.updatedAt !== current.updatedAt;
+    if (changedSinceLoad) {
+      conflicts.push({
+        personId,
+        personName: item.names[personId] ?? personId,
+        localStatus: entry.status,
+        serverStatus: current.status,
+        serverUpdatedAt: current.updatedAt,
+        recordedBy: current.recordedBy,
+      });
+    }
+  });
+  return conflicts;
+}
+
+async function postEntries(
+  item: QueuedAttendance,
+  personIds: Set<string>,
+): Promise<void> {
+  if (item.kind === "student") {
+    const entries = item.payload.entries.filter((entry) =>
+      personIds.has(String(entry.student_id)),
+    );
+    if (entries.length) {
+      await saveStudentAttendance({ ...item.payload, entries });
+    }
+  } else {
+    const entries = item.payload.entries.filter((entry) =>
+      personIds.has(String(entry.staff_id)),
+    );
+    if (entries.length) {
+      await saveStaffAttendance({ ...item.payload, entries });
+    }
+  }
+}
+
+function withEntries(
+  item: QueuedAttendance,
+  personIds: Set<string>,
+): QueuedAttendance {
+  if (item.kind === "student") {
+    return {
+      ...item,
+      payload: {
+        ...item.payload,
+        entries: item.payload.entries.filter((entry) =>
+          personIds.has(String(entry.student_id)),
+        ),
+      },
+    };
+  }
+  return {
+    ...item,
+    payload: {
+      ...item.payload,
+      entries: item.payload.entries.filter((entry) =>
+        personIds.has(String(entry.staff_id)),
+      ),
+    },
+  };
+}
+
+/**
+ * Once this device's entries reach the server, later saves of the same
+ * register (queued while this one was syncing or in conflict) must treat
+ * them as the starting point, not as someone else's change.
+ */
+async function advanceLaterBaselines(
+  item: QueuedAttendance,
+  personIds: Set<string>,
+): Promise<void> {
+  const later = (await listQueuedAttendance()).filter(
+    (queued) => queued.id !== item.id && queued.registerKey === item.registerKey,
+  );
+  if (!later.length || !personIds.size) {
+    return;
+  }
+  const server = await fetchServerRecords(item);
+  for (const queued of later) {
+    const baseline = { ...queued.baseline };
+    personIds.forEach((personId) => {
+      const record = server.get(personId);
+      if (record && personId in baseline) {
+        baseline[personId] = {
+          id: baseline[personId]?.id ?? personId,
+          status: record.status,
+          updatedAt: record.updatedAt,
+        };
+      }
+    });
+    await idbPut(STORES.attendanceQueue, { ...queued, baseline });
+  }
+}
+
+async function replayAttendance(
+  item: QueuedAttendance,
+): Promise<QueuedAttendance | null> {
+  // Re-read: an earlier replay in this run may have moved its baseline on.
+  const stored = await idbGet<QueuedAttendance>(STORES.attendanceQueue, item.id);
+  let current: QueuedAttendance = { ...(stored ?? item), status: "syncing" };
+  await idbPut(STORES.attendanceQueue, current);
+
+  try {
+    const conflicts = partitionConflicts(current, await fetchServerRecords(current));
+    const conflictIds = new Set(conflicts.map((conflict) => conflict.personId));
+    const clearIds = new Set(
+      current.payload.entries
+        .map(entryPersonId)
+        .filter((personId) => !conflictIds.has(personId)),
+    );
+
+    await postEntries(current, clearIds);
+    await advanceLaterBaselines(current, clearIds);
+
+    if (!conflicts.length) {
+      await idbDelete(STORES.attendanceQueue, current.id);
+      return null;
+    }
+    // Only the disputed entries stay queued, waiting for someone to pick.
+    current = {
+      ...withEntries(current, conflictIds),
+      status: "conflict",
+      conflicts,
+      lastError: null,
+    };
+  } catch (error) {
+    const retryCount = current.retryCount + 1;
+    current = {
+      ...current,
+      status: isPermanentFailure(error) ? "failed" : "pending",
+      retryCount,
+      nextRetryAt: Date.now() + retryDelay(retryCount),
+      lastError:
+        error instanceof Error ? error.message : "Unable to sync attendance.",
+    };
+  }
+
+  await idbPut(STORES.attendanceQueue, current);
+  return current;
+}
+
+let syncInFlight: Promise<QueuedAttendance[]> | null = null;
+
+/**
+ * Replays every queued register whose backoff has elapsed. Registers in
+ * conflict wait for `resolveAttendanceConflicts`; `force` ignores the
+ * backoff and retries failed ones (the "Sync now" button).
+ */
+export function syncAttendanceQueue(
+  options: { force?: boolean } = {},
+): Promise<QueuedAttendance[]> {
+  if (syncInFlight) {
+    return syncInFlight;
+  }
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return listQueuedAttendance();
+  }
+
+  syncInFlight = (async () => {
+    const queue = await listQueuedAttendance();
+    const now = Date.now();
+    let changed = false;
+    for (const item of queue) {
+      const due =
+        item.status === "pending" ||
+        item.status === "syncing" ||
+        (options.force && item.status === "failed");
+      if (!due || (!options.force && item.nextRetryAt > now)) {
+        continue;
+      }
+      changed = true;
+      const updated = await replayAttendance(item);
+      if (
+        updated?.status === "pending" &&
+        typeof navigator !== "undefined" &&
+        navigator.onLine === false
+      ) {
+        break;
+      }
+    }
+    if (changed) {
+      notifyQueueChanged();
+    }
+    return listQueuedAttendance();
+  })().finally(() => {
+    syncInFlight = null;
+  });
+
+  return syncInFlight;
+}
+
+/**
+ * Settles a register in conflict: entries listed in `keepMine` overwrite
+ * the server, the rest are dropped in favour of what is already there.
+ */
+export async function resolveAttendanceConflicts(
+  id: string,
+  keepMine: string[],
+): Promise<void> {
+  const item = await idbGet<QueuedAttendance>(STORES.attendanceQueue, id);
+  if (!item) {
+    return;
+  }
+  await postEntries(item, new Set(keepMine));
+  await advanceLaterBaselines(item, new Set(keepMine));
+  await removeQueuedAttendance(id);
+}
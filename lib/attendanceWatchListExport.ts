@@ -0,0 +1,55 @@
+import { downloadCSVFile, escapeCsvCell } from "@/lib/assessmentSheetExport";
+import {
+  dominantAbsenceWeekday,
+  type ChronicAbsenceEntry,
+} from "@/lib/attendanceAnalytics";
+
+const formatRate = (value: number | null) =>
+  value === null ? "" : value.toFixed(1);
+
+export function generateChronicAbsenceCSV(entries: ChronicAbsenceEntry[]): string {
+  const headers = [
+    "Admission No",
+    "Name",
+    "Class",
+    "Parent",
+    "Parent Phone",
+    "Attendance %",
+    "Days Absent",
+    "Longest Absence Streak",
+    "Late %",
+    "Most Missed Day",
+    "Reasons",
+  ];
+
+  const rows = entries.map((entry) => [
+    entry.admissionNo,
+    entry.name,
+    entry.classLabel,
+    entry.parentName,
+    entry.parentPhone,
+    formatRate(entry.attendanceRate),
+    String(entry.absent),
+    String(entry.longestAbsenceStreak),
+    formatRate(entry.lateRate),
+    dominantAbsenceWeekday(entry) ?? "",
+    entry.reasons.join("; "),
+  ]);
+
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvCell).join(","))
+    .join("\n");
+}
+
+export function exportChronicAbsenceList(
+  entries: ChronicAbsenceEntry[],
+  filename?: string,
+): void {
+  if (!entries || entries.length === 0) {
+    throw new Error("No students are on the watch list.");
+  }
+  downloadCSVFile(
+    generateChronicAbsenceCSV(entries),
+    filename ?? "chronic-absence-watch-list.csv",
+  );
+}
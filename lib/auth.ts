@@ -1,6 +1,6 @@
 import { API_ROUTES } from "@/lib/config";
 import { apiFetch } from "@/lib/apiClient";
-import { deleteCookie, setCookie } from "@/lib/cookies";
+import { closeSession, openSession } from "@/lib/session";
 import type { Staff } from "@/lib/staff";
 
 export interface LoginPayload {
@@ -8,8 +8,8 @@ export interface LoginPayload {
   password: string;
 }
 
+/** The backend's login reply. Its token stays in the httpOnly session cookie. */
 export interface LoginResponse {
-  token: string;
   [key: string]: unknown;
 }
 
@@ -117,26 +117,14 @@ export interface LogoutOtherDevicesResponse {
 }
 
 export async function login(payload: LoginPayload): Promise<LoginResponse> {
-  const response = await apiFetch<LoginResponse>(API_ROUTES.login, {
-    method: "POST",
-    body: JSON.stringify(payload),
-    skipAuth: true,
-  });
-
-  if (response.token) {
-    setCookie("token", response.token);
-  }
-
-  return response;
+  return openSession<LoginResponse>("staff", payload);
 }
 
 export async function logout(): Promise<void> {
   try {
-    await apiFetch(API_ROUTES.logout, { method: "POST" });
+    await closeSession("staff");
   } catch (error) {
     console.warn("Logout request failed:", error);
-  } finally {
-    deleteCookie("token");
   }
 }
 
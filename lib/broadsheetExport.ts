@@ -1,48 +1,240 @@
 import { StudentSummary } from "@/lib/students";
-import { downloadCSVFile } from "@/lib/assessmentSheetExport";
+import { downloadCSVFile, escapeCsvCell } from "@/lib/assessmentSheetExport";
+import type { AssessmentComponent } from "@/lib/assessmentComponents";
+import {
+  findGradeRange,
+  isPassingGradeRange,
+  type GradeScale,
+} from "@/lib/gradeScales";
+import {
+  formatPosition,
+  rankScores,
+  type ResultRecord,
+} from "@/lib/results";
 
 export interface BroadsheetSubject {
   id: number | string;
   name: string;
 }
 
-function escapeCsvCell(value: string): string {
-  const str = String(value ?? "");
-  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-    return `"${str.replace(/"/g, '""')}"`;
-  }
-  return str;
+export interface BroadsheetExportOptions {
+  /** Term results for every student and subject on the sheet. */
+  results?: ResultRecord[];
+  /** Used for the pass count and the grade-derived remark. */
+  gradeScale?: GradeScale | null;
+  /**
+   * When provided, each subject gets one column per applicable component
+   * ahead of its total column.
+   */
+  components?: AssessmentComponent[];
+}
+
+interface StudentComputation {
+  subjectTotals: Map<string, number>;
+  componentScores: Map<string, number>;
+  grandTotal: number;
+  average: number | null;
+  passes: number;
+  remark: string;
+}
+
+const scoreKey = (...parts: Array<number | string>) =>
+  parts.map(String).join(":");
+
+const formatScore = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+function componentsForSubject(
+  components: AssessmentComponent[],
+  subject: BroadsheetSubject,
+): AssessmentComponent[] {
+  return components.filter(
+    (component) =>
+      !component.subjects?.length ||
+      component.subjects.some((item) => String(item.id) === String(subject.id)),
+  );
 }
 
+function studentArmName(student: StudentSummary): string {
+  return (
+    student.class_arm?.name ??
+    student.school_class?.class_arm?.name ??
+    ""
+  );
+}
+
+function computeStudent(
+  student: StudentSummary,
+  subjects: BroadsheetSubject[],
+  results: ResultRecord[],
+  gradeScale: GradeScale | null,
+): StudentComputation {
+  const subjectTotals = new Map<string, number>();
+  const plainTotals = new Map<string, number>();
+  const componentScores = new Map<string, number>();
+
+  // As in `fetchSubjectTermTotals`: component scores win over a plain
+  // subject score, so a subject with both is not counted twice.
+  results
+    .filter((result) => String(result.student_id) === String(student.id))
+    .forEach((result) => {
+      const score = Number(result.total_score);
+      if (!Number.isFinite(score)) {
+        return;
+      }
+      const subjectId = String(result.subject_id);
+      if (
+        result.assessment_component_id !== null &&
+        result.assessment_component_id !== undefined
+      ) {
+        subjectTotals.set(subjectId, (subjectTotals.get(subjectId) ?? 0) + score);
+        const key = scoreKey(subjectId, result.assessment_component_id);
+        componentScores.set(key, (componentScores.get(key) ?? 0) + score);
+      } else {
+        plainTotals.set(subjectId, (plainTotals.get(subjectId) ?? 0) + score);
+      }
+    });
+
+  plainTotals.forEach((total, subjectId) => {
+    if (!subjectTotals.has(subjectId)) {
+      subjectTotals.set(subjectId, total);
+    }
+  });
+
+  const scoredSubjects = subjects.filter((subject) =>
+    subjectTotals.has(String(subject.id)),
+  );
+  const grandTotal = scoredSubjects.reduce(
+    (sum, subject) => sum + (subjectTotals.get(String(subject.id)) ?? 0),
+    0,
+  );
+  const average = scoredSubjects.length
+    ? grandTotal / scoredSubjects.length
+    : null;
+
+  const ranges = gradeScale?.grade_ranges ?? [];
+  const passes = ranges.length
+    ? scoredSubjects.filter((subject) =>
+        isPassingGradeRange(
+          findGradeRange(ranges, subjectTotals.get(String(subject.id)) ?? 0),
+          ranges,
+        ),
+      ).length
+    : 0;
+
+  const averageRange =
+    average !== null && ranges.length ? findGradeRange(ranges, average) : null;
+  const remark = averageRange
+    ? String(averageRange.description || averageRange.grade_label)
+    : "";
+
+  return {
+    subjectTotals,
+    componentScores,
+    grandTotal,
+    average,
+    passes,
+    remark,
+  };
+}
+
+/**
+ * Builds the broadsheet as CSV. Students from more than one class arm are
+ * exported into the same sheet with an ARM column, and positions are
+ * ranked across the whole class by average.
+ */
 export function generateBroadsheetCSV(
   students: StudentSummary[],
   subjects: BroadsheetSubject[],
+  options: BroadsheetExportOptions = {},
 ): string {
+  const results = options.results ?? [];
+  const gradeScale = options.gradeScale ?? null;
+  const components = [...(options.components ?? [])].sort(
+    (a, b) => (a.order ?? 0) - (b.order ?? 0),
+  );
+  const includeArm =
+    new Set(students.map(studentArmName).filter(Boolean)).size > 1;
+
+  const subjectHeaders = subjects.flatMap((subject) => {
+    const name = subject.name.toUpperCase();
+    const breakdown = componentsForSubject(components, subject);
+    if (!breakdown.length) {
+      return [name];
+    }
+    return [
+      ...breakdown.map((component) =>
+        `${name} - ${(component.label || component.name).toUpperCase()}`,
+      ),
+      `${name} TOTAL`,
+    ];
+  });
+
   const headers = [
     "S/NO",
     "ADM.NO",
     "NAME OF STUDENT",
     "SEX",
-    ...subjects.map((s) => s.name.toUpperCase()),
+    ...(includeArm ? ["ARM"] : []),
+    ...subjectHeaders,
+    "TOTAL",
+    "AVERAGE",
+    "POSITION",
     "NO. OF PASSES",
     "REMARK",
   ];
 
+  const computations = students.map((student) =>
+    computeStudent(student, subjects, results, gradeScale),
+  );
+  const positions = rankScores(
+    computations.flatMap((computation, index) =>
+      computation.average === null
+        ? []
+        : [{ key: index, score: computation.average }],
+    ),
+  );
+
   const rows = students.map((student, index) => {
+    const computation = computations[index];
     const name = [student.last_name, student.first_name, student.middle_name]
       .filter(Boolean)
       .join(", ")
       .trim();
     const sex = ((student.gender as string) ?? "").charAt(0).toUpperCase();
-    const subjectCells = subjects.map(() => "");
+
+    const subjectCells = subjects.flatMap((subject) => {
+      const total = computation.subjectTotals.get(String(subject.id));
+      const totalCell = total === undefined ? "" : formatScore(total);
+      const breakdown = componentsForSubject(components, subject);
+      if (!breakdown.length) {
+        return [totalCell];
+      }
+      return [
+        ...breakdown.map((component) => {
+          const score = computation.componentScores.get(
+            scoreKey(subject.id, component.id),
+          );
+          return score === undefined ? "" : formatScore(score);
+        }),
+        totalCell,
+      ];
+    });
+
+    const position = positions.get(index);
+    const hasScores = computation.average !== null;
     return [
       String(index + 1),
       student.admission_no ?? "",
       name,
       sex,
+      ...(includeArm ? [studentArmName(student)] : []),
       ...subjectCells,
-      "",
-      "",
+      hasScores ? formatScore(computation.grandTotal) : "",
+      computation.average === null ? "" : computation.average.toFixed(2),
+      position ? formatPosition(position) : "",
+      hasScores && gradeScale ? String(computation.passes) : "",
+      computation.remark,
     ];
   });
 
@@ -54,6 +246,7 @@ export function generateBroadsheetCSV(
 export function exportBroadsheet(
   students: StudentSummary[],
   subjects: BroadsheetSubject[],
+  options: BroadsheetExportOptions = {},
   filename?: string,
 ): void {
   if (!students || students.length === 0) {
@@ -62,6 +255,6 @@ export function exportBroadsheet(
   if (!subjects || subjects.length === 0) {
     throw new Error("No subjects found for this class. Please assign subjects before exporting.");
   }
-  const csv = generateBroadsheetCSV(students, subjects);
+  const csv = generateBroadsheetCSV(students, subjects, options);
   downloadCSVFile(csv, filename ?? "broadsheet.csv");
 }
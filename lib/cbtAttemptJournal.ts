@@ -0,0 +1,154 @@
+import type { QuizAnswer } from "@/lib/cbtAttempts";
+import type { IntegrityViolation } from "@/lib/cbtIntegrity";
+import {
+  STORES,
+  idbDelete,
+  idbGet,
+  idbGetAllByIndex,
+  idbPut,
+  isIndexedDbAvailable,
+} from "@/lib/indexedDb";
+
+export interface JournaledAnswer extends QuizAnswer {
+  /** Bumped on every local change. */
+  revision: number;
+  /** The revision last accepted by the answers endpoint. */
+  syncedRevision: number;
+}
+
+export interface JournaledViolation extends IntegrityViolation {
+  synced: boolean;
+}
+
+/**
+ * Local copy of an in-progress CBT attempt, written on every answer change
+ * so a refresh or power cut can pick up where the student left off.
+ */
+export interface AttemptJournal {
+  attemptId: string;
+  quizId: string;
+  studentId: string;
+  startTime: string;
+  durationMinutes: number;
+  answers: Record<string, JournaledAnswer>;
+  /** Kept here so a reload cannot reset the count towards the violation limit. */
+  violations?: JournaledViolation[];
+  updatedAt: string;
+}
+
+export async function loadAttemptJournal(
+  attemptId: string,
+): Promise<AttemptJournal | null> {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+  return idbGet<AttemptJournal>(STORES.cbtAttemptJournals, attemptId);
+}
+
+export async function findAttemptJournal(
+  quizId: string,
+  studentId: string,
+): Promise<AttemptJournal | null> {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+  const journals = await idbGetAllByIndex<AttemptJournal>(
+    STORES.cbtAttemptJournals,
+    "quiz_student",
+    [quizId, studentId],
+  );
+  return (
+    journals.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] ?? null
+  );
+}
+
+export async function saveAttemptJournal(journal: AttemptJournal): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+  await idbPut(STORES.cbtAttemptJournals, {
+    ...journal,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function deleteAttemptJournal(attemptId: string): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+  await idbDelete(STORES.cbtAttemptJournals, attemptId);
+}
+
+export function recordJournalAnswer(
+  journal: AttemptJournal,
+  answer: QuizAnswer,
+): AttemptJournal {
+  const previous = journal.answers[answer.questionId];
+  return {
+    ...journal,
+    answers: {
+      ...journal.answers,
+      [answer.questionId]: {
+        ...answer,
+        revision: (previous?.revision ?? 0) + 1,
+        syncedRevision: previous?.syncedRevision ?? 0,
+      },
+    },
+  };
+}
+
+export function unsyncedAnswers(journal: AttemptJournal): JournaledAnswer[] {
+  return Object.values(journal.answers).filter(
+    (answer) => answer.revision > answer.syncedRevision,
+  );
+}
+
+export function recordJournalViolation(
+  journal: AttemptJournal,
+  violation: IntegrityViolation,
+): AttemptJournal {
+  return {
+    ...journal,
+    violations: [...(journal.violations ?? []), { ...violation, synced: false }],
+  };
+}
+
+export function markViolationsSynced(
+  journal: AttemptJournal,
+  synced: IntegrityViolation[],
+): AttemptJournal {
+  const keys = new Set(synced.map((violation) => `${violation.type}@${violation.occurred_at}`));
+  return {
+    ...journal,
+    violations: (journal.violations ?? []).map((violation) =>
+      keys.has(`${violation.type}@${violation.occurred_at}`)
+        ? { ...violation, synced: true }
+        : violation,
+    ),
+  };
+}
+
+export function unsyncedViolations(journal: AttemptJournal): IntegrityViolation[] {
+  return (journal.violations ?? [])
+    .filter((violation) => !violation.synced)
+    .map((violation) => ({
+      type: violation.type,
+      occurred_at: violation.occurred_at,
+      question_id: violation.question_id ?? null,
+      detail: violation.detail ?? null,
+    }));
+}
+
+export function journalAnswers(journal: AttemptJournal): Map<string, QuizAnswer> {
+  return new Map(
+    Object.values(journal.answers).map((answer) => [
+      answer.questionId,
+      {
+        questionId: answer.questionId,
+        selectedOption: answer.selectedOption,
+        answerText: answer.answerText,
+        selectedOptions: answer.selectedOptions,
+      },
+    ]),
+  );
+}
@@ -0,0 +1,181 @@
+import { apiFetch } from "@/lib/apiClient";
+
+export type QuizQuestionType =
+  | "mcq"
+  | "multiple_select"
+  | "true_false"
+  | "short_answer";
+
+export interface QuizOption {
+  id: string;
+  question_id: string;
+  option_text: string;
+  order: number;
+  image_url?: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  quiz_id: string;
+  question_text: string;
+  question_type: QuizQuestionType;
+  marks: number;
+  order: number;
+  image_url?: string;
+  explanation?: string;
+  options: QuizOption[];
+}
+
+/** The quiz fields a student needs to sit the paper. */
+export interface QuizDetails {
+  id: string;
+  title: string;
+  subject_name?: string | null;
+  duration_minutes: number;
+  total_questions: number;
+  show_answers: boolean;
+  allow_review: boolean;
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
+  require_fullscreen?: boolean;
+  violation_limit?: number | null;
+}
+
+export interface QuizAttempt {
+  id: string;
+  quiz_id: string;
+  student_id?: string;
+  start_time: string;
+  end_time?: string | null;
+  status: "in_progress" | "submitted" | "graded";
+  /** Extra time an invigilator has granted so far. */
+  extra_minutes?: number | null;
+  [key: string]: unknown;
+}
+
+/** A student's answer to one question, as held by the take page. */
+export interface QuizAnswer {
+  questionId: string;
+  selectedOption?: string;
+  answerText?: string;
+  selectedOptions?: string[];
+}
+
+export async function getQuizDetails(quizId: string): Promise<QuizDetails> {
+  const response = await apiFetch<{ data: QuizDetails }>(
+    `/api/v1/cbt/quizzes/${quizId}`,
+    { authScope: "student" },
+  );
+  return response.data;
+}
+
+export async function listQuizQuestions(quizId: string): Promise<QuizQuestion[]> {
+  const response = await apiFetch<{ data: QuizQuestion[] }>(
+    `/api/v1/cbt/quizzes/${quizId}/questions`,
+    { authScope: "student" },
+  );
+  return response.data || [];
+}
+
+export async function startQuizAttempt(quizId: string): Promise<QuizAttempt> {
+  const response = await apiFetch<{ data: QuizAttempt }>(
+    "/api/v1/cbt/quiz-attempts",
+    {
+      method: "POST",
+      body: JSON.stringify({ quiz_id: quizId }),
+      authScope: "student",
+    },
+  );
+  return response.data;
+}
+
+export async function getQuizAttempt(attemptId: string): Promise<QuizAttempt> {
+  const response = await apiFetch<{ data: QuizAttempt }>(
+    `/api/v1/cbt/quiz-attempts/${attemptId}`,
+    { authScope: "student" },
+  );
+  return response.data;
+}
+
+/**
+ * Looks up the student's unfinished attempt for a quiz, so a reload after a
+ * crash resumes it instead of opening a second attempt record.
+ */
+export async function findInProgressAttempt(
+  quizId: string,
+): Promise<QuizAttempt | null> {
+  const response = await apiFetch<{ data?: QuizAttempt[] }>(
+    `/api/v1/cbt/quiz-attempts?quiz_id=${encodeURIComponent(quizId)}&status=in_progress`,
+    { authScope: "student" },
+  );
+  const attempts = Array.isArray(response?.data) ? response.data : [];
+  return (
+    attempts.find(
+      (attempt) =>
+        String(attempt.quiz_id) === String(quizId) &&
+        attempt.status === "in_progress",
+    ) ?? null
+  );
+}
+
+export function buildQuizAnswerPayload(
+  attemptId: string,
+  answer: QuizAnswer,
+  questionType: QuizQuestionType | undefined,
+): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    attempt_id: attemptId,
+    question_id: answer.questionId,
+  };
+
+  if (questionType === "multiple_select") {
+    payload.answer_text = JSON.stringify(answer.selectedOptions || []);
+  } else {
+    payload.selected_option_id = answer.selectedOption;
+    payload.answer_text = answer.answerText;
+  }
+
+  return payload;
+}
+
+export async function saveQuizAnswer(
+  payload: Record<string, unknown>,
+): Promise<void> {
+  await apiFetch("/api/v1/cbt/quiz-answers", {
+    method: "POST",
+    body: JSON.stringify(payload),
+    authScope: "student",
+  });
+}
+
+export async function submitQuizAttempt(
+  attemptId: string,
+  body?: Record<string, unknown>,
+): Promise<{ result_id?: string }> {
+  const response = await apiFetch<{ data?: { result_id?: string } }>(
+    `/api/v1/cbt/quiz-attempts/${attemptId}/submit`,
+    {
+      method: "POST",
+      authScope: "student",
+      ...(body ? { body: JSON.stringify(body) } : {}),
+    },
+  );
+  return response?.data ?? {};
+}
+
+/**
+ * Seconds left on an attempt, measured from when the server started it
+ * rather than from when this page loaded.
+ */
+export function remainingAttemptSeconds(
+  startTime: string,
+  durationMinutes: number,
+  now: number = Date.now(),
+): number {
+  const started = new Date(startTime).getTime();
+  if (Number.isNaN(started)) {
+    return durationMinutes * 60;
+  }
+  const deadline = started + durationMinutes * 60 * 1000;
+  return Math.max(0, Math.floor((deadline - now) / 1000));
+}
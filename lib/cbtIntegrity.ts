@@ -0,0 +1,111 @@
+import { apiFetch } from "@/lib/apiClient";
+import type { QuizQuestion } from "@/lib/cbtAttempts";
+import { seededRandom } from "@/lib/cbtQuestionBank";
+
+export type IntegrityViolationType =
+  | "tab_hidden"
+  | "window_blur"
+  | "fullscreen_exit"
+  | "copy"
+  | "cut"
+  | "paste";
+
+export const INTEGRITY_VIOLATION_LABELS: Record<IntegrityViolationType, string> = {
+  tab_hidden: "Switched tab or minimised",
+  window_blur: "Left the exam window",
+  fullscreen_exit: "Exited fullscreen",
+  copy: "Tried to copy",
+  cut: "Tried to cut",
+  paste: "Tried to paste",
+};
+
+/** Something a student did during an attempt that an invigilator should see. */
+export interface IntegrityViolation {
+  type: IntegrityViolationType;
+  occurred_at: string;
+  /** The question on screen at the time. */
+  question_id?: string | null;
+  detail?: string | null;
+}
+
+/** Integrity settings carried on the quiz. */
+export interface QuizIntegritySettings {
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
+  require_fullscreen?: boolean;
+  /** Violations allowed before the attempt is submitted automatically; 0 or null only logs. */
+  violation_limit?: number | null;
+}
+
+// FNV-1a, so any attempt id (numeric, UUID or local) becomes a stable seed.
+const hashSeed = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const shuffleWith = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let index = copy.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [copy[index], copy[swap]] = [copy[swap], copy[index]];
+  }
+  return copy;
+};
+
+/**
+ * Orders a paper for one attempt. The order is derived from the attempt id,
+ * so a reload or an offline resume shows the student the same paper while
+ * neighbours see different ones. True/false options keep their order.
+ */
+export function arrangeQuestionsForAttempt(
+  questions: QuizQuestion[],
+  attemptId: string,
+  settings: QuizIntegritySettings,
+): QuizQuestion[] {
+  const random = seededRandom(hashSeed(attemptId));
+  const ordered = [...questions].sort((a, b) => a.order - b.order);
+  const arranged = settings.shuffle_questions ? shuffleWith(ordered, random) : ordered;
+  if (!settings.shuffle_options) {
+    return arranged;
+  }
+  return arranged.map((question) =>
+    question.question_type === "true_false" || question.options.length < 2
+      ? question
+      : { ...question, options: shuffleWith(question.options, random) },
+  );
+}
+
+/** Whether enough violations have piled up to end the attempt. */
+export function violationLimitReached(
+  count: number,
+  settings: QuizIntegritySettings,
+): boolean {
+  const limit = settings.violation_limit ?? 0;
+  return limit > 0 && count >= limit;
+}
+
+export async function recordIntegrityViolation(
+  attemptId: string,
+  violation: IntegrityViolation,
+): Promise<void> {
+  await apiFetch(`/api/v1/cbt/quiz-attempts/${attemptId}/violations`, {
+    method: "POST",
+    body: JSON.stringify(violation),
+    authScope: "student",
+  });
+}
+
+export async function listAttemptViolations(
+  attemptId: string,
+): Promise<IntegrityViolation[]> {
+  const response = await apiFetch<{ data?: IntegrityViolation[] }>(
+    `/api/v1/cbt/quiz-attempts/${attemptId}/violations`,
+  );
+  return (Array.isArray(response.data) ? response.data : []).sort((a, b) =>
+    a.occurred_at.localeCompare(b.occurred_at),
+  );
+}
@@ -0,0 +1,128 @@
+import { apiFetch } from "@/lib/apiClient";
+
+export type MonitorState = "not_started" | "in_progress" | "submitted" | "disconnected";
+
+export const MONITOR_STATE_LABELS: Record<MonitorState, string> = {
+  not_started: "Not started",
+  in_progress: "In progress",
+  submitted: "Submitted",
+  disconnected: "Disconnected",
+};
+
+/** One enrolled student as the monitor sees them. */
+export interface MonitorRow {
+  student_id: string;
+  student_name: string;
+  admission_no?: string | null;
+  attempt_id: string | null;
+  status: "not_started" | "in_progress" | "submitted";
+  answered: number;
+  total_questions: number;
+  started_at: string | null;
+  /** When the attempt ends, including any extra time granted. */
+  deadline: string | null;
+  extra_minutes: number;
+  last_heartbeat_at: string | null;
+  submitted_at: string | null;
+  violations: number;
+  /** Set once an invigilator reopens a submitted or stuck attempt. */
+  reentry_allowed?: boolean;
+}
+
+export interface MonitorSnapshot {
+  rows: MonitorRow[];
+  /** Server clock at the time of the snapshot, to avoid trusting the local clock. */
+  server_time: string;
+}
+
+/**
+ * Where the monitor reads from and sends invigilator actions to. The page
+ * uses the attempts API normally and a simulated class when
+ * NEXT_PUBLIC_CBT_MONITOR_MOCK is on.
+ */
+export interface InvigilationSource {
+  fetchMonitor(quizId: string): Promise<MonitorSnapshot>;
+  extendTime(attemptId: string, minutes: number): Promise<void>;
+  forceSubmit(attemptId: string): Promise<void>;
+  allowReentry(attemptId: string): Promise<void>;
+}
+
+// The take page beats every 20 seconds; three missed beats reads as a
+// dropped connection or closed laptop rather than a slow network.
+export const HEARTBEAT_INTERVAL_MS = 20000;
+export const DISCONNECT_AFTER_MS = 60000;
+
+export function monitorState(row: MonitorRow, now: number): MonitorState {
+  if (row.status !== "in_progress") {
+    return row.status;
+  }
+  const lastSeen = row.last_heartbeat_at ?? row.started_at;
+  if (!lastSeen || now - new Date(lastSeen).getTime() > DISCONNECT_AFTER_MS) {
+    return "disconnected";
+  }
+  return "in_progress";
+}
+
+export function secondsLeft(row: MonitorRow, now: number): number | null {
+  if (!row.deadline || row.status !== "in_progress") return null;
+  return Math.max(0, Math.floor((new Date(row.deadline).getTime() - now) / 1000));
+}
+
+export const apiInvigilationSource: InvigilationSource = {
+  async fetchMonitor(quizId) {
+    const response = await apiFetch<{ data?: Partial<MonitorSnapshot> }>(
+      `/api/v1/cbt/quizzes/${quizId}/monitor`,
+    );
+    return {
+      rows: (Array.isArray(response.data?.rows) ? response.data.rows : []).map((row) => ({
+        ...row,
+        student_id: String(row.student_id),
+        attempt_id: row.attempt_id != null ? String(row.attempt_id) : null,
+        extra_minutes: row.extra_minutes ?? 0,
+        violations: row.violations ?? 0,
+      })),
+      server_time: response.data?.server_time ?? new Date().toISOString(),
+    };
+  },
+  async extendTime(attemptId, minutes) {
+    await apiFetch(`/api/v1/cbt/quiz-attempts/${attemptId}/extend`, {
+      method: "POST",
+      body: JSON.stringify({ minutes }),
+    });
+  },
+  async forceSubmit(attemptId) {
+    await apiFetch(`/api/v1/cbt/quiz-attempts/${attemptId}/force-submit`, {
+      method: "POST",
+    });
+  },
+  async allowReentry(attemptId) {
+    await apiFetch(`/api/v1/cbt/quiz-attempts/${attemptId}/allow-reentry`, {
+      method: "POST",
+    });
+  },
+};
+
+/** What the invigilator has asked of a running attempt, returned on each heartbeat. */
+export interface HeartbeatInstructions {
+  extra_minutes: number;
+  force_submit: boolean;
+}
+
+/** Tells the monitor the attempt is alive and how far along it is. */
+export async function sendAttemptHeartbeat(
+  attemptId: string,
+  payload: { answered: number; current_question_id: string | null },
+): Promise<HeartbeatInstructions> {
+  const response = await apiFetch<{ data?: Partial<HeartbeatInstructions> }>(
+    `/api/v1/cbt/quiz-attempts/${attemptId}/heartbeat`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+      authScope: "student",
+    },
+  );
+  return {
+    extra_minutes: response?.data?.extra_minutes ?? 0,
+    force_submit: Boolean(response?.data?.force_submit),
+  };
+}
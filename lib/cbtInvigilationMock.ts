@@ -0,0 +1,161 @@
+import {
+  HEARTBEAT_INTERVAL_MS,
+  type InvigilationSource,
+  type MonitorRow,
+} from "@/lib/cbtInvigilation";
+import { seededRandom } from "@/lib/cbtQuestionBank";
+
+interface MockOptions {
+  students?: number;
+  totalQuestions?: number;
+  durationMinutes?: number;
+  seed?: number;
+}
+
+interface MockStudent {
+  row: MonitorRow;
+  /** Seconds after the session opened that the student starts; null never starts. */
+  startAfter: number | null;
+  /** Questions answered per minute. */
+  pace: number;
+  /** Seconds into the attempt the student's connection drops; null stays online. */
+  dropAfter: number | null;
+  /** When the student last (re)joined; re-entry restarts the heartbeat from here. */
+  joinedAt: number | null;
+}
+
+const FIRST_NAMES = ["Ada", "Bola", "Chidi", "Dayo", "Efe", "Funmi", "Gbenga", "Halima", "Ike", "Jumoke", "Kemi", "Lanre"];
+const LAST_NAMES = ["Okafor", "Adeyemi", "Bello", "Eze", "Ogun", "Musa", "Nwosu", "Balogun"];
+
+/**
+ * A simulated class for trying the live monitor without a backend or real
+ * students. The session opens a few minutes before the first poll, so some
+ * students are already writing, a few finish early, one or two drop off
+ * and some never arrive. Invigilator actions change the simulation the way
+ * the real endpoints change attempts.
+ */
+export function createMockInvigilationSource(options: MockOptions = {}): InvigilationSource {
+  const {
+    students = 24,
+    totalQuestions = 40,
+    durationMinutes = 45,
+    seed = 20260101,
+  } = options;
+  const sessions = new Map<string, { openedAt: number; students: MockStudent[] }>();
+
+  const session = (quizId: string) => {
+    let existing = sessions.get(quizId);
+    if (!existing) {
+      const random = seededRandom(seed);
+      const openedAt = Date.now() - 6 * 60 * 1000;
+      existing = {
+        openedAt,
+        students: Array.from({ length: students }, (_, index) => {
+          const roll = random();
+          const startAfter = roll < 0.12 ? null : Math.floor(random() * 600);
+          return {
+            startAfter,
+            pace: 0.6 + random() * 1.6,
+            dropAfter: random() < 0.1 ? 60 + Math.floor(random() * 180) : null,
+            joinedAt: null,
+            row: {
+              student_id: `mock-student-${index + 1}`,
+              student_name: `${FIRST_NAMES[index % FIRST_NAMES.length]} ${LAST_NAMES[(index * 7) % LAST_NAMES.length]}`,
+              admission_no: `MOCK/${String(index + 1).padStart(3, "0")}`,
+              attempt_id: null,
+              status: "not_started",
+              answered: 0,
+              total_questions: totalQuestions,
+              started_at: null,
+              deadline: null,
+              extra_minutes: 0,
+              last_heartbeat_at: null,
+              submitted_at: null,
+              violations: 0,
+            },
+          };
+        }),
+      };
+      sessions.set(quizId, existing);
+    }
+    return existing;
+  };
+
+  const advance = (entry: MockStudent, openedAt: number, now: number) => {
+    const { row } = entry;
+    if (row.status === "not_started") {
+      if (entry.startAfter === null || now < openedAt + entry.startAfter * 1000) return;
+      const startedAt = openedAt + entry.startAfter * 1000;
+      row.status = "in_progress";
+      row.attempt_id = `mock-attempt-${row.student_id}`;
+      row.started_at = new Date(startedAt).toISOString();
+      entry.joinedAt = startedAt;
+    }
+    if (row.status !== "in_progress" || !row.started_at || entry.joinedAt === null) return;
+
+    const started = new Date(row.started_at).getTime();
+    const deadline = started + (durationMinutes + row.extra_minutes) * 60 * 1000;
+    row.deadline = new Date(deadline).toISOString();
+
+    const dropped = entry.dropAfter !== null && now > entry.joinedAt + entry.dropAfter * 1000;
+    const activeUntil = dropped ? entry.joinedAt + (entry.dropAfter ?? 0) * 1000 : now;
+    // Online students beat every HEARTBEAT_INTERVAL_MS; dropped ones stop at the drop.
+    row.last_heartbeat_at = new Date(
+      dropped ? activeUntil : now - (now % HEARTBEAT_INTERVAL_MS),
+    ).toISOString();
+    row.answered = Math.min(
+      row.total_questions,
+      Math.max(row.answered, Math.floor(((activeUntil - started) / 60000) * entry.pace)),
+    );
+    row.violations = Math.floor((activeUntil - started) / 1000 / (entry.pace > 1.8 ? 240 : 900));
+
+    const finished = row.answered >= row.total_questions && now > entry.joinedAt + 120000;
+    if (now >= deadline || (finished && !dropped)) {
+      row.status = "submitted";
+      row.submitted_at = new Date(Math.min(now, deadline)).toISOString();
+    }
+  };
+
+  const find = (attemptId: string) => {
+    for (const { students: entries } of sessions.values()) {
+      const match = entries.find((entry) => entry.row.attempt_id === attemptId);
+      if (match) return match;
+    }
+    throw new Error("Attempt not found in the simulated session.");
+  };
+
+  return {
+    async fetchMonitor(quizId) {
+      const now = Date.now();
+      const current = session(quizId);
+      current.students.forEach((entry) => advance(entry, current.openedAt, now));
+      return {
+        rows: current.students.map((entry) => ({ ...entry.row })),
+        server_time: new Date(now).toISOString(),
+      };
+    },
+    async extendTime(attemptId, minutes) {
+      const entry = find(attemptId);
+      entry.row.extra_minutes += minutes;
+    },
+    async forceSubmit(attemptId) {
+      const entry = find(attemptId);
+      entry.row.status = "submitted";
+      entry.row.submitted_at = new Date().toISOString();
+    },
+    async allowReentry(attemptId) {
+      const entry = find(attemptId);
+      const now = Date.now();
+      const deadline = entry.row.deadline ? new Date(entry.row.deadline).getTime() : now;
+      if (deadline <= now) {
+        // A reopened attempt needs time on the clock to be any use.
+        entry.row.extra_minutes += Math.ceil((now - deadline) / 60000) + 5;
+      }
+      entry.row.status = "in_progress";
+      entry.row.submitted_at = null;
+      entry.row.reentry_allowed = true;
+      entry.dropAfter = null;
+      entry.joinedAt = now;
+    },
+  };
+}
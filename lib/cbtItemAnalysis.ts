@@ -0,0 +1,255 @@
+import { apiFetch } from "@/lib/apiClient";
+import type { QuizQuestionType } from "@/lib/cbtAttempts";
+
+export interface ItemResponseOption {
+  id: string;
+  option_text: string;
+  order: number;
+  is_correct: boolean;
+}
+
+export interface ItemResponseQuestion {
+  id: string;
+  question_text: string;
+  question_type: QuizQuestionType;
+  marks: number;
+  order: number;
+  options: ItemResponseOption[];
+}
+
+export interface ItemResponseAnswer {
+  question_id: string;
+  selected_option_id?: string | null;
+  selected_option_ids?: string[];
+  answer_text?: string | null;
+  is_correct: boolean | null;
+  marks_obtained?: number | null;
+  /** Seconds the student spent on the question; absent when the backend does not track it. */
+  time_spent_seconds?: number | null;
+}
+
+/** One submitted attempt with every answer it gave. */
+export interface ItemResponseAttempt {
+  attempt_id: string;
+  student_id: string;
+  student_name?: string | null;
+  answers: ItemResponseAnswer[];
+}
+
+export interface ItemResponses {
+  questions: ItemResponseQuestion[];
+  attempts: ItemResponseAttempt[];
+}
+
+/** Graded attempts of a quiz with their per-question answers. */
+export async function fetchItemResponses(quizId: string): Promise<ItemResponses> {
+  const response = await apiFetch<{ data?: Partial<ItemResponses> }>(
+    `/api/v1/cbt/quizzes/${quizId}/item-responses`,
+  );
+  const questions = Array.isArray(response.data?.questions) ? response.data.questions : [];
+  const attempts = Array.isArray(response.data?.attempts) ? response.data.attempts : [];
+  return {
+    questions: [...questions]
+      .map((question) => ({
+        ...question,
+        id: String(question.id),
+        options: [...(question.options ?? [])]
+          .map((option) => ({ ...option, id: String(option.id) }))
+          .sort((a, b) => a.order - b.order),
+      }))
+      .sort((a, b) => a.order - b.order),
+    attempts: attempts.map((attempt) => ({
+      ...attempt,
+      answers: Array.isArray(attempt.answers) ? attempt.answers : [],
+    })),
+  };
+}
+
+export interface DistractorRow {
+  optionId: string;
+  label: string;
+  text: string;
+  isCorrect: boolean;
+  /** Share of all respondents who chose the option, 0–1. */
+  chosen: number;
+  chosenCount: number;
+  upperCount: number;
+  lowerCount: number;
+}
+
+export type ItemFlag = "negative_discrimination" | "dead_distractor";
+
+export interface ItemAnalysisRow {
+  questionId: string;
+  number: number;
+  questionText: string;
+  questionType: QuizQuestionType;
+  /** Difficulty index: share answering correctly, 0–1. Higher is easier. */
+  pValue: number;
+  /** Upper group p minus lower group p, -1–1; null when there are too few attempts to split. */
+  discrimination: number | null;
+  omitted: number;
+  distractors: DistractorRow[];
+  /** Mean seconds spent; null when no answer carried a time. */
+  averageSeconds: number | null;
+  flags: ItemFlag[];
+}
+
+export interface ItemAnalysisReport {
+  attempts: number;
+  /** Attempts in each of the upper and lower groups. */
+  groupSize: number;
+  items: ItemAnalysisRow[];
+  /** KR-20 internal consistency, null with fewer than two items or no score spread. */
+  kr20: number | null;
+  meanScore: number;
+  scoreVariance: number;
+}
+
+// Kelley's 27% split keeps each tail large enough to be stable while still
+// separating strong and weak candidates.
+const GROUP_SHARE = 0.27;
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  negative_discrimination: "Negative discrimination",
+  dead_distractor: "Dead distractor",
+};
+
+const optionLabel = (index: number) => String.fromCharCode(65 + (index % 26));
+
+const chosenOptionIds = (answer: ItemResponseAnswer | undefined): string[] => {
+  if (!answer) return [];
+  if (Array.isArray(answer.selected_option_ids) && answer.selected_option_ids.length) {
+    return answer.selected_option_ids.map(String);
+  }
+  return answer.selected_option_id ? [String(answer.selected_option_id)] : [];
+};
+
+const isAnswered = (answer: ItemResponseAnswer | undefined) =>
+  chosenOptionIds(answer).length > 0 || Boolean(answer?.answer_text?.trim());
+
+/**
+ * Classical item analysis. Each item is scored right/wrong (partial credit
+ * counts as wrong) and omitted answers count as wrong, so the totals used
+ * for grouping and KR-20 are the number of items right.
+ */
+export function analyzeItems({ questions, attempts }: ItemResponses): ItemAnalysisReport {
+  const answerMaps = attempts.map((attempt) => {
+    const map = new Map<string, ItemResponseAnswer>();
+    attempt.answers.forEach((answer) => map.set(String(answer.question_id), answer));
+    return map;
+  });
+  const scored = answerMaps.map((answers) =>
+    questions.map((question) => (answers.get(question.id)?.is_correct === true ? 1 : 0)),
+  );
+  const totals = scored.map((row) => row.reduce<number>((sum, value) => sum + value, 0));
+
+  const count = attempts.length;
+  const ranked = totals
+    .map((total, index) => ({ total, index }))
+    .sort((a, b) => b.total - a.total);
+  const groupSize = count >= 4 ? Math.max(1, Math.round(count * GROUP_SHARE)) : 0;
+  const upper = new Set(ranked.slice(0, groupSize).map((entry) => entry.index));
+  const lower = new Set(ranked.slice(count - groupSize).map((entry) => entry.index));
+
+  const items = questions.map((question, questionIndex): ItemAnalysisRow => {
+    let correct = 0;
+    let upperCorrect = 0;
+    let lowerCorrect = 0;
+    let omitted = 0;
+    let timeTotal = 0;
+    let timed = 0;
+    const chosen = new Map<string, { all: number; upper: number; lower: number }>();
+
+    answerMaps.forEach((answers, attemptIndex) => {
+      const answer = answers.get(question.id);
+      const right = scored[attemptIndex][questionIndex] === 1;
+      if (right) {
+        correct += 1;
+        if (upper.has(attemptIndex)) upperCorrect += 1;
+        if (lower.has(attemptIndex)) lowerCorrect += 1;
+      }
+      if (!isAnswered(answer)) {
+        omitted += 1;
+      }
+      if (typeof answer?.time_spent_seconds === "number" && answer.time_spent_seconds >= 0) {
+        timeTotal += answer.time_spent_seconds;
+        timed += 1;
+      }
+      chosenOptionIds(answer).forEach((optionId) => {
+        const tally = chosen.get(optionId) ?? { all: 0, upper: 0, lower: 0 };
+        tally.all += 1;
+        if (upper.has(attemptIndex)) tally.upper += 1;
+        if (lower.has(attemptIndex)) tally.lower += 1;
+        chosen.set(optionId, tally);
+      });
+    });
+
+    const distractors =
+      question.question_type === "short_answer"
+        ? []
+        : question.options.map((option, index) => {
+            const tally = chosen.get(option.id) ?? { all: 0, upper: 0, lower: 0 };
+            return {
+              optionId: option.id,
+              label: optionLabel(index),
+              text: option.option_text,
+              isCorrect: Boolean(option.is_correct),
+              chosen: count ? tally.all / count : 0,
+              chosenCount: tally.all,
+              upperCount: tally.upper,
+              lowerCount: tally.lower,
+            };
+          });
+
+    const discrimination = groupSize
+      ? (upperCorrect - lowerCorrect) / groupSize
+      : null;
+
+    const flags: ItemFlag[] = [];
+    if (discrimination !== null && discrimination < 0) {
+      flags.push("negative_discrimination");
+    }
+    // A wrong option nobody picks is not doing any work; only judge once
+    // someone has actually answered.
+    if (
+      count > omitted &&
+      distractors.some((row) => !row.isCorrect && row.chosenCount === 0)
+    ) {
+      flags.push("dead_distractor");
+    }
+
+    return {
+      questionId: question.id,
+      number: questionIndex + 1,
+      questionText: question.question_text,
+      questionType: question.question_type,
+      pValue: count ? correct / count : 0,
+      discrimination,
+      omitted,
+      distractors,
+      averageSeconds: timed ? timeTotal / timed : null,
+      flags,
+    };
+  });
+
+  const meanScore = count ? totals.reduce((sum, total) => sum + total, 0) / count : 0;
+  const scoreVariance = count
+    ? totals.reduce((sum, total) => sum + (total - meanScore) ** 2, 0) / count
+    : 0;
+  const itemVariance = items.reduce((sum, item) => sum + item.pValue * (1 - item.pValue), 0);
+  const k = questions.length;
+  const kr20 =
+    k > 1 && scoreVariance > 0 ? (k / (k - 1)) * (1 - itemVariance / scoreVariance) : null;
+
+  return { attempts: count, groupSize, items, kr20, meanScore, scoreVariance };
+}
+
+/** Rough reading of a difficulty index for display. */
+export function describeDifficulty(pValue: number): string {
+  if (pValue >= 0.9) return "Very easy";
+  if (pValue >= 0.7) return "Easy";
+  if (pValue >= 0.3) return "Moderate";
+  if (pValue >= 0.1) return "Hard";
+  return "Very hard";
+}
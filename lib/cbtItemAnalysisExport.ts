@@ -0,0 +1,78 @@
+import { downloadCSVFile, escapeCsvCell } from "@/lib/assessmentSheetExport";
+import {
+  ITEM_FLAG_LABELS,
+  type ItemAnalysisReport,
+} from "@/lib/cbtItemAnalysis";
+
+const formatRatio = (value: number | null) =>
+  value === null ? "" : value.toFixed(2);
+
+const formatPercent = (value: number) => (value * 100).toFixed(1);
+
+export function generateItemAnalysisCSV(report: ItemAnalysisReport): string {
+  const headers = [
+    "Question",
+    "Question Text",
+    "Type",
+    "Difficulty (p)",
+    "Discrimination (D)",
+    "Omitted",
+    "Average Seconds",
+    "Option",
+    "Option Text",
+    "Correct",
+    "Chosen %",
+    "Upper Group",
+    "Lower Group",
+    "Flags",
+  ];
+
+  const rows: string[][] = [];
+  report.items.forEach((item) => {
+    const itemCells = [
+      String(item.number),
+      item.questionText,
+      item.questionType,
+      formatRatio(item.pValue),
+      formatRatio(item.discrimination),
+      String(item.omitted),
+      item.averageSeconds === null ? "" : item.averageSeconds.toFixed(0),
+    ];
+    const flags = item.flags.map((flag) => ITEM_FLAG_LABELS[flag]).join("; ");
+    if (item.distractors.length === 0) {
+      rows.push([...itemCells, "", "", "", "", "", "", flags]);
+      return;
+    }
+    item.distractors.forEach((row) => {
+      rows.push([
+        ...itemCells,
+        row.label,
+        row.text,
+        row.isCorrect ? "Yes" : "No",
+        formatPercent(row.chosen),
+        String(row.upperCount),
+        String(row.lowerCount),
+        flags,
+      ]);
+    });
+  });
+
+  const footer = [
+    [],
+    ["Attempts", String(report.attempts)],
+    ["Upper/lower group size", String(report.groupSize)],
+    ["Mean items correct", report.meanScore.toFixed(2)],
+    ["KR-20", formatRatio(report.kr20)],
+  ];
+
+  return [headers, ...rows, ...footer]
+    .map((row) => row.map(escapeCsvCell).join(","))
+    .join("\n");
+}
+
+export function exportItemAnalysis(report: ItemAnalysisReport, filename?: string): void {
+  if (!report.attempts) {
+    throw new Error("No graded attempts to analyse.");
+  }
+  downloadCSVFile(generateItemAnalysisCSV(report), filename ?? "item-analysis.csv");
+}
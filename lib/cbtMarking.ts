@@ -0,0 +1,249 @@
+import { apiFetch } from "@/lib/apiClient";
+
+export interface MarkingQuestion {
+  id: string;
+  question_text: string;
+  marks: number;
+  order: number;
+  short_answer_answers: string[];
+  short_answer_keywords?: string[];
+  short_answer_match?: "exact" | "contains" | "keywords";
+}
+
+/** One student's short answer and how it is currently marked. */
+export interface ShortAnswerResponse {
+  answer_id: string;
+  attempt_id: string;
+  question_id: string;
+  student_id: string;
+  student_name?: string | null;
+  answer_text: string | null;
+  marks_obtained: number | null;
+  is_correct: boolean | null;
+  /** False once a marker has confirmed or changed the automatic mark. */
+  auto_marked: boolean;
+  marking_note?: string | null;
+  marked_by_name?: string | null;
+  marked_at?: string | null;
+}
+
+/** A CBT-to-assessment-component link fed by this quiz. */
+export interface MarkingAssessmentLink {
+  id: string;
+  assessment_component_id: string;
+  component_name?: string | null;
+  auto_sync: boolean;
+  is_active: boolean;
+}
+
+export interface MarkingQueue {
+  questions: MarkingQuestion[];
+  responses: ShortAnswerResponse[];
+  links: MarkingAssessmentLink[];
+}
+
+export async function fetchMarkingQueue(quizId: string): Promise<MarkingQueue> {
+  const response = await apiFetch<{ data?: Partial<MarkingQueue> }>(
+    `/api/v1/cbt/quizzes/${quizId}/marking-queue`,
+  );
+  const data = response.data ?? {};
+  return {
+    questions: (Array.isArray(data.questions) ? data.questions : [])
+      .map((question) => ({
+        ...question,
+        id: String(question.id),
+        short_answer_answers: Array.isArray(question.short_answer_answers)
+          ? question.short_answer_answers
+          : [],
+      }))
+      .sort((a, b) => a.order - b.order),
+    responses: (Array.isArray(data.responses) ? data.responses : []).map((item) => ({
+      ...item,
+      answer_id: String(item.answer_id),
+      attempt_id: String(item.attempt_id),
+      question_id: String(item.question_id),
+    })),
+    links: Array.isArray(data.links) ? data.links : [],
+  };
+}
+
+export interface MarkingOutcome {
+  /** Answers whose mark changed. */
+  updated: number;
+  /** Attempts whose totals, percentage and grade were recomputed. */
+  recomputed_attempts: number;
+}
+
+/**
+ * Awards the same mark to a set of answers, typically one group from the
+ * queue. The backend recomputes each affected attempt's total.
+ */
+export async function markShortAnswers(
+  quizId: string,
+  payload: { answer_ids: string[]; marks_obtained: number; note: string | null },
+): Promise<MarkingOutcome> {
+  const response = await apiFetch<{ data?: Partial<MarkingOutcome> }>(
+    `/api/v1/cbt/quizzes/${quizId}/marking`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+  );
+  return {
+    updated: response.data?.updated ?? payload.answer_ids.length,
+    recomputed_attempts: response.data?.recomputed_attempts ?? 0,
+  };
+}
+
+/**
+ * Adds an answer to the question's accepted answers and regrades every
+ * attempt that gave it, including attempts already submitted.
+ */
+export async function acceptAlternativeAnswer(
+  quizId: string,
+  questionId: string,
+  answerText: string,
+): Promise<MarkingOutcome> {
+  const response = await apiFetch<{ data?: Partial<MarkingOutcome> }>(
+    `/api/v1/cbt/quizzes/${quizId}/questions/${questionId}/accepted-answers`,
+    {
+      method: "POST",
+      body: JSON.stringify({ answer_text: answerText, regrade: true }),
+    },
+  );
+  return {
+    updated: response.data?.updated ?? 0,
+    recomputed_attempts: response.data?.recomputed_attempts ?? 0,
+  };
+}
+
+/**
+ * Pulls the quiz's current scores into each linked assessment component,
+ * so marks changed here reach the gradebook. Links without auto sync still
+ * need the imported scores approved on the component's CBT link page.
+ */
+export async function reimportLinkedScores(
+  links: MarkingAssessmentLink[],
+): Promise<{ imported: number; failed: string[] }> {
+  let imported = 0;
+  const failed: string[] = [];
+  for (const link of links.filter((entry) => entry.is_active)) {
+    try {
+      await apiFetch(`/api/v1/settings/cbt-assessment-links/${link.id}/import`, {
+        method: "POST",
+      });
+      imported += 1;
+    } catch {
+      failed.push(link.component_name || link.assessment_component_id);
+    }
+  }
+  return { imported, failed };
+}
+
+export const normalizeShortAnswer = (text: string | null | undefined) =>
+  (text ?? "")
+    .toLowerCase()
+    .replace(/[.,;:!?'"`()[\]{}\-_/\\]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** 0–1 similarity of two normalised answers; 1 means identical. */
+export function answerSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest ? 1 - editDistance(a, b) / longest : 1;
+}
+
+export interface ShortAnswerGroup {
+  /** Normalised text of the most common spelling. */
+  key: string;
+  /** Distinct spellings as students typed them, most common first. */
+  variants: string[];
+  responses: ShortAnswerResponse[];
+  /** The mark every response shares, or null when they differ. */
+  commonMarks: number | null;
+  /** Responses no marker has looked at yet. */
+  unreviewed: number;
+  /** Whether the group already matches an accepted answer. */
+  accepted: boolean;
+}
+
+// Close enough to be the same answer misspelt ("photosynthesis" vs
+// "photosynthesys") without merging short, genuinely different words.
+const SIMILARITY_THRESHOLD = 0.8;
+const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * Groups one question's answers: identical answers (ignoring case,
+ * punctuation and spacing) always share a group, and smaller groups join a
+ * larger one whose text is similar enough. Blank answers form their own
+ * group. Largest groups come first.
+ */
+export function groupShortAnswers(
+  responses: ShortAnswerResponse[],
+  acceptedAnswers: string[] = [],
+): ShortAnswerGroup[] {
+  const exact = new Map<string, ShortAnswerResponse[]>();
+  responses.forEach((response) => {
+    const key = normalizeShortAnswer(response.answer_text);
+    exact.set(key, [...(exact.get(key) ?? []), response]);
+  });
+
+  const clusters: Array<{ key: string; members: ShortAnswerResponse[] }> = [];
+  [...exact.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .forEach(([key, members]) => {
+      const target =
+        key.length >= MIN_FUZZY_LENGTH
+          ? clusters.find(
+              (cluster) =>
+                cluster.key.length >= MIN_FUZZY_LENGTH &&
+                answerSimilarity(cluster.key, key) >= SIMILARITY_THRESHOLD,
+            )
+          : undefined;
+      if (target) {
+        target.members.push(...members);
+      } else {
+        clusters.push({ key, members: [...members] });
+      }
+    });
+
+  const accepted = new Set(acceptedAnswers.map(normalizeShortAnswer));
+
+  return clusters
+    .map(({ key, members }) => {
+      const spellings = new Map<string, number>();
+      members.forEach((member) => {
+        const text = (member.answer_text ?? "").trim();
+        spellings.set(text, (spellings.get(text) ?? 0) + 1);
+      });
+      const marks = new Set(members.map((member) => member.marks_obtained ?? 0));
+      return {
+        key,
+        variants: [...spellings.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .map(([text]) => text),
+        responses: members,
+        commonMarks: marks.size === 1 ? [...marks][0] : null,
+        unreviewed: members.filter((member) => member.auto_marked).length,
+        accepted: accepted.has(key),
+      };
+    })
+    .sort((a, b) => b.responses.length - a.responses.length);
+}
@@ -0,0 +1,555 @@
+import { ApiError, apiFetch } from "@/lib/apiClient";
+import {
+  buildQuizAnswerPayload,
+  getQuizDetails,
+  listQuizQuestions,
+  saveQuizAnswer,
+  startQuizAttempt,
+  submitQuizAttempt,
+  type QuizAnswer,
+  type QuizDetails,
+  type QuizQuestion,
+} from "@/lib/cbtAttempts";
+import type { IntegrityViolation } from "@/lib/cbtIntegrity";
+import {
+  STORES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbGetAllByIndex,
+  idbPut,
+  isIndexedDbAvailable,
+} from "@/lib/indexedDb";
+import { fetchStudentProfile, type StudentProfile } from "@/lib/studentAuth";
+
+/** Attempts that have never reached the server carry this id prefix. */
+export const LOCAL_ATTEMPT_PREFIX = "local-";
+
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+const OFFLINE_PIN_ITERATIONS = 150_000;
+
+/** Offline PINs are 4 to 8 digits, chosen when the quiz is saved. */
+export const OFFLINE_PIN_PATTERN = /^\d{4,8}$/;
+
+/**
+ * Everything needed to sit a quiz with no connection: the paper itself,
+ * the student it was prepared for and the question/option images as blobs.
+ * Each student on a shared computer gets their own package.
+ */
+export interface OfflineQuizPackage {
+  /** `quizId:studentId`, see {@link offlinePackageKey}. */
+  key: string;
+  /**
+   * PBKDF2 hash of the student's offline PIN, hex encoded. Without one the
+   * package only opens for the student's own session, never signed out.
+   */
+  pinHash: string | null;
+  pinSalt: string | null;
+  quizId: string;
+  student: StudentProfile;
+  quiz: QuizDetails;
+  questions: QuizQuestion[];
+  images: Record<string, Blob>;
+  failedImages: string[];
+  cachedAt: string;
+}
+
+export type QueuedSubmissionStatus =
+  | "pending"
+  | "syncing"
+  | "submitted"
+  | "failed"
+  /** Finished by a student who is not the one signed in on this device now. */
+  | "waiting_for_student";
+
+/**
+ * A finished attempt waiting to be replayed against the CBT endpoints:
+ * create the attempt if it was started offline, post each answer, submit.
+ */
+export interface QueuedSubmission {
+  id: string;
+  quizId: string;
+  quizTitle: string;
+  studentId: string;
+  studentName: string;
+  admissionNo: string;
+  attemptId: string | null;
+  answers: Array<QuizAnswer & { questionType?: QuizQuestion["question_type"] }>;
+  syncedQuestionIds: string[];
+  /** Integrity events the server has not yet received. */
+  violations?: IntegrityViolation[];
+  /** Set when the attempt ended because the violation limit was reached. */
+  autoSubmitReason?: string | null;
+  startedAt: string;
+  finishedAt: string;
+  status: QueuedSubmissionStatus;
+  retryCount: number;
+  nextRetryAt: number;
+  lastError: string | null;
+  resultId: string | null;
+  submittedAt: string | null;
+}
+
+export function isLocalAttemptId(attemptId: string | null | undefined): boolean {
+  return Boolean(attemptId && attemptId.startsWith(LOCAL_ATTEMPT_PREFIX));
+}
+
+export function createLocalAttemptId(): string {
+  const random =
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return `${LOCAL_ATTEMPT_PREFIX}${random}`;
+}
+
+export const offlinePackageKey = (quizId: string, studentId: string) =>
+  `${quizId}:${studentId}`;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map((pair) => Number.parseInt(pair, 16)));
+
+async function hashOfflinePin(pin: string, salt: Uint8Array<ArrayBuffer>): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: OFFLINE_PIN_ITERATIONS },
+    key,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+function collectImageUrls(questions: QuizQuestion[]): string[] {
+  const urls = new Set<string>();
+  questions.forEach((question) => {
+    if (question.image_url) urls.add(question.image_url);
+    question.options.forEach((option) => {
+      if (option.image_url) urls.add(option.image_url);
+    });
+  });
+  return Array.from(urls);
+}
+
+/**
+ * Saves the paper for `student`. With `pin`, the student can also open it
+ * on this computer while signed out and offline; saving again without a
+ * PIN keeps the one already set.
+ */
+export async function prepareQuizForOffline(
+  quizId: string,
+  student: StudentProfile,
+  options: { pin?: string } = {},
+): Promise<OfflineQuizPackage> {
+  if (!isIndexedDbAvailable()) {
+    throw new Error("This browser cannot store quizzes for offline use.");
+  }
+  if (options.pin !== undefined && !OFFLINE_PIN_PATTERN.test(options.pin)) {
+    throw new Error("Choose an offline PIN of 4 to 8 digits.");
+  }
+
+  const key = offlinePackageKey(quizId, String(student.id));
+  let pinHash: string | null = null;
+  let pinSalt: string | null = null;
+  if (options.pin !== undefined) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    pinHash = await hashOfflinePin(options.pin, salt);
+    pinSalt = toHex(salt);
+  } else {
+    const existing = await idbGet<OfflineQuizPackage>(STORES.cbtOfflineQuizzes, key);
+    pinHash = existing?.pinHash ?? null;
+    pinSalt = existing?.pinSalt ?? null;
+  }
+
+  const [quiz, questions] = await Promise.all([
+    getQuizDetails(quizId),
+    listQuizQuestions(quizId),
+  ]);
+
+  const images: Record<string, Blob> = {};
+  const failedImages: string[] = [];
+  for (const url of collectImageUrls(questions)) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Image request failed (${response.status})`);
+      }
+      images[url] = await response.blob();
+    } catch (error) {
+      console.warn("Unable to cache quiz image", url, error);
+      failedImages.push(url);
+    }
+  }
+
+  const offlinePackage: OfflineQuizPackage = {
+    key,
+    pinHash,
+    pinSalt,
+    quizId,
+    student,
+    quiz,
+    questions,
+    images,
+    failedImages,
+    cachedAt: new Date().toISOString(),
+  };
+  await idbPut(STORES.cbtOfflineQuizzes, offlinePackage);
+  return offlinePackage;
+}
+
+/** The package prepared for this student, never one prepared for someone else. */
+export async function loadOfflineQuiz(
+  quizId: string,
+  studentId: string,
+): Promise<OfflineQuizPackage | null> {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+  const offlinePackage = await idbGet<OfflineQuizPackage>(
+    STORES.cbtOfflineQuizzes,
+    offlinePackageKey(quizId, studentId),
+  );
+  return offlinePackage && String(offlinePackage.student.id) === String(studentId)
+    ? offlinePackage
+    : null;
+}
+
+export async function listOfflineQuizzesForQuiz(
+  quizId: string,
+): Promise<OfflineQuizPackage[]> {
+  if (!isIndexedDbAvailable()) {
+    return [];
+  }
+  return idbGetAllByIndex<OfflineQuizPackage>(STORES.cbtOfflineQuizzes, "quiz", quizId);
+}
+
+/**
+ * With no connection there is no session to tell who is at the keyboard,
+ * so the student gives their admission number and the offline PIN they
+ * chose when saving the quiz. Packages saved without a PIN never open here.
+ */
+export async function unlockOfflineQuiz(
+  quizId: string,
+  admissionNo: string,
+  pin: string,
+): Promise<OfflineQuizPackage | null> {
+  const wanted = admissionNo.trim().toLowerCase();
+  if (!wanted || !OFFLINE_PIN_PATTERN.test(pin)) {
+    return null;
+  }
+  const packages = await listOfflineQuizzesForQuiz(quizId);
+  const candidate = packages.find(
+    (item) => (item.student.admission_no ?? "").trim().toLowerCase() === wanted,
+  );
+  if (!candidate?.pinHash || !candidate.pinSalt) {
+    return null;
+  }
+  const hash = await hashOfflinePin(pin, fromHex(candidate.pinSalt));
+  return hash === candidate.pinHash ? candidate : null;
+}
+
+export async function listOfflineQuizzes(): Promise<OfflineQuizPackage[]> {
+  if (!isIndexedDbAvailable()) {
+    return [];
+  }
+  return idbGetAll<OfflineQuizPackage>(STORES.cbtOfflineQuizzes);
+}
+
+export async function removeOfflineQuiz(key: string): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    return;
+  }
+  await idbDelete(STORES.cbtOfflineQuizzes, key);
+}
+
+export async function enqueueSubmission(
+  submission: Omit<
+    QueuedSubmission,
+    | "status"
+    | "retryCount"
+    | "nextRetryAt"
+    | "lastError"
+    | "resultId"
+    | "submittedAt"
+  >,
+): Promise<QueuedSubmission> {
+  const queued: QueuedSubmission = {
+    ...submission,
+    status: "pending",
+    retryCount: 0,
+    nextRetryAt: 0,
+    lastError: null,
+    resultId: null,
+    submittedAt: null,
+  };
+  await idbPut(STORES.cbtSubmissionQueue, queued);
+  return queued;
+}
+
+export async function getQueuedSubmission(
+  id: string,
+): Promise<QueuedSubmission | null> {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+  return idbGet<QueuedSubmission>(STORES.cbtSubmissionQueue, id);
+}
+
+export async function listQueuedSubmissions(): Promise<QueuedSubmission[]> {
+  if (!isIndexedDbAvailable()) {
+    return [];
+  }
+  const items = await idbGetAll<QueuedSubmission>(STORES.cbtSubmissionQueue);
+  return items.sort((a, b) => b.finishedAt.localeCompare(a.finishedAt));
+}
+
+export async function removeQueuedSubmission(id: string): Promise<void> {
+  await idbDelete(STORES.cbtSubmissionQueue, id);
+}
+
+function retryDelay(retryCount: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** retryCount, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Client errors other than timeouts and rate limits will not fix themselves
+ * on retry, so those submissions are parked for an invigilator to look at.
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof ApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 401 &&
+    error.status !== 408 &&
+    error.status !== 429
+  );
+}
+
+/** Schedules the next attempt, or parks the submission for good. */
+function withReplayFailure(
+  submission: QueuedSubmission,
+  error: unknown,
+): QueuedSubmission {
+  const retryCount = submission.retryCount + 1;
+  return {
+    ...submission,
+    status: isPermanentFailure(error) ? "failed" : "pending",
+    retryCount,
+    nextRetryAt: Date.now() + retryDelay(retryCount),
+    lastError: error instanceof Error ? error.message : "Unable to sync submission.",
+  };
+}
+
+/**
+ * The invigilator's route: the whole attempt goes up in one request under
+ * the staff session, for the student named in it. Used when the student
+ * who sat the quiz is no longer signed in on this computer.
+ */
+async function replaySubmissionAsInvigilator(
+  submission: QueuedSubmission,
+): Promise<QueuedSubmission> {
+  let current: QueuedSubmission = { ...submission, status: "syncing" };
+  await idbPut(STORES.cbtSubmissionQueue, current);
+
+  try {
+    const attemptId =
+      current.attemptId && !isLocalAttemptId(current.attemptId) ? current.attemptId : null;
+    const response = await apiFetch<{ data?: { result_id?: string | null } }>(
+      `/api/v1/cbt/quizzes/${encodeURIComponent(current.quizId)}/offline-submissions`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          student_id: current.studentId,
+          attempt_id: attemptId,
+          answers: current.answers.map((answer) => {
+            const payload = buildQuizAnswerPayload(attemptId ?? "", answer, answer.questionType);
+            delete payload.attempt_id;
+            return payload;
+          }),
+          client_started_at: current.startedAt,
+          client_submitted_at: current.finishedAt,
+          violations: current.violations ?? [],
+          auto_submit_reason: current.autoSubmitReason ?? null,
+        }),
+      },
+    );
+    current = {
+      ...current,
+      status: "submitted",
+      resultId: response.data?.result_id ?? null,
+      submittedAt: new Date().toISOString(),
+      lastError: null,
+    };
+  } catch (error) {
+    current = withReplayFailure(current, error);
+  }
+
+  await idbPut(STORES.cbtSubmissionQueue, current);
+  return current;
+}
+
+async function replaySubmission(
+  submission: QueuedSubmission,
+): Promise<QueuedSubmission> {
+  let current: QueuedSubmission = { ...submission, status: "syncing" };
+  await idbPut(STORES.cbtSubmissionQueue, current);
+
+  try {
+    if (!current.attemptId) {
+      const attempt = await startQuizAttempt(current.quizId);
+      current = { ...current, attemptId: attempt.id };
+      await idbPut(STORES.cbtSubmissionQueue, current);
+    }
+    const attemptId = current.attemptId as string;
+
+    for (const answer of current.answers) {
+      if (current.syncedQuestionIds.includes(answer.questionId)) {
+        continue;
+      }
+      await saveQuizAnswer(
+        buildQuizAnswerPayload(attemptId, answer, answer.questionType),
+      );
+      current = {
+        ...current,
+        syncedQuestionIds: [...current.syncedQuestionIds, answer.questionId],
+      };
+      await idbPut(STORES.cbtSubmissionQueue, current);
+    }
+
+    const result = await submitQuizAttempt(attemptId, {
+      offline: true,
+      // Lets the backend refuse an attempt replayed under someone else's session.
+      student_id: current.studentId,
+      client_started_at: current.startedAt,
+      client_submitted_at: current.finishedAt,
+      violations: current.violations ?? [],
+      auto_submit_reason: current.autoSubmitReason ?? null,
+    });
+    current = {
+      ...current,
+      status: "submitted",
+      resultId: result.result_id ?? null,
+      submittedAt: new Date().toISOString(),
+      lastError: null,
+    };
+  } catch (error) {
+    current = withReplayFailure(current, error);
+  }
+
+  await idbPut(STORES.cbtSubmissionQueue, current);
+  return current;
+}
+
+let syncInFlight: Promise<QueuedSubmission[]> | null = null;
+
+/**
+ * Who is signed in as a student here: null when nobody is, an error when
+ * the lookup itself failed and the answer is unknown.
+ */
+async function signedInStudentId(): Promise<string | null> {
+  try {
+    const profile = await fetchStudentProfile();
+    return profile ? String(profile.id) : null;
+  } catch (error) {
+    if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replays every queued submission whose backoff has elapsed. Pass
+ * `force` to ignore the backoff and retry failed ones. By default replays
+ * run under the signed-in student's session, so only that student's own
+ * submissions are sent and the rest wait for their owner to sign in here;
+ * `asInvigilator` sends every one through the staff session instead (the
+ * invigilator's "Sync now").
+ */
+export function syncQueuedSubmissions(
+  options: { force?: boolean; asInvigilator?: boolean } = {},
+): Promise<QueuedSubmission[]> {
+  if (syncInFlight) {
+    // A student-scoped run may skip what the invigilator wants sent.
+    return options.asInvigilator
+      ? syncInFlight.then(() => syncQueuedSubmissions(options))
+      : syncInFlight;
+  }
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return listQueuedSubmissions();
+  }
+
+  syncInFlight = (async () => {
+    const queue = await listQueuedSubmissions();
+    const now = Date.now();
+    const dueSubmissions = queue.filter((submission) => {
+      const due =
+        submission.status === "pending" ||
+        submission.status === "syncing" ||
+        submission.status === "waiting_for_student" ||
+        (options.force && submission.status === "failed");
+      return due && (options.force || submission.nextRetryAt <= now);
+    });
+    if (dueSubmissions.length === 0) {
+      return queue;
+    }
+
+    let studentId: string | null = null;
+    if (!options.asInvigilator) {
+      try {
+        studentId = await signedInStudentId();
+      } catch (error) {
+        // Unknown rather than nobody: leave the queue as it is for the next run.
+        console.warn("Unable to check the signed-in student; will retry:", error);
+        return queue;
+      }
+    }
+
+    for (const submission of dueSubmissions) {
+      if (options.asInvigilator) {
+        const updated = await replaySubmissionAsInvigilator(submission);
+        if (
+          updated.status === "pending" &&
+          typeof navigator !== "undefined" &&
+          navigator.onLine === false
+        ) {
+          break;
+        }
+        continue;
+      }
+      if (studentId !== submission.studentId) {
+        if (submission.status !== "waiting_for_student") {
+          await idbPut(STORES.cbtSubmissionQueue, {
+            ...submission,
+            status: "waiting_for_student",
+            lastError: `Waiting for ${submission.studentName || "the student"} to sign in on this device.`,
+          });
+        }
+        continue;
+      }
+      const updated = await replaySubmission(submission);
+      if (
+        updated.status === "pending" &&
+        typeof navigator !== "undefined" &&
+        navigator.onLine === false
+      ) {
+        // Connection dropped mid-sync; the rest would fail the same way.
+        break;
+      }
+    }
+    return listQueuedSubmissions();
+  })().finally(() => {
+    syncInFlight = null;
+  });
+
+  return syncInFlight;
+}
@@ -0,0 +1,400 @@
+import { ApiError, apiFetch } from "@/lib/apiClient";
+import type { QuizQuestionType } from "@/lib/cbtAttempts";
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+export const QUESTION_DIFFICULTIES: Array<{ value: QuestionDifficulty; label: string }> = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+export type BloomLevel =
+  | "remember"
+  | "understand"
+  | "apply"
+  | "analyze"
+  | "evaluate"
+  | "create";
+
+export const BLOOM_LEVELS: Array<{ value: BloomLevel; label: string }> = [
+  { value: "remember", label: "Remember" },
+  { value: "understand", label: "Understand" },
+  { value: "apply", label: "Apply" },
+  { value: "analyze", label: "Analyze" },
+  { value: "evaluate", label: "Evaluate" },
+  { value: "create", label: "Create" },
+];
+
+export type ShortAnswerMatch = "exact" | "contains" | "keywords";
+
+export interface BankQuestionOption {
+  id?: string;
+  option_text: string;
+  order: number;
+  is_correct: boolean;
+  image_url?: string | null;
+}
+
+export interface BankQuestionUsage {
+  /** Quizzes the question has appeared in, including drawn papers. */
+  times_used: number;
+  /** Graded answers the correctness figure is based on. */
+  answers: number;
+  /** Share of answers that were correct, 0–100; null before any answers. */
+  average_correctness: number | null;
+  last_used_at?: string | null;
+}
+
+/** The editable parts of a bank question, as sent on create and update. */
+export interface BankQuestionPayload {
+  subject_id: string;
+  question_text: string;
+  question_type: QuizQuestionType;
+  marks: number;
+  image_url?: string | null;
+  explanation?: string | null;
+  options: BankQuestionOption[];
+  short_answer_answers?: string[];
+  short_answer_keywords?: string[];
+  short_answer_match?: ShortAnswerMatch;
+  class_ids: string[];
+  topic: string | null;
+  difficulty: QuestionDifficulty;
+  bloom_level: BloomLevel | null;
+}
+
+/**
+ * A question owned by a subject rather than a single quiz. Quizzes take
+ * copies of bank questions, so editing the bank never changes a paper
+ * students have already sat.
+ */
+export interface BankQuestion extends BankQuestionPayload {
+  id: string;
+  subject_name?: string | null;
+  usage?: BankQuestionUsage;
+  created_at?: string | null;
+  [key: string]: unknown;
+}
+
+export interface BankQuestionFilters {
+  subject_id?: string | null;
+  class_id?: string | null;
+  topic?: string | null;
+  difficulty?: QuestionDifficulty | null;
+  bloom_level?: BloomLevel | null;
+  question_type?: QuizQuestionType | null;
+  search?: string | null;
+  page?: number;
+  per_page?: number;
+}
+
+export interface BankQuestionPage {
+  data: BankQuestion[];
+  current_page: number;
+  last_page: number;
+  total: number;
+}
+
+const BANK_ROUTE = "/api/v1/cbt/question-bank";
+
+const buildQuery = (params: Record<string, string | number | null | undefined>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      search.append(key, String(value));
+    }
+  });
+  const queryString = search.toString();
+  return queryString ? `?${queryString}` : "";
+};
+
+const normalizeBankQuestion = (question: BankQuestion): BankQuestion => ({
+  ...question,
+  class_ids: Array.isArray(question.class_ids) ? question.class_ids.map(String) : [],
+  options: Array.isArray(question.options) ? question.options : [],
+  topic: question.topic ?? null,
+  bloom_level: question.bloom_level ?? null,
+});
+
+export async function listBankQuestions(
+  filters: BankQuestionFilters = {},
+): Promise<BankQuestionPage> {
+  const payload = await apiFetch<Partial<BankQuestionPage> | BankQuestion[]>(
+    `${BANK_ROUTE}${buildQuery({ ...filters })}`,
+  );
+  if (Array.isArray(payload)) {
+    return {
+      data: payload.map(normalizeBankQuestion),
+      current_page: 1,
+      last_page: 1,
+      total: payload.length,
+    };
+  }
+  const data = Array.isArray(payload.data) ? payload.data : [];
+  return {
+    data: data.map(normalizeBankQuestion),
+    current_page: payload.current_page ?? 1,
+    last_page: payload.last_page ?? 1,
+    total: payload.total ?? data.length,
+  };
+}
+
+/** Every bank question matching the filters, across all pages. */
+export async function listAllBankQuestions(
+  filters: Omit<BankQuestionFilters, "page" | "per_page"> = {},
+): Promise<BankQuestion[]> {
+  const questions: BankQuestion[] = [];
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await listBankQuestions({ ...filters, page, per_page: 500 });
+    questions.push(...response.data);
+    lastPage = response.last_page || page;
+    page += 1;
+  } while (page <= lastPage);
+  return questions;
+}
+
+export async function listBankTopics(subjectId: string): Promise<string[]> {
+  const payload = await apiFetch<string[] | { data?: string[] }>(
+    `${BANK_ROUTE}/topics${buildQuery({ subject_id: subjectId })}`,
+  );
+  const topics = Array.isArray(payload) ? payload : payload.data ?? [];
+  return topics.filter((topic) => typeof topic === "string" && topic.trim());
+}
+
+export async function createBankQuestion(
+  payload: BankQuestionPayload,
+): Promise<BankQuestion> {
+  const response = await apiFetch<{ data: BankQuestion }>(BANK_ROUTE, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+  return normalizeBankQuestion(response.data);
+}
+
+export async function updateBankQuestion(
+  questionId: string,
+  payload: BankQuestionPayload,
+): Promise<BankQuestion> {
+  const response = await apiFetch<{ data: BankQuestion }>(`${BANK_ROUTE}/${questionId}`, {
+    method: "PUT",
+    body: JSON.stringify(payload),
+  });
+  return normalizeBankQuestion(response.data);
+}
+
+export async function deleteBankQuestion(questionId: string): Promise<void> {
+  await apiFetch(`${BANK_ROUTE}/${questionId}`, { method: "DELETE" });
+}
+
+export interface BankTags {
+  class_ids: string[];
+  topic: string | null;
+  difficulty: QuestionDifficulty;
+  bloom_level: BloomLevel | null;
+}
+
+/** Copies an existing quiz question into its quiz's subject bank. */
+export async function saveQuizQuestionToBank(
+  quizId: string,
+  questionId: string,
+  tags: BankTags,
+): Promise<BankQuestion> {
+  const response = await apiFetch<{ data: BankQuestion }>(
+    `/api/v1/cbt/quizzes/${quizId}/questions/${questionId}/save-to-bank`,
+    {
+      method: "POST",
+      body: JSON.stringify(tags),
+    },
+  );
+  return normalizeBankQuestion(response.data);
+}
+
+/** Copies bank questions onto the end of a quiz. */
+export async function addBankQuestionsToQuiz(
+  quizId: string,
+  questionIds: string[],
+): Promise<{ added: number }> {
+  const response = await apiFetch<{ added?: number; data?: unknown[] }>(
+    `/api/v1/cbt/quizzes/${quizId}/questions/from-bank`,
+    {
+      method: "POST",
+      body: JSON.stringify({ question_ids: questionIds }),
+    },
+  );
+  return {
+    added: response.added ?? (Array.isArray(response.data) ? response.data.length : questionIds.length),
+  };
+}
+
+/** One line of a blueprint, e.g. "10 easy questions from Fractions or Decimals". */
+export interface BlueprintRule {
+  count: number;
+  difficulty: QuestionDifficulty | null;
+  /** Any of these topics; empty means any topic. */
+  topics: string[];
+  bloom_level: BloomLevel | null;
+}
+
+/**
+ * How a quiz is assembled from the bank. With `per_student` set the
+ * backend draws a fresh paper for every attempt from the same rules, so
+ * students sit different but equivalent papers.
+ */
+export interface QuizBlueprint {
+  subject_id: string;
+  class_id: string | null;
+  rules: BlueprintRule[];
+  per_student: boolean;
+  updated_at?: string | null;
+}
+
+export const emptyBlueprintRule = (): BlueprintRule => ({
+  count: 5,
+  difficulty: null,
+  topics: [],
+  bloom_level: null,
+});
+
+export async function fetchQuizBlueprint(quizId: string): Promise<QuizBlueprint | null> {
+  try {
+    const response = await apiFetch<{ data?: QuizBlueprint | null }>(
+      `/api/v1/cbt/quizzes/${quizId}/blueprint`,
+    );
+    return response.data ?? null;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function saveQuizBlueprint(
+  quizId: string,
+  blueprint: QuizBlueprint,
+): Promise<QuizBlueprint> {
+  const response = await apiFetch<{ data: QuizBlueprint }>(
+    `/api/v1/cbt/quizzes/${quizId}/blueprint`,
+    {
+      method: "PUT",
+      body: JSON.stringify(blueprint),
+    },
+  );
+  return response.data;
+}
+
+export function matchesBlueprintRule(
+  question: BankQuestion,
+  rule: BlueprintRule,
+  classId: string | null,
+): boolean {
+  if (classId && question.class_ids.length && !question.class_ids.includes(classId)) {
+    return false;
+  }
+  if (rule.difficulty && question.difficulty !== rule.difficulty) {
+    return false;
+  }
+  if (rule.bloom_level && question.bloom_level !== rule.bloom_level) {
+    return false;
+  }
+  if (rule.topics.length && !(question.topic && rule.topics.includes(question.topic))) {
+    return false;
+  }
+  return true;
+}
+
+export interface BlueprintRuleCheck {
+  available: number;
+  shortfall: number;
+  /** Distinct mark values in the pool; more than one means papers can total differently. */
+  marks: number[];
+}
+
+export interface BlueprintCheck {
+  rules: BlueprintRuleCheck[];
+  totalQuestions: number;
+  /** Questions the rules can draw from between them. */
+  poolSize: number;
+  ready: boolean;
+}
+
+/**
+ * Whether the bank holds enough questions for every rule. A question that
+ * fits several rules can only be drawn once per paper, so the combined
+ * pool must also cover the total.
+ */
+export function checkBlueprint(
+  blueprint: QuizBlueprint,
+  bank: BankQuestion[],
+): BlueprintCheck {
+  const pool = new Set<string>();
+  const rules = blueprint.rules.map((rule) => {
+    const matches = bank.filter((question) =>
+      matchesBlueprintRule(question, rule, blueprint.class_id),
+    );
+    matches.forEach((question) => pool.add(question.id));
+    return {
+      available: matches.length,
+      shortfall: Math.max(0, rule.count - matches.length),
+      marks: [...new Set(matches.map((question) => question.marks))].sort((a, b) => a - b),
+    };
+  });
+  const totalQuestions = blueprint.rules.reduce((sum, rule) => sum + rule.count, 0);
+  return {
+    rules,
+    totalQuestions,
+    poolSize: pool.size,
+    ready:
+      totalQuestions > 0 &&
+      rules.every((rule) => rule.shortfall === 0) &&
+      pool.size >= totalQuestions,
+  };
+}
+
+// Small seeded generator so a sample paper can be redrawn on demand and
+// reproduced from its seed.
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Draws one paper from the bank: each rule in order takes its count at
+ * random from the questions it matches that earlier rules have not taken.
+ * Rules without enough questions left return what they can.
+ */
+export function assembleFromBlueprint(
+  blueprint: QuizBlueprint,
+  bank: BankQuestion[],
+  seed: number,
+): BankQuestion[] {
+  const random = seededRandom(seed);
+  const taken = new Set<string>();
+  const paper: BankQuestion[] = [];
+
+  blueprint.rules.forEach((rule) => {
+    const candidates = bank.filter(
+      (question) =>
+        !taken.has(question.id) && matchesBlueprintRule(question, rule, blueprint.class_id),
+    );
+    for (let index = candidates.length - 1; index > 0; index -= 1) {
+      const swap = Math.floor(random() * (index + 1));
+      [candidates[index], candidates[swap]] = [candidates[swap], candidates[index]];
+    }
+    candidates.slice(0, rule.count).forEach((question) => {
+      taken.add(question.id);
+      paper.push(question);
+    });
+  });
+
+  return paper;
+}
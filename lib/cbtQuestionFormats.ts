@@ -0,0 +1,641 @@
+import type { QuizQuestionType } from "@/lib/cbtAttempts";
+
+/**
+ * A question read from (or written to) a text format. The shape matches the
+ * entries the questions page already validates for CSV imports.
+ */
+export interface PortableQuestion {
+  question_text: string;
+  question_type: QuizQuestionType;
+  marks: number;
+  options: Array<{ option_text: string; is_correct: boolean }>;
+  short_answer_answers: string[];
+  short_answer_keywords?: string[];
+  short_answer_match?: "exact" | "contains" | "keywords";
+  explanation?: string | null;
+}
+
+export type QuestionTextFormat = "aiken" | "gift";
+
+export const QUESTION_TEXT_FORMATS: Array<{ value: QuestionTextFormat; label: string }> = [
+  { value: "aiken", label: "Aiken" },
+  { value: "gift", label: "Moodle GIFT" },
+];
+
+export type ParsedLineRole = "stem" | "option" | "answer" | "comment" | "blank";
+
+/** One source line as the parser saw it, for the preview. */
+export interface ParsedLine {
+  number: number;
+  text: string;
+  role: ParsedLineRole;
+  /** 1-based position among the parsed questions; unset for lines in a rejected block. */
+  question?: number;
+  error?: string;
+}
+
+export interface ParseResult {
+  format: QuestionTextFormat;
+  lines: ParsedLine[];
+  questions: PortableQuestion[];
+  errorCount: number;
+}
+
+interface Block {
+  lines: ParsedLine[];
+}
+
+// Splits text into blank-line separated blocks, keeping every line for the
+// preview. Lines matching `isComment` never start or extend a block.
+function splitBlocks(text: string, isComment: (line: string) => boolean) {
+  const lines: ParsedLine[] = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line, index) => ({
+      number: index + 1,
+      text: line,
+      role: line.trim() ? (isComment(line) ? "comment" : "stem") : "blank",
+    }));
+
+  const blocks: Block[] = [];
+  let current: ParsedLine[] = [];
+  lines.forEach((line) => {
+    if (line.role === "blank") {
+      if (current.length) {
+        blocks.push({ lines: current });
+        current = [];
+      }
+      return;
+    }
+    if (line.role !== "comment") {
+      current.push(line);
+    }
+  });
+  if (current.length) {
+    blocks.push({ lines: current });
+  }
+  return { lines, blocks };
+}
+
+const isTrueFalsePair = (options: PortableQuestion["options"]) =>
+  options.length === 2 &&
+  options[0].option_text.trim().toLowerCase() === "true" &&
+  options[1].option_text.trim().toLowerCase() === "false";
+
+const finishResult = (
+  format: QuestionTextFormat,
+  lines: ParsedLine[],
+  questions: PortableQuestion[],
+): ParseResult => ({
+  format,
+  lines,
+  questions,
+  errorCount: lines.filter((line) => line.error).length,
+});
+
+const AIKEN_OPTION = /^([A-Z])[.)]\s+(.+)$/;
+const AIKEN_ANSWER = /^ANSWER:\s*([A-Z])\s*$/i;
+
+/**
+ * Aiken: a question stem, lettered options ("A." or "A)") and a closing
+ * "ANSWER: X" line, with a blank line between questions. Aiken only holds
+ * single-answer multiple choice.
+ */
+export function parseAiken(text: string): ParseResult {
+  const { lines, blocks } = splitBlocks(text, () => false);
+  const questions: PortableQuestion[] = [];
+
+  blocks.forEach(({ lines: blockLines }) => {
+    const stem: string[] = [];
+    const options: PortableQuestion["options"] = [];
+    const letters: string[] = [];
+    let answerLetter: string | null = null;
+    let failed = false;
+
+    const fail = (line: ParsedLine, message: string) => {
+      if (!failed) {
+        line.error = message;
+      }
+      failed = true;
+    };
+
+    for (const line of blockLines) {
+      const trimmed = line.text.trim();
+      const answerMatch = trimmed.match(AIKEN_ANSWER);
+      const optionMatch = trimmed.match(AIKEN_OPTION);
+
+      if (answerLetter !== null) {
+        fail(line, "Nothing may follow the ANSWER line; add a blank line before the next question.");
+        continue;
+      }
+      if (answerMatch) {
+        line.role = "answer";
+        answerLetter = answerMatch[1].toUpperCase();
+        if (!letters.includes(answerLetter)) {
+          fail(line, `ANSWER ${answerLetter} does not match any option.`);
+        }
+        continue;
+      }
+      if (optionMatch && stem.length) {
+        line.role = "option";
+        const letter = optionMatch[1];
+        const expected = String.fromCharCode(65 + letters.length);
+        if (letter !== expected) {
+          fail(line, `Expected option ${expected}.`);
+        }
+        letters.push(letter);
+        options.push({ option_text: optionMatch[2].trim(), is_correct: false });
+        continue;
+      }
+      if (options.length) {
+        fail(line, "Unexpected text after the options. Options must start with a letter and a full stop.");
+        continue;
+      }
+      line.role = "stem";
+      stem.push(trimmed);
+    }
+
+    const lastLine = blockLines[blockLines.length - 1];
+    if (!failed && answerLetter === null) {
+      fail(lastLine, "Missing ANSWER line.");
+    }
+    if (!failed && options.length < 2) {
+      fail(blockLines[0], "A question needs at least two options.");
+    }
+    if (failed || answerLetter === null) {
+      return;
+    }
+
+    options[letters.indexOf(answerLetter)].is_correct = true;
+    questions.push({
+      question_text: stem.join("\n"),
+      question_type: isTrueFalsePair(options) ? "true_false" : "mcq",
+      marks: 1,
+      options,
+      short_answer_answers: [],
+    });
+    blockLines.forEach((line) => {
+      line.question = questions.length;
+    });
+  });
+
+  return finishResult("aiken", lines, questions);
+}
+
+const GIFT_ESCAPES = /\\([~=#{}:\\])/g;
+
+const unescapeGift = (value: string) => value.replace(GIFT_ESCAPES, "$1").trim();
+
+const escapeGift = (value: string) => value.replace(/([~=#{}:\\])/g, "\\$1");
+
+// Index of the first `char` not preceded by a backslash, from `start`.
+const findUnescaped = (value: string, char: string, start = 0) => {
+  for (let index = start; index < value.length; index += 1) {
+    if (value[index] === "\\") {
+      index += 1;
+    } else if (value[index] === char) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+interface GiftAnswer {
+  correct: boolean;
+  text: string;
+  weight: number | null;
+}
+
+// Splits "=a ~b ~%50%c #feedback" into answers at each unescaped = or ~.
+function splitGiftAnswers(body: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let current: { marker: string; text: string } | null = null;
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+    if (char === "\\") {
+      if (current) {
+        current.text += body.slice(index, index + 2);
+      }
+      index += 1;
+      continue;
+    }
+    if (char === "=" || char === "~") {
+      if (current) {
+        answers.push(toGiftAnswer(current.marker, current.text));
+      }
+      current = { marker: char, text: "" };
+      continue;
+    }
+    if (current) {
+      current.text += char;
+    }
+  }
+  if (current) {
+    answers.push(toGiftAnswer(current.marker, current.text));
+  }
+  return answers;
+}
+
+function toGiftAnswer(marker: string, raw: string): GiftAnswer {
+  let text = raw;
+  const feedbackAt = findUnescaped(text, "#");
+  if (feedbackAt >= 0) {
+    text = text.slice(0, feedbackAt);
+  }
+  let weight: number | null = null;
+  const weightMatch = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+  if (weightMatch) {
+    weight = Number(weightMatch[1]);
+    text = text.slice(weightMatch[0].length);
+  }
+  return {
+    correct: marker === "=" || (weight !== null && weight > 0),
+    text: unescapeGift(text),
+    weight,
+  };
+}
+
+/**
+ * Moodle GIFT: "::Title:: Stem {=right ~wrong}", one question per blank-line
+ * separated block, "//" comments. Supports multiple choice (with % weights
+ * for several correct answers), true/false and short answer; matching,
+ * numeric and essay questions are reported as unsupported.
+ */
+export function parseGift(text: string): ParseResult {
+  const { lines, blocks } = splitBlocks(
+    text,
+    (line) => line.trim().startsWith("//") || line.trim().startsWith("$CATEGORY:"),
+  );
+  const questions: PortableQuestion[] = [];
+
+  blocks.forEach(({ lines: blockLines }) => {
+    const source = blockLines.map((line) => line.text).join("\n");
+    const fail = (message: string) => {
+      blockLines[0].error = message;
+    };
+
+    let body = source.trim();
+    const titleMatch = body.match(/^::([\s\S]*?)::/);
+    if (titleMatch) {
+      body = body.slice(titleMatch[0].length);
+    }
+    body = body.replace(/^\s*\[(html|moodle|plain|markdown)\]/i, "");
+
+    const open = findUnescaped(body, "{");
+    const close = open >= 0 ? findUnescaped(body, "}", open) : -1;
+    if (open < 0 || close < 0) {
+      fail(open < 0 ? "No answer block in braces { }." : "The answer block is not closed with }.");
+      return;
+    }
+
+    const before = body.slice(0, open).trim();
+    const after = body.slice(close + 1).trim();
+    const stem = unescapeGift(after ? `${before} _____ ${after}` : before);
+    const answerBody = body.slice(open + 1, close).trim();
+
+    blockLines.forEach((line) => {
+      const trimmed = line.text.trim();
+      line.role = trimmed.startsWith("=") || trimmed.startsWith("~") ? "option" : "stem";
+    });
+
+    if (!stem) {
+      fail("The question has no text.");
+      return;
+    }
+    if (!answerBody) {
+      fail("Essay questions are not supported.");
+      return;
+    }
+    if (answerBody.startsWith("#")) {
+      fail("Numeric questions are not supported.");
+      return;
+    }
+
+    const trueFalse = answerBody.split("#")[0].trim().toUpperCase();
+    if (["T", "TRUE", "F", "FALSE"].includes(trueFalse)) {
+      const isTrue = trueFalse.startsWith("T");
+      questions.push({
+        question_text: stem,
+        question_type: "true_false",
+        marks: 1,
+        options: [
+          { option_text: "True", is_correct: isTrue },
+          { option_text: "False", is_correct: !isTrue },
+        ],
+        short_answer_answers: [],
+      });
+    } else {
+      const answers = splitGiftAnswers(answerBody);
+      if (!answers.length) {
+        fail("No answers found; start each answer with = or ~.");
+        return;
+      }
+      if (answers.some((answer) => answer.text.includes("->"))) {
+        fail("Matching questions are not supported.");
+        return;
+      }
+      if (answers.some((answer) => !answer.text)) {
+        fail("An answer is empty.");
+        return;
+      }
+
+      const hasWrong = answers.some((answer) => !answer.correct);
+      const correctCount = answers.filter((answer) => answer.correct).length;
+      if (!hasWrong && answers.every((answer) => answer.weight === null)) {
+        questions.push({
+          question_text: stem,
+          question_type: "short_answer",
+          marks: 1,
+          options: [],
+          short_answer_answers: answers.map((answer) => answer.text),
+          short_answer_match: "exact",
+        });
+      } else if (correctCount === 0) {
+        fail("Mark at least one answer correct with = or a positive %weight%.");
+        return;
+      } else if (answers.length < 2) {
+        fail("A multiple choice question needs at least two answers.");
+        return;
+      } else {
+        questions.push({
+          question_text: stem,
+          question_type: correctCount > 1 ? "multiple_select" : "mcq",
+          marks: 1,
+          options: answers.map((answer) => ({
+            option_text: answer.text,
+            is_correct: answer.correct,
+          })),
+          short_answer_answers: [],
+        });
+      }
+    }
+
+    blockLines.forEach((line) => {
+      line.question = questions.length;
+    });
+  });
+
+  return finishResult("gift", lines, questions);
+}
+
+/** GIFT if the text has answer braces, otherwise Aiken. */
+export function detectQuestionFormat(text: string): QuestionTextFormat {
+  return /\{[^}]*\}/.test(text) ? "gift" : "aiken";
+}
+
+export function parseQuestionText(
+  text: string,
+  format: QuestionTextFormat | "auto" = "auto",
+): ParseResult {
+  const resolved = format === "auto" ? detectQuestionFormat(text) : format;
+  return resolved === "gift" ? parseGift(text) : parseAiken(text);
+}
+
+export interface ExportResult {
+  text: string;
+  /** 1-based numbers of questions the format cannot hold. */
+  skipped: number[];
+}
+
+/** Aiken holds only single-answer questions; others are listed in `skipped`. */
+export function toAiken(questions: PortableQuestion[]): ExportResult {
+  const skipped: number[] = [];
+  const blocks: string[] = [];
+  questions.forEach((question, index) => {
+    const correct = question.options.findIndex((option) => option.is_correct);
+    if (
+      (question.question_type !== "mcq" && question.question_type !== "true_false") ||
+      correct < 0 ||
+      question.options.length > 26
+    ) {
+      skipped.push(index + 1);
+      return;
+    }
+    blocks.push(
+      [
+        question.question_text.replace(/\n+/g, " ").trim(),
+        ...question.options.map(
+          (option, optionIndex) =>
+            `${String.fromCharCode(65 + optionIndex)}. ${option.option_text.replace(/\n+/g, " ").trim()}`,
+        ),
+        `ANSWER: ${String.fromCharCode(65 + correct)}`,
+      ].join("\n"),
+    );
+  });
+  return { text: `${blocks.join("\n\n")}\n`, skipped };
+}
+
+const formatWeight = (value: number) => String(Math.round(value * 100000) / 100000);
+
+export function toGift(questions: PortableQuestion[], title?: string): ExportResult {
+  const blocks: string[] = [];
+  if (title) {
+    blocks.push(`// ${title.replace(/\n+/g, " ")}`);
+  }
+  questions.forEach((question, index) => {
+    const stem = `::Q${index + 1}:: ${escapeGift(question.question_text.trim())}`;
+    let answers: string;
+    if (question.question_type === "true_false") {
+      const trueOption = question.options.find(
+        (option) => option.option_text.trim().toLowerCase() === "true",
+      );
+      answers = trueOption?.is_correct ? "{T}" : "{F}";
+    } else if (question.question_type === "short_answer") {
+      answers = `{${question.short_answer_answers
+        .map((answer) => `=${escapeGift(answer)}`)
+        .join(" ")}}`;
+    } else if (question.question_type === "multiple_select") {
+      const correctCount = question.options.filter((option) => option.is_correct).length || 1;
+      const weight = formatWeight(100 / correctCount);
+      answers = `{\n${question.options
+        .map((option) =>
+          `  ~%${option.is_correct ? weight : "-100"}%${escapeGift(option.option_text)}`,
+        )
+        .join("\n")}\n}`;
+    } else {
+      answers = `{\n${question.options
+        .map((option) => `  ${option.is_correct ? "=" : "~"}${escapeGift(option.option_text)}`)
+        .join("\n")}\n}`;
+    }
+    blocks.push(`${stem} ${answers}`);
+  });
+  return { text: `${blocks.join("\n\n")}\n`, skipped: [] };
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const answerKeyFor = (question: PortableQuestion) => {
+  if (question.question_type === "short_answer") {
+    return [...question.short_answer_answers, ...(question.short_answer_keywords ?? [])].join(" / ") || "—";
+  }
+  return (
+    question.options
+      .map((option, index) => (option.is_correct ? String.fromCharCode(65 + index) : null))
+      .filter(Boolean)
+      .join(", ") || "—"
+  );
+};
+
+export interface PrintablePaperDetails {
+  title: string;
+  subtitle?: string | null;
+  durationMinutes?: number | null;
+}
+
+/**
+ * A self-contained HTML exam paper with a candidate header, and the answer
+ * key on its own page so it can be left out when printing for students.
+ */
+export function buildPrintablePaper(
+  details: PrintablePaperDetails,
+  questions: PortableQuestion[],
+): string {
+  const totalMarks = questions.reduce((sum, question) => sum + question.marks, 0);
+  const items = questions
+    .map((question) => {
+      const body =
+        question.question_type === "short_answer"
+          ? `<div class="lines"></div>`
+          : `<ol class="options">${question.options
+              .map((option) => `<li>${escapeHtml(option.option_text)}</li>`)
+              .join("")}</ol>`;
+      return `<li class="question"><div class="stem">${escapeHtml(question.question_text).replace(/\n/g, "<br />")}<span class="marks">[${question.marks}]</span></div>${body}</li>`;
+    })
+    .join("");
+  const key = questions
+    .map(
+      (question, index) =>
+        `<tr><td>${index + 1}</td><td>${escapeHtml(answerKeyFor(question))}</td><td>${question.marks}</td></tr>`,
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(details.title)}</title>
+  <style>
+    body { font-family: "Times New Roman", serif; color: #000; margin: 2rem; }
+    h1 { font-size: 1.4rem; text-align: center; margin: 0; }
+    .subtitle { text-align: center; margin: 0.25rem 0 1rem; }
+    .candidate { display: flex; justify-content: space-between; border-bottom: 1px solid #000; padding-bottom: 0.5rem; margin-bottom: 1rem; }
+    .question { margin-bottom: 1rem; page-break-inside: avoid; }
+    .marks { float: right; font-size: 0.9rem; }
+    .options { list-style: upper-alpha; margin: 0.4rem 0 0 1rem; }
+    .lines { height: 3.5rem; border-bottom: 1px dotted #000; }
+    .key { page-break-before: always; }
+    table { border-collapse: collapse; width: 100%; }
+    td, th { border: 1px solid #000; padding: 0.25rem 0.5rem; text-align: left; }
+    @media print { .no-print { display: none; } }
+  </style>
+</head>
+<body>
+  <p class="no-print"><button onclick="window.print()">Print</button></p>
+  <h1>${escapeHtml(details.title)}</h1>
+  <p class="subtitle">${[
+    details.subtitle ? escapeHtml(details.subtitle) : "",
+    details.durationMinutes ? `Time: ${details.durationMinutes} minutes` : "",
+    `Total: ${totalMarks} marks`,
+  ]
+    .filter(Boolean)
+    .join(" · ")}</p>
+  <div class="candidate"><span>Name: ______________________________</span><span>Class: __________</span></div>
+  <ol>${items}</ol>
+  <section class="key">
+    <h1>Answer Key</h1>
+    <p class="subtitle">${escapeHtml(details.title)}</p>
+    <table><thead><tr><th>#</th><th>Answer</th><th>Marks</th></tr></thead><tbody>${key}</tbody></table>
+  </section>
+</body>
+</html>`;
+}
+
+// .docx files are zip archives; the text lives in word/document.xml. The
+// archive is read by hand with the browser's deflate support rather than
+// pulling in a zip library.
+async function readZipEntry(buffer: ArrayBuffer, name: string): Promise<string | null> {
+  const view = new DataView(buffer);
+  let endOfDirectory = -1;
+  for (let offset = buffer.byteLength - 22; offset >= 0; offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOfDirectory = offset;
+      break;
+    }
+  }
+  if (endOfDirectory < 0) {
+    throw new Error("This file is not a valid .docx document.");
+  }
+
+  const entryCount = view.getUint16(endOfDirectory + 10, true);
+  let cursor = view.getUint32(endOfDirectory + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let entry = 0; entry < entryCount; entry += 1) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) {
+      break;
+    }
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const entryName = decoder.decode(new Uint8Array(buffer, cursor + 46, nameLength));
+
+    if (entryName === name) {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const data = new Uint8Array(buffer, start, compressedSize);
+      if (method === 0) {
+        return decoder.decode(data);
+      }
+      if (method !== 8) {
+        throw new Error("This .docx uses an unsupported compression method.");
+      }
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Response(stream).text();
+    }
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+const decodeXmlEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+
+/**
+ * The plain text of a Word document, one line per paragraph. Automatic list
+ * numbering is not part of the text, so option letters must be typed.
+ */
+export async function extractDocxText(file: Blob): Promise<string> {
+  const xml = await readZipEntry(await file.arrayBuffer(), "word/document.xml");
+  if (xml === null) {
+    throw new Error("This file is not a valid .docx document.");
+  }
+  const paragraphs = xml.match(/<w:p[\s>][\s\S]*?<\/w:p>|<w:p\/>/g) ?? [];
+  return paragraphs
+    .map((paragraph) =>
+      decodeXmlEntities(
+        (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) ?? [])
+          .map((run) => {
+            if (run === "<w:tab/>") return "\t";
+            if (run === "<w:br/>") return "\n";
+            return run.replace(/<[^>]+>/g, "");
+          })
+          .join(""),
+      ),
+    )
+    .join("\n");
+}
@@ -66,16 +66,26 @@ export function publicWebsiteUrl(schoolSlug: string | null | undefined): string
  * into the equivalent school-public-web page URL, forwarding the same
  * expires/signature query params so public-web's server-side fetch can
  * pass them straight through to Laravel, which validates them.
+ *
+ * `pagePath` (e.g. "news", "news/sports-day", "gallery/graduation") opens
+ * a page other than the homepage; the signature covers the whole website
+ * draft, so the same query params work for every page.
  */
 export function publicWebsitePreviewUrl(
   schoolSlug: string | null | undefined,
   backendSignedUrl: string,
+  pagePath = "",
 ): string | null {
   if (!schoolSlug) {
     return null;
   }
   const query = backendSignedUrl.split("?")[1] ?? "";
-  return `${PUBLIC_SITE_URL}/schools/${encodeURIComponent(schoolSlug)}/preview${query ? `?${query}` : ""}`;
+  const path = pagePath
+    .split("/")
+    .filter(Boolean)
+    .map(encodeURIComponent)
+    .join("/");
+  return `${PUBLIC_SITE_URL}/schools/${encodeURIComponent(schoolSlug)}/preview${path ? `/${path}` : ""}${query ? `?${query}` : ""}`;
 }
 
 const SCHOOL_REGISTRATION_FLAG = (
@@ -108,6 +118,16 @@ export const DEMO_MODE_ENABLED = ["on", "true", "1"].includes(
   DEMO_MODE_FLAG,
 );
 
+const CBT_MONITOR_MOCK_FLAG = (
+  process.env.NEXT_PUBLIC_CBT_MONITOR_MOCK ?? "off"
+)
+  .toString()
+  .trim()
+  .toLowerCase();
+export const CBT_MONITOR_MOCK_ENABLED = ["on", "true", "1"].includes(
+  CBT_MONITOR_MOCK_FLAG,
+);
+
 export function resolveBackendUrl(path: string | null | undefined): string {
   if (!path) {
     return "";
@@ -135,6 +155,14 @@ export function resolveBackendUrl(path: string | null | undefined): string {
   return `${BACKEND_URL}/${normalized}`;
 }
 
+// Browser requests reach the backend through this same-origin route
+// handler, which attaches the bearer token from the httpOnly session cookie.
+export const API_PROXY_PREFIX = "/api/backend";
+
+export function resolveApiProxyUrl(path: string): string {
+  return `${API_PROXY_PREFIX}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
 export const API_ROUTES = {
   login: "/api/v1/login",
   logout: "/api/v1/logout",
@@ -157,7 +185,9 @@ export const API_ROUTES = {
   classTeachers: "/api/v1/settings/class-teachers",
   promotionsBulk: "/api/v1/promotions/bulk",
   promotionsHistory: "/api/v1/promotions/history",
+  promotionRules: "/api/v1/promotions/rules",
   sessionsRollover: "/api/v1/sessions/rollover",
+  sessionsRolloverPreview: "/api/v1/sessions/rollover/preview",
   studentsBulkTemplate: "/api/v1/students/bulk/template",
   studentsBulkPreview: "/api/v1/students/bulk/preview",
   studentsBulkCommit: "/api/v1/students/bulk",
@@ -166,9 +196,16 @@ export const API_ROUTES = {
   feeStructuresBySessionTerm: "/api/v1/fees/structures/by-session-term",
   feeStructuresCopy: "/api/v1/fees/structures/copy",
   bankDetails: "/api/v1/fees/bank-details",
+  feeInvoices: "/api/v1/fees/invoices",
+  feeInvoicesGenerate: "/api/v1/fees/invoices/generate",
+  feePayments: "/api/v1/fees/payments",
+  feeDiscounts: "/api/v1/fees/discounts",
+  studentFeeStatement: "/api/v1/student/fees/statement",
   studentAttendance: "/api/v1/attendance/students",
   staffAttendance: "/api/v1/attendance/staff",
   gradeScales: "/api/v1/grades/scales",
+  academicCalendarEvents: "/api/v1/academic-calendar/events",
+  studentCalendarEvents: "/api/v1/student/calendar/events",
   skillCategories: "/api/v1/settings/skill-categories",
   skillTypes: "/api/v1/settings/skill-types",
   skillTypesBulk: "/api/v1/settings/skill-types/bulk",
@@ -180,7 +217,11 @@ export const API_ROUTES = {
   resultsSessionPrint: "/api/v1/results/session/print",
   resultPinCardsPrint: "/api/v1/result-pins/cards/print",
   resultBatch: "/api/v1/results/batch",
+  resultPublications: "/api/v1/result-publications",
+  resultPublicationMatrix: "/api/v1/result-publications/matrix",
   resultPins: "/api/v1/result-pins",
+  resultPinBatches: "/api/v1/result-pin-batches",
+  studentResultPinRedeem: "/api/v1/student/result-pins/redeem",
   permissions: "/api/v1/permissions",
   permissionHierarchy: "/api/v1/permissions/hierarchy",
   roles: "/api/v1/roles",
@@ -0,0 +1,49 @@
+import { downloadCSVFile, escapeCsvCell } from "@/lib/assessmentSheetExport";
+import type { FeeDebtor } from "@/lib/studentFees";
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+export function generateDebtorsCSV(debtors: FeeDebtor[]): string {
+  const headers = [
+    "Admission No",
+    "Name",
+    "Class",
+    "Arm",
+    "Parent",
+    "Parent Phone",
+    "Invoiced",
+    "Discounts",
+    "Paid",
+    "Outstanding",
+  ];
+
+  const rows = debtors.map((debtor) => [
+    debtor.admissionNo,
+    debtor.name,
+    debtor.className,
+    debtor.armName,
+    debtor.parentName,
+    debtor.parentPhone,
+    formatAmount(debtor.invoiced),
+    formatAmount(debtor.discounts),
+    formatAmount(debtor.paid),
+    formatAmount(debtor.outstanding),
+  ]);
+
+  const totalOutstanding = debtors.reduce(
+    (sum, debtor) => sum + debtor.outstanding,
+    0,
+  );
+  const footer = ["", "TOTAL", "", "", "", "", "", "", "", formatAmount(totalOutstanding)];
+
+  return [headers, ...rows, footer]
+    .map((row) => row.map(escapeCsvCell).join(","))
+    .join("\n");
+}
+
+export function exportDebtors(debtors: FeeDebtor[], filename?: string): void {
+  if (!debtors || debtors.length === 0) {
+    throw new Error("No outstanding balances to export.");
+  }
+  downloadCSVFile(generateDebtorsCSV(debtors), filename ?? "debtors.csv");
+}
@@ -0,0 +1,267 @@
+import type { School } from "@/lib/auth";
+import type { BankDetail } from "@/lib/bankDetails";
+import {
+  invoiceBalance,
+  studentDisplayName,
+  toAmount,
+  type FeeInvoice,
+  type FeePayment,
+} from "@/lib/studentFees";
+
+/**
+ * HTML for the fee invoice/receipt print route. Kept free of React and
+ * browser APIs so the route handler can render it on the server, one page
+ * per document, ready for the browser's print dialog.
+ */
+
+export type FeeDocumentKind = "invoice" | "receipt";
+
+export interface FeeDocumentOptions {
+  kind: FeeDocumentKind;
+  school: School | null;
+  /** The account parents are asked to pay into; usually the default one. */
+  bankAccount: BankDetail | null;
+  invoices: FeeInvoice[];
+  /** Receipts only: print just this payment instead of every payment. */
+  paymentId?: string | null;
+  autoprint?: boolean;
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatCurrency = (value: number | string | null | undefined) =>
+  new Intl.NumberFormat("en-NG", {
+    style: "currency",
+    currency: "NGN",
+    minimumFractionDigits: 2,
+  }).format(toAmount(value));
+
+const formatDate = (value?: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-NG", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      });
+};
+
+/** The preferred account for a bill: the default, else the first active one. */
+export function pickDefaultBankDetail(details: BankDetail[]): BankDetail | null {
+  const active = details.filter((detail) => detail.is_active !== false);
+  return active.find((detail) => detail.is_default) ?? active[0] ?? null;
+}
+
+export function formatInvoiceNumber(invoice: FeeInvoice): string {
+  return invoice.invoice_number || `INV-${String(invoice.id).padStart(6, "0")}`;
+}
+
+/**
+ * The backend's receipt number when it assigns one. Otherwise one derived
+ * from the payment id, which is already unique, so reprints of the same
+ * payment always carry the same number.
+ */
+export function formatReceiptNumber(payment: FeePayment): string {
+  if (payment.receipt_number) {
+    return payment.receipt_number;
+  }
+  const year = (payment.payment_date || payment.created_at || "").slice(0, 4);
+  return `RCT-${year || "0000"}-${String(payment.id).padStart(6, "0")}`;
+}
+
+function renderLetterhead(school: School | null, title: string): string {
+  const contact = [school?.address, school?.phone, school?.email]
+    .filter(Boolean)
+    .map(escapeHtml)
+    .join(" &middot; ");
+  return `
+    <header class="letterhead">
+      ${school?.logo_url ? `<img class="logo" src="${escapeHtml(school.logo_url)}" alt="" />` : ""}
+      <div>
+        <h1>${escapeHtml(school?.name ?? "School")}</h1>
+        ${contact ? `<p>${contact}</p>` : ""}
+      </div>
+      <div class="doc-title">${escapeHtml(title)}</div>
+    </header>`;
+}
+
+function renderStudentBlock(invoice: FeeInvoice, rightRows: Array<[string, string]>): string {
+  const student = invoice.student;
+  const classLabel = [invoice.school_class?.name, invoice.class_arm?.name]
+    .filter(Boolean)
+    .join(" ");
+  const left: Array<[string, string]> = [
+    ["Student", studentDisplayName(student)],
+    ["Admission No", student?.admission_no ?? ""],
+    ["Class", classLabel],
+    ["Session / Term", [invoice.session?.name, invoice.term?.name].filter(Boolean).join(" / ")],
+  ];
+  const rows = (items: Array<[string, string]>) =>
+    items
+      .map(
+        ([label, value]) =>
+          `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`,
+      )
+      .join("");
+  return `
+    <div class="meta">
+      <table>${rows(left)}</table>
+      <table>${rows(rightRows)}</table>
+    </div>`;
+}
+
+function renderSignature(school: School | null): string {
+  return `
+    <footer class="signature">
+      ${school?.signature_url ? `<img src="${escapeHtml(school.signature_url)}" alt="" />` : '<div class="signature-line"></div>'}
+      <span>Bursar / Authorised Signature</span>
+    </footer>`;
+}
+
+function renderInvoice(invoice: FeeInvoice, options: FeeDocumentOptions): string {
+  const items = invoice.items ?? [];
+  const discounts = invoice.discounts ?? [];
+  const bank = options.bankAccount;
+  const lines = items
+    .map(
+      (item, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(item.name)}${item.is_mandatory === false ? " <em>(optional)</em>" : ""}</td>
+          <td class="amount">${formatCurrency(item.amount)}</td>
+        </tr>`,
+    )
+    .join("");
+  const discountLines = discounts
+    .map(
+      (discount) => `
+        <tr>
+          <td></td>
+          <td>${discount.kind === "scholarship" ? "Scholarship" : "Discount"}${discount.reason ? ` &ndash; ${escapeHtml(discount.reason)}` : ""}</td>
+          <td class="amount">-${formatCurrency(discount.amount)}</td>
+        </tr>`,
+    )
+    .join("");
+
+  return `
+    <section class="page">
+      ${renderLetterhead(options.school, "Fee Invoice")}
+      ${renderStudentBlock(invoice, [
+        ["Invoice No", formatInvoiceNumber(invoice)],
+        ["Date Issued", formatDate(invoice.issued_at ?? invoice.created_at)],
+      ])}
+      <table class="lines">
+        <thead><tr><th>#</th><th>Description</th><th class="amount">Amount</th></tr></thead>
+        <tbody>
+          ${lines || '<tr><td colspan="3">No fee items on this invoice.</td></tr>'}
+          ${discountLines}
+        </tbody>
+        <tfoot>
+          <tr><th colspan="2">Total</th><th class="amount">${formatCurrency(toAmount(invoice.total_amount) - toAmount(invoice.discount_amount))}</th></tr>
+          <tr><th colspan="2">Paid</th><th class="amount">${formatCurrency(invoice.amount_paid)}</th></tr>
+          <tr class="due"><th colspan="2">Balance Due</th><th class="amount">${formatCurrency(invoiceBalance(invoice))}</th></tr>
+        </tfoot>
+      </table>
+      ${
+        bank
+          ? `<div class="bank">
+              <strong>Pay into:</strong> ${escapeHtml(bank.bank_name)} &middot;
+              ${escapeHtml(bank.account_name)} &middot;
+              <strong>${escapeHtml(bank.account_number)}</strong>
+              <div>Quote the invoice number <strong>${escapeHtml(formatInvoiceNumber(invoice))}</strong> on your teller or transfer narration.</div>
+            </div>`
+          : ""
+      }
+      ${renderSignature(options.school)}
+    </section>`;
+}
+
+function renderReceipt(
+  invoice: FeeInvoice,
+  payment: FeePayment,
+  options: FeeDocumentOptions,
+): string {
+  const paidInto = payment.bank_detail
+    ? `${payment.bank_detail.bank_name} (${payment.bank_detail.account_number})`
+    : "";
+  return `
+    <section class="page">
+      ${renderLetterhead(options.school, "Payment Receipt")}
+      ${renderStudentBlock(invoice, [
+        ["Receipt No", formatReceiptNumber(payment)],
+        ["Payment Date", formatDate(payment.payment_date)],
+        ["Invoice No", formatInvoiceNumber(invoice)],
+      ])}
+      <table class="lines">
+        <tbody>
+          <tr><th>Amount Received</th><td class="amount"><strong>${formatCurrency(payment.amount)}</strong></td></tr>
+          <tr><th>Teller / Reference</th><td class="amount">${escapeHtml(payment.reference)}</td></tr>
+          ${paidInto ? `<tr><th>Paid Into</th><td class="amount">${escapeHtml(paidInto)}</td></tr>` : ""}
+          ${payment.note ? `<tr><th>Note</th><td class="amount">${escapeHtml(payment.note)}</td></tr>` : ""}
+          <tr><th>Invoice Total</th><td class="amount">${formatCurrency(toAmount(invoice.total_amount) - toAmount(invoice.discount_amount))}</td></tr>
+          <tr class="due"><th>Balance Outstanding</th><td class="amount">${formatCurrency(invoiceBalance(invoice))}</td></tr>
+        </tbody>
+      </table>
+      ${renderSignature(options.school)}
+    </section>`;
+}
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: Arial, sans-serif; color: #0f172a; margin: 0; background: #f1f5f9; }
+  .page { background: #fff; width: 210mm; min-height: 148mm; margin: 12px auto; padding: 14mm; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  .letterhead { display: flex; align-items: center; gap: 16px; border-bottom: 3px solid #f0a70d; padding-bottom: 10px; margin-bottom: 14px; }
+  .letterhead .logo { width: 72px; height: 72px; object-fit: contain; }
+  .letterhead h1 { font-size: 22px; margin: 0 0 4px; }
+  .letterhead p { margin: 0; font-size: 12px; color: #475569; }
+  .doc-title { margin-left: auto; font-size: 18px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; }
+  .meta { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 14px; font-size: 13px; }
+  .meta th { text-align: left; padding: 2px 12px 2px 0; color: #475569; font-weight: 600; }
+  table.lines { width: 100%; border-collapse: collapse; font-size: 13px; }
+  table.lines th, table.lines td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; }
+  table.lines .amount { text-align: right; white-space: nowrap; }
+  table.lines tr.due th, table.lines tr.due td { background: #fef3c7; font-size: 14px; }
+  .bank { margin-top: 14px; padding: 10px; border: 1px dashed #94a3b8; font-size: 13px; }
+  .signature { margin-top: 36px; display: flex; flex-direction: column; align-items: flex-end; font-size: 12px; color: #475569; }
+  .signature img { max-height: 48px; max-width: 180px; }
+  .signature-line { width: 180px; border-bottom: 1px solid #0f172a; height: 40px; }
+  @media print {
+    body { background: #fff; }
+    .page { margin: 0; width: auto; }
+  }
+`;
+
+export function renderFeeDocumentsHtml(options: FeeDocumentOptions): string {
+  const sections =
+    options.kind === "receipt"
+      ? options.invoices.flatMap((invoice) =>
+          (invoice.payments ?? [])
+            .filter(
+              (payment) => !options.paymentId || String(payment.id) === options.paymentId,
+            )
+            .map((payment) => renderReceipt(invoice, payment, options)),
+        )
+      : options.invoices.map((invoice) => renderInvoice(invoice, options));
+
+  const title = options.kind === "receipt" ? "Fee Receipts" : "Fee Invoices";
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  ${sections.join("\n")}
+  ${options.autoprint ? "<script>window.addEventListener('load', function () { window.print(); });</script>" : ""}
+</body>
+</html>`;
+}
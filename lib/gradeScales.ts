@@ -203,3 +203,55 @@ export async function updateCommentRanges(
       typeof wrapper.message === "string" ? wrapper.message : undefined,
   };
 }
+
+/**
+ * Settings only edits one grading scale per school, so the first scale the
+ * API returns is the one results are graded against.
+ */
+export function pickActiveGradeScale(scales: GradeScale[]): GradeScale | null {
+  return scales.length ? scales[0] : null;
+}
+
+/**
+ * The range a score falls in: the one with the highest minimum at or below
+ * the score. Ranges are entered as whole numbers (60–69, 70–100), so this
+ * keeps fractional totals like 69.5 in the lower band instead of in a gap.
+ */
+export function findGradeRange(
+  ranges: GradeRange[],
+  score: number,
+): GradeRange | null {
+  if (!Number.isFinite(score)) {
+    return null;
+  }
+  let match: GradeRange | null = null;
+  for (const range of ranges) {
+    const min = Number(range.min_score);
+    if (min <= score && (!match || min > Number(match.min_score))) {
+      match = range;
+    }
+  }
+  return match;
+}
+
+/**
+ * A range counts as a pass when it carries a positive grade point. Scales
+ * without grade points fall back to treating every range except the
+ * lowest one as a pass.
+ */
+export function isPassingGradeRange(
+  range: GradeRange | null,
+  ranges: GradeRange[],
+): boolean {
+  if (!range) {
+    return false;
+  }
+  const hasGradePoints = ranges.some(
+    (item) => item.grade_point !== null && item.grade_point !== undefined,
+  );
+  if (hasGradePoints) {
+    return Number(range.grade_point ?? 0) > 0;
+  }
+  const lowestMin = Math.min(...ranges.map((item) => Number(item.min_score)));
+  return Number(range.min_score) > lowestMin;
+}
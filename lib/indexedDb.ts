@@ -0,0 +1,149 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB for data that has
+ * to survive a refresh or a dropped connection. Every store the app uses is
+ * declared here so a single upgrade path creates them; bump DB_VERSION when
+ * adding one.
+ */
+
+const DB_NAME = "school-fe";
+const DB_VERSION = 5;
+
+export const STORES = {
+  cbtAttemptJournals: "cbt-attempt-journals",
+  cbtOfflineQuizzes: "cbt-offline-quizzes",
+  cbtSubmissionQueue: "cbt-submission-queue",
+  attendanceRegisters: "attendance-registers",
+  attendanceQueue: "attendance-queue",
+  reportCardExportJobs: "report-card-export-jobs",
+  reportCardExportFiles: "report-card-export-files",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+interface StoreDefinition {
+  keyPath: string;
+  indexes?: Array<{ name: string; keyPath: string | string[] }>;
+}
+
+const STORE_DEFINITIONS: Record<StoreName, StoreDefinition> = {
+  [STORES.cbtAttemptJournals]: {
+    keyPath: "attemptId",
+    indexes: [{ name: "quiz_student", keyPath: ["quizId", "studentId"] }],
+  },
+  [STORES.cbtOfflineQuizzes]: {
+    keyPath: "key",
+    indexes: [{ name: "quiz", keyPath: "quizId" }],
+  },
+  [STORES.cbtSubmissionQueue]: {
+    keyPath: "id",
+  },
+  [STORES.attendanceRegisters]: {
+    keyPath: "key",
+    indexes: [{ name: "scope", keyPath: "scope" }],
+  },
+  [STORES.attendanceQueue]: {
+    keyPath: "id",
+  },
+  [STORES.reportCardExportJobs]: {
+    keyPath: "id",
+  },
+  [STORES.reportCardExportFiles]: {
+    keyPath: "key",
+    indexes: [{ name: "job", keyPath: "jobId" }],
+  },
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error("Offline storage is not available in this browser."));
+  }
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        (Object.keys(STORE_DEFINITIONS) as StoreName[]).forEach((name) => {
+          const definition = STORE_DEFINITIONS[name];
+          if (database.objectStoreNames.contains(name)) {
+            const existing = request.transaction?.objectStore(name);
+            if (!existing || existing.keyPath === definition.keyPath) {
+              return;
+            }
+            // Re-keyed store: only ever holds caches, so start it afresh.
+            database.deleteObjectStore(name);
+          }
+          const store = database.createObjectStore(name, {
+            keyPath: definition.keyPath,
+          });
+          definition.indexes?.forEach((index) => {
+            store.createIndex(index.name, index.keyPath);
+          });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDatabase();
+  const transaction = database.transaction(name, mode);
+  return requestToPromise(run(transaction.objectStore(name)));
+}
+
+export async function idbGet<T>(
+  name: StoreName,
+  key: IDBValidKey,
+): Promise<T | null> {
+  const value = await withStore<T | undefined>(name, "readonly", (store) =>
+    store.get(key),
+  );
+  return value ?? null;
+}
+
+export async function idbGetAll<T>(name: StoreName): Promise<T[]> {
+  return withStore<T[]>(name, "readonly", (store) => store.getAll());
+}
+
+export async function idbGetAllByIndex<T>(
+  name: StoreName,
+  indexName: string,
+  key: IDBValidKey,
+): Promise<T[]> {
+  return withStore<T[]>(name, "readonly", (store) =>
+    store.index(indexName).getAll(key),
+  );
+}
+
+export async function idbPut<T>(name: StoreName, value: T): Promise<void> {
+  await withStore(name, "readwrite", (store) => store.put(value));
+}
+
+export async function idbDelete(
+  name: StoreName,
+  key: IDBValidKey,
+): Promise<void> {
+  await withStore(name, "readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,109 @@
+import { apiFetch, type AuthScope } from "@/lib/apiClient";
+import { closeSession, openSession } from "@/lib/session";
+
+export interface ParentLoginPayload {
+  /** The email or phone number on the parent's record. */
+  login: string;
+  password: string;
+}
+
+/** A student linked to the signed-in parent. */
+export interface ParentChild {
+  id: string;
+  admission_no: string;
+  first_name: string;
+  middle_name?: string | null;
+  last_name: string;
+  photo_url?: string | null;
+  school_class?: { id: string; name: string } | null;
+  class_arm?: { id: string; name: string } | null;
+  current_session?: { id: string; name: string } | null;
+  current_term?: { id: string; name: string } | null;
+}
+
+export interface ParentProfile {
+  id: string;
+  first_name: string;
+  last_name: string;
+  phone?: string | null;
+  email?: string | null;
+  school?: {
+    id: string;
+    name: string;
+    logo_url?: string | null;
+  } | null;
+  children: ParentChild[];
+}
+
+export interface ParentLoginResponse {
+  parent: ParentProfile;
+}
+
+export async function parentLogin(
+  payload: ParentLoginPayload,
+): Promise<ParentLoginResponse> {
+  return openSession<ParentLoginResponse>("parent", payload);
+}
+
+export async function parentLogout(): Promise<void> {
+  try {
+    await closeSession("parent");
+  } catch (error) {
+    console.warn("Parent logout request failed", error);
+  }
+}
+
+export async function getParentProfile(): Promise<ParentProfile | null> {
+  try {
+    const response = await apiFetch<{ parent: ParentProfile }>(
+      "/api/v1/parent/profile",
+      { authScope: "parent" },
+    );
+    if (!response.parent) {
+      return null;
+    }
+    return {
+      ...response.parent,
+      children: (response.parent.children ?? []).map((child) => ({
+        ...child,
+        id: String(child.id),
+      })),
+    };
+  } catch (error) {
+    console.error("Unable to fetch parent profile", error);
+    return null;
+  }
+}
+
+export function childDisplayName(child: ParentChild): string {
+  return [child.first_name, child.last_name].filter(Boolean).join(" ");
+}
+
+/**
+ * Which student a student-portal request is about. Omitted, the request
+ * is the signed-in student's own; with `childId`, it is a parent asking
+ * about one of their linked children.
+ */
+export interface StudentScope {
+  childId?: string | null;
+}
+
+/**
+ * Resolves a student-portal endpoint for the caller. Parents reach the
+ * same data under /api/v1/parent/children/{id}/..., where the backend
+ * checks the child is linked to them and applies the same rules (result
+ * PINs, publication) as it does for the student.
+ */
+export function resolveStudentEndpoint(
+  studentPath: string,
+  childPath: string,
+  scope: StudentScope = {},
+): { path: string; authScope: AuthScope } {
+  if (!scope.childId) {
+    return { path: studentPath, authScope: "student" };
+  }
+  return {
+    path: `/api/v1/parent/children/${encodeURIComponent(scope.childId)}/${childPath}`,
+    authScope: "parent",
+  };
+}
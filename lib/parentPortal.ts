@@ -0,0 +1,73 @@
+import { apiFetch } from "@/lib/apiClient";
+
+/** A published quiz the child is enrolled for, as a parent sees it. */
+export interface ChildQuiz {
+  id: string;
+  title: string;
+  subject_name?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  duration_minutes: number;
+  total_questions: number;
+  attempted?: boolean;
+}
+
+export interface SchoolAnnouncement {
+  id: string;
+  title: string;
+  body: string;
+  published_at: string;
+  /** Set when the announcement targets particular classes rather than the school. */
+  class_names?: string[] | null;
+}
+
+type Collection<T> = T[] | { data?: T[] };
+
+function normalize<T>(payload: Collection<T>): T[] {
+  if (Array.isArray(payload)) return payload;
+  return Array.isArray(payload?.data) ? payload.data : [];
+}
+
+/**
+ * Quizzes the child still has ahead of them: not yet attempted and not
+ * past their closing time, soonest first.
+ */
+export async function listChildUpcomingQuizzes(childId: string): Promise<ChildQuiz[]> {
+  const payload = await apiFetch<Collection<ChildQuiz>>(
+    `/api/v1/parent/children/${encodeURIComponent(childId)}/cbt/quizzes`,
+    { authScope: "parent" },
+  );
+  const now = Date.now();
+  return normalize(payload)
+    .filter((quiz) => !quiz.attempted)
+    .filter((quiz) => !quiz.end_time || new Date(quiz.end_time).getTime() > now)
+    .sort((a, b) => (a.start_time ?? "").localeCompare(b.start_time ?? ""));
+}
+
+/** Announcements for the parent's school and their children's classes, newest first. */
+export async function listParentAnnouncements(): Promise<SchoolAnnouncement[]> {
+  const payload = await apiFetch<Collection<SchoolAnnouncement>>(
+    "/api/v1/parent/announcements",
+    { authScope: "parent" },
+  );
+  return normalize(payload).sort((a, b) =>
+    b.published_at.localeCompare(a.published_at),
+  );
+}
+
+const SELECTED_CHILD_KEY = "parent_selected_child_id";
+
+/** The child the parent was last looking at, so a reload keeps the choice. */
+export function loadSelectedChildId(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(SELECTED_CHILD_KEY);
+}
+
+export function saveSelectedChildId(childId: string | null): void {
+  if (typeof window === "undefined") return;
+  if (childId) {
+    window.localStorage.setItem(SELECTED_CHILD_KEY, childId);
+  } else {
+    window.localStorage.removeItem(SELECTED_CHILD_KEY);
+  }
+}
@@ -34,6 +34,10 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "Edit Term", description: "Modify term details", permission: "terms.update" },
   { function: "Delete Term", description: "Remove a term", permission: "terms.delete" },
   
+  // Academic Calendar
+  { function: "View Academic Calendar", description: "See holidays, breaks and school events", permission: "calendar.view" },
+  { function: "Manage Academic Calendar", description: "Add, edit and remove calendar events", permission: "calendar.manage" },
+  
   // Classes
   { function: "View Classes", description: "List all classes", permission: "classes.view" },
   { function: "Create Class", description: "Create new class", permission: "classes.create" },
@@ -139,6 +143,8 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "Bulk Create PINs", description: "Generate PINs for class", permission: "result.pin.bulk-create" },
   { function: "Invalidate PIN", description: "Revoke a PIN", permission: "result.pin.invalidate" },
   { function: "Export PINs", description: "Export PINs to file", permission: "result.pin.export" },
+  { function: "View Scratch Card Batches", description: "View PIN batches, stock register and reconciliation", permission: "result.pin.batch.view" },
+  { function: "Manage Scratch Card Batches", description: "Create PIN batches and record stock movements", permission: "result.pin.batch.manage" },
   
   // Result Page Settings
   { function: "View Result Settings", description: "View result page settings", permission: "settings.result-page.view" },
@@ -148,6 +154,13 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "View Results Entry", description: "Access results entry page", permission: "results.entry.view" },
   { function: "Enter Scores", description: "Input student scores", permission: "results.entry.enter" },
   { function: "Save Results", description: "Save entered results", permission: "results.entry.save" },
+
+  // Result Publication
+  { function: "View Result Publication", description: "Access result publication matrix", permission: "results.publication.view" },
+  { function: "Submit Subject Results", description: "Submit subject scores for review", permission: "results.publication.submit" },
+  { function: "Review Class Results", description: "Review class results or send back", permission: "results.publication.review" },
+  { function: "Approve Class Results", description: "Approve reviewed results or send back", permission: "results.publication.approve" },
+  { function: "Publish Results", description: "Release or withdraw approved results", permission: "results.publication.publish" },
   
   // Skill Categories
   { function: "View Skill Categories", description: "List categories", permission: "skills.categories.view" },
@@ -165,12 +178,14 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "View Promotion", description: "Access promotion page", permission: "students.promotion.view" },
   { function: "Execute Promotion", description: "Promote students", permission: "students.promotion.execute" },
   { function: "Bulk Promote", description: "Promote multiple students", permission: "students.promotion.bulk" },
+  { function: "Manage Promotion Rules", description: "Set each class's promotion criteria", permission: "students.promotion.rules.manage" },
   { function: "View Promotion Reports", description: "View promotion reports", permission: "students.promotion.reports.view" },
   { function: "Export Promotion Reports", description: "Export promotion data", permission: "students.promotion.reports.export" },
   
   // Academic Rollover
   { function: "View Rollover", description: "Access rollover page", permission: "academic.rollover.view" },
   { function: "Execute Rollover", description: "Perform academic rollover", permission: "academic.rollover.execute" },
+  { function: "Undo Rollover", description: "Revert a rollover before the new session is used", permission: "academic.rollover.undo" },
   
   // Attendance Dashboard
   { function: "View Attendance Dashboard", description: "Access attendance overview", permission: "attendance.dashboard.view" },
@@ -215,6 +230,14 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "Delete Fee Structure", description: "Remove structure", permission: "finance.fee-structures.delete" },
   { function: "Copy Fee Structure", description: "Duplicate structure", permission: "finance.fee-structures.copy" },
   
+  // Finance - Student Ledger
+  { function: "View Student Invoices", description: "List student fee invoices", permission: "finance.invoices.view" },
+  { function: "Generate Invoices", description: "Bill students from fee structure", permission: "finance.invoices.generate" },
+  { function: "Record Payment", description: "Record teller/transfer payment", permission: "finance.payments.record" },
+  { function: "Apply Discount", description: "Grant discount or scholarship", permission: "finance.discounts.apply" },
+  { function: "View Debtors", description: "See outstanding balances", permission: "finance.debtors.view" },
+  { function: "Export Debtors", description: "Download debtors list", permission: "finance.debtors.export" },
+  
   // RBAC - Roles
   { function: "View Roles", description: "List all roles", permission: "roles.view" },
   { function: "Create Role", description: "Create new role", permission: "roles.create" },
@@ -239,6 +262,7 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "View Bio Data", description: "View personal info", permission: "student.bio.view" },
   { function: "View My Result", description: "Access own result page", permission: "student.result.view" },
   { function: "Download My Result", description: "Download result PDF", permission: "student.result.download" },
+  { function: "View My Fees", description: "View own fee statement", permission: "student.fees.view" },
   
   // CBT - Student
   { function: "View Available Quizzes", description: "List available tests", permission: "cbt.quizzes.view" },
@@ -258,6 +282,7 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "View Quiz Results", description: "View all quiz results", permission: "cbt.admin.results.view" },
   { function: "Export Quiz Results", description: "Export results data", permission: "cbt.admin.results.export" },
   { function: "Grade Quiz Attempt", description: "Manual grading", permission: "cbt.admin.results.grade" },
+  { function: "Invigilate Quiz", description: "Watch live attempts, extend time, force submit and allow re-entry", permission: "cbt.admin.invigilate" },
   
   // CBT - Questions
   { function: "View Questions", description: "List quiz questions", permission: "cbt.questions.view" },
@@ -265,6 +290,8 @@ export const PERMISSION_ACTIONS: PermissionActionEntry[] = [
   { function: "Edit Question", description: "Modify question", permission: "cbt.questions.update" },
   { function: "Delete Question", description: "Remove question", permission: "cbt.questions.delete" },
   { function: "Reorder Questions", description: "Change question order", permission: "cbt.questions.reorder" },
+  { function: "View Question Bank", description: "Browse bank questions and reuse them in quizzes", permission: "cbt.question-bank.view" },
+  { function: "Manage Question Bank", description: "Add, tag and edit bank questions", permission: "cbt.question-bank.manage" },
   
   // CBT - Links
   { function: "View CBT Links", description: "View component links", permission: "cbt.links.view" },
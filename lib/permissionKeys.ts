@@ -46,6 +46,12 @@ export const PERMISSIONS = {
   TERMS_UPDATE: 'terms.update',
   TERMS_DELETE: 'terms.delete',
 
+  // ============================================
+  // Academic Calendar (v11)
+  // ============================================
+  CALENDAR_VIEW: 'calendar.view',
+  CALENDAR_MANAGE: 'calendar.manage',
+
   // ============================================
   // Classes (v12)
   // ============================================
@@ -94,6 +100,7 @@ export const PERMISSIONS = {
   STUDENTS_PROMOTION_VIEW: 'students.promotion.view',
   STUDENTS_PROMOTION_EXECUTE: 'students.promotion.execute',
   STUDENTS_PROMOTION_BULK: 'students.promotion.bulk',
+  STUDENTS_PROMOTION_RULES_MANAGE: 'students.promotion.rules.manage',
   STUDENTS_PROMOTION_REPORTS_VIEW: 'students.promotion.reports.view',
   STUDENTS_PROMOTION_REPORTS_EXPORT: 'students.promotion.reports.export',
 
@@ -102,6 +109,7 @@ export const PERMISSIONS = {
   // ============================================
   ACADEMIC_ROLLOVER_VIEW: 'academic.rollover.view',
   ACADEMIC_ROLLOVER_EXECUTE: 'academic.rollover.execute',
+  ACADEMIC_ROLLOVER_UNDO: 'academic.rollover.undo',
 
   // ============================================
   // Staff (v15)
@@ -195,6 +203,8 @@ export const PERMISSIONS = {
   RESULT_PIN_BULK_CREATE: 'result.pin.bulk-create',
   RESULT_PIN_INVALIDATE: 'result.pin.invalidate',
   RESULT_PIN_EXPORT: 'result.pin.export',
+  RESULT_PIN_BATCH_VIEW: 'result.pin.batch.view',
+  RESULT_PIN_BATCH_MANAGE: 'result.pin.batch.manage',
 
   // ============================================
   // Result Page Settings (v19)
@@ -209,6 +219,15 @@ export const PERMISSIONS = {
   RESULTS_ENTRY_ENTER: 'results.entry.enter',
   RESULTS_ENTRY_SAVE: 'results.entry.save',
 
+  // ============================================
+  // Result Publication (v19)
+  // ============================================
+  RESULTS_PUBLICATION_VIEW: 'results.publication.view',
+  RESULTS_PUBLICATION_SUBMIT: 'results.publication.submit',
+  RESULTS_PUBLICATION_REVIEW: 'results.publication.review',
+  RESULTS_PUBLICATION_APPROVE: 'results.publication.approve',
+  RESULTS_PUBLICATION_PUBLISH: 'results.publication.publish',
+
   // ============================================
   // Bulk Results (v14)
   // ============================================
@@ -296,6 +315,16 @@ export const PERMISSIONS = {
   FINANCE_FEE_STRUCTURES_DELETE: 'finance.fee-structures.delete',
   FINANCE_FEE_STRUCTURES_COPY: 'finance.fee-structures.copy',
 
+  // ============================================
+  // Finance - Student Ledger (v23)
+  // ============================================
+  FINANCE_INVOICES_VIEW: 'finance.invoices.view',
+  FINANCE_INVOICES_GENERATE: 'finance.invoices.generate',
+  FINANCE_PAYMENTS_RECORD: 'finance.payments.record',
+  FINANCE_DISCOUNTS_APPLY: 'finance.discounts.apply',
+  FINANCE_DEBTORS_VIEW: 'finance.debtors.view',
+  FINANCE_DEBTORS_EXPORT: 'finance.debtors.export',
+
   // ============================================
   // Roles (v24)
   // ============================================
@@ -319,6 +348,7 @@ export const PERMISSIONS = {
   STUDENT_BIO_VIEW: 'student.bio.view',
   STUDENT_RESULT_VIEW: 'student.result.view',
   STUDENT_RESULT_DOWNLOAD: 'student.result.download',
+  STUDENT_FEES_VIEW: 'student.fees.view',
 
   // ============================================
   // CBT - Student (v27)
@@ -342,6 +372,7 @@ export const PERMISSIONS = {
   CBT_ADMIN_RESULTS_VIEW: 'cbt.admin.results.view',
   CBT_ADMIN_RESULTS_EXPORT: 'cbt.admin.results.export',
   CBT_ADMIN_RESULTS_GRADE: 'cbt.admin.results.grade',
+  CBT_ADMIN_INVIGILATE: 'cbt.admin.invigilate',
 
   // ============================================
   // CBT - Questions (v27)
@@ -351,6 +382,8 @@ export const PERMISSIONS = {
   CBT_QUESTIONS_UPDATE: 'cbt.questions.update',
   CBT_QUESTIONS_DELETE: 'cbt.questions.delete',
   CBT_QUESTIONS_REORDER: 'cbt.questions.reorder',
+  CBT_QUESTION_BANK_VIEW: 'cbt.question-bank.view',
+  CBT_QUESTION_BANK_MANAGE: 'cbt.question-bank.manage',
 
   // ============================================
   // CBT - Links (v27)
@@ -404,6 +437,13 @@ export const PERMISSION_GROUPS = {
       PERMISSIONS.TERMS_DELETE,
     ],
   },
+  calendar: {
+    label: 'Academic Calendar',
+    permissions: [
+      PERMISSIONS.CALENDAR_VIEW,
+      PERMISSIONS.CALENDAR_MANAGE,
+    ],
+  },
   classes: {
     label: 'Classes',
     permissions: [
@@ -438,6 +478,7 @@ export const PERMISSION_GROUPS = {
       PERMISSIONS.STUDENTS_BULK_UPLOAD_EXECUTE,
       PERMISSIONS.STUDENTS_PROMOTION_VIEW,
       PERMISSIONS.STUDENTS_PROMOTION_EXECUTE,
+      PERMISSIONS.STUDENTS_PROMOTION_RULES_MANAGE,
     ],
   },
   staff: {
@@ -499,6 +540,11 @@ export const PERMISSION_GROUPS = {
       PERMISSIONS.RESULTS_ENTRY_VIEW,
       PERMISSIONS.RESULTS_ENTRY_ENTER,
       PERMISSIONS.RESULTS_ENTRY_SAVE,
+      PERMISSIONS.RESULTS_PUBLICATION_VIEW,
+      PERMISSIONS.RESULTS_PUBLICATION_SUBMIT,
+      PERMISSIONS.RESULTS_PUBLICATION_REVIEW,
+      PERMISSIONS.RESULTS_PUBLICATION_APPROVE,
+      PERMISSIONS.RESULTS_PUBLICATION_PUBLISH,
       PERMISSIONS.RESULTS_BULK_VIEW,
       PERMISSIONS.RESULTS_BULK_GENERATE,
       PERMISSIONS.RESULTS_BULK_DOWNLOAD,
@@ -507,12 +553,15 @@ export const PERMISSION_GROUPS = {
       PERMISSIONS.RESULT_PIN_CREATE,
       PERMISSIONS.RESULT_PIN_BULK_CREATE,
       PERMISSIONS.RESULT_PIN_EXPORT,
+      PERMISSIONS.RESULT_PIN_BATCH_VIEW,
+      PERMISSIONS.RESULT_PIN_BATCH_MANAGE,
     ],
   },
   attendance: {
     label: 'Attendance',
     permissions: [
       PERMISSIONS.ATTENDANCE_DASHBOARD_VIEW,
+      PERMISSIONS.ATTENDANCE_STATS_VIEW,
       PERMISSIONS.ATTENDANCE_STUDENT_VIEW,
       PERMISSIONS.ATTENDANCE_STUDENT_MARK,
       PERMISSIONS.ATTENDANCE_STUDENT_UPDATE,
@@ -538,6 +587,12 @@ export const PERMISSION_GROUPS = {
       PERMISSIONS.FINANCE_FEE_STRUCTURES_CREATE,
       PERMISSIONS.FINANCE_FEE_STRUCTURES_UPDATE,
       PERMISSIONS.FINANCE_FEE_STRUCTURES_DELETE,
+      PERMISSIONS.FINANCE_INVOICES_VIEW,
+      PERMISSIONS.FINANCE_INVOICES_GENERATE,
+      PERMISSIONS.FINANCE_PAYMENTS_RECORD,
+      PERMISSIONS.FINANCE_DISCOUNTS_APPLY,
+      PERMISSIONS.FINANCE_DEBTORS_VIEW,
+      PERMISSIONS.FINANCE_DEBTORS_EXPORT,
     ],
   },
   roles: {
@@ -565,8 +620,11 @@ export const PERMISSION_GROUPS = {
       PERMISSIONS.CBT_QUESTIONS_CREATE,
       PERMISSIONS.CBT_QUESTIONS_UPDATE,
       PERMISSIONS.CBT_QUESTIONS_DELETE,
+      PERMISSIONS.CBT_QUESTION_BANK_VIEW,
+      PERMISSIONS.CBT_QUESTION_BANK_MANAGE,
       PERMISSIONS.CBT_ADMIN_RESULTS_VIEW,
       PERMISSIONS.CBT_ADMIN_RESULTS_EXPORT,
+      PERMISSIONS.CBT_ADMIN_INVIGILATE,
     ],
   },
   settings: {
@@ -0,0 +1,65 @@
+import { readApiError } from "@/lib/apiClient";
+import type { PrintTicketAudience } from "@/lib/server/session";
+import { requestPrintTicket } from "@/lib/session";
+
+/**
+ * Ticketed print routes for the student and parent portals. Both open the
+ * printable page in a new tab or download it as a PDF rendered on the
+ * server.
+ */
+
+const PRINT_ROUTES: Record<PrintTicketAudience, string> = {
+  "student-result": "/student/print-result",
+  "parent-child-result": "/parent/print-result",
+};
+
+type PrintParams = Record<string, string | number>;
+
+async function printRouteUrl(
+  audience: PrintTicketAudience,
+  params: PrintParams,
+  format: "html" | "pdf",
+): Promise<string> {
+  const ticket = await requestPrintTicket(audience, params);
+  const query = new URLSearchParams({ ticket });
+  if (format === "pdf") {
+    query.set("format", "pdf");
+  }
+  return `${PRINT_ROUTES[audience]}?${query.toString()}`;
+}
+
+/**
+ * Point a window opened by the click handler at the printable page. The
+ * window has to be opened before any await, or pop-up blockers step in.
+ */
+export async function openPrintWindow(
+  printWindow: Window,
+  audience: PrintTicketAudience,
+  params: PrintParams,
+): Promise<void> {
+  printWindow.location.href = await printRouteUrl(audience, params, "html");
+}
+
+export async function downloadPrintPdf(
+  audience: PrintTicketAudience,
+  params: PrintParams,
+  fileName: string,
+): Promise<void> {
+  const response = await fetch(await printRouteUrl(audience, params, "pdf"), {
+    credentials: "same-origin",
+    headers: { Accept: "application/pdf, application/json" },
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
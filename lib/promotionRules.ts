@@ -0,0 +1,212 @@
+import { apiFetch } from "@/lib/apiClient";
+import { API_ROUTES } from "@/lib/config";
+import {
+  findGradeRange,
+  isPassingGradeRange,
+  type GradeRange,
+} from "@/lib/gradeScales";
+
+/**
+ * Promotion criteria for one class. Every threshold is optional; a null
+ * value switches that rule off.
+ */
+export interface PromotionRuleSet {
+  school_class_id: string | number;
+  min_session_average: number | null;
+  /** Subjects the student must pass (e.g. English and Mathematics). */
+  required_subject_ids: Array<string | number>;
+  min_subject_passes: number | null;
+  /** Percentage of daily attendance, e.g. 75. */
+  min_attendance_rate: number | null;
+  /**
+   * Students who miss the average or attendance threshold by no more than
+   * this many points are sent for review instead of repeating.
+   */
+  review_margin: number;
+  updated_at?: string | null;
+  [key: string]: unknown;
+}
+
+export type PromotionDecision = "promote" | "repeat" | "review";
+
+export const PROMOTION_DECISION_LABELS: Record<PromotionDecision, string> = {
+  promote: "Promote",
+  repeat: "Repeat",
+  review: "Review",
+};
+
+export function emptyPromotionRuleSet(classId: string | number): PromotionRuleSet {
+  return {
+    school_class_id: classId,
+    min_session_average: null,
+    required_subject_ids: [],
+    min_subject_passes: null,
+    min_attendance_rate: null,
+    review_margin: 5,
+  };
+}
+
+const hasRules = (rules: PromotionRuleSet) =>
+  rules.min_session_average !== null ||
+  rules.required_subject_ids.length > 0 ||
+  rules.min_subject_passes !== null ||
+  rules.min_attendance_rate !== null;
+
+/** The class's saved rules, or an empty set when none are configured yet. */
+export async function fetchPromotionRules(
+  classId: string | number,
+): Promise<PromotionRuleSet> {
+  const payload = await apiFetch<
+    PromotionRuleSet | { data?: PromotionRuleSet | null } | null
+  >(`${API_ROUTES.promotionRules}?school_class_id=${encodeURIComponent(String(classId))}`);
+  const rules =
+    payload && "data" in payload
+      ? (payload as { data?: PromotionRuleSet | null }).data
+      : (payload as PromotionRuleSet | null);
+  if (!rules) {
+    return emptyPromotionRuleSet(classId);
+  }
+  return {
+    ...emptyPromotionRuleSet(classId),
+    ...rules,
+    required_subject_ids: Array.isArray(rules.required_subject_ids)
+      ? rules.required_subject_ids
+      : [],
+  };
+}
+
+export async function savePromotionRules(
+  rules: PromotionRuleSet,
+): Promise<PromotionRuleSet> {
+  const payload = await apiFetch<PromotionRuleSet | { data?: PromotionRuleSet }>(
+    API_ROUTES.promotionRules,
+    {
+      method: "PUT",
+      body: JSON.stringify({
+        school_class_id: rules.school_class_id,
+        min_session_average: rules.min_session_average,
+        required_subject_ids: rules.required_subject_ids,
+        min_subject_passes: rules.min_subject_passes,
+        min_attendance_rate: rules.min_attendance_rate,
+        review_margin: rules.review_margin,
+      }),
+    },
+  );
+  return (payload as { data?: PromotionRuleSet }).data ?? (payload as PromotionRuleSet);
+}
+
+export interface PromotionEvidence {
+  /** Session average per subject id. */
+  subjectAverages: Map<string, number>;
+  /** Null when no daily attendance was recorded. */
+  attendanceRate: number | null;
+}
+
+export interface PromotionRecommendation {
+  decision: PromotionDecision;
+  sessionAverage: number | null;
+  subjectPasses: number;
+  reasons: string[];
+}
+
+const formatPoints = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+/**
+ * Applies a class's rules to one student. Failing a rule outright means
+ * Repeat; falling just short (within the review margin) or missing the
+ * data a rule needs means Review; passing everything means Promote.
+ */
+export function recommendPromotion(
+  rules: PromotionRuleSet,
+  evidence: PromotionEvidence,
+  gradeRanges: GradeRange[],
+  subjectNames: Map<string, string> = new Map(),
+): PromotionRecommendation {
+  const averages = [...evidence.subjectAverages.values()];
+  const sessionAverage = averages.length
+    ? averages.reduce((sum, value) => sum + value, 0) / averages.length
+    : null;
+  const passes = (subjectId: string) => {
+    const average = evidence.subjectAverages.get(subjectId);
+    return (
+      average !== undefined &&
+      isPassingGradeRange(findGradeRange(gradeRanges, average), gradeRanges)
+    );
+  };
+  const subjectPasses = [...evidence.subjectAverages.keys()].filter(passes).length;
+
+  if (!hasRules(rules)) {
+    return {
+      decision: "review",
+      sessionAverage,
+      subjectPasses,
+      reasons: ["No promotion rules are set for this class."],
+    };
+  }
+
+  let failed = false;
+  let review = false;
+  const reasons: string[] = [];
+
+  const checkThreshold = (
+    label: string,
+    value: number | null,
+    minimum: number | null,
+    unit: string,
+  ) => {
+    if (minimum === null) {
+      return;
+    }
+    if (value === null) {
+      review = true;
+      reasons.push(`No ${label.toLowerCase()} to check against ${formatPoints(minimum)}${unit}.`);
+      return;
+    }
+    if (value >= minimum) {
+      reasons.push(`${label} ${formatPoints(value)}${unit} meets ${formatPoints(minimum)}${unit}.`);
+      return;
+    }
+    if (minimum - value <= rules.review_margin) {
+      review = true;
+      reasons.push(`${label} ${formatPoints(value)}${unit} is just below ${formatPoints(minimum)}${unit}.`);
+      return;
+    }
+    failed = true;
+    reasons.push(`${label} ${formatPoints(value)}${unit} is below ${formatPoints(minimum)}${unit}.`);
+  };
+
+  checkThreshold("Session average", sessionAverage, rules.min_session_average, "");
+
+  rules.required_subject_ids.forEach((subjectId) => {
+    const key = String(subjectId);
+    const name = subjectNames.get(key) ?? `Subject #${key}`;
+    if (!evidence.subjectAverages.has(key)) {
+      review = true;
+      reasons.push(`No ${name} result this session.`);
+    } else if (passes(key)) {
+      reasons.push(`Passed ${name}.`);
+    } else {
+      failed = true;
+      reasons.push(`Did not pass ${name}.`);
+    }
+  });
+
+  if (rules.min_subject_passes !== null) {
+    if (subjectPasses >= rules.min_subject_passes) {
+      reasons.push(`Passed ${subjectPasses} subjects (needs ${rules.min_subject_passes}).`);
+    } else {
+      failed = true;
+      reasons.push(`Passed ${subjectPasses} subjects; needs ${rules.min_subject_passes}.`);
+    }
+  }
+
+  checkThreshold("Attendance", evidence.attendanceRate, rules.min_attendance_rate, "%");
+
+  return {
+    decision: failed ? "repeat" : review ? "review" : "promote",
+    sessionAverage,
+    subjectPasses,
+    reasons,
+  };
+}
@@ -1,5 +1,6 @@
-import { API_ROUTES, BACKEND_URL } from "@/lib/config";
-import { apiFetch } from "@/lib/apiClient";
+import { API_PROXY_PREFIX, API_ROUTES } from "@/lib/config";
+import { ApiError, apiFetch } from "@/lib/apiClient";
+import type { PromotionDecision } from "@/lib/promotionRules";
 
 export interface PromotionRequest {
   target_session_id: string | number;
@@ -8,6 +9,17 @@ export interface PromotionRequest {
   target_class_section_id?: string | number | null;
   retain_subjects?: boolean;
   student_ids: Array<string | number>;
+  /** The rules' recommendation and final decision for every classified student. */
+  outcomes?: PromotionOutcome[];
+}
+
+export interface PromotionOutcome {
+  student_id: string | number;
+  recommendation: PromotionDecision;
+  decision: PromotionDecision;
+  reasons: string[];
+  /** Required whenever `decision` differs from `recommendation`. */
+  override_justification?: string | null;
 }
 
 export interface PromotionResponse {
@@ -25,6 +37,8 @@ export interface PromotionHistoryRow {
   from_class?: string;
   to_class?: string;
   performed_by?: string;
+  rule_outcome?: PromotionDecision | null;
+  override_justification?: string | null;
   [key: string]: unknown;
 }
 
@@ -69,6 +83,7 @@ export async function bulkPromoteStudents(
       target_class_arm_id: payload.target_class_arm_id || null,
       retain_subjects: Boolean(payload.retain_subjects),
       student_ids: payload.student_ids,
+      ...(payload.outcomes ? { outcomes: payload.outcomes } : {}),
     }),
   });
 }
@@ -109,7 +124,7 @@ export function promotionHistoryExportUrl(
     school_class_id: filters.school_class_id,
     class_arm_id: filters.class_arm_id,
   });
-  const base = `${BACKEND_URL}${API_ROUTES.promotionsHistory}`;
+  const base = `${API_PROXY_PREFIX}${API_ROUTES.promotionsHistory}`;
   return `${base}/export.${format}${query}`;
 }
 
@@ -123,9 +138,82 @@ export interface RolloverPayload {
 
 export interface RolloverResponse {
   message?: string;
+  rollover?: RolloverRecord | null;
+  [key: string]: unknown;
+}
+
+export type RolloverCarryOverKey =
+  | "classes"
+  | "class_arms"
+  | "subject_assignments"
+  | "class_teacher_assignments"
+  | "fee_structures"
+  | "grade_scales";
+
+export const ROLLOVER_CARRY_OVER_LABELS: Record<RolloverCarryOverKey, string> = {
+  classes: "Classes",
+  class_arms: "Class arms",
+  subject_assignments: "Subject assignments",
+  class_teacher_assignments: "Class teacher assignments",
+  fee_structures: "Fee structures",
+  grade_scales: "Grade scales",
+};
+
+export interface RolloverCarryOver {
+  count: number;
+  /** A sample of names, e.g. the first few classes. */
+  items?: string[];
+}
+
+export interface RolloverResetItem {
+  label: string;
+  description?: string | null;
+  count?: number | null;
+}
+
+export interface RolloverPreviewTerm {
+  name: string;
+  start_date?: string | null;
+  end_date?: string | null;
+}
+
+/** What a rollover would do, worked out by the backend without saving. */
+export interface RolloverPreview {
+  new_session_name: string;
+  terms: RolloverPreviewTerm[];
+  carried_over: Partial<Record<RolloverCarryOverKey, RolloverCarryOver>>;
+  reset: RolloverResetItem[];
+  warnings?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * A completed rollover. The undo window stays open until results or
+ * attendance are recorded in the new session (or the backend's deadline
+ * passes); `undo_blocked_reason` says which closed it.
+ */
+export interface RolloverRecord {
+  id: number | string;
+  source_session?: { id: number | string; name: string } | null;
+  new_session?: { id: number | string; name: string } | null;
+  created_at?: string | null;
+  performed_by?: string | null;
+  undo_available: boolean;
+  undo_blocked_reason?: string | null;
+  undo_expires_at?: string | null;
+  results_recorded?: number;
+  attendance_recorded?: number;
+  undone_at?: string | null;
   [key: string]: unknown;
 }
 
+function unwrapRollover<T>(payload: T | { data?: T | null } | null): T | null {
+  if (payload && typeof payload === "object" && "data" in payload) {
+    return (payload as { data?: T | null }).data ?? null;
+  }
+  return (payload as T | null) ?? null;
+}
+
 export async function processAcademicRollover(
   payload: RolloverPayload,
 ): Promise<RolloverResponse> {
@@ -134,3 +222,55 @@ export async function processAcademicRollover(
     body: JSON.stringify(payload),
   });
 }
+
+/**
+ * Works out what the rollover would do without changing anything, using
+ * the read-only preview endpoint.
+ */
+export async function previewAcademicRollover(
+  payload: RolloverPayload,
+): Promise<RolloverPreview> {
+  const response = await apiFetch<RolloverPreview | { data?: RolloverPreview }>(
+    API_ROUTES.sessionsRolloverPreview,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+  );
+  const preview = unwrapRollover<RolloverPreview>(response);
+  return {
+    new_session_name: preview?.new_session_name ?? payload.new_session_name,
+    terms: preview?.terms ?? [],
+    carried_over: preview?.carried_over ?? {},
+    reset: preview?.reset ?? [],
+    warnings: preview?.warnings ?? [],
+  };
+}
+
+/** The most recent rollover that has not been undone, if any. */
+export async function fetchLatestRollover(): Promise<RolloverRecord | null> {
+  try {
+    const response = await apiFetch<RolloverRecord | { data?: RolloverRecord | null } | null>(
+      `${API_ROUTES.sessionsRollover}/latest`,
+    );
+    return unwrapRollover<RolloverRecord>(response);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deletes the session a rollover created, with everything copied into it.
+ * The backend refuses once the new session has results or attendance.
+ */
+export async function undoAcademicRollover(
+  rolloverId: number | string,
+): Promise<RolloverResponse> {
+  return apiFetch<RolloverResponse>(
+    `${API_ROUTES.sessionsRollover}/${rolloverId}/undo`,
+    { method: "POST" },
+  );
+}
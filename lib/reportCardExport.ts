@@ -0,0 +1,341 @@
+import { ApiError, readApiError } from "@/lib/apiClient";
+import {
+  STORES,
+  idbDelete,
+  idbGet,
+  idbGetAll,
+  idbGetAllByIndex,
+  idbPut,
+} from "@/lib/indexedDb";
+import { listStudents } from "@/lib/students";
+import { createZip } from "@/lib/zip";
+
+/**
+ * Bulk report-card export: one PDF per student, rendered through the print
+ * gateway, bundled into a ZIP. The job and every finished PDF are kept in
+ * IndexedDB, so closing the tab only pauses the job; opening the page again
+ * picks up from the first student not yet done.
+ */
+
+export type ExportStudentStatus = "pending" | "done" | "failed";
+export type ExportJobStatus = "running" | "paused" | "completed";
+
+export interface ExportStudent {
+  studentId: string;
+  admissionNo: string;
+  name: string;
+  className: string;
+  fileName: string;
+  status: ExportStudentStatus;
+  error: string | null;
+}
+
+export interface ReportCardExportJob {
+  id: string;
+  sessionId: string;
+  termId: string;
+  /** Human-readable "2024/2025 · First Term" for the job list. */
+  label: string;
+  classNames: string[];
+  status: ExportJobStatus;
+  /** Why the job stopped on its own, e.g. the session expired. */
+  pausedReason: string | null;
+  students: ExportStudent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ExportFile {
+  key: string;
+  jobId: string;
+  studentId: string;
+  fileName: string;
+  blob: Blob;
+}
+
+export interface ExportClassOption {
+  id: string;
+  name: string;
+}
+
+// The PDF renderer is heavy on the server; a couple at a time is plenty.
+const CONCURRENCY = 2;
+
+const createJobId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const fileKey = (jobId: string, studentId: string) => `${jobId}:${studentId}`;
+
+const safeFilePart = (value: string) =>
+  value
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, "-")
+    .replace(/\s+/g, "_");
+
+/** `ADMNO_Surname.pdf`, made unique within the job. */
+function buildFileNames(students: Omit<ExportStudent, "fileName">[], surnames: string[]) {
+  const used = new Map<string, number>();
+  return students.map((student, index) => {
+    const base =
+      [safeFilePart(student.admissionNo), safeFilePart(surnames[index])]
+        .filter(Boolean)
+        .join("_") || `student-${student.studentId}`;
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return count === 0 ? `${base}.pdf` : `${base}-${count + 1}.pdf`;
+  });
+}
+
+export async function listExportJobs(): Promise<ReportCardExportJob[]> {
+  const jobs = await idbGetAll<ReportCardExportJob>(STORES.reportCardExportJobs);
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getExportJob(jobId: string): Promise<ReportCardExportJob | null> {
+  return idbGet<ReportCardExportJob>(STORES.reportCardExportJobs, jobId);
+}
+
+async function saveJob(job: ReportCardExportJob): Promise<void> {
+  await idbPut(STORES.reportCardExportJobs, {
+    ...job,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/** Look up every student in the chosen classes and record the job. */
+export async function createExportJob(options: {
+  sessionId: string;
+  termId: string;
+  label: string;
+  classes: ExportClassOption[];
+}): Promise<ReportCardExportJob> {
+  const students: Omit<ExportStudent, "fileName">[] = [];
+  const surnames: string[] = [];
+
+  for (const schoolClass of options.classes) {
+    let page = 1;
+    let lastPage = 1;
+    do {
+      const response = await listStudents({
+        page,
+        per_page: 500,
+        school_class_id: schoolClass.id,
+        current_session_id: options.sessionId,
+        current_term_id: options.termId,
+        sortBy: "last_name",
+      });
+      response.data.forEach((student) => {
+        surnames.push(student.last_name ?? "");
+        students.push({
+          studentId: String(student.id),
+          admissionNo: student.admission_no ?? "",
+          name: [student.last_name, student.first_name, student.middle_name]
+            .filter(Boolean)
+            .join(" "),
+          className: [schoolClass.name, student.class_arm?.name]
+            .filter(Boolean)
+            .join(" "),
+          status: "pending",
+          error: null,
+        });
+      });
+      lastPage = response.last_page || page;
+      page += 1;
+    } while (page <= lastPage);
+  }
+
+  if (students.length === 0) {
+    throw new Error("No students were found in the selected classes.");
+  }
+
+  const fileNames = buildFileNames(students, surnames);
+  const now = new Date().toISOString();
+  const job: ReportCardExportJob = {
+    id: createJobId(),
+    sessionId: options.sessionId,
+    termId: options.termId,
+    label: options.label,
+    classNames: options.classes.map((schoolClass) => schoolClass.name),
+    status: "paused",
+    pausedReason: null,
+    students: students.map((student, index) => ({
+      ...student,
+      fileName: fileNames[index],
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveJob(job);
+  return job;
+}
+
+async function renderStudentPdf(
+  job: ReportCardExportJob,
+  student: ExportStudent,
+  signal: AbortSignal,
+): Promise<Blob> {
+  const query = new URLSearchParams({
+    student_id: student.studentId,
+    session_id: job.sessionId,
+    term_id: job.termId,
+    format: "pdf",
+  });
+  const response = await fetch(`/v19/print-result?${query.toString()}`, {
+    credentials: "same-origin",
+    headers: { Accept: "application/pdf, application/json" },
+    signal,
+  });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response.blob();
+}
+
+/** Errors that would fail every remaining student too, so stop instead. */
+const isJobStoppingError = (error: unknown) =>
+  error instanceof ApiError && (error.status === 401 || error.status === 501);
+
+/**
+ * Work through the job's pending students until done, paused through
+ * `signal`, or stopped by an error that affects every student. Progress is
+ * saved after each student and reported through `onProgress`.
+ */
+export async function runExportJob(
+  jobId: string,
+  options: {
+    signal: AbortSignal;
+    onProgress: (job: ReportCardExportJob) => void;
+  },
+): Promise<ReportCardExportJob> {
+  const stored = await getExportJob(jobId);
+  if (!stored) {
+    throw new Error("This export no longer exists.");
+  }
+
+  let job: ReportCardExportJob = { ...stored, status: "running", pausedReason: null };
+  await saveJob(job);
+  options.onProgress(job);
+
+  // Serialise updates so two workers finishing together don't drop one.
+  let saving = Promise.resolve();
+  const update = (studentId: string, changes: Partial<ExportStudent>) => {
+    job = {
+      ...job,
+      students: job.students.map((student) =>
+        student.studentId === studentId ? { ...student, ...changes } : student,
+      ),
+    };
+    const snapshot = job;
+    saving = saving.then(() => saveJob(snapshot));
+    options.onProgress(job);
+    return saving;
+  };
+
+  const queue = job.students.filter((student) => student.status === "pending");
+  let stopReason: string | null = null;
+
+  const worker = async () => {
+    while (queue.length > 0 && !options.signal.aborted && !stopReason) {
+      const student = queue.shift() as ExportStudent;
+      try {
+        const blob = await renderStudentPdf(job, student, options.signal);
+        await idbPut<ExportFile>(STORES.reportCardExportFiles, {
+          key: fileKey(job.id, student.studentId),
+          jobId: job.id,
+          studentId: student.studentId,
+          fileName: student.fileName,
+          blob,
+        });
+        await update(student.studentId, { status: "done", error: null });
+      } catch (error) {
+        if (options.signal.aborted) {
+          return;
+        }
+        if (isJobStoppingError(error)) {
+          stopReason = (error as ApiError).message;
+          return;
+        }
+        await update(student.studentId, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unable to render this report card.",
+        });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  await saving;
+
+  const remaining = job.students.some((student) => student.status === "pending");
+  job = {
+    ...job,
+    status: remaining ? "paused" : "completed",
+    pausedReason: stopReason,
+  };
+  await saveJob(job);
+  options.onProgress(job);
+  return job;
+}
+
+/** Put failed students back in the queue for the next run. */
+export async function requeueFailed(jobId: string): Promise<ReportCardExportJob | null> {
+  const job = await getExportJob(jobId);
+  if (!job) return null;
+  const updated: ReportCardExportJob = {
+    ...job,
+    status: "paused",
+    students: job.students.map((student) =>
+      student.status === "failed" ? { ...student, status: "pending", error: null } : student,
+    ),
+  };
+  await saveJob(updated);
+  return updated;
+}
+
+/**
+ * Bundle the finished PDFs. Students that failed are listed in a text file
+ * inside the ZIP so nobody has to compare it against the class list.
+ */
+export async function buildExportZip(job: ReportCardExportJob): Promise<Blob> {
+  const files = await idbGetAllByIndex<ExportFile>(
+    STORES.reportCardExportFiles,
+    "job",
+    job.id,
+  );
+  const byStudent = new Map(files.map((file) => [file.studentId, file]));
+  const entries = job.students
+    .map((student) => byStudent.get(student.studentId))
+    .filter((file): file is ExportFile => Boolean(file))
+    .map((file) => ({ name: file.fileName, data: file.blob }));
+
+  const failed = job.students.filter((student) => student.status !== "done");
+  if (failed.length > 0) {
+    entries.push({
+      name: "NOT_INCLUDED.txt",
+      data: new Blob([
+        failed
+          .map(
+            (student) =>
+              `${student.admissionNo}\t${student.name}\t${student.error ?? "Not rendered yet"}`,
+          )
+          .join("\r\n"),
+      ]),
+    });
+  }
+
+  return createZip(entries);
+}
+
+export async function deleteExportJob(jobId: string): Promise<void> {
+  const files = await idbGetAllByIndex<ExportFile>(
+    STORES.reportCardExportFiles,
+    "job",
+    jobId,
+  );
+  for (const file of files) {
+    await idbDelete(STORES.reportCardExportFiles, file.key);
+  }
+  await idbDelete(STORES.reportCardExportJobs, jobId);
+}
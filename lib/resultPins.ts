@@ -31,6 +31,9 @@ export interface ResultPin {
   sent_by?: string | null;
   distribution_status?: "not_sent" | "sent" | "used" | "expired" | "disabled" | string;
   effective_status?: "active" | "used" | "expired" | "disabled" | string;
+  /** Set on PINs sold from a scratch-card batch. */
+  serial_number?: string | null;
+  batch_code?: string | null;
   student?: ResultPinStudent;
   session?: ResultPinSessionOrTerm;
   term?: ResultPinSessionOrTerm;
@@ -211,3 +214,251 @@ export async function listMyDistributedResultPins(): Promise<ResultPin[]> {
 
   return normalizePins(payload);
 }
+
+export type ResultPinStockStage = "printed" | "issued" | "sold" | "redeemed";
+
+export const RESULT_PIN_STOCK_STAGES: Array<{ value: ResultPinStockStage; label: string }> = [
+  { value: "printed", label: "Printed" },
+  { value: "issued", label: "Issued to vendor" },
+  { value: "sold", label: "Sold" },
+  { value: "redeemed", label: "Redeemed" },
+];
+
+/** Stages recorded by staff; redemptions are counted by the backend. */
+export type ResultPinStockMovementStage = Exclude<ResultPinStockStage, "redeemed">;
+
+/**
+ * A run of unassigned scratch cards for one term. Each card carries a
+ * serial number from the batch's range and binds to a student the first
+ * time it is redeemed.
+ */
+export interface ResultPinBatch {
+  id: number | string;
+  batch_code: string;
+  session_id: number | string;
+  term_id: number | string;
+  quantity: number;
+  serial_start: string;
+  serial_end: string;
+  unit_price?: number | null;
+  expires_at?: string | null;
+  max_usage?: number | null;
+  notes?: string | null;
+  /** Cards at or past each stage of the stock register. */
+  stock: Record<ResultPinStockStage, number>;
+  created_at?: string | null;
+  session?: ResultPinSessionOrTerm;
+  term?: ResultPinSessionOrTerm;
+  [key: string]: unknown;
+}
+
+export interface ResultPinBatchCard {
+  id: number | string;
+  serial_number: string;
+  stage: ResultPinStockStage;
+  student_id?: number | string | null;
+  student?: ResultPinStudent | null;
+  redeemed_at?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ResultPinStockMovement {
+  id: number | string;
+  batch_id: number | string;
+  stage: ResultPinStockMovementStage;
+  quantity: number;
+  serial_from?: string | null;
+  serial_to?: string | null;
+  vendor?: string | null;
+  reference?: string | null;
+  recorded_at?: string | null;
+  recorded_by?: string | null;
+  [key: string]: unknown;
+}
+
+type Collection<T> = T[] | { data?: T[]; [key: string]: unknown };
+
+function normalizeCollection<T>(payload: Collection<T>): T[] {
+  if (Array.isArray(payload)) {
+    return payload;
+  }
+  if (payload && Array.isArray(payload.data)) {
+    return payload.data;
+  }
+  return [];
+}
+
+const unwrapData = <T>(payload: T | { data?: T }): T =>
+  payload && typeof payload === "object" && "data" in payload
+    ? ((payload as { data?: T }).data as T)
+    : (payload as T);
+
+export interface ResultPinBatchFilters {
+  session_id?: string | number | null;
+  term_id?: string | number | null;
+}
+
+export async function listResultPinBatches(
+  filters: ResultPinBatchFilters = {},
+): Promise<ResultPinBatch[]> {
+  const query = buildQuery({
+    session_id: filters.session_id ?? undefined,
+    term_id: filters.term_id ?? undefined,
+  });
+  const payload = await apiFetch<Collection<ResultPinBatch>>(
+    `${API_ROUTES.resultPinBatches}${query}`,
+  );
+  return normalizeCollection(payload);
+}
+
+export interface CreateResultPinBatchPayload {
+  session_id: string | number;
+  term_id: string | number;
+  quantity: number;
+  unit_price?: number | null;
+  expires_at?: string | null;
+  max_usage?: number | null;
+  notes?: string | null;
+}
+
+export async function createResultPinBatch(
+  payload: CreateResultPinBatchPayload,
+): Promise<ResultPinBatch> {
+  const response = await apiFetch<ResultPinBatch | { data?: ResultPinBatch }>(
+    API_ROUTES.resultPinBatches,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+  );
+  return unwrapData(response);
+}
+
+export async function listResultPinBatchCards(
+  batchId: number | string,
+): Promise<ResultPinBatchCard[]> {
+  const payload = await apiFetch<Collection<ResultPinBatchCard>>(
+    `${API_ROUTES.resultPinBatches}/${batchId}/cards`,
+  );
+  return normalizeCollection(payload);
+}
+
+export async function listResultPinStockMovements(
+  batchId: number | string,
+): Promise<ResultPinStockMovement[]> {
+  const payload = await apiFetch<Collection<ResultPinStockMovement>>(
+    `${API_ROUTES.resultPinBatches}/${batchId}/movements`,
+  );
+  return normalizeCollection(payload);
+}
+
+export interface RecordStockMovementPayload {
+  stage: ResultPinStockMovementStage;
+  /** Either a quantity (the next cards in serial order) or a serial range. */
+  quantity?: number | null;
+  serial_from?: string | null;
+  serial_to?: string | null;
+  vendor?: string | null;
+  reference?: string | null;
+}
+
+/** Moves cards along the stock register and returns the updated batch. */
+export async function recordResultPinStockMovement(
+  batchId: number | string,
+  payload: RecordStockMovementPayload,
+): Promise<ResultPinBatch> {
+  const response = await apiFetch<ResultPinBatch | { data?: ResultPinBatch }>(
+    `${API_ROUTES.resultPinBatches}/${batchId}/movements`,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+    },
+  );
+  return unwrapData(response);
+}
+
+export interface ResultPinReconciliationRow {
+  batch: ResultPinBatch;
+  sold: number;
+  redeemed: number;
+  /** Sold cards nobody has redeemed yet. */
+  outstanding: number;
+  /**
+   * Cards redeemed beyond what was recorded as sold, which usually means a
+   * sale was not entered in the register.
+   */
+  unrecordedSales: number;
+  revenue: number | null;
+}
+
+export interface ResultPinReconciliation {
+  rows: ResultPinReconciliationRow[];
+  totals: {
+    printed: number;
+    issued: number;
+    sold: number;
+    redeemed: number;
+    outstanding: number;
+    unrecordedSales: number;
+    revenue: number | null;
+  };
+}
+
+/** Cards sold against cards redeemed, per batch and in total. */
+export function reconcileResultPinBatches(
+  batches: ResultPinBatch[],
+): ResultPinReconciliation {
+  const rows = batches.map((batch) => {
+    const sold = batch.stock?.sold ?? 0;
+    const redeemed = batch.stock?.redeemed ?? 0;
+    return {
+      batch,
+      sold,
+      redeemed,
+      outstanding: Math.max(0, sold - redeemed),
+      unrecordedSales: Math.max(0, redeemed - sold),
+      revenue: typeof batch.unit_price === "number" ? batch.unit_price * sold : null,
+    };
+  });
+
+  const sum = (pick: (row: ResultPinReconciliationRow) => number) =>
+    rows.reduce((total, row) => total + pick(row), 0);
+  const priced = rows.filter((row) => row.revenue !== null);
+
+  return {
+    rows,
+    totals: {
+      printed: sum((row) => row.batch.stock?.printed ?? 0),
+      issued: sum((row) => row.batch.stock?.issued ?? 0),
+      sold: sum((row) => row.sold),
+      redeemed: sum((row) => row.redeemed),
+      outstanding: sum((row) => row.outstanding),
+      unrecordedSales: sum((row) => row.unrecordedSales),
+      revenue: priced.length ? sum((row) => row.revenue ?? 0) : null,
+    },
+  };
+}
+
+export interface RedeemResultPinPayload {
+  pin_code: string;
+  serial_number: string;
+}
+
+/**
+ * Redeems a bought scratch card for the signed-in student. The first
+ * redemption binds the card to that student; it cannot be used by anyone
+ * else afterwards.
+ */
+export async function redeemResultPin(
+  payload: RedeemResultPinPayload,
+): Promise<ResultPin> {
+  const response = await apiFetch<PinMutationResponse | ResultPin>(
+    API_ROUTES.studentResultPinRedeem,
+    {
+      method: "POST",
+      body: JSON.stringify(payload),
+      authScope: "student",
+    },
+  );
+  return extractPin(response);
+}
@@ -0,0 +1,285 @@
+import { apiFetch } from "@/lib/apiClient";
+import { API_ROUTES } from "@/lib/config";
+
+/**
+ * Result publication for one class (and arm) in one term. Subject teachers
+ * submit their subjects; once every subject is in, the class teacher
+ * reviews, the principal approves, and publishing releases the results to
+ * the student and parent portals and the result print routes. Any stage
+ * can be sent back with a comment. The backend enforces all of this; the
+ * helpers here only decide what to show and enable.
+ */
+
+export type ResultPublicationStage =
+  | "draft"
+  | "submitted"
+  | "reviewed"
+  | "approved"
+  | "published";
+
+export const PUBLICATION_STAGES: Array<{ value: ResultPublicationStage; label: string }> = [
+  { value: "draft", label: "Draft" },
+  { value: "submitted", label: "Submitted" },
+  { value: "reviewed", label: "Reviewed" },
+  { value: "approved", label: "Approved" },
+  { value: "published", label: "Published" },
+];
+
+export const PUBLICATION_STAGE_LABELS = Object.fromEntries(
+  PUBLICATION_STAGES.map((stage) => [stage.value, stage.label]),
+) as Record<ResultPublicationStage, string>;
+
+export type ResultPublicationAction =
+  | "submit"
+  | "review"
+  | "approve"
+  | "publish"
+  | "send_back";
+
+/** Subjects only move between draft and submitted; later stages are per class. */
+export type SubjectPublicationStage = Extract<ResultPublicationStage, "draft" | "submitted">;
+
+export interface SubjectPublicationStatus {
+  subject_id: number | string;
+  subject_name: string;
+  stage: SubjectPublicationStage;
+  /** Students with a score for every assessment component. */
+  entered_count: number;
+  expected_count: number;
+  submitted_by?: string | null;
+  submitted_at?: string | null;
+  /** The comment left when this subject was last sent back. */
+  returned_comment?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ResultPublicationEvent {
+  id: number | string;
+  action: ResultPublicationAction;
+  from_stage: ResultPublicationStage;
+  to_stage: ResultPublicationStage;
+  /** Set when the event concerned particular subjects only. */
+  subject_ids?: Array<number | string> | null;
+  comment?: string | null;
+  actor_name?: string | null;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+export interface ClassResultPublication {
+  id: number | string;
+  session_id: number | string;
+  term_id: number | string;
+  school_class_id: number | string;
+  class_arm_id?: number | string | null;
+  class_name: string;
+  stage: ResultPublicationStage;
+  subjects: SubjectPublicationStatus[];
+  history?: ResultPublicationEvent[];
+  published_at?: string | null;
+  updated_at?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ResultPublicationScope {
+  session_id: number | string;
+  term_id: number | string;
+  school_class_id: number | string;
+  class_arm_id?: number | string | null;
+}
+
+export interface ResultPublicationMatrix {
+  subjects: Array<{ id: number | string; name: string }>;
+  classes: ClassResultPublication[];
+}
+
+function buildQuery(params: Record<string, string | number | null | undefined>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      search.append(key, String(value));
+    }
+  });
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+const unwrapData = <T>(payload: T | { data?: T }): T =>
+  payload && typeof payload === "object" && "data" in payload
+    ? ((payload as { data?: T }).data as T)
+    : (payload as T);
+
+/** The class's publication record; the backend starts one in draft on first read. */
+export async function fetchResultPublication(
+  scope: ResultPublicationScope,
+): Promise<ClassResultPublication> {
+  const payload = await apiFetch<ClassResultPublication | { data?: ClassResultPublication }>(
+    `${API_ROUTES.resultPublications}${buildQuery({
+      session_id: scope.session_id,
+      term_id: scope.term_id,
+      school_class_id: scope.school_class_id,
+      class_arm_id: scope.class_arm_id,
+    })}`,
+  );
+  const publication = unwrapData(payload);
+  return { ...publication, subjects: publication.subjects ?? [] };
+}
+
+/** Every class's publication status for a term, for the completion matrix. */
+export async function fetchResultPublicationMatrix(filters: {
+  session_id: number | string;
+  term_id: number | string;
+}): Promise<ResultPublicationMatrix> {
+  const payload = await apiFetch<ResultPublicationMatrix | { data?: ResultPublicationMatrix }>(
+    `${API_ROUTES.resultPublicationMatrix}${buildQuery(filters)}`,
+  );
+  const matrix = unwrapData(payload);
+  return {
+    subjects: Array.isArray(matrix?.subjects) ? matrix.subjects : [],
+    classes: Array.isArray(matrix?.classes)
+      ? matrix.classes.map((row) => ({ ...row, subjects: row.subjects ?? [] }))
+      : [],
+  };
+}
+
+export interface ResultPublicationTransition {
+  action: ResultPublicationAction;
+  comment?: string;
+  /** Which subjects to submit, or to send back to their teachers. */
+  subject_ids?: Array<number | string>;
+  /** For `send_back`: the earlier stage to return the class to. */
+  to_stage?: ResultPublicationStage;
+}
+
+export async function transitionResultPublication(
+  publicationId: number | string,
+  transition: ResultPublicationTransition,
+): Promise<ClassResultPublication> {
+  if (transition.action === "send_back" && !transition.comment?.trim()) {
+    throw new Error("Explain what needs correcting before sending results back.");
+  }
+  const payload = await apiFetch<ClassResultPublication | { data?: ClassResultPublication }>(
+    `${API_ROUTES.resultPublications}/${encodeURIComponent(String(publicationId))}/transitions`,
+    {
+      method: "POST",
+      body: JSON.stringify(transition),
+    },
+  );
+  const publication = unwrapData(payload);
+  return { ...publication, subjects: publication.subjects ?? [] };
+}
+
+/** What the signed-in user may do; filled from their permissions. */
+export interface PublicationCapabilities {
+  submit: boolean;
+  review: boolean;
+  approve: boolean;
+  publish: boolean;
+}
+
+const stageIndex = (stage: ResultPublicationStage) =>
+  PUBLICATION_STAGES.findIndex((entry) => entry.value === stage);
+
+/** The class stays in draft until every subject has been submitted. */
+export const allSubjectsSubmitted = (publication: ClassResultPublication) =>
+  publication.subjects.length > 0 &&
+  publication.subjects.every((subject) => subject.stage === "submitted");
+
+export const findSubjectStatus = (
+  publication: ClassResultPublication | null,
+  subjectId: number | string,
+) =>
+  publication?.subjects.find((subject) => String(subject.subject_id) === String(subjectId)) ??
+  null;
+
+/**
+ * Scores for a subject can no longer be changed once it has been submitted,
+ * or once the class has moved past submission, until someone sends it back.
+ */
+export function isSubjectLocked(
+  publication: ClassResultPublication | null,
+  subjectId: number | string,
+): boolean {
+  if (!publication) {
+    return false;
+  }
+  if (stageIndex(publication.stage) > stageIndex("submitted")) {
+    return true;
+  }
+  return findSubjectStatus(publication, subjectId)?.stage === "submitted";
+}
+
+/** The class-level action that moves the class out of its current stage. */
+const NEXT_ACTION: Partial<Record<ResultPublicationStage, ResultPublicationAction>> = {
+  submitted: "review",
+  reviewed: "approve",
+  approved: "publish",
+};
+
+export function nextPublicationAction(
+  publication: ClassResultPublication,
+): ResultPublicationAction | null {
+  if (publication.stage === "draft") {
+    return null;
+  }
+  if (publication.stage === "submitted" && !allSubjectsSubmitted(publication)) {
+    return null;
+  }
+  return NEXT_ACTION[publication.stage] ?? null;
+}
+
+export function canSubmitSubject(
+  publication: ClassResultPublication | null,
+  subjectId: number | string,
+  capabilities: PublicationCapabilities,
+): boolean {
+  if (!publication || !capabilities.submit) {
+    return false;
+  }
+  const subject = findSubjectStatus(publication, subjectId);
+  return Boolean(subject && subject.stage === "draft" && !isSubjectLocked(publication, subjectId));
+}
+
+export function canPerformAction(
+  publication: ClassResultPublication,
+  action: Exclude<ResultPublicationAction, "submit" | "send_back">,
+  capabilities: PublicationCapabilities,
+): boolean {
+  return nextPublicationAction(publication) === action && capabilities[action];
+}
+
+/**
+ * Whoever holds the next step may send the class back instead of taking it.
+ * Published results can be withdrawn by anyone allowed to publish.
+ */
+export function canSendBack(
+  publication: ClassResultPublication,
+  capabilities: PublicationCapabilities,
+): boolean {
+  if (publication.stage === "draft") {
+    return (
+      capabilities.review &&
+      publication.subjects.some((subject) => subject.stage === "submitted")
+    );
+  }
+  if (publication.stage === "published") {
+    return capabilities.publish;
+  }
+  const action = NEXT_ACTION[publication.stage];
+  return action === "review" || action === "approve" || action === "publish"
+    ? capabilities[action]
+    : false;
+}
+
+/**
+ * Stages the class can be sent back to from where it is now. Going back to
+ * draft returns chosen subjects to their teachers; in draft that is the
+ * only option, for subjects already submitted.
+ */
+export function sendBackTargets(publication: ClassResultPublication): ResultPublicationStage[] {
+  const current = stageIndex(publication.stage);
+  if (current === 0) {
+    return ["draft"];
+  }
+  return PUBLICATION_STAGES.slice(0, current).map((stage) => stage.value);
+}
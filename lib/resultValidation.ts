@@ -0,0 +1,217 @@
+import { AssessmentComponentStructureService } from "@/lib/assessmentComponentStructure";
+import type { ResultBatchEntry } from "@/lib/results";
+
+export interface ResultEntryViolation {
+  student_id: number | string;
+  subject_id: number | string;
+  message: string;
+}
+
+/** Thrown by `saveResultsBatch` before anything is sent when a score is
+ * outside the range its assessment structure allows. */
+export class ResultValidationError extends Error {
+  violations: ResultEntryViolation[];
+
+  constructor(message: string, violations: ResultEntryViolation[] = []) {
+    super(message);
+    this.name = "ResultValidationError";
+    this.violations = violations;
+  }
+}
+
+const formatMarks = (value: number) =>
+  Number.isInteger(value)
+    ? String(value)
+    : value.toFixed(2).replace(/\.?0+$/, "");
+
+/**
+ * Checks a typed score against the component's max score. Blank input is
+ * valid (nothing will be saved); anything else must be a number from 0 to
+ * the max.
+ */
+export function validateScoreInput(
+  value: string | number | null | undefined,
+  maxScore: number,
+): string | null {
+  const trimmed = String(value ?? "").trim();
+  if (!trimmed) {
+    return null;
+  }
+  const numeric = Number(trimmed);
+  if (!Number.isFinite(numeric) || numeric < 0 || numeric > maxScore) {
+    return `Score must be a number between 0 and ${formatMarks(maxScore)}.`;
+  }
+  return null;
+}
+
+export function assertValidResultEntries(
+  entries: ResultBatchEntry[],
+  maxScore: number,
+): void {
+  const violations = entries.flatMap((entry) => {
+    const message = validateScoreInput(entry.score, maxScore);
+    return message
+      ? [{ student_id: entry.student_id, subject_id: entry.subject_id, message }]
+      : [];
+  });
+  if (violations.length) {
+    throw new ResultValidationError(
+      violations.length === 1
+        ? violations[0].message
+        : `${violations.length} scores are outside the allowed range of 0 to ${formatMarks(maxScore)}.`,
+      violations,
+    );
+  }
+}
+
+/**
+ * Max scores from the structure that applies to each component for this
+ * class and term. Components the backend has no positive max for are left
+ * out, so callers can tell "not configured" apart from a real limit.
+ */
+export async function loadComponentMaxScores(params: {
+  componentIds: Array<number | string>;
+  classId: string;
+  termId?: string | null;
+}): Promise<Record<string, number>> {
+  const responses = await Promise.all(
+    params.componentIds.map((componentId) =>
+      (
+        AssessmentComponentStructureService.getMaxScore({
+          assessment_component_id: String(componentId),
+          class_id: params.classId,
+          term_id: params.termId || null,
+        }) as Promise<{ max_score?: number }>
+      ).catch((error) => {
+        console.error(
+          `Failed to fetch max score for component ${componentId}`,
+          error,
+        );
+        return null;
+      }),
+    ),
+  );
+
+  const maxScores: Record<string, number> = {};
+  responses.forEach((response, index) => {
+    const maxScore = Number(response?.max_score);
+    if (Number.isFinite(maxScore) && maxScore > 0) {
+      maxScores[String(params.componentIds[index])] = maxScore;
+    }
+  });
+  return maxScores;
+}
+
+export type ResultAnomalyKind =
+  | "missing_score"
+  | "all_zero"
+  | "duplicate_columns"
+  | "term_drop";
+
+export interface ResultAnomaly {
+  kind: ResultAnomalyKind;
+  /** Null for anomalies about whole columns rather than one student. */
+  studentId: string | null;
+  message: string;
+}
+
+export interface ResultAnomalyInput {
+  students: Array<{ id: string; name: string }>;
+  components: Array<{ id: string; name: string }>;
+  /** Score per `${studentId}-${componentId}`; missing keys are unrecorded. */
+  scores: Map<string, number>;
+  /** Subject totals from the previous term, keyed by student id. */
+  previousTotals?: Map<string, number> | null;
+  /** Flag students whose total fell by more than this many marks. */
+  dropThreshold: number;
+}
+
+/**
+ * Suspicious data in one class/subject sheet: students with missing
+ * component scores, rows that are all zeros, pairs of components whose
+ * columns are identical (usually a paste into the wrong column), and
+ * students whose total dropped sharply since last term.
+ */
+export function detectResultAnomalies(
+  input: ResultAnomalyInput,
+): ResultAnomaly[] {
+  const { students, components, scores } = input;
+  const anomalies: ResultAnomaly[] = [];
+  const scoreOf = (studentId: string, componentId: string) =>
+    scores.get(`${studentId}-${componentId}`);
+
+  students.forEach((student) => {
+    const missing = components.filter(
+      (component) => scoreOf(student.id, component.id) === undefined,
+    );
+    if (missing.length) {
+      anomalies.push({
+        kind: "missing_score",
+        studentId: student.id,
+        message:
+          missing.length === components.length
+            ? `${student.name} has no scores recorded.`
+            : `${student.name} has no score for ${missing
+                .map((component) => component.name)
+                .join(", ")}.`,
+      });
+    }
+
+    const recorded = components
+      .map((component) => scoreOf(student.id, component.id))
+      .filter((score): score is number => score !== undefined);
+    if (recorded.length > 1 && recorded.every((score) => score === 0)) {
+      anomalies.push({
+        kind: "all_zero",
+        studentId: student.id,
+        message: `${student.name} scored 0 in every recorded component.`,
+      });
+    }
+  });
+
+  for (let i = 0; i < components.length; i += 1) {
+    for (let j = i + 1; j < components.length; j += 1) {
+      const first = components[i];
+      const second = components[j];
+      let compared = 0;
+      const identical = students.every((student) => {
+        const a = scoreOf(student.id, first.id);
+        const b = scoreOf(student.id, second.id);
+        if (a !== undefined && b !== undefined) {
+          compared += 1;
+        }
+        return a === b;
+      });
+      if (identical && compared > 1) {
+        anomalies.push({
+          kind: "duplicate_columns",
+          studentId: null,
+          message: `${first.name} and ${second.name} have identical scores for every student.`,
+        });
+      }
+    }
+  }
+
+  if (input.previousTotals) {
+    students.forEach((student) => {
+      const previous = input.previousTotals?.get(student.id);
+      const recorded = components
+        .map((component) => scoreOf(student.id, component.id))
+        .filter((score): score is number => score !== undefined);
+      if (previous === undefined || !recorded.length) {
+        return;
+      }
+      const total = recorded.reduce((sum, score) => sum + score, 0);
+      const drop = previous - total;
+      if (drop > input.dropThreshold) {
+        anomalies.push({
+          kind: "term_drop",
+          studentId: student.id,
+          message: `${student.name} dropped ${formatMarks(drop)} marks, from ${formatMarks(previous)} last term to ${formatMarks(total)}.`,
+        });
+      }
+    });
+  }
+
+  return anomalies;
+}
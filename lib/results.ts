@@ -1,5 +1,7 @@
 import { API_ROUTES } from "@/lib/config";
 import { apiFetch } from "@/lib/apiClient";
+import { findGradeRange, type GradeRange } from "@/lib/gradeScales";
+import { assertValidResultEntries } from "@/lib/resultValidation";
 
 export interface ResultRecord {
   id: number | string;
@@ -156,9 +158,21 @@ export interface SaveResultsResult {
   meta?: Record<string, unknown>;
 }
 
+export interface SaveResultsOptions {
+  /** The applicable structure's max score for the payload's component.
+   * When given, out-of-range scores throw a `ResultValidationError` and
+   * nothing is sent. */
+  maxScore?: number | null;
+}
+
 export async function saveResultsBatch(
   payload: SaveResultsPayload,
+  options: SaveResultsOptions = {},
 ): Promise<SaveResultsResult> {
+  if (options.maxScore != null) {
+    assertValidResultEntries(payload.entries, options.maxScore);
+  }
+
   const raw = await apiFetch<ResultBatchResponse>(API_ROUTES.resultBatch, {
     method: "POST",
     body: JSON.stringify(payload),
@@ -185,3 +199,195 @@ export async function saveResultsBatch(
     meta: raw?.meta,
   };
 }
+
+/**
+ * Each student's subject total for a term, summed across components. Used
+ * to compare against the previous term, so the class filter is optional:
+ * students may have been promoted since. Component scores win over a
+ * plain subject score when a student somehow has both, so nothing is
+ * counted twice.
+ */
+export async function fetchSubjectTermTotals(
+  filters: Pick<
+    ResultFilters,
+    "session_id" | "term_id" | "subject_id" | "school_class_id"
+  >,
+): Promise<Map<string, number>> {
+  const componentTotals = new Map<string, number>();
+  const plainTotals = new Map<string, number>();
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await listResults({ ...filters, per_page: 500, page });
+    response.data.forEach((result) => {
+      const key = String(result.student_id);
+      const target = result.assessment_component_id
+        ? componentTotals
+        : plainTotals;
+      target.set(key, (target.get(key) ?? 0) + (Number(result.total_score) || 0));
+    });
+    lastPage = response.last_page || page;
+    page += 1;
+  } while (page <= lastPage);
+
+  plainTotals.forEach((total, key) => {
+    if (!componentTotals.has(key)) {
+      componentTotals.set(key, total);
+    }
+  });
+  return componentTotals;
+}
+
+/**
+ * Each student's session average per subject: the subject's term totals
+ * (components summed, as in `fetchSubjectTermTotals`) averaged over the
+ * terms that have a score. Keyed by student id, then subject id.
+ */
+export async function fetchSessionSubjectAverages(
+  filters: Pick<ResultFilters, "session_id" | "school_class_id" | "class_arm_id">,
+): Promise<Map<string, Map<string, number>>> {
+  const componentTotals = new Map<string, number>();
+  const plainTotals = new Map<string, number>();
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await listResults({ ...filters, per_page: 500, page });
+    response.data.forEach((result) => {
+      const key = [result.student_id, result.subject_id, result.term_id].join(":");
+      const target = result.assessment_component_id
+        ? componentTotals
+        : plainTotals;
+      target.set(key, (target.get(key) ?? 0) + (Number(result.total_score) || 0));
+    });
+    lastPage = response.last_page || page;
+    page += 1;
+  } while (page <= lastPage);
+
+  plainTotals.forEach((total, key) => {
+    if (!componentTotals.has(key)) {
+      componentTotals.set(key, total);
+    }
+  });
+
+  const termTotals = new Map<string, Map<string, number[]>>();
+  componentTotals.forEach((total, key) => {
+    const [studentId, subjectId] = key.split(":");
+    const subjects = termTotals.get(studentId) ?? new Map<string, number[]>();
+    subjects.set(subjectId, [...(subjects.get(subjectId) ?? []), total]);
+    termTotals.set(studentId, subjects);
+  });
+
+  const averages = new Map<string, Map<string, number>>();
+  termTotals.forEach((subjects, studentId) => {
+    const studentAverages = new Map<string, number>();
+    subjects.forEach((totals, subjectId) => {
+      studentAverages.set(
+        subjectId,
+        totals.reduce((sum, total) => sum + total, 0) / totals.length,
+      );
+    });
+    averages.set(studentId, studentAverages);
+  });
+  return averages;
+}
+
+/**
+ * Competition ranking: equal scores share a position and the positions they
+ * occupy are skipped for the next score (1st, 1st, 3rd).
+ */
+export function rankScores<K>(
+  entries: Array<{ key: K; score: number }>,
+): Map<K, number> {
+  const sorted = [...entries].sort((a, b) => b.score - a.score);
+  const ranks = new Map<K, number>();
+  sorted.forEach((entry, index) => {
+    const previous = index > 0 ? sorted[index - 1] : null;
+    const rank =
+      previous && previous.score === entry.score
+        ? (ranks.get(previous.key) ?? index + 1)
+        : index + 1;
+    ranks.set(entry.key, rank);
+  });
+  return ranks;
+}
+
+export function formatPosition(position: number): string {
+  const mod100 = position % 100;
+  if (mod100 >= 11 && mod100 <= 13) {
+    return `${position}th`;
+  }
+  switch (position % 10) {
+    case 1:
+      return `${position}st`;
+    case 2:
+      return `${position}nd`;
+    case 3:
+      return `${position}rd`;
+    default:
+      return `${position}th`;
+  }
+}
+
+export interface SubjectScorePreviewRow<K> {
+  key: K;
+  /** Sum of the component scores entered so far; null when none are. */
+  total: number | null;
+  grade: GradeRange | null;
+  position: number | null;
+}
+
+export interface SubjectScorePreview<K> {
+  rows: SubjectScorePreviewRow<K>[];
+  average: number | null;
+  highest: number | null;
+  lowest: number | null;
+  scoredCount: number;
+}
+
+/**
+ * Subject totals, grades and positions for one class, computed the way the
+ * report card does. Students without any score are left unranked and out of
+ * the class statistics rather than counted as zero.
+ */
+export function summarizeSubjectScores<K>(
+  entries: Array<{ key: K; scores: Array<number | null> }>,
+  ranges: GradeRange[],
+): SubjectScorePreview<K> {
+  const totals = entries.map((entry) => {
+    const recorded = entry.scores.filter(
+      (score): score is number => score !== null && Number.isFinite(score),
+    );
+    return {
+      key: entry.key,
+      total: recorded.length
+        ? Math.round(recorded.reduce((sum, score) => sum + score, 0) * 100) / 100
+        : null,
+    };
+  });
+
+  const scored = totals.filter(
+    (entry): entry is { key: K; total: number } => entry.total !== null,
+  );
+  const positions = rankScores(
+    scored.map((entry) => ({ key: entry.key, score: entry.total })),
+  );
+  const values = scored.map((entry) => entry.total);
+
+  return {
+    rows: totals.map((entry) => ({
+      key: entry.key,
+      total: entry.total,
+      grade:
+        entry.total !== null && ranges.length
+          ? findGradeRange(ranges, entry.total)
+          : null,
+      position: positions.get(entry.key) ?? null,
+    })),
+    average: values.length
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : null,
+    highest: values.length ? Math.max(...values) : null,
+    lowest: values.length ? Math.min(...values) : null,
+    scoredCount: values.length,
+  };
+}
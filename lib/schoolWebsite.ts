@@ -93,13 +93,71 @@ export interface WebsiteEnabledSections {
   programmes: boolean;
   admissions: boolean;
   contact: boolean;
+  news: boolean;
+  events: boolean;
+  gallery: boolean;
 }
 
+/** A news post, listed on /news and shown in full on /news/{slug}. */
+export interface WebsiteNewsPost {
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string;
+  /** Sanitised HTML from the rich-text editor -- see sanitizeRichText(). */
+  bodyHtml: string;
+  coverImageUrl: string | null;
+  /** YYYY-MM-DD; newest first on the public site. */
+  publishedOn: string;
+}
+
+export interface WebsiteEvent {
+  id: string;
+  title: string;
+  description: string;
+  /** YYYY-MM-DD. */
+  startDate: string;
+  /** YYYY-MM-DD, for events spanning several days. */
+  endDate: string | null;
+  /** HH:mm, school-local time. */
+  startTime: string | null;
+  location: string;
+}
+
+export interface WebsiteGalleryPhoto {
+  id: string;
+  imageUrl: string;
+  caption: string;
+}
+
+export interface WebsiteGalleryAlbum {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  /** Falls back to the first photo on the public site when null. */
+  coverImageUrl: string | null;
+  photos: WebsiteGalleryPhoto[];
+}
+
+/** A school-authored static page served at /{slug}. */
+export interface WebsiteCustomPage {
+  id: string;
+  slug: string;
+  title: string;
+  bodyHtml: string;
+  showInNav: boolean;
+  /** Shorter label for the nav bar; the title is used when empty. */
+  navLabel: string;
+}
+
+export const WEBSITE_CONTRACT_VERSION = 2;
+
 /** The full website contract, as returned by GET /api/v1/school/website. */
 export interface SchoolWebsite {
   id: string;
   schoolId: string;
-  contractVersion: 1;
+  contractVersion: typeof WEBSITE_CONTRACT_VERSION;
   status: SchoolWebsiteStatus;
   themeKey: string;
   branding: WebsiteBranding;
@@ -112,6 +170,10 @@ export interface SchoolWebsite {
   admissions: WebsiteAdmissions;
   contact: WebsiteContact;
   socialLinks: WebsiteSocialLinks;
+  news: WebsiteNewsPost[];
+  events: WebsiteEvent[];
+  gallery: WebsiteGalleryAlbum[];
+  pages: WebsiteCustomPage[];
   enabledSections: WebsiteEnabledSections;
   publishedAt: string | null;
   createdAt: string;
@@ -135,9 +197,34 @@ type SchoolWebsiteResponse = SchoolWebsite | { data: SchoolWebsite };
  */
 function unwrap(payload: SchoolWebsiteResponse): SchoolWebsite {
   if (payload && typeof payload === "object" && "data" in payload) {
-    return (payload as { data: SchoolWebsite }).data;
+    return upgradeContract((payload as { data: SchoolWebsite }).data);
   }
-  return payload as SchoolWebsite;
+  return upgradeContract(payload as SchoolWebsite);
+}
+
+/**
+ * Records saved under contract v1 have no news/events/gallery/pages and no
+ * toggles for them. Fill those in (empty, hidden) so the editor always works
+ * on a v2 shape; the next save writes the record back as v2.
+ */
+function upgradeContract(website: SchoolWebsite): SchoolWebsite {
+  const legacy = website as Partial<SchoolWebsite> & SchoolWebsite;
+  const sections = website.enabledSections as Partial<WebsiteEnabledSections> &
+    WebsiteEnabledSections;
+  return {
+    ...website,
+    contractVersion: WEBSITE_CONTRACT_VERSION,
+    news: Array.isArray(legacy.news) ? legacy.news : [],
+    events: Array.isArray(legacy.events) ? legacy.events : [],
+    gallery: Array.isArray(legacy.gallery) ? legacy.gallery : [],
+    pages: Array.isArray(legacy.pages) ? legacy.pages : [],
+    enabledSections: {
+      ...sections,
+      news: sections.news ?? false,
+      events: sections.events ?? false,
+      gallery: sections.gallery ?? false,
+    },
+  };
 }
 
 export async function getSchoolWebsite(): Promise<SchoolWebsite | null> {
@@ -350,7 +437,7 @@ export function createDefaultSchoolWebsite(school: School): SchoolWebsitePayload
   const email = school.email?.trim() || "";
 
   return {
-    contractVersion: 1,
+    contractVersion: WEBSITE_CONTRACT_VERSION,
     status: "draft",
     themeKey: THEME_KEY,
     branding: {
@@ -412,6 +499,12 @@ export function createDefaultSchoolWebsite(school: School): SchoolWebsitePayload
       youtube: null,
       x: null,
     },
+    // Unlike highlights/programmes, v2 accepts these empty -- a school with
+    // no news yet simply has no News page.
+    news: [],
+    events: [],
+    gallery: [],
+    pages: [],
     enabledSections: {
       hero: true,
       highlights: false,
@@ -419,6 +512,118 @@ export function createDefaultSchoolWebsite(school: School): SchoolWebsitePayload
       programmes: false,
       admissions: false,
       contact: false,
+      news: false,
+      events: false,
+      gallery: false,
     },
   };
 }
+
+/**
+ * Paths the public site already serves. A custom page or an album/post
+ * slug that collides with one would be unreachable, so the editor rejects
+ * them before save.
+ */
+export const RESERVED_PAGE_SLUGS = [
+  "about",
+  "admissions",
+  "apply",
+  "contact",
+  "events",
+  "gallery",
+  "news",
+  "preview",
+  "programmes",
+];
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Checks the slugs of the multi-page content before save. Returns a
+ * message for the first problem found, or null when everything is
+ * routable. The backend enforces the same rules; this just catches them
+ * before a round trip.
+ */
+export function findSlugProblem(payload: SchoolWebsitePayload): string | null {
+  const groups: [string, { slug: string; title: string }[]][] = [
+    ["News post", payload.news],
+    ["Album", payload.gallery],
+    ["Page", payload.pages],
+  ];
+  for (const [label, items] of groups) {
+    const seen = new Set<string>();
+    for (const item of items) {
+      const name = item.title.trim() || "Untitled";
+      if (!SLUG_PATTERN.test(item.slug)) {
+        return `${label} "${name}" needs a web address made of lowercase letters, numbers and dashes.`;
+      }
+      if (seen.has(item.slug)) {
+        return `Two ${label.toLowerCase()}s share the web address "${item.slug}".`;
+      }
+      if (label === "Page" && RESERVED_PAGE_SLUGS.includes(item.slug)) {
+        return `Page "${name}" can't use "/${item.slug}" -- the website already has a page there.`;
+      }
+      seen.add(item.slug);
+    }
+  }
+  return null;
+}
+
+const RICH_TEXT_TAGS = new Set([
+  "A", "B", "BLOCKQUOTE", "BR", "EM", "H2", "H3", "I", "LI", "OL", "P", "STRONG", "U", "UL",
+]);
+
+/**
+ * Reduces editor HTML to the small set of tags the public themes style.
+ * Anything else (scripts, styles, pasted Word markup, inline handlers) is
+ * unwrapped or dropped; links keep only an http(s)/mailto href.
+ */
+export function sanitizeRichText(html: string): string {
+  if (typeof window === "undefined") {
+    return html;
+  }
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, "text/html");
+  const root = doc.body.firstElementChild;
+  if (!root) {
+    return "";
+  }
+
+  const clean = (node: Element) => {
+    Array.from(node.children).forEach((child) => {
+      if (child.tagName === "SCRIPT" || child.tagName === "STYLE") {
+        child.remove();
+        return;
+      }
+      clean(child);
+      if (!RICH_TEXT_TAGS.has(child.tagName)) {
+        const replacement = child.tagName === "DIV" ? doc.createElement("p") : null;
+        if (replacement) {
+          replacement.append(...Array.from(child.childNodes));
+          child.replaceWith(replacement);
+        } else {
+          child.replaceWith(...Array.from(child.childNodes));
+        }
+        return;
+      }
+      const href = child.tagName === "A" ? child.getAttribute("href") ?? "" : "";
+      Array.from(child.attributes).forEach((attribute) => {
+        child.removeAttribute(attribute.name);
+      });
+      // Site-relative paths only: "//host" and "/\host" point off-site.
+      if (child.tagName === "A" && /^(https?:|mailto:|\/(?![/\\]))/i.test(href)) {
+        child.setAttribute("href", href);
+      }
+    });
+  };
+
+  clean(root);
+  return root.innerHTML.trim();
+}
@@ -0,0 +1,143 @@
+import { execFile } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+/**
+ * HTML → PDF using a headless Chrome/Chromium on the server. The binary is
+ * set with PRINT_PDF_CHROME_PATH; without it, PDF downloads are switched off
+ * and callers get a PdfRendererUnavailableError.
+ *
+ * The HTML comes from the backend, so Chrome keeps its sandbox, runs no
+ * scripts and never sees a file:// page: the document is served once from
+ * a loopback address under a random path. Renders beyond
+ * PRINT_PDF_MAX_CONCURRENT (default 2) wait for a free slot.
+ */
+
+const CHROME_PATH = (process.env.PRINT_PDF_CHROME_PATH ?? "").trim();
+const RENDER_TIMEOUT_MS = 45_000;
+const MAX_CONCURRENT_RENDERS = Math.max(
+  1,
+  Number.parseInt(process.env.PRINT_PDF_MAX_CONCURRENT ?? "", 10) || 2,
+);
+
+let activeRenders = 0;
+const waitingRenders: Array<() => void> = [];
+
+async function acquireRenderSlot(): Promise<void> {
+  if (activeRenders < MAX_CONCURRENT_RENDERS) {
+    activeRenders += 1;
+    return;
+  }
+  // The slot is handed over directly by releaseRenderSlot.
+  await new Promise<void>((resolve) => waitingRenders.push(resolve));
+}
+
+function releaseRenderSlot(): void {
+  const next = waitingRenders.shift();
+  if (next) {
+    next();
+  } else {
+    activeRenders -= 1;
+  }
+}
+
+export class PdfRendererUnavailableError extends Error {
+  constructor() {
+    super("PDF download isn't set up on this server. Use Print instead.");
+    this.name = "PdfRendererUnavailableError";
+  }
+}
+
+export function isPdfRenderingEnabled(): boolean {
+  return CHROME_PATH.length > 0;
+}
+
+/**
+ * Relative links in the backend's HTML (logos, signatures, stylesheets)
+ * point at the backend, so give the page a base URL before rendering it
+ * from the loopback server.
+ */
+function withBaseUrl(html: string, baseUrl: string): string {
+  const baseTag = `<base href="${baseUrl.replace(/"/g, "&quot;")}/">`;
+  if (/<base\s/i.test(html)) {
+    return html;
+  }
+  if (/<head[^>]*>/i.test(html)) {
+    return html.replace(/<head[^>]*>/i, (match) => `${match}${baseTag}`);
+  }
+  return `${baseTag}${html}`;
+}
+
+/** Serves the document at one unguessable loopback URL until closed. */
+async function serveDocument(html: string): Promise<{ url: string; server: Server }> {
+  const documentPath = `/${randomBytes(16).toString("hex")}.html`;
+  const body = Buffer.from(html, "utf-8");
+  const server = createServer((request, response) => {
+    if (request.method !== "GET" || request.url !== documentPath) {
+      response.writeHead(404).end();
+      return;
+    }
+    response.writeHead(200, {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Length": body.length,
+      "Content-Security-Policy": "script-src 'none'",
+    });
+    response.end(body);
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}${documentPath}`, server };
+}
+
+export async function renderPdf(html: string, baseUrl: string): Promise<Buffer> {
+  if (!isPdfRenderingEnabled()) {
+    throw new PdfRendererUnavailableError();
+  }
+
+  await acquireRenderSlot();
+  let workDir: string | null = null;
+  let server: Server | null = null;
+
+  try {
+    workDir = await mkdtemp(path.join(tmpdir(), "print-pdf-"));
+    const outputPath = path.join(workDir, "document.pdf");
+    const served = await serveDocument(withBaseUrl(html, baseUrl));
+    server = served.server;
+    const profileDir = path.join(workDir, "profile");
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        CHROME_PATH,
+        [
+          "--headless=new",
+          "--disable-gpu",
+          "--no-first-run",
+          "--no-pdf-header-footer",
+          "--blink-settings=scriptEnabled=false",
+          "--disable-extensions",
+          // Give images and fonts time to load before printing.
+          "--virtual-time-budget=10000",
+          `--user-data-dir=${profileDir}`,
+          `--print-to-pdf=${outputPath}`,
+          served.url,
+        ],
+        { timeout: RENDER_TIMEOUT_MS },
+        (error) => (error ? reject(error) : resolve()),
+      );
+    });
+    return await readFile(outputPath);
+  } finally {
+    server?.closeAllConnections();
+    server?.close();
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+    releaseRenderSlot();
+  }
+}
@@ -0,0 +1,378 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BACKEND_URL } from "@/lib/config";
+import {
+  PdfRendererUnavailableError,
+  renderPdf,
+} from "@/lib/server/pdfRenderer";
+import {
+  PRINT_TICKET_AUDIENCES,
+  readSession,
+  redeemPrintTicket,
+  refreshSessionCookie,
+  type PrintTicketAudience,
+  type SessionToken,
+} from "@/lib/server/session";
+import { tokenFingerprint } from "@/lib/server/sessionCipher";
+
+/**
+ * Shared handler for the printable-document routes. Each route describes
+ * its backend endpoint and the filters it accepts; the gateway resolves the
+ * session, forwards only those filters, renders errors the same way
+ * everywhere, optionally turns the HTML into a PDF (`?format=pdf`), and
+ * briefly caches identical requests. Documents the backend does not render
+ * itself are built by the route's `renderHtml` from backend JSON instead.
+ */
+
+type PrintParams = Record<string, string>;
+
+export interface PrintRenderContext {
+  /** The accepted filters, as they would be forwarded to a backend path. */
+  params: PrintParams;
+  /** GET a backend JSON endpoint with the caller's session token only. */
+  fetchJson: <T>(path: string) => Promise<T>;
+}
+
+interface PrintRouteBaseConfig {
+  /** What is being printed, e.g. "Broadsheet". Used in the error page. */
+  documentLabel: string;
+  /**
+   * Staff routes read the staff session cookie and take filters from the
+   * query. Ticket routes take their filters from a signed print ticket.
+   */
+  auth: "staff" | { ticket: PrintTicketAudience };
+  requiredParams: readonly string[];
+  optionalParams?: readonly string[];
+  /** Always sent to the backend, whatever the caller asked for. */
+  fixedParams?: PrintParams;
+  /**
+   * Staff result documents: ask the backend to leave out anything not yet
+   * published (see lib/resultPublication.ts). It answers 423 when there is
+   * nothing published to show. Student and parent routes need no flag: the
+   * backend never returns unpublished results to those sessions.
+   */
+  publishedResultsOnly?: boolean;
+  /** Shown when the backend fails without a readable message. */
+  fallbackMessage: string;
+  statusMessages?: Partial<Record<number, string>>;
+}
+
+export type PrintRouteConfig = PrintRouteBaseConfig &
+  (
+    | { backendPath: string | ((params: PrintParams) => string); renderHtml?: never }
+    | { renderHtml: (context: PrintRenderContext) => Promise<string>; backendPath?: never }
+  );
+
+const DEFAULT_STATUS_MESSAGES: Partial<Record<number, string>> = {
+  401: "Your session has expired. Please log in again.",
+  403: "You do not have permission to print this document.",
+  423: "These results have not been published yet.",
+};
+
+// Query parameters that steer the browser's print dialog; meaningless in a PDF.
+const BROWSER_ONLY_PARAMS = ["autoprint"];
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export function buildPrintErrorHtml(documentLabel: string, message: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(documentLabel)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; padding: 2rem; background: #f8fafc; color: #0f172a; }
+    .card { max-width: 640px; margin: 0 auto; background: #fff; border-radius: 12px; padding: 1.5rem; box-shadow: 0 10px 30px rgba(15,23,42,0.12); text-align: center; }
+    h1 { font-size: 1.4rem; margin-bottom: 0.5rem; }
+    p { margin-bottom: 1rem; }
+    button { padding:0.6rem 1.2rem;border:none;border-radius:6px;background:#0f172a;color:#fff;cursor:pointer; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>Unable to Prepare ${escapeHtml(documentLabel)}</h1>
+    <p>${escapeHtml(message)}</p>
+    <button onclick="window.close()">Close</button>
+  </div>
+</body>
+</html>`;
+}
+
+export function printErrorResponse(
+  documentLabel: string,
+  message: string,
+  status: number,
+): NextResponse {
+  return new NextResponse(buildPrintErrorHtml(documentLabel, message), {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/**
+ * A failure with a message fit for the user; `renderHtml` throws it for its
+ * own checks too (e.g. nothing found for the filters).
+ */
+export class PrintBackendError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "PrintBackendError";
+    this.status = status;
+  }
+}
+
+async function readBackendError(
+  response: Response,
+  config: PrintRouteConfig,
+): Promise<string> {
+  let message = "";
+  const contentType = response.headers.get("content-type") || "";
+
+  if (contentType.includes("application/json")) {
+    const data = await response.json().catch(() => null);
+    message = data?.message || data?.error || "";
+  } else {
+    message = (await response.text().catch(() => "")).trim();
+  }
+
+  // Laravel's HTML error pages are no use in a message box.
+  if (!message || /^<\s*(!DOCTYPE|html)/i.test(message)) {
+    return (
+      config.statusMessages?.[response.status] ??
+      DEFAULT_STATUS_MESSAGES[response.status] ??
+      config.fallbackMessage
+    );
+  }
+  return message;
+}
+
+interface PrintDocument {
+  body: Buffer;
+  contentType: string;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  document: Promise<PrintDocument>;
+}
+
+const CACHE_TTL_MS =
+  Math.max(0, Number(process.env.PRINT_CACHE_TTL_SECONDS ?? "60") || 0) * 1000;
+const CACHE_MAX_ENTRIES = 40;
+
+// Keyed by session, format and the exact backend URL, so one user's
+// documents are never served to another. Pending renders are shared too,
+// which stops a double-clicked "Download PDF" from rendering twice.
+const printCache = new Map<string, CacheEntry>();
+
+function cachedDocument(
+  key: string,
+  load: () => Promise<PrintDocument>,
+): { document: Promise<PrintDocument>; hit: boolean } {
+  if (CACHE_TTL_MS === 0) {
+    return { document: load(), hit: false };
+  }
+
+  const now = Date.now();
+  for (const [entryKey, entry] of printCache) {
+    if (entry.expiresAt <= now) {
+      printCache.delete(entryKey);
+    }
+  }
+
+  const existing = printCache.get(key);
+  if (existing) {
+    return { document: existing.document, hit: true };
+  }
+
+  const document = load();
+  printCache.set(key, { expiresAt: now + CACHE_TTL_MS, document });
+  document.catch(() => printCache.delete(key));
+
+  while (printCache.size > CACHE_MAX_ENTRIES) {
+    const oldest = printCache.keys().next().value;
+    if (oldest === undefined) break;
+    printCache.delete(oldest);
+  }
+
+  return { document, hit: false };
+}
+
+function resolveAuth(
+  request: NextRequest,
+  config: PrintRouteConfig,
+): { session: SessionToken | null; params: PrintParams | null } {
+  if (config.auth === "staff") {
+    const session = readSession(request.cookies, "staff");
+    const params: PrintParams = {};
+    request.nextUrl.searchParams.forEach((value, name) => {
+      if (value.trim()) params[name] = value;
+    });
+    return { session, params };
+  }
+
+  const audience = config.auth.ticket;
+  const session = readSession(request.cookies, PRINT_TICKET_AUDIENCES[audience].scope);
+  return {
+    session,
+    params: redeemPrintTicket(request.nextUrl.searchParams.get("ticket"), audience, session),
+  };
+}
+
+export function createPrintRoute(config: PrintRouteConfig) {
+  const allowedParams = [...config.requiredParams, ...(config.optionalParams ?? [])];
+
+  return async function GET(request: NextRequest): Promise<NextResponse> {
+    const label = config.documentLabel;
+    const format = request.nextUrl.searchParams.get("format") === "pdf" ? "pdf" : "html";
+    // Pages that download with fetch() ask for JSON so they can show the
+    // message inline; a tab opened on the route gets the HTML error page.
+    const wantsJson = (request.headers.get("accept") ?? "").includes("application/json");
+    const fail = (message: string, status: number) =>
+      wantsJson
+        ? NextResponse.json({ message }, { status, headers: { "Cache-Control": "no-store" } })
+        : printErrorResponse(label, message, status);
+
+    try {
+      const { session, params } = resolveAuth(request, config);
+
+      if (!session) {
+        return fail(DEFAULT_STATUS_MESSAGES[401] as string, 401);
+      }
+      if (!params) {
+        return fail(
+          "This print link has expired. Go back and choose Print again.",
+          401,
+        );
+      }
+
+      const missing = config.requiredParams.filter((name) => !params[name]);
+      if (missing.length > 0) {
+        return fail(
+          `Missing required filters: ${missing.join(", ")}`,
+          400,
+        );
+      }
+
+      const forwarded: PrintParams = {};
+      allowedParams.forEach((name) => {
+        if (params[name] && !(format === "pdf" && BROWSER_ONLY_PARAMS.includes(name))) {
+          forwarded[name] = params[name];
+        }
+      });
+
+      const backendHeaders = {
+        "X-Requested-With": "XMLHttpRequest",
+        Authorization: `Bearer ${session.token}`,
+      };
+      const sendParams: PrintParams = {
+        ...forwarded,
+        ...config.fixedParams,
+        ...(config.publishedResultsOnly ? { published_only: "1" } : {}),
+      };
+
+      let source: string;
+      let loadHtml: () => Promise<{ html: string; contentType: string | null }>;
+      if (config.renderHtml) {
+        const renderHtml = config.renderHtml;
+        source = `${request.nextUrl.pathname}?${new URLSearchParams(sendParams).toString()}`;
+        loadHtml = async () => ({
+          html: await renderHtml({
+            params: sendParams,
+            fetchJson: async <T,>(path: string) => {
+              const response = await fetch(`${BACKEND_URL}${path}`, {
+                headers: { ...backendHeaders, Accept: "application/json" },
+                cache: "no-store",
+              });
+              if (!response.ok) {
+                throw new PrintBackendError(
+                  await readBackendError(response, config),
+                  response.status,
+                );
+              }
+              return (await response.json()) as T;
+            },
+          }),
+          contentType: null,
+        });
+      } else {
+        const backendPath =
+          typeof config.backendPath === "function"
+            ? config.backendPath(forwarded)
+            : config.backendPath;
+        const backendUrl = new URL(`${BACKEND_URL}${backendPath}`);
+        Object.entries(sendParams).forEach(([name, value]) =>
+          backendUrl.searchParams.set(name, value),
+        );
+        source = backendUrl.toString();
+        loadHtml = async () => {
+          const response = await fetch(source, {
+            headers: { ...backendHeaders, Accept: "text/html" },
+            cache: "no-store",
+          });
+
+          if (!response.ok) {
+            throw new PrintBackendError(
+              await readBackendError(response, config),
+              response.status,
+            );
+          }
+          return {
+            html: await response.text(),
+            contentType: response.headers.get("content-type"),
+          };
+        };
+      }
+
+      const cacheKey = [format, tokenFingerprint(session.token), source].join("|");
+      const { document, hit } = cachedDocument(cacheKey, async () => {
+        const { html, contentType } = await loadHtml();
+        if (format === "pdf") {
+          return {
+            body: await renderPdf(html, BACKEND_URL),
+            contentType: "application/pdf",
+          };
+        }
+        return {
+          body: Buffer.from(html, "utf-8"),
+          contentType: contentType ?? "text/html; charset=utf-8",
+        };
+      });
+
+      const { body, contentType } = await document;
+      const headers = new Headers({
+        "Content-Type": contentType,
+        "Cache-Control": "private, no-store",
+        "X-Print-Cache": hit ? "hit" : "miss",
+      });
+      if (format === "pdf") {
+        headers.set("Content-Disposition", `attachment; filename="${label}.pdf"`);
+      }
+
+      const response = new NextResponse(new Uint8Array(body), { status: 200, headers });
+      refreshSessionCookie(response, session);
+      return response;
+    } catch (error) {
+      if (error instanceof PrintBackendError) {
+        return fail(error.message, error.status);
+      }
+      if (error instanceof PdfRendererUnavailableError) {
+        return fail(error.message, 501);
+      }
+      console.error(`${label} print route failed`, error);
+      return fail(
+        `Unexpected error while generating the ${label.toLowerCase()}.`,
+        500,
+      );
+    }
+  };
+}
@@ -0,0 +1,183 @@
+import type { NextResponse } from "next/server";
+import type { AuthScope } from "@/lib/apiClient";
+import { API_ROUTES } from "@/lib/config";
+import {
+  openToken,
+  sealToken,
+  signPayload,
+  tokenFingerprint,
+  verifySignedPayload,
+} from "@/lib/server/sessionCipher";
+
+/**
+ * Server-side session cookies. Each portal keeps its bearer token in its own
+ * httpOnly cookie, sealed with AES-GCM, so a parent and a staff member can be
+ * signed in on the same browser and page scripts never see a token.
+ */
+
+export const AUTH_SCOPES: AuthScope[] = ["staff", "student", "parent"];
+
+export const SESSION_COOKIES: Record<AuthScope, string> = {
+  staff: "token",
+  student: "student_token",
+  parent: "parent_token",
+};
+
+export const SESSION_ENDPOINTS: Record<AuthScope, { login: string; logout: string }> = {
+  staff: { login: API_ROUTES.login, logout: API_ROUTES.logout },
+  student: { login: "/api/v1/student/login", logout: "/api/v1/student/logout" },
+  parent: { login: "/api/v1/parent/login", logout: "/api/v1/parent/logout" },
+};
+
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export function isAuthScope(value: unknown): value is AuthScope {
+  return typeof value === "string" && (AUTH_SCOPES as string[]).includes(value);
+}
+
+interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+export interface SessionToken {
+  scope: AuthScope;
+  token: string;
+  /** Set when the cookie was in a legacy or rotated format. */
+  stale: boolean;
+}
+
+export function readSession(
+  cookieStore: CookieReader,
+  scope: AuthScope,
+): SessionToken | null {
+  const cookieName = SESSION_COOKIES[scope];
+  const opened = openToken(cookieStore.get(cookieName)?.value, cookieName);
+  return opened ? { scope, ...opened } : null;
+}
+
+export function writeSessionCookie(
+  response: NextResponse,
+  scope: AuthScope,
+  token: string,
+): void {
+  const cookieName = SESSION_COOKIES[scope];
+  response.cookies.set(cookieName, sealToken(token, cookieName), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse, scope: AuthScope): void {
+  response.cookies.set(SESSION_COOKIES[scope], "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
+
+/**
+ * Reseal a legacy or rotated cookie with the current key. Call on any
+ * response that followed a successful readSession.
+ */
+export function refreshSessionCookie(
+  response: NextResponse,
+  session: SessionToken | null,
+): void {
+  if (session?.stale) {
+    writeSessionCookie(response, session.scope, session.token);
+  }
+}
+
+/**
+ * Print tickets let a new tab open a printable page without putting a
+ * token in the URL. A ticket names the page it is for and the exact query
+ * it may use, expires quickly, and only works for the session that asked
+ * for it.
+ */
+export const PRINT_TICKET_AUDIENCES = {
+  "student-result": {
+    scope: "student",
+    params: ["session_id", "term_id"],
+  },
+  "parent-child-result": {
+    scope: "parent",
+    params: ["child_id", "session_id", "term_id"],
+  },
+} as const satisfies Record<string, { scope: AuthScope; params: readonly string[] }>;
+
+export type PrintTicketAudience = keyof typeof PRINT_TICKET_AUDIENCES;
+
+const PRINT_TICKET_TTL_SECONDS = 60;
+
+interface PrintTicketClaims {
+  aud: PrintTicketAudience;
+  prm: Record<string, string>;
+  sub: string;
+  exp: number;
+}
+
+export function isPrintTicketAudience(value: unknown): value is PrintTicketAudience {
+  return typeof value === "string" && value in PRINT_TICKET_AUDIENCES;
+}
+
+export function issuePrintTicket(
+  audience: PrintTicketAudience,
+  session: SessionToken,
+  params: Record<string, string>,
+): { ticket: string; expiresAt: string } {
+  const exp = Math.floor(Date.now() / 1000) + PRINT_TICKET_TTL_SECONDS;
+  const claims: PrintTicketClaims = {
+    aud: audience,
+    prm: params,
+    sub: tokenFingerprint(session.token),
+    exp,
+  };
+  const payload = Buffer.from(JSON.stringify(claims), "utf-8").toString("base64url");
+  return {
+    ticket: signPayload(payload),
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a ticket against the page redeeming it and the caller's session,
+ * and return the query parameters it was issued for.
+ */
+export function redeemPrintTicket(
+  ticket: string | null | undefined,
+  audience: PrintTicketAudience,
+  session: SessionToken | null,
+): Record<string, string> | null {
+  if (!ticket || !session) {
+    return null;
+  }
+
+  const payload = verifySignedPayload(ticket);
+  if (!payload) {
+    return null;
+  }
+
+  let claims: PrintTicketClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    return null;
+  }
+
+  if (
+    claims.aud !== audience ||
+    claims.exp < Math.floor(Date.now() / 1000) ||
+    claims.sub !== tokenFingerprint(session.token) ||
+    !claims.prm ||
+    typeof claims.prm !== "object"
+  ) {
+    return null;
+  }
+
+  return claims.prm;
+}
@@ -0,0 +1,234 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+
+/**
+ * AES-256-GCM sealing for the bearer tokens kept in session cookies.
+ *
+ * Keys come from the server-only SESSION_COOKIE_KEYS variable as a
+ * comma-separated list of `keyId:base64Key` pairs. The first key seals new
+ * values; the rest are only used to open values sealed before a rotation,
+ * which are then resealed with the current key on the next request.
+ */
+
+const SEALED_PREFIX = "v2";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+// The pre-v2 cookies were XORed with a secret that also shipped to the
+// browser. They are still readable so existing logins survive the upgrade.
+const LEGACY_COOKIE_SECRETS = [
+  process.env.COOKIE_SECRET,
+  process.env.NEXT_PUBLIC_COOKIE_SECRET,
+  "lynx-cookie-secret",
+].filter((secret): secret is string => Boolean(secret));
+
+const SANCTUM_TOKEN_PATTERN = /^\d+\|\S+$/;
+
+interface SessionKey {
+  id: string;
+  key: Buffer;
+}
+
+let keyRing: SessionKey[] | null = null;
+
+function loadKeyRing(): SessionKey[] {
+  if (keyRing) {
+    return keyRing;
+  }
+
+  const rawValue = process.env.SESSION_COOKIE_KEYS ?? "";
+  const keys = rawValue
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = separator > 0 ? entry.slice(0, separator).trim() : "";
+      const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+      if (!id || id.includes(".") || key.length !== KEY_BYTES) {
+        throw new Error(
+          `SESSION_COOKIE_KEYS entries must look like "keyId:<32 bytes in base64>". Check the entry for "${id || entry.slice(0, 8)}".`,
+        );
+      }
+      return { id, key };
+    });
+
+  if (keys.length === 0) {
+    throw new Error(
+      "SESSION_COOKIE_KEYS is required. Add at least one \"keyId:<base64 key>\" entry to your .env so session cookies can be encrypted.",
+    );
+  }
+
+  keyRing = keys;
+  return keys;
+}
+
+function activeKey(): SessionKey {
+  return loadKeyRing()[0];
+}
+
+function findKey(id: string): SessionKey | undefined {
+  return loadKeyRing().find((entry) => entry.id === id);
+}
+
+export interface OpenedSession {
+  token: string;
+  /** True when the value should be resealed with the current key. */
+  stale: boolean;
+}
+
+/**
+ * Seal a token for a named cookie. The cookie name is bound as associated
+ * data, so a value cannot be moved from one portal's cookie to another's.
+ */
+export function sealToken(token: string, cookieName: string): string {
+  const { id, key } = activeKey();
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(cookieName, "utf-8"));
+  const ciphertext = Buffer.concat([
+    cipher.update(token, "utf-8"),
+    cipher.final(),
+  ]);
+  const tag = cipher.getAuthTag();
+
+  return [
+    SEALED_PREFIX,
+    id,
+    iv.toString("base64url"),
+    ciphertext.toString("base64url"),
+    tag.toString("base64url"),
+  ].join(".");
+}
+
+function openSealed(value: string, cookieName: string): OpenedSession | null {
+  const [prefix, keyId, iv, ciphertext, tag] = value.split(".");
+  if (prefix !== SEALED_PREFIX || !keyId || !iv || !ciphertext || !tag) {
+    return null;
+  }
+
+  const entry = findKey(keyId);
+  if (!entry) {
+    // Sealed with a key that has since been retired.
+    return null;
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      entry.key,
+      Buffer.from(iv, "base64url"),
+    );
+    decipher.setAAD(Buffer.from(cookieName, "utf-8"));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    const token = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf-8");
+    return { token, stale: entry.id !== activeKey().id };
+  } catch {
+    return null;
+  }
+}
+
+const xorCipher = (value: string, secret: string): string => {
+  let output = "";
+  for (let index = 0; index < value.length; index += 1) {
+    output += String.fromCharCode(
+      value.charCodeAt(index) ^ secret.charCodeAt(index % secret.length),
+    );
+  }
+  return output;
+};
+
+function openLegacy(value: string): string | null {
+  let decoded = value;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    // keep as-is
+  }
+
+  if (SANCTUM_TOKEN_PATTERN.test(decoded)) {
+    return decoded;
+  }
+
+  const bytes = Buffer.from(decoded, "base64").toString("utf-8");
+  for (const secret of LEGACY_COOKIE_SECRETS) {
+    const candidate = xorCipher(bytes, secret);
+    if (SANCTUM_TOKEN_PATTERN.test(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Open a cookie value, accepting current, rotated and legacy formats. Anything
+ * that isn't a current-key v2 value comes back marked `stale`.
+ */
+export function openToken(
+  value: string | null | undefined,
+  cookieName: string,
+): OpenedSession | null {
+  if (!value) {
+    return null;
+  }
+
+  if (value.startsWith(`${SEALED_PREFIX}.`)) {
+    return openSealed(value, cookieName);
+  }
+
+  const legacyToken = openLegacy(value);
+  return legacyToken ? { token: legacyToken, stale: true } : null;
+}
+
+/** A short, non-reversible handle for a token, for binding print tickets. */
+export function tokenFingerprint(token: string): string {
+  return createHash("sha256").update(token).digest("base64url").slice(0, 22);
+}
+
+function signingKey(key: Buffer): Buffer {
+  // Derived so a ticket signature never doubles as a use of the cookie key.
+  return createHmac("sha256", key).update("print-ticket").digest();
+}
+
+/** Sign a payload with the current key: `keyId.payload.signature`. */
+export function signPayload(payload: string): string {
+  const { id, key } = activeKey();
+  const signature = createHmac("sha256", signingKey(key))
+    .update(`${id}.${payload}`)
+    .digest("base64url");
+  return `${id}.${payload}.${signature}`;
+}
+
+/** Verify a value produced by signPayload and return the payload. */
+export function verifySignedPayload(value: string): string | null {
+  const [keyId, payload, signature] = value.split(".");
+  if (!keyId || !payload || !signature) {
+    return null;
+  }
+
+  const entry = findKey(keyId);
+  if (!entry) {
+    return null;
+  }
+
+  const expected = createHmac("sha256", signingKey(entry.key))
+    .update(`${keyId}.${payload}`)
+    .digest();
+  const provided = Buffer.from(signature, "base64url");
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return null;
+  }
+  return payload;
+}
@@ -0,0 +1,86 @@
+import { readApiError, type AuthScope } from "@/lib/apiClient";
+import type { PrintTicketAudience } from "@/lib/server/session";
+
+/**
+ * Client side of the session route handlers. Tokens never come back to the
+ * page: the server keeps them in httpOnly cookies, so these calls only say
+ * whether a session exists.
+ */
+
+const sessionPath = (scope: AuthScope) => `/api/session/${scope}`;
+
+/** Log in. Resolves to the backend's login reply with the token removed. */
+export async function openSession<T = Record<string, unknown>>(
+  scope: AuthScope,
+  credentials: unknown,
+): Promise<T> {
+  const response = await fetch(sessionPath(scope), {
+    method: "POST",
+    credentials: "same-origin",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(credentials),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return (await response.json()) as T;
+}
+
+/** Log out on the backend and drop the session cookie. */
+export async function closeSession(scope: AuthScope): Promise<void> {
+  const response = await fetch(sessionPath(scope), {
+    method: "DELETE",
+    credentials: "same-origin",
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+}
+
+export async function hasSession(scope: AuthScope): Promise<boolean> {
+  try {
+    const response = await fetch(sessionPath(scope), {
+      credentials: "same-origin",
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      return false;
+    }
+    const data = (await response.json()) as { authenticated?: boolean };
+    return Boolean(data.authenticated);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ask for a one-minute ticket to open a printable page in a new tab. The
+ * ticket only works for this session and the given filters.
+ */
+export async function requestPrintTicket(
+  audience: PrintTicketAudience,
+  params: Record<string, string | number>,
+): Promise<string> {
+  const response = await fetch("/api/print-tickets", {
+    method: "POST",
+    credentials: "same-origin",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ audience, params }),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  const data = (await response.json()) as { ticket: string };
+  return data.ticket;
+}
@@ -1,4 +1,5 @@
 import { apiFetch } from "@/lib/apiClient";
+import { resolveStudentEndpoint, type StudentScope } from "@/lib/parentAuth";
 
 export type StudentAttendanceStatus =
   | "present"
@@ -42,19 +43,26 @@ export interface StudentAttendanceHistory {
   days: StudentAttendanceDay[];
 }
 
-export async function getStudentAttendance(params: {
-  sessionId: string;
-  termId: string;
-  month: string;
-}): Promise<StudentAttendanceHistory> {
+export async function getStudentAttendance(
+  params: {
+    sessionId: string;
+    termId: string;
+    month: string;
+  },
+  scope: StudentScope = {},
+): Promise<StudentAttendanceHistory> {
   const query = new URLSearchParams({
     session_id: params.sessionId,
     term_id: params.termId,
     month: params.month,
   });
-
-  return apiFetch<StudentAttendanceHistory>(
-    `/api/v1/student/attendance?${query.toString()}`,
-    { authScope: "student" },
+  const { path, authScope } = resolveStudentEndpoint(
+    "/api/v1/student/attendance",
+    "attendance",
+    scope,
   );
+
+  return apiFetch<StudentAttendanceHistory>(`${path}?${query.toString()}`, {
+    authScope,
+  });
 }
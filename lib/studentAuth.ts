@@ -1,5 +1,5 @@
 import { apiFetch } from "@/lib/apiClient";
-import { deleteCookie, setCookie } from "@/lib/cookies";
+import { closeSession, openSession } from "@/lib/session";
 
 export interface StudentLoginPayload {
   admission_no: string;
@@ -67,68 +67,41 @@ export interface StudentProfile {
 }
 
 export interface StudentLoginResponse {
-  token: string;
   student: StudentProfile;
 }
 
 export async function studentLogin(
   payload: StudentLoginPayload,
 ): Promise<StudentLoginResponse> {
-  const response = await apiFetch<StudentLoginResponse>(
-    "/api/v1/student/login",
-    {
-      method: "POST",
-      body: JSON.stringify(payload),
-      skipAuth: true,
-    },
-  );
-
-  if (response.token) {
-    setCookie("student_token", response.token);
-  }
-
-  return response;
+  return openSession<StudentLoginResponse>("student", payload);
 }
 
 export async function studentLoginWithName(
   payload: StudentNameLoginPayload,
 ): Promise<StudentLoginResponse> {
-  const response = await apiFetch<StudentLoginResponse>(
-    "/api/v1/student/login",
-    {
-      method: "POST",
-      body: JSON.stringify(payload),
-      skipAuth: true,
-    },
-  );
-
-  if (response.token) {
-    setCookie("student_token", response.token);
-  }
-
-  return response;
+  return openSession<StudentLoginResponse>("student", payload);
 }
 
 export async function studentLogout(): Promise<void> {
   try {
-    await apiFetch("/api/v1/student/logout", {
-      method: "POST",
-      authScope: "student",
-    });
+    await closeSession("student");
   } catch (error) {
     console.warn("Student logout request failed", error);
-  } finally {
-    deleteCookie("student_token");
   }
 }
 
+/** Like getStudentProfile, but lets the error through for callers that retry. */
+export async function fetchStudentProfile(): Promise<StudentProfile | null> {
+  const response = await apiFetch<{ student: StudentProfile }>(
+    "/api/v1/student/profile",
+    { authScope: "student" },
+  );
+  return response.student ?? null;
+}
+
 export async function getStudentProfile(): Promise<StudentProfile | null> {
   try {
-    const response = await apiFetch<{ student: StudentProfile }>(
-      "/api/v1/student/profile",
-      { authScope: "student" },
-    );
-    return response.student ?? null;
+    return await fetchStudentProfile();
   } catch (error) {
     console.error("Unable to fetch student profile", error);
     return null;
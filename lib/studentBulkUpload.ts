@@ -1,13 +1,9 @@
-import { API_ROUTES, BACKEND_URL } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { backendFetch } from "@/lib/apiClient";
+import { API_ROUTES } from "@/lib/config";
 
-function buildAuthHeaders(): Headers {
+function buildRequestHeaders(): Headers {
   const headers = new Headers();
   headers.set("Accept", "application/json");
-  const token = getCookie("token");
-  if (token) {
-    headers.set("Authorization", `Bearer ${token}`);
-  }
   return headers;
 }
 
@@ -18,7 +14,7 @@ export interface TemplateDownloadParams {
 }
 
 export async function downloadStudentTemplate(params?: TemplateDownloadParams): Promise<Blob> {
-  const headers = buildAuthHeaders();
+  const headers = buildRequestHeaders();
   headers.set("Accept", "text/csv");
 
   // Build query string from params
@@ -34,12 +30,11 @@ export async function downloadStudentTemplate(params?: TemplateDownloadParams):
   }
 
   const queryString = queryParams.toString();
-  const url = `${BACKEND_URL}${API_ROUTES.studentsBulkTemplate}${queryString ? `?${queryString}` : ""}`;
+  const url = `${API_ROUTES.studentsBulkTemplate}${queryString ? `?${queryString}` : ""}`;
 
-  const response = await fetch(url, {
+  const response = await backendFetch(url, {
     method: "GET",
     headers,
-    credentials: "include",
   });
 
   if (!response.ok) {
@@ -151,14 +146,13 @@ export async function previewStudentBulkUpload(
     formData.append("row_updates", JSON.stringify(rowUpdates));
   }
 
-  const headers = buildAuthHeaders();
-  const response = await fetch(
-    `${BACKEND_URL}${API_ROUTES.studentsBulkPreview}`,
+  const headers = buildRequestHeaders();
+  const response = await backendFetch(
+    `${API_ROUTES.studentsBulkPreview}`,
     {
       method: "POST",
       headers,
       body: formData,
-      credentials: "include",
     },
   );
 
@@ -236,7 +230,7 @@ export async function commitStudentBulkUpload(
   decisions?: Record<string, "skip" | "overwrite" | "allow">,
   rowUpdates?: Record<string, BulkRowUpdate>,
 ): Promise<BulkCommitResult> {
-  const headers = buildAuthHeaders();
+  const headers = buildRequestHeaders();
   headers.set("Content-Type", "application/json");
 
   const requestPayload: {
@@ -253,13 +247,12 @@ export async function commitStudentBulkUpload(
 
   const body = Object.keys(requestPayload).length ? JSON.stringify(requestPayload) : undefined;
 
-  const response = await fetch(
-    `${BACKEND_URL}${API_ROUTES.studentsBulkCommit}/${encodeURIComponent(batchId)}/commit`,
+  const response = await backendFetch(
+    `${API_ROUTES.studentsBulkCommit}/${encodeURIComponent(batchId)}/commit`,
     {
       method: "POST",
       headers,
       body,
-      credentials: "include",
     },
   );
 
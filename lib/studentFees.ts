@@ -0,0 +1,519 @@
+import { apiFetch } from "@/lib/apiClient";
+import { API_ROUTES } from "@/lib/config";
+import type { BankDetail } from "@/lib/bankDetails";
+import type { FeeStructure, FeeStructureItem } from "@/lib/fees";
+import { resolveStudentEndpoint, type StudentScope } from "@/lib/parentAuth";
+
+interface NamedRef {
+  id?: string | number;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface FeeInvoiceStudent {
+  id: string | number;
+  admission_no?: string | null;
+  first_name?: string | null;
+  middle_name?: string | null;
+  last_name?: string | null;
+  parent?: {
+    id?: string | number;
+    first_name?: string | null;
+    last_name?: string | null;
+    phone?: string | null;
+  } | null;
+  [key: string]: unknown;
+}
+
+export interface FeeInvoiceItem {
+  id: string | number;
+  fee_structure_item_id?: string | number | null;
+  fee_item_id?: string | number | null;
+  name: string;
+  amount: number | string;
+  is_mandatory?: boolean;
+  [key: string]: unknown;
+}
+
+export interface FeePayment {
+  id: string | number;
+  invoice_id: string | number;
+  amount: number | string;
+  reference: string;
+  payment_date: string;
+  receipt_number?: string | null;
+  note?: string | null;
+  bank_detail_id?: string | number | null;
+  bank_detail?: BankDetail | null;
+  recorded_by?: { id?: string | number; name?: string } | null;
+  created_at?: string | null;
+  [key: string]: unknown;
+}
+
+export type FeeDiscountKind = "discount" | "scholarship";
+export type FeeDiscountMode = "fixed" | "percentage";
+
+export interface FeeDiscount {
+  id: string | number;
+  invoice_id: string | number;
+  kind: FeeDiscountKind;
+  mode: FeeDiscountMode;
+  value: number | string;
+  amount: number | string;
+  reason?: string | null;
+  created_at?: string | null;
+  [key: string]: unknown;
+}
+
+/**
+ * One student's bill for a session/term. The backend keeps the running
+ * totals; `balance` is derived from them when it is not sent.
+ */
+export interface FeeInvoice {
+  id: string | number;
+  invoice_number?: string | null;
+  student_id: string | number;
+  student?: FeeInvoiceStudent | null;
+  session?: NamedRef | null;
+  term?: NamedRef | null;
+  school_class?: NamedRef | null;
+  class_arm?: NamedRef | null;
+  items?: FeeInvoiceItem[];
+  total_amount?: number | string | null;
+  discount_amount?: number | string | null;
+  amount_paid?: number | string | null;
+  balance?: number | string | null;
+  payments?: FeePayment[];
+  discounts?: FeeDiscount[];
+  issued_at?: string | null;
+  created_at?: string | null;
+  [key: string]: unknown;
+}
+
+type FeeInvoiceCollection =
+  | FeeInvoice[]
+  | {
+      data?: FeeInvoice[];
+      last_page?: number;
+      [key: string]: unknown;
+    };
+
+function normalizeFeeInvoices(payload: FeeInvoiceCollection): FeeInvoice[] {
+  if (Array.isArray(payload)) {
+    return payload;
+  }
+  if (payload && Array.isArray(payload.data)) {
+    return payload.data;
+  }
+  return [];
+}
+
+function unwrapInvoice(payload: FeeInvoice | { data?: FeeInvoice }): FeeInvoice {
+  return (payload as { data?: FeeInvoice }).data ?? (payload as FeeInvoice);
+}
+
+export interface FeeInvoiceFilters {
+  session_id: string | number;
+  term_id: string | number;
+  school_class_id?: string | number;
+  class_arm_id?: string | number;
+  student_id?: string | number;
+}
+
+/** Loads every invoice matching the filters, walking all pages. */
+export async function listFeeInvoices(
+  filters: FeeInvoiceFilters,
+): Promise<FeeInvoice[]> {
+  const invoices: FeeInvoice[] = [];
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const query = new URLSearchParams({
+      session_id: String(filters.session_id),
+      term_id: String(filters.term_id),
+      per_page: "500",
+      page: String(page),
+    });
+    if (filters.school_class_id) {
+      query.set("school_class_id", String(filters.school_class_id));
+    }
+    if (filters.class_arm_id) {
+      query.set("class_arm_id", String(filters.class_arm_id));
+    }
+    if (filters.student_id) {
+      query.set("student_id", String(filters.student_id));
+    }
+    const payload = await apiFetch<FeeInvoiceCollection>(
+      `${API_ROUTES.feeInvoices}?${query.toString()}`,
+    );
+    invoices.push(...normalizeFeeInvoices(payload));
+    lastPage =
+      !Array.isArray(payload) && typeof payload?.last_page === "number"
+        ? payload.last_page
+        : page;
+    page += 1;
+  } while (page <= lastPage);
+  return invoices;
+}
+
+export async function getFeeInvoice(
+  invoiceId: string | number,
+): Promise<FeeInvoice> {
+  const payload = await apiFetch<FeeInvoice | { data?: FeeInvoice }>(
+    `${API_ROUTES.feeInvoices}/${invoiceId}`,
+  );
+  return unwrapInvoice(payload);
+}
+
+export interface GenerateFeeInvoicesPayload {
+  session_id: string | number;
+  term_id: string | number;
+  school_class_id: string | number;
+  invoices: Array<{
+    student_id: string | number;
+    /** Optional structure items the student takes; mandatory ones are always billed. */
+    optional_fee_structure_item_ids: Array<string | number>;
+  }>;
+}
+
+export interface GenerateFeeInvoicesResult {
+  message?: string;
+  data?: {
+    created_count?: number;
+    skipped_count?: number;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export async function generateFeeInvoices(
+  payload: GenerateFeeInvoicesPayload,
+): Promise<GenerateFeeInvoicesResult> {
+  return apiFetch<GenerateFeeInvoicesResult>(API_ROUTES.feeInvoicesGenerate, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export interface RecordFeePaymentPayload {
+  invoice_id: string | number;
+  bank_detail_id: string | number;
+  amount: number;
+  reference: string;
+  payment_date: string;
+  note?: string | null;
+}
+
+export async function recordFeePayment(
+  payload: RecordFeePaymentPayload,
+): Promise<FeePayment> {
+  return apiFetch<FeePayment>(API_ROUTES.feePayments, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export interface ApplyFeeDiscountPayload {
+  invoice_id: string | number;
+  kind: FeeDiscountKind;
+  mode: FeeDiscountMode;
+  value: number;
+  amount: number;
+  reason?: string | null;
+}
+
+export async function applyFeeDiscount(
+  payload: ApplyFeeDiscountPayload,
+): Promise<FeeDiscount> {
+  return apiFetch<FeeDiscount>(API_ROUTES.feeDiscounts, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function removeFeeDiscount(
+  discountId: string | number,
+): Promise<void> {
+  await apiFetch(`${API_ROUTES.feeDiscounts}/${discountId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getStudentFeeStatement(
+  params: {
+    session_id?: string;
+    term_id?: string;
+  } = {},
+  scope: StudentScope = {},
+): Promise<FeeInvoice[]> {
+  const query = new URLSearchParams();
+  if (params.session_id) query.set("session_id", params.session_id);
+  if (params.term_id) query.set("term_id", params.term_id);
+  const suffix = query.toString() ? `?${query.toString()}` : "";
+  const { path, authScope } = resolveStudentEndpoint(
+    API_ROUTES.studentFeeStatement,
+    "fees/statement",
+    scope,
+  );
+  const payload = await apiFetch<FeeInvoiceCollection>(`${path}${suffix}`, {
+    authScope,
+  });
+  return normalizeFeeInvoices(payload);
+}
+
+export function toAmount(value: number | string | null | undefined): number {
+  const amount = Number(value ?? 0);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/** The structure billed to a class; `null` when the bursar has not set one up. */
+export function findClassFeeStructure(
+  structures: FeeStructure[],
+  classId: string | number,
+): FeeStructure | null {
+  return (
+    structures.find((structure) => String(structure.class?.id) === String(classId)) ??
+    null
+  );
+}
+
+export function splitFeeStructureItems(structure: FeeStructure | null): {
+  mandatory: FeeStructureItem[];
+  optional: FeeStructureItem[];
+} {
+  const items = structure?.fee_items ?? [];
+  return {
+    mandatory: items.filter((item) => item.is_mandatory !== false),
+    optional: items.filter((item) => item.is_mandatory === false),
+  };
+}
+
+/** What an invoice will total before discounts, for the generation preview. */
+export function previewInvoiceTotal(
+  structure: FeeStructure | null,
+  optionalItemIds: Array<string | number>,
+): number {
+  const { mandatory, optional } = splitFeeStructureItems(structure);
+  const chosen = new Set(optionalItemIds.map(String));
+  return [
+    ...mandatory,
+    ...optional.filter((item) => chosen.has(String(item.id))),
+  ].reduce((sum, item) => sum + toAmount(item.amount), 0);
+}
+
+/**
+ * Naira value of a discount. Percentages apply to the gross invoice and
+ * nothing can take the running discount past the invoice total.
+ */
+export function computeDiscountAmount(
+  invoice: FeeInvoice,
+  mode: FeeDiscountMode,
+  value: number,
+): number {
+  const gross = toAmount(invoice.total_amount);
+  const alreadyDiscounted = toAmount(invoice.discount_amount);
+  const raw = mode === "percentage" ? (gross * value) / 100 : value;
+  const capped = Math.min(Math.max(raw, 0), Math.max(gross - alreadyDiscounted, 0));
+  return Math.round(capped * 100) / 100;
+}
+
+export function invoiceBalance(invoice: FeeInvoice): number {
+  if (invoice.balance !== undefined && invoice.balance !== null) {
+    return toAmount(invoice.balance);
+  }
+  return Math.max(
+    toAmount(invoice.total_amount) -
+      toAmount(invoice.discount_amount) -
+      toAmount(invoice.amount_paid),
+    0,
+  );
+}
+
+export type FeeInvoiceStatus = "paid" | "part_paid" | "unpaid";
+
+export function invoiceStatus(invoice: FeeInvoice): FeeInvoiceStatus {
+  if (invoiceBalance(invoice) <= 0) {
+    return "paid";
+  }
+  return toAmount(invoice.amount_paid) > 0 ? "part_paid" : "unpaid";
+}
+
+export function studentDisplayName(
+  student: FeeInvoiceStudent | null | undefined,
+): string {
+  if (!student) return "";
+  return [student.first_name, student.middle_name, student.last_name]
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+}
+
+export interface ClassBalanceSummary {
+  classId: string;
+  className: string;
+  invoiceCount: number;
+  debtorCount: number;
+  invoiced: number;
+  discounts: number;
+  paid: number;
+  outstanding: number;
+}
+
+export function summarizeClassBalances(
+  invoices: FeeInvoice[],
+): ClassBalanceSummary[] {
+  const byClass = new Map<string, ClassBalanceSummary>();
+  invoices.forEach((invoice) => {
+    const classId = String(invoice.school_class?.id ?? "");
+    const summary = byClass.get(classId) ?? {
+      classId,
+      className: invoice.school_class?.name ?? "Unassigned",
+      invoiceCount: 0,
+      debtorCount: 0,
+      invoiced: 0,
+      discounts: 0,
+      paid: 0,
+      outstanding: 0,
+    };
+    const balance = invoiceBalance(invoice);
+    summary.invoiceCount += 1;
+    summary.debtorCount += balance > 0 ? 1 : 0;
+    summary.invoiced += toAmount(invoice.total_amount);
+    summary.discounts += toAmount(invoice.discount_amount);
+    summary.paid += toAmount(invoice.amount_paid);
+    summary.outstanding += balance;
+    byClass.set(classId, summary);
+  });
+  return Array.from(byClass.values()).sort((a, b) =>
+    a.className.localeCompare(b.className, undefined, { numeric: true }),
+  );
+}
+
+export interface FeeDebtor {
+  studentId: string;
+  admissionNo: string;
+  name: string;
+  className: string;
+  armName: string;
+  parentName: string;
+  parentPhone: string;
+  invoiced: number;
+  discounts: number;
+  paid: number;
+  outstanding: number;
+  invoiceCount: number;
+}
+
+/** Students with anything left to pay, largest balance first. */
+export function summarizeDebtors(invoices: FeeInvoice[]): FeeDebtor[] {
+  const byStudent = new Map<string, FeeDebtor>();
+  invoices.forEach((invoice) => {
+    const balance = invoiceBalance(invoice);
+    if (balance <= 0) {
+      return;
+    }
+    const studentId = String(invoice.student_id);
+    const parent = invoice.student?.parent;
+    const debtor = byStudent.get(studentId) ?? {
+      studentId,
+      admissionNo: invoice.student?.admission_no ?? "",
+      name: studentDisplayName(invoice.student),
+      className: invoice.school_class?.name ?? "",
+      armName: invoice.class_arm?.name ?? "",
+      parentName: parent
+        ? [parent.first_name, parent.last_name].filter(Boolean).join(" ")
+        : "",
+      parentPhone: parent?.phone ?? "",
+      invoiced: 0,
+      discounts: 0,
+      paid: 0,
+      outstanding: 0,
+      invoiceCount: 0,
+    };
+    debtor.invoiced += toAmount(invoice.total_amount);
+    debtor.discounts += toAmount(invoice.discount_amount);
+    debtor.paid += toAmount(invoice.amount_paid);
+    debtor.outstanding += balance;
+    debtor.invoiceCount += 1;
+    byStudent.set(studentId, debtor);
+  });
+  return Array.from(byStudent.values()).sort(
+    (a, b) => b.outstanding - a.outstanding,
+  );
+}
+
+export interface FeeStatementEntry {
+  key: string;
+  date: string | null;
+  description: string;
+  reference: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+/**
+ * Flattens invoices into a bank-style statement: each invoice is a debit,
+ * each discount and payment a credit, with a running balance.
+ */
+export function buildFeeStatement(invoices: FeeInvoice[]): FeeStatementEntry[] {
+  const entries: Array<Omit<FeeStatementEntry, "balance"> & { order: number }> = [];
+  invoices.forEach((invoice) => {
+    const period = [invoice.term?.name, invoice.session?.name].filter(Boolean).join(" ");
+    entries.push({
+      key: `invoice-${invoice.id}`,
+      date: invoice.issued_at ?? invoice.created_at ?? null,
+      description: period ? `School fees – ${period}` : "School fees",
+      reference: invoice.invoice_number ?? String(invoice.id),
+      debit: toAmount(invoice.total_amount),
+      credit: 0,
+      order: 0,
+    });
+    (invoice.discounts ?? []).forEach((discount) => {
+      entries.push({
+        key: `discount-${discount.id}`,
+        date: discount.created_at ?? invoice.issued_at ?? null,
+        description:
+          discount.kind === "scholarship"
+            ? `Scholarship${discount.reason ? ` – ${discount.reason}` : ""}`
+            : `Discount${discount.reason ? ` – ${discount.reason}` : ""}`,
+        reference: invoice.invoice_number ?? String(invoice.id),
+        debit: 0,
+        credit: toAmount(discount.amount),
+        order: 1,
+      });
+    });
+    (invoice.payments ?? []).forEach((payment) => {
+      entries.push({
+        key: `payment-${payment.id}`,
+        date: payment.payment_date,
+        description: payment.bank_detail
+          ? `Payment – ${payment.bank_detail.bank_name}`
+          : "Payment",
+        reference: payment.receipt_number ?? payment.reference,
+        debit: 0,
+        credit: toAmount(payment.amount),
+        order: 2,
+      });
+    });
+  });
+
+  entries.sort((a, b) => {
+    const byDate = String(a.date ?? "").localeCompare(String(b.date ?? ""));
+    return byDate !== 0 ? byDate : a.order - b.order;
+  });
+
+  let running = 0;
+  return entries.map((entry) => {
+    running += entry.debit - entry.credit;
+    return {
+      key: entry.key,
+      date: entry.date,
+      description: entry.description,
+      reference: entry.reference,
+      debit: entry.debit,
+      credit: entry.credit,
+      balance: Math.round(running * 100) / 100,
+    };
+  });
+}
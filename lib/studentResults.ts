@@ -1,4 +1,5 @@
 import { apiFetch } from "@/lib/apiClient";
+import { resolveStudentEndpoint, type StudentScope } from "@/lib/parentAuth";
 
 export interface StudentSessionOption {
   id: string;
@@ -10,9 +11,21 @@ export interface StudentSessionOption {
     start_date?: string | null;
     end_date?: string | null;
     attendance_entry_mode?: "daily" | "manual";
+    /** False until the term's results are published for the student's class. */
+    results_published?: boolean;
   }>;
 }
 
+type StudentTermOption = NonNullable<StudentSessionOption["terms"]>[number];
+
+/** Older backends don't report publication, and publish everything. */
+export const isTermResultPublished = (term: StudentTermOption) =>
+  term.results_published !== false;
+
+/** The term to preselect: the first whose results are published. */
+export const defaultResultTerm = (session: StudentSessionOption | undefined) =>
+  session?.terms?.find(isTermResultPublished) ?? null;
+
 export interface StudentResultComponent {
   id?: string | null;
   label?: string | null;
@@ -40,14 +53,18 @@ export interface StudentSessionsResponse {
   requirePinForResultAccess: boolean;
 }
 
-export async function listStudentSessions(): Promise<StudentSessionsResponse> {
+export async function listStudentSessions(
+  scope: StudentScope = {},
+): Promise<StudentSessionsResponse> {
+  const { path, authScope } = resolveStudentEndpoint(
+    "/api/v1/student/sessions",
+    "sessions",
+    scope,
+  );
   const payload = await apiFetch<{
     data: StudentSessionOption[];
     meta?: { require_pin_for_pdf_download?: boolean };
-  }>(
-    "/api/v1/student/sessions",
-    { authScope: "student" },
-  );
+  }>(path, { authScope });
   return {
     sessions: Array.isArray(payload.data) ? payload.data : [],
     requirePinForResultAccess:
@@ -55,14 +72,24 @@ export async function listStudentSessions(): Promise<StudentSessionsResponse> {
   };
 }
 
-export async function previewStudentResult(params: {
-  session_id: string;
-  term_id: string;
-  pin_code?: string;
-}): Promise<StudentResultResponse> {
-  return apiFetch<StudentResultResponse>("/api/v1/student/results/preview", {
+export async function previewStudentResult(
+  params: {
+    session_id: string;
+    term_id: string;
+    pin_code?: string;
+  },
+  scope: StudentScope = {},
+): Promise<StudentResultResponse> {
+  const { path, authScope } = resolveStudentEndpoint(
+    "/api/v1/student/results/preview",
+    "results/preview",
+    scope,
+  );
+  // The backend shows student and parent sessions published results only,
+  // answering 423 when the term has none yet.
+  return apiFetch<StudentResultResponse>(path, {
     method: "POST",
-    authScope: "student",
+    authScope,
     body: JSON.stringify(params),
   });
 }
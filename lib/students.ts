@@ -1,6 +1,4 @@
-import { apiFetch } from "@/lib/apiClient";
-import { BACKEND_URL } from "@/lib/config";
-import { getCookie } from "@/lib/cookies";
+import { apiFetch, backendFetch } from "@/lib/apiClient";
 
 export interface StudentDelectionWithDependenciesError extends Error {
   dependencies?: string[];
@@ -216,12 +214,9 @@ export interface StudentDelectionWithDependenciesError extends Error {
 export async function deleteStudent(
   studentId: number | string,
 ): Promise<void> {
-  const token = getCookie("token");
-  const response = await fetch(`${BACKEND_URL}/api/v1/students/${studentId}`, {
+  const response = await backendFetch(`/api/v1/students/${studentId}`, {
     method: "DELETE",
-    credentials: "include",
     headers: {
-      Authorization: `Bearer ${token}`,
       Accept: "application/json",
     },
   });
@@ -264,14 +259,11 @@ export async function deleteStudent(
 export async function deleteDependentRecords(
   studentId: number | string,
 ): Promise<{ message: string; deleted_counts: Record<string, number> }> {
-  const token = getCookie("token");
-  const response = await fetch(
-    `${BACKEND_URL}/api/v1/students/${studentId}/dependent-records`,
+  const response = await backendFetch(
+    `/api/v1/students/${studentId}/dependent-records`,
     {
       method: "DELETE",
-      credentials: "include",
       headers: {
-        Authorization: `Bearer ${token}`,
         Accept: "application/json",
       },
     },